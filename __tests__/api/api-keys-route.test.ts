@@ -0,0 +1,105 @@
+/**
+ * /api/api-keys route tests
+ *
+ * GET: List keys of the user
+ * POST: Name validation → active key limit → hashed insert, key returned once
+ * DELETE /api/api-keys/[keyId]: Revoke with ownership check
+ */
+
+// --- Mocks (must be defined before imports) ---
+
+const mockExecute = jest.fn();
+const mockGetTursoClient = jest.fn();
+jest.mock('@/lib/turso', () => ({
+  getTursoClient: (...args: unknown[]) => mockGetTursoClient(...args),
+}));
+
+// --- Helpers ---
+
+function buildPostRequest(body: unknown) {
+  return new NextRequest('http://localhost:3000/api/api-keys', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+// --- Import route handlers (after mocks) ---
+import { GET, POST } from '@/app/api/api-keys/route';
+import { DELETE } from '@/app/api/api-keys/[keyId]/route';
+import { hashApiKey } from '@/lib/api-keys';
+import { NextRequest } from 'next/server';
+
+describe('/api/api-keys', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetTursoClient.mockResolvedValue({ client: { execute: mockExecute }, userId: VALID_USER_ID });
+  });
+
+  it('is session-only', async () => {
+    mockExecute.mockResolvedValue({ rows: [] });
+
+    await GET();
+    await POST(buildPostRequest({ name: 'CI' }));
+
+    // API keys are never accepted for key management
+    expect(mockGetTursoClient.mock.calls.every((call) => call.length === 0)).toBe(true);
+  });
+
+  it('returns 401 when not authenticated', async () => {
+    mockGetTursoClient.mockRejectedValue(new Error('Unauthorized'));
+
+    expect((await GET()).status).toBe(401);
+    expect((await POST(buildPostRequest({ name: 'CI' }))).status).toBe(401);
+  });
+
+  it('lists keys without their hash', async () => {
+    mockExecute.mockResolvedValue({
+      rows: [{ id: 'key_1', name: 'CI', key_prefix: 'vak_12345678', created_at: 't1', last_used_at: null, revoked_at: null }],
+    });
+
+    const body = await (await GET()).json();
+
+    expect(body.keys).toEqual([
+      { id: 'key_1', name: 'CI', keyPrefix: 'vak_12345678', createdAt: 't1', lastUsedAt: null, revokedAt: null },
+    ]);
+    expect(mockExecute.mock.calls[0][0].args).toEqual([VALID_USER_ID]);
+  });
+
+  it('creates a key and stores only its hash', async () => {
+    mockExecute
+      .mockResolvedValueOnce({ rows: [{ cnt: 0 }] })
+      .mockResolvedValueOnce({ rowsAffected: 1 });
+
+    const res = await POST(buildPostRequest({ name: '  CI pipeline ' }));
+    expect(res.status).toBe(201);
+
+    const body = await res.json();
+    expect(body.name).toBe('CI pipeline');
+    expect(body.key).toMatch(/^vak_/);
+
+    const insertArgs = mockExecute.mock.calls[1][0].args;
+    expect(insertArgs).toContain(hashApiKey(body.key));
+    expect(insertArgs).not.toContain(body.key);
+  });
+
+  it('rejects missing names and too many active keys', async () => {
+    expect((await POST(buildPostRequest({ name: ' ' }))).status).toBe(400);
+
+    mockExecute.mockResolvedValueOnce({ rows: [{ cnt: 10 }] });
+    expect((await POST(buildPostRequest({ name: 'CI' }))).status).toBe(409);
+  });
+
+  it('revokes only keys of the user', async () => {
+    mockExecute.mockResolvedValueOnce({ rowsAffected: 1 });
+    const params = { params: { keyId: 'key_1' } };
+
+    const res = await DELETE(new NextRequest('http://localhost:3000/api/api-keys/key_1', { method: 'DELETE' }), params);
+    expect(res.status).toBe(200);
+    expect(mockExecute.mock.calls[0][0].args.slice(1)).toEqual(['key_1', VALID_USER_ID]);
+
+    mockExecute.mockResolvedValueOnce({ rowsAffected: 0 });
+    const missing = await DELETE(new NextRequest('http://localhost:3000/api/api-keys/key_2', { method: 'DELETE' }), params);
+    expect(missing.status).toBe(404);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * /api/search route tests
+ *
+ * Auth (session or API key) → query validation → user-scoped FTS query → hits with snippets
+ */
+
+// --- Mocks (must be defined before imports) ---
+
+const mockExecute = jest.fn();
+const mockGetTursoClient = jest.fn();
+jest.mock('@/lib/turso', () => ({
+  getTursoClient: (...args: unknown[]) => mockGetTursoClient(...args),
+}));
+
+jest.mock('@/lib/api-keys', () => ({
+  RATE_LIMIT_EXCEEDED: 'RATE_LIMIT_EXCEEDED',
+  rateLimitResponse: () => new Response(null, { status: 429 }),
+}));
+
+// --- Helpers ---
+
+function buildRequest(query: string) {
+  return new NextRequest(`http://localhost:3000/api/search${query}`);
+}
+
+// --- Import route handler (after mocks) ---
+import { GET } from '@/app/api/search/route';
+import { NextRequest } from 'next/server';
+
+describe('/api/search GET', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetTursoClient.mockResolvedValue({ client: { execute: mockExecute }, userId: VALID_USER_ID });
+  });
+
+  it('accepts API keys and returns 401 when not authenticated', async () => {
+    mockGetTursoClient.mockRejectedValue(new Error('Unauthorized'));
+
+    const res = await GET(buildRequest('?q=ice'));
+
+    expect(res.status).toBe(401);
+    expect(mockGetTursoClient).toHaveBeenCalledWith({ allowApiKey: true });
+  });
+
+  it('returns 400 without a query or with an invalid page', async () => {
+    expect((await GET(buildRequest(''))).status).toBe(400);
+    expect((await GET(buildRequest('?q=ice&page=0'))).status).toBe(400);
+    expect(mockExecute).not.toHaveBeenCalled();
+  });
+
+  it('returns matching scenes of the caller with thumbnails and snippets', async () => {
+    mockExecute.mockResolvedValue({
+      rows: [
+        {
+          upload_id: 'upload_1',
+          file_name: 'launch.mp4',
+          scene_number: 3,
+          start_time: 12.5,
+          timecode: '00:00:12',
+          screenshot_file: 'scene_0003.png',
+          ocr_text: '新商品アイスクリーム',
+          narration_text: '',
+        },
+      ],
+    });
+
+    const res = await GET(buildRequest('?q=アイス'));
+    const json = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(mockExecute.mock.calls[0][0].args[0]).toBe(VALID_USER_ID);
+    expect(json.results).toEqual([
+      {
+        uploadId: 'upload_1',
+        fileName: 'launch.mp4',
+        sceneNumber: 3,
+        startTime: 12.5,
+        timecode: '00:00:12',
+        thumbnailUrl: '/api/uploads/upload_1/screenshots/scene_0003.png',
+        field: 'ocr',
+        snippet: [
+          { text: '新商品', highlight: false },
+          { text: 'アイス', highlight: true },
+          { text: 'クリーム', highlight: false },
+        ],
+      },
+    ]);
+    expect(json.pagination).toEqual({ page: 1, pageSize: 20, hasMore: false });
+  });
+
+  it('returns no results before anything is indexed', async () => {
+    mockExecute.mockRejectedValue(new Error('SQLITE_ERROR: no such table: scene_search'));
+
+    const res = await GET(buildRequest('?q=ice'));
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).results).toEqual([]);
+  });
+});
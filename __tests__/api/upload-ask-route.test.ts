@@ -0,0 +1,101 @@
+/**
+ * /api/uploads/[uploadId]/ask route tests
+ *
+ * POST: Question validation → ownership and status check → Worker /result/:uploadId/ask forwarding
+ */
+
+// --- Mocks (must be defined before imports) ---
+
+const mockExecute = jest.fn();
+const mockGetTursoClient = jest.fn();
+jest.mock('@/lib/turso', () => ({
+  getTursoClient: (...args: unknown[]) => mockGetTursoClient(...args),
+}));
+
+jest.mock('@/lib/api-keys', () => ({
+  RATE_LIMIT_EXCEEDED: 'RATE_LIMIT_EXCEEDED',
+  rateLimitResponse: () => new Response(null, { status: 429 }),
+}));
+
+// --- Helpers ---
+
+function buildRequest(body: unknown) {
+  return new NextRequest(`http://localhost:3000/api/uploads/${VALID_UPLOAD_ID}/ask`, {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+// --- Import route handler (after mocks) ---
+import { POST } from '@/app/api/uploads/[uploadId]/ask/route';
+import { NextRequest } from 'next/server';
+
+describe('/api/uploads/[uploadId]/ask POST', () => {
+  const params = { params: { uploadId: VALID_UPLOAD_ID } };
+  const mockFetch = jest.fn();
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetTursoClient.mockResolvedValue({ client: { execute: mockExecute }, userId: VALID_USER_ID });
+    mockExecute.mockResolvedValue({ rows: [{ status: 'completed' }] });
+    global.fetch = mockFetch as unknown as typeof fetch;
+    setWorkerEnv();
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('accepts API keys and returns 401 when not authenticated', async () => {
+    mockGetTursoClient.mockRejectedValue(new Error('Unauthorized'));
+
+    const res = await POST(buildRequest({ question: 'pricing?' }), params);
+    expect(res.status).toBe(401);
+    expect(mockGetTursoClient).toHaveBeenCalledWith({ allowApiKey: true });
+  });
+
+  it('returns 400 for empty or oversized questions without calling the Worker', async () => {
+    expect((await POST(buildRequest({ question: '  ' }), params)).status).toBe(400);
+    expect((await POST(buildRequest({ question: 'x'.repeat(501) }), params)).status).toBe(400);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 when the upload belongs to another user', async () => {
+    mockExecute.mockResolvedValue({ rows: [] });
+
+    const res = await POST(buildRequest({ question: 'pricing?' }), params);
+    expect(res.status).toBe(404);
+    expect(mockExecute.mock.calls[0][0].args).toEqual([VALID_UPLOAD_ID, VALID_USER_ID]);
+  });
+
+  it('returns 409 while processing is still running', async () => {
+    mockExecute.mockResolvedValue({ rows: [{ status: 'processing' }] });
+
+    const res = await POST(buildRequest({ question: 'pricing?' }), params);
+    expect(res.status).toBe(409);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('forwards the trimmed question and returns the cited answer', async () => {
+    const citations = [{ sceneNumber: 3, startTime: 30, timecode: '00:00:30' }];
+    mockFetch.mockResolvedValue(new Response(JSON.stringify({ uploadId: VALID_UPLOAD_ID, answer: 'Scene 3', citations })));
+
+    const res = await POST(buildRequest({ question: ' pricing? ' }), params);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ uploadId: VALID_UPLOAD_ID, answer: 'Scene 3', citations });
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe(`https://worker.example.com/result/${VALID_UPLOAD_ID}/ask`);
+    expect(JSON.parse(init.body)).toEqual({ userId: VALID_USER_ID, question: 'pricing?' });
+  });
+
+  it('passes a missing semantic index through as 404', async () => {
+    mockFetch.mockResolvedValue(new Response(JSON.stringify({ error: 'No indexed scenes for this upload' }), { status: 404 }));
+
+    const res = await POST(buildRequest({ question: 'pricing?' }), params);
+    expect(res.status).toBe(404);
+    expect((await res.json()).error).toBe('No indexed scenes for this upload');
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * /api/uploads/[uploadId]/cancel route tests
+ *
+ * POST: Ownership and status check → Worker /cancel forwarding
+ */
+
+// --- Mocks (must be defined before imports) ---
+
+const mockExecute = jest.fn();
+const mockGetTursoClient = jest.fn();
+jest.mock('@/lib/turso', () => ({
+  getTursoClient: () => mockGetTursoClient(),
+}));
+
+// --- Helpers ---
+
+function buildRequest() {
+  return new NextRequest(`http://localhost:3000/api/uploads/${VALID_UPLOAD_ID}/cancel`, {
+    method: 'POST',
+  });
+}
+
+// --- Import route handler (after mocks) ---
+import { POST } from '@/app/api/uploads/[uploadId]/cancel/route';
+import { NextRequest } from 'next/server';
+
+describe('/api/uploads/[uploadId]/cancel POST', () => {
+  const params = { params: { uploadId: VALID_UPLOAD_ID } };
+  const mockFetch = jest.fn();
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetTursoClient.mockResolvedValue({ client: { execute: mockExecute }, userId: VALID_USER_ID });
+    mockExecute.mockResolvedValue(statusRow('processing'));
+    global.fetch = mockFetch as unknown as typeof fetch;
+    setWorkerEnv();
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('returns 401 when not authenticated', async () => {
+    mockGetTursoClient.mockRejectedValue(new Error('Unauthorized'));
+
+    const res = await POST(buildRequest(), params);
+    expect(res.status).toBe(401);
+  });
+
+  it('returns 404 when the upload belongs to another user', async () => {
+    mockExecute.mockResolvedValue({ rows: [] });
+
+    const res = await POST(buildRequest(), params);
+    expect(res.status).toBe(404);
+    expect(mockExecute.mock.calls[0][0].args).toEqual([VALID_UPLOAD_ID, VALID_USER_ID]);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('returns 409 once processing has finished', async () => {
+    for (const status of ['completed', 'error', 'cancelled']) {
+      mockExecute.mockResolvedValue(statusRow(status));
+      expect((await POST(buildRequest(), params)).status).toBe(409);
+    }
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('forwards the upload and owner to the Worker', async () => {
+    mockFetch.mockResolvedValue(new Response(JSON.stringify({ success: true, status: 'cancelling' }), { status: 202 }));
+
+    const res = await POST(buildRequest(), params);
+    expect(res.status).toBe(202);
+    expect(await res.json()).toEqual({ success: true, uploadId: VALID_UPLOAD_ID, status: 'cancelling' });
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe('https://worker.example.com/cancel');
+    expect(JSON.parse(init.body)).toEqual({ uploadId: VALID_UPLOAD_ID, userId: VALID_USER_ID });
+  });
+
+  it('reports queued jobs as cancelled immediately', async () => {
+    mockExecute.mockResolvedValue(statusRow('queued'));
+    mockFetch.mockResolvedValue(new Response(JSON.stringify({ success: true, status: 'cancelled' }), { status: 200 }));
+
+    const res = await POST(buildRequest(), params);
+    expect(res.status).toBe(200);
+    expect((await res.json()).status).toBe('cancelled');
+  });
+
+  it('passes Worker conflicts through', async () => {
+    mockFetch.mockResolvedValue(new Response(JSON.stringify({ error: 'Upload is not processing (status: completed)' }), { status: 409 }));
+
+    const res = await POST(buildRequest(), params);
+    expect(res.status).toBe(409);
+    expect((await res.json()).error).toBe('Upload is not processing (status: completed)');
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * /api/uploads/[uploadId]/rerun route tests
+ *
+ * POST: Request validation → ownership and status check → Worker /rerun forwarding
+ */
+
+// --- Mocks (must be defined before imports) ---
+
+const mockExecute = jest.fn();
+const mockGetTursoClient = jest.fn();
+jest.mock('@/lib/turso', () => ({
+  getTursoClient: () => mockGetTursoClient(),
+}));
+
+// --- Helpers ---
+
+function buildRequest(body: unknown) {
+  return new NextRequest(`http://localhost:3000/api/uploads/${VALID_UPLOAD_ID}/rerun`, {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+// --- Import route handler (after mocks) ---
+import { POST } from '@/app/api/uploads/[uploadId]/rerun/route';
+import { NextRequest } from 'next/server';
+
+describe('/api/uploads/[uploadId]/rerun POST', () => {
+  const params = { params: { uploadId: VALID_UPLOAD_ID } };
+  const mockFetch = jest.fn();
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetTursoClient.mockResolvedValue({ client: { execute: mockExecute }, userId: VALID_USER_ID });
+    mockExecute.mockResolvedValue(statusRow('completed', { fileName: 'test.mp4' }));
+    global.fetch = mockFetch as unknown as typeof fetch;
+    setWorkerEnv();
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('returns 401 when not authenticated', async () => {
+    mockGetTursoClient.mockRejectedValue(new Error('Unauthorized'));
+
+    const res = await POST(buildRequest({ fromStep: 'ocr' }), params);
+    expect(res.status).toBe(401);
+  });
+
+  it('returns 400 for unknown steps or invalid options without calling the Worker', async () => {
+    expect((await POST(buildRequest({ fromStep: 'downloading' }), params)).status).toBe(400);
+    expect((await POST(buildRequest({ fromStep: 'ocr', options: { timecodeStyle: 'frames' } }), params)).status).toBe(400);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 when the upload belongs to another user', async () => {
+    mockExecute.mockResolvedValue({ rows: [] });
+
+    const res = await POST(buildRequest({ fromStep: 'ocr' }), params);
+    expect(res.status).toBe(404);
+    expect(mockExecute.mock.calls[0][0].args).toEqual([VALID_UPLOAD_ID, VALID_USER_ID]);
+  });
+
+  it('returns 409 while processing is still running', async () => {
+    mockExecute.mockResolvedValue(statusRow('processing', null));
+
+    const res = await POST(buildRequest({ fromStep: 'ocr' }), params);
+    expect(res.status).toBe(409);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('forwards the step, options and file name to the Worker', async () => {
+    mockFetch.mockResolvedValue(new Response(JSON.stringify({ success: true }), { status: 202 }));
+
+    const res = await POST(buildRequest({ fromStep: 'excel_generation', options: { timecodeStyle: 'smpte' } }), params);
+    expect(res.status).toBe(202);
+    expect(await res.json()).toEqual({ success: true, uploadId: VALID_UPLOAD_ID, fromStep: 'excel_generation' });
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe('https://worker.example.com/rerun');
+    expect(JSON.parse(init.body)).toEqual({
+      uploadId: VALID_UPLOAD_ID,
+      userId: VALID_USER_ID,
+      fileName: 'test.mp4',
+      fromStep: 'excel_generation',
+      options: { timecodeStyle: 'smpte' },
+    });
+  });
+
+  it('passes Worker checkpoint errors through', async () => {
+    mockExecute.mockResolvedValue(statusRow('error', { fileName: 'test.mp4' }));
+    mockFetch.mockResolvedValue(new Response(JSON.stringify({ error: 'No retained processing data' }), { status: 404 }));
+
+    const res = await POST(buildRequest({ fromStep: 'ocr' }), params);
+    expect(res.status).toBe(404);
+    expect((await res.json()).error).toBe('No retained processing data');
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * /api/webhooks route tests
+ *
+ * GET: Current endpoint with masked secret
+ * PUT: URL validation → upsert with a new signing secret
+ * DELETE: Remove the endpoint
+ */
+
+// --- Mocks (must be defined before imports) ---
+
+const mockExecute = jest.fn();
+const mockGetTursoClient = jest.fn();
+jest.mock('@/lib/turso', () => ({
+  getTursoClient: () => mockGetTursoClient(),
+}));
+
+// --- Helpers ---
+
+function buildPutRequest(body: unknown) {
+  return new NextRequest('http://localhost:3000/api/webhooks', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+// --- Import route handlers (after mocks) ---
+import { GET, PUT, DELETE } from '@/app/api/webhooks/route';
+import { NextRequest } from 'next/server';
+
+describe('/api/webhooks', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetTursoClient.mockResolvedValue({ client: { execute: mockExecute }, userId: VALID_USER_ID });
+    mockExecute.mockResolvedValue({ rows: [], rowsAffected: 1 });
+    (process.env as Record<string, string>).NODE_ENV = 'production';
+  });
+
+  it('returns 401 when not authenticated', async () => {
+    mockGetTursoClient.mockRejectedValue(new Error('Unauthorized'));
+
+    expect((await GET()).status).toBe(401);
+    expect((await PUT(buildPutRequest({ url: 'https://example.com/hook' }))).status).toBe(401);
+    expect((await DELETE()).status).toBe(401);
+  });
+
+  it('returns the endpoint with a masked secret', async () => {
+    mockExecute.mockResolvedValue({
+      rows: [{ url: 'https://example.com/hook', secret: 'whsec_abcdef1234', created_at: 't1', updated_at: 't2' }],
+    });
+
+    const res = await GET();
+    expect(await res.json()).toEqual({
+      endpoint: { url: 'https://example.com/hook', secretPreview: 'whsec_…1234', createdAt: 't1', updatedAt: 't2' },
+    });
+    expect(mockExecute.mock.calls[0][0].args).toEqual([VALID_USER_ID]);
+  });
+
+  it('saves the endpoint and returns a new secret once', async () => {
+    const res = await PUT(buildPutRequest({ url: 'https://example.com/hook' }));
+    expect(res.status).toBe(200);
+
+    const body = await res.json();
+    expect(body.url).toBe('https://example.com/hook');
+    expect(body.secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+
+    const args = mockExecute.mock.calls[0][0].args;
+    expect(args.slice(0, 3)).toEqual([VALID_USER_ID, 'https://example.com/hook', body.secret]);
+  });
+
+  it('rejects non-https and private URLs', async () => {
+    for (const url of ['http://example.com/hook', 'https://127.0.0.1/hook', 'https://localhost/hook', 'not a url', '']) {
+      const res = await PUT(buildPutRequest({ url }));
+      expect(res.status).toBe(400);
+    }
+    expect(mockExecute).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 when deleting without an endpoint', async () => {
+    mockExecute.mockResolvedValue({ rows: [], rowsAffected: 0 });
+
+    expect((await DELETE()).status).toBe(404);
+  });
+});
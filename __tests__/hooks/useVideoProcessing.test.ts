@@ -1,6 +1,8 @@
-import { renderHook, waitFor } from '@testing-library/react';
+import { act, renderHook, waitFor } from '@testing-library/react';
 import { useVideoProcess, useProcessingStatus } from '@/app/hooks/useVideoProcessing';
-import { TestWrapper } from '@/app/test-utils/test-utils';
+import { TestWrapper, createTestQueryClient } from '@/app/test-utils/test-utils';
+import { createElement, type ReactNode } from 'react';
+import { QueryClientProvider } from '@tanstack/react-query';
 import axios from 'axios';
 
 jest.mock('axios');
@@ -73,4 +75,69 @@ describe('useProcessingStatus', () => {
     expect(result.current.isFetching).toBe(false);
     expect(mockedAxios.get).not.toHaveBeenCalled();
   });
+
+  describe('status stream', () => {
+    // Minimal EventSource stand-in (jsdom has none)
+    class FakeEventSource {
+      static instances: FakeEventSource[] = [];
+      listeners: Record<string, (event: { data: string }) => void> = {};
+      onerror: (() => void) | null = null;
+      closed = false;
+      constructor(public url: string) {
+        FakeEventSource.instances.push(this);
+      }
+      addEventListener(type: string, listener: (event: { data: string }) => void) {
+        this.listeners[type] = listener;
+      }
+      close() {
+        this.closed = true;
+      }
+      emit(type: string, data: unknown) {
+        this.listeners[type]?.({ data: JSON.stringify(data) });
+      }
+    }
+
+    // One client across renders so pushed snapshots stay in the cache
+    const queryClient = createTestQueryClient();
+    const wrapper = ({ children }: { children: ReactNode }) =>
+      createElement(QueryClientProvider, { client: queryClient }, children);
+
+    beforeEach(() => {
+      queryClient.clear();
+      FakeEventSource.instances = [];
+      (global as unknown as { EventSource: unknown }).EventSource = FakeEventSource;
+    });
+
+    afterEach(() => {
+      delete (global as unknown as { EventSource?: unknown }).EventSource;
+    });
+
+    it('should apply pushed status snapshots and close on a terminal status', async () => {
+      mockedAxios.get.mockResolvedValueOnce({ data: { uploadId: 'upload_123', status: 'processing', progress: 10 } });
+
+      const { result } = renderHook(() => useProcessingStatus('upload_123'), { wrapper });
+      // Reading data subscribes the (tracked) query result to data changes
+      await waitFor(() => expect(result.current.data?.progress).toBe(10));
+
+      const stream = FakeEventSource.instances[0];
+      expect(stream.url).toBe('/api/status/upload_123/stream');
+
+      act(() => stream.emit('status', { uploadId: 'upload_123', status: 'processing', progress: 40, phase: 2 }));
+      await waitFor(() => expect(result.current.data).toMatchObject({ progress: 40, phase: 2 }));
+
+      act(() => stream.emit('status', { uploadId: 'upload_123', status: 'completed', progress: 100 }));
+      await waitFor(() => expect(result.current.data?.status).toBe('completed'));
+      expect(stream.closed).toBe(true);
+    });
+
+    it('should close the stream when it drops', async () => {
+      mockedAxios.get.mockResolvedValue({ data: { uploadId: 'upload_123', status: 'processing', progress: 10 } });
+
+      renderHook(() => useProcessingStatus('upload_123'), { wrapper });
+      const stream = FakeEventSource.instances[0];
+
+      act(() => stream.onerror?.());
+      expect(stream.closed).toBe(true);
+    });
+  });
 });
@@ -0,0 +1,91 @@
+/**
+ * API key authentication tests
+ *
+ * Key generation / hashing, Authorization header parsing, lookup and the
+ * per-key rate limit (Turso mocked).
+ */
+
+// --- Mocks (must be defined before imports) ---
+
+const mockExecute = jest.fn();
+const mockBatch = jest.fn();
+jest.mock('@libsql/client', () => ({
+  createClient: () => ({ execute: mockExecute, batch: mockBatch }),
+}));
+
+import {
+  apiKeyErrorResponse,
+  authenticateApiKey,
+  generateApiKey,
+  getApiKeyFromHeader,
+  hashApiKey,
+} from '@/lib/api-keys';
+
+describe('generateApiKey', () => {
+  it('returns a prefixed key, its display prefix and hash', () => {
+    const { key, keyPrefix, keyHash } = generateApiKey();
+
+    expect(key).toMatch(/^vak_[0-9a-f]{48}$/);
+    expect(key.startsWith(keyPrefix)).toBe(true);
+    expect(keyHash).toBe(hashApiKey(key));
+    expect(keyHash).not.toContain(key);
+  });
+});
+
+describe('getApiKeyFromHeader', () => {
+  it('only accepts bearer tokens with the key prefix', () => {
+    expect(getApiKeyFromHeader('Bearer vak_abc')).toBe('vak_abc');
+    expect(getApiKeyFromHeader('Bearer eyJhbGciOi.jwt')).toBeNull();
+    expect(getApiKeyFromHeader('vak_abc')).toBeNull();
+    expect(getApiKeyFromHeader(null)).toBeNull();
+  });
+});
+
+describe('authenticateApiKey', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockBatch.mockResolvedValue([]);
+    delete process.env.API_KEY_RATE_LIMIT_PER_MINUTE;
+  });
+
+  it('returns null when no API key is presented', async () => {
+    expect(await authenticateApiKey('Bearer eyJhbGciOi.jwt')).toBeNull();
+    expect(mockExecute).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown or revoked keys', async () => {
+    mockExecute.mockResolvedValueOnce({ rows: [] });
+
+    const result = await authenticateApiKey('Bearer vak_unknown');
+
+    expect(result).toMatchObject({ ok: false, status: 401 });
+    expect(mockExecute.mock.calls[0][0].args).toEqual([hashApiKey('vak_unknown')]);
+  });
+
+  it('authenticates a key and records usage on the first request of a window', async () => {
+    mockExecute
+      .mockResolvedValueOnce({ rows: [{ id: 'key_1', user_id: 'user_1' }] })
+      .mockResolvedValueOnce({ rows: [{ request_count: 1 }] });
+
+    expect(await authenticateApiKey('Bearer vak_valid')).toEqual({ ok: true, userId: 'user_1', keyId: 'key_1' });
+    expect(mockBatch).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns 429 with Retry-After once the key exceeds its limit', async () => {
+    process.env.API_KEY_RATE_LIMIT_PER_MINUTE = '5';
+    mockExecute
+      .mockResolvedValueOnce({ rows: [{ id: 'key_1', user_id: 'user_1' }] })
+      .mockResolvedValueOnce({ rows: [{ request_count: 6 }] });
+
+    const result = await authenticateApiKey('Bearer vak_valid');
+
+    expect(result).toMatchObject({ ok: false, status: 429, limit: 5 });
+    if (result && !result.ok) {
+      const response = apiKeyErrorResponse(result);
+      expect(response.status).toBe(429);
+      expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(0);
+      expect(response.headers.get('X-RateLimit-Limit')).toBe('5');
+    }
+    expect(mockBatch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Custom glossary validation tests
+ *
+ * Normalization of PUT /api/glossary entries and the rejected shapes
+ */
+
+import { validateGlossary, MAX_GLOSSARY_ALIASES, MAX_GLOSSARY_ENTRIES } from '@/lib/glossary';
+
+describe('validateGlossary', () => {
+  it('normalizes whitespace, drops empty and duplicate aliases and empty readings', () => {
+    const result = validateGlossary([
+      { term: '  Video   Handoff ', aliases: ['ビデオハンドオフ', ' ビデオハンドオフ ', '', 'Video Handoff'], reading: ' ' },
+      { term: '山田太郎', reading: 'ヤマダタロウ' },
+    ]);
+
+    expect(result).toEqual({
+      valid: true,
+      entries: [
+        { term: 'Video Handoff', aliases: ['ビデオハンドオフ'], reading: null },
+        { term: '山田太郎', aliases: [], reading: 'ヤマダタロウ' },
+      ],
+    });
+  });
+
+  it('rejects non-array input, missing terms and duplicate terms', () => {
+    expect(validateGlossary({})).toEqual({ valid: false, error: 'entries must be an array' });
+    expect(validateGlossary([{ term: ' ' }])).toEqual({ valid: false, error: 'entries[0].term is required' });
+    expect(validateGlossary([{ term: 'ABC' }, { term: 'ABC' }])).toEqual({ valid: false, error: 'Duplicate term: ABC' });
+    expect(validateGlossary([{ term: 'ABC', aliases: 'abc' }])).toEqual({ valid: false, error: 'entries[0].aliases must be an array' });
+  });
+
+  it('enforces entry and alias limits', () => {
+    const tooMany = Array.from({ length: MAX_GLOSSARY_ENTRIES + 1 }, (_, i) => ({ term: `term${i}` }));
+    expect(validateGlossary(tooMany).valid).toBe(false);
+
+    const aliases = Array.from({ length: MAX_GLOSSARY_ALIASES + 1 }, (_, i) => `alias${i}`);
+    expect(validateGlossary([{ term: 'ABC', aliases }]).valid).toBe(false);
+  });
+
+  it('rejects ambiguous aliases and terms used as aliases', () => {
+    expect(validateGlossary([
+      { term: 'ABC株式会社', aliases: ['ABC'] },
+      { term: 'ABC Inc.', aliases: ['ABC'] },
+    ])).toEqual({ valid: false, error: 'Alias "ABC" is used by both "ABC株式会社" and "ABC Inc."' });
+
+    expect(validateGlossary([
+      { term: 'ABC株式会社', aliases: ['ABC'] },
+      { term: 'ABC' },
+    ])).toEqual({ valid: false, error: '"ABC" is both a term and an alias of "ABC株式会社"' });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Multipart upload tests
+ *
+ * Part layout, resuming from stored parts, and retrying a failed part
+ * (fetch and XMLHttpRequest mocked).
+ */
+
+import { MULTIPART_UPLOAD_NOT_FOUND, uploadFileInParts } from '@/lib/multipart-upload';
+import { getPartCount, getPartRange, validateVideoUploadRequest } from '@/lib/video-upload';
+
+// --- Fake XMLHttpRequest: part PUTs fail while `failuresLeft` > 0 ---
+
+let failuresLeft = 0;
+const putUrls: string[] = [];
+
+class FakeXHR {
+  upload = { addEventListener: jest.fn() };
+  status = 0;
+  private url = '';
+  private listeners: Record<string, () => void> = {};
+
+  addEventListener(type: string, listener: () => void) {
+    this.listeners[type] = listener;
+  }
+  open(_method: string, url: string) {
+    this.url = url;
+  }
+  setRequestHeader() {}
+  getResponseHeader(name: string) {
+    return name === 'ETag' ? `"etag-${this.url}"` : null;
+  }
+  abort() {
+    this.listeners.abort?.();
+  }
+  send() {
+    putUrls.push(this.url);
+    setTimeout(() => {
+      if (failuresLeft > 0) {
+        failuresLeft--;
+        this.listeners.error?.();
+        return;
+      }
+      this.status = 200;
+      this.listeners.load?.();
+    }, 0);
+  }
+}
+
+const mockFetch = jest.fn();
+
+function jsonResponse(data: unknown, status = 200) {
+  return { ok: status >= 200 && status < 300, status, json: async () => data };
+}
+
+const state = { uploadId: 'upload_1', r2Key: 'uploads/user_1/upload_1/a.mp4', multipartUploadId: 'mp_1', partSize: 4 };
+const file = new File(['0123456789'], 'a.mp4', { type: 'video/mp4' }); // 3 parts: 4 + 4 + 2 bytes
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  failuresLeft = 0;
+  putUrls.length = 0;
+  global.fetch = mockFetch as unknown as typeof fetch;
+  (global as unknown as { XMLHttpRequest: unknown }).XMLHttpRequest = FakeXHR;
+
+  mockFetch.mockImplementation(async (url: string, init?: RequestInit) => {
+    if (url.startsWith('/api/r2/multipart/parts?')) {
+      return jsonResponse({ parts: [{ partNumber: 1, etag: '"stored-1"', size: 4 }] });
+    }
+    if (url === '/api/r2/multipart/parts') {
+      const { partNumbers } = JSON.parse(String(init?.body));
+      return jsonResponse({ urls: partNumbers.map((n: number) => ({ partNumber: n, url: `part-${n}` })) });
+    }
+    if (url === '/api/r2/multipart/complete') {
+      return jsonResponse({ success: true });
+    }
+    throw new Error(`Unexpected fetch ${url}`);
+  });
+});
+
+describe('part layout', () => {
+  it('splits a file into parts of partSize bytes', () => {
+    expect(getPartCount(10, 4)).toBe(3);
+    expect(getPartRange(3, 10, 4)).toEqual({ start: 8, end: 10 });
+    expect(getPartCount(0, 4)).toBe(1);
+  });
+
+  it('validates upload requests', () => {
+    expect(validateVideoUploadRequest({ fileName: 'a.mp4', contentType: 'video/mp4', fileSize: 10 })).toEqual({
+      valid: true,
+      fileName: 'a.mp4',
+      contentType: 'video/mp4',
+      fileSize: 10,
+    });
+    expect(validateVideoUploadRequest({ fileName: 'a.gif', contentType: 'image/gif' }).valid).toBe(false);
+    expect(validateVideoUploadRequest({ fileName: 'a.mp4', contentType: 'video/mp4', fileSize: 3 * 1024 ** 3 }).valid).toBe(false);
+  });
+});
+
+describe('uploadFileInParts', () => {
+  it('uploads only the missing parts and completes with every ETag', async () => {
+    const progress: number[] = [];
+
+    await uploadFileInParts(file, state, { signal: new AbortController().signal, onProgress: (bytes) => progress.push(bytes) });
+
+    expect(putUrls.sort()).toEqual(['part-2', 'part-3']);
+    const completeCall = mockFetch.mock.calls.find(([url]) => url === '/api/r2/multipart/complete');
+    const { parts } = JSON.parse(completeCall[1].body);
+    expect(parts.sort((a: { partNumber: number }, b: { partNumber: number }) => a.partNumber - b.partNumber)).toEqual([
+      { partNumber: 1, etag: '"stored-1"' },
+      { partNumber: 2, etag: '"etag-part-2"' },
+      { partNumber: 3, etag: '"etag-part-3"' },
+    ]);
+    expect(progress[0]).toBe(4);
+    expect(progress[progress.length - 1]).toBe(10);
+  });
+
+  it('presigns the parts in one batch', async () => {
+    await uploadFileInParts(file, state, { signal: new AbortController().signal, onProgress: () => {} });
+
+    const presignCalls = mockFetch.mock.calls.filter(([url]) => url === '/api/r2/multipart/parts');
+    expect(presignCalls).toHaveLength(1);
+    expect(JSON.parse(presignCalls[0][1].body).partNumbers).toEqual([2, 3]);
+  });
+
+  it('retries a failed part with a fresh URL', async () => {
+    failuresLeft = 1;
+
+    await uploadFileInParts(file, state, { signal: new AbortController().signal, onProgress: () => {} });
+
+    expect(putUrls).toHaveLength(3);
+    expect(mockFetch.mock.calls.some(([url]) => url === '/api/r2/multipart/complete')).toBe(true);
+  });
+
+  it('reports an upload R2 no longer knows', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ error: 'Multipart upload not found' }, 404));
+
+    await expect(
+      uploadFileInParts(file, state, { signal: new AbortController().signal, onProgress: () => {} })
+    ).rejects.toThrow(MULTIPART_UPLOAD_NOT_FOUND);
+  });
+});
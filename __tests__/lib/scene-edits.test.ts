@@ -0,0 +1,105 @@
+/**
+ * Scene review editor helper tests
+ *
+ * Merge / split / delete operations and request validation
+ */
+
+import {
+  deleteScene,
+  mergeWithNext,
+  splitScene,
+  toEditedScenes,
+  toEditorScenes,
+  validateSceneEdits,
+  MAX_EDITED_SCENES,
+} from '@/lib/scene-edits';
+import type { ResultScene } from '@/types/shared';
+
+function resultScene(sceneNumber: number, startTime: number, endTime: number, ocrText: string, narrationText: string): ResultScene {
+  return {
+    sceneNumber,
+    startTime,
+    endTime,
+    midTime: (startTime + endTime) / 2,
+    timecode: `00:00:${String(startTime).padStart(2, '0')}`,
+    detectionReason: null,
+    ocrText,
+    ocrConfidence: 0.9,
+    ocrProvider: 'gemini',
+    narrationText,
+    topicGroup: null,
+    screenshotFile: `scene_000${sceneNumber}.png`,
+  };
+}
+
+const initial = toEditorScenes([
+  resultScene(1, 0, 10, 'Title', 'Hello'),
+  resultScene(2, 10, 20, 'Title', 'world'),
+  resultScene(3, 20, 30, '', 'Bye'),
+]);
+
+describe('scene editor operations', () => {
+  it('merges a scene with the next one, deduplicating repeated OCR', () => {
+    const merged = mergeWithNext(initial, 0);
+
+    expect(merged).toHaveLength(2);
+    expect(merged[0]).toMatchObject({
+      key: '1',
+      sourceSceneNumber: 1,
+      startTime: 0,
+      endTime: 20,
+      ocrText: 'Title',
+      narrationText: 'Hello world',
+      timecode: '00:00:00',
+    });
+    expect(mergeWithNext(initial, 2)).toBe(initial);
+  });
+
+  it('splits a scene at the midpoint, sharing the screenshot', () => {
+    const split = splitScene(initial, 1);
+
+    expect(split.map((s) => s.key)).toEqual(['1', '2.1', '2.2', '3']);
+    expect(split[1]).toMatchObject({ startTime: 10, endTime: 15, timecode: '00:00:10' });
+    expect(split[2]).toMatchObject({ startTime: 15, endTime: 20, timecode: null, screenshotFile: 'scene_0002.png' });
+  });
+
+  it('ignores splits that would create a near-empty scene', () => {
+    expect(splitScene(initial, 0, 0.05)).toBe(initial);
+    expect(splitScene(initial, 0, 10)).toBe(initial);
+  });
+
+  it('deletes a scene and strips editor-only fields', () => {
+    const edited = toEditedScenes(deleteScene(initial, 0));
+
+    expect(edited).toEqual([
+      { sourceSceneNumber: 2, startTime: 10, endTime: 20, ocrText: 'Title', narrationText: 'world' },
+      { sourceSceneNumber: 3, startTime: 20, endTime: 30, ocrText: '', narrationText: 'Bye' },
+    ]);
+  });
+});
+
+describe('validateSceneEdits', () => {
+  const valid = toEditedScenes(initial);
+
+  it('accepts a well-formed scene list', () => {
+    expect(validateSceneEdits(valid)).toEqual({ valid: true, scenes: valid });
+  });
+
+  it('rejects empty or oversized lists', () => {
+    expect(validateSceneEdits([]).valid).toBe(false);
+    expect(validateSceneEdits(undefined).valid).toBe(false);
+    expect(validateSceneEdits(new Array(MAX_EDITED_SCENES + 1).fill(valid[0])).valid).toBe(false);
+  });
+
+  it('rejects malformed entries', () => {
+    expect(validateSceneEdits([{ ...valid[0], sourceSceneNumber: 0 }]).valid).toBe(false);
+    expect(validateSceneEdits([{ ...valid[0], endTime: 0 }]).valid).toBe(false);
+    expect(validateSceneEdits([{ ...valid[0], ocrText: null }]).valid).toBe(false);
+    expect(validateSceneEdits(['scene']).valid).toBe(false);
+  });
+
+  it('rejects overlapping scenes', () => {
+    const result = validateSceneEdits([valid[0], { ...valid[1], startTime: 5 }]);
+    expect(result).toEqual({ valid: false, error: 'scenes[1] overlaps the previous scene' });
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Full-text search helper tests
+ *
+ * Query parsing, the MATCH / LIKE split for the trigram index and snippet highlighting.
+ */
+
+import { buildSearchStatement, buildSnippet, parseSearchQuery } from '@/lib/search';
+
+describe('parseSearchQuery', () => {
+  it('splits the query into unique words', () => {
+    expect(parseSearchQuery('  新商品  Ice "cream" 新商品 ')).toEqual({ valid: true, terms: ['新商品', 'Ice', 'cream'] });
+  });
+
+  it('rejects empty and oversized queries', () => {
+    expect(parseSearchQuery(null)).toEqual({ valid: false, error: 'q is required' });
+    expect(parseSearchQuery('""')).toEqual({ valid: false, error: 'q is required' });
+    expect(parseSearchQuery('x'.repeat(201)).valid).toBe(false);
+    expect(parseSearchQuery('a b c d e f g h i').valid).toBe(false);
+  });
+});
+
+describe('buildSearchStatement', () => {
+  it('scopes to the user and matches long words as quoted phrases', () => {
+    const { sql, args } = buildSearchStatement('user_1', ['ice cream', 'NEW'], 20, 40) as { sql: string; args: unknown[] };
+
+    expect(sql).toContain('scene_search.user_id = ?');
+    expect(sql).toContain('scene_search MATCH ?');
+    expect(sql).toContain('JOIN processing_status');
+    expect(args).toEqual(['user_1', '"ice cream" "NEW"', 21, 40]);
+  });
+
+  it('falls back to escaped LIKE for words shorter than a trigram', () => {
+    const { sql, args } = buildSearchStatement('user_1', ['新作', '5%'], 20, 0) as { sql: string; args: unknown[] };
+
+    expect(sql).not.toContain('MATCH');
+    expect(sql).not.toContain('rank');
+    expect(args).toEqual(['user_1', '%新作%', '%新作%', '%5\\%%', '%5\\%%', 21, 0]);
+  });
+});
+
+describe('buildSnippet', () => {
+  it('highlights every occurrence of every word, case-insensitively', () => {
+    expect(buildSnippet('New Ice Cream: ice cream for summer', ['ice', 'summer'])).toEqual([
+      { text: 'New ', highlight: false },
+      { text: 'Ice', highlight: true },
+      { text: ' Cream: ', highlight: false },
+      { text: 'ice', highlight: true },
+      { text: ' cream for ', highlight: false },
+      { text: 'summer', highlight: true },
+    ]);
+  });
+
+  it('cuts long text around the first match', () => {
+    const parts = buildSnippet(`${'a'.repeat(100)}新商品${'b'.repeat(100)}`, ['新商品'], 10)!;
+
+    expect(parts.map((part) => part.text)).toEqual(['…', 'a'.repeat(10), '新商品', 'b'.repeat(17), '…']);
+    expect(parts[2].highlight).toBe(true);
+  });
+
+  it('returns null when no word occurs', () => {
+    expect(buildSnippet('nothing here', ['ice'])).toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Upload deletion tests
+ *
+ * Everything stored for an upload goes: result, exports, screenshots, the
+ * retained checkpoint with its source video, the status record and index rows.
+ */
+
+const mockDeleteObject = jest.fn();
+const mockDeleteObjectsWithPrefix = jest.fn();
+jest.mock('@/lib/r2-client', () => ({
+  deleteObject: (key: string) => mockDeleteObject(key),
+  deleteObjectsWithPrefix: (prefix: string) => mockDeleteObjectsWithPrefix(prefix),
+}));
+
+import type { Client } from '@libsql/client';
+import { deleteUploadData } from '@/lib/upload-deletion';
+
+const mockExecute = jest.fn();
+const client = { execute: mockExecute } as unknown as Client;
+
+function executedSql(): string[] {
+  return mockExecute.mock.calls.map(([statement]) => statement.sql as string);
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  mockDeleteObject.mockResolvedValue(undefined);
+  mockDeleteObjectsWithPrefix.mockResolvedValue(4);
+  mockExecute.mockImplementation(async ({ sql }: { sql: string }) => {
+    if (sql.startsWith('SELECT intermediate_video_path')) {
+      return {
+        rows: [{
+          intermediate_video_path: 'uploads/user_1/upload_1/source.mp4',
+          intermediate_audio_path: null,
+        }],
+      };
+    }
+    return { rows: [], rowsAffected: 1 };
+  });
+});
+
+describe('deleteUploadData', () => {
+  it('deletes the result, exports, screenshots, checkpoint, status record and index rows', async () => {
+    const result = await deleteUploadData(client, 'upload_1', 'user_1', {
+      resultR2Key: 'results/user_1/upload_1/result.xlsx',
+      exportR2Keys: { srt: 'results/user_1/upload_1/result.srt', edl: 'results/user_1/upload_1/result.edl' },
+      screenshotsR2Prefix: 'results/user_1/upload_1/screenshots/',
+    });
+
+    expect(mockDeleteObject.mock.calls.map(([key]) => key)).toEqual([
+      'results/user_1/upload_1/result.xlsx',
+      'results/user_1/upload_1/result.srt',
+      'results/user_1/upload_1/result.edl',
+      'uploads/user_1/upload_1/source.mp4',
+    ]);
+    expect(mockDeleteObjectsWithPrefix).toHaveBeenCalledWith('results/user_1/upload_1/screenshots/');
+    expect(result).toEqual({ r2Deleted: 8, r2Failed: 0 });
+
+    const sql = executedSql();
+    expect(sql).toContain('DELETE FROM processing_checkpoints WHERE upload_id = ? AND user_id = ?');
+    expect(sql).toContain('DELETE FROM processing_status WHERE upload_id = ? AND user_id = ?');
+    expect(sql).toContain('DELETE FROM scene_search WHERE upload_id = ? AND user_id = ?');
+    expect(sql).toContain('DELETE FROM scene_embeddings WHERE upload_id = ? AND user_id = ?');
+  });
+
+  it('keeps going when R2 files are already gone', async () => {
+    mockDeleteObject.mockRejectedValueOnce(new Error('NoSuchKey'));
+
+    const result = await deleteUploadData(client, 'upload_1', 'user_1', {
+      resultR2Key: 'results/user_1/upload_1/result.xlsx',
+      exportR2Keys: { vtt: 'results/user_1/upload_1/result.vtt' },
+    });
+
+    expect(result).toEqual({ r2Deleted: 2, r2Failed: 1 });
+    expect(executedSql()).toContain('DELETE FROM processing_status WHERE upload_id = ? AND user_id = ?');
+  });
+
+  it('ignores screenshot prefixes and intermediate files outside the owner', async () => {
+    mockExecute.mockImplementation(async ({ sql }: { sql: string }) => {
+      if (sql.startsWith('SELECT intermediate_video_path')) {
+        return { rows: [{ intermediate_video_path: 'uploads/user_2/upload_1/source.mp4', intermediate_audio_path: null }] };
+      }
+      return { rows: [], rowsAffected: 1 };
+    });
+
+    await deleteUploadData(client, 'upload_1', 'user_1', {
+      screenshotsR2Prefix: 'results/user_2/upload_1/screenshots/',
+    });
+
+    expect(mockDeleteObjectsWithPrefix).not.toHaveBeenCalled();
+    expect(mockDeleteObject).not.toHaveBeenCalled();
+  });
+
+  it('still deletes the status record when the checkpoint table does not exist', async () => {
+    mockExecute.mockImplementation(async ({ sql }: { sql: string }) => {
+      if (sql.includes('processing_checkpoints')) throw new Error('no such table: processing_checkpoints');
+      return { rows: [], rowsAffected: 1 };
+    });
+
+    await expect(deleteUploadData(client, 'upload_1', 'user_1', null)).resolves.toEqual({ r2Deleted: 0, r2Failed: 0 });
+    expect(executedSql()).toContain('DELETE FROM processing_status WHERE upload_id = ? AND user_id = ?');
+  });
+});
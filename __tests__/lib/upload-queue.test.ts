@@ -0,0 +1,132 @@
+/**
+ * Batch upload queue helper tests
+ *
+ * File validation, scheduling and restoring the persisted queue after a reload.
+ */
+
+import {
+  createQueueItem,
+  fileFingerprint,
+  pickRunnableItems,
+  restoreUploadQueue,
+  validateVideoFile,
+  type UploadQueueItem,
+} from '@/lib/upload-queue';
+
+const options = { timecodeStyle: 'hms' as const, language: 'ja' as const, speakerDiarization: false };
+
+function item(id: string, patch: Partial<UploadQueueItem> = {}): UploadQueueItem {
+  return {
+    id,
+    fileName: `${id}.mp4`,
+    fileSize: 1024,
+    fileType: 'video/mp4',
+    lastModified: 1700000000000,
+    options,
+    status: 'waiting',
+    progress: 0,
+    addedAt: '2026-01-01T00:00:00.000Z',
+    ...patch,
+  };
+}
+
+describe('validateVideoFile', () => {
+  it('accepts videos and rejects other types', () => {
+    expect(validateVideoFile(new File(['x'], 'a.mp4', { type: 'video/mp4' }))).toBeNull();
+    expect(validateVideoFile(new File(['x'], 'a.txt', { type: 'text/plain' }))).toBe('Please select a valid video file.');
+  });
+});
+
+describe('createQueueItem', () => {
+  it('keeps the options chosen when the file was queued', () => {
+    const file = new File(['x'], 'ep01.mp4', { type: 'video/mp4', lastModified: 42 });
+    const queued = createQueueItem(file, options);
+
+    expect(queued).toMatchObject({ fileName: 'ep01.mp4', status: 'waiting', progress: 0, options });
+    expect(fileFingerprint({ name: queued.fileName, size: queued.fileSize, lastModified: queued.lastModified })).toBe(
+      fileFingerprint(file)
+    );
+  });
+});
+
+describe('pickRunnableItems', () => {
+  const hasFile = () => true;
+
+  it('starts waiting items in order up to the concurrency', () => {
+    const items = [item('a'), item('b'), item('c')];
+
+    expect(pickRunnableItems(items, 1, hasFile).map((i) => i.id)).toEqual(['a']);
+    expect(pickRunnableItems(items, 2, hasFile).map((i) => i.id)).toEqual(['a', 'b']);
+  });
+
+  it('counts in-flight items against the concurrency', () => {
+    const items = [item('a', { status: 'uploading' }), item('b', { status: 'submitting' }), item('c')];
+
+    expect(pickRunnableItems(items, 2, hasFile)).toEqual([]);
+    expect(pickRunnableItems(items, 3, hasFile).map((i) => i.id)).toEqual(['c']);
+  });
+
+  it('skips waiting items without a file unless they are already uploaded', () => {
+    const items = [item('a'), item('b', { uploaded: true })];
+
+    expect(pickRunnableItems(items, 2, () => false).map((i) => i.id)).toEqual(['b']);
+  });
+});
+
+describe('restoreUploadQueue', () => {
+  it('ignores missing or malformed data', () => {
+    expect(restoreUploadQueue(null)).toBeNull();
+    expect(restoreUploadQueue('{not json')).toBeNull();
+    expect(restoreUploadQueue('{"items":"x"}')).toBeNull();
+  });
+
+  it('restarts interrupted requests and asks for files that never reached R2', () => {
+    const restored = restoreUploadQueue(
+      JSON.stringify({
+        concurrency: 2,
+        items: [
+          item('done', { status: 'submitted', progress: 100, uploadId: 'upload_1' }),
+          item('submitting', { status: 'submitting', uploaded: true, uploadId: 'upload_2', r2Key: 'k2' }),
+          item('uploading', { status: 'uploading', progress: 40, uploadId: 'upload_3', r2Key: 'k3' }),
+          item('waiting'),
+        ],
+      })
+    );
+
+    expect(restored?.concurrency).toBe(2);
+    const [done, submitting, uploading, waiting] = restored!.items;
+    expect(done.status).toBe('submitted');
+    expect(submitting).toMatchObject({ status: 'waiting', uploadId: 'upload_2', r2Key: 'k2' });
+    expect(uploading).toMatchObject({ status: 'paused', needsFile: true, progress: 0, uploadId: undefined });
+    expect(waiting).toMatchObject({ status: 'paused', needsFile: true });
+  });
+
+  it('keeps multipart uploads so they resume from the stored parts', () => {
+    const restored = restoreUploadQueue(
+      JSON.stringify({
+        items: [
+          item('big', {
+            status: 'uploading',
+            progress: 60,
+            uploadId: 'upload_4',
+            r2Key: 'k4',
+            multipartUploadId: 'mp_4',
+            partSize: 16,
+          }),
+        ],
+      })
+    );
+
+    expect(restored?.items[0]).toMatchObject({
+      status: 'paused',
+      needsFile: true,
+      progress: 60,
+      uploadId: 'upload_4',
+      multipartUploadId: 'mp_4',
+    });
+  });
+
+  it('falls back to sequential uploads for an unknown concurrency', () => {
+    expect(restoreUploadQueue(JSON.stringify({ concurrency: 50, items: [] }))?.concurrency).toBe(1);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * DELETE /api/api-keys/[keyId] - Revoke an API key
+ *
+ * The key stops authenticating immediately; the row is kept so the list
+ * still shows when it was revoked.
+ *
+ * Security: Verifies user ownership via user_id in WHERE clause (IDOR prevention)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getTursoClient } from '@/lib/turso';
+
+export const runtime = 'nodejs';
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { keyId: string } }
+) {
+  const { keyId } = params;
+
+  try {
+    const { client, userId } = await getTursoClient();
+
+    const result = await client.execute({
+      sql: `UPDATE api_keys SET revoked_at = ?
+            WHERE id = ? AND user_id = ? AND revoked_at IS NULL`,
+      args: [new Date().toISOString(), keyId, userId],
+    });
+
+    if (result.rowsAffected === 0) {
+      return NextResponse.json(
+        { error: 'API key not found' },
+        { status: 404 }
+      );
+    }
+
+    console.log(`[/api/api-keys] API key ${keyId} revoked by user ${userId}`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.error(`[/api/api-keys] Revoke ${keyId} failed:`, error);
+    return NextResponse.json(
+      { error: 'Failed to revoke API key' },
+      { status: 500 }
+    );
+  }
+}
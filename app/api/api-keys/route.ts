@@ -0,0 +1,111 @@
+/**
+ * /api/api-keys - Manage the user's API keys for the public REST API
+ *
+ * GET:  List keys (prefix only, including revoked ones)
+ * POST: Create a key ({ name }); the key is returned once and only its hash is stored
+ *
+ * Session-only: API keys cannot be used to manage keys.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { getTursoClient } from '@/lib/turso';
+import { generateApiKey, MAX_ACTIVE_API_KEYS, type ApiKeyRecord } from '@/lib/api-keys';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MAX_NAME_LENGTH = 100;
+
+export async function GET() {
+  try {
+    const { client, userId } = await getTursoClient();
+
+    const result = await client.execute({
+      sql: `SELECT id, name, key_prefix, created_at, last_used_at, revoked_at
+            FROM api_keys
+            WHERE user_id = ?
+            ORDER BY created_at DESC`,
+      args: [userId],
+    });
+
+    const keys: ApiKeyRecord[] = result.rows.map((row) => ({
+      id: row.id as string,
+      name: row.name as string,
+      keyPrefix: row.key_prefix as string,
+      createdAt: row.created_at as string,
+      lastUsedAt: row.last_used_at as string | null,
+      revokedAt: row.revoked_at as string | null,
+    }));
+
+    return NextResponse.json({ keys, count: keys.length });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.error('[/api/api-keys] Error:', error);
+    return NextResponse.json({ error: 'Failed to fetch API keys' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { client, userId } = await getTursoClient();
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const rawName = (body as { name?: unknown } | null)?.name;
+    const name = typeof rawName === 'string' ? rawName.trim() : '';
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `name is required (at most ${MAX_NAME_LENGTH} characters)` },
+        { status: 400 }
+      );
+    }
+
+    const active = await client.execute({
+      sql: 'SELECT COUNT(*) as cnt FROM api_keys WHERE user_id = ? AND revoked_at IS NULL',
+      args: [userId],
+    });
+    if (Number(active.rows[0]?.cnt ?? 0) >= MAX_ACTIVE_API_KEYS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_ACTIVE_API_KEYS} active API keys are allowed. Revoke one first.` },
+        { status: 409 }
+      );
+    }
+
+    const { key, keyPrefix, keyHash } = generateApiKey();
+    const record: ApiKeyRecord = {
+      id: `key_${randomUUID()}`,
+      name,
+      keyPrefix,
+      createdAt: new Date().toISOString(),
+      lastUsedAt: null,
+      revokedAt: null,
+    };
+
+    await client.execute({
+      sql: `INSERT INTO api_keys (id, user_id, name, key_prefix, key_hash, created_at)
+            VALUES (?, ?, ?, ?, ?, ?)`,
+      args: [record.id, userId, record.name, record.keyPrefix, keyHash, record.createdAt],
+    });
+
+    console.log(`[/api/api-keys] API key ${record.id} created for user ${userId}`);
+
+    // The only time the full key is returned
+    return NextResponse.json({ ...record, key }, { status: 201 });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.error('[/api/api-keys] Error:', error);
+    return NextResponse.json({ error: 'Failed to create API key' }, { status: 500 });
+  }
+}
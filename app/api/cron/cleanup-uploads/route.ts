@@ -18,7 +18,9 @@
 
 import { NextResponse } from 'next/server';
 import { createClient } from '@libsql/client';
-import { deleteObject } from '@/lib/r2-client';
+import { pruneSearchIndex } from '@/lib/search';
+import { pruneSemanticIndex } from '@/lib/semantic-search';
+import { deleteUploadData } from '@/lib/upload-deletion';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -71,7 +73,7 @@ export async function GET(request: Request) {
 
     console.log(`[${requestId}] Deleting records older than ${maxRetentionDays} days (before ${cutoffISO})`);
 
-    // Fetch expired records to delete their R2 files first
+    // Fetch expired records to delete their R2 files with them
     const expiredResult = await client.execute({
       sql: `
         SELECT upload_id, user_id, metadata
@@ -88,35 +90,33 @@ export async function GET(request: Request) {
       r2Deleted: 0,
       r2Failed: 0,
       dbDeleted: 0,
+      searchRowsDeleted: 0,
+      embeddingRowsDeleted: 0,
     };
 
     console.log(`[${requestId}] Found ${results.expired} expired records`);
 
-    // Delete R2 files for expired records
+    // Delete R2 files (result, exports, screenshots, retained source), checkpoint and DB record per upload
     for (const row of expiredResult.rows) {
       const uploadId = row.upload_id as string;
+      const userId = row.user_id as string;
       const metadataStr = row.metadata as string | null;
       const metadata = metadataStr ? JSON.parse(metadataStr) : null;
-      const resultR2Key = metadata?.resultR2Key;
-
-      if (resultR2Key) {
-        try {
-          await deleteObject(resultR2Key);
-          results.r2Deleted++;
-        } catch (err) {
-          results.r2Failed++;
-          console.warn(`[${requestId}] R2 delete failed for ${uploadId}:`, err);
-        }
+
+      try {
+        const deleted = await deleteUploadData(client, uploadId, userId, metadata);
+        results.r2Deleted += deleted.r2Deleted;
+        results.r2Failed += deleted.r2Failed;
+        results.dbDeleted++;
+      } catch (err) {
+        console.warn(`[${requestId}] Cleanup failed for ${uploadId}:`, err);
       }
     }
 
-    // Batch delete expired DB records
+    // Index rows of uploads deleted by earlier runs
     if (results.expired > 0) {
-      const deleteResult = await client.execute({
-        sql: 'DELETE FROM processing_status WHERE created_at < ?',
-        args: [cutoffISO],
-      });
-      results.dbDeleted = deleteResult.rowsAffected;
+      results.searchRowsDeleted = await pruneSearchIndex(client);
+      results.embeddingRowsDeleted = await pruneSemanticIndex(client);
     }
 
     console.log(`[${requestId}] Cleanup complete:`, results);
@@ -2,21 +2,69 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { createClient } from "@libsql/client";
 import { generateDownloadUrl, deleteObject } from "@/lib/r2-client";
+import { apiKeyErrorResponse, authenticateApiKey } from "@/lib/api-keys";
+import { TRANSLATION_LANGUAGES } from "@/lib/processing-options";
+import type { ExportFileType, ExportFormat, TranslationLanguage } from "@/types/shared";
 
 export const runtime = "nodejs";
 
+type DownloadFileType = "xlsx" | ExportFileType;
+type DownloadFormat = "xlsx" | ExportFormat;
+
+// Content types for each downloadable result file type (?format=xlsx|srt|vtt|edl|fcpxml|json|txt)
+const DOWNLOAD_CONTENT_TYPES: Record<DownloadFileType, string> = {
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  srt: "application/x-subrip; charset=utf-8",
+  vtt: "text/vtt; charset=utf-8",
+  edl: "text/plain; charset=utf-8",
+  fcpxml: "application/xml; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  txt: "text/plain; charset=utf-8",
+};
+
+// File types also generated per translation language (?format=en.srt|en.vtt|en.txt)
+const TRANSLATED_FILE_TYPES: DownloadFileType[] = ["srt", "vtt", "txt"];
+
+function isDownloadFormat(value: string): value is DownloadFormat {
+  const dot = value.indexOf(".");
+  if (dot === -1) {
+    return Object.keys(DOWNLOAD_CONTENT_TYPES).includes(value);
+  }
+  return TRANSLATION_LANGUAGES.includes(value.slice(0, dot) as TranslationLanguage)
+    && TRANSLATED_FILE_TYPES.includes(value.slice(dot + 1) as DownloadFileType);
+}
+
+function downloadFileType(format: DownloadFormat): DownloadFileType {
+  return format.slice(format.lastIndexOf(".") + 1) as DownloadFileType;
+}
+
 export async function GET(
   request: NextRequest,
   { params }: { params: { uploadId: string } }
 ) {
   try {
-    // Verify authentication
-    const { userId } = await auth();
+    // Verify authentication (Clerk session, or API key for the public REST API)
+    const { userId: sessionUserId } = await auth();
+    const apiKeyAuth = sessionUserId ? null : await authenticateApiKey(request.headers.get("authorization"));
+    if (apiKeyAuth && !apiKeyAuth.ok) {
+      return apiKeyErrorResponse(apiKeyAuth);
+    }
+    const userId = sessionUserId ?? apiKeyAuth?.userId;
     if (!userId) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
     const { uploadId } = params;
+    const format = request.nextUrl.searchParams.get("format") || "xlsx";
+
+    if (!isDownloadFormat(format)) {
+      return NextResponse.json(
+        { error: `Unsupported format: ${format}` },
+        { status: 400 }
+      );
+    }
+
+    const downloadFilename = `result_${uploadId}.${format}`;
 
     if (process.env.NODE_ENV === 'development') {
       // Development mode: Download from Worker
@@ -30,10 +78,10 @@ export async function GET(
         );
       }
 
-      console.log(`[${uploadId}] [DEV] Downloading result from Worker...`);
+      console.log(`[${uploadId}] [DEV] Downloading ${format} result from Worker...`);
 
       // Fetch file from Worker with authentication
-      const response = await fetch(`${cloudRunUrl}/result/${uploadId}`, {
+      const response = await fetch(`${cloudRunUrl}/result/${uploadId}?format=${format}`, {
         method: 'GET',
         headers: {
           Authorization: `Bearer ${workerSecret}`,
@@ -58,8 +106,8 @@ export async function GET(
       return new NextResponse(arrayBuffer, {
         status: 200,
         headers: {
-          'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-          'Content-Disposition': `attachment; filename="result_${uploadId}.xlsx"`,
+          'Content-Type': DOWNLOAD_CONTENT_TYPES[downloadFileType(format)],
+          'Content-Disposition': `attachment; filename="${downloadFilename}"`,
           'Content-Length': blob.size.toString(),
         },
       });
@@ -99,10 +147,12 @@ export async function GET(
 
       const metadataStr = result.rows[0].metadata as string | null;
       const metadata = metadataStr ? JSON.parse(metadataStr) : null;
-      const resultR2Key = metadata?.resultR2Key;
+      const resultR2Key: string | undefined = format === "xlsx"
+        ? metadata?.resultR2Key
+        : metadata?.exportR2Keys?.[format];
 
       if (!resultR2Key) {
-        console.error(`[${uploadId}] No resultR2Key found in metadata`);
+        console.error(`[${uploadId}] No R2 key found in metadata for format: ${format}`);
         return NextResponse.json(
           { error: "Result file not available" },
           { status: 404 }
@@ -122,7 +172,7 @@ export async function GET(
 
       // Generate presigned download URL from R2
       // ResponseContentDisposition is already set in generateDownloadUrl (lib/r2-client.ts)
-      const downloadUrl = await generateDownloadUrl(resultR2Key, 3600, `result_${uploadId}.xlsx`);
+      const downloadUrl = await generateDownloadUrl(resultR2Key, 3600, downloadFilename);
 
       console.log(`[${uploadId}] [PROD] Returning presigned URL for direct R2 download`);
 
@@ -0,0 +1,80 @@
+/**
+ * /api/glossary - Manage the account's custom glossary
+ *
+ * GET: { entries: [{ term, aliases, reading }] } in display order
+ * PUT: Replace the whole glossary with { entries } (validated, see lib/glossary.ts)
+ *
+ * Applied by the Worker to uploads processed after saving: Whisper prompt,
+ * OCR hints, alias substitution after OCR and LLM cleansing terms.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getTursoClient } from '@/lib/turso';
+import { validateGlossary, type GlossaryEntry } from '@/lib/glossary';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function unauthorizedOr500(error: unknown, message: string) {
+  if (error instanceof Error && error.message === 'Unauthorized') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  console.error('[/api/glossary] Error:', error);
+  return NextResponse.json({ error: message }, { status: 500 });
+}
+
+export async function GET() {
+  try {
+    const { client, userId } = await getTursoClient();
+
+    const result = await client.execute({
+      sql: 'SELECT term, aliases, reading FROM glossary_entries WHERE user_id = ? ORDER BY position',
+      args: [userId],
+    });
+
+    const entries: GlossaryEntry[] = result.rows.map((row) => ({
+      term: row.term as string,
+      aliases: JSON.parse((row.aliases as string) || '[]'),
+      reading: (row.reading as string | null) ?? null,
+    }));
+
+    return NextResponse.json({ entries });
+  } catch (error) {
+    return unauthorizedOr500(error, 'Failed to fetch glossary');
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { client, userId } = await getTursoClient();
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const validation = validateGlossary((body as { entries?: unknown } | null)?.entries);
+    if (!validation.valid) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const now = new Date().toISOString();
+
+    await client.batch([
+      { sql: 'DELETE FROM glossary_entries WHERE user_id = ?', args: [userId] },
+      ...validation.entries.map((entry, position) => ({
+        sql: `INSERT INTO glossary_entries (user_id, position, term, aliases, reading, updated_at)
+              VALUES (?, ?, ?, ?, ?, ?)`,
+        args: [userId, position, entry.term, JSON.stringify(entry.aliases), entry.reading, now],
+      })),
+    ], 'write');
+
+    console.log(`[/api/glossary] Saved ${validation.entries.length} glossary entries for user ${userId}`);
+    return NextResponse.json({ entries: validation.entries });
+  } catch (error) {
+    return unauthorizedOr500(error, 'Failed to save glossary');
+  }
+}
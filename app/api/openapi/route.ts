@@ -0,0 +1,14 @@
+/**
+ * GET /api/openapi - OpenAPI spec of the public REST API (no authentication)
+ */
+
+import { NextResponse } from 'next/server';
+import { openApiSpec } from '@/lib/openapi';
+
+export const runtime = 'nodejs';
+
+export async function GET() {
+  return NextResponse.json(openApiSpec, {
+    headers: { 'Cache-Control': 'public, max-age=3600' },
+  });
+}
@@ -1,9 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { waitUntil } from "@vercel/functions";
 import { auth } from "@clerk/nextjs/server";
-import { isValidR2Key, deleteObject } from "@/lib/r2-client";
+import { isValidR2Key, deleteObject, generateVideoKey } from "@/lib/r2-client";
 import { getRetentionConfig } from "@/lib/quota";
 import { createClient } from "@libsql/client";
+import { validateProcessingOptions } from "@/lib/processing-options";
+import { apiKeyErrorResponse, authenticateApiKey } from "@/lib/api-keys";
+import { resolveUserPlanType } from "@/lib/user-plans";
+import { validateImportUrl } from "@/lib/url-import";
+import { deleteUploadData } from "@/lib/upload-deletion";
+import { v4 as uuidv4 } from "uuid";
 
 export const runtime = "nodejs";
 export const maxDuration = 60;
@@ -99,20 +105,8 @@ async function runRetentionCleanup(
       const oldUploadId = row.upload_id as string;
       const metadataStr = row.metadata as string | null;
       const metadata = metadataStr ? JSON.parse(metadataStr) : null;
-      const oldR2Key = metadata?.resultR2Key;
 
-      if (oldR2Key) {
-        try {
-          await deleteObject(oldR2Key);
-        } catch {
-          // R2 file may already be gone
-        }
-      }
-
-      await dbClient.execute({
-        sql: 'DELETE FROM processing_status WHERE upload_id = ? AND user_id = ?',
-        args: [oldUploadId, userId],
-      });
+      await deleteUploadData(dbClient, oldUploadId, userId, metadata);
       console.log(`[${uploadId}] Auto-deleted oldest upload ${oldUploadId}`);
     }
   }
@@ -120,8 +114,13 @@ async function runRetentionCleanup(
 
 export async function POST(request: NextRequest) {
   try {
-    // --- Phase 1: Authentication ---
-    const { userId } = await auth();
+    // --- Phase 1: Authentication (Clerk session, or API key for the public REST API) ---
+    const { userId: sessionUserId, getToken } = await auth();
+    const apiKeyAuth = sessionUserId ? null : await authenticateApiKey(request.headers.get("authorization"));
+    if (apiKeyAuth && !apiKeyAuth.ok) {
+      return apiKeyErrorResponse(apiKeyAuth);
+    }
+    const userId = sessionUserId ?? apiKeyAuth?.userId;
     if (!userId) {
       return NextResponse.json(
         { error: "Unauthorized", message: "You must be logged in to process videos" },
@@ -140,7 +139,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { uploadId, r2Key, fileName, dataConsent } = body;
+    const { dataConsent } = body;
+    let { uploadId, r2Key, fileName } = body;
+
+    // Import from URL: no browser upload, the Worker downloads sourceUrl into a new R2 key
+    let sourceUrl: string | undefined;
+    if (body.sourceUrl !== undefined) {
+      const importUrl = validateImportUrl(body.sourceUrl);
+      if (!importUrl.valid) {
+        return NextResponse.json(
+          { error: "Invalid request", message: importUrl.error },
+          { status: 400 }
+        );
+      }
+      sourceUrl = importUrl.url;
+      uploadId = `upload_${Date.now()}_${uuidv4().slice(0, 12)}`;
+      r2Key = generateVideoKey(userId, uploadId, importUrl.fileName);
+      fileName = typeof fileName === "string" && fileName.trim() ? fileName.trim() : importUrl.fileName;
+    }
 
     if (!uploadId || !r2Key) {
       return NextResponse.json(
@@ -152,6 +168,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const optionsResult = validateProcessingOptions(body.options);
+    if (!optionsResult.valid) {
+      return NextResponse.json(
+        { error: "Invalid request", message: optionsResult.error },
+        { status: 400 }
+      );
+    }
+
     if (!isValidR2Key(r2Key)) {
       return NextResponse.json(
         { error: "Invalid request", message: "Invalid R2 key format" },
@@ -212,9 +236,9 @@ export async function POST(request: NextRequest) {
       const dbClient = createClient({ url: tursoUrl, authToken: tursoToken });
       await dbClient.execute({
         sql: `INSERT INTO processing_status (upload_id, user_id, status, progress, current_step, created_at, updated_at, metadata)
-              VALUES (?, ?, 'processing', 0, 'Initiating...', datetime('now'), datetime('now'), ?)
+              VALUES (?, ?, 'queued', 0, 'Initiating...', datetime('now'), datetime('now'), ?)
               ON CONFLICT(upload_id) DO UPDATE SET
-                status = 'processing',
+                status = 'queued',
                 progress = 0,
                 current_step = 'Initiating...',
                 error_message = NULL,
@@ -241,12 +265,23 @@ export async function POST(request: NextRequest) {
     if (fallbackUrls.length > 0) {
       console.log(`[${uploadId}] Fallback URLs: ${fallbackUrls.join(', ')}`);
     }
+    // Plan decides the Worker queue priority (paid plans run first)
+    // API key requests have no Clerk token and use the plan recorded by the owner's sessions
+    const planType = await resolveUserPlanType(
+      createClient({ url: tursoUrl, authToken: tursoToken }),
+      userId,
+      sessionUserId ? await getToken().catch(() => null) : null
+    );
+
     const payload = {
       uploadId,
       r2Key,
       fileName,
       userId,
       dataConsent: dataConsent || false,
+      options: optionsResult.options,
+      planType,
+      ...(sourceUrl && { sourceUrl }),
     };
 
     // Background: Cloud Run call (kept alive via waitUntil)
@@ -284,8 +319,8 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       uploadId,
-      message: "Video processing started successfully",
-      status: "processing",
+      message: "Video queued for processing",
+      status: "queued",
       region: geoRegion || 'default',
     });
   } catch (error) {
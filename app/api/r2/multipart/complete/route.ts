@@ -0,0 +1,50 @@
+/**
+ * POST /api/r2/multipart/complete - Assemble the uploaded parts into the video object
+ *
+ * Afterwards the upload is started with /api/process like a single-PUT upload.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { completeMultipartUpload, isUserUploadKey } from '@/lib/r2-client';
+import { apiKeyErrorResponse, authenticateApiKey } from '@/lib/api-keys';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId: sessionUserId } = await auth();
+    const apiKeyAuth = sessionUserId ? null : await authenticateApiKey(request.headers.get('authorization'));
+    if (apiKeyAuth && !apiKeyAuth.ok) {
+      return apiKeyErrorResponse(apiKeyAuth);
+    }
+    const userId = sessionUserId ?? apiKeyAuth?.userId;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { r2Key, multipartUploadId, parts } = await request.json().catch(() => ({}));
+    if (typeof r2Key !== 'string' || typeof multipartUploadId !== 'string' || !multipartUploadId) {
+      return NextResponse.json({ error: 'Missing required fields: r2Key and multipartUploadId' }, { status: 400 });
+    }
+    if (
+      !Array.isArray(parts) ||
+      parts.length === 0 ||
+      !parts.every((part) => Number.isInteger(part?.partNumber) && typeof part?.etag === 'string' && part.etag)
+    ) {
+      return NextResponse.json({ error: 'parts must list { partNumber, etag } for every part' }, { status: 400 });
+    }
+    if (!isUserUploadKey(r2Key, userId)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    await completeMultipartUpload(r2Key, multipartUploadId, parts);
+
+    console.log(`[R2] Completed multipart upload ${r2Key} (${parts.length} parts)`);
+    return NextResponse.json({ success: true, r2Key });
+  } catch (error) {
+    console.error('Failed to complete multipart upload:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
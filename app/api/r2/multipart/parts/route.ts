@@ -0,0 +1,101 @@
+/**
+ * Parts of a multipart upload
+ *
+ * GET  /api/r2/multipart/parts?r2Key=...&multipartUploadId=... - Parts already stored (to resume)
+ * POST /api/r2/multipart/parts - Presign PUT URLs for the given part numbers
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { generateUploadPartUrl, isUserUploadKey, listUploadedParts } from '@/lib/r2-client';
+import { apiKeyErrorResponse, authenticateApiKey } from '@/lib/api-keys';
+import { MAX_PART_URLS_PER_REQUEST, MAX_VIDEO_FILE_SIZE, MULTIPART_PART_SIZE, getPartCount } from '@/lib/video-upload';
+
+const MAX_PART_NUMBER = getPartCount(MAX_VIDEO_FILE_SIZE, MULTIPART_PART_SIZE);
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId: sessionUserId } = await auth();
+    const apiKeyAuth = sessionUserId ? null : await authenticateApiKey(request.headers.get('authorization'));
+    if (apiKeyAuth && !apiKeyAuth.ok) {
+      return apiKeyErrorResponse(apiKeyAuth);
+    }
+    const userId = sessionUserId ?? apiKeyAuth?.userId;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const r2Key = request.nextUrl.searchParams.get('r2Key');
+    const multipartUploadId = request.nextUrl.searchParams.get('multipartUploadId');
+    if (!r2Key || !multipartUploadId) {
+      return NextResponse.json({ error: 'Missing required parameters: r2Key and multipartUploadId' }, { status: 400 });
+    }
+    if (!isUserUploadKey(r2Key, userId)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    try {
+      const parts = await listUploadedParts(r2Key, multipartUploadId);
+      return NextResponse.json({ parts });
+    } catch (error) {
+      // Completed, aborted or expired: the client starts a new upload
+      if (error instanceof Error && error.name === 'NoSuchUpload') {
+        return NextResponse.json({ error: 'Multipart upload not found' }, { status: 404 });
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error('Failed to list multipart upload parts:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId: sessionUserId } = await auth();
+    const apiKeyAuth = sessionUserId ? null : await authenticateApiKey(request.headers.get('authorization'));
+    if (apiKeyAuth && !apiKeyAuth.ok) {
+      return apiKeyErrorResponse(apiKeyAuth);
+    }
+    const userId = sessionUserId ?? apiKeyAuth?.userId;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { r2Key, multipartUploadId, partNumbers } = await request.json().catch(() => ({}));
+    if (typeof r2Key !== 'string' || typeof multipartUploadId !== 'string' || !multipartUploadId) {
+      return NextResponse.json({ error: 'Missing required fields: r2Key and multipartUploadId' }, { status: 400 });
+    }
+    if (
+      !Array.isArray(partNumbers) ||
+      partNumbers.length === 0 ||
+      partNumbers.length > MAX_PART_URLS_PER_REQUEST ||
+      !partNumbers.every((n) => Number.isInteger(n) && n >= 1 && n <= MAX_PART_NUMBER)
+    ) {
+      return NextResponse.json(
+        { error: `partNumbers must list 1-${MAX_PART_URLS_PER_REQUEST} part numbers between 1 and ${MAX_PART_NUMBER}` },
+        { status: 400 }
+      );
+    }
+    if (!isUserUploadKey(r2Key, userId)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const urls = await Promise.all(
+      (partNumbers as number[]).map(async (partNumber) => ({
+        partNumber,
+        url: await generateUploadPartUrl(r2Key, multipartUploadId, partNumber),
+      }))
+    );
+    return NextResponse.json({ urls, expiresIn: 3600 });
+  } catch (error) {
+    console.error('Failed to presign multipart upload parts:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Multipart upload to R2 for large videos
+ *
+ * POST   /api/r2/multipart - Start a multipart upload
+ * DELETE /api/r2/multipart - Abort it and discard the uploaded parts
+ *
+ * Parts are presigned by /api/r2/multipart/parts and assembled by
+ * /api/r2/multipart/complete. The browser side is lib/multipart-upload.ts.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import {
+  abortMultipartUpload,
+  createMultipartUpload,
+  generateVideoKey,
+  isUserUploadKey,
+} from '@/lib/r2-client';
+import { apiKeyErrorResponse, authenticateApiKey } from '@/lib/api-keys';
+import { MULTIPART_PART_SIZE, getPartCount, validateVideoUploadRequest } from '@/lib/video-upload';
+import { v4 as uuidv4 } from 'uuid';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Authentication check (Clerk session, or API key for the public REST API)
+    const { userId: sessionUserId } = await auth();
+    const apiKeyAuth = sessionUserId ? null : await authenticateApiKey(request.headers.get('authorization'));
+    if (apiKeyAuth && !apiKeyAuth.ok) {
+      return apiKeyErrorResponse(apiKeyAuth);
+    }
+    const userId = sessionUserId ?? apiKeyAuth?.userId;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const validation = validateVideoUploadRequest(await request.json());
+    if (!validation.valid) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+    const { fileName, contentType, fileSize } = validation;
+    if (!fileSize) {
+      return NextResponse.json({ error: 'fileSize is required for multipart uploads' }, { status: 400 });
+    }
+
+    const uploadId = `upload_${Date.now()}_${uuidv4().slice(0, 12)}`;
+    const key = generateVideoKey(userId, uploadId, fileName);
+    const multipartUploadId = await createMultipartUpload(key, contentType);
+
+    console.log(`[R2] Started multipart upload for user ${userId}, uploadId: ${uploadId}`);
+
+    return NextResponse.json({
+      uploadId,
+      r2Key: key,
+      multipartUploadId,
+      partSize: MULTIPART_PART_SIZE,
+      partCount: getPartCount(fileSize),
+    });
+  } catch (error) {
+    console.error('Failed to start multipart upload:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { userId: sessionUserId } = await auth();
+    const apiKeyAuth = sessionUserId ? null : await authenticateApiKey(request.headers.get('authorization'));
+    if (apiKeyAuth && !apiKeyAuth.ok) {
+      return apiKeyErrorResponse(apiKeyAuth);
+    }
+    const userId = sessionUserId ?? apiKeyAuth?.userId;
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { r2Key, multipartUploadId } = await request.json().catch(() => ({}));
+    if (typeof r2Key !== 'string' || typeof multipartUploadId !== 'string' || !multipartUploadId) {
+      return NextResponse.json({ error: 'Missing required fields: r2Key and multipartUploadId' }, { status: 400 });
+    }
+    if (!isUserUploadKey(r2Key, userId)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    await abortMultipartUpload(r2Key, multipartUploadId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to abort multipart upload:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
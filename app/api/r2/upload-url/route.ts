@@ -1,52 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { generateUploadUrl, generateVideoKey } from '@/lib/r2-client';
+import { apiKeyErrorResponse, authenticateApiKey } from '@/lib/api-keys';
+import { validateVideoUploadRequest } from '@/lib/video-upload';
 import { v4 as uuidv4 } from 'uuid';
 
-const MAX_FILE_SIZE = 2 * 1024 * 1024 * 1024; // 2GB
-
-const ALLOWED_VIDEO_TYPES = [
-  'video/mp4',
-  'video/quicktime', // .mov
-  'video/x-msvideo', // .avi
-  'video/x-matroska', // .mkv
-  'video/webm',
-];
-
 export async function POST(request: NextRequest) {
   try {
-    // Authentication check
-    const { userId } = await auth();
+    // Authentication check (Clerk session, or API key for the public REST API)
+    const { userId: sessionUserId } = await auth();
+    const apiKeyAuth = sessionUserId ? null : await authenticateApiKey(request.headers.get('authorization'));
+    if (apiKeyAuth && !apiKeyAuth.ok) {
+      return apiKeyErrorResponse(apiKeyAuth);
+    }
+    const userId = sessionUserId ?? apiKeyAuth?.userId;
     if (!userId) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const body = await request.json();
-    const { fileName, contentType, fileSize } = body;
-
-    // Validation
-    if (!fileName || !contentType) {
-      return NextResponse.json(
-        { error: 'Missing required fields: fileName and contentType' },
-        { status: 400 }
-      );
-    }
-
-    // File type validation
-    if (!ALLOWED_VIDEO_TYPES.includes(contentType)) {
-      return NextResponse.json(
-        { error: `Unsupported video format. Allowed: MP4, MOV, AVI, MKV, WebM` },
-        { status: 400 }
-      );
-    }
-
-    // File size validation
-    if (fileSize && fileSize > MAX_FILE_SIZE) {
-      return NextResponse.json(
-        { error: `File size exceeds 2GB limit. Current: ${(fileSize / (1024 * 1024 * 1024)).toFixed(2)}GB` },
-        { status: 400 }
-      );
+    const validation = validateVideoUploadRequest(await request.json());
+    if (!validation.valid) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
     }
+    const { fileName, contentType } = validation;
 
     // Generate uploadId
     const uploadId = `upload_${Date.now()}_${uuidv4().slice(0, 12)}`;
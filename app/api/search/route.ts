@@ -0,0 +1,67 @@
+/**
+ * GET /api/search?q=...&page=1 - Full-text search across the user's processed videos
+ *
+ * Matches per-scene OCR and narration text (indexed by the Worker when an upload
+ * completes, see lib/search.ts) and returns matching scenes with their video,
+ * timecode, thumbnail and a highlighted snippet. All words must match.
+ *
+ * Part of the public REST API: accepts an API key (rate limited per key, see lib/api-keys.ts)
+ *
+ * Security: Results are limited to the caller's user_id
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getTursoClient } from '@/lib/turso';
+import { RATE_LIMIT_EXCEEDED, rateLimitResponse } from '@/lib/api-keys';
+import { parseSearchQuery, searchScenes, SEARCH_PAGE_SIZE } from '@/lib/search';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { client, userId } = await getTursoClient({ allowApiKey: true });
+
+    const query = parseSearchQuery(request.nextUrl.searchParams.get('q'));
+    if (!query.valid) {
+      return NextResponse.json({ error: query.error }, { status: 400 });
+    }
+
+    const pageParam = request.nextUrl.searchParams.get('page');
+    const page = pageParam === null ? 1 : Number(pageParam);
+    if (!Number.isInteger(page) || page < 1 || page > 50) {
+      return NextResponse.json({ error: 'page must be between 1 and 50' }, { status: 400 });
+    }
+
+    let found: Awaited<ReturnType<typeof searchScenes>>;
+    try {
+      found = await searchScenes(client, userId, query.terms, page);
+    } catch (error) {
+      // Nothing indexed yet: the Worker creates scene_search on the first completed upload
+      if (error instanceof Error && error.message.includes('no such table')) {
+        found = { hits: [], hasMore: false };
+      } else {
+        throw error;
+      }
+    }
+
+    return NextResponse.json({
+      query: query.terms.join(' '),
+      results: found.hits,
+      pagination: { page, pageSize: SEARCH_PAGE_SIZE, hasMore: found.hasMore },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (error instanceof Error && error.message === RATE_LIMIT_EXCEEDED) {
+      return rateLimitResponse();
+    }
+
+    console.error('Search failed:', error);
+    return NextResponse.json(
+      { error: 'Search failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * GET /api/search/semantic?q=...&uploadId=...&limit=10 - Semantic scene search
+ *
+ * Finds the scenes closest in meaning to `q` (not just matching words) across
+ * the user's processed videos, or within one video when `uploadId` is given.
+ * The query is embedded by the Worker with the same provider as the scenes
+ * (see lib/semantic-search.ts). Results are ordered by score, closest first.
+ *
+ * Part of the public REST API: accepts an API key (rate limited per key, see lib/api-keys.ts)
+ *
+ * Security: Results are limited to the caller's user_id
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getTursoClient } from '@/lib/turso';
+import { RATE_LIMIT_EXCEEDED, rateLimitResponse } from '@/lib/api-keys';
+import {
+  parseSemanticQuery,
+  DEFAULT_SEMANTIC_RESULTS,
+  MAX_SEMANTIC_RESULTS,
+} from '@/lib/semantic-search';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await getTursoClient({ allowApiKey: true });
+
+    const query = parseSemanticQuery(request.nextUrl.searchParams.get('q'), 'q');
+    if (!query.valid) {
+      return NextResponse.json({ error: query.error }, { status: 400 });
+    }
+
+    const limitParam = request.nextUrl.searchParams.get('limit');
+    const limit = limitParam === null ? DEFAULT_SEMANTIC_RESULTS : Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEMANTIC_RESULTS) {
+      return NextResponse.json({ error: `limit must be between 1 and ${MAX_SEMANTIC_RESULTS}` }, { status: 400 });
+    }
+
+    const uploadId = request.nextUrl.searchParams.get('uploadId') || undefined;
+
+    const workerSecret = process.env.WORKER_SECRET?.trim();
+    const cloudRunUrl = process.env.NODE_ENV === 'development'
+      ? process.env.CLOUD_RUN_URL?.trim() || 'http://localhost:8080'
+      : request.headers.get('x-target-cloud-run') || process.env.CLOUD_RUN_URL?.trim();
+
+    if (!cloudRunUrl || !workerSecret) {
+      console.error('Missing environment variables: CLOUD_RUN_URL or WORKER_SECRET');
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      );
+    }
+
+    // The Worker scopes the search to userId (and joins processing_status)
+    const response = await fetch(`${cloudRunUrl}/search/semantic`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${workerSecret}`,
+      },
+      body: JSON.stringify({ userId, query: query.query, uploadId, limit }),
+      signal: AbortSignal.timeout(55000),
+    });
+
+    const workerResult = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      return NextResponse.json(
+        { error: workerResult.error || `Worker returned status ${response.status}` },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({
+      query: query.query,
+      results: workerResult.results ?? [],
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (error instanceof Error && error.message === RATE_LIMIT_EXCEEDED) {
+      return rateLimitResponse();
+    }
+
+    console.error('Semantic search failed:', error);
+    return NextResponse.json(
+      { error: 'Semantic search failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { createClient } from "@libsql/client";
+import { apiKeyErrorResponse, authenticateApiKey } from "@/lib/api-keys";
 
 export const runtime = "nodejs";
 
@@ -9,8 +10,13 @@ export async function GET(
   { params }: { params: { uploadId: string } }
 ) {
   try {
-    // Security: Verify authentication
-    const { userId } = await auth();
+    // Security: Verify authentication (Clerk session, or API key for the public REST API)
+    const { userId: sessionUserId } = await auth();
+    const apiKeyAuth = sessionUserId ? null : await authenticateApiKey(request.headers.get("authorization"));
+    if (apiKeyAuth && !apiKeyAuth.ok) {
+      return apiKeyErrorResponse(apiKeyAuth);
+    }
+    const userId = sessionUserId ?? apiKeyAuth?.userId;
     if (!userId) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
@@ -77,6 +83,8 @@ export async function GET(
       error: row.error_message as string | null, // Map error_message → error
       // 3-Phase UI data (extracted from metadata)
       ...phaseData,
+      // Worker job queue position (stored in metadata while waiting)
+      queuePosition: row.status === 'queued' ? metadata?.queuePosition ?? null : null,
     };
 
     return NextResponse.json(mappedData);
@@ -0,0 +1,101 @@
+/**
+ * GET /api/status/[uploadId]/stream - Live processing status (Server-Sent Events)
+ *
+ * Proxies the Worker's /status/:uploadId/stream. Events:
+ * - `status`: full status snapshot (same shape as /api/status/[uploadId]) on every change
+ * - `warning`: { message } for each non-fatal processing warning as it occurs
+ * The stream ends after a terminal status; clients reconnect when it drops and
+ * fall back to polling /api/status/[uploadId] when it cannot be reopened.
+ *
+ * Part of the public REST API: accepts an API key (rate limited per key, see lib/api-keys.ts)
+ *
+ * Security: Verifies user ownership via user_id in WHERE clause (IDOR prevention)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getTursoClient } from '@/lib/turso';
+import { RATE_LIMIT_EXCEEDED, rateLimitResponse } from '@/lib/api-keys';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+// The client reconnects (or polls) when the platform ends the stream
+export const maxDuration = 300;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { uploadId: string } }
+) {
+  const { uploadId } = params;
+
+  try {
+    const { client, userId } = await getTursoClient({ allowApiKey: true });
+
+    const result = await client.execute({
+      sql: 'SELECT status FROM processing_status WHERE upload_id = ? AND user_id = ?',
+      args: [uploadId, userId],
+    });
+
+    if (result.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Upload not found' },
+        { status: 404 }
+      );
+    }
+
+    const workerSecret = process.env.WORKER_SECRET?.trim();
+    const cloudRunUrl = process.env.NODE_ENV === 'development'
+      ? process.env.CLOUD_RUN_URL?.trim() || 'http://localhost:8080'
+      : request.headers.get('x-target-cloud-run') || process.env.CLOUD_RUN_URL?.trim();
+
+    if (!cloudRunUrl || !workerSecret) {
+      console.error('Missing environment variables: CLOUD_RUN_URL or WORKER_SECRET');
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      );
+    }
+
+    // No timeout: the stream stays open until a terminal status or the client disconnects
+    const response = await fetch(
+      `${cloudRunUrl}/status/${encodeURIComponent(uploadId)}/stream?userId=${encodeURIComponent(userId)}`,
+      {
+        headers: {
+          Accept: 'text/event-stream',
+          Authorization: `Bearer ${workerSecret}`,
+        },
+        signal: request.signal,
+        cache: 'no-store',
+      }
+    );
+
+    if (!response.ok || !response.body) {
+      const status = response.status === 404 ? 404 : 502;
+      return NextResponse.json(
+        { error: status === 404 ? 'Upload not found' : `Worker returned status ${response.status}` },
+        { status }
+      );
+    }
+
+    return new Response(response.body, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (error instanceof Error && error.message === RATE_LIMIT_EXCEEDED) {
+      return rateLimitResponse();
+    }
+
+    console.error(`[${uploadId}] Status stream failed:`, error);
+    return NextResponse.json(
+      { error: 'Status stream failed' },
+      { status: 502 }
+    );
+  }
+}
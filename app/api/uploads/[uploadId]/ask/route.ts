@@ -0,0 +1,117 @@
+/**
+ * POST /api/uploads/[uploadId]/ask - Ask a question about a processed video
+ *
+ * Body: { question: string }
+ * The Worker retrieves the upload's scenes closest to the question (scene
+ * embeddings, see lib/semantic-search.ts) and answers from them only.
+ * Response: { uploadId, answer, citations: [{ sceneNumber, startTime, timecode }] }
+ *
+ * Part of the public REST API: accepts an API key (rate limited per key, see lib/api-keys.ts)
+ *
+ * Security: Verifies user ownership via user_id in WHERE clause (IDOR prevention)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getTursoClient } from '@/lib/turso';
+import { RATE_LIMIT_EXCEEDED, rateLimitResponse } from '@/lib/api-keys';
+import { parseSemanticQuery } from '@/lib/semantic-search';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { uploadId: string } }
+) {
+  const { uploadId } = params;
+
+  try {
+    const { client, userId } = await getTursoClient({ allowApiKey: true });
+
+    let body: { question?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const question = parseSemanticQuery(body?.question, 'question');
+    if (!question.valid) {
+      return NextResponse.json({ error: question.error }, { status: 400 });
+    }
+
+    // Fetch the record with ownership verification
+    const result = await client.execute({
+      sql: 'SELECT status FROM processing_status WHERE upload_id = ? AND user_id = ?',
+      args: [uploadId, userId],
+    });
+
+    if (result.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Upload not found' },
+        { status: 404 }
+      );
+    }
+
+    const currentStatus = result.rows[0].status as string;
+    if (currentStatus !== 'completed') {
+      return NextResponse.json(
+        { error: 'Upload is not completed', status: currentStatus },
+        { status: 409 }
+      );
+    }
+
+    const workerSecret = process.env.WORKER_SECRET?.trim();
+    const cloudRunUrl = process.env.NODE_ENV === 'development'
+      ? process.env.CLOUD_RUN_URL?.trim() || 'http://localhost:8080'
+      : request.headers.get('x-target-cloud-run') || process.env.CLOUD_RUN_URL?.trim();
+
+    if (!cloudRunUrl || !workerSecret) {
+      console.error('Missing environment variables: CLOUD_RUN_URL or WORKER_SECRET');
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      );
+    }
+
+    const response = await fetch(`${cloudRunUrl}/result/${encodeURIComponent(uploadId)}/ask`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${workerSecret}`,
+      },
+      body: JSON.stringify({ userId, question: question.query }),
+      signal: AbortSignal.timeout(55000),
+    });
+
+    const workerResult = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      // 404: the upload has no embedded scenes (no text, or processed before semantic search existed)
+      const status = response.status === 404 ? 404 : 502;
+      return NextResponse.json(
+        { error: workerResult.error || `Worker returned status ${response.status}` },
+        { status }
+      );
+    }
+
+    return NextResponse.json({
+      uploadId,
+      answer: workerResult.answer,
+      citations: workerResult.citations ?? [],
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (error instanceof Error && error.message === RATE_LIMIT_EXCEEDED) {
+      return rateLimitResponse();
+    }
+
+    console.error(`[${uploadId}] Ask request failed:`, error);
+    return NextResponse.json(
+      { error: 'Failed to answer the question' },
+      { status: 500 }
+    );
+  }
+}
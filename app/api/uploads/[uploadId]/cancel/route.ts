@@ -0,0 +1,101 @@
+/**
+ * POST /api/uploads/[uploadId]/cancel - Cancel a queued or running upload
+ *
+ * Queued jobs are cancelled immediately. Running jobs are stopped by the Worker
+ * instance processing them (within a few seconds); the final 'cancelled' status
+ * is reported through the normal /api/status/[uploadId] polling.
+ *
+ * Security: Verifies user ownership via user_id in WHERE clause (IDOR prevention)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getTursoClient } from '@/lib/turso';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+// Statuses a job can be cancelled from (everything before completed / error / cancelled)
+const CANCELLABLE_STATUSES = ['queued', 'resuming', 'pending', 'downloading', 'processing'];
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { uploadId: string } }
+) {
+  const { uploadId } = params;
+
+  try {
+    const { client, userId } = await getTursoClient();
+
+    // Fetch the record with ownership verification
+    const result = await client.execute({
+      sql: 'SELECT status FROM processing_status WHERE upload_id = ? AND user_id = ?',
+      args: [uploadId, userId],
+    });
+
+    if (result.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Upload not found' },
+        { status: 404 }
+      );
+    }
+
+    const currentStatus = result.rows[0].status as string;
+    if (!CANCELLABLE_STATUSES.includes(currentStatus)) {
+      return NextResponse.json(
+        { error: 'Upload is not processing', status: currentStatus },
+        { status: 409 }
+      );
+    }
+
+    const workerSecret = process.env.WORKER_SECRET?.trim();
+    const cloudRunUrl = process.env.NODE_ENV === 'development'
+      ? process.env.CLOUD_RUN_URL?.trim() || 'http://localhost:8080'
+      : request.headers.get('x-target-cloud-run') || process.env.CLOUD_RUN_URL?.trim();
+
+    if (!cloudRunUrl || !workerSecret) {
+      console.error('Missing environment variables: CLOUD_RUN_URL or WORKER_SECRET');
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      );
+    }
+
+    const response = await fetch(`${cloudRunUrl}/cancel`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${workerSecret}`,
+      },
+      body: JSON.stringify({ uploadId, userId }),
+      signal: AbortSignal.timeout(60000),
+    });
+
+    const workerResult = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      const status = [404, 409].includes(response.status) ? response.status : 502;
+      return NextResponse.json(
+        { error: workerResult.error || `Worker returned status ${response.status}` },
+        { status }
+      );
+    }
+
+    console.log(`[${uploadId}] Cancellation requested by user ${userId} (${workerResult.status})`);
+
+    // 200: cancelled before it ran, 202: the Worker is stopping the running job
+    return NextResponse.json(
+      { success: true, uploadId, status: workerResult.status },
+      { status: response.status }
+    );
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.error(`[${uploadId}] Cancel request failed:`, error);
+    return NextResponse.json(
+      { error: 'Failed to cancel processing' },
+      { status: 500 }
+    );
+  }
+}
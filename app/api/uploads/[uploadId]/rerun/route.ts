@@ -0,0 +1,122 @@
+/**
+ * POST /api/uploads/[uploadId]/rerun - Re-run a finished upload from one pipeline stage
+ *
+ * Body: { fromStep: RerunStep, options?: ProcessingOptions }
+ * The Worker reuses everything upstream of `fromStep` (e.g. only OCR, or only the
+ * Excel report) from the checkpoint it retains after processing. Progress is then
+ * reported through the normal /api/status/[uploadId] polling.
+ *
+ * Security: Verifies user ownership via user_id in WHERE clause (IDOR prevention)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getTursoClient } from '@/lib/turso';
+import { validateRerunRequest } from '@/lib/rerun';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { uploadId: string } }
+) {
+  const { uploadId } = params;
+
+  try {
+    const { client, userId } = await getTursoClient();
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const rerun = validateRerunRequest(body);
+    if (!rerun.valid) {
+      return NextResponse.json({ error: rerun.error }, { status: 400 });
+    }
+
+    // Fetch the record with ownership verification
+    const result = await client.execute({
+      sql: 'SELECT status, metadata FROM processing_status WHERE upload_id = ? AND user_id = ?',
+      args: [uploadId, userId],
+    });
+
+    if (result.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Upload not found' },
+        { status: 404 }
+      );
+    }
+
+    const currentStatus = result.rows[0].status as string;
+    if (currentStatus !== 'completed' && currentStatus !== 'error' && currentStatus !== 'cancelled') {
+      return NextResponse.json(
+        { error: 'Upload is still processing', status: currentStatus },
+        { status: 409 }
+      );
+    }
+
+    const workerSecret = process.env.WORKER_SECRET?.trim();
+    const cloudRunUrl = process.env.NODE_ENV === 'development'
+      ? process.env.CLOUD_RUN_URL?.trim() || 'http://localhost:8080'
+      : request.headers.get('x-target-cloud-run') || process.env.CLOUD_RUN_URL?.trim();
+
+    if (!cloudRunUrl || !workerSecret) {
+      console.error('Missing environment variables: CLOUD_RUN_URL or WORKER_SECRET');
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      );
+    }
+
+    const metadataStr = result.rows[0].metadata as string | null;
+    const metadata = metadataStr ? JSON.parse(metadataStr) : null;
+    const fileName = (metadata?.fileName as string | undefined) || uploadId;
+
+    // The Worker validates the retained checkpoint, queues the rerun and answers 202
+    // (same queue and keep-alive pattern as /process). Cold starts take 20-30s, hence the timeout.
+    const response = await fetch(`${cloudRunUrl}/rerun`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${workerSecret}`,
+      },
+      body: JSON.stringify({
+        uploadId,
+        userId,
+        fileName,
+        fromStep: rerun.fromStep,
+        options: rerun.options,
+      }),
+      signal: AbortSignal.timeout(60000),
+    });
+
+    if (!response.ok) {
+      const workerResult = await response.json().catch(() => ({}));
+      const status = [400, 404, 409].includes(response.status) ? response.status : 502;
+      return NextResponse.json(
+        { error: workerResult.error || `Worker returned status ${response.status}` },
+        { status }
+      );
+    }
+
+    console.log(`[${uploadId}] Rerun from ${rerun.fromStep} requested by user ${userId}`);
+
+    return NextResponse.json(
+      { success: true, uploadId, fromStep: rerun.fromStep },
+      { status: 202 }
+    );
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.error(`[${uploadId}] Rerun request failed:`, error);
+    return NextResponse.json(
+      { error: 'Failed to start rerun' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,223 @@
+/**
+ * GET /api/uploads/[uploadId]/result - Structured JSON analysis result
+ * PUT /api/uploads/[uploadId]/result - Save scene editor corrections and regenerate the Excel report
+ *
+ * GET returns the versioned result document (video info, stats, topic groups)
+ * with scenes paginated via ?page=1&pageSize=50 (pageSize max 200).
+ * PUT takes { scenes: EditedScene[] } and forwards them to the Worker, which
+ * rebuilds the Excel/JSON result without re-running OCR or Whisper.
+ *
+ * GET is part of the public REST API (API keys accepted); PUT stays session-only.
+ *
+ * Security: Verifies user ownership via user_id in WHERE clause (IDOR prevention)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getTursoClient } from '@/lib/turso';
+import { RATE_LIMIT_EXCEEDED, rateLimitResponse } from '@/lib/api-keys';
+import { loadResultDocument } from '@/lib/result-document';
+import { validateSceneEdits } from '@/lib/scene-edits';
+import type { ProcessingMetadata, ResultDocument } from '@/types/shared';
+
+export const runtime = 'nodejs';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * Parse a positive integer query parameter (returns null when invalid)
+ */
+function parsePositiveInt(value: string | null, fallback: number): number | null {
+  if (value === null) return fallback;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 1 ? parsed : null;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { uploadId: string } }
+) {
+  const { uploadId } = params;
+
+  try {
+    const { client, userId } = await getTursoClient({ allowApiKey: true });
+
+    const page = parsePositiveInt(request.nextUrl.searchParams.get('page'), 1);
+    const pageSize = parsePositiveInt(request.nextUrl.searchParams.get('pageSize'), DEFAULT_PAGE_SIZE);
+
+    if (page === null || pageSize === null || pageSize > MAX_PAGE_SIZE) {
+      return NextResponse.json(
+        { error: `page must be >= 1 and pageSize must be between 1 and ${MAX_PAGE_SIZE}` },
+        { status: 400 }
+      );
+    }
+
+    // Fetch the record with ownership verification
+    const result = await client.execute({
+      sql: 'SELECT status, metadata FROM processing_status WHERE upload_id = ? AND user_id = ?',
+      args: [uploadId, userId],
+    });
+
+    if (result.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Upload not found' },
+        { status: 404 }
+      );
+    }
+
+    if (result.rows[0].status !== 'completed') {
+      return NextResponse.json(
+        { error: 'Result not available yet', status: result.rows[0].status },
+        { status: 409 }
+      );
+    }
+
+    const metadataStr = result.rows[0].metadata as string | null;
+    const metadata = metadataStr ? JSON.parse(metadataStr) : null;
+
+    const loaded = await loadResultDocument(uploadId, userId, metadata);
+    if (!loaded.ok) {
+      return NextResponse.json({ error: loaded.error }, { status: loaded.status });
+    }
+
+    const { scenes, ...document } = loaded.document;
+    const totalScenes = scenes.length;
+    const start = (page - 1) * pageSize;
+
+    return NextResponse.json({
+      ...document,
+      scenes: scenes.slice(start, start + pageSize),
+      pagination: {
+        page,
+        pageSize,
+        totalScenes,
+        totalPages: Math.ceil(totalScenes / pageSize),
+        hasMore: start + pageSize < totalScenes,
+      },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (error instanceof Error && error.message === RATE_LIMIT_EXCEEDED) {
+      return rateLimitResponse();
+    }
+
+    console.error(`[${uploadId}] Result fetch failed:`, error);
+    return NextResponse.json(
+      { error: 'Failed to fetch result' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { uploadId: string } }
+) {
+  const { uploadId } = params;
+
+  try {
+    const { client, userId } = await getTursoClient();
+
+    let body: { scenes?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const edits = validateSceneEdits(body?.scenes);
+    if (!edits.valid) {
+      return NextResponse.json({ error: edits.error }, { status: 400 });
+    }
+
+    // Fetch the record with ownership verification
+    const result = await client.execute({
+      sql: 'SELECT status, metadata FROM processing_status WHERE upload_id = ? AND user_id = ?',
+      args: [uploadId, userId],
+    });
+
+    if (result.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Upload not found' },
+        { status: 404 }
+      );
+    }
+
+    if (result.rows[0].status !== 'completed') {
+      return NextResponse.json(
+        { error: 'Result not available yet', status: result.rows[0].status },
+        { status: 409 }
+      );
+    }
+
+    const workerSecret = process.env.WORKER_SECRET?.trim();
+    const cloudRunUrl = process.env.NODE_ENV === 'development'
+      ? process.env.CLOUD_RUN_URL?.trim() || 'http://localhost:8080'
+      : request.headers.get('x-target-cloud-run') || process.env.CLOUD_RUN_URL?.trim();
+
+    if (!cloudRunUrl || !workerSecret) {
+      console.error('Missing environment variables: CLOUD_RUN_URL or WORKER_SECRET');
+      return NextResponse.json(
+        { error: 'Server configuration error' },
+        { status: 500 }
+      );
+    }
+
+    // Regeneration only rewrites files (no OCR/Whisper), so a synchronous call is fine
+    const response = await fetch(`${cloudRunUrl}/result/${uploadId}/scenes`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${workerSecret}`,
+      },
+      body: JSON.stringify({ userId, scenes: edits.scenes }),
+      signal: AbortSignal.timeout(120000),
+    });
+
+    const workerResult = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      const status = response.status === 400 || response.status === 404 ? response.status : 502;
+      return NextResponse.json(
+        { error: workerResult.error || `Worker returned status ${response.status}` },
+        { status }
+      );
+    }
+
+    // Keep the upload's summary counts in sync with the edited result
+    const stats = workerResult.stats as ResultDocument['stats'];
+    const metadataStr = result.rows[0].metadata as string | null;
+    const metadata: ProcessingMetadata = {
+      ...(metadataStr ? JSON.parse(metadataStr) : {}),
+      totalScenes: stats.totalScenes,
+      scenesWithOCR: stats.scenesWithOCR,
+      ocrResultCount: stats.scenesWithOCR,
+      scenesWithNarration: stats.scenesWithNarration,
+      editedAt: workerResult.editedAt,
+    };
+    // Exports that could not be regenerated were deleted (production only)
+    if (workerResult.exportR2Keys) {
+      metadata.exportR2Keys = workerResult.exportR2Keys;
+    }
+
+    await client.execute({
+      sql: "UPDATE processing_status SET metadata = ?, updated_at = datetime('now') WHERE upload_id = ? AND user_id = ?",
+      args: [JSON.stringify(metadata), uploadId, userId],
+    });
+
+    console.log(`[${uploadId}] Scene edits saved by user ${userId} (${stats.totalScenes} scenes)`);
+
+    return NextResponse.json({ success: true, editedAt: workerResult.editedAt, stats });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.error(`[${uploadId}] Scene edit save failed:`, error);
+    return NextResponse.json(
+      { error: 'Failed to save scene edits' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,18 @@
 /**
- * DELETE /api/uploads/[uploadId] - Delete a single upload record and its R2 file
+ * DELETE /api/uploads/[uploadId] - Delete a single upload record and its R2 files
+ *
+ * Also removes a processing checkpoint retained for stage reruns, including the
+ * source video it keeps in R2 (see lib/upload-deletion.ts).
+ *
+ * Part of the public REST API: accepts an API key (rate limited per key, see lib/api-keys.ts)
  *
  * Security: Verifies user ownership via user_id in WHERE clause (IDOR prevention)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getTursoClient } from '@/lib/turso';
-import { deleteObject } from '@/lib/r2-client';
+import { RATE_LIMIT_EXCEEDED, rateLimitResponse } from '@/lib/api-keys';
+import { deleteUploadData } from '@/lib/upload-deletion';
 
 export const runtime = 'nodejs';
 
@@ -17,7 +23,7 @@ export async function DELETE(
   const { uploadId } = params;
 
   try {
-    const { client, userId } = await getTursoClient();
+    const { client, userId } = await getTursoClient({ allowApiKey: true });
 
     // Fetch the record with ownership verification
     const result = await client.execute({
@@ -32,26 +38,10 @@ export async function DELETE(
       );
     }
 
-    // Delete R2 file if resultR2Key exists
+    // Delete R2 files, the retained checkpoint, the DB record and index rows
     const metadataStr = result.rows[0].metadata as string | null;
     const metadata = metadataStr ? JSON.parse(metadataStr) : null;
-    const resultR2Key = metadata?.resultR2Key;
-
-    if (resultR2Key) {
-      try {
-        await deleteObject(resultR2Key);
-        console.log(`[${uploadId}] R2 file deleted: ${resultR2Key}`);
-      } catch (r2Error) {
-        // Log but don't fail — R2 file may already be deleted
-        console.warn(`[${uploadId}] R2 delete failed (may already be gone):`, r2Error);
-      }
-    }
-
-    // Delete DB record
-    await client.execute({
-      sql: 'DELETE FROM processing_status WHERE upload_id = ? AND user_id = ?',
-      args: [uploadId, userId],
-    });
+    await deleteUploadData(client, uploadId, userId, metadata);
 
     console.log(`[${uploadId}] Upload record deleted by user ${userId}`);
 
@@ -60,6 +50,9 @@ export async function DELETE(
     if (error instanceof Error && error.message === 'Unauthorized') {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
+    if (error instanceof Error && error.message === RATE_LIMIT_EXCEEDED) {
+      return rateLimitResponse();
+    }
 
     console.error(`[${uploadId}] Delete failed:`, error);
     return NextResponse.json(
@@ -0,0 +1,112 @@
+/**
+ * GET /api/uploads/[uploadId]/screenshots/[file] - Scene screenshot for the scene review editor
+ *
+ * Production: redirects to a short-lived presigned R2 URL (metadata.screenshotsR2Prefix)
+ * Development: proxies the Worker's /result/:uploadId/screenshots/:file endpoint
+ *
+ * Accepts an API key as well (thumbnails of /api/search results)
+ *
+ * Security: Verifies user ownership via user_id in WHERE clause (IDOR prevention)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getTursoClient } from '@/lib/turso';
+import { generateDownloadUrl } from '@/lib/r2-client';
+import { RATE_LIMIT_EXCEEDED, rateLimitResponse } from '@/lib/api-keys';
+
+export const runtime = 'nodejs';
+
+// Persisted screenshots are named scene_NNNN.png by the Worker
+const SCREENSHOT_FILE_PATTERN = /^scene_\d+\.png$/;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { uploadId: string; file: string } }
+) {
+  const { uploadId, file } = params;
+
+  if (!SCREENSHOT_FILE_PATTERN.test(file)) {
+    return NextResponse.json({ error: 'Invalid screenshot name' }, { status: 400 });
+  }
+
+  try {
+    const { client, userId } = await getTursoClient({ allowApiKey: true });
+
+    // Fetch the record with ownership verification
+    const result = await client.execute({
+      sql: 'SELECT metadata FROM processing_status WHERE upload_id = ? AND user_id = ?',
+      args: [uploadId, userId],
+    });
+
+    if (result.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Upload not found' },
+        { status: 404 }
+      );
+    }
+
+    if (process.env.NODE_ENV === 'development') {
+      const cloudRunUrl = process.env.CLOUD_RUN_URL?.trim() || 'http://localhost:8080';
+      const workerSecret = process.env.WORKER_SECRET?.trim();
+
+      if (!workerSecret) {
+        return NextResponse.json(
+          { error: 'Server configuration error: Missing WORKER_SECRET' },
+          { status: 500 }
+        );
+      }
+
+      const response = await fetch(`${cloudRunUrl}/result/${uploadId}/screenshots/${file}`, {
+        headers: { Authorization: `Bearer ${workerSecret}` },
+        signal: AbortSignal.timeout(30000),
+      });
+
+      if (!response.ok) {
+        return NextResponse.json(
+          { error: 'Screenshot not found' },
+          { status: response.status === 404 ? 404 : 502 }
+        );
+      }
+
+      return new NextResponse(await response.blob(), {
+        headers: {
+          'Content-Type': 'image/png',
+          'Cache-Control': 'private, max-age=3600',
+        },
+      });
+    }
+
+    const metadataStr = result.rows[0].metadata as string | null;
+    const metadata = metadataStr ? JSON.parse(metadataStr) : null;
+    const prefix = metadata?.screenshotsR2Prefix as string | undefined;
+
+    if (!prefix) {
+      return NextResponse.json(
+        { error: 'Screenshots not available' },
+        { status: 404 }
+      );
+    }
+
+    // Security: Verify that the R2 prefix belongs to this user
+    if (!prefix.includes(`/${userId}/`)) {
+      console.warn(`[${uploadId}] User ${userId} attempted to access R2 prefix: ${prefix}`);
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const url = await generateDownloadUrl(`${prefix}${file}`, 3600);
+    return NextResponse.redirect(url);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (error instanceof Error && error.message === RATE_LIMIT_EXCEEDED) {
+      return rateLimitResponse();
+    }
+
+    console.error(`[${uploadId}] Screenshot fetch failed:`, error);
+    return NextResponse.json(
+      { error: 'Failed to fetch screenshot' },
+      { status: 500 }
+    );
+  }
+}
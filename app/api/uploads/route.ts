@@ -6,7 +6,7 @@
 
 import { NextResponse } from 'next/server';
 import { getTursoClient } from '@/lib/turso';
-import { getRetentionConfig } from '@/lib/quota';
+import { getRetentionConfig, getUserPlanType } from '@/lib/quota';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -69,18 +69,8 @@ export async function GET() {
     // Attempt to get user's plan type for retention info
     let planType = 'free';
     try {
-      const saasUrl = process.env.NEXT_PUBLIC_SAAS_PLATFORM_URL || 'http://localhost:3000';
       const { getToken } = await (await import('@clerk/nextjs/server')).auth();
-      const token = await getToken();
-      if (token) {
-        const quotaRes = await fetch(`${saasUrl}/api/quota/check`, {
-          headers: { Authorization: `Bearer ${token}` },
-        });
-        if (quotaRes.ok) {
-          const quotaData = await quotaRes.json();
-          planType = quotaData.plan_type || 'free';
-        }
-      }
+      planType = await getUserPlanType(await getToken());
     } catch {
       // Fallback to free plan retention if quota check fails
     }
@@ -0,0 +1,76 @@
+/**
+ * GET /api/webhooks/deliveries - Webhook delivery log
+ *
+ * Returns the account's most recent deliveries (newest first) with their
+ * attempts, last response and next retry time.
+ *
+ * Query: ?limit=1-100 (default 20)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getTursoClient } from '@/lib/turso';
+import type { WebhookDeliveryRecord } from '@/lib/webhooks';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+export async function GET(request: NextRequest) {
+  try {
+    const { client, userId } = await getTursoClient();
+
+    const rawLimit = parseInt(request.nextUrl.searchParams.get('limit') || String(DEFAULT_LIMIT), 10);
+    const limit = Number.isNaN(rawLimit) ? DEFAULT_LIMIT : Math.min(Math.max(rawLimit, 1), MAX_LIMIT);
+
+    const result = await client.execute({
+      sql: `
+        SELECT
+          id,
+          upload_id,
+          event,
+          url,
+          state,
+          attempts,
+          last_status_code,
+          last_error,
+          next_attempt_at,
+          created_at,
+          delivered_at
+        FROM webhook_deliveries
+        WHERE user_id = ?
+        ORDER BY created_at DESC
+        LIMIT ?
+      `,
+      args: [userId, limit],
+    });
+
+    const deliveries: WebhookDeliveryRecord[] = result.rows.map((row) => {
+      const state = row.state as WebhookDeliveryRecord['state'];
+      return {
+        id: row.id as string,
+        uploadId: row.upload_id as string,
+        event: row.event as WebhookDeliveryRecord['event'],
+        url: row.url as string,
+        state,
+        attempts: Number(row.attempts),
+        lastStatusCode: row.last_status_code === null ? null : Number(row.last_status_code),
+        lastError: row.last_error as string | null,
+        // Only meaningful while a retry is scheduled
+        nextAttemptAt: state === 'pending' ? (row.next_attempt_at as string | null) : null,
+        createdAt: row.created_at as string,
+        deliveredAt: row.delivered_at as string | null,
+      };
+    });
+
+    return NextResponse.json({ deliveries, count: deliveries.length });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    console.error('[/api/webhooks/deliveries] Error:', error);
+    return NextResponse.json({ error: 'Failed to fetch webhook deliveries' }, { status: 500 });
+  }
+}
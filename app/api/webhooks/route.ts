@@ -0,0 +1,117 @@
+/**
+ * /api/webhooks - Manage the account's completion webhook
+ *
+ * GET:    Current endpoint (secret masked), or { endpoint: null }
+ * PUT:    Register / replace the endpoint URL; a new signing secret is generated
+ *         and returned once in the response
+ * DELETE: Remove the endpoint (pending retries are marked failed by the Worker)
+ *
+ * The Worker POSTs upload.completed / upload.failed events signed with the
+ * secret (see cloud-run-worker/src/services/webhookService.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getTursoClient } from '@/lib/turso';
+import {
+  generateWebhookSecret,
+  maskWebhookSecret,
+  validateWebhookUrl,
+  type WebhookEndpointInfo,
+} from '@/lib/webhooks';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function unauthorizedOr500(error: unknown, message: string) {
+  if (error instanceof Error && error.message === 'Unauthorized') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  console.error('[/api/webhooks] Error:', error);
+  return NextResponse.json({ error: message }, { status: 500 });
+}
+
+export async function GET() {
+  try {
+    const { client, userId } = await getTursoClient();
+
+    const result = await client.execute({
+      sql: 'SELECT url, secret, created_at, updated_at FROM webhook_endpoints WHERE user_id = ?',
+      args: [userId],
+    });
+
+    if (result.rows.length === 0) {
+      return NextResponse.json({ endpoint: null });
+    }
+
+    const row = result.rows[0];
+    const endpoint: WebhookEndpointInfo = {
+      url: row.url as string,
+      secretPreview: maskWebhookSecret(row.secret as string),
+      createdAt: row.created_at as string,
+      updatedAt: row.updated_at as string,
+    };
+
+    return NextResponse.json({ endpoint });
+  } catch (error) {
+    return unauthorizedOr500(error, 'Failed to fetch webhook');
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { client, userId } = await getTursoClient();
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const validation = validateWebhookUrl((body as { url?: unknown } | null)?.url);
+    if (!validation.valid) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const secret = generateWebhookSecret();
+    const now = new Date().toISOString();
+
+    await client.execute({
+      sql: `INSERT INTO webhook_endpoints (user_id, url, secret, created_at, updated_at)
+            VALUES (?, ?, ?, ?, ?)
+            ON CONFLICT(user_id) DO UPDATE SET
+              url = excluded.url,
+              secret = excluded.secret,
+              updated_at = excluded.updated_at`,
+      args: [userId, validation.url, secret, now, now],
+    });
+
+    console.log(`[/api/webhooks] Webhook endpoint registered for user ${userId}`);
+
+    // The only time the full secret is returned
+    return NextResponse.json({ url: validation.url, secret });
+  } catch (error) {
+    return unauthorizedOr500(error, 'Failed to save webhook');
+  }
+}
+
+export async function DELETE() {
+  try {
+    const { client, userId } = await getTursoClient();
+
+    const result = await client.execute({
+      sql: 'DELETE FROM webhook_endpoints WHERE user_id = ?',
+      args: [userId],
+    });
+
+    if (result.rowsAffected === 0) {
+      return NextResponse.json({ error: 'No webhook registered' }, { status: 404 });
+    }
+
+    console.log(`[/api/webhooks] Webhook endpoint removed for user ${userId}`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return unauthorizedOr500(error, 'Failed to delete webhook');
+  }
+}
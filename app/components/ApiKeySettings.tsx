@@ -0,0 +1,193 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { Loader2, AlertCircle, Copy, KeyRound, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ApiKeyRecord } from "@/lib/api-keys";
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString("ja-JP", { year: "numeric", month: "short", day: "numeric" });
+}
+
+/**
+ * API keys for the public REST API
+ *
+ * A new key is shown once after creation; revoked keys stay listed.
+ */
+export function ApiKeySettings() {
+  const [keys, setKeys] = useState<ApiKeyRecord[]>([]);
+  const [name, setName] = useState("");
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [isRevoking, setIsRevoking] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchKeys = useCallback(async () => {
+    try {
+      const response = await fetch("/api/api-keys");
+      if (!response.ok) {
+        if (response.status === 401) return;
+        throw new Error("Failed to load API keys");
+      }
+      const data = await response.json();
+      setKeys(data.keys || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load API keys");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchKeys();
+  }, [fetchKeys]);
+
+  const handleCreate = useCallback(async () => {
+    try {
+      setIsCreating(true);
+      const response = await fetch("/api/api-keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || "Failed to create API key");
+
+      setNewKey(data.key);
+      setName("");
+      setError(null);
+      await fetchKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create API key");
+    } finally {
+      setIsCreating(false);
+    }
+  }, [name, fetchKeys]);
+
+  const handleRevoke = useCallback(
+    async (keyId: string) => {
+      try {
+        setIsRevoking(keyId);
+        const response = await fetch(`/api/api-keys/${keyId}`, { method: "DELETE" });
+        if (!response.ok && response.status !== 404) {
+          throw new Error((await response.json().catch(() => ({}))).error || "Failed to revoke API key");
+        }
+        await fetchKeys();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to revoke API key");
+      } finally {
+        setIsRevoking(null);
+      }
+    },
+    [fetchKeys]
+  );
+
+  if (loading) {
+    return null;
+  }
+
+  return (
+    <div className="bg-card border rounded-xl shadow-sm p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <KeyRound className="w-4 h-4" />
+          <span className="text-sm font-medium">API keys</span>
+        </div>
+        <button
+          onClick={fetchKeys}
+          className="text-muted-foreground hover:text-foreground transition-colors p-1"
+          title="Refresh"
+        >
+          <RefreshCw className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Submit videos from scripts and automation with <code>Authorization: Bearer &lt;key&gt;</code>. See the{" "}
+        <a href="/api/openapi" target="_blank" rel="noreferrer" className="underline hover:text-foreground">
+          OpenAPI spec
+        </a>{" "}
+        for the available endpoints.
+      </p>
+
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Key name (e.g. CI pipeline)"
+          maxLength={100}
+          className="flex-1 text-sm px-3 py-2 rounded-md border bg-background focus:outline-none focus:ring-2 focus:ring-primary/40"
+        />
+        <button
+          onClick={handleCreate}
+          disabled={isCreating || name.trim() === ""}
+          className="text-sm px-3 py-2 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50 flex items-center gap-1"
+        >
+          {isCreating ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Plus className="w-3.5 h-3.5" />}
+          Create key
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-xs text-destructive flex items-center gap-1">
+          <AlertCircle className="w-3.5 h-3.5" />
+          {error}
+        </p>
+      )}
+
+      {newKey && (
+        <div className="rounded-md border border-amber-500/40 bg-amber-500/5 p-3 space-y-1">
+          <p className="text-xs text-amber-700">Copy your API key now. It will not be shown again.</p>
+          <div className="flex items-center gap-2">
+            <code className="text-xs break-all">{newKey}</code>
+            <button
+              onClick={() => navigator.clipboard.writeText(newKey)}
+              className="text-muted-foreground hover:text-foreground p-1"
+              title="Copy key"
+            >
+              <Copy className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {keys.length > 0 && (
+        <div className="divide-y divide-border rounded-lg border overflow-hidden">
+          {keys.map((key) => (
+            <div
+              key={key.id}
+              className={cn("flex items-center gap-3 px-4 py-2.5", key.revokedAt && "opacity-60")}
+            >
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-foreground truncate">{key.name}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  <code>{key.keyPrefix}…</code> · Created {formatDate(key.createdAt)}
+                  {key.lastUsedAt ? ` · Last used ${formatDate(key.lastUsedAt)}` : " · Never used"}
+                  {key.revokedAt && ` · Revoked ${formatDate(key.revokedAt)}`}
+                </p>
+              </div>
+              {!key.revokedAt && (
+                <button
+                  onClick={() => handleRevoke(key.id)}
+                  disabled={isRevoking === key.id}
+                  className="text-xs text-muted-foreground hover:text-red-600 flex items-center gap-1 px-2 py-1 rounded-md hover:bg-red-600/10 transition-colors disabled:opacity-50"
+                  title="Revoke"
+                >
+                  {isRevoking === key.id ? (
+                    <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                  ) : (
+                    <Trash2 className="w-3.5 h-3.5" />
+                  )}
+                  Revoke
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import { useState } from "react";
+import { AlertCircle, Loader2, MessageSquare, Send } from "lucide-react";
+import { MAX_SEMANTIC_QUERY_LENGTH, type SemanticCitation } from "@/lib/semantic-search";
+
+interface AskVideoPanelProps {
+  uploadId: string;
+}
+
+interface ChatTurn {
+  question: string;
+  answer: string;
+  citations: SemanticCitation[];
+}
+
+/**
+ * "Ask the video": questions answered from the video's most relevant scenes,
+ * with the cited scene numbers and timecodes under each answer.
+ */
+export function AskVideoPanel({ uploadId }: AskVideoPanelProps) {
+  const [question, setQuestion] = useState("");
+  const [turns, setTurns] = useState<ChatTurn[]>([]);
+  const [isAsking, setIsAsking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAsk = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const asked = question.trim();
+    if (!asked) return;
+
+    setIsAsking(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/uploads/${uploadId}/ask`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ question: asked }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to answer the question");
+      }
+      setTurns((prev) => [...prev, { question: asked, answer: data.answer, citations: data.citations }]);
+      setQuestion("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to answer the question");
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  return (
+    <div className="border rounded-xl p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <MessageSquare className="w-4 h-4 text-muted-foreground" />
+        <p className="font-medium text-foreground">Ask the video</p>
+      </div>
+
+      {turns.length > 0 && (
+        <div className="space-y-4">
+          {turns.map((turn, i) => (
+            <div key={i} className="space-y-2">
+              <p className="text-sm font-semibold text-foreground">{turn.question}</p>
+              <p className="text-sm text-foreground/90 whitespace-pre-wrap break-words">{turn.answer}</p>
+              {turn.citations.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {turn.citations.map((citation) => (
+                    <span
+                      key={citation.sceneNumber}
+                      className="rounded-full bg-secondary px-3 py-1 text-xs font-mono text-muted-foreground"
+                    >
+                      Scene {citation.sceneNumber} · {citation.timecode}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleAsk} className="flex items-center gap-3">
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          maxLength={MAX_SEMANTIC_QUERY_LENGTH}
+          placeholder="What is said about pricing?"
+          disabled={isAsking}
+          className="h-10 flex-1 min-w-0 rounded-full border border-border bg-background px-4 text-sm"
+        />
+        <button
+          type="submit"
+          disabled={isAsking || question.trim() === ""}
+          className="inline-flex items-center gap-2 rounded-full text-sm font-medium border border-border bg-background hover:bg-secondary h-10 px-4 transition-colors disabled:pointer-events-none disabled:opacity-50"
+        >
+          {isAsking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+          Ask
+        </button>
+      </form>
+
+      {error && (
+        <div className="flex items-start gap-2 text-sm text-red-700 dark:text-red-300">
+          <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <p>{error}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { AlertCircle, BookOpen, CheckCircle2, Loader2, Plus, Trash2 } from "lucide-react";
+import { MAX_GLOSSARY_ENTRIES, type GlossaryEntry } from "@/lib/glossary";
+
+/** Editable row: aliases are typed as a comma-separated list */
+interface GlossaryRow {
+  term: string;
+  aliases: string;
+  reading: string;
+}
+
+function toRow(entry: GlossaryEntry): GlossaryRow {
+  return { term: entry.term, aliases: entry.aliases.join(", "), reading: entry.reading ?? "" };
+}
+
+function toEntry(row: GlossaryRow) {
+  return {
+    term: row.term,
+    aliases: row.aliases.split(/[,、]/).map((alias) => alias.trim()).filter(Boolean),
+    reading: row.reading,
+  };
+}
+
+const inputClassName =
+  "w-full text-sm px-3 py-2 rounded-md border bg-background focus:outline-none focus:ring-2 focus:ring-primary/40";
+
+/**
+ * Custom glossary editor
+ *
+ * Preferred spellings with their common misspellings (aliases) and readings.
+ * Applies to videos processed after saving.
+ */
+export function GlossaryEditor() {
+  const [rows, setRows] = useState<GlossaryRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchGlossary = useCallback(async () => {
+    try {
+      const response = await fetch("/api/glossary");
+      if (response.status === 401) return;
+      if (!response.ok) throw new Error("Failed to load glossary");
+
+      const data = await response.json();
+      setRows((data.entries as GlossaryEntry[]).map(toRow));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load glossary");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchGlossary();
+  }, [fetchGlossary]);
+
+  const updateRow = (index: number, field: keyof GlossaryRow, value: string) => {
+    setSaved(false);
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const removeRow = (index: number) => {
+    setSaved(false);
+    setRows((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const addRow = () => {
+    setSaved(false);
+    setRows((prev) => [...prev, { term: "", aliases: "", reading: "" }]);
+  };
+
+  const handleSave = useCallback(async () => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      const response = await fetch("/api/glossary", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ entries: rows.filter((row) => row.term.trim() !== "").map(toEntry) }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || "Failed to save glossary");
+
+      setRows((data.entries as GlossaryEntry[]).map(toRow));
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save glossary");
+    } finally {
+      setIsSaving(false);
+    }
+  }, [rows]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-10">
+        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-card border rounded-xl shadow-sm p-6 space-y-4">
+      <div className="flex items-center gap-2 text-muted-foreground">
+        <BookOpen className="w-4 h-4" />
+        <span className="text-sm font-medium">Glossary ({rows.length}/{MAX_GLOSSARY_ENTRIES})</span>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Product and staff names are passed to transcription and OCR as hints, aliases are replaced with the
+        preferred spelling after OCR, and LLM cleansing treats the terms as authoritative. Separate aliases with
+        commas. Changes apply to videos processed after saving.
+      </p>
+
+      {rows.length > 0 && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-[1fr_1.5fr_1fr_auto] gap-2 text-xs font-medium text-muted-foreground">
+            <span>Preferred spelling</span>
+            <span>Aliases (misspellings)</span>
+            <span>Reading</span>
+            <span className="w-8" />
+          </div>
+          {rows.map((row, index) => (
+            <div key={index} className="grid grid-cols-[1fr_1.5fr_1fr_auto] gap-2 items-center">
+              <input
+                value={row.term}
+                onChange={(e) => updateRow(index, "term", e.target.value)}
+                placeholder="Video Handoff"
+                className={inputClassName}
+              />
+              <input
+                value={row.aliases}
+                onChange={(e) => updateRow(index, "aliases", e.target.value)}
+                placeholder="ビデオハンドオフ, Video Hand Off"
+                className={inputClassName}
+              />
+              <input
+                value={row.reading}
+                onChange={(e) => updateRow(index, "reading", e.target.value)}
+                placeholder="ビデオハンドオフ"
+                className={inputClassName}
+              />
+              <button
+                onClick={() => removeRow(index)}
+                className="text-muted-foreground hover:text-red-600 p-2 rounded-md hover:bg-red-600/10 transition-colors"
+                title="Remove term"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={addRow}
+          disabled={rows.length >= MAX_GLOSSARY_ENTRIES}
+          className="text-sm px-3 py-2 rounded-md border hover:bg-secondary transition-colors disabled:opacity-50 flex items-center gap-1"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          Add term
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="text-sm px-3 py-2 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50 flex items-center gap-1"
+        >
+          {isSaving && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+          Save
+        </button>
+        {saved && (
+          <span className="text-xs text-green-600 flex items-center gap-1">
+            <CheckCircle2 className="w-3.5 h-3.5" />
+            Saved
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <p className="text-xs text-destructive flex items-center gap-1">
+          <AlertCircle className="w-3.5 h-3.5" />
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
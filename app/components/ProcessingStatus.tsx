@@ -1,8 +1,10 @@
 "use client";
 
 import { useEffect, useState, useCallback } from "react";
-import { Loader2, CheckCircle2, Download, AlertCircle, RefreshCw, Volume2, Eye, FileSpreadsheet, SkipForward } from "lucide-react";
-import type { ProcessingMetadata, ProcessingPhase, PhaseStatus } from "@/types/shared";
+import Link from "next/link";
+import { Loader2, CheckCircle2, Download, AlertCircle, RefreshCw, Volume2, Eye, FileSpreadsheet, SkipForward, Captions, Film, FileJson, ListOrdered, PencilLine, Clock, XCircle } from "lucide-react";
+import type { ExportFileType, ExportFormat, ProcessingMetadata, ProcessingPhase, PhaseStatus, ProcessingStatus as StatusSnapshot } from "@/types/shared";
+import { openStatusStream } from "@/lib/status-stream";
 import { cn } from "@/lib/utils";
 
 interface ProcessingStatusProps {
@@ -10,6 +12,39 @@ interface ProcessingStatusProps {
   onComplete?: () => void;
 }
 
+// Exports generated alongside the Excel report
+const EXPORT_OPTIONS: { format: ExportFormat; label: string }[] = [
+  { format: 'srt', label: 'Subtitles (.srt)' },
+  { format: 'vtt', label: 'Subtitles (.vtt)' },
+  { format: 'edl', label: 'Timeline (.edl)' },
+  { format: 'fcpxml', label: 'Timeline (.fcpxml)' },
+  { format: 'json', label: 'Data (.json)' },
+  { format: 'txt', label: 'Chapters (.txt)' },
+];
+
+// Exports generated once per translation language ('en.srt', ...)
+const TRANSLATED_EXPORT_LABELS: Partial<Record<ExportFileType, string>> = {
+  srt: 'Subtitles',
+  vtt: 'Subtitles',
+  txt: 'Chapters',
+};
+
+/**
+ * Per-language export buttons, listed from the stored export keys (production only)
+ */
+function translatedExportOptions(metadata: ProcessingMetadata | null): { format: ExportFormat; label: string }[] {
+  return Object.keys(metadata?.exportR2Keys ?? {})
+    .filter(format => format.includes('.'))
+    .sort()
+    .map(format => {
+      const [language, fileType] = format.split('.');
+      return {
+        format: format as ExportFormat,
+        label: `${TRANSLATED_EXPORT_LABELS[fileType as ExportFileType]} ${language.toUpperCase()} (.${fileType})`,
+      };
+    });
+}
+
 interface PhaseData {
   phase: ProcessingPhase;
   label: string;
@@ -54,6 +89,11 @@ export function ProcessingStatus({ uploadId, onComplete }: ProcessingStatusProps
   const [lastUpdatedAt, setLastUpdatedAt] = useState<string | null>(null);
   const [isStale, setIsStale] = useState(false);
   const [events, setEvents] = useState<ProcessingEvent[]>([]);
+  const [queuePosition, setQueuePosition] = useState<number | null>(null);
+  const [resumeMessage, setResumeMessage] = useState<string | null>(null);
+  const [isCancelled, setIsCancelled] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [cancelError, setCancelError] = useState<string | null>(null);
 
   // Helper to add event without duplicating the same message consecutively
   const addEvent = useCallback((type: ProcessingEvent['type'], message: string) => {
@@ -74,7 +114,7 @@ export function ProcessingStatus({ uploadId, onComplete }: ProcessingStatusProps
     { phase: 3, label: PHASE_LABELS[3], icon: <FileSpreadsheet className="w-5 h-5" />, status: 'waiting', progress: 0 },
   ]);
 
-  const downloadResult = useCallback(async () => {
+  const downloadResult = useCallback(async (format: 'xlsx' | ExportFormat = 'xlsx') => {
     const MAX_RETRIES = 3;
     const RETRY_DELAY_MS = 2000;
 
@@ -83,7 +123,7 @@ export function ProcessingStatus({ uploadId, onComplete }: ProcessingStatusProps
 
     for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
       try {
-        const response = await fetch(`/api/download/${uploadId}`);
+        const response = await fetch(`/api/download/${uploadId}?format=${format}`);
         if (!response.ok) {
           const body = await response.json().catch(() => ({}));
           throw new Error(body.error || `Download failed (${response.status})`);
@@ -98,7 +138,7 @@ export function ProcessingStatus({ uploadId, onComplete }: ProcessingStatusProps
 
           const a = document.createElement('a');
           a.href = data.downloadUrl;
-          a.download = `result_${uploadId}.xlsx`;
+          a.download = `result_${uploadId}.${format}`;
           document.body.appendChild(a);
           a.click();
           document.body.removeChild(a);
@@ -108,7 +148,7 @@ export function ProcessingStatus({ uploadId, onComplete }: ProcessingStatusProps
           const url = window.URL.createObjectURL(blob);
           const a = document.createElement('a');
           a.href = url;
-          a.download = `result_${uploadId}.xlsx`;
+          a.download = `result_${uploadId}.${format}`;
           document.body.appendChild(a);
           a.click();
           window.URL.revokeObjectURL(url);
@@ -135,7 +175,139 @@ export function ProcessingStatus({ uploadId, onComplete }: ProcessingStatusProps
     setIsDownloading(false);
   }, [uploadId]);
 
+  // Ask the Worker to stop; the poll below picks up the 'cancelled' status
+  const cancelProcessing = useCallback(async () => {
+    setIsCancelling(true);
+    setCancelError(null);
+
+    try {
+      const response = await fetch(`/api/uploads/${uploadId}/cancel`, { method: 'POST' });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(body.error || `Cancel failed (${response.status})`);
+      }
+      addEvent('info', body.status === 'cancelled' ? 'Processing cancelled' : 'Cancellation requested — stopping processing');
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Cancel failed';
+      setCancelError(msg);
+      setIsCancelling(false);
+    }
+  }, [uploadId, addEvent]);
+
   useEffect(() => {
+    // Apply a status snapshot from the stream or a poll; returns true once the status is terminal
+    const applyStatus = (data: StatusSnapshot): boolean => {
+      // Check for stale status (processing hasn't updated for too long)
+      if (data.updatedAt) {
+        const updatedAt = new Date(data.updatedAt).getTime();
+        const now = Date.now();
+        const timeSinceUpdate = now - updatedAt;
+
+        if (data.status === "processing" && timeSinceUpdate > STALE_THRESHOLD_MS) {
+          // Show warning but keep polling — backend may still be working
+          if (!isStale) {
+            console.warn(`[${uploadId}] Processing may be slow: no update for ${Math.round(timeSinceUpdate / 1000 / 60)} minutes (still polling)`);
+            addEvent('warning', `No update for ${Math.round(timeSinceUpdate / 1000 / 60)} minutes — still monitoring`);
+          }
+          setIsStale(true);
+        } else {
+          // Status is fresh — clear any stale warning
+          if (isStale) {
+            console.log(`[${uploadId}] Processing resumed (stale warning cleared)`);
+          }
+          setIsStale(false);
+        }
+
+        setLastUpdatedAt(data.updatedAt);
+      }
+
+      // Queue position (only while the Worker has not started the job)
+      if (data.status === "queued" && typeof data.queuePosition === "number") {
+        setQueuePosition(data.queuePosition);
+        addEvent('info', `Waiting in queue (position ${data.queuePosition})`);
+      } else {
+        setQueuePosition(null);
+      }
+
+      // Interrupted by a Worker restart; the job resumes from its checkpoint
+      if (data.status === "resuming") {
+        const message = data.subTask || 'Resuming shortly';
+        setResumeMessage(message);
+        addEvent('warning', `Processing interrupted by a server restart — ${message}`);
+      } else {
+        setResumeMessage(null);
+      }
+
+      // Update phase data from API response
+      const currentPhase = data.phase;
+      if (currentPhase !== undefined) {
+        if (currentPhase === 2 && data.subTask) {
+          console.log(`[ProcessingStatus] Phase 2 subTask: "${data.subTask}"`);
+        }
+        setPhases(prev => prev.map(p => {
+          if (p.phase === currentPhase) {
+            return {
+              ...p,
+              status: data.phaseStatus || 'in_progress',
+              progress: data.phaseProgress || 0,
+              estimatedTime: data.estimatedTimeRemaining,
+              subTask: data.subTask,
+              label: data.phaseStatus === 'completed'
+                ? PHASE_COMPLETE_LABELS[p.phase]
+                : data.phaseStatus === 'skipped'
+                  ? 'Skipped'
+                  : PHASE_LABELS[p.phase],
+              skipReason: data.phaseStatus === 'skipped' ? data.subTask : undefined,
+            };
+          }
+          // Mark previous phases as completed
+          if (p.phase < currentPhase) {
+            return {
+              ...p,
+              status: p.status === 'skipped' ? 'skipped' : 'completed',
+              progress: 100,
+              label: p.status === 'skipped' ? 'Skipped' : PHASE_COMPLETE_LABELS[p.phase],
+            };
+          }
+          return p;
+        }));
+      }
+
+      if (data.status === "completed" && data.resultUrl) {
+        // Completed always wins — clear any previous error/stale state
+        setIsStale(false);
+        setIsError(false);
+        setError(null);
+        addEvent('info', 'Processing completed successfully');
+        setPhases(prev => prev.map(p => ({
+          ...p,
+          status: p.status === 'skipped' ? 'skipped' : 'completed',
+          progress: 100,
+          label: p.status === 'skipped' ? 'Skipped' : PHASE_COMPLETE_LABELS[p.phase],
+        })));
+        setIsCompleted(true);
+        setResultUrl(data.resultUrl);
+        setMetadata(data.metadata ?? null);
+        onComplete?.();
+        return true; // Stop polling
+      } else if (data.status === "error") {
+        const errorMsg = data.error || "Processing failed";
+        addEvent('error', errorMsg);
+        setIsStale(false);
+        setIsError(true);
+        setError(errorMsg);
+        onComplete?.();
+        return true; // Stop polling — DB error status is terminal
+      } else if (data.status === "cancelled") {
+        addEvent('info', 'Processing cancelled');
+        setIsStale(false);
+        setIsCancelled(true);
+        onComplete?.();
+        return true; // Stop polling — cancellation is terminal
+      }
+      return false; // Continue polling
+    };
+
     const pollStatus = async () => {
       try {
         const response = await fetch(`/api/status/${uploadId}`);
@@ -149,106 +321,35 @@ export function ProcessingStatus({ uploadId, onComplete }: ProcessingStatusProps
           return false; // Continue polling
         }
 
-        const data = await response.json();
-
-        // Check for stale status (processing hasn't updated for too long)
-        if (data.updatedAt) {
-          const updatedAt = new Date(data.updatedAt).getTime();
-          const now = Date.now();
-          const timeSinceUpdate = now - updatedAt;
-
-          if (data.status === "processing" && timeSinceUpdate > STALE_THRESHOLD_MS) {
-            // Show warning but keep polling — backend may still be working
-            if (!isStale) {
-              console.warn(`[${uploadId}] Processing may be slow: no update for ${Math.round(timeSinceUpdate / 1000 / 60)} minutes (still polling)`);
-              addEvent('warning', `No update for ${Math.round(timeSinceUpdate / 1000 / 60)} minutes — still monitoring`);
-            }
-            setIsStale(true);
-          } else {
-            // Status is fresh — clear any stale warning
-            if (isStale) {
-              console.log(`[${uploadId}] Processing resumed (stale warning cleared)`);
-            }
-            setIsStale(false);
-          }
-
-          setLastUpdatedAt(data.updatedAt);
-        }
-
-        // Update phase data from API response
-        if (data.phase !== undefined) {
-          if (data.phase === 2 && data.subTask) {
-            console.log(`[ProcessingStatus] Phase 2 subTask: "${data.subTask}"`);
-          }
-          setPhases(prev => prev.map(p => {
-            if (p.phase === data.phase) {
-              return {
-                ...p,
-                status: data.phaseStatus || 'in_progress',
-                progress: data.phaseProgress || 0,
-                estimatedTime: data.estimatedTimeRemaining,
-                subTask: data.subTask,
-                label: data.phaseStatus === 'completed'
-                  ? PHASE_COMPLETE_LABELS[p.phase]
-                  : data.phaseStatus === 'skipped'
-                    ? 'Skipped'
-                    : PHASE_LABELS[p.phase],
-                skipReason: data.phaseStatus === 'skipped' ? data.subTask : undefined,
-              };
-            }
-            // Mark previous phases as completed
-            if (p.phase < data.phase) {
-              return {
-                ...p,
-                status: p.status === 'skipped' ? 'skipped' : 'completed',
-                progress: 100,
-                label: p.status === 'skipped' ? 'Skipped' : PHASE_COMPLETE_LABELS[p.phase],
-              };
-            }
-            return p;
-          }));
-        }
-
-        if (data.status === "completed" && data.resultUrl) {
-          // Completed always wins — clear any previous error/stale state
-          setIsStale(false);
-          setIsError(false);
-          setError(null);
-          addEvent('info', 'Processing completed successfully');
-          setPhases(prev => prev.map(p => ({
-            ...p,
-            status: p.status === 'skipped' ? 'skipped' : 'completed',
-            progress: 100,
-            label: p.status === 'skipped' ? 'Skipped' : PHASE_COMPLETE_LABELS[p.phase],
-          })));
-          setIsCompleted(true);
-          setResultUrl(data.resultUrl);
-          setMetadata(data.metadata);
-          onComplete?.();
-          return true; // Stop polling
-        } else if (data.status === "error") {
-          const errorMsg = data.error || "Processing failed";
-          addEvent('error', errorMsg);
-          setIsStale(false);
-          setIsError(true);
-          setError(errorMsg);
-          onComplete?.();
-          return true; // Stop polling — DB error status is terminal
-        }
+        return applyStatus(await response.json());
       } catch (err) {
         console.warn(`[${uploadId}] Status poll error (will retry):`, err);
       }
       return false; // Continue polling
     };
 
-    const intervalId = setInterval(async () => {
-      const stopped = await pollStatus();
-      if (stopped) clearInterval(intervalId);
-    }, 3000); // Poll every 3 seconds for smoother updates
+    let intervalId: ReturnType<typeof setInterval> | null = null;
+    const startPolling = () => {
+      const id = setInterval(async () => {
+        const stopped = await pollStatus();
+        if (stopped) clearInterval(id);
+      }, 3000); // Poll every 3 seconds for smoother updates
+      intervalId = id;
+
+      pollStatus(); // Initial poll
+    };
 
-    pollStatus(); // Initial poll
+    // Live updates (phase progress, sub-tasks, warnings) over SSE; polling only when the stream drops
+    const closeStream = openStatusStream(uploadId, {
+      onStatus: applyStatus,
+      onWarning: (message) => addEvent('warning', message),
+      onDrop: startPolling,
+    });
 
-    return () => clearInterval(intervalId);
+    return () => {
+      closeStream();
+      if (intervalId) clearInterval(intervalId);
+    };
   }, [uploadId, onComplete]);
 
   useEffect(() => {
@@ -287,6 +388,12 @@ export function ProcessingStatus({ uploadId, onComplete }: ProcessingStatusProps
               ))}
             </div>
 
+            {metadata.transcriptionLanguage && (
+              <p className="text-sm text-muted-foreground font-serif">
+                Narration language: <span className="font-mono text-foreground">{metadata.transcriptionLanguage}</span>
+                {metadata.languageDetected && ' (auto-detected)'}
+              </p>
+            )}
           </div>
         )}
 
@@ -316,10 +423,41 @@ export function ProcessingStatus({ uploadId, onComplete }: ProcessingStatusProps
           </div>
         )}
 
-        <button onClick={downloadResult} disabled={isDownloading} className="inline-flex items-center justify-center gap-2 whitespace-nowrap rounded-full text-sm font-medium ring-offset-background transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 bg-primary text-primary-foreground hover:bg-primary/90 h-11 px-8 w-full">
+        <button onClick={() => downloadResult()} disabled={isDownloading} className="inline-flex items-center justify-center gap-2 whitespace-nowrap rounded-full text-sm font-medium ring-offset-background transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 bg-primary text-primary-foreground hover:bg-primary/90 h-11 px-8 w-full">
           {isDownloading ? <Loader2 className="w-5 h-5 animate-spin" /> : downloadError ? <RefreshCw className="w-5 h-5" /> : <Download className="w-5 h-5" />}
           <span>{isDownloading ? 'Retrying...' : downloadError ? 'Retry Download' : autoDownloadTriggered ? 'Download Again' : 'Download Artwork'}</span>
         </button>
+
+        {/* Subtitle / timeline exports (exportR2Keys is production-only; dev serves files from the Worker) */}
+        {(metadata?.exportR2Keys || process.env.NODE_ENV === 'development') && (
+          <div className="grid grid-cols-2 gap-3">
+            {[
+              ...EXPORT_OPTIONS.filter(({ format }) => process.env.NODE_ENV === 'development' || metadata?.exportR2Keys?.[format]),
+              ...translatedExportOptions(metadata),
+            ].map(({ format, label }) => (
+              <button
+                key={format}
+                onClick={() => downloadResult(format)}
+                disabled={isDownloading}
+                className="inline-flex items-center justify-center gap-2 whitespace-nowrap rounded-full text-sm font-medium transition-colors disabled:pointer-events-none disabled:opacity-50 border border-border bg-background hover:bg-secondary h-10 px-4"
+              >
+                {format === 'json' ? <FileJson className="w-4 h-4" /> : format.endsWith('txt') ? <ListOrdered className="w-4 h-4" /> : format === 'edl' || format === 'fcpxml' ? <Film className="w-4 h-4" /> : <Captions className="w-4 h-4" />}
+                <span>{label}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Scene review editor needs the JSON result (production: exportR2Keys.json) */}
+        {(metadata?.exportR2Keys?.json || process.env.NODE_ENV === 'development') && (
+          <Link
+            href={`/results/${uploadId}`}
+            className="inline-flex items-center justify-center gap-2 whitespace-nowrap rounded-full text-sm font-medium transition-colors border border-border bg-background hover:bg-secondary h-10 px-4 w-full"
+          >
+            <PencilLine className="w-4 h-4" />
+            <span>Review &amp; correct scenes</span>
+          </Link>
+        )}
       </div>
     );
   }
@@ -362,6 +500,28 @@ export function ProcessingStatus({ uploadId, onComplete }: ProcessingStatusProps
     );
   }
 
+  // Cancelled state — the user stopped processing; no result was produced
+  if (isCancelled) {
+    return (
+      <div className="space-y-4">
+        <div className="bg-secondary/50 border border-border rounded-lg p-6 flex items-start gap-4">
+          <XCircle className="w-6 h-6 text-muted-foreground flex-shrink-0" />
+          <div className="flex-1">
+            <h3 className="text-lg font-semibold font-serif text-foreground">Processing cancelled</h3>
+            <p className="text-muted-foreground mt-1">
+              No report was created and the uploaded video has been removed. Upload the video again to process it.
+            </p>
+          </div>
+        </div>
+
+        {/* Event log */}
+        {events.length > 0 && <EventLog events={events} />}
+
+        <p className="text-xs text-muted-foreground/50">Upload ID: {uploadId}</p>
+      </div>
+    );
+  }
+
   // Processing state - 3-Phase UI
   return (
     <div className="space-y-6">
@@ -380,6 +540,36 @@ export function ProcessingStatus({ uploadId, onComplete }: ProcessingStatusProps
         </div>
       )}
 
+      {/* Queue banner — shown until the Worker picks up the job */}
+      {queuePosition !== null && (
+        <div className="bg-secondary/50 border border-border rounded-lg p-4 flex items-start gap-3">
+          <Clock className="w-5 h-5 text-muted-foreground flex-shrink-0 mt-0.5" />
+          <div className="flex-1">
+            <p className="text-sm font-medium text-foreground">
+              {queuePosition === 1 ? 'Next in queue' : `Waiting in queue — position ${queuePosition}`}
+            </p>
+            <p className="text-xs text-muted-foreground mt-1">
+              Processing starts automatically as soon as a worker is free.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Resume banner — shown while an interrupted job waits to continue */}
+      {resumeMessage !== null && (
+        <div className="bg-secondary/50 border border-border rounded-lg p-4 flex items-start gap-3">
+          <RefreshCw className="w-5 h-5 text-muted-foreground flex-shrink-0 mt-0.5" />
+          <div className="flex-1">
+            <p className="text-sm font-medium text-foreground">
+              Resuming after a server restart
+            </p>
+            <p className="text-xs text-muted-foreground mt-1">
+              {resumeMessage}. Completed steps are not repeated.
+            </p>
+          </div>
+        </div>
+      )}
+
       {/* Phase indicators */}
       <div className="space-y-4">
         {phases.map((phase) => (
@@ -410,6 +600,19 @@ export function ProcessingStatus({ uploadId, onComplete }: ProcessingStatusProps
       {/* Event log during processing */}
       {events.length > 0 && <EventLog events={events} />}
 
+      {/* Cancel — stops OCR / transcription spend for a job the user no longer wants */}
+      <div className="flex flex-col items-center gap-1">
+        <button
+          onClick={cancelProcessing}
+          disabled={isCancelling}
+          className="inline-flex items-center justify-center gap-2 whitespace-nowrap rounded-full text-sm font-medium transition-colors disabled:pointer-events-none disabled:opacity-50 border border-border bg-background hover:bg-secondary h-9 px-4"
+        >
+          {isCancelling ? <Loader2 className="w-4 h-4 animate-spin" /> : <XCircle className="w-4 h-4" />}
+          <span>{isCancelling ? 'Cancelling...' : 'Cancel processing'}</span>
+        </button>
+        {cancelError && <p className="text-xs text-destructive">{cancelError}</p>}
+      </div>
+
       <p className="text-xs text-muted-foreground/50 text-center">Upload ID: {uploadId}</p>
     </div>
   );
@@ -0,0 +1,83 @@
+"use client";
+
+import { useState } from "react";
+import { AlertCircle, Loader2, RefreshCw } from "lucide-react";
+import { RERUN_STEPS, RERUN_STEP_LABELS } from "@/lib/rerun";
+import type { RerunStep } from "@/types/shared";
+
+interface RerunPanelProps {
+  uploadId: string;
+  onStarted: () => void;
+}
+
+/**
+ * Re-run a finished upload from one pipeline stage (e.g. only OCR after a prompt change).
+ * Upstream results are reused from the checkpoint the Worker retains after processing.
+ */
+export function RerunPanel({ uploadId, onStarted }: RerunPanelProps) {
+  const [fromStep, setFromStep] = useState<RerunStep>("ocr");
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRerun = async () => {
+    setIsStarting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/uploads/${uploadId}/rerun`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ fromStep }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to start rerun");
+      }
+      onStarted();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to start rerun");
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <div className="border rounded-xl p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex-1 min-w-0">
+          <p className="font-medium text-foreground">Re-run processing</p>
+          <p className="text-xs text-muted-foreground">
+            Earlier stages are reused. Scene edits are replaced by the new result.
+            The original video is kept for 7 days after processing to allow re-runs.
+          </p>
+        </div>
+        <select
+          value={fromStep}
+          onChange={(e) => setFromStep(e.target.value as RerunStep)}
+          disabled={isStarting}
+          className="h-10 rounded-full border border-border bg-background px-4 text-sm"
+        >
+          {RERUN_STEPS.map((step) => (
+            <option key={step} value={step}>
+              {RERUN_STEP_LABELS[step]}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleRerun}
+          disabled={isStarting}
+          className="inline-flex items-center gap-2 rounded-full text-sm font-medium border border-border bg-background hover:bg-secondary h-10 px-4 transition-colors disabled:pointer-events-none disabled:opacity-50"
+        >
+          {isStarting ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+          Re-run
+        </button>
+      </div>
+
+      {error && (
+        <div className="flex items-start gap-2 text-sm text-red-700 dark:text-red-300">
+          <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <p>{error}</p>
+        </div>
+      )}
+    </div>
+  );
+}
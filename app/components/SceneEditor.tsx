@@ -0,0 +1,378 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import Link from "next/link";
+import {
+  Loader2,
+  AlertCircle,
+  ArrowLeft,
+  CheckCircle2,
+  Download,
+  ImageOff,
+  Merge,
+  RotateCcw,
+  Save,
+  Scissors,
+  Trash2,
+} from "lucide-react";
+import { ImageModal } from "./ImageModal";
+import {
+  deleteScene,
+  mergeWithNext,
+  splitScene,
+  toEditedScenes,
+  toEditorScenes,
+  type EditorScene,
+} from "@/lib/scene-edits";
+import type { ResultScene } from "@/types/shared";
+import { cn } from "@/lib/utils";
+
+interface SceneEditorProps {
+  uploadId: string;
+}
+
+// Max page size of GET /api/uploads/[uploadId]/result
+const RESULT_PAGE_SIZE = 200;
+
+/**
+ * Format seconds as HH:MM:SS.s (used for scenes whose original timecode no longer applies)
+ */
+function formatSceneTime(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = (seconds % 60).toFixed(1).padStart(4, "0");
+  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}:${s}`;
+}
+
+export function SceneEditor({ uploadId }: SceneEditorProps) {
+  const [scenes, setScenes] = useState<EditorScene[]>([]);
+  const [fileName, setFileName] = useState<string>("");
+  const [editedAt, setEditedAt] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [previewFile, setPreviewFile] = useState<string | null>(null);
+
+  const loadScenes = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const loaded: ResultScene[] = [];
+      let page = 1;
+      let hasMore = true;
+
+      while (hasMore) {
+        const response = await fetch(
+          `/api/uploads/${uploadId}/result?page=${page}&pageSize=${RESULT_PAGE_SIZE}`
+        );
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load scenes");
+        }
+        loaded.push(...data.scenes);
+        setFileName(data.fileName);
+        setEditedAt(data.editedAt ?? null);
+        hasMore = data.pagination.hasMore;
+        page++;
+      }
+
+      setScenes(toEditorScenes(loaded));
+      setIsDirty(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load scenes");
+    } finally {
+      setLoading(false);
+    }
+  }, [uploadId]);
+
+  useEffect(() => {
+    loadScenes();
+  }, [loadScenes]);
+
+  // Warn before leaving with unsaved edits
+  useEffect(() => {
+    if (!isDirty) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = "";
+    };
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+  }, [isDirty]);
+
+  const applyEdit = useCallback((edit: (prev: EditorScene[]) => EditorScene[]) => {
+    setScenes(edit);
+    setIsDirty(true);
+  }, []);
+
+  const updateText = useCallback(
+    (index: number, field: "ocrText" | "narrationText", value: string) => {
+      applyEdit((prev) => prev.map((scene, i) => (i === index ? { ...scene, [field]: value } : scene)));
+    },
+    [applyEdit]
+  );
+
+  const handleSave = useCallback(async () => {
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      const response = await fetch(`/api/uploads/${uploadId}/result`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ scenes: toEditedScenes(scenes) }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save edits");
+      }
+      setEditedAt(data.editedAt);
+      // Reload so scene numbers and timecodes match the regenerated report
+      await loadScenes();
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : "Failed to save edits");
+    } finally {
+      setIsSaving(false);
+    }
+  }, [uploadId, scenes, loadScenes]);
+
+  const handleDownload = useCallback(async () => {
+    try {
+      setIsDownloading(true);
+      const response = await fetch(`/api/download/${uploadId}`);
+      if (!response.ok) throw new Error((await response.json()).error || "Download failed");
+
+      const contentType = response.headers.get("content-type") || "";
+      const a = document.createElement("a");
+      a.download = `result_${uploadId}.xlsx`;
+
+      if (contentType.includes("application/json")) {
+        const data = await response.json();
+        if (!data.downloadUrl) throw new Error("No download URL returned");
+        a.href = data.downloadUrl;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+      } else {
+        const url = window.URL.createObjectURL(await response.blob());
+        a.href = url;
+        document.body.appendChild(a);
+        a.click();
+        window.URL.revokeObjectURL(url);
+        document.body.removeChild(a);
+      }
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : "Download failed");
+    } finally {
+      setIsDownloading(false);
+    }
+  }, [uploadId]);
+
+  if (loading && scenes.length === 0) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-20 text-muted-foreground">
+        <Loader2 className="w-5 h-5 animate-spin" />
+        <span>Loading scenes...</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 dark:bg-red-950/30 border border-red-300 dark:border-red-700/60 rounded-lg p-4 flex items-start gap-3">
+        <AlertCircle className="w-5 h-5 text-red-600 dark:text-red-400 flex-shrink-0 mt-0.5" />
+        <div className="flex-1">
+          <p className="text-sm font-medium text-red-800 dark:text-red-200">Could not load scenes</p>
+          <p className="text-xs text-red-700 dark:text-red-300/80 mt-1">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Toolbar */}
+      <div className="sticky top-16 z-40 bg-background/90 backdrop-blur border rounded-xl p-4 flex flex-wrap items-center gap-3">
+        <Link href="/" className="text-muted-foreground hover:text-foreground transition-colors p-1" title="Back">
+          <ArrowLeft className="w-5 h-5" />
+        </Link>
+        <div className="flex-1 min-w-0">
+          <p className="font-medium text-foreground truncate">{fileName}</p>
+          <p className="text-xs text-muted-foreground">
+            {scenes.length} scenes
+            {editedAt && ` · last edited ${new Date(editedAt).toLocaleString("ja-JP")}`}
+            {isDirty && " · unsaved changes"}
+          </p>
+        </div>
+        <button
+          onClick={loadScenes}
+          disabled={!isDirty || isSaving}
+          className="inline-flex items-center gap-2 rounded-full text-sm font-medium border border-border bg-background hover:bg-secondary h-10 px-4 transition-colors disabled:pointer-events-none disabled:opacity-50"
+        >
+          <RotateCcw className="w-4 h-4" />
+          Discard
+        </button>
+        <button
+          onClick={handleDownload}
+          disabled={isDirty || isSaving || isDownloading}
+          className="inline-flex items-center gap-2 rounded-full text-sm font-medium border border-border bg-background hover:bg-secondary h-10 px-4 transition-colors disabled:pointer-events-none disabled:opacity-50"
+          title={isDirty ? "Save your edits first" : undefined}
+        >
+          {isDownloading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+          Excel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!isDirty || isSaving || scenes.length === 0}
+          className="inline-flex items-center gap-2 rounded-full text-sm font-medium bg-primary text-primary-foreground hover:bg-primary/90 h-10 px-5 transition-colors disabled:pointer-events-none disabled:opacity-50"
+        >
+          {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          {isSaving ? "Regenerating..." : "Save & regenerate Excel"}
+        </button>
+      </div>
+
+      {saveError && (
+        <div className="bg-red-50 dark:bg-red-950/30 border border-red-300 dark:border-red-700/60 rounded-lg p-4 flex items-start gap-3">
+          <AlertCircle className="w-5 h-5 text-red-600 dark:text-red-400 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-800 dark:text-red-200">{saveError}</p>
+        </div>
+      )}
+
+      {!isDirty && editedAt && !saveError && (
+        <div className="bg-green-600/10 border border-green-600/20 rounded-lg p-4 flex items-center gap-3">
+          <CheckCircle2 className="w-5 h-5 text-green-600 flex-shrink-0" />
+          <p className="text-sm text-green-600">Excel report reflects your latest edits.</p>
+        </div>
+      )}
+
+      {/* Scenes */}
+      <div className="divide-y divide-border rounded-lg border overflow-hidden">
+        {scenes.map((scene, index) => (
+          <SceneRow
+            key={scene.key}
+            uploadId={uploadId}
+            scene={scene}
+            index={index}
+            isLast={index === scenes.length - 1}
+            onTextChange={(field, value) => updateText(index, field, value)}
+            onSplit={() => applyEdit((prev) => splitScene(prev, index))}
+            onMergeNext={() => applyEdit((prev) => mergeWithNext(prev, index))}
+            onDelete={() => applyEdit((prev) => deleteScene(prev, index))}
+            onPreview={() => scene.screenshotFile && setPreviewFile(scene.screenshotFile)}
+          />
+        ))}
+      </div>
+
+      <ImageModal
+        isOpen={previewFile !== null}
+        onClose={() => setPreviewFile(null)}
+        imageUrl={previewFile ? `/api/uploads/${uploadId}/screenshots/${previewFile}` : ""}
+      />
+    </div>
+  );
+}
+
+interface SceneRowProps {
+  uploadId: string;
+  scene: EditorScene;
+  index: number;
+  isLast: boolean;
+  onTextChange: (field: "ocrText" | "narrationText", value: string) => void;
+  onSplit: () => void;
+  onMergeNext: () => void;
+  onDelete: () => void;
+  onPreview: () => void;
+}
+
+function SceneRow({
+  uploadId,
+  scene,
+  index,
+  isLast,
+  onTextChange,
+  onSplit,
+  onMergeNext,
+  onDelete,
+  onPreview,
+}: SceneRowProps) {
+  return (
+    <div className={cn("grid md:grid-cols-[200px_1fr_1fr_auto] gap-4 p-4", index % 2 === 1 && "bg-secondary/30")}>
+      {/* Screenshot + timing */}
+      <div className="space-y-2">
+        {scene.screenshotFile ? (
+          <button onClick={onPreview} className="block w-full" title="Enlarge">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={`/api/uploads/${uploadId}/screenshots/${scene.screenshotFile}`}
+              alt={`Scene ${index + 1}`}
+              loading="lazy"
+              className="w-full rounded-md border object-contain bg-black/5"
+            />
+          </button>
+        ) : (
+          <div className="w-full aspect-video rounded-md border flex items-center justify-center text-muted-foreground">
+            <ImageOff className="w-5 h-5" />
+          </div>
+        )}
+        <div className="text-xs text-muted-foreground">
+          <span className="font-medium text-foreground">#{index + 1}</span>{" "}
+          {scene.timecode ?? formatSceneTime(scene.startTime)}
+          <span className="block">
+            {formatSceneTime(scene.startTime)} – {formatSceneTime(scene.endTime)}
+          </span>
+        </div>
+      </div>
+
+      {/* Texts */}
+      <label className="space-y-1">
+        <span className="text-xs font-medium text-muted-foreground">OCR Text</span>
+        <textarea
+          value={scene.ocrText}
+          onChange={(e) => onTextChange("ocrText", e.target.value)}
+          rows={5}
+          className="w-full rounded-md border bg-background p-2 text-sm resize-y"
+        />
+      </label>
+      <label className="space-y-1">
+        <span className="text-xs font-medium text-muted-foreground">NA Text</span>
+        <textarea
+          value={scene.narrationText}
+          onChange={(e) => onTextChange("narrationText", e.target.value)}
+          rows={5}
+          className="w-full rounded-md border bg-background p-2 text-sm resize-y"
+        />
+      </label>
+
+      {/* Actions */}
+      <div className="flex md:flex-col gap-1">
+        <button
+          onClick={onSplit}
+          className="text-xs text-muted-foreground hover:text-foreground flex items-center gap-1 px-2 py-1 rounded-md hover:bg-secondary transition-colors"
+          title="Split at the midpoint"
+        >
+          <Scissors className="w-3.5 h-3.5" />
+          Split
+        </button>
+        <button
+          onClick={onMergeNext}
+          disabled={isLast}
+          className="text-xs text-muted-foreground hover:text-foreground flex items-center gap-1 px-2 py-1 rounded-md hover:bg-secondary transition-colors disabled:opacity-40 disabled:pointer-events-none"
+          title="Merge with the next scene"
+        >
+          <Merge className="w-3.5 h-3.5" />
+          Merge
+        </button>
+        <button
+          onClick={onDelete}
+          className="text-xs text-muted-foreground hover:text-red-600 flex items-center gap-1 px-2 py-1 rounded-md hover:bg-red-600/10 transition-colors"
+          title="Delete scene"
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+}
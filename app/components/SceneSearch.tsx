@@ -0,0 +1,131 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import Link from "next/link";
+import { AlertCircle, ArrowLeft, ImageOff, Loader2, Search } from "lucide-react";
+import type { SearchHit } from "@/lib/search";
+
+/**
+ * Full-text search across all processed videos: matching scenes with their
+ * video, timecode, thumbnail and highlighted OCR/narration snippet.
+ */
+export function SceneSearch() {
+  const [query, setQuery] = useState("");
+  const [submittedQuery, setSubmittedQuery] = useState<string | null>(null);
+  const [results, setResults] = useState<SearchHit[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runSearch = useCallback(async (q: string, nextPage: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/search?q=${encodeURIComponent(q)}&page=${nextPage}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Search failed");
+      }
+      setResults((prev) => (nextPage === 1 ? data.results : [...prev, ...data.results]));
+      setHasMore(data.pagination.hasMore);
+      setPage(nextPage);
+      setSubmittedQuery(q);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Search failed");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (query.trim()) runSearch(query.trim(), 1);
+  };
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleSubmit} className="flex items-center gap-3">
+        <Link href="/" className="text-muted-foreground hover:text-foreground transition-colors p-1" title="Back">
+          <ArrowLeft className="w-5 h-5" />
+        </Link>
+        <div className="relative flex-1">
+          <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Product names, on-screen text, spoken words..."
+            className="h-11 w-full rounded-full border border-border bg-background pl-10 pr-4 text-sm"
+            autoFocus
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={loading || query.trim() === ""}
+          className="inline-flex items-center gap-2 rounded-full text-sm font-medium bg-primary text-primary-foreground hover:bg-primary/90 h-11 px-5 transition-colors disabled:opacity-50"
+        >
+          {loading && page === 1 ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+          Search
+        </button>
+      </form>
+
+      {error && (
+        <div className="bg-destructive/10 border border-destructive/20 rounded-lg p-4 flex items-center gap-3">
+          <AlertCircle className="w-5 h-5 text-destructive flex-shrink-0" />
+          <p className="text-sm font-semibold text-destructive">{error}</p>
+        </div>
+      )}
+
+      {submittedQuery !== null && !error && results.length === 0 && (
+        <p className="text-sm text-muted-foreground">No scenes match &ldquo;{submittedQuery}&rdquo;.</p>
+      )}
+
+      {results.length > 0 && (
+        <div className="divide-y divide-border rounded-lg border overflow-hidden">
+          {results.map((hit) => (
+            <Link
+              key={`${hit.uploadId}-${hit.sceneNumber}`}
+              href={`/results/${hit.uploadId}`}
+              className="flex gap-4 p-4 bg-secondary/30 hover:bg-secondary/60 transition-colors"
+            >
+              <div className="w-40 aspect-video flex-shrink-0 rounded-md overflow-hidden bg-muted flex items-center justify-center">
+                {hit.thumbnailUrl ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={hit.thumbnailUrl} alt={`Scene ${hit.sceneNumber}`} className="w-full h-full object-cover" loading="lazy" />
+                ) : (
+                  <ImageOff className="w-5 h-5 text-muted-foreground" />
+                )}
+              </div>
+              <div className="min-w-0 space-y-1">
+                <p className="text-sm font-semibold text-foreground truncate">{hit.fileName}</p>
+                <p className="text-xs text-muted-foreground font-mono">
+                  {hit.timecode} · Scene {hit.sceneNumber} · {hit.field === "ocr" ? "On-screen text" : "Narration"}
+                </p>
+                <p className="text-sm text-foreground/90 break-words">
+                  {hit.snippet.map((part, i) =>
+                    part.highlight ? (
+                      <mark key={i} className="bg-primary/30 text-foreground rounded-sm px-0.5">{part.text}</mark>
+                    ) : (
+                      <span key={i}>{part.text}</span>
+                    )
+                  )}
+                </p>
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+
+      {hasMore && submittedQuery !== null && (
+        <button
+          onClick={() => runSearch(submittedQuery, page + 1)}
+          disabled={loading}
+          className="w-full rounded-full border border-border h-10 text-sm text-muted-foreground hover:text-foreground transition-colors disabled:opacity-50"
+        >
+          {loading ? "Loading..." : "Show more"}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { useEffect, useState, useCallback } from "react";
+import Link from "next/link";
 import {
   Loader2,
   CheckCircle2,
@@ -9,8 +10,10 @@ import {
   Clock,
   Eye,
   History,
+  PencilLine,
   RefreshCw,
   Trash2,
+  XCircle,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
@@ -225,10 +228,13 @@ function UploadRow({
   onDownload,
   onDelete,
 }: UploadRowProps) {
+  const isQueued = upload.status === "queued";
+  const isResuming = upload.status === "resuming";
   const isProcessing =
-    upload.status === "processing" || upload.status === "downloading" || upload.status === "pending";
+    isQueued || isResuming || upload.status === "processing" || upload.status === "downloading" || upload.status === "pending";
   const isCompleted = upload.status === "completed";
   const isError = upload.status === "error";
+  const isCancelled = upload.status === "cancelled";
 
   const displayName = upload.fileName
     ? truncateFileName(upload.fileName)
@@ -239,7 +245,7 @@ function UploadRow({
       className={cn(
         "flex items-center gap-3 px-4 py-3 transition-colors",
         (isProcessing || isCompleted) && "hover:bg-secondary/50 cursor-pointer",
-        isError && "opacity-75"
+        (isError || isCancelled) && "opacity-75"
       )}
       onClick={() => {
         if (isProcessing) onResume();
@@ -257,6 +263,7 @@ function UploadRow({
           <CheckCircle2 className="w-5 h-5 text-green-600" />
         )}
         {isError && <AlertCircle className="w-5 h-5 text-destructive/70" />}
+        {isCancelled && <XCircle className="w-5 h-5 text-muted-foreground" />}
       </div>
 
       {/* File info */}
@@ -267,7 +274,7 @@ function UploadRow({
         <div className="flex items-center gap-2 mt-0.5">
           {isProcessing && (
             <span className="text-xs text-primary">
-              {upload.progress}% processing
+              {isQueued ? "Queued" : isResuming ? "Resuming" : `${upload.progress}% processing`}
             </span>
           )}
           {isCompleted && (
@@ -278,6 +285,9 @@ function UploadRow({
               {upload.errorMessage || "Error"}
             </span>
           )}
+          {isCancelled && (
+            <span className="text-xs text-muted-foreground">Cancelled</span>
+          )}
           <span className="text-xs text-muted-foreground/60 flex items-center gap-1">
             <Clock className="w-3 h-3" />
             {formatRelativeTime(upload.updatedAt || upload.createdAt)}
@@ -316,6 +326,17 @@ function UploadRow({
             Download
           </button>
         )}
+        {isCompleted && (
+          <Link
+            href={`/results/${upload.uploadId}`}
+            onClick={(e) => e.stopPropagation()}
+            className="text-xs text-muted-foreground hover:text-foreground flex items-center gap-1 px-2 py-1 rounded-md hover:bg-secondary transition-colors"
+            title="Review scenes"
+          >
+            <PencilLine className="w-3.5 h-3.5" />
+            Edit
+          </Link>
+        )}
         <button
           onClick={(e) => {
             e.stopPropagation();
@@ -2,9 +2,36 @@
 
 import { useState, useRef, useEffect } from "react";
 import { useAuth } from "@clerk/nextjs";
-import { UploadCloud, X, Film, AlertTriangle } from "lucide-react";
+import { UploadCloud, X, Film, AlertTriangle, Pause, Play, RotateCw, Link2 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { checkVideoUploadQuota } from "@/lib/quota";
+import { validateImportUrl } from "@/lib/url-import";
+import {
+  MAX_TRANSLATION_LANGUAGES,
+  TOPIC_GROUP_DURATION_RANGE,
+  TOPIC_GROUPING_LABELS,
+  TOPIC_GROUPING_STRATEGIES,
+  TRANSCRIPTION_LANGUAGES,
+  TRANSCRIPTION_LANGUAGE_LABELS,
+  TRANSLATION_LANGUAGES,
+} from "@/lib/processing-options";
+import { UPLOAD_CONCURRENCY_OPTIONS, type UploadConcurrency, type UploadQueueItem } from "@/lib/upload-queue";
+import { useUploadQueue } from "@/app/hooks/useUploadQueue";
+import type { ProcessingOptions, TimecodeStyle, TopicGroupingStrategy, TranscriptionLanguage, TranslationLanguage } from "@/types/shared";
+
+const TIMECODE_STYLE_OPTIONS: { value: TimecodeStyle; label: string; description: string }[] = [
+  { value: 'hms', label: 'HH:MM:SS', description: 'Whole seconds' },
+  { value: 'smpte', label: 'HH:MM:SS:FF', description: 'Frame-accurate (SMPTE)' },
+];
+
+const QUEUE_STATUS_LABELS: Record<UploadQueueItem["status"], string> = {
+  waiting: "Waiting",
+  uploading: "Uploading",
+  submitting: "Starting",
+  submitted: "Submitted",
+  paused: "Paused",
+  error: "Failed",
+};
 
 interface VideoUploaderProps {
   onUploadSuccess: (uploadId: string) => void;
@@ -44,13 +71,20 @@ async function performSilentWarmup(): Promise<void> {
 }
 
 export function VideoUploader({ onUploadSuccess, disabled }: VideoUploaderProps) {
+  const queue = useUploadQueue(onUploadSuccess);
   const { getToken } = useAuth();
-  const [file, setFile] = useState<File | null>(null);
   const [isDragging, setIsDragging] = useState(false);
-  const [uploading, setUploading] = useState(false);
-  const [progress, setProgress] = useState(0);
-  const [error, setError] = useState<string | null>(null);
-  const abortControllerRef = useRef<AbortController | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [timecodeStyle, setTimecodeStyle] = useState<TimecodeStyle>('hms');
+  const [language, setLanguage] = useState<TranscriptionLanguage>('ja');
+  const [speakerDiarization, setSpeakerDiarization] = useState(false);
+  const [translationLanguages, setTranslationLanguages] = useState<TranslationLanguage[]>([]);
+  const [topicGrouping, setTopicGrouping] = useState<TopicGroupingStrategy>('ocr');
+  const [minTopicGroupDuration, setMinTopicGroupDuration] = useState(10);
+  const [maxTopicGroupDuration, setMaxTopicGroupDuration] = useState(300);
+  const [importUrl, setImportUrl] = useState("");
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Silent warmup on component mount
@@ -59,208 +93,91 @@ export function VideoUploader({ onUploadSuccess, disabled }: VideoUploaderProps)
     performSilentWarmup();
   }, []);
 
-  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0];
-    if (!selectedFile) return;
-
-    if (uploading) return;
-
-    if (!selectedFile.type.startsWith("video/")) {
-      setError("Please select a valid video file.");
-      return;
-    }
-
-    const maxSize = 2 * 1024 * 1024 * 1024; // 2GB
-    if (selectedFile.size > maxSize) {
-      setError("File size exceeds 2GB limit.");
-      return;
-    }
+  const toggleTranslationLanguage = (value: TranslationLanguage) => {
+    setTranslationLanguages((prev) => (prev.includes(value) ? prev.filter((l) => l !== value) : [...prev, value]));
+  };
 
-    setFile(selectedFile);
-    setError(null);
-    await handleUploadWithFile(selectedFile);
+  // Duration limits only apply to semantic grouping
+  const processingOptions: ProcessingOptions = {
+    timecodeStyle,
+    language,
+    speakerDiarization,
+    translationLanguages,
+    topicGrouping,
+    ...(topicGrouping === 'semantic' ? { minTopicGroupDuration, maxTopicGroupDuration } : {}),
   };
 
-  const handleDragEvent = (e: React.DragEvent, isEntering: boolean) => {
-    e.preventDefault();
-    if (!disabled && !uploading) {
-      setIsDragging(isEntering);
-    }
+  const enqueueFiles = (files: File[]) => {
+    if (files.length === 0) return;
+    setErrors(queue.addFiles(files, processingOptions));
+    if (fileInputRef.current) fileInputRef.current.value = "";
   };
 
-  const handleDrop = async (e: React.DragEvent) => {
+  // Import from URL: the Worker downloads the video into R2 itself (no browser upload)
+  const handleImport = async (e: React.FormEvent) => {
     e.preventDefault();
-    setIsDragging(false);
-    if (disabled || uploading) return;
-
-    const droppedFile = e.dataTransfer.files[0];
-    if (!droppedFile) return;
-    
-    if (!droppedFile.type.startsWith("video/")) {
-      setError("Please select a valid video file.");
-      return;
-    }
-    const maxSize = 2 * 1024 * 1024 * 1024; // 2GB
-    if (droppedFile.size > maxSize) {
-      setError("File size exceeds 2GB limit.");
+    const validation = validateImportUrl(importUrl);
+    if (!validation.valid) {
+      setImportError(validation.error);
       return;
     }
 
-    setFile(droppedFile);
-    setError(null);
-    await handleUploadWithFile(droppedFile);
-  };
-  
-  const getErrorMessage = (error: unknown): { message: string; retryable: boolean } => {
-    if (error instanceof Error) {
-        const msg = error.message.toLowerCase();
-        if (msg.includes('network') || msg.includes('fetch')) return { message: 'Network error. Check connection and retry.', retryable: true };
-        if (msg.includes('timeout')) return { message: 'Upload timed out. Try a smaller file.', retryable: true };
-        if (msg.includes('unauthorized') || msg.includes('401')) return { message: 'Authentication failed. Please sign in again.', retryable: false };
-        if (msg.includes('size') || msg.includes('too large') || msg.includes('413')) return { message: `File too large (Max: 2GB).`, retryable: false };
-        if (msg.includes('cors')) return { message: 'Upload blocked by CORS policy. Please try again.', retryable: true };
-        return { message: `Upload failed: ${error.message}`, retryable: true };
-    }
-    return { message: 'An unexpected error occurred.', retryable: true };
-  };
-
-  const handleUploadWithFile = async (fileToUpload: File) => {
-    if (!fileToUpload) return;
-
-    const controller = new AbortController();
-    abortControllerRef.current = controller;
-    setUploading(true);
-    setProgress(0);
-    setError(null);
-
+    setIsImporting(true);
+    setImportError(null);
     try {
-      // クォータチェック (JWTトークン取得してクロスオリジン認証)
       try {
-        const token = await getToken();
-        const quotaResult = await checkVideoUploadQuota(token);
-
+        const quotaResult = await checkVideoUploadQuota(await getToken());
         if (!quotaResult.allowed) {
-          setError(
-            `月間クォータを超過しています。\n` +
-            `残り: ${quotaResult.remaining}/${quotaResult.quota}動画\n` +
-            `プラン: ${quotaResult.plan_type}\n\n` +
-            `プランをアップグレードしてください。`
-          );
-          setUploading(false);
+          setImportError(`月間クォータを超過しています (残り: ${quotaResult.remaining}/${quotaResult.quota}動画, プラン: ${quotaResult.plan_type})`);
           return;
         }
       } catch (quotaError) {
-        console.error('Quota check error:', quotaError);
-        // クォータチェック失敗時は警告を表示して続行
-        console.warn('Proceeding with upload despite quota check failure');
-      }
-
-      setProgress(5);
-
-      // Step 1: Get presigned URL from R2
-      const presignedResponse = await fetch('/api/r2/upload-url', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          fileName: fileToUpload.name,
-          contentType: fileToUpload.type || 'video/mp4',
-          fileSize: fileToUpload.size,
-        }),
-        signal: controller.signal,
-      });
-
-      if (!presignedResponse.ok) {
-        const errorData = await presignedResponse.json();
-        throw new Error(errorData.error || 'Failed to get upload URL');
+        console.warn("Proceeding with import despite quota check failure", quotaError);
       }
 
-      const { uploadUrl, uploadId, r2Key } = await presignedResponse.json();
-      setProgress(10);
-
-      // Step 2: Upload directly to R2 with progress tracking
-      await new Promise<void>((resolve, reject) => {
-        const xhr = new XMLHttpRequest();
-
-        xhr.upload.addEventListener('progress', (e) => {
-          if (e.lengthComputable) {
-            // Map upload progress to 10-80% of total progress
-            const uploadProgress = 10 + (e.loaded / e.total) * 70;
-            setProgress(Math.round(uploadProgress));
-          }
-        });
-
-        xhr.addEventListener('load', () => {
-          if (xhr.status >= 200 && xhr.status < 300) {
-            resolve();
-          } else {
-            reject(new Error(`Upload failed with status ${xhr.status}`));
-          }
-        });
-
-        xhr.addEventListener('error', () => reject(new Error('Network error during upload')));
-        xhr.addEventListener('abort', () => reject(new Error('Upload aborted')));
-
-        // Handle abort signal
-        controller.signal.addEventListener('abort', () => xhr.abort());
-
-        xhr.open('PUT', uploadUrl);
-        xhr.setRequestHeader('Content-Type', fileToUpload.type || 'video/mp4');
-        xhr.send(fileToUpload);
-      });
-
-      setProgress(85);
-
-      // Step 3: Start processing with R2 key
       const res = await fetch("/api/process", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          uploadId,
-          r2Key,
-          fileName: fileToUpload.name,
-          dataConsent: true,
-        }),
-        signal: controller.signal,
+        body: JSON.stringify({ sourceUrl: validation.url, dataConsent: true, options: processingOptions }),
       });
-
+      const data = await res.json().catch(() => ({}));
       if (!res.ok) {
-        const errorData = await res.json().catch(() => ({}));
-        throw new Error(errorData.error || 'Failed to start processing.');
+        setImportError(data.message || data.error || "Failed to start the import.");
+        return;
       }
 
-      setProgress(100);
-      onUploadSuccess(uploadId);
-      setFile(null);
-      if (fileInputRef.current) fileInputRef.current.value = "";
-
-    } catch (err) {
-      if (err instanceof Error && err.name === 'AbortError') {
-        setError(null);
-      } else {
-        const { message } = getErrorMessage(err);
-        setError(message);
-      }
+      setImportUrl("");
+      onUploadSuccess(data.uploadId);
+    } catch {
+      setImportError("Network error. Please check your connection and try again.");
     } finally {
-      setUploading(false);
-      abortControllerRef.current = null;
+      setIsImporting(false);
     }
   };
 
-  const removeFile = () => {
-    setFile(null);
-    setError(null);
-    if (fileInputRef.current) fileInputRef.current.value = "";
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    enqueueFiles(Array.from(e.target.files ?? []));
   };
 
-  const handleCancel = () => {
-    if (abortControllerRef.current) abortControllerRef.current.abort();
-    setUploading(false);
-    setProgress(0);
-    setError(null);
-    setFile(null);
-    if (fileInputRef.current) fileInputRef.current.value = "";
+  const handleDragEvent = (e: React.DragEvent, isEntering: boolean) => {
+    e.preventDefault();
+    if (!disabled) {
+      setIsDragging(isEntering);
+    }
   };
 
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (disabled) return;
+    enqueueFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const pendingCount = queue.items.filter(item => item.status !== 'submitted').length;
+  const submittedCount = queue.items.length - pendingCount;
+  const hasPaused = queue.items.some(item => item.status === 'paused' && !item.needsFile);
+  const hasActive = queue.items.some(item => ['waiting', 'uploading', 'submitting'].includes(item.status));
+
   return (
     <div className="space-y-6">
       <div
@@ -270,69 +187,252 @@ export function VideoUploader({ onUploadSuccess, disabled }: VideoUploaderProps)
         onDragLeave={(e) => handleDragEvent(e, false)}
         className={cn(
             "border-2 border-dashed rounded-2xl p-8 text-center transition-all duration-300",
-            disabled || uploading ? "cursor-not-allowed bg-secondary/30 border-border" : "cursor-pointer hover:border-primary/80 hover:bg-primary/10 border-border",
+            disabled ? "cursor-not-allowed bg-secondary/30 border-border" : "cursor-pointer hover:border-primary/80 hover:bg-primary/10 border-border",
             isDragging && "border-primary/80 bg-primary/10 scale-105"
         )}
-        onClick={() => !disabled && !uploading && fileInputRef.current?.click()}
+        onClick={() => !disabled && fileInputRef.current?.click()}
       >
-        <input ref={fileInputRef} type="file" accept="video/*" onChange={handleFileSelect} className="hidden" disabled={disabled || uploading} />
+        <input ref={fileInputRef} type="file" accept="video/*" multiple onChange={handleFileSelect} className="hidden" disabled={disabled} />
 
         <div className="flex flex-col items-center justify-center gap-4">
-            <div className={cn("w-20 h-20 rounded-full flex items-center justify-center bg-secondary/50", disabled || uploading ? "bg-muted" : "bg-primary/10")}>
-                <UploadCloud className={cn("w-9 h-9", disabled || uploading ? "text-muted-foreground" : "text-primary")} />
+            <div className={cn("w-20 h-20 rounded-full flex items-center justify-center bg-secondary/50", disabled ? "bg-muted" : "bg-primary/10")}>
+                <UploadCloud className={cn("w-9 h-9", disabled ? "text-muted-foreground" : "text-primary")} />
             </div>
             <div>
                 <p className="text-lg font-medium text-foreground font-serif">
-                    Drop your video here or click to browse
+                    Drop your videos here or click to browse
                 </p>
                 <p className="text-sm text-muted-foreground mt-1">
-                    Supports MP4, MOV, AVI, MKV, WebM (max 2GB)
+                    Supports MP4, MOV, AVI, MKV, WebM (max 2GB each). Select several files to queue a batch.
                 </p>
             </div>
         </div>
       </div>
 
-      {file && (
-        <div className="bg-secondary/50 border rounded-lg p-4 flex items-center justify-between gap-4">
-            <div className="flex items-center gap-3 min-w-0">
-                <Film className="w-6 h-6 text-primary flex-shrink-0" />
-                <div className="text-sm min-w-0">
-                    <p className="font-semibold text-foreground truncate">{file.name}</p>
-                    <p className="text-muted-foreground">{(file.size / 1024 / 1024).toFixed(2)} MB</p>
-                </div>
-            </div>
+      <form onSubmit={handleImport} className="space-y-2">
+        <div className="flex items-center gap-2">
+          <Link2 className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+          <input
+            type="url"
+            value={importUrl}
+            onChange={(e) => setImportUrl(e.target.value)}
+            placeholder="Or import from a URL (https://...)"
+            disabled={disabled || isImporting}
+            className="h-9 flex-1 min-w-0 rounded-full border border-border bg-background px-4 text-xs disabled:opacity-50"
+          />
+          <button
+            type="submit"
+            disabled={disabled || isImporting || importUrl.trim() === ""}
+            className="h-9 rounded-full bg-primary px-4 text-xs text-primary-foreground disabled:opacity-50"
+          >
+            {isImporting ? "Starting..." : "Import"}
+          </button>
+        </div>
+        {importError && <p className="text-xs font-semibold text-destructive">{importError}</p>}
+      </form>
+
+      <div className="flex items-center justify-between gap-4 text-sm">
+        <span className="text-muted-foreground font-serif">Timecode format</span>
+        <div className="inline-flex rounded-full border border-border p-1 bg-secondary/30">
+          {TIMECODE_STYLE_OPTIONS.map(option => (
             <button
-                onClick={uploading ? handleCancel : removeFile}
-                className="inline-flex items-center justify-center whitespace-nowrap rounded-full text-sm font-medium ring-offset-background transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 hover:bg-destructive/10 h-9 w-9"
+              key={option.value}
+              type="button"
+              title={option.description}
+              onClick={() => setTimecodeStyle(option.value)}
+              className={cn(
+                "rounded-full px-3 py-1 font-mono text-xs transition-colors disabled:opacity-50",
+                timecodeStyle === option.value ? "bg-primary text-primary-foreground" : "text-muted-foreground hover:text-foreground"
+              )}
             >
-                <X className="w-4 h-4 text-destructive" />
+              {option.label}
             </button>
+          ))}
         </div>
-      )}
+      </div>
 
-      {uploading && (
-        <div className="space-y-2">
-          <div className="relative w-full h-2 bg-secondary rounded-full overflow-hidden">
-            <div className="absolute top-0 left-0 h-full bg-primary transition-all duration-300" style={{ width: `${progress}%` }} />
-          </div>
-          <div className="flex justify-between text-sm">
-            <span className="text-muted-foreground">Uploading...</span>
-            <span className="font-medium text-foreground">{progress}%</span>
+      <div className="flex items-center justify-between gap-4 text-sm">
+        <span className="text-muted-foreground font-serif">Narration language</span>
+        <select
+          value={language}
+          onChange={(e) => setLanguage(e.target.value as TranscriptionLanguage)}
+          className="h-9 rounded-full border border-border bg-background px-4 text-xs disabled:opacity-50"
+        >
+          {TRANSCRIPTION_LANGUAGES.map((value) => (
+            <option key={value} value={value}>
+              {TRANSCRIPTION_LANGUAGE_LABELS[value]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <label className="flex items-center justify-between gap-4 text-sm">
+        <span className="text-muted-foreground font-serif">Label speakers (interviews, panels)</span>
+        <input
+          type="checkbox"
+          checked={speakerDiarization}
+          onChange={(e) => setSpeakerDiarization(e.target.checked)}
+          className="h-4 w-4 accent-primary disabled:opacity-50"
+        />
+      </label>
+
+      <div className="flex items-center justify-between gap-4 text-sm">
+        <span className="text-muted-foreground font-serif">Translate into</span>
+        <div className="flex flex-wrap justify-end gap-1">
+          {TRANSLATION_LANGUAGES.map((value) => {
+            const selected = translationLanguages.includes(value);
+            return (
+              <button
+                key={value}
+                type="button"
+                title={TRANSCRIPTION_LANGUAGE_LABELS[value]}
+                onClick={() => toggleTranslationLanguage(value)}
+                disabled={!selected && translationLanguages.length >= MAX_TRANSLATION_LANGUAGES}
+                className={cn(
+                  "rounded-full border border-border px-3 py-1 font-mono text-xs transition-colors disabled:opacity-50",
+                  selected ? "bg-primary text-primary-foreground" : "text-muted-foreground hover:text-foreground"
+                )}
+              >
+                {value.toUpperCase()}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-4 text-sm">
+        <span className="text-muted-foreground font-serif">Group topics by</span>
+        <select
+          value={topicGrouping}
+          onChange={(e) => setTopicGrouping(e.target.value as TopicGroupingStrategy)}
+          className="h-9 rounded-full border border-border bg-background px-4 text-xs disabled:opacity-50"
+        >
+          {TOPIC_GROUPING_STRATEGIES.map((value) => (
+            <option key={value} value={value}>
+              {TOPIC_GROUPING_LABELS[value]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {topicGrouping === 'semantic' && (
+        <div className="flex items-center justify-between gap-4 text-sm">
+          <span className="text-muted-foreground font-serif">Topic length (seconds)</span>
+          <div className="flex items-center gap-2 text-xs">
+            <input
+              type="number"
+              aria-label="Shortest topic in seconds"
+              min={TOPIC_GROUP_DURATION_RANGE.min}
+              max={maxTopicGroupDuration - 1}
+              value={minTopicGroupDuration}
+              onChange={(e) => setMinTopicGroupDuration(Math.max(TOPIC_GROUP_DURATION_RANGE.min, Math.min(Number(e.target.value), maxTopicGroupDuration - 1)))}
+              className="h-9 w-20 rounded-full border border-border bg-background px-3 text-xs"
+            />
+            <span className="text-muted-foreground">to</span>
+            <input
+              type="number"
+              aria-label="Longest topic in seconds"
+              min={minTopicGroupDuration + 1}
+              max={TOPIC_GROUP_DURATION_RANGE.max}
+              value={maxTopicGroupDuration}
+              onChange={(e) => setMaxTopicGroupDuration(Math.min(TOPIC_GROUP_DURATION_RANGE.max, Math.max(Number(e.target.value), minTopicGroupDuration + 1)))}
+              className="h-9 w-20 rounded-full border border-border bg-background px-3 text-xs"
+            />
           </div>
         </div>
       )}
 
-      {error && (
+      <div className="flex items-center justify-between gap-4 text-sm">
+        <span className="text-muted-foreground font-serif">Upload at a time</span>
+        <select
+          value={queue.concurrency}
+          onChange={(e) => queue.setConcurrency(Number(e.target.value) as UploadConcurrency)}
+          className="h-9 rounded-full border border-border bg-background px-4 text-xs"
+        >
+          {UPLOAD_CONCURRENCY_OPTIONS.map((value) => (
+            <option key={value} value={value}>
+              {value === 1 ? 'One by one' : `${value} files`}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {errors.length > 0 && (
         <div className="bg-destructive/10 border border-destructive/20 rounded-lg p-4 flex items-start gap-3">
             <AlertTriangle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
-            <div className="flex-1">
-              <p className="text-sm font-semibold text-destructive">{error}</p>
-              {file && (
-                 <button onClick={() => handleUploadWithFile(file)} disabled={uploading} className="text-sm font-medium text-destructive/80 hover:text-destructive underline mt-1">
-                    Retry Upload
-                 </button>
+            <div className="flex-1 space-y-1">
+              {errors.map((message) => (
+                <p key={message} className="text-sm font-semibold text-destructive">{message}</p>
+              ))}
+            </div>
+        </div>
+      )}
+
+      {queue.items.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">
+              {pendingCount} in queue{submittedCount > 0 && ` · ${submittedCount} submitted`}
+            </span>
+            <div className="flex items-center gap-3">
+              {hasActive && (
+                <button onClick={queue.pauseAll} className="text-muted-foreground hover:text-foreground underline">Pause all</button>
+              )}
+              {hasPaused && (
+                <button onClick={queue.resumeAll} className="text-muted-foreground hover:text-foreground underline">Resume all</button>
+              )}
+              {submittedCount > 0 && (
+                <button onClick={queue.clearFinished} className="text-muted-foreground hover:text-foreground underline">Clear submitted</button>
               )}
             </div>
+          </div>
+
+          <div className="divide-y divide-border rounded-lg border overflow-hidden">
+            {queue.items.map((item) => (
+              <div key={item.id} className="bg-secondary/30 p-4 space-y-2">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <Film className="w-5 h-5 text-primary flex-shrink-0" />
+                    <div className="text-sm min-w-0">
+                      <p className="font-semibold text-foreground truncate">{item.fileName}</p>
+                      <p className="text-muted-foreground">
+                        {(item.fileSize / 1024 / 1024).toFixed(2)} MB · {QUEUE_STATUS_LABELS[item.status]}
+                        {item.needsFile && ' · Select this file again to continue'}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    {['waiting', 'uploading', 'submitting'].includes(item.status) && (
+                      <button onClick={() => queue.pause(item.id)} title="Pause" className="p-2 rounded-full hover:bg-secondary">
+                        <Pause className="w-4 h-4 text-muted-foreground" />
+                      </button>
+                    )}
+                    {item.status === 'paused' && !item.needsFile && (
+                      <button onClick={() => queue.resume(item.id)} title="Resume" className="p-2 rounded-full hover:bg-secondary">
+                        <Play className="w-4 h-4 text-muted-foreground" />
+                      </button>
+                    )}
+                    {item.status === 'error' && (
+                      <button onClick={() => queue.retry(item.id)} title="Retry" className="p-2 rounded-full hover:bg-secondary">
+                        <RotateCw className="w-4 h-4 text-muted-foreground" />
+                      </button>
+                    )}
+                    <button onClick={() => queue.remove(item.id)} title="Remove" className="p-2 rounded-full hover:bg-destructive/10">
+                      <X className="w-4 h-4 text-destructive" />
+                    </button>
+                  </div>
+                </div>
+
+                {item.status !== 'submitted' && item.progress > 0 && (
+                  <div className="relative w-full h-1.5 bg-secondary rounded-full overflow-hidden">
+                    <div className="absolute top-0 left-0 h-full bg-primary transition-all duration-300" style={{ width: `${item.progress}%` }} />
+                  </div>
+                )}
+
+                {item.error && <p className="text-xs font-semibold text-destructive">{item.error}</p>}
+              </div>
+            ))}
+          </div>
         </div>
       )}
     </div>
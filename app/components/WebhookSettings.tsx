@@ -0,0 +1,234 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import {
+  Loader2,
+  CheckCircle2,
+  AlertCircle,
+  Clock,
+  Copy,
+  RefreshCw,
+  Trash2,
+  Webhook,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { WebhookDeliveryRecord, WebhookEndpointInfo } from "@/lib/webhooks";
+
+function formatTime(dateStr: string): string {
+  return new Date(dateStr).toLocaleString("ja-JP", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Completion webhook settings and delivery log
+ *
+ * The signing secret is shown once after saving; saving again rotates it.
+ */
+export function WebhookSettings() {
+  const [endpoint, setEndpoint] = useState<WebhookEndpointInfo | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDeliveryRecord[]>([]);
+  const [url, setUrl] = useState("");
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRemoving, setIsRemoving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchWebhook = useCallback(async () => {
+    try {
+      const [endpointResponse, deliveriesResponse] = await Promise.all([
+        fetch("/api/webhooks"),
+        fetch("/api/webhooks/deliveries"),
+      ]);
+      if (endpointResponse.status === 401) return;
+      if (!endpointResponse.ok || !deliveriesResponse.ok) {
+        throw new Error("Failed to load webhook settings");
+      }
+
+      const endpointData = await endpointResponse.json();
+      const deliveriesData = await deliveriesResponse.json();
+      setEndpoint(endpointData.endpoint);
+      setUrl((current) => current || endpointData.endpoint?.url || "");
+      setDeliveries(deliveriesData.deliveries || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load webhook settings");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchWebhook();
+    const intervalId = setInterval(fetchWebhook, 30_000);
+    return () => clearInterval(intervalId);
+  }, [fetchWebhook]);
+
+  const handleSave = useCallback(async () => {
+    try {
+      setIsSaving(true);
+      const response = await fetch("/api/webhooks", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ url }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || "Failed to save webhook");
+
+      setNewSecret(data.secret);
+      setUrl(data.url);
+      await fetchWebhook();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save webhook");
+    } finally {
+      setIsSaving(false);
+    }
+  }, [url, fetchWebhook]);
+
+  const handleRemove = useCallback(async () => {
+    try {
+      setIsRemoving(true);
+      const response = await fetch("/api/webhooks", { method: "DELETE" });
+      if (!response.ok && response.status !== 404) {
+        throw new Error((await response.json().catch(() => ({}))).error || "Failed to remove webhook");
+      }
+      setEndpoint(null);
+      setNewSecret(null);
+      setUrl("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to remove webhook");
+    } finally {
+      setIsRemoving(false);
+    }
+  }, []);
+
+  if (loading) {
+    return null;
+  }
+
+  return (
+    <div className="bg-card border rounded-xl shadow-sm p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <Webhook className="w-4 h-4" />
+          <span className="text-sm font-medium">Completion webhook</span>
+        </div>
+        <button
+          onClick={fetchWebhook}
+          className="text-muted-foreground hover:text-foreground transition-colors p-1"
+          title="Refresh"
+        >
+          <RefreshCw className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        We POST a signed <code>upload.completed</code> or <code>upload.failed</code> event to this URL when
+        processing finishes. Verify the <code>X-Webhook-Signature</code> header (HMAC-SHA256 of{" "}
+        <code>timestamp.body</code>) with your signing secret.
+      </p>
+
+      <div className="flex items-center gap-2">
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="https://example.com/webhooks/video-analyzer"
+          className="flex-1 text-sm px-3 py-2 rounded-md border bg-background focus:outline-none focus:ring-2 focus:ring-primary/40"
+        />
+        <button
+          onClick={handleSave}
+          disabled={isSaving || url.trim() === ""}
+          className="text-sm px-3 py-2 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50 flex items-center gap-1"
+        >
+          {isSaving && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+          {endpoint ? "Update" : "Save"}
+        </button>
+        {endpoint && (
+          <button
+            onClick={handleRemove}
+            disabled={isRemoving}
+            className="text-muted-foreground hover:text-red-600 p-2 rounded-md hover:bg-red-600/10 transition-colors disabled:opacity-50"
+            title="Remove webhook"
+          >
+            {isRemoving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Trash2 className="w-3.5 h-3.5" />}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <p className="text-xs text-destructive flex items-center gap-1">
+          <AlertCircle className="w-3.5 h-3.5" />
+          {error}
+        </p>
+      )}
+
+      {newSecret ? (
+        <div className="rounded-md border border-amber-500/40 bg-amber-500/5 p-3 space-y-1">
+          <p className="text-xs text-amber-700">Copy your signing secret now. It will not be shown again.</p>
+          <div className="flex items-center gap-2">
+            <code className="text-xs break-all">{newSecret}</code>
+            <button
+              onClick={() => navigator.clipboard.writeText(newSecret)}
+              className="text-muted-foreground hover:text-foreground p-1"
+              title="Copy secret"
+            >
+              <Copy className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+      ) : (
+        endpoint && (
+          <p className="text-xs text-muted-foreground">
+            Signing secret: <code>{endpoint.secretPreview}</code> (save again to rotate)
+          </p>
+        )
+      )}
+
+      {deliveries.length > 0 && (
+        <div className="divide-y divide-border rounded-lg border overflow-hidden">
+          {deliveries.map((delivery) => (
+            <DeliveryRow key={delivery.id} delivery={delivery} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function DeliveryRow({ delivery }: { delivery: WebhookDeliveryRecord }) {
+  const isSucceeded = delivery.state === "succeeded";
+  const isFailed = delivery.state === "failed";
+
+  return (
+    <div className={cn("flex items-center gap-3 px-4 py-2.5", isFailed && "opacity-75")}>
+      <div className="flex-shrink-0">
+        {isSucceeded && <CheckCircle2 className="w-4 h-4 text-green-600" />}
+        {isFailed && <AlertCircle className="w-4 h-4 text-destructive/70" />}
+        {delivery.state === "pending" && <Clock className="w-4 h-4 text-primary" />}
+      </div>
+
+      <div className="flex-1 min-w-0">
+        <p className="text-xs font-medium text-foreground truncate">
+          {delivery.event} · {delivery.uploadId}
+        </p>
+        <p className="text-xs text-muted-foreground truncate">
+          {isSucceeded && `Delivered (HTTP ${delivery.lastStatusCode})`}
+          {isFailed && `Failed after ${delivery.attempts} attempt(s): ${delivery.lastError ?? "Unknown error"}`}
+          {delivery.state === "pending" &&
+            (delivery.attempts === 0
+              ? "Sending..."
+              : `Attempt ${delivery.attempts} failed (${delivery.lastError ?? "Unknown error"}), retrying${
+                  delivery.nextAttemptAt ? ` at ${formatTime(delivery.nextAttemptAt)}` : ""
+                }`)}
+        </p>
+      </div>
+
+      <span className="text-xs text-muted-foreground/60 flex-shrink-0">{formatTime(delivery.createdAt)}</span>
+    </div>
+  );
+}
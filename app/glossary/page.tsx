@@ -0,0 +1,15 @@
+import { GlossaryEditor } from "../components/GlossaryEditor";
+
+/**
+ * Glossary page: preferred spellings applied to transcription, OCR and LLM cleansing.
+ */
+export default function GlossaryPage() {
+  return (
+    <main className="min-h-screen bg-background text-foreground">
+      <div className="container py-10 space-y-6">
+        <h1 className="text-2xl font-bold font-serif text-foreground">Glossary</h1>
+        <GlossaryEditor />
+      </div>
+    </main>
+  );
+}
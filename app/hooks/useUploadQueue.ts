@@ -0,0 +1,345 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useAuth } from "@clerk/nextjs";
+import { checkVideoUploadQuota } from "@/lib/quota";
+import { SESSION_RECOVERED_EVENT } from "@/lib/hooks/useSessionRecovery";
+import {
+  MULTIPART_UPLOAD_NOT_FOUND,
+  abortMultipartUpload,
+  putBlob,
+  startMultipartUpload,
+  uploadFileInParts,
+} from "@/lib/multipart-upload";
+import { MULTIPART_THRESHOLD } from "@/lib/video-upload";
+import {
+  createQueueItem,
+  fileFingerprint,
+  getUploadErrorMessage,
+  getUploadQueueStorageKey,
+  pickRunnableItems,
+  restoreUploadQueue,
+  validateVideoFile,
+  type UploadConcurrency,
+  type UploadQueueItem,
+} from "@/lib/upload-queue";
+import type { ProcessingOptions } from "@/types/shared";
+
+/**
+ * Batch upload queue
+ *
+ * Uploads queued files to R2 and submits each to /api/process, `concurrency`
+ * at a time. Files above MULTIPART_THRESHOLD are uploaded in parts
+ * (lib/multipart-upload.ts) so a pause, failure or reload loses at most the
+ * parts in flight. The queue (without the File objects) is persisted per user in
+ * localStorage: after a reload, files already in R2 are submitted
+ * automatically and the rest wait for their file to be selected again.
+ * Network failures are retried when useSessionRecovery reports a recovered
+ * session (tab visible again, back online).
+ */
+export function useUploadQueue(onSubmitted: (uploadId: string) => void) {
+  const { getToken, userId } = useAuth();
+  const [items, setItems] = useState<UploadQueueItem[]>([]);
+  const [concurrency, setConcurrency] = useState<UploadConcurrency>(1);
+  const [restored, setRestored] = useState(false);
+  const filesRef = useRef(new Map<string, File>());
+  const controllersRef = useRef(new Map<string, AbortController>());
+  const onSubmittedRef = useRef(onSubmitted);
+  onSubmittedRef.current = onSubmitted;
+
+  const updateItem = useCallback((id: string, patch: Partial<UploadQueueItem>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+  }, []);
+
+  // Restore the persisted queue once the user is known
+  useEffect(() => {
+    if (!userId) return;
+    const persisted = restoreUploadQueue(localStorage.getItem(getUploadQueueStorageKey(userId)));
+    if (persisted) {
+      setItems(persisted.items);
+      setConcurrency(persisted.concurrency);
+    }
+    setRestored(true);
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId || !restored) return;
+    localStorage.setItem(getUploadQueueStorageKey(userId), JSON.stringify({ items, concurrency }));
+  }, [userId, restored, items, concurrency]);
+
+  const runItem = useCallback(
+    async (item: UploadQueueItem) => {
+      const controller = new AbortController();
+      controllersRef.current.set(item.id, controller);
+
+      try {
+        let { uploadId, r2Key } = item;
+
+        if (!item.uploaded) {
+          const file = filesRef.current.get(item.id);
+          if (!file) {
+            updateItem(item.id, { status: "paused", needsFile: true });
+            return;
+          }
+
+          // クォータチェック (JWTトークン取得してクロスオリジン認証)
+          try {
+            const token = await getToken();
+            const quotaResult = await checkVideoUploadQuota(token);
+            if (!quotaResult.allowed) {
+              updateItem(item.id, {
+                status: "error",
+                error: `月間クォータを超過しています (残り: ${quotaResult.remaining}/${quotaResult.quota}動画, プラン: ${quotaResult.plan_type})`,
+                retryable: false,
+              });
+              return;
+            }
+          } catch (quotaError) {
+            console.error("Quota check error:", quotaError);
+            // クォータチェック失敗時は警告を表示して続行
+            console.warn("Proceeding with upload despite quota check failure");
+          }
+
+          const toProgress = (uploadedBytes: number) => Math.round(5 + (uploadedBytes / file.size) * 85);
+
+          if (file.size > MULTIPART_THRESHOLD) {
+            // Step 1-2: Multipart upload, resuming the parts already in R2
+            let multipartUploadId = item.multipartUploadId;
+            let partSize = item.partSize;
+            if (!multipartUploadId || !uploadId || !r2Key || !partSize) {
+              const started = await startMultipartUpload(file, controller.signal);
+              ({ uploadId, r2Key, multipartUploadId, partSize } = started);
+              updateItem(item.id, { uploadId, r2Key, multipartUploadId, partSize, progress: 5 });
+            }
+
+            await uploadFileInParts(
+              file,
+              { uploadId, r2Key, multipartUploadId, partSize },
+              {
+                signal: controller.signal,
+                onProgress: (uploadedBytes) => updateItem(item.id, { progress: toProgress(uploadedBytes) }),
+              }
+            );
+          } else {
+            // Step 1: Get presigned URL from R2
+            const presignedResponse = await fetch("/api/r2/upload-url", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ fileName: file.name, contentType: item.fileType, fileSize: file.size }),
+              signal: controller.signal,
+            });
+            if (!presignedResponse.ok) {
+              const errorData = await presignedResponse.json().catch(() => ({}));
+              throw new Error(errorData.error || "Failed to get upload URL");
+            }
+
+            const presigned = await presignedResponse.json();
+            uploadId = presigned.uploadId as string;
+            r2Key = presigned.r2Key as string;
+            updateItem(item.id, { uploadId, r2Key, progress: 5 });
+
+            // Step 2: Upload directly to R2 (5-90%)
+            await putBlob(presigned.uploadUrl, file, {
+              contentType: item.fileType,
+              signal: controller.signal,
+              onProgress: (loaded) => updateItem(item.id, { progress: toProgress(loaded) }),
+            });
+          }
+          updateItem(item.id, { uploaded: true, progress: 90 });
+        } else if (uploadId) {
+          // Restored after a reload: /api/process may already have accepted it
+          const statusResponse = await fetch(`/api/status/${uploadId}`, { signal: controller.signal });
+          if (statusResponse.ok) {
+            updateItem(item.id, { status: "submitted", progress: 100, error: undefined });
+            onSubmittedRef.current(uploadId);
+            return;
+          }
+        }
+
+        // Step 3: Start processing with R2 key
+        updateItem(item.id, { status: "submitting" });
+        const res = await fetch("/api/process", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            uploadId,
+            r2Key,
+            fileName: item.fileName,
+            dataConsent: true,
+            options: item.options,
+          }),
+          signal: controller.signal,
+        });
+        if (!res.ok) {
+          const errorData = await res.json().catch(() => ({}));
+          throw new Error(errorData.error || "Failed to start processing.");
+        }
+
+        updateItem(item.id, { status: "submitted", progress: 100, error: undefined });
+        filesRef.current.delete(item.id);
+        if (uploadId) onSubmittedRef.current(uploadId);
+      } catch (err) {
+        // Paused or removed: the item was already updated by pause()/remove()
+        if ((err as { name?: string } | null)?.name === "AbortError") return;
+
+        // R2 dropped the multipart upload (expired or aborted): start over
+        if (err instanceof Error && err.message === MULTIPART_UPLOAD_NOT_FOUND) {
+          updateItem(item.id, {
+            status: "waiting",
+            progress: 0,
+            uploadId: undefined,
+            r2Key: undefined,
+            multipartUploadId: undefined,
+            partSize: undefined,
+          });
+          return;
+        }
+
+        const { message, retryable } = getUploadErrorMessage(err);
+        updateItem(item.id, { status: "error", error: message, retryable });
+      } finally {
+        controllersRef.current.delete(item.id);
+      }
+    },
+    [getToken, updateItem]
+  );
+
+  // Scheduler: start waiting items while there are free slots
+  useEffect(() => {
+    const runnable = pickRunnableItems(items, concurrency, (id) => filesRef.current.has(id));
+    if (runnable.length === 0) return;
+
+    const ids = new Set(runnable.map((item) => item.id));
+    setItems((prev) =>
+      prev.map((item) =>
+        ids.has(item.id) ? { ...item, status: item.uploaded ? "submitting" : "uploading", error: undefined } : item
+      )
+    );
+    runnable.forEach((item) => void runItem(item));
+  }, [items, concurrency, runItem]);
+
+  // Retry network failures once the session has been recovered
+  useEffect(() => {
+    const handleRecovered = () => {
+      setItems((prev) =>
+        prev.map((item) => (item.status === "error" && item.retryable ? { ...item, status: "waiting" } : item))
+      );
+    };
+    window.addEventListener(SESSION_RECOVERED_EVENT, handleRecovered);
+    return () => window.removeEventListener(SESSION_RECOVERED_EVENT, handleRecovered);
+  }, []);
+
+  /**
+   * Queue files; a file matching an item restored after a reload re-attaches to it.
+   * Returns the validation errors of rejected files.
+   */
+  const addFiles = useCallback(
+    (files: File[], options: ProcessingOptions): string[] => {
+      const errors: string[] = [];
+      const added: UploadQueueItem[] = [];
+      const reattached = new Set<string>();
+
+      for (const file of files) {
+        const error = validateVideoFile(file);
+        if (error) {
+          errors.push(`${file.name}: ${error}`);
+          continue;
+        }
+
+        const fingerprint = fileFingerprint(file);
+        const waitingForFile = items.find(
+          (item) => item.needsFile && !reattached.has(item.id) && fileFingerprint({ name: item.fileName, size: item.fileSize, lastModified: item.lastModified }) === fingerprint
+        );
+        if (waitingForFile) {
+          filesRef.current.set(waitingForFile.id, file);
+          reattached.add(waitingForFile.id);
+          continue;
+        }
+
+        const item = createQueueItem(file, options);
+        filesRef.current.set(item.id, file);
+        added.push(item);
+      }
+
+      setItems((prev) => [
+        ...prev.map((item) =>
+          reattached.has(item.id) ? { ...item, status: "waiting" as const, needsFile: false } : item
+        ),
+        ...added,
+      ]);
+      return errors;
+    },
+    [items]
+  );
+
+  const pause = useCallback(
+    (id: string) => {
+      controllersRef.current.get(id)?.abort();
+      setItems((prev) =>
+        prev.map((item) => {
+          if (item.id !== id || item.status === "submitted") return item;
+          // An interrupted single PUT starts over with a new upload URL;
+          // multipart uploads keep their stored parts
+          return item.uploaded || item.multipartUploadId
+            ? { ...item, status: "paused" }
+            : { ...item, status: "paused", progress: 0, uploadId: undefined, r2Key: undefined };
+        })
+      );
+    },
+    []
+  );
+
+  const resume = useCallback(
+    (id: string) => {
+      setItems((prev) =>
+        prev.map((item) =>
+          item.id === id && (item.status === "paused" || item.status === "error") && !item.needsFile
+            ? { ...item, status: "waiting", error: undefined }
+            : item
+        )
+      );
+    },
+    []
+  );
+
+  const pauseAll = useCallback(() => {
+    items.filter((item) => item.status !== "submitted" && item.status !== "error").forEach((item) => pause(item.id));
+  }, [items, pause]);
+
+  const resumeAll = useCallback(() => {
+    items.filter((item) => item.status === "paused").forEach((item) => resume(item.id));
+  }, [items, resume]);
+
+  const remove = useCallback(
+    (id: string) => {
+      controllersRef.current.get(id)?.abort();
+      filesRef.current.delete(id);
+
+      // Discard the parts of an unfinished multipart upload
+      const removed = items.find((item) => item.id === id);
+      if (removed?.multipartUploadId && removed.r2Key && !removed.uploaded) {
+        void abortMultipartUpload({ r2Key: removed.r2Key, multipartUploadId: removed.multipartUploadId });
+      }
+      setItems((prev) => prev.filter((item) => item.id !== id));
+    },
+    [items]
+  );
+
+  const clearFinished = useCallback(() => {
+    setItems((prev) => prev.filter((item) => item.status !== "submitted"));
+  }, []);
+
+  return {
+    items,
+    concurrency,
+    setConcurrency,
+    addFiles,
+    pause,
+    resume,
+    retry: resume,
+    pauseAll,
+    resumeAll,
+    remove,
+    clearFinished,
+  };
+}
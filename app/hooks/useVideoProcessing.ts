@@ -1,5 +1,7 @@
-import { useMutation, useQuery } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import axios, { AxiosError } from 'axios';
+import { openStatusStream } from '@/lib/status-stream';
 import type {
   ProcessVideoRequest,
   ProcessVideoResponse,
@@ -29,7 +31,37 @@ export function useVideoProcess() {
   });
 }
 
+/**
+ * Processing status of an upload
+ *
+ * Pushed over /api/status/[uploadId]/stream while the stream is open; falls back
+ * to polling every 10 seconds when it drops (or before it connects).
+ */
 export function useProcessingStatus(uploadId: string | null, enabled = true) {
+  const queryClient = useQueryClient();
+  const [isStreaming, setIsStreaming] = useState(false);
+  const streamEnabled = !!uploadId && enabled;
+
+  useEffect(() => {
+    if (!uploadId || !streamEnabled) return;
+
+    setIsStreaming(true);
+    const closeStream = openStatusStream(uploadId, {
+      onStatus: (status) => {
+        queryClient.setQueryData(['processingStatus', uploadId], status);
+        const terminal = ['completed', 'error', 'cancelled'].includes(status.status);
+        if (terminal) setIsStreaming(false);
+        return terminal;
+      },
+      onDrop: () => setIsStreaming(false),
+    });
+
+    return () => {
+      closeStream();
+      setIsStreaming(false);
+    };
+  }, [uploadId, streamEnabled, queryClient]);
+
   return useQuery<ProcessingStatus, AxiosError<ProcessError>>({
     queryKey: ['processingStatus', uploadId],
     queryFn: async () => {
@@ -40,7 +72,8 @@ export function useProcessingStatus(uploadId: string | null, enabled = true) {
       return response.data;
     },
     enabled: !!uploadId && enabled,
-    refetchInterval: 10000, // Poll every 10 seconds (reduced from 5s to minimize Supabase load)
+    // Poll every 10 seconds only while the stream is down (reduced from 5s to minimize Supabase load)
+    refetchInterval: isStreaming ? false : 10000,
     refetchIntervalInBackground: false,
     retry: 3,
     retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 5000),
@@ -5,8 +5,11 @@ import { SignInButton, SignedIn, SignedOut, UserButton } from "@clerk/nextjs";
 import { VideoUploader } from "./components/VideoUploader";
 import { ProcessingStatus } from "./components/ProcessingStatus";
 import { UploadHistory } from "./components/UploadHistory";
+import { WebhookSettings } from "./components/WebhookSettings";
+import { ApiKeySettings } from "./components/ApiKeySettings";
 import { QuotaDisplay } from "./components/QuotaDisplay";
-import { Brush, Sparkles } from "lucide-react";
+import Link from "next/link";
+import { BookOpen, Brush, Search, Sparkles } from "lucide-react";
 import { InteractiveDemo } from "./components/InteractiveDemo";
 import { motion } from "framer-motion";
 
@@ -40,7 +43,10 @@ export default function Home() {
   const [uploadId, setUploadId] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
 
+  // Batch uploads keep the status panel on the video being processed;
+  // later submissions are followed from the upload history
   const handleUploadSuccess = (id: string) => {
+    if (isProcessing) return;
     setUploadId(id);
     setIsProcessing(true);
   };
@@ -83,6 +89,20 @@ export default function Home() {
                 </SignInButton>
               </SignedOut>
               <SignedIn>
+                <Link
+                  href="/search"
+                  className="flex items-center gap-1.5 px-3 py-2 text-sm font-medium text-muted-foreground transition-colors hover:text-foreground"
+                >
+                  <Search className="w-4 h-4" />
+                  Search
+                </Link>
+                <Link
+                  href="/glossary"
+                  className="flex items-center gap-1.5 px-3 py-2 text-sm font-medium text-muted-foreground transition-colors hover:text-foreground"
+                >
+                  <BookOpen className="w-4 h-4" />
+                  Glossary
+                </Link>
                 <UserButton />
               </SignedIn>
             </div>
@@ -199,10 +219,7 @@ export default function Home() {
                 <h2 className="text-2xl font-bold font-serif text-foreground mb-6">
                   Upload your canvas
                 </h2>
-                <VideoUploader
-                  onUploadSuccess={handleUploadSuccess}
-                  disabled={isProcessing}
-                />
+                <VideoUploader onUploadSuccess={handleUploadSuccess} />
               </div>
             </motion.div>
 
@@ -226,6 +243,14 @@ export default function Home() {
                 currentUploadId={uploadId}
               />
             </motion.div>
+
+            <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.4 }}>
+              <WebhookSettings />
+            </motion.div>
+
+            <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.5 }}>
+              <ApiKeySettings />
+            </motion.div>
           </div>
         </SignedIn>
       </main>
@@ -0,0 +1,57 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { SceneEditor } from "../../components/SceneEditor";
+import { RerunPanel } from "../../components/RerunPanel";
+import { AskVideoPanel } from "../../components/AskVideoPanel";
+import { ProcessingStatus } from "../../components/ProcessingStatus";
+
+/**
+ * Scene review page: correct OCR/narration text, merge/split/delete scenes,
+ * then regenerate the Excel report without re-running OCR or Whisper.
+ * A single pipeline stage can also be re-run (unless source video retention is turned
+ * off, NEXT_PUBLIC_RERUN_ENABLED=false); its progress replaces the editor until done.
+ * Questions about the video are answered from its scenes, with cited timecodes.
+ */
+export default function ResultReviewPage({ params }: { params: { uploadId: string } }) {
+  const [isRerunning, setIsRerunning] = useState(false);
+  const [isRerunFinished, setIsRerunFinished] = useState(false);
+  const [editorKey, setEditorKey] = useState(0);
+
+  const handleRerunFinished = useCallback(() => setIsRerunFinished(true), []);
+
+  const backToEditor = () => {
+    setIsRerunning(false);
+    setIsRerunFinished(false);
+    setEditorKey((key) => key + 1); // Reload scenes from the new result
+  };
+
+  return (
+    <main className="min-h-screen bg-background text-foreground">
+      <div className="container py-10 space-y-6">
+        <h1 className="text-2xl font-bold font-serif text-foreground">Review scenes</h1>
+        {isRerunning ? (
+          <div className="space-y-4">
+            <ProcessingStatus uploadId={params.uploadId} onComplete={handleRerunFinished} />
+            {isRerunFinished && (
+              <button
+                onClick={backToEditor}
+                className="inline-flex items-center gap-2 rounded-full text-sm font-medium bg-primary text-primary-foreground hover:bg-primary/90 h-10 px-5 transition-colors"
+              >
+                Back to scenes
+              </button>
+            )}
+          </div>
+        ) : (
+          <>
+            <SceneEditor key={editorKey} uploadId={params.uploadId} />
+            <AskVideoPanel uploadId={params.uploadId} />
+            {process.env.NEXT_PUBLIC_RERUN_ENABLED !== "false" && (
+              <RerunPanel uploadId={params.uploadId} onStarted={() => setIsRerunning(true)} />
+            )}
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
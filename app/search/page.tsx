@@ -0,0 +1,15 @@
+import { SceneSearch } from "../components/SceneSearch";
+
+/**
+ * Search page: find scenes across all processed videos by on-screen text or narration.
+ */
+export default function SearchPage() {
+  return (
+    <main className="min-h-screen bg-background text-foreground">
+      <div className="container py-10 space-y-6">
+        <h1 className="text-2xl font-bold font-serif text-foreground">Search videos</h1>
+        <SceneSearch />
+      </div>
+    </main>
+  );
+}
@@ -31,7 +31,6 @@ gcloud run deploy $SERVICE_NAME \
   --timeout 3600 \
   --cpu 4 \
   --memory 4Gi \
-  --concurrency 1 \
   --min-instances 1 \
   --max-instances 50 \
   --no-cpu-throttling \
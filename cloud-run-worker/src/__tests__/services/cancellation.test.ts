@@ -0,0 +1,95 @@
+/**
+ * Unit Tests for Job Cancellation
+ *
+ * Tests cancel requests against queued and running jobs, ownership checks and
+ * the cross-instance watcher (in-memory mode, no Turso).
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  cancelUpload,
+  checkCancellationRequests,
+  isCancelled,
+  registerCancellableUpload,
+  throwIfCancelled,
+  unregisterCancellableUpload,
+  CANCELLED_MESSAGE,
+} from '../../services/cancellation.js';
+import { claimNextJob, enqueueJob, finishJob, getJob, resetInMemoryQueue } from '../../services/jobQueue.js';
+import { completeStatus, getStatus, initStatus } from '../../services/statusManager.js';
+
+describe('Job Cancellation', () => {
+  const enqueue = async (uploadId: string) => {
+    await enqueueJob({
+      uploadId,
+      userId: 'user_1',
+      r2Key: `uploads/user_1/${uploadId}/video.mp4`,
+      fileName: `${uploadId}.mp4`,
+      dataConsent: false,
+      options: {},
+      planType: 'free',
+    });
+    await initStatus(uploadId, 'user_1');
+  };
+
+  beforeEach(() => {
+    delete process.env.USE_TURSO;
+    resetInMemoryQueue();
+  });
+
+  it('should cancel a queued job immediately', async () => {
+    await enqueue('upload_queued');
+
+    const result = await cancelUpload('upload_queued', 'user_1');
+
+    expect(result).toEqual({ ok: true, status: 'cancelled' });
+    expect((await getJob('upload_queued'))?.state).toBe('cancelled');
+    expect((await getStatus('upload_queued'))?.status).toBe('cancelled');
+    expect(await claimNextJob('worker-a')).toBeNull();
+  });
+
+  it('should abort a job running on this instance', async () => {
+    await enqueue('upload_running');
+    await claimNextJob('worker-a');
+    const signal = registerCancellableUpload('upload_running');
+
+    const result = await cancelUpload('upload_running', 'user_1');
+
+    expect(result).toEqual({ ok: true, status: 'cancelling' });
+    expect(signal.aborted).toBe(true);
+    expect(isCancelled('upload_running')).toBe(true);
+    expect(() => throwIfCancelled('upload_running')).toThrow(CANCELLED_MESSAGE);
+    unregisterCancellableUpload('upload_running');
+  });
+
+  it('should abort a job once another instance recorded the request', async () => {
+    await enqueue('upload_remote');
+    await claimNextJob('worker-a');
+
+    // Request received before this instance registered the upload (e.g. by another instance)
+    expect(await cancelUpload('upload_remote', 'user_1')).toEqual({ ok: true, status: 'cancelling' });
+    registerCancellableUpload('upload_remote');
+    expect(isCancelled('upload_remote')).toBe(false);
+
+    expect(await checkCancellationRequests()).toEqual(['upload_remote']);
+    expect(isCancelled('upload_remote')).toBe(true);
+    unregisterCancellableUpload('upload_remote');
+  });
+
+  it('should reject uploads of other users', async () => {
+    await enqueue('upload_owner');
+
+    expect(await cancelUpload('upload_owner', 'user_2')).toMatchObject({ ok: false, status: 404 });
+    expect(await cancelUpload('upload_missing', 'user_1')).toMatchObject({ ok: false, status: 404 });
+    expect((await getJob('upload_owner'))?.state).toBe('queued');
+  });
+
+  it('should reject uploads that already finished', async () => {
+    await enqueue('upload_done');
+    await claimNextJob('worker-a');
+    await completeStatus('upload_done', 'https://example.com/result.xlsx', undefined);
+    await finishJob('upload_done', 'completed');
+
+    expect(await cancelUpload('upload_done', 'user_1')).toMatchObject({ ok: false, status: 409 });
+  });
+});
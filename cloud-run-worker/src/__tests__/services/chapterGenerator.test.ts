@@ -0,0 +1,54 @@
+/**
+ * Unit Tests for Chapter Generator Service
+ *
+ * Tests YouTube-style chapter lists built from topic groups, and the fallback
+ * topic titles used when no LLM title was generated.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { buildChapters, generateChapterText, formatChapterTimestamp, TopicForChapters } from '../../services/chapter-generator.js';
+import { fallbackTopicTitle } from '../../services/topicSummarizer.js';
+
+describe('Chapter Generator Service', () => {
+  const topics: TopicForChapters[] = [
+    { groupNumber: 1, startTime: 1.2, title: 'Intro' },
+    { groupNumber: 2, startTime: 5, title: 'Too short to be a chapter' },
+    { groupNumber: 3, startTime: 42.7, title: 'Product\ndemo' },
+    { groupNumber: 4, startTime: 95 },
+  ];
+
+  describe('buildChapters', () => {
+    it('should start at zero and fold topics shorter than 10 seconds into the previous chapter', () => {
+      expect(buildChapters(topics, 300)).toEqual([
+        { groupNumber: 1, startTime: 0, title: 'Intro' },
+        { groupNumber: 3, startTime: 42.7, title: 'Product demo' },
+        { groupNumber: 4, startTime: 95, title: 'Topic 4' },
+      ]);
+    });
+
+    it('should drop a last chapter that ends less than 10 seconds after it starts', () => {
+      expect(buildChapters(topics, 100).map(c => c.groupNumber)).toEqual([1, 3]);
+      expect(buildChapters([], 100)).toEqual([]);
+    });
+  });
+
+  describe('generateChapterText', () => {
+    it('should emit one MM:SS line per chapter', () => {
+      expect(generateChapterText(buildChapters(topics, 300), 300)).toBe('00:00 Intro\n00:42 Product demo\n01:35 Topic 4\n');
+    });
+
+    it('should include hours for videos of an hour or longer', () => {
+      expect(formatChapterTimestamp(3725.9, true)).toBe('1:02:05');
+      expect(generateChapterText([{ groupNumber: 1, startTime: 0, title: 'Intro' }], 4000)).toBe('0:00:00 Intro\n');
+    });
+  });
+
+  describe('fallbackTopicTitle', () => {
+    it('should use the first OCR line, then narration without speaker labels', () => {
+      expect(fallbackTopicTitle({ groupNumber: 1, ocr: '\n新製品の紹介\n価格', narration: '' })).toBe('新製品の紹介');
+      expect(fallbackTopicTitle({ groupNumber: 2, ocr: '', narration: 'Speaker A: Welcome everyone' })).toBe('Welcome everyone');
+      expect(fallbackTopicTitle({ groupNumber: 3, ocr: ' ', narration: '' })).toBe('Topic 3');
+      expect(fallbackTopicTitle({ groupNumber: 4, ocr: 'x'.repeat(60), narration: '' })).toHaveLength(40);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Unit Tests for Checkpoint Stage Reruns
+ *
+ * Tests resetting and preparing a retained checkpoint (in-memory mode, no Turso).
+ */
+
+import { describe, it, expect, afterEach } from '@jest/globals';
+import {
+  createInitialCheckpoint,
+  isRerunRetentionEnabled,
+  loadCheckpoint,
+  prepareCheckpointForRerun,
+  resetCheckpointForRerun,
+  saveCheckpoint,
+  type ProcessingCheckpoint,
+} from '../../services/checkpointService.js';
+
+describe('Checkpoint Reruns', () => {
+  const completedCheckpoint = (uploadId: string, overrides: Partial<ProcessingCheckpoint> = {}): ProcessingCheckpoint => ({
+    ...createInitialCheckpoint(uploadId, 'user_1'),
+    currentStep: 'excel_generation',
+    buildCommit: 'old-build',
+    intermediateVideoPath: `uploads/user_1/${uploadId}/source.mp4`,
+    processingOptions: { timecodeStyle: 'smpte' },
+    totalAudioChunks: 2,
+    completedAudioChunks: [0, 1],
+    transcriptionSegments: [{ timestamp: 0, duration: 2, text: 'Hello', confidence: 0.9 }],
+    totalScenes: 2,
+    sceneCuts: [
+      { timestamp: 0, confidence: 0.95, source: 'pyscenedetect' },
+      { timestamp: 5, confidence: 0.95, source: 'pyscenedetect' },
+    ],
+    completedOcrScenes: [0, 1],
+    ocrResults: { 0: 'Title', 1: 'Body' },
+    transcriptionLanguage: 'en',
+    retryCount: 2,
+    ...overrides,
+  });
+
+  describe('isRerunRetentionEnabled', () => {
+    afterEach(() => {
+      delete process.env.RERUN_RETENTION_ENABLED;
+    });
+
+    it('should keep source videos unless explicitly disabled', () => {
+      delete process.env.RERUN_RETENTION_ENABLED;
+      expect(isRerunRetentionEnabled()).toBe(true);
+
+      process.env.RERUN_RETENTION_ENABLED = 'true';
+      expect(isRerunRetentionEnabled()).toBe(true);
+
+      process.env.RERUN_RETENTION_ENABLED = 'false';
+      expect(isRerunRetentionEnabled()).toBe(false);
+    });
+  });
+
+  describe('resetCheckpointForRerun', () => {
+    it('should keep everything upstream of the chosen step', () => {
+      const checkpoint = completedCheckpoint('upload_reset');
+
+      const ocr = resetCheckpointForRerun(checkpoint, 'ocr');
+      expect(ocr.currentStep).toBe('ocr');
+      expect(ocr.transcriptionSegments).toHaveLength(1);
+      expect(ocr.sceneCuts).toHaveLength(2);
+      expect(ocr.completedOcrScenes).toEqual([]);
+      expect(ocr.ocrResults).toEqual({});
+
+      const sceneDetection = resetCheckpointForRerun(checkpoint, 'scene_detection');
+      expect(sceneDetection.transcriptionSegments).toHaveLength(1);
+      expect(sceneDetection.transcriptionLanguage).toBe('en');
+      expect(sceneDetection.sceneCuts).toEqual([]);
+      expect(sceneDetection.totalScenes).toBeUndefined();
+
+      const transcription = resetCheckpointForRerun(checkpoint, 'transcription');
+      expect(transcription.completedAudioChunks).toEqual([]);
+      expect(transcription.transcriptionSegments).toEqual([]);
+      expect(transcription.transcriptionLanguage).toBeUndefined();
+    });
+
+    it('should reuse all cached data when only regenerating the report', () => {
+      const checkpoint = completedCheckpoint('upload_excel');
+      const reset = resetCheckpointForRerun(checkpoint, 'excel_generation');
+
+      expect(reset).toEqual(checkpoint);
+      expect(checkpoint.ocrResults).toEqual({ 0: 'Title', 1: 'Body' });
+    });
+  });
+
+  describe('prepareCheckpointForRerun', () => {
+    it('should save the reset checkpoint with merged options and the current build', async () => {
+      await saveCheckpoint(completedCheckpoint('upload_prepare'));
+
+      const result = await prepareCheckpointForRerun('upload_prepare', 'user_1', 'ocr', { timecodeStyle: 'hms' });
+
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      expect(result.checkpoint.processingOptions).toEqual({ timecodeStyle: 'hms' });
+      expect(result.checkpoint.buildCommit).not.toBe('old-build');
+      expect(result.checkpoint.retryCount).toBe(0);
+
+      const saved = await loadCheckpoint('upload_prepare');
+      expect(saved?.currentStep).toBe('ocr');
+      expect(saved?.completedOcrScenes).toEqual([]);
+    });
+
+    it('should reject missing checkpoints and other users', async () => {
+      await saveCheckpoint(completedCheckpoint('upload_owner'));
+
+      expect(await prepareCheckpointForRerun('upload_missing', 'user_1', 'ocr')).toMatchObject({ ok: false, status: 404 });
+      expect(await prepareCheckpointForRerun('upload_owner', 'user_2', 'ocr')).toMatchObject({ ok: false, status: 404 });
+    });
+
+    it('should reject reruns whose upstream data is not retained', async () => {
+      await saveCheckpoint(completedCheckpoint('upload_no_video', { intermediateVideoPath: undefined }));
+      await saveCheckpoint(completedCheckpoint('upload_no_cuts', { sceneCuts: [] }));
+
+      expect(await prepareCheckpointForRerun('upload_no_video', 'user_1', 'ocr')).toMatchObject({ ok: false, status: 409 });
+      expect(await prepareCheckpointForRerun('upload_no_cuts', 'user_1', 'excel_generation')).toMatchObject({ ok: false, status: 409 });
+      expect((await prepareCheckpointForRerun('upload_no_cuts', 'user_1', 'scene_detection')).ok).toBe(true);
+    });
+  });
+});
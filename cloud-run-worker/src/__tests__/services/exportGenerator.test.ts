@@ -0,0 +1,95 @@
+/**
+ * Unit Tests for Export Generator Service
+ *
+ * Tests the set of export files written per upload, including the
+ * per-language subtitle tracks and chapter lists of translated uploads.
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { exportFormatsFor, generateExportFiles, isExportFormat } from '../../services/export-generator.js';
+import type { SceneWithNarration } from '../../services/pipeline.js';
+import type { ResultDocument } from '../../types/shared.js';
+import type { VideoMetadata } from '../../types/excel.js';
+
+describe('Export Generator Service', () => {
+  let originalConsoleLog: typeof console.log;
+  let workDir: string;
+
+  beforeEach(() => {
+    originalConsoleLog = console.log;
+    console.log = jest.fn() as typeof console.log;
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'export_generator_test_'));
+  });
+
+  afterEach(() => {
+    console.log = originalConsoleLog;
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  const scene = (sceneNumber: number, startTime: number, endTime: number, translations: SceneWithNarration['translations']): SceneWithNarration => ({
+    sceneNumber,
+    startTime,
+    endTime,
+    midTime: (startTime + endTime) / 2,
+    timecode: '',
+    ocrText: `テロップ ${sceneNumber}`,
+    ocrConfidence: 0.9,
+    narrationText: `ナレーション ${sceneNumber}`,
+    translations,
+  });
+
+  const scenes = [
+    scene(1, 0, 30, { en: { ocrText: 'Caption 1', narrationText: 'Narration 1' }, ko: { ocrText: '', narrationText: '' } }),
+    scene(2, 30, 60, { en: { ocrText: 'Caption 2', narrationText: 'Narration 2' }, ko: { ocrText: '', narrationText: '' } }),
+  ];
+
+  const videoMetadata: VideoMetadata = { width: 1280, height: 720, aspectRatio: 16 / 9, duration: 60, fps: 30, dropFrame: false };
+
+  const document: ResultDocument = {
+    schemaVersion: 1,
+    uploadId: 'upload_1',
+    fileName: 'demo.mp4',
+    generatedAt: '2026-01-01T00:00:00.000Z',
+    timecodeStyle: 'hms',
+    video: { duration: 60, width: 1280, height: 720, fps: 30, dropFrame: false },
+    stats: { totalScenes: 2, scenesWithOCR: 2, scenesWithNarration: 2 },
+    topicGroups: [
+      { groupNumber: 1, sceneNumbers: [1], timeRange: '', startTime: 0, endTime: 30, title: '導入', titleTranslations: { en: 'Intro' }, ocr: '', narration: '' },
+      { groupNumber: 2, sceneNumbers: [2], timeRange: '', startTime: 30, endTime: 60, title: 'まとめ', ocr: '', narration: '' },
+    ],
+    scenes: [],
+    translationLanguages: ['en', 'ko'],
+  };
+
+  it('should list the per-language formats after the shared ones', () => {
+    expect(exportFormatsFor()).toEqual(['srt', 'vtt', 'edl', 'fcpxml', 'json', 'txt']);
+    expect(exportFormatsFor(['en']).slice(6)).toEqual(['en.srt', 'en.vtt', 'en.txt']);
+    expect(isExportFormat('fr.vtt')).toBe(true);
+    expect(isExportFormat('en.edl')).toBe(false);
+    expect(isExportFormat('xx.srt')).toBe(false);
+  });
+
+  it('should write translated subtitle tracks, chapters and timeline markers', async () => {
+    const exportPaths = await generateExportFiles(path.join(workDir, 'demo'), 'demo.mp4', [], scenes, videoMetadata, document);
+    const read = (format: keyof typeof exportPaths) => fs.readFileSync(exportPaths[format]!, 'utf-8');
+
+    expect(read('srt')).toContain('ナレーション 1');
+    expect(read('en.srt')).toBe('1\n00:00:00,000 --> 00:00:30,000\nNarration 1\n\n2\n00:00:30,000 --> 00:01:00,000\nNarration 2\n');
+    expect(read('en.vtt')).toContain('Narration 2');
+    expect(read('txt')).toBe('00:00 導入\n00:30 まとめ\n');
+    // Untranslated titles keep the original
+    expect(read('en.txt')).toBe('00:00 Intro\n00:30 まとめ\n');
+    expect(read('edl')).toContain('YELLOW [EN] Caption 1');
+  });
+
+  it('should skip subtitle tracks of a language without translated narration', async () => {
+    const exportPaths = await generateExportFiles(path.join(workDir, 'demo'), 'demo.mp4', [], scenes, videoMetadata, document);
+
+    expect(exportPaths['ko.srt']).toBeUndefined();
+    expect(exportPaths['ko.vtt']).toBeUndefined();
+    expect(exportPaths['ko.txt']).toBeDefined();
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Unit Tests for Glossary Service
+ *
+ * Tests alias substitution after OCR, the Whisper / OCR / LLM prompt builders
+ * and loading in in-memory mode.
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  applyGlossarySubstitutions,
+  buildCleansingGlossary,
+  buildOCRHints,
+  buildWhisperPrompt,
+  loadGlossary,
+  resetInMemoryGlossaries,
+  setInMemoryGlossary,
+  type GlossaryEntry,
+} from '../../services/glossary.js';
+import { OCR_PROMPT, buildOCRPrompt } from '../../services/ocrProviderInterface.js';
+
+describe('Glossary Service', () => {
+  const glossary: GlossaryEntry[] = [
+    { term: 'Video Handoff', aliases: ['ビデオハンドオフ', 'Video Hand Off'], reading: 'ビデオハンドオフ' },
+    { term: 'ABC株式会社', aliases: ['ABC'], reading: null },
+    { term: '山田太郎', aliases: ['山田太朗'], reading: 'ヤマダタロウ' },
+  ];
+
+  describe('applyGlossarySubstitutions', () => {
+    it('should replace aliases and count each correction', () => {
+      const { texts, corrections } = applyGlossarySubstitutions(
+        ['ビデオハンドオフの紹介', '担当: 山田太朗', 'ビデオハンドオフ 2.0'],
+        glossary
+      );
+
+      expect(texts).toEqual(['Video Handoffの紹介', '担当: 山田太郎', 'Video Handoff 2.0']);
+      expect(corrections).toEqual([
+        { from: 'ビデオハンドオフ', to: 'Video Handoff', count: 2 },
+        { from: '山田太朗', to: '山田太郎', count: 1 },
+      ]);
+    });
+
+    it('should leave text already spelled as a term unchanged', () => {
+      const { texts, corrections } = applyGlossarySubstitutions(['ABC株式会社とABCの比較'], glossary);
+
+      expect(texts).toEqual(['ABC株式会社とABC株式会社の比較']);
+      expect(corrections).toEqual([{ from: 'ABC', to: 'ABC株式会社', count: 1 }]);
+    });
+
+    it('should match Latin aliases case-insensitively on word boundaries only', () => {
+      const { texts, corrections } = applyGlossarySubstitutions(['video hand off / ABCD / abc'], glossary);
+
+      expect(texts).toEqual(['Video Handoff / ABCD / ABC株式会社']);
+      expect(corrections.map(c => c.from)).toEqual(['abc', 'video hand off']);
+    });
+
+    it('should return the texts unchanged without aliases', () => {
+      const { texts, corrections } = applyGlossarySubstitutions(['', 'text'], [{ term: 'text', aliases: [], reading: null }]);
+
+      expect(texts).toEqual(['', 'text']);
+      expect(corrections).toEqual([]);
+    });
+  });
+
+  describe('prompts', () => {
+    it('should join terms for the Whisper prompt within the length budget', () => {
+      expect(buildWhisperPrompt(glossary)).toBe('Video Handoff、ABC株式会社、山田太郎');
+      expect(buildWhisperPrompt([])).toBeUndefined();
+
+      const long = Array.from({ length: 50 }, (_, i) => ({ term: `製品名${String(i).padStart(2, '0')}`, aliases: [], reading: null }));
+      const prompt = buildWhisperPrompt(long)!;
+      expect(prompt.length).toBeLessThanOrEqual(200);
+      expect(prompt.startsWith('製品名00、製品名01')).toBe(true);
+    });
+
+    it('should append glossary hints to the OCR prompt', () => {
+      const hints = buildOCRHints(glossary);
+
+      expect(hints).toContain('- Video Handoff (reading: ビデオハンドオフ; often misread as: ビデオハンドオフ, Video Hand Off)');
+      expect(hints).toContain('- ABC株式会社 (often misread as: ABC)');
+      expect(buildOCRPrompt({ hints })).toBe(`${OCR_PROMPT}\n\nKNOWN TERMS:\n${hints}`);
+      expect(buildOCRPrompt({ hints: buildOCRHints([]) })).toBe(OCR_PROMPT);
+    });
+
+    it('should build the LLM cleansing section only for a non-empty glossary', () => {
+      expect(buildCleansingGlossary(glossary)).toContain('- 山田太郎 (reading: ヤマダタロウ; often misread as: 山田太朗)');
+      expect(buildCleansingGlossary([])).toBeUndefined();
+    });
+  });
+
+  describe('loadGlossary', () => {
+    beforeEach(() => {
+      delete process.env.USE_TURSO;
+      resetInMemoryGlossaries();
+    });
+
+    it('should load the account glossary in in-memory mode', async () => {
+      setInMemoryGlossary('user_1', glossary);
+
+      await expect(loadGlossary('user_1')).resolves.toEqual(glossary);
+      await expect(loadGlossary('user_2')).resolves.toEqual([]);
+    });
+  });
+});
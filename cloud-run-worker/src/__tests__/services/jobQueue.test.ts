@@ -0,0 +1,171 @@
+/**
+ * Unit Tests for Job Queue
+ *
+ * Tests plan-priority / FIFO ordering, claiming, duplicate detection, queue
+ * positions and job leases (in-memory mode).
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import {
+  enqueueJob,
+  claimNextJob,
+  finishJob,
+  getJob,
+  getQueuePosition,
+  getPlanPriority,
+  listAbandonedJobs,
+  markJobInterrupted,
+  renewJobLeases,
+  resetInMemoryQueue,
+  type EnqueueJobInput,
+} from '../../services/jobQueue.js';
+
+describe('Job Queue', () => {
+  const job = (uploadId: string, planType: string): EnqueueJobInput => ({
+    uploadId,
+    userId: 'user_1',
+    r2Key: `uploads/user_1/${uploadId}/video.mp4`,
+    fileName: `${uploadId}.mp4`,
+    dataConsent: false,
+    options: {},
+    planType,
+  });
+
+  // enqueued_at has millisecond resolution; keep FIFO order deterministic
+  const enqueueInOrder = async (...inputs: EnqueueJobInput[]) => {
+    for (const input of inputs) {
+      await enqueueJob(input);
+      await new Promise(resolve => setTimeout(resolve, 2));
+    }
+  };
+
+  beforeEach(() => {
+    delete process.env.USE_TURSO;
+    delete process.env.JOB_LEASE_MS;
+    resetInMemoryQueue();
+  });
+
+  afterEach(() => {
+    delete process.env.JOB_LEASE_MS;
+  });
+
+  /** Claim a job with a 1ms lease and let it expire (its worker was killed) */
+  const abandonJob = async (uploadId: string) => {
+    await enqueueJob(job(uploadId, 'free'));
+    process.env.JOB_LEASE_MS = '1';
+    await claimNextJob('worker-killed');
+    delete process.env.JOB_LEASE_MS;
+    await new Promise(resolve => setTimeout(resolve, 5));
+  };
+
+  describe('getPlanPriority', () => {
+    it('should run paid plans first and treat unknown plans as free', () => {
+      expect(getPlanPriority('pro')).toBeLessThan(getPlanPriority('basic'));
+      expect(getPlanPriority('basic')).toBeLessThan(getPlanPriority('free'));
+      expect(getPlanPriority('enterprise-trial')).toBe(getPlanPriority('free'));
+      expect(getPlanPriority(undefined)).toBe(getPlanPriority('free'));
+    });
+  });
+
+  describe('enqueueJob', () => {
+    it('should report queue positions in priority then FIFO order', async () => {
+      await enqueueInOrder(job('free-1', 'free'), job('free-2', 'free'));
+
+      const pro = await enqueueJob(job('pro-1', 'pro'));
+
+      expect(pro).toEqual({ enqueued: true, queuePosition: 1 });
+      expect(await getQueuePosition('free-1')).toBe(2);
+      expect(await getQueuePosition('free-2')).toBe(3);
+    });
+
+    it('should reject an upload that is still queued or running', async () => {
+      await enqueueJob(job('upload-1', 'free'));
+      expect(await enqueueJob(job('upload-1', 'free'))).toEqual({ enqueued: false, state: 'queued' });
+
+      await claimNextJob('worker-a');
+      expect(await enqueueJob(job('upload-1', 'free'))).toEqual({ enqueued: false, state: 'running' });
+    });
+
+    it('should reject an upload waiting to resume after an interruption', async () => {
+      await enqueueJob(job('upload-1', 'free'));
+      await claimNextJob('worker-a');
+      await markJobInterrupted('upload-1');
+
+      expect(await enqueueJob({ ...job('upload-1', 'free'), rerunFrom: 'ocr' })).toEqual({ enqueued: false, state: 'interrupted' });
+    });
+
+    it('should allow re-processing once the previous job finished', async () => {
+      await enqueueJob(job('upload-1', 'free'));
+      await claimNextJob('worker-a');
+      await finishJob('upload-1', 'failed');
+
+      const result = await enqueueJob(job('upload-1', 'free'));
+
+      expect(result).toEqual({ enqueued: true, queuePosition: 1 });
+      expect((await getJob('upload-1'))?.state).toBe('queued');
+    });
+
+    it('should replace a running job whose lease expired', async () => {
+      await abandonJob('upload-1');
+
+      const result = await enqueueJob(job('upload-1', 'free'));
+
+      expect(result).toEqual({ enqueued: true, queuePosition: 1 });
+      expect(await getJob('upload-1')).toMatchObject({ state: 'queued', attempts: 0 });
+    });
+
+    it('should queue a stage rerun of a finished upload', async () => {
+      await enqueueJob(job('upload-1', 'pro'));
+      await claimNextJob('worker-a');
+      await finishJob('upload-1', 'completed');
+
+      await enqueueJob({ ...job('upload-1', 'pro'), rerunFrom: 'ocr' });
+
+      expect(await claimNextJob('worker-a')).toMatchObject({ uploadId: 'upload-1', rerunFrom: 'ocr', attempts: 1 });
+    });
+
+    it('should keep the source URL of an import', async () => {
+      await enqueueJob({ ...job('import-1', 'free'), sourceUrl: 'https://example.com/a.mp4' });
+
+      expect((await claimNextJob('worker-a'))?.sourceUrl).toBe('https://example.com/a.mp4');
+    });
+  });
+
+  describe('claimNextJob', () => {
+    it('should claim jobs in queue order and mark them running', async () => {
+      await enqueueInOrder(job('free-1', 'free'), job('basic-1', 'basic'), job('free-2', 'free'));
+
+      const claimed = [];
+      for (let i = 0; i < 3; i++) {
+        claimed.push(await claimNextJob('worker-a'));
+      }
+
+      expect(claimed.map(j => j?.uploadId)).toEqual(['basic-1', 'free-1', 'free-2']);
+      expect(claimed[0]).toMatchObject({ state: 'running', workerId: 'worker-a' });
+      expect(await getQueuePosition('free-2')).toBeNull();
+    });
+
+    it('should return null when the queue is empty', async () => {
+      expect(await claimNextJob('worker-a')).toBeNull();
+    });
+  });
+
+  describe('job leases', () => {
+    it('should report running jobs whose lease expired as abandoned', async () => {
+      await abandonJob('abandoned-1');
+      await enqueueJob(job('healthy-1', 'free'));
+      await claimNextJob('worker-a');
+
+      expect((await listAbandonedJobs()).map(j => j.uploadId)).toEqual(['abandoned-1']);
+    });
+
+    it('should keep a job owned while its worker renews the lease', async () => {
+      await abandonJob('upload-1');
+
+      await renewJobLeases('worker-killed', ['upload-1']);
+
+      expect(await listAbandonedJobs()).toEqual([]);
+      expect(await enqueueJob(job('upload-1', 'free'))).toEqual({ enqueued: false, state: 'running' });
+    });
+  });
+});
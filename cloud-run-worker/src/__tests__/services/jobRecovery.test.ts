@@ -0,0 +1,146 @@
+/**
+ * Unit Tests for Job Recovery
+ *
+ * Tests re-queueing interrupted jobs from their checkpoint, the retry limit,
+ * claiming and recovery of jobs abandoned with an expired lease (in-memory
+ * mode, no Turso).
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import {
+  createInitialCheckpoint,
+  flagCheckpointInterrupted,
+  listInterruptedCheckpoints,
+  saveCheckpoint,
+} from '../../services/checkpointService.js';
+import {
+  claimNextJob,
+  enqueueJob,
+  getJob,
+  markJobInterrupted,
+  resetInMemoryQueue,
+} from '../../services/jobQueue.js';
+import { getStatus, initStatus } from '../../services/statusManager.js';
+import { recoverAbandonedJobs, recoverInterruptedJobs } from '../../services/jobRecovery.js';
+
+describe('Job Recovery', () => {
+  /** Start a job, checkpoint it at OCR and interrupt it `times` times */
+  const interruptJob = async (uploadId: string, times = 1) => {
+    await enqueueJob({
+      uploadId,
+      userId: 'user_1',
+      r2Key: `uploads/user_1/${uploadId}/video.mp4`,
+      fileName: `${uploadId}.mp4`,
+      dataConsent: false,
+      options: {},
+      planType: 'free',
+    });
+    await claimNextJob('worker-a');
+    await initStatus(uploadId, 'user_1');
+    await saveCheckpoint({ ...createInitialCheckpoint(uploadId, 'user_1'), currentStep: 'ocr' });
+
+    await markJobInterrupted(uploadId);
+    for (let i = 0; i < times; i++) {
+      await flagCheckpointInterrupted(uploadId);
+    }
+  };
+
+  beforeEach(() => {
+    delete process.env.USE_TURSO;
+    delete process.env.RESUME_RETRY_LIMIT;
+    resetInMemoryQueue();
+  });
+
+  afterEach(() => {
+    delete process.env.RESUME_RETRY_LIMIT;
+    delete process.env.JOB_LEASE_MS;
+  });
+
+  /** Claim a job with a 1ms lease and let it expire without a shutdown signal (OOM, SIGKILL) */
+  const abandonJob = async (uploadId: string) => {
+    await enqueueJob({
+      uploadId,
+      userId: 'user_1',
+      r2Key: `uploads/user_1/${uploadId}/video.mp4`,
+      fileName: `${uploadId}.mp4`,
+      dataConsent: false,
+      options: {},
+      planType: 'free',
+    });
+    await initStatus(uploadId, 'user_1');
+    process.env.JOB_LEASE_MS = '1';
+    await claimNextJob('worker-killed');
+    delete process.env.JOB_LEASE_MS;
+    await new Promise(resolve => setTimeout(resolve, 5));
+  };
+
+  it('should re-queue an interrupted job and report it as resuming', async () => {
+    await interruptJob('upload_resume');
+
+    const result = await recoverInterruptedJobs();
+
+    expect(result.resumed).toContain('upload_resume');
+    expect((await getJob('upload_resume'))?.state).toBe('queued');
+    expect(await getStatus('upload_resume')).toMatchObject({
+      status: 'resuming',
+      subTask: 'Resuming from ocr',
+    });
+  });
+
+  it('should recover each interrupted checkpoint only once', async () => {
+    await interruptJob('upload_once');
+
+    await recoverInterruptedJobs();
+    const second = await recoverInterruptedJobs();
+
+    expect(second.resumed).not.toContain('upload_once');
+    expect((await listInterruptedCheckpoints()).map(c => c.uploadId)).not.toContain('upload_once');
+  });
+
+  it('should fail the upload once the retry limit is reached', async () => {
+    process.env.RESUME_RETRY_LIMIT = '2';
+    await interruptJob('upload_limit', 2);
+
+    const result = await recoverInterruptedJobs();
+
+    expect(result.failed).toContain('upload_limit');
+    expect((await getJob('upload_limit'))?.state).toBe('failed');
+    expect((await getStatus('upload_limit'))?.status).toBe('error');
+  });
+
+  it('should keep the interruption count when a stale checkpoint is saved', async () => {
+    await interruptJob('upload_stale');
+
+    // The pipeline may save its in-memory copy after the shutdown handler flagged it
+    await saveCheckpoint({ ...createInitialCheckpoint('upload_stale', 'user_1'), currentStep: 'ocr' });
+
+    const [checkpoint] = (await listInterruptedCheckpoints()).filter(c => c.uploadId === 'upload_stale');
+    expect(checkpoint.retryCount).toBe(1);
+  });
+
+  describe('recoverAbandonedJobs', () => {
+    it('should re-queue a running job whose worker stopped renewing its lease', async () => {
+      await abandonJob('upload_abandoned');
+
+      const result = await recoverAbandonedJobs();
+
+      expect(result.resumed).toEqual(['upload_abandoned']);
+      expect((await getJob('upload_abandoned'))?.state).toBe('queued');
+      expect((await getStatus('upload_abandoned'))?.status).toBe('resuming');
+
+      // The next worker claims it again
+      expect((await claimNextJob('worker-b'))?.uploadId).toBe('upload_abandoned');
+    });
+
+    it('should fail a job abandoned as many times as the retry limit', async () => {
+      process.env.RESUME_RETRY_LIMIT = '1';
+      await abandonJob('upload_oom');
+
+      const result = await recoverAbandonedJobs();
+
+      expect(result.failed).toEqual(['upload_oom']);
+      expect((await getJob('upload_oom'))?.state).toBe('failed');
+      expect((await getStatus('upload_oom'))?.status).toBe('error');
+    });
+  });
+});
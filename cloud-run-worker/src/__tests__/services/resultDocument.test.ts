@@ -0,0 +1,127 @@
+/**
+ * Unit Tests for Result Document Service
+ *
+ * Tests the structured JSON result built during the Excel step.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { buildResultDocument, RESULT_SCHEMA_VERSION } from '../../services/result-document.js';
+import type { SceneWithNarration } from '../../services/pipeline.js';
+import type { TopicGroup, VideoMetadata } from '../../types/excel.js';
+import { createTimecodeFormatter } from '../../utils/timecode.js';
+
+describe('Result Document Service', () => {
+  const videoMetadata: VideoMetadata = {
+    width: 1920,
+    height: 1080,
+    aspectRatio: 16 / 9,
+    duration: 10,
+    fps: 25,
+    dropFrame: false,
+  };
+
+  const scene = (sceneNumber: number, startTime: number, endTime: number, overrides: Partial<SceneWithNarration> = {}): SceneWithNarration => ({
+    sceneNumber,
+    startTime,
+    endTime,
+    midTime: (startTime + endTime) / 2,
+    timecode: '00:00:00',
+    ocrText: '',
+    ocrConfidence: 0,
+    narrationText: '',
+    ...overrides,
+  });
+
+  const scenes = [
+    scene(1, 0, 2.4, { ocrText: 'Title', ocrConfidence: 0.9, ocrProvider: 'gemini', detectionReason: 'scene_change' }),
+    scene(2, 2.4, 6, { narrationText: 'Hello' }),
+    scene(3, 6, 10),
+  ];
+
+  const topicGroups: TopicGroup[] = [
+    { groupNumber: 1, sceneRange: '1-2', sceneNumbers: [1, 2], timeRange: '00:00:00 - 00:00:06', startTime: 0, endTime: 6, count: 2, ocr: 'Title', narration: 'Hello', title: 'Opening', summary: 'The host says hello.' },
+  ];
+
+  const build = () => buildResultDocument({
+    uploadId: 'upload_1_abc',
+    fileName: 'demo.mp4',
+    scenes,
+    topicGroups,
+    videoMetadata,
+    timecodeStyle: 'smpte',
+    formatTime: createTimecodeFormatter('smpte', videoMetadata.fps),
+  });
+
+  it('should produce a versioned document with video info and stats', () => {
+    const doc = build();
+
+    expect(doc.schemaVersion).toBe(RESULT_SCHEMA_VERSION);
+    expect(doc.uploadId).toBe('upload_1_abc');
+    expect(doc.timecodeStyle).toBe('smpte');
+    expect(doc.video).toEqual({ duration: 10, width: 1920, height: 1080, fps: 25, dropFrame: false });
+    expect(doc.stats).toEqual({ totalScenes: 3, scenesWithOCR: 1, scenesWithNarration: 1 });
+  });
+
+  it('should include per-scene OCR, provider, narration and topic group', () => {
+    const [first, second, third] = build().scenes;
+
+    expect(first).toEqual({
+      sceneNumber: 1,
+      startTime: 0,
+      endTime: 2.4,
+      midTime: 1.2,
+      timecode: '00:00:00:00',
+      detectionReason: 'scene_change',
+      ocrText: 'Title',
+      ocrConfidence: 0.9,
+      ocrProvider: 'gemini',
+      narrationText: '',
+      topicGroup: 1,
+    });
+    expect(second.timecode).toBe('00:00:02:10');
+    expect(second.topicGroup).toBe(1);
+    expect(third.ocrProvider).toBeNull();
+    expect(third.topicGroup).toBeNull();
+  });
+
+  it('should include topic titles, summaries and the executive summary', () => {
+    const doc = buildResultDocument({
+      fileName: 'demo.mp4',
+      scenes,
+      topicGroups,
+      videoMetadata,
+      timecodeStyle: 'hms',
+      formatTime: createTimecodeFormatter('hms', videoMetadata.fps),
+      executiveSummary: 'A short greeting.',
+    });
+
+    expect(doc.summary).toBe('A short greeting.');
+    expect(doc.topicGroups[0]).toMatchObject({ startTime: 0, endTime: 6, title: 'Opening', summary: 'The host says hello.' });
+    expect(build()).not.toHaveProperty('summary');
+  });
+
+  it('should include translations only when translation languages were selected', () => {
+    const translated = buildResultDocument({
+      fileName: 'demo.mp4',
+      scenes: [
+        scene(1, 0, 5, { ocrText: 'タイトル', translations: { en: { ocrText: 'Title', narrationText: '' } } }),
+        scene(2, 5, 10),
+      ],
+      topicGroups: [],
+      videoMetadata,
+      timecodeStyle: 'hms',
+      formatTime: createTimecodeFormatter('hms', videoMetadata.fps),
+      translationLanguages: ['en'],
+    });
+
+    expect(translated.translationLanguages).toEqual(['en']);
+    expect(translated.scenes[0].translations).toEqual({ en: { ocrText: 'Title', narrationText: '' } });
+    expect(translated.scenes[1]).not.toHaveProperty('translations');
+    expect(build()).not.toHaveProperty('translationLanguages');
+  });
+
+  it('should survive a JSON round trip', () => {
+    const doc = build();
+    expect(JSON.parse(JSON.stringify(doc))).toEqual(doc);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Unit Tests for Result Editor Service
+ *
+ * Tests applying scene review editor changes to a stored result document.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import { applySceneEdits, regenerateResult } from '../../services/result-editor.js';
+import type { EditedScene, ResultDocument, ResultScene } from '../../types/shared.js';
+
+describe('Result Editor Service', () => {
+  const resultScene = (sceneNumber: number, startTime: number, endTime: number): ResultScene => ({
+    sceneNumber,
+    startTime,
+    endTime,
+    midTime: (startTime + endTime) / 2,
+    timecode: '',
+    detectionReason: 'scene_change',
+    ocrText: `OCR ${sceneNumber}`,
+    ocrConfidence: 0.8,
+    ocrProvider: 'gemini',
+    narrationText: `NA ${sceneNumber}`,
+    topicGroup: null,
+    screenshotFile: `scene_000${sceneNumber}.png`,
+  });
+
+  const document: ResultDocument = {
+    schemaVersion: 1,
+    uploadId: 'upload_1_abc',
+    fileName: 'demo.mp4',
+    generatedAt: '2026-01-01T00:00:00.000Z',
+    timecodeStyle: 'hms',
+    video: { duration: 30, width: 1280, height: 720, fps: 30, dropFrame: false },
+    stats: { totalScenes: 3, scenesWithOCR: 3, scenesWithNarration: 3 },
+    topicGroups: [],
+    scenes: [resultScene(1, 0, 10), resultScene(2, 10, 20), resultScene(3, 20, 30)],
+  };
+
+  const edit = (sourceSceneNumber: number, startTime: number, endTime: number, ocrText = '', narrationText = ''): EditedScene => ({
+    sourceSceneNumber,
+    startTime,
+    endTime,
+    ocrText,
+    narrationText,
+  });
+
+  it('should renumber scenes and reuse source screenshots', () => {
+    // Scene 1 deleted, scene 2 split at 15s, scene 3 kept
+    const result = applySceneEdits(document, [
+      edit(2, 10, 15, 'Fixed title'),
+      edit(2, 15, 20, 'Fixed title'),
+      edit(3, 20, 30, 'OCR 3', 'NA 3'),
+    ], '/tmp/frames');
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.scenes.map(s => s.sceneNumber)).toEqual([1, 2, 3]);
+    expect(result.scenes[0]).toMatchObject({
+      startTime: 10,
+      endTime: 15,
+      timecode: '00:00:10',
+      ocrText: 'Fixed title',
+      ocrProvider: 'gemini',
+      screenshotPath: '/tmp/frames/scene_0002.png',
+    });
+    expect(result.scenes[1].screenshotPath).toBe('/tmp/frames/scene_0002.png');
+    expect(result.screenshotFiles.get(3)).toBe('scene_0003.png');
+  });
+
+  it('should keep the original capture point only when it is inside the edited range', () => {
+    const result = applySceneEdits(document, [edit(2, 10, 15), edit(2, 15, 20)], '/tmp/frames');
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    // Source midTime is 15 → still inside both halves' boundaries
+    expect(result.scenes[0].midTime).toBe(15);
+    expect(result.scenes[1].midTime).toBe(15);
+
+    const merged = applySceneEdits(document, [edit(1, 0, 4)], '/tmp/frames');
+    expect(merged.ok && merged.scenes[0].midTime).toBe(2);
+  });
+
+  it('should keep translations only for scenes whose text is unchanged', () => {
+    const translatedDocument: ResultDocument = {
+      ...document,
+      translationLanguages: ['en'],
+      scenes: document.scenes.map(scene => ({
+        ...scene,
+        translations: { en: { ocrText: `EN OCR ${scene.sceneNumber}`, narrationText: `EN NA ${scene.sceneNumber}` } },
+      })),
+    };
+
+    const result = applySceneEdits(translatedDocument, [
+      edit(1, 0, 10, 'OCR 1', 'NA 1'),
+      edit(2, 10, 20, 'Fixed title', 'NA 2'),
+    ], '/tmp/frames');
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.scenes[0].translations).toEqual({ en: { ocrText: 'EN OCR 1', narrationText: 'EN NA 1' } });
+    expect(result.scenes[1].translations).toBeUndefined();
+  });
+
+  it('should reject unknown sources, invalid ranges and overlaps', () => {
+    expect(applySceneEdits(document, [], '/tmp')).toEqual({ ok: false, error: 'At least one scene is required' });
+    expect(applySceneEdits(document, [edit(9, 0, 10)], '/tmp').ok).toBe(false);
+    expect(applySceneEdits(document, [edit(1, 5, 5)], '/tmp').ok).toBe(false);
+    expect(applySceneEdits(document, [edit(3, 20, 45)], '/tmp').ok).toBe(false);
+    expect(applySceneEdits(document, [edit(1, 0, 12), edit(2, 10, 20)], '/tmp').ok).toBe(false);
+  });
+
+  describe('regenerateResult', () => {
+    const uploadId = 'upload_regen_test';
+    const storedPath = (format: string) => path.join('/tmp', `result_${uploadId}.${format}`);
+    const envKeys = ['NODE_ENV', 'LLM_SUMMARY_ENABLED'] as const;
+    const originalEnv: Record<string, string | undefined> = {};
+
+    const removeStoredFiles = () => {
+      for (const format of ['json', 'xlsx', 'srt', 'vtt', 'edl', 'fcpxml', 'txt']) {
+        fs.rmSync(storedPath(format), { force: true });
+      }
+    };
+
+    beforeEach(() => {
+      for (const key of envKeys) originalEnv[key] = process.env[key];
+      process.env.NODE_ENV = 'development';
+      process.env.LLM_SUMMARY_ENABLED = 'false';
+      fs.writeFileSync(storedPath('json'), JSON.stringify({ ...document, uploadId }), 'utf-8');
+    });
+
+    afterEach(() => {
+      removeStoredFiles();
+      for (const key of envKeys) {
+        if (originalEnv[key] === undefined) delete process.env[key];
+        else process.env[key] = originalEnv[key];
+      }
+    });
+
+    it('should rewrite the subtitle and timeline exports from the edited scenes', async () => {
+      const unchanged = document.scenes.map(scene => edit(scene.sceneNumber, scene.startTime, scene.endTime, scene.ocrText, scene.narrationText));
+      expect((await regenerateResult(uploadId, 'user_1', unchanged)).ok).toBe(true);
+      const before = { srt: fs.readFileSync(storedPath('srt'), 'utf-8'), edl: fs.readFileSync(storedPath('edl'), 'utf-8') };
+      expect(before.srt).toContain('NA 1');
+
+      // Scene 1 deleted, scene 2 retitled and renarrated
+      const result = await regenerateResult(uploadId, 'user_1', [
+        edit(2, 10, 20, 'Fixed title', 'Fixed narration'),
+        edit(3, 20, 30, 'OCR 3', 'NA 3'),
+      ]);
+      expect(result.ok).toBe(true);
+
+      const srt = fs.readFileSync(storedPath('srt'), 'utf-8');
+      const vtt = fs.readFileSync(storedPath('vtt'), 'utf-8');
+      const edl = fs.readFileSync(storedPath('edl'), 'utf-8');
+      expect(srt).not.toEqual(before.srt);
+      expect(srt).not.toContain('NA 1');
+      expect(srt).toContain('00:00:10,000 --> 00:00:20,000\nFixed narration');
+      expect(vtt).toContain('Fixed narration');
+      expect(edl).not.toEqual(before.edl);
+      expect(edl).toContain('Fixed title');
+      expect(edl).not.toContain('OCR 1');
+      expect(JSON.parse(fs.readFileSync(storedPath('json'), 'utf-8')).scenes).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Unit Tests for the Search Index Service
+ *
+ * Tests which scenes are indexed and that re-indexing replaces an upload's rows
+ * (in-memory mode, no Turso).
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  buildSearchIndexRows,
+  getInMemorySearchRows,
+  indexUploadForSearch,
+  resetInMemorySearchIndex,
+} from '../../services/searchIndex.js';
+import type { ResultDocument, ResultScene } from '../../types/shared.js';
+
+describe('Search Index Service', () => {
+  const scene = (sceneNumber: number, overrides: Partial<ResultScene> = {}): ResultScene => ({
+    sceneNumber,
+    startTime: sceneNumber * 5,
+    endTime: sceneNumber * 5 + 5,
+    midTime: sceneNumber * 5 + 2.5,
+    timecode: `00:00:${String(sceneNumber * 5).padStart(2, '0')}`,
+    detectionReason: null,
+    ocrText: '',
+    ocrConfidence: 0,
+    ocrProvider: null,
+    narrationText: '',
+    topicGroup: null,
+    screenshotFile: `scene_${String(sceneNumber).padStart(4, '0')}.png`,
+    ...overrides,
+  });
+
+  const document = (scenes: ResultScene[]): ResultDocument => ({
+    schemaVersion: 1,
+    uploadId: 'upload_1',
+    fileName: 'launch.mp4',
+    generatedAt: '2026-01-01T00:00:00.000Z',
+    timecodeStyle: 'hms',
+    video: { duration: 30, width: 1920, height: 1080, fps: 30, dropFrame: false },
+    stats: { totalScenes: scenes.length, scenesWithOCR: 0, scenesWithNarration: 0 },
+    topicGroups: [],
+    scenes,
+  });
+
+  beforeEach(() => {
+    delete process.env.USE_TURSO;
+    resetInMemorySearchIndex();
+  });
+
+  it('should index only scenes with OCR or narration text', () => {
+    const rows = buildSearchIndexRows('upload_1', 'user_1', document([
+      scene(1, { ocrText: ' 新商品アイスクリーム ' }),
+      scene(2, { ocrText: '  ', narrationText: '' }),
+      scene(3, { narrationText: 'Available from May' }),
+    ]));
+
+    expect(rows).toEqual([
+      {
+        uploadId: 'upload_1',
+        userId: 'user_1',
+        fileName: 'launch.mp4',
+        sceneNumber: 1,
+        startTime: 5,
+        timecode: '00:00:05',
+        screenshotFile: 'scene_0001.png',
+        ocrText: '新商品アイスクリーム',
+        narrationText: '',
+      },
+      expect.objectContaining({ sceneNumber: 3, narrationText: 'Available from May' }),
+    ]);
+  });
+
+  it('should replace the rows of a re-indexed upload', async () => {
+    await indexUploadForSearch('upload_1', 'user_1', document([scene(1, { ocrText: 'Before' }), scene(2, { ocrText: 'Kept' })]));
+    const count = await indexUploadForSearch('upload_1', 'user_1', document([scene(1, { ocrText: 'After' })]));
+
+    expect(count).toBe(1);
+    expect(getInMemorySearchRows('upload_1').map(row => row.ocrText)).toEqual(['After']);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Unit Tests for the Semantic Index Service
+ *
+ * Tests provider selection, the deterministic local provider, retrieval
+ * scoping and cited answers (in-memory mode, local provider, no Turso).
+ */
+
+import { describe, it, expect, beforeEach, afterAll } from '@jest/globals';
+import {
+  askVideo,
+  buildSceneEmbeddingText,
+  getInMemoryEmbeddingCount,
+  indexSceneEmbeddings,
+  resetInMemorySemanticIndex,
+  searchScenesSemantic,
+  type SemanticSceneInput,
+} from '../../services/semanticIndex.js';
+import {
+  createSemanticProvider,
+  LocalSemanticProvider,
+  resetSemanticProvider,
+} from '../../services/semanticProviders/index.js';
+import { cosineSimilarity } from '../../services/semanticProviderInterface.js';
+
+describe('Semantic Index Service', () => {
+  const originalEnv = { ...process.env };
+
+  const scene = (sceneNumber: number, ocrText: string, narrationText = ''): SemanticSceneInput => ({
+    sceneNumber,
+    startTime: sceneNumber * 10,
+    timecode: `00:00:${String(sceneNumber * 10).padStart(2, '0')}`,
+    ocrText,
+    narrationText,
+  });
+
+  const scenes = [
+    scene(1, 'Quarterly revenue grew 20%', 'Our revenue grew twenty percent this quarter'),
+    scene(2, '', ''),
+    scene(3, 'Hiring plan for engineering', 'We will hire ten engineers next year'),
+    scene(4, '料金プラン', '新しい料金プランを紹介します'),
+  ];
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.USE_TURSO;
+    delete process.env.GEMINI_API_KEY;
+    process.env.SEMANTIC_PROVIDER = 'local';
+    resetSemanticProvider();
+    resetInMemorySemanticIndex();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+    resetSemanticProvider();
+  });
+
+  describe('createSemanticProvider', () => {
+    it('should fall back to the local provider without GEMINI_API_KEY', () => {
+      delete process.env.SEMANTIC_PROVIDER;
+      expect(createSemanticProvider().name).toBe('local');
+    });
+
+    it('should reject gemini without an API key and unknown names', () => {
+      expect(() => createSemanticProvider('gemini')).toThrow('GEMINI_API_KEY');
+      expect(() => createSemanticProvider('openai')).toThrow('Unknown SEMANTIC_PROVIDER: openai');
+    });
+  });
+
+  describe('LocalSemanticProvider', () => {
+    it('should produce identical unit vectors for identical text', async () => {
+      const provider = new LocalSemanticProvider();
+      const [a, b] = await provider.embed(['revenue growth', 'revenue growth']);
+
+      expect(a).toEqual(b);
+      expect(cosineSimilarity(a, a)).toBeCloseTo(1, 6);
+    });
+
+    it('should place related text closer than unrelated text', async () => {
+      const provider = new LocalSemanticProvider();
+      const [query, related, unrelated] = await provider.embed([
+        'revenue growth',
+        'Quarterly revenue grew 20%',
+        'Hiring plan for engineering',
+      ]);
+
+      expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+    });
+  });
+
+  describe('buildSceneEmbeddingText', () => {
+    it('should combine OCR and narration and skip empty parts', () => {
+      expect(buildSceneEmbeddingText(' Title ', ' Narration ')).toBe('Title\nNarration');
+      expect(buildSceneEmbeddingText('', 'Narration')).toBe('Narration');
+      expect(buildSceneEmbeddingText(' ', '')).toBe('');
+    });
+  });
+
+  describe('indexSceneEmbeddings', () => {
+    it('should embed only scenes with text and replace previous rows', async () => {
+      expect((await indexSceneEmbeddings('upload_1', 'user_1', 'review.mp4', scenes)).size).toBe(3);
+      expect([...(await indexSceneEmbeddings('upload_1', 'user_1', 'review.mp4', scenes.slice(0, 1))).keys()]).toEqual([1]);
+
+      expect(getInMemoryEmbeddingCount('upload_1')).toBe(1);
+    });
+  });
+
+  describe('searchScenesSemantic', () => {
+    it('should rank the closest scene first across the user\'s uploads only', async () => {
+      await indexSceneEmbeddings('upload_1', 'user_1', 'review.mp4', scenes);
+      await indexSceneEmbeddings('upload_2', 'user_2', 'other.mp4', [scene(1, 'Quarterly revenue grew 20%')]);
+
+      const hits = await searchScenesSemantic('user_1', 'revenue this quarter');
+
+      expect(hits[0]).toMatchObject({ uploadId: 'upload_1', fileName: 'review.mp4', sceneNumber: 1 });
+      expect(hits.every(hit => hit.uploadId === 'upload_1')).toBe(true);
+    });
+
+    it('should limit the search to one upload and the requested count', async () => {
+      await indexSceneEmbeddings('upload_1', 'user_1', 'review.mp4', scenes);
+      await indexSceneEmbeddings('upload_3', 'user_1', 'later.mp4', [scene(1, '料金プラン')]);
+
+      const hits = await searchScenesSemantic('user_1', '料金プラン', { uploadId: 'upload_3', limit: 1 });
+
+      expect(hits).toHaveLength(1);
+      expect(hits[0].uploadId).toBe('upload_3');
+    });
+  });
+
+  describe('askVideo', () => {
+    it('should answer with citations of the retrieved scenes', async () => {
+      await indexSceneEmbeddings('upload_1', 'user_1', 'review.mp4', scenes);
+
+      const result = await askVideo('upload_1', 'user_1', 'How many engineers will be hired?');
+
+      expect(result?.citations[0]).toEqual({ sceneNumber: 3, startTime: 30, timecode: '00:00:30' });
+      expect(result?.answer).toContain('Scene 3 (00:00:30)');
+    });
+
+    it('should return null for another user\'s or an unindexed upload', async () => {
+      await indexSceneEmbeddings('upload_1', 'user_1', 'review.mp4', scenes);
+
+      expect(await askVideo('upload_1', 'user_2', 'revenue?')).toBeNull();
+      expect(await askVideo('missing', 'user_1', 'revenue?')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Unit Tests for Speaker Diarizer
+ *
+ * Tests speaker assignment to transcription segments, narration formatting, talk time
+ * and cancellation of the runner process.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  diarizeAudio,
+  assignSpeakersToSegments,
+  formatSpeakerNarration,
+  calculateSpeakerTalkTime,
+  type SpeakerTurn,
+} from '../../services/speakerDiarizer.js';
+import type { TranscriptionSegment } from '../../types/shared.js';
+
+describe('Speaker Diarizer', () => {
+  const segment = (timestamp: number, duration: number, text: string): TranscriptionSegment => ({
+    timestamp,
+    duration,
+    text,
+    confidence: 0.9,
+  });
+
+  const turns: SpeakerTurn[] = [
+    { start: 0, end: 4, speaker: 'SPEAKER_01' },
+    { start: 4, end: 9, speaker: 'SPEAKER_00' },
+    { start: 12, end: 15, speaker: 'SPEAKER_01' },
+  ];
+
+  describe('assignSpeakersToSegments', () => {
+    it('should label by largest overlap with A, B... in order of first appearance', () => {
+      const labeled = assignSpeakersToSegments(
+        [segment(5, 2, 'Thanks'), segment(0.5, 3, 'Welcome'), segment(3, 3, 'So')],
+        turns
+      );
+
+      expect(labeled.map(s => [s.text, s.speaker])).toEqual([
+        ['Welcome', 'A'],
+        ['So', 'B'], // 1s with SPEAKER_01, 2s with SPEAKER_00
+        ['Thanks', 'B'],
+      ]);
+    });
+
+    it('should fall back to the nearest turn when a segment overlaps none', () => {
+      const labeled = assignSpeakersToSegments([segment(10, 1.5, 'Right')], turns);
+
+      expect(labeled[0].speaker).toBe('A'); // 0.5s before SPEAKER_01's second turn
+    });
+
+    it('should leave segments unlabeled when diarization found no turns', () => {
+      const segments = [segment(0, 1, 'Hi')];
+
+      expect(assignSpeakersToSegments(segments, [])).toBe(segments);
+    });
+  });
+
+  describe('formatSpeakerNarration', () => {
+    it('should prefix speaker changes and merge consecutive lines', () => {
+      const text = formatSpeakerNarration([
+        { text: 'Hi', speaker: 'A' },
+        { text: 'there ', speaker: 'A' },
+        { text: 'Hello', speaker: 'B' },
+        { text: '  ', speaker: 'A' },
+        { text: 'Bye', speaker: 'A' },
+      ]);
+
+      expect(text).toBe('Speaker A: Hi there\nSpeaker B: Hello\nSpeaker A: Bye');
+    });
+
+    it('should space-join unlabeled segments as before', () => {
+      expect(formatSpeakerNarration([{ text: 'Hi ' }, { text: '' }, { text: 'there' }])).toBe('Hi there');
+    });
+  });
+
+  describe('calculateSpeakerTalkTime', () => {
+    it('should sum durations per speaker in label order', () => {
+      const talkTimes = calculateSpeakerTalkTime([
+        { ...segment(0, 2.25, 'a'), speaker: 'B' },
+        { ...segment(3, 1, 'b'), speaker: 'A' },
+        { ...segment(5, 1.5, 'c'), speaker: 'B' },
+        segment(8, 4, 'unlabeled'),
+      ]);
+
+      expect(talkTimes).toEqual([
+        { speaker: 'A', talkTime: 1, segmentCount: 1 },
+        { speaker: 'B', talkTime: 3.8, segmentCount: 2 },
+      ]);
+    });
+  });
+
+  describe('diarizeAudio', () => {
+    const originalEnv = { ...process.env };
+    // Stand-in runner that never finishes (run with node instead of python)
+    const runnerPath = path.join(os.tmpdir(), `diarization-runner-${process.pid}.cjs`);
+
+    beforeAll(() => {
+      fs.writeFileSync(runnerPath, 'setTimeout(() => {}, 60000);\n');
+      process.env.DIARIZATION_PYTHON_PATH = process.execPath;
+      process.env.DIARIZATION_SCRIPT_PATH = runnerPath;
+    });
+
+    afterAll(() => {
+      process.env = originalEnv;
+      fs.rmSync(runnerPath, { force: true });
+    });
+
+    it('should kill the runner and reject with the abort reason when cancelled', async () => {
+      const controller = new AbortController();
+      const reason = new Error('Processing was cancelled');
+
+      const diarization = diarizeAudio('/tmp/audio.wav', 'upload_cancel', controller.signal);
+      setTimeout(() => controller.abort(reason), 100);
+
+      await expect(diarization).rejects.toBe(reason);
+    });
+
+    it('should not start the runner when already cancelled', async () => {
+      const controller = new AbortController();
+      controller.abort(new Error('Processing was cancelled'));
+
+      await expect(diarizeAudio('/tmp/audio.wav', 'upload_cancelled', controller.signal)).rejects.toThrow('cancelled');
+    });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Unit Tests for Status Events
+ *
+ * Tests that status writes, throttled phase updates and warnings reach
+ * subscribers of the upload (in-memory mode, no Turso).
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { publishStatusEvent, subscribeToStatus, toStatusSnapshot, type StatusEvent } from '../../services/statusEvents.js';
+import { initStatus, updatePhaseProgress, updateStatus } from '../../services/statusManager.js';
+import { WarningCollector } from '../../services/warningCollector.js';
+import type { ProcessingStatus } from '../../types/shared.js';
+
+describe('Status Events', () => {
+  beforeEach(() => {
+    delete process.env.USE_TURSO;
+  });
+
+  it('should publish every status write to subscribers of the upload', async () => {
+    await initStatus('upload_events', 'user_1');
+    const events: StatusEvent[] = [];
+    const others: StatusEvent[] = [];
+    const unsubscribe = subscribeToStatus('upload_events', (event) => events.push(event));
+    const unsubscribeOther = subscribeToStatus('upload_other', (event) => others.push(event));
+
+    await updateStatus('upload_events', { status: 'processing', progress: 10 });
+    unsubscribe();
+    unsubscribeOther();
+    await updateStatus('upload_events', { progress: 20 });
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: 'status', status: { uploadId: 'upload_events', progress: 10 } });
+    expect(others).toEqual([]);
+  });
+
+  it('should push throttled phase updates without a status write', async () => {
+    await initStatus('upload_phase', 'user_1');
+    const events: StatusEvent[] = [];
+    const unsubscribe = subscribeToStatus('upload_phase', (event) => events.push(event));
+
+    await updatePhaseProgress('upload_phase', 2, 10, { subTask: 'OCR 1/10' });
+    await updatePhaseProgress('upload_phase', 2, 50, { subTask: 'OCR 5/10' }); // within the throttle window
+    unsubscribe();
+
+    expect(events.map(e => e.type)).toEqual(['status', 'progress']);
+    expect(events[1]).toEqual({
+      type: 'progress',
+      update: expect.objectContaining({ phase: 2, phaseProgress: 50, progress: 50, subTask: 'OCR 5/10' }),
+    });
+  });
+
+  it('should push warnings as they are collected', () => {
+    const events: StatusEvent[] = [];
+    const unsubscribe = subscribeToStatus('upload_warn', (event) => events.push(event));
+    const collector = new WarningCollector((message) => publishStatusEvent('upload_warn', { type: 'warning', message }));
+
+    collector.add('Diarization failed');
+    unsubscribe();
+
+    expect(events).toEqual([{ type: 'warning', message: 'Diarization failed' }]);
+    expect(collector.getWarnings()).toEqual(['Diarization failed']);
+  });
+
+  it('should lift phase fields stored in metadata', () => {
+    const stored = {
+      uploadId: 'upload_1',
+      status: 'processing',
+      progress: 40,
+      startedAt: 't0',
+      updatedAt: 't1',
+      metadata: { phase: 2, phaseProgress: 20, phaseStatus: 'in_progress', subTask: 'OCR 2/10' },
+    } as unknown as ProcessingStatus;
+
+    expect(toStatusSnapshot(stored)).toMatchObject({ phase: 2, phaseProgress: 20, subTask: 'OCR 2/10' });
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Unit Tests for Subtitle Generator Service
+ *
+ * Tests cue building (segment vs scene fallback, overlap trimming, wrapping)
+ * and SRT / WebVTT serialization.
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { buildSubtitleCues, generateSrt, generateWebVtt } from '../../services/subtitle-generator.js';
+import type { TranscriptionSegment } from '../../types/shared.js';
+
+describe('Subtitle Generator Service', () => {
+  let originalConsoleLog: typeof console.log;
+
+  beforeEach(() => {
+    originalConsoleLog = console.log;
+    console.log = jest.fn() as typeof console.log;
+  });
+
+  afterEach(() => {
+    console.log = originalConsoleLog;
+  });
+
+  const segment = (timestamp: number, duration: number, text: string): TranscriptionSegment => ({
+    timestamp,
+    duration,
+    text,
+    confidence: 0.9,
+  });
+
+  describe('buildSubtitleCues', () => {
+    it('should build cues from transcription segments sorted by start time', () => {
+      const cues = buildSubtitleCues(
+        [segment(5, 2, 'second'), segment(0, 3, 'first')],
+        [{ startTime: 0, endTime: 10, narrationText: 'scene narration' }]
+      );
+
+      expect(cues).toEqual([
+        { startTime: 0, endTime: 3, text: 'first' },
+        { startTime: 5, endTime: 7, text: 'second' },
+      ]);
+    });
+
+    it('should fall back to scene narration when there are no segments', () => {
+      const cues = buildSubtitleCues([], [
+        { startTime: 0, endTime: 4, narrationText: 'hello' },
+        { startTime: 4, endTime: 8, narrationText: '' },
+        { startTime: 8, endTime: 12, narrationText: 'world' },
+      ]);
+
+      expect(cues).toEqual([
+        { startTime: 0, endTime: 4, text: 'hello' },
+        { startTime: 8, endTime: 12, text: 'world' },
+      ]);
+    });
+
+    it('should trim overlapping cues and clamp to video duration', () => {
+      const cues = buildSubtitleCues(
+        [segment(0, 5, 'a'), segment(3, 4, 'b')],
+        [],
+        { videoDuration: 6 }
+      );
+
+      expect(cues).toEqual([
+        { startTime: 0, endTime: 3, text: 'a' },
+        { startTime: 3, endTime: 6, text: 'b' },
+      ]);
+    });
+
+    it('should extend short cues up to the minimum duration', () => {
+      const cues = buildSubtitleCues([segment(0, 0.2, 'quick'), segment(0.5, 1, 'next')], []);
+
+      expect(cues[0].endTime).toBe(0.5);
+      expect(cues[1].endTime).toBe(1.5);
+    });
+
+    it('should wrap long lines at word boundaries and split text without spaces', () => {
+      const [latin] = buildSubtitleCues([segment(0, 2, 'one two three four')], [], { maxLineLength: 9 });
+      expect(latin.text).toBe('one two\nthree\nfour');
+
+      const [japanese] = buildSubtitleCues([segment(0, 2, 'あいうえおかきくけこさ')], [], { maxLineLength: 5 });
+      expect(japanese.text).toBe('あいうえお\nかきくけこ\nさ');
+    });
+  });
+
+  describe('generateSrt', () => {
+    it('should serialize numbered cues with comma millisecond separator', () => {
+      const srt = generateSrt([
+        { startTime: 0, endTime: 1.5, text: 'first' },
+        { startTime: 3661.25, endTime: 3662, text: 'second' },
+      ]);
+
+      expect(srt).toBe(
+        '1\n00:00:00,000 --> 00:00:01,500\nfirst\n\n' +
+        '2\n01:01:01,250 --> 01:01:02,000\nsecond\n'
+      );
+    });
+  });
+
+  describe('generateWebVtt', () => {
+    it('should include the WEBVTT header and escape markup characters', () => {
+      const vtt = generateWebVtt([{ startTime: 0, endTime: 1, text: 'A & <B>' }]);
+
+      expect(vtt).toBe('WEBVTT\n\n1\n00:00:00.000 --> 00:00:01.000\nA &amp; &lt;B&gt;\n');
+    });
+  });
+});
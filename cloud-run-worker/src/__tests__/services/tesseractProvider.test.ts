@@ -0,0 +1,121 @@
+/**
+ * Unit Tests for Tesseract OCR Provider
+ *
+ * Tests TSV parsing, the CLI round trip (via a fake tesseract binary),
+ * and router registration in offline / last-resort mode.
+ */
+
+import { describe, it, expect, beforeEach, afterAll } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  parseTesseractTsv,
+  createTesseractProvider,
+} from '../../services/providers/tesseractProvider.js';
+import { OCRRouter } from '../../services/ocrRouter.js';
+
+const TSV_HEADER = 'level\tpage_num\tblock_num\tpar_num\tline_num\tword_num\tleft\ttop\twidth\theight\tconf\ttext';
+const word = (line: number, wordNum: number, conf: number, text: string) =>
+  `5\t1\t1\t1\t${line}\t${wordNum}\t0\t0\t10\t10\t${conf}\t${text}`;
+
+const SAMPLE_TSV = [
+  TSV_HEADER,
+  '1\t1\t0\t0\t0\t0\t0\t0\t640\t360\t-1\t',
+  word(1, 1, 90, '今日の'),
+  word(1, 2, 80, '天気'),
+  word(2, 1, 95, 'Sunny'),
+  word(2, 2, 85, 'day'),
+  word(3, 1, 12, '~#'),
+].join('\n');
+
+describe('Tesseract OCR Provider', () => {
+  const originalEnv = { ...process.env };
+  const fakeBinary = path.join(os.tmpdir(), `fake-tesseract-${process.pid}.sh`);
+  const fakeOutput = path.join(os.tmpdir(), `fake-tesseract-${process.pid}.tsv`);
+
+  // Fake CLI: lists jpn/eng packs, reads the image from stdin, prints SAMPLE_TSV
+  fs.writeFileSync(fakeOutput, SAMPLE_TSV);
+  fs.writeFileSync(fakeBinary, [
+    '#!/bin/sh',
+    'if [ "$1" = "--list-langs" ]; then',
+    '  echo "List of available languages (3):"; echo eng; echo jpn; echo osd; exit 0',
+    'fi',
+    'cat > /dev/null',
+    `cat "${fakeOutput}"`,
+  ].join('\n'), { mode: 0o755 });
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, TESSERACT_PATH: fakeBinary };
+    delete process.env.GEMINI_API_KEY;
+    delete process.env.MISTRAL_API_KEY;
+    delete process.env.GLM_API_KEY;
+    delete process.env.OCR_MODE;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+    fs.rmSync(fakeBinary, { force: true });
+    fs.rmSync(fakeOutput, { force: true });
+  });
+
+  describe('parseTesseractTsv', () => {
+    it('should join words per line and drop spaces between Japanese characters', () => {
+      const result = parseTesseractTsv(SAMPLE_TSV, 40);
+
+      expect(result.text).toBe('今日の天気\nSunny day');
+    });
+
+    it('should report the character-weighted mean word confidence', () => {
+      // (90*3 + 80*2 + 95*5 + 85*3) / 13 = 89.23
+      expect(parseTesseractTsv(SAMPLE_TSV, 40).confidence).toBe(0.892);
+    });
+
+    it('should return zero confidence when nothing is recognized', () => {
+      expect(parseTesseractTsv(TSV_HEADER)).toEqual({ text: '', confidence: 0 });
+    });
+  });
+
+  describe('createTesseractProvider', () => {
+    it('should skip creation when the binary is missing', () => {
+      process.env.TESSERACT_PATH = path.join(os.tmpdir(), 'no-such-tesseract');
+
+      expect(createTesseractProvider()).toBeNull();
+    });
+
+    it('should skip creation when a language pack is missing', () => {
+      expect(createTesseractProvider({ model: 'jpn+kor' })).toBeNull();
+    });
+
+    it('should run the CLI and return real confidence values', async () => {
+      process.env.TESSERACT_MIN_WORD_CONFIDENCE = '40';
+      const provider = createTesseractProvider()!;
+
+      const result = await provider.performOCR(Buffer.from('png'));
+
+      expect(result).toMatchObject({ text: '今日の天気\nSunny day', confidence: 0.892, provider: 'tesseract' });
+      expect(provider.isLastResort).toBe(true);
+    });
+  });
+
+  describe('OCRRouter registration', () => {
+    it('should use Tesseract as the only provider in offline mode', async () => {
+      process.env.OCR_MODE = 'offline';
+      const router = new OCRRouter();
+
+      const { results, stats } = await router.processParallel([{ id: 0, imageBuffer: Buffer.from('png') }]);
+
+      expect(Object.keys(router.getAllProviderStats())).toEqual(['tesseract']);
+      expect(results[0].provider).toBe('tesseract');
+      expect(stats.successCount).toBe(1);
+    });
+
+    it('should register Tesseract as a last resort when no cloud provider is configured', async () => {
+      const router = new OCRRouter();
+
+      const result = await router.processWithFallback(Buffer.from('png'));
+
+      expect(result.provider).toBe('tesseract');
+    });
+  });
+});
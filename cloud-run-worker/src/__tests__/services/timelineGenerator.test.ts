@@ -0,0 +1,120 @@
+/**
+ * Unit Tests for Timeline Generator Service
+ *
+ * Tests frame-accurate CMX3600 EDL and FCPXML generation from scene cuts.
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { generateEdl, generateFcpxml, SceneForTimeline } from '../../services/timeline-generator.js';
+
+describe('Timeline Generator Service', () => {
+  let originalConsoleLog: typeof console.log;
+
+  beforeEach(() => {
+    originalConsoleLog = console.log;
+    console.log = jest.fn() as typeof console.log;
+  });
+
+  afterEach(() => {
+    console.log = originalConsoleLog;
+  });
+
+  const scenes: SceneForTimeline[] = [
+    { sceneNumber: 1, startTime: 0, endTime: 2.5, ocrText: 'Opening\ntitle' },
+    { sceneNumber: 2, startTime: 2.5, endTime: 65.4, ocrText: '' },
+  ];
+
+  const options = {
+    title: 'Demo',
+    fps: 30,
+    sourceFileName: 'demo video.mp4',
+    width: 1920,
+    height: 1080,
+  };
+
+  describe('generateEdl', () => {
+    it('should emit CMX3600 events with frame-accurate timecodes', () => {
+      const edl = generateEdl(scenes, options);
+      const lines = edl.split('\n');
+
+      expect(lines[0]).toBe('TITLE: Demo');
+      expect(lines[1]).toBe('FCM: NON-DROP FRAME');
+      expect(lines).toContain('001  AX       V     C        00:00:00:00 00:00:02:15 00:00:00:00 00:00:02:15');
+      expect(lines).toContain('002  AX       V     C        00:00:02:15 00:01:05:12 00:00:02:15 00:01:05:12');
+      expect(lines).toContain('* FROM CLIP NAME: demo video.mp4');
+    });
+
+    it('should add OCR text as a single-line marker only when present', () => {
+      const edl = generateEdl(scenes, options);
+
+      expect(edl).toContain('* LOC: 00:00:00:00 YELLOW Opening title');
+      expect(edl.match(/\* LOC:/g)).toHaveLength(1);
+    });
+
+    it('should add one marker per translation language after the original', () => {
+      const edl = generateEdl([
+        { sceneNumber: 1, startTime: 0, endTime: 1, ocrText: '新商品', ocrTranslations: { en: 'New\nproduct', ko: '' } },
+        { sceneNumber: 2, startTime: 1, endTime: 2, ocrText: '', ocrTranslations: { en: 'Only translated' } },
+      ], options);
+
+      expect(edl).toContain('* LOC: 00:00:00:00 YELLOW 新商品\n* LOC: 00:00:00:00 YELLOW [EN] New product\n');
+      expect(edl).toContain('* LOC: 00:00:01:00 YELLOW [EN] Only translated');
+      expect(edl.match(/\* LOC:/g)).toHaveLength(3);
+    });
+
+    it('should count NTSC frame rates on the nominal timebase', () => {
+      const edl = generateEdl([{ sceneNumber: 1, startTime: 0, endTime: 1, ocrText: '' }], {
+        ...options,
+        fps: 30000 / 1001,
+      });
+
+      // 1s at 29.97fps = 30 frames (rounded) = 00:00:01:00 on a 30-frame timebase
+      expect(edl).toContain('00:00:00:00 00:00:01:00');
+    });
+
+    it('should use drop-frame timecode when requested', () => {
+      const edl = generateEdl([{ sceneNumber: 1, startTime: 0, endTime: 60.06, ocrText: '' }], {
+        ...options,
+        fps: 30000 / 1001,
+        dropFrame: true,
+      });
+
+      expect(edl).toContain('FCM: DROP FRAME');
+      expect(edl).toContain('00:00:00;00 00:01:00;02');
+    });
+  });
+
+  describe('generateFcpxml', () => {
+    it('should use rational NTSC frame durations', () => {
+      const xml = generateFcpxml(scenes, { ...options, fps: 30000 / 1001 });
+
+      expect(xml).toContain('frameDuration="1001/30000s"');
+      expect(xml).toContain('<asset-clip ref="r2" name="Scene 1" offset="0s" start="0s" duration="75075/30000s"');
+    });
+
+    it('should place clips back to back and escape marker text', () => {
+      const xml = generateFcpxml(
+        [
+          { sceneNumber: 1, startTime: 0, endTime: 1, ocrText: 'A & B' },
+          { sceneNumber: 2, startTime: 1, endTime: 3, ocrText: '' },
+        ],
+        { ...options, fps: 25 }
+      );
+
+      expect(xml).toContain('frameDuration="1/25s"');
+      expect(xml).toContain('name="Scene 2" offset="25/25s" start="25/25s" duration="50/25s"');
+      expect(xml).toContain('<marker start="0s" duration="1/25s" value="A &amp; B"/>');
+      expect(xml).toContain('<sequence format="r1" duration="75/25s"');
+    });
+
+    it('should add translated markers at the clip start', () => {
+      const xml = generateFcpxml(
+        [{ sceneNumber: 1, startTime: 0, endTime: 1, ocrText: 'Titre', ocrTranslations: { en: 'Title' } }],
+        { ...options, fps: 25 }
+      );
+
+      expect(xml).toContain('<marker start="0s" duration="1/25s" value="Titre"/>');
+      expect(xml).toContain('<marker start="0s" duration="1/25s" value="[EN] Title"/>');
+    });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Unit Tests for Topic Grouping Service
+ *
+ * Tests semantic grouping (OCR + narration similarity with group duration
+ * limits) using a stub embedding function or precomputed scene vectors, and
+ * its lexical fallback.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { groupScenesBySemantics, groupScenes, SceneForGrouping } from '../../services/topicGrouping.js';
+
+/** Stub embedding: one axis per keyword, so texts sharing a keyword are identical */
+const KEYWORDS = ['price', 'weather', 'sports'];
+const embed = async (texts: string[]): Promise<number[][]> =>
+  texts.map(text => KEYWORDS.map(keyword => (text.includes(keyword) ? 1 : 0)));
+
+function scene(sceneNumber: number, startTime: number, endTime: number, ocr: string, narration: string): SceneForGrouping {
+  return { sceneNumber, startTime, endTime, ocr, narration };
+}
+
+describe('Topic Grouping Service', () => {
+  describe('groupScenesBySemantics', () => {
+    it('should group scenes without on-screen text by their narration', async () => {
+      const scenes = [
+        scene(1, 0, 15, '', 'The price goes up'),
+        scene(2, 15, 30, '', 'A new price list'),
+        scene(3, 30, 45, '', 'Tomorrow the weather is fine'),
+      ];
+
+      const groups = await groupScenesBySemantics(scenes, { embed });
+
+      expect(groups.map(g => g.sceneNumbers)).toEqual([[1, 2], [3]]);
+      expect(groups[0]).toMatchObject({ groupNumber: 1, startTime: 0, endTime: 30, narration: 'The price goes up A new price list' });
+    });
+
+    it('should split a group before it exceeds the maximum duration', async () => {
+      const scenes = [1, 2, 3, 4].map(n => scene(n, (n - 1) * 100, n * 100, 'price table', 'price'));
+
+      const groups = await groupScenesBySemantics(scenes, { embed, maxGroupDuration: 300 });
+
+      expect(groups.map(g => g.sceneNumbers)).toEqual([[1, 2, 3], [4]]);
+    });
+
+    it('should merge a too-short group into its more similar neighbor', async () => {
+      const scenes = [
+        scene(1, 0, 30, 'price', 'price'),
+        scene(2, 30, 35, 'weather', 'weather'),
+        scene(3, 35, 60, 'weather sports', 'sports'),
+      ];
+
+      const groups = await groupScenesBySemantics(scenes, { embed, threshold: 0.9, minGroupDuration: 10 });
+
+      expect(groups.map(g => g.sceneNumbers)).toEqual([[1], [2, 3]]);
+      expect(groups[1].groupNumber).toBe(2);
+    });
+
+    it('should fall back to lexical similarity when embedding fails', async () => {
+      const scenes = [
+        scene(1, 0, 20, '', '新製品の価格について説明します'),
+        scene(2, 20, 40, '', '新製品の価格について説明します'),
+        scene(3, 40, 60, '', '明日の天気は晴れです'),
+      ];
+      const failingEmbed = async (): Promise<number[][]> => {
+        throw new Error('provider unavailable');
+      };
+
+      const groups = await groupScenesBySemantics(scenes, { embed: failingEmbed });
+
+      expect(groups.map(g => g.sceneNumbers)).toEqual([[1, 2], [3]]);
+    });
+
+    it('should fall back to lexical similarity when embedding returns too few vectors', async () => {
+      const scenes = [
+        scene(1, 0, 20, '', '新製品の価格について説明します'),
+        scene(2, 20, 40, '', '新製品の価格について説明します'),
+        scene(3, 40, 60, '', '明日の天気は晴れです'),
+      ];
+      const shortEmbed = async (texts: string[]): Promise<number[][]> => (await embed(texts)).slice(1);
+
+      const groups = await groupScenesBySemantics(scenes, { embed: shortEmbed });
+
+      expect(groups.map(g => g.sceneNumbers)).toEqual([[1, 2], [3]]);
+    });
+
+    it('should reuse scene vectors instead of embedding again', async () => {
+      const scenes = [
+        scene(1, 0, 15, '', 'first'),
+        scene(2, 15, 30, '', 'second'),
+        scene(3, 30, 45, '', 'third'),
+      ];
+      const sceneVectors = new Map([[1, [1, 0]], [2, [1, 0]], [3, [0, 1]]]);
+      let embedCalls = 0;
+      const countingEmbed = async (texts: string[]): Promise<number[][]> => {
+        embedCalls++;
+        return embed(texts);
+      };
+
+      const groups = await groupScenesBySemantics(scenes, { embed: countingEmbed, sceneVectors });
+
+      expect(embedCalls).toBe(0);
+      expect(groups.map(g => g.sceneNumbers)).toEqual([[1, 2], [3]]);
+    });
+  });
+
+  describe('groupScenes', () => {
+    it('should group by OCR similarity by default', async () => {
+      const scenes = [
+        scene(1, 0, 15, 'Agenda', 'price'),
+        scene(2, 15, 30, 'Agenda', 'weather'),
+        scene(3, 30, 45, '', 'weather'),
+      ];
+
+      const groups = await groupScenes(scenes);
+
+      expect(groups.map(g => g.sceneNumbers)).toEqual([[1, 2], [3]]);
+    });
+
+    it('should pass group duration limits to semantic grouping', async () => {
+      const scenes = [1, 2, 3, 4].map(n => scene(n, (n - 1) * 100, n * 100, 'price table', 'price'));
+
+      const groups = await groupScenes(scenes, 'semantic', undefined, { embed, maxGroupDuration: 200 });
+
+      expect(groups.map(g => g.sceneNumbers)).toEqual([[1, 2], [3, 4]]);
+    });
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Unit Tests for Transcription Providers
+ *
+ * Tests per-deployment provider selection and the shared rate-limited transcribe flow.
+ */
+
+import { describe, it, expect, jest, beforeEach, afterAll } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  TranscriptionProvider,
+  normalizeLanguageCode,
+  type TranscriptionRequestOptions,
+  type TranscriptionResponse,
+} from '../../services/transcriptionProviderInterface.js';
+import { createTranscriptionProvider, LocalWhisperProvider } from '../../services/transcriptionProviders/index.js';
+
+describe('Transcription Providers', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.TRANSCRIPTION_PROVIDER;
+    delete process.env.LOCAL_WHISPER_URL;
+    delete process.env.LOCAL_WHISPER_MODEL;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('createTranscriptionProvider', () => {
+    it('should create the local provider from LOCAL_WHISPER_URL', () => {
+      process.env.TRANSCRIPTION_PROVIDER = 'local';
+      process.env.LOCAL_WHISPER_URL = 'http://localhost:8000/v1';
+
+      const provider = createTranscriptionProvider();
+
+      expect(provider.name).toBe('local');
+      expect(provider.model).toBe('Systran/faster-whisper-large-v3');
+      expect(provider.costPerMinute).toBe(0);
+      expect(provider.enabled).toBe(true);
+    });
+
+    it('should create the OpenAI provider with whisper-1 pricing', () => {
+      process.env.OPENAI_API_KEY = 'sk-test';
+
+      const provider = createTranscriptionProvider('openai');
+
+      expect(provider.name).toBe('openai');
+      expect(provider.model).toBe('whisper-1');
+      expect(provider.costPerMinute).toBeGreaterThan(0);
+    });
+
+    it('should fail fast when the selected provider is not configured', () => {
+      delete process.env.OPENAI_API_KEY;
+
+      expect(() => createTranscriptionProvider('openai')).toThrow('OPENAI_API_KEY');
+      expect(() => createTranscriptionProvider('local')).toThrow('LOCAL_WHISPER_URL');
+      expect(() => createTranscriptionProvider('azure')).toThrow('Unknown TRANSCRIPTION_PROVIDER');
+    });
+  });
+
+  describe('LocalWhisperProvider', () => {
+    const originalFetch = global.fetch;
+    const audioPath = path.join(os.tmpdir(), `local-whisper-provider-${process.pid}.mp3`);
+    fs.writeFileSync(audioPath, Buffer.from('fake audio'));
+
+    afterAll(() => {
+      global.fetch = originalFetch;
+      fs.rmSync(audioPath, { force: true });
+    });
+
+    it('should post an OpenAI-compatible verbose_json request to the local endpoint', async () => {
+      const mockFetch = jest.fn(async (_url: string | URL | Request, _init?: RequestInit) =>
+        new Response(JSON.stringify({ text: 'こんにちは', segments: [{ start: 0, end: 1.5, text: 'こんにちは' }] }))
+      );
+      global.fetch = mockFetch as unknown as typeof fetch;
+
+      const provider = new LocalWhisperProvider('http://localhost:8000/v1/', { model: 'large-v3' });
+      const response = await provider.transcribe(audioPath, { language: 'ja' });
+
+      expect(response.segments).toHaveLength(1);
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe('http://localhost:8000/v1/audio/transcriptions');
+      const form = init?.body as FormData;
+      expect(form.get('model')).toBe('large-v3');
+      expect(form.get('language')).toBe('ja');
+      expect(form.get('response_format')).toBe('verbose_json');
+      expect((form.get('file') as File).name).toBe(path.basename(audioPath));
+    });
+
+    it('should omit the language field so the server detects it', async () => {
+      const mockFetch = jest.fn(async (_url: string | URL | Request, _init?: RequestInit) =>
+        new Response(JSON.stringify({ text: 'Hello', language: 'english' }))
+      );
+      global.fetch = mockFetch as unknown as typeof fetch;
+
+      const provider = new LocalWhisperProvider('http://localhost:8000/v1');
+      const response = await provider.transcribe(audioPath, {});
+
+      expect(response.language).toBe('english');
+      expect((mockFetch.mock.calls[0][1]?.body as FormData).has('language')).toBe(false);
+    });
+
+    it('should send the glossary prompt when given', async () => {
+      const mockFetch = jest.fn(async (_url: string | URL | Request, _init?: RequestInit) =>
+        new Response(JSON.stringify({ text: 'Video Handoff' }))
+      );
+      global.fetch = mockFetch as unknown as typeof fetch;
+
+      const provider = new LocalWhisperProvider('http://localhost:8000/v1');
+      await provider.transcribe(audioPath, { language: 'ja', prompt: 'Video Handoff、山田太郎' });
+
+      expect((mockFetch.mock.calls[0][1]?.body as FormData).get('prompt')).toBe('Video Handoff、山田太郎');
+    });
+
+    it('should surface HTTP status and error code in the error message', async () => {
+      const mockFetch = jest.fn(async (_url: string | URL | Request, _init?: RequestInit) => new Response(
+        JSON.stringify({ error: { code: 'invalid_file_format', message: 'Invalid file format' } }),
+        { status: 400, headers: { 'x-request-id': 'req_123' } }
+      ));
+      global.fetch = mockFetch as unknown as typeof fetch;
+
+      const provider = new LocalWhisperProvider('http://localhost:8000/v1');
+
+      await expect(provider.transcribe(audioPath, { language: 'ja' })).rejects.toMatchObject({
+        message: 'status=400 code=invalid_file_format Invalid file format request_id=req_123',
+        status: 400,
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(provider.getStats()).toMatchObject({ failedRequests: 1 });
+    });
+  });
+
+  describe('normalizeLanguageCode', () => {
+    it('should map Whisper language names and codes to ISO-639-1', () => {
+      expect(normalizeLanguageCode('japanese')).toBe('ja');
+      expect(normalizeLanguageCode('English')).toBe('en');
+      expect(normalizeLanguageCode('KO')).toBe('ko');
+      expect(normalizeLanguageCode('klingon')).toBeNull();
+      expect(normalizeLanguageCode(undefined)).toBeNull();
+    });
+  });
+
+  describe('TranscriptionProvider.transcribe', () => {
+    class FakeProvider extends TranscriptionProvider {
+      public calls: TranscriptionRequestOptions[] = [];
+      private failures: Error[];
+
+      constructor(failures: Error[] = []) {
+        super({ name: 'fake', maxParallel: 1, rateLimit: 600, enabled: true, model: 'fake-1', costPerMinute: 0 });
+        this.failures = failures;
+      }
+
+      protected async requestTranscription(file: File, options: TranscriptionRequestOptions): Promise<TranscriptionResponse> {
+        this.calls.push(options);
+        const failure = this.failures.shift();
+        if (failure) throw failure;
+        return { text: `${file.name} ok`, segments: [{ start: 0, end: 1, text: 'ok' }] };
+      }
+    }
+
+    const audioPath = path.join(os.tmpdir(), `transcription-provider-${process.pid}.mp3`);
+    fs.writeFileSync(audioPath, Buffer.from('fake audio'));
+
+    afterAll(() => {
+      fs.rmSync(audioPath, { force: true });
+    });
+
+    it('should pass the language and record stats', async () => {
+      const provider = new FakeProvider();
+
+      const response = await provider.transcribe(audioPath, { language: 'ja' });
+
+      expect(response.text).toBe(`${path.basename(audioPath)} ok`);
+      expect(provider.calls).toEqual([{ language: 'ja' }]);
+      expect(provider.getStats()).toMatchObject({ totalRequests: 1, successfulRequests: 1 });
+    });
+
+    it('should retry transient errors but not API key errors', async () => {
+      const transient = new FakeProvider([new Error('503 Service Unavailable')]);
+      await expect(transient.transcribe(audioPath, { language: 'ja' })).resolves.toBeDefined();
+      expect(transient.calls).toHaveLength(2);
+
+      const fatal = new FakeProvider([new Error('Incorrect API key provided')]);
+      await expect(fatal.transcribe(audioPath, { language: 'ja' })).rejects.toThrow('API key');
+      expect(fatal.calls).toHaveLength(1);
+      expect(fatal.getStats()).toMatchObject({ failedRequests: 1, lastError: 'Incorrect API key provided' });
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Unit Tests for Webhook Service
+ *
+ * Tests signing, delivery on completed / error transitions, retry scheduling and
+ * the final failed state and private endpoint rejection (in-memory mode, fetch mocked).
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import crypto from 'crypto';
+import {
+  MAX_DELIVERY_ATTEMPTS,
+  attemptDelivery,
+  listWebhookDeliveries,
+  notifyUploadFinished,
+  resetInMemoryWebhooks,
+  retryDueDeliveries,
+  setInMemoryWebhookEndpoint,
+  signWebhookPayload,
+} from '../../services/webhookService.js';
+import type { ProcessingStatus } from '../../types/shared.js';
+
+describe('Webhook Service', () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock<typeof fetch>;
+
+  const secret = 'whsec_test';
+
+  const completedStatus: ProcessingStatus = {
+    uploadId: 'upload_1',
+    userId: 'user_1',
+    status: 'completed',
+    progress: 100,
+    startedAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:05:00.000Z',
+    resultUrl: 'https://example.com/result.xlsx',
+    metadata: {
+      duration: 120,
+      segmentCount: 14,
+      ocrResultCount: 9,
+      transcriptionLength: 2048,
+      totalScenes: 9,
+      scenesWithNarration: 7,
+      warnings: ['Audio was silent for 40s'],
+      fileName: 'demo.mp4',
+    } as ProcessingStatus['metadata'],
+  };
+
+  beforeEach(() => {
+    delete process.env.USE_TURSO;
+    resetInMemoryWebhooks();
+    setInMemoryWebhookEndpoint({ userId: 'user_1', url: 'https://203.0.113.10/video', secret });
+    fetchMock = jest.fn<typeof fetch>();
+    global.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should sign the timestamp and body with HMAC-SHA256', () => {
+    const expected = crypto.createHmac('sha256', secret).update('1700000000.{"a":1}').digest('hex');
+    expect(signWebhookPayload(secret, '1700000000', '{"a":1}')).toBe(expected);
+  });
+
+  it('should POST a signed upload.completed event', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+
+    await notifyUploadFinished(completedStatus);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    const headers = init?.headers as Record<string, string>;
+    const body = init?.body as string;
+
+    expect(url).toBe('https://203.0.113.10/video');
+    expect(headers['X-Webhook-Event']).toBe('upload.completed');
+    expect(headers['X-Webhook-Signature']).toBe(
+      `v1=${signWebhookPayload(secret, headers['X-Webhook-Timestamp'], body)}`
+    );
+    expect(JSON.parse(body)).toMatchObject({
+      id: headers['X-Webhook-Id'],
+      event: 'upload.completed',
+      data: {
+        uploadId: 'upload_1',
+        fileName: 'demo.mp4',
+        status: 'completed',
+        counts: { durationSec: 120, totalScenes: 9, scenesWithNarration: 7, transcriptionSegments: 14 },
+        warnings: ['Audio was silent for 40s'],
+      },
+    });
+
+    const [delivery] = await listWebhookDeliveries('user_1');
+    expect(delivery).toMatchObject({ state: 'succeeded', attempts: 1, lastStatusCode: 204 });
+  });
+
+  it('should skip accounts without an endpoint and non-final statuses', async () => {
+    await notifyUploadFinished({ ...completedStatus, userId: 'user_2' });
+    await notifyUploadFinished({ ...completedStatus, status: 'processing' });
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(await listWebhookDeliveries('user_2')).toEqual([]);
+  });
+
+  it('should schedule a retry when the endpoint fails', async () => {
+    fetchMock.mockResolvedValue(new Response('oops', { status: 500 }));
+
+    await notifyUploadFinished({ ...completedStatus, status: 'error', error: 'Whisper failed' });
+
+    const [delivery] = await listWebhookDeliveries('user_1');
+    expect(delivery).toMatchObject({
+      event: 'upload.failed',
+      state: 'pending',
+      attempts: 1,
+      lastStatusCode: 500,
+    });
+    expect(JSON.parse(delivery.payload).data.error).toBe('Whisper failed');
+    expect(new Date(delivery.nextAttemptAt!).getTime()).toBeGreaterThan(Date.now());
+
+    // Not due yet
+    expect(await retryDueDeliveries()).toBe(0);
+  });
+
+  it('should not POST to an endpoint on a private address', async () => {
+    setInMemoryWebhookEndpoint({ userId: 'user_1', url: 'https://169.254.169.254/latest', secret });
+
+    await notifyUploadFinished(completedStatus);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    const [delivery] = await listWebhookDeliveries('user_1');
+    expect(delivery).toMatchObject({ state: 'pending', attempts: 1 });
+    expect(delivery.lastError).toContain('not allowed');
+  });
+
+  it('should mark the delivery failed after the last attempt', async () => {
+    fetchMock.mockRejectedValue(new Error('ECONNREFUSED'));
+
+    await notifyUploadFinished(completedStatus);
+    let [delivery] = await listWebhookDeliveries('user_1');
+    while (delivery.state === 'pending') {
+      delivery = await attemptDelivery(delivery);
+    }
+
+    expect(delivery).toMatchObject({ state: 'failed', attempts: MAX_DELIVERY_ATTEMPTS, lastError: 'ECONNREFUSED' });
+    expect(delivery.nextAttemptAt).toBeUndefined();
+    expect(fetchMock).toHaveBeenCalledTimes(MAX_DELIVERY_ATTEMPTS);
+  });
+});
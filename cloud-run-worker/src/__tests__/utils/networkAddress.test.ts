@@ -0,0 +1,53 @@
+/**
+ * Unit Tests for Network Address Utilities
+ *
+ * Tests the blocked address ranges and that fetchPublic refuses blocked hosts,
+ * given as IP literals or resolved in the connection's lookup (no network access).
+ */
+
+import { describe, it, expect, afterEach, jest } from '@jest/globals';
+import { fetchPublic, isBlockedAddress } from '../../utils/networkAddress.js';
+
+describe('Network Address Utilities', () => {
+  describe('isBlockedAddress', () => {
+    it('always blocks loopback, link-local and unspecified addresses', () => {
+      for (const address of ['127.0.0.1', '169.254.169.254', '0.0.0.0', '::1', '::', 'fe80::1', '::ffff:127.0.0.1']) {
+        expect(isBlockedAddress(address, true)).toBe(true);
+      }
+    });
+
+    it('blocks private ranges unless they are allowed', () => {
+      for (const address of ['10.0.0.5', '172.16.1.1', '192.168.0.10', '100.64.0.1', 'fd00::1']) {
+        expect(isBlockedAddress(address, false)).toBe(true);
+        expect(isBlockedAddress(address, true)).toBe(false);
+      }
+    });
+
+    it('allows public addresses', () => {
+      expect(isBlockedAddress('203.0.113.10', false)).toBe(false);
+      expect(isBlockedAddress('172.32.0.1', false)).toBe(false);
+      expect(isBlockedAddress('2001:db8::1', false)).toBe(false);
+    });
+  });
+
+  describe('fetchPublic', () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    it('rejects blocked IP literals without connecting', async () => {
+      const fetchMock = jest.fn<typeof fetch>();
+      global.fetch = fetchMock;
+
+      await expect(fetchPublic('http://169.254.169.254/latest', {})).rejects.toThrow('Host is not allowed');
+      await expect(fetchPublic('http://[::1]/', {})).rejects.toThrow('Host is not allowed');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('rejects hostnames that resolve to a blocked address when connecting', async () => {
+      await expect(fetchPublic('http://localhost:8099/', {})).rejects.toThrow('Host is not allowed: localhost');
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Unit Tests for Timecode Utilities
+ *
+ * Tests SMPTE frame timecode formatting/parsing (including drop-frame)
+ * and the per-upload timecode style formatter.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  parseFrameRate,
+  isDropFrameRate,
+  formatFrameTimecode,
+  parseFrameTimecode,
+  formatSmpteTimecode,
+  parseSmpteTimecode,
+  createTimecodeFormatter,
+} from '../../utils/timecode.js';
+
+const NTSC_30 = 30000 / 1001;
+const NTSC_60 = 60000 / 1001;
+
+describe('Timecode Utilities', () => {
+  describe('parseFrameRate', () => {
+    it('should parse rational and decimal ffprobe rates', () => {
+      expect(parseFrameRate('30000/1001')).toBeCloseTo(29.97, 2);
+      expect(parseFrameRate('25/1')).toBe(25);
+      expect(parseFrameRate('24')).toBe(24);
+    });
+
+    it('should return null for missing or invalid rates', () => {
+      expect(parseFrameRate(undefined)).toBeNull();
+      expect(parseFrameRate('0/0')).toBeNull();
+    });
+  });
+
+  describe('isDropFrameRate', () => {
+    it('should detect 29.97 and 59.94 only', () => {
+      expect(isDropFrameRate(NTSC_30)).toBe(true);
+      expect(isDropFrameRate(NTSC_60)).toBe(true);
+      expect(isDropFrameRate(24000 / 1001)).toBe(false);
+      expect(isDropFrameRate(30)).toBe(false);
+    });
+  });
+
+  describe('formatFrameTimecode / parseFrameTimecode', () => {
+    it('should round-trip non-drop-frame timecode', () => {
+      expect(formatFrameTimecode(1962, 30)).toBe('00:01:05:12');
+      expect(parseFrameTimecode('00:01:05:12', 30)).toBe(1962);
+    });
+
+    it('should skip frame numbers 0-1 at each minute except every tenth (29.97 DF)', () => {
+      expect(formatFrameTimecode(1799, NTSC_30, true)).toBe('00:00:59;29');
+      expect(formatFrameTimecode(1800, NTSC_30, true)).toBe('00:01:00;02');
+      expect(formatFrameTimecode(17982, NTSC_30, true)).toBe('00:10:00;00');
+    });
+
+    it('should skip four frame numbers per minute at 59.94 DF', () => {
+      expect(formatFrameTimecode(3599, NTSC_60, true)).toBe('00:00:59;59');
+      expect(formatFrameTimecode(3600, NTSC_60, true)).toBe('00:01:00;04');
+    });
+
+    it('should round-trip drop-frame timecode', () => {
+      for (const frames of [0, 1800, 17982, 107892, 123456]) {
+        expect(parseFrameTimecode(formatFrameTimecode(frames, NTSC_30, true), NTSC_30)).toBe(frames);
+      }
+    });
+
+    it('should reject malformed or out-of-range timecode', () => {
+      expect(() => parseFrameTimecode('00:01:05', 30)).toThrow('Invalid timecode format');
+      expect(() => parseFrameTimecode('00:00:00:30', 30)).toThrow('Invalid timecode value');
+    });
+  });
+
+  describe('formatSmpteTimecode / parseSmpteTimecode', () => {
+    it('should distinguish cuts less than a second apart', () => {
+      expect(formatSmpteTimecode(5.0, 25)).toBe('00:00:05:00');
+      expect(formatSmpteTimecode(5.4, 25)).toBe('00:00:05:10');
+    });
+
+    it('should use drop-frame notation automatically for 29.97 video', () => {
+      expect(formatSmpteTimecode(60.06, NTSC_30)).toBe('00:01:00;02');
+    });
+
+    it('should convert timecode back to seconds', () => {
+      expect(parseSmpteTimecode('00:00:05:12', 30)).toBeCloseTo(5.4, 5);
+    });
+  });
+
+  describe('createTimecodeFormatter', () => {
+    it('should return HH:MM:SS or SMPTE formatter by style', () => {
+      expect(createTimecodeFormatter('hms', 25)(65.5)).toBe('00:01:05');
+      expect(createTimecodeFormatter('smpte', 25)(65.4)).toBe('00:01:05:10');
+    });
+  });
+});
@@ -2,75 +2,150 @@ import express, { Request, Response } from 'express';
 import dotenv from 'dotenv';
 import fs from 'fs';
 import path from 'path';
-import { processVideo } from './services/videoProcessor.js';
-import { getStatus, updateStatus } from './services/statusManager.js';
-import { cleanupExpiredCheckpoints } from './services/checkpointService.js';
+import { getStatus, initStatus, updateStatus } from './services/statusManager.js';
+import { ACTIVE_JOB_STATES, enqueueJob, finishJob, getJob, markJobInterrupted } from './services/jobQueue.js';
+import { startJobRecovery, stopJobRecovery } from './services/jobRecovery.js';
+import { cancelUpload, startCancellationWatcher, stopCancellationWatcher } from './services/cancellation.js';
+import { startWebhookRetries, stopWebhookRetries } from './services/webhookService.js';
+import { subscribeToStatus, toStatusSnapshot } from './services/statusEvents.js';
+import { dispatchJobs, notifyJobEnqueued, reportQueuePosition, startJobDispatcher, stopJobDispatcher } from './services/jobDispatcher.js';
+import { cleanupExpiredCheckpoints, loadCheckpoint, prepareCheckpointForRerun, RERUNNABLE_STEPS } from './services/checkpointService.js';
+import { deleteFromR2 } from './services/r2Client.js';
 import { emergencySaveOcrProgress, markCheckpointInterrupted } from './services/emergencyCheckpoint.js';
+import { EXPORT_CONTENT_TYPES, exportFileType } from './types/export.js';
+import { isExportFormat } from './services/export-generator.js';
+import { parseProcessingOptions } from './utils/processingOptions.js';
+import { regenerateResult } from './services/result-editor.js';
+import { indexUploadForSearch } from './services/searchIndex.js';
+import { askVideo, indexSceneEmbeddings, searchScenesSemantic, MAX_SEMANTIC_QUERY_LENGTH } from './services/semanticIndex.js';
+import type { ProcessingStatus, RerunStep } from './types/shared.js';
 
 dotenv.config();
 
-// Track currently processing upload for graceful shutdown
+// Track uploads being processed on this instance for graceful shutdown
 // Version: 2026-02-11-v2 - Emergency checkpoint + improved retry
-let currentProcessingUploadId: string | null = null;
+const activeProcessingUploads = new Set<string>();
 export let isShuttingDown = false;
 
 /**
- * Set the currently processing upload ID (called by videoProcessor)
+ * Add or remove an upload from the set being processed (called by videoProcessor)
  */
-export function setCurrentProcessingUpload(uploadId: string | null): void {
-  currentProcessingUploadId = uploadId;
+export function trackProcessingUpload(uploadId: string, active: boolean): void {
+  if (active) {
+    activeProcessingUploads.add(uploadId);
+  } else {
+    activeProcessingUploads.delete(uploadId);
+  }
 }
 
 /**
- * Graceful shutdown handler - updates status for interrupted jobs
+ * Delete the source video of an upload that failed during shutdown
+ * processVideo() keeps the source while shutting down (a resumed run needs it),
+ * so uploads that will not be resumed delete it here. A source retained by the
+ * checkpoint for reruns is deleted with the checkpoint instead.
  */
-async function handleShutdown(signal: string): Promise<void> {
-  if (isShuttingDown) {
-    console.log(`[Shutdown] Already shutting down, ignoring ${signal}`);
-    return;
-  }
-  isShuttingDown = true;
+async function deleteUnresumedSource(uploadId: string): Promise<void> {
+  try {
+    const job = await getJob(uploadId);
+    if (!job) return;
 
-  console.log(`[Shutdown] Received ${signal}, starting graceful shutdown...`);
+    const checkpoint = await loadCheckpoint(uploadId, { ignoreBuildCommit: true });
+    if (checkpoint?.intermediateVideoPath === job.r2Key) {
+      console.log(`[${uploadId}] [Shutdown] Source video retained by checkpoint for reruns`);
+      return;
+    }
 
-  if (currentProcessingUploadId) {
-    const uploadId = currentProcessingUploadId;
-    console.log(`[${uploadId}] [Shutdown] Saving checkpoint and marking job as interrupted due to ${signal}`);
+    await deleteFromR2(job.r2Key);
+    console.log(`[${uploadId}] [Shutdown] Source video deleted (job will not be resumed)`);
+  } catch (err) {
+    console.error(`[${uploadId}] [Shutdown] Failed to delete source video:`, err);
+  }
+}
 
-    // CRITICAL: Save in-progress OCR state before shutdown
-    // This allows Cloud Tasks to resume from the last saved checkpoint
-    try {
-      console.log(`[${uploadId}] [Shutdown] Emergency saving OCR progress...`);
-      const ocrSaved = await emergencySaveOcrProgress();
-      if (ocrSaved) {
-        console.log(`[${uploadId}] [Shutdown] OCR progress saved successfully`);
-      }
+/**
+ * Save checkpoint state of an interrupted upload so the recovery routine resumes it
+ * Falls back to failing the upload (and deleting its source video) when no
+ * checkpoint could be flagged.
+ */
+async function interruptUpload(uploadId: string, signal: string): Promise<void> {
+  console.log(`[${uploadId}] [Shutdown] Saving checkpoint and marking job as interrupted due to ${signal}`);
+
+  let resumable = false;
 
-      // Mark checkpoint as interrupted (increment retry count)
-      await markCheckpointInterrupted(uploadId);
-      console.log(`[${uploadId}] [Shutdown] Checkpoint marked as interrupted`);
-    } catch (checkpointErr) {
-      console.error(`[${uploadId}] [Shutdown] Failed to save checkpoint:`, checkpointErr);
+  // CRITICAL: Save in-progress OCR state before shutdown
+  // This allows the recovery routine to resume from the last saved checkpoint
+  try {
+    console.log(`[${uploadId}] [Shutdown] Emergency saving OCR progress...`);
+    const ocrSaved = await emergencySaveOcrProgress(uploadId);
+    if (ocrSaved) {
+      console.log(`[${uploadId}] [Shutdown] OCR progress saved successfully`);
     }
 
-    // Mark as error — no automatic retry without Cloud Tasks
-    const errorMessage = 'Processing was interrupted. Please try uploading again.';
-    const errorCode = 'SERVER_SHUTDOWN';
+    // Job before checkpoint: recovery only re-queues jobs in the interrupted state
+    await markJobInterrupted(uploadId);
 
-    try {
+    // Mark checkpoint as interrupted (increment retry count)
+    resumable = await markCheckpointInterrupted(uploadId);
+    console.log(`[${uploadId}] [Shutdown] Checkpoint marked as interrupted`);
+  } catch (checkpointErr) {
+    console.error(`[${uploadId}] [Shutdown] Failed to save checkpoint:`, checkpointErr);
+  }
+
+  const interruptedAt = new Date().toISOString();
+
+  try {
+    if (resumable) {
+      await updateStatus(uploadId, {
+        status: 'resuming',
+        metadata: {
+          subTask: 'Interrupted by a server restart, resuming shortly',
+          signal,
+          interruptedAt,
+        },
+      });
+      console.log(`[${uploadId}] [Shutdown] Status set to resuming`);
+    } else {
+      const errorCode = 'SERVER_SHUTDOWN';
       await updateStatus(uploadId, {
         status: 'error',
-        error: errorMessage,
+        error: 'Processing was interrupted. Please try uploading again.',
         metadata: {
           errorCode,
           signal,
-          interruptedAt: new Date().toISOString(),
-        } as any,
+          interruptedAt,
+        },
       });
+      await finishJob(uploadId, 'failed');
       console.log(`[${uploadId}] [Shutdown] Status set to error: ${errorCode}`);
-    } catch (err) {
-      console.error(`[${uploadId}] [Shutdown] Failed to update status:`, err);
     }
+  } catch (err) {
+    console.error(`[${uploadId}] [Shutdown] Failed to update status:`, err);
+  }
+
+  if (!resumable) {
+    await deleteUnresumedSource(uploadId);
+  }
+}
+
+/**
+ * Graceful shutdown handler - updates status for interrupted jobs
+ * Jobs still waiting in the queue stay queued for another instance.
+ */
+async function handleShutdown(signal: string): Promise<void> {
+  if (isShuttingDown) {
+    console.log(`[Shutdown] Already shutting down, ignoring ${signal}`);
+    return;
+  }
+  isShuttingDown = true;
+
+  console.log(`[Shutdown] Received ${signal}, starting graceful shutdown...`);
+  stopJobDispatcher();
+  stopJobRecovery();
+  stopCancellationWatcher();
+  stopWebhookRetries();
+
+  if (activeProcessingUploads.size > 0) {
+    await Promise.all([...activeProcessingUploads].map(uploadId => interruptUpload(uploadId, signal)));
   } else {
     console.log('[Shutdown] No active job to mark as interrupted');
   }
@@ -93,24 +168,33 @@ process.on('SIGBUS', () => handleShutdown('SIGBUS'));
 process.on('uncaughtException', async (error) => {
   console.error('[UncaughtException]', error);
 
-  if (currentProcessingUploadId && !isShuttingDown) {
+  if (activeProcessingUploads.size > 0 && !isShuttingDown) {
     isShuttingDown = true;
-    const uploadId = currentProcessingUploadId;
-    console.log(`[${uploadId}] [UncaughtException] Marking job as failed`);
+    stopJobDispatcher();
+    stopJobRecovery();
+    stopCancellationWatcher();
+    stopWebhookRetries();
+
+    await Promise.all([...activeProcessingUploads].map(async (uploadId) => {
+      console.log(`[${uploadId}] [UncaughtException] Marking job as failed`);
+
+      try {
+        await updateStatus(uploadId, {
+          status: 'error',
+          error: 'An unexpected error occurred during processing. Please try uploading again.',
+          metadata: {
+            errorCode: 'UNCAUGHT_EXCEPTION',
+            errorMessage: error.message,
+            interruptedAt: new Date().toISOString(),
+          },
+        });
+        await finishJob(uploadId, 'failed');
+      } catch (err) {
+        console.error(`[${uploadId}] [UncaughtException] Failed to update status:`, err);
+      }
 
-    try {
-      await updateStatus(uploadId, {
-        status: 'error',
-        error: 'An unexpected error occurred during processing. Please try uploading again.',
-        metadata: {
-          errorCode: 'UNCAUGHT_EXCEPTION',
-          errorMessage: error.message,
-          interruptedAt: new Date().toISOString(),
-        } as any,
-      });
-    } catch (err) {
-      console.error(`[${uploadId}] [UncaughtException] Failed to update status:`, err);
-    }
+      await deleteUnresumedSource(uploadId);
+    }));
   }
 
   process.exit(1);
@@ -121,6 +205,9 @@ const port = process.env.PORT || 8080;
 
 const workerSecret = process.env.WORKER_SECRET;
 
+// Statuses after which an upload has no work left
+const TERMINAL_STATUSES: ProcessingStatus['status'][] = ['completed', 'error', 'cancelled'];
+
 // In-memory storage for result file paths (development only)
 export const resultFileMap = new Map<string, string>();
 
@@ -250,11 +337,11 @@ app.get('/diag/ffprobe-test', async (req: Request, res: Response) => {
   }
 });
 
-// Process video endpoint - Direct processing with keep-alive pattern
-// Returns 202 immediately, then processes video while keeping connection open.
-// The open connection prevents Cloud Run from terminating the instance.
+// Process video endpoint - enqueues the upload and returns 202 with its queue position.
+// The job dispatcher runs queued jobs in plan priority / FIFO order (see services/jobDispatcher.ts).
 app.post('/process', validateAuth, async (req: Request, res: Response): Promise<void> => {
-  const { uploadId, r2Key, fileName, userId, dataConsent } = req.body;
+  const { uploadId, r2Key, fileName, userId, dataConsent, planType, sourceUrl } = req.body;
+  const options = parseProcessingOptions(req.body.options);
 
   // Security: Validate required fields including userId for IDOR protection
   if (!uploadId || !r2Key || !userId) {
@@ -265,64 +352,201 @@ app.post('/process', validateAuth, async (req: Request, res: Response): Promise<
     return;
   }
 
-  // Duplicate lock: another worker (or earlier retry) may already be processing this uploadId.
-  // Vercel's /api/process pre-inserts a row with current_step='Initiating...' BEFORE forwarding here,
-  // so a row's mere existence does NOT mean a worker has started — we must look at `stage`.
-  // Only block when stage has progressed past the Vercel initiation marker.
+  // Import from URL: the host is validated again (DNS included) when the job runs
+  if (sourceUrl !== undefined && (typeof sourceUrl !== 'string' || !/^https?:\/\//i.test(sourceUrl))) {
+    res.status(400).json({
+      error: 'Invalid request',
+      message: 'sourceUrl must be an http or https URL'
+    });
+    return;
+  }
+
   try {
-    const existing = await getStatus(uploadId);
-    const stageStr = existing?.stage as string | undefined;
-    const workerAlreadyStarted = !!existing && !!stageStr && stageStr !== 'Initiating...';
-    if (workerAlreadyStarted) {
-      console.log(`[${uploadId}] Duplicate /process ignored (worker already at stage=${stageStr})`);
+    // Duplicate lock: a failover retry (or another region) may already have enqueued this uploadId.
+    // The queue row is the lock — it is only replaced once the previous job has finished.
+    const enqueued = await enqueueJob({
+      uploadId,
+      r2Key,
+      fileName,
+      userId,
+      dataConsent: dataConsent || false,
+      options,
+      planType: typeof planType === 'string' ? planType : 'free',
+      sourceUrl,
+    });
+
+    if (!enqueued.enqueued) {
+      console.log(`[${uploadId}] Duplicate /process ignored (job already ${enqueued.state})`);
+      const existing = await getStatus(uploadId).catch(() => null);
       res.status(202).json({
         success: true,
         uploadId,
-        message: `Upload already in progress (stage=${stageStr})`,
-        status: existing.status,
+        message: `Upload already ${enqueued.state}`,
+        status: existing?.status ?? 'processing',
         duplicate: true,
       });
       return;
     }
-    // Claim ownership: bump stage so a near-simultaneous failover request sees us as the active worker.
-    // Best-effort — if this fails we still proceed (processVideo will set stage anyway).
-    await updateStatus(uploadId, { stage: 'downloading' }).catch((err) => {
-      console.warn(`[${uploadId}] Failed to mark worker started:`, err);
+
+    console.log(`[${uploadId}] Video queued for processing`, {
+      fileName,
+      userId,
+      r2Key,
+      planType,
+      sourceUrl,
+      options,
+      queuePosition: enqueued.queuePosition,
+    });
+
+    // Best-effort: the dispatcher re-reports positions whenever the queue moves
+    try {
+      await initStatus(uploadId, userId);
+      await reportQueuePosition(uploadId, enqueued.queuePosition);
+    } catch (err) {
+      console.warn(`[${uploadId}] Failed to report queue position:`, err);
+    }
+
+    res.status(202).json({
+      success: true,
+      uploadId,
+      message: 'Video queued for processing',
+      status: 'queued',
+      queuePosition: enqueued.queuePosition,
+    });
+
+    notifyJobEnqueued().catch((err) => console.error(`[${uploadId}] Dispatch after enqueue failed:`, err));
+  } catch (error) {
+    console.error(`[${uploadId}] Failed to enqueue job:`, error);
+    res.status(500).json({
+      error: 'Enqueue failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
     });
-  } catch (err) {
-    console.warn(`[${uploadId}] Duplicate-lock check failed, proceeding anyway:`, err);
   }
+});
 
-  console.log(`[${uploadId}] Starting video processing`, {
-    fileName,
-    userId,
-    r2Key,
-  });
+// Re-run a completed upload from a single pipeline stage (queued and kept open like /process)
+// Everything upstream of `fromStep` is reused from the retained checkpoint.
+app.post('/rerun', validateAuth, async (req: Request, res: Response): Promise<void> => {
+  const { uploadId, userId, fromStep, fileName } = req.body;
+  const optionsOverride = parseProcessingOptions(req.body.options);
 
-  // Send 202 Accepted immediately via chunked response.
-  // Keep the connection open (don't call res.end()) so Cloud Run
-  // sees an active request and keeps the instance alive.
-  res.writeHead(202, {
-    'Content-Type': 'application/json',
-    'Transfer-Encoding': 'chunked',
-  });
-  res.write(JSON.stringify({
-    success: true,
-    uploadId,
-    message: 'Video processing started',
-    status: 'processing',
-  }));
+  // Security: Validate required fields including userId for IDOR protection
+  if (!uploadId || !userId || !fileName) {
+    res.status(400).json({
+      error: 'Invalid request',
+      message: 'Missing uploadId, userId, or fileName'
+    });
+    return;
+  }
+
+  if (!RERUNNABLE_STEPS.includes(fromStep as RerunStep)) {
+    res.status(400).json({
+      error: 'Invalid request',
+      message: `fromStep must be one of: ${RERUNNABLE_STEPS.join(', ')}`
+    });
+    return;
+  }
+
+  try {
+    // The checkpoint must not be reset under a job that is queued, running or waiting to resume
+    const previousJob = await getJob(uploadId);
+    if (previousJob && ACTIVE_JOB_STATES.includes(previousJob.state)) {
+      res.status(409).json({ error: `Upload is already ${previousJob.state}` });
+      return;
+    }
+    const existing = await getStatus(uploadId);
+    if (existing && !TERMINAL_STATUSES.includes(existing.status)) {
+      res.status(409).json({ error: `Upload is currently ${existing.status}` });
+      return;
+    }
+
+    const prepared = await prepareCheckpointForRerun(uploadId, userId, fromStep, optionsOverride);
+    if (!prepared.ok) {
+      res.status(prepared.status).json({ error: prepared.error });
+      return;
+    }
+
+    // intermediateVideoPath is the retained source video; the rerun keeps the upload's plan priority
+    const enqueued = await enqueueJob({
+      uploadId,
+      r2Key: prepared.checkpoint.intermediateVideoPath!,
+      fileName,
+      userId,
+      dataConsent: false,
+      options: prepared.checkpoint.processingOptions ?? {},
+      planType: previousJob?.planType ?? 'free',
+      rerunFrom: fromStep,
+    });
+
+    if (!enqueued.enqueued) {
+      res.status(409).json({ error: `Upload is already ${enqueued.state}` });
+      return;
+    }
+
+    // Report the queue position before responding so status polling never sees the previous result
+    await reportQueuePosition(uploadId, enqueued.queuePosition).catch((err) => {
+      console.warn(`[${uploadId}] Failed to report queue position:`, err);
+    });
+
+    console.log(`[${uploadId}] Rerun from ${fromStep} queued`, {
+      fileName,
+      userId,
+      options: prepared.checkpoint.processingOptions,
+      queuePosition: enqueued.queuePosition,
+    });
+
+    res.status(202).json({
+      success: true,
+      uploadId,
+      fromStep,
+      message: 'Rerun queued',
+      status: 'queued',
+      queuePosition: enqueued.queuePosition,
+    });
+
+    notifyJobEnqueued().catch((err) => console.error(`[${uploadId}] Dispatch after rerun enqueue failed:`, err));
+  } catch (error) {
+    console.error(`[${uploadId}] Rerun request failed:`, error);
+    res.status(500).json({
+      error: 'Rerun failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Cancel a queued or running upload (the owner's request, forwarded by the Next.js app)
+// Queued jobs are cancelled immediately (200); running jobs stop within a few seconds (202)
+app.post('/cancel', validateAuth, async (req: Request, res: Response): Promise<void> => {
+  const { uploadId, userId } = req.body;
+
+  // Security: Validate required fields including userId for IDOR protection
+  if (!uploadId || !userId) {
+    res.status(400).json({
+      error: 'Invalid request',
+      message: 'Missing uploadId or userId'
+    });
+    return;
+  }
 
   try {
-    // Process video — can take up to 60 minutes
-    await processVideo(uploadId, r2Key, fileName, userId, dataConsent || false);
-    console.log(`[${uploadId}] Processing completed successfully`);
+    const result = await cancelUpload(uploadId, userId);
+    if (!result.ok) {
+      res.status(result.status).json({ error: result.error });
+      return;
+    }
+
+    console.log(`[${uploadId}] Cancellation requested by user ${userId} (${result.status})`);
+    res.status(result.status === 'cancelled' ? 200 : 202).json({
+      success: true,
+      uploadId,
+      status: result.status,
+    });
   } catch (error) {
-    // processVideo handles its own error status updates via failStatus()
-    console.error(`[${uploadId}] Processing failed:`, error);
-  } finally {
-    // Close the connection (regardless of success/failure)
-    try { res.end(); } catch { /* connection may already be closed */ }
+    console.error(`[${uploadId}] Cancel request failed:`, error);
+    res.status(500).json({
+      error: 'Cancel failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
   }
 });
 
@@ -347,12 +571,146 @@ app.get('/status/:uploadId', validateAuth, async (req: Request, res: Response):
   }
 });
 
+// Stream status changes as Server-Sent Events (proxied by the Next.js app's /api/status/[uploadId]/stream)
+// Events: `status` (full status snapshot on every change), `warning` ({ message }); ends after a terminal status
+// Uploads processed by another instance produce no local events, so their stored status is
+// re-read every STATUS_STREAM_POLL_MS; for uploads processed here it is re-read (and a keepalive
+// sent) after STATUS_STREAM_SYNC_MS without events
+const STATUS_STREAM_SYNC_MS = parseInt(process.env.STATUS_STREAM_SYNC_MS || '15000', 10);
+const STATUS_STREAM_POLL_MS = parseInt(process.env.STATUS_STREAM_POLL_MS || '2000', 10);
+
+app.get('/status/:uploadId/stream', validateAuth, async (req: Request, res: Response): Promise<void> => {
+  const { uploadId } = req.params;
+  const userId = typeof req.query.userId === 'string' ? req.query.userId : undefined;
+
+  // Security: userId is required, only the owner can stream an upload (IDOR protection)
+  if (!userId) {
+    res.status(400).json({
+      error: 'Invalid request',
+      message: 'Missing userId'
+    });
+    return;
+  }
+
+  let snapshot: ProcessingStatus;
+  try {
+    const status = await getStatus(uploadId);
+    if (!status || status.userId !== userId) {
+      res.status(404).json({ error: 'Upload not found' });
+      return;
+    }
+    snapshot = toStatusSnapshot(status);
+  } catch (error) {
+    console.error(`[${uploadId}] [Status stream] Error:`, error);
+    res.status(500).json({
+      error: 'Server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+
+  let lastEventAt = Date.now();
+  let lastWriteAt = Date.now();
+
+  const send = (event: 'status' | 'warning', data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    lastWriteAt = Date.now();
+  };
+
+  send('status', snapshot);
+  if (TERMINAL_STATUSES.includes(snapshot.status)) {
+    res.end();
+    return;
+  }
+
+  let closed = false;
+  let syncing = false;
+
+  const unsubscribe = subscribeToStatus(uploadId, (event) => {
+    lastEventAt = Date.now();
+
+    if (event.type === 'warning') {
+      send('warning', { message: event.message });
+      return;
+    }
+
+    snapshot = event.type === 'status'
+      ? toStatusSnapshot(event.status)
+      : { ...snapshot, ...event.update, updatedAt: new Date().toISOString() };
+    send('status', snapshot);
+    if (TERMINAL_STATUSES.includes(snapshot.status)) close();
+  });
+
+  const syncTimer = setInterval(async () => {
+    if (syncing) return;
+    const processedHere = activeProcessingUploads.has(uploadId);
+
+    if (!processedHere || Date.now() - lastEventAt >= STATUS_STREAM_SYNC_MS) {
+      syncing = true;
+      const stored = await getStatus(uploadId).catch(() => null);
+      syncing = false;
+      lastEventAt = Date.now();
+      if (closed) return;
+      if (stored && stored.updatedAt !== snapshot.updatedAt) {
+        snapshot = toStatusSnapshot(stored);
+        send('status', snapshot);
+        if (TERMINAL_STATUSES.includes(snapshot.status)) close();
+        return;
+      }
+    }
+
+    // Comment line keeps proxies from closing an idle connection
+    if (!closed && Date.now() - lastWriteAt >= STATUS_STREAM_SYNC_MS) {
+      res.write(': keepalive\n\n');
+      lastWriteAt = Date.now();
+    }
+  }, Math.min(STATUS_STREAM_POLL_MS, STATUS_STREAM_SYNC_MS));
+
+  function close(): void {
+    if (closed) return;
+    closed = true;
+    unsubscribe();
+    clearInterval(syncTimer);
+    res.end();
+  }
+
+  req.on('close', close);
+});
+
 // Download result endpoint (development mode)
 app.get('/result/:uploadId', validateAuth, async (req: Request, res: Response): Promise<void> => {
   try {
     const { uploadId } = req.params;
+    const format = typeof req.query.format === 'string' ? req.query.format : 'xlsx';
+
+    console.log(`[${uploadId}] Result download requested (format: ${format})`);
+
+    // Export files (SRT/VTT, per-language tracks, ...) are stored next to the Excel file
+    if (format !== 'xlsx') {
+      if (!isExportFormat(format)) {
+        res.status(400).json({ error: `Unsupported format: ${format}` });
+        return;
+      }
+
+      const exportPath = path.join('/tmp', `result_${uploadId}.${format}`);
+      if (!fs.existsSync(exportPath)) {
+        console.error(`[${uploadId}] Export file not found on disk: ${exportPath}`);
+        res.status(404).json({ error: 'Result not found' });
+        return;
+      }
 
-    console.log(`[${uploadId}] Result download requested`);
+      res.setHeader('Content-Type', `${EXPORT_CONTENT_TYPES[exportFileType(format)]}; charset=utf-8`);
+      res.setHeader('Content-Disposition', `attachment; filename="${path.basename(exportPath)}"`);
+      fs.createReadStream(exportPath).pipe(res);
+      return;
+    }
 
     // Try to get file path from memory map first
     let filePath = resultFileMap.get(uploadId);
@@ -407,6 +765,127 @@ app.get('/result/:uploadId', validateAuth, async (req: Request, res: Response):
   }
 });
 
+// Scene screenshot endpoint (development mode, used by the scene review editor)
+app.get('/result/:uploadId/screenshots/:file', validateAuth, async (req: Request, res: Response): Promise<void> => {
+  const { uploadId, file } = req.params;
+
+  // Security: only plain scene_NNNN.png names (no path traversal)
+  if (!/^scene_\d+\.png$/.test(file)) {
+    res.status(400).json({ error: 'Invalid screenshot name' });
+    return;
+  }
+
+  const screenshotPath = path.join('/tmp', `result_${uploadId}_frames`, file);
+  if (!fs.existsSync(screenshotPath)) {
+    res.status(404).json({ error: 'Screenshot not found' });
+    return;
+  }
+
+  res.setHeader('Content-Type', 'image/png');
+  fs.createReadStream(screenshotPath).pipe(res);
+});
+
+// Regenerate Excel, JSON and the other exports from scenes corrected in the scene review editor
+// Runs synchronously: no OCR or transcription, only file generation.
+app.post('/result/:uploadId/scenes', validateAuth, async (req: Request, res: Response): Promise<void> => {
+  const { uploadId } = req.params;
+  const { userId, scenes } = req.body;
+
+  // Security: userId is required for R2 key ownership
+  if (!userId || !Array.isArray(scenes)) {
+    res.status(400).json({
+      error: 'Invalid request',
+      message: 'Missing userId or scenes'
+    });
+    return;
+  }
+
+  try {
+    const result = await regenerateResult(uploadId, userId, scenes);
+    if (!result.ok) {
+      res.status(result.status).json({ error: result.error });
+      return;
+    }
+
+    // Search results and answers should use the corrected text
+    await indexUploadForSearch(uploadId, userId, result.document);
+    await indexSceneEmbeddings(uploadId, userId, result.document.fileName, result.document.scenes);
+
+    res.json({
+      success: true,
+      uploadId,
+      editedAt: result.document.editedAt,
+      stats: result.document.stats,
+      exportR2Keys: result.exportR2Keys,
+    });
+  } catch (error) {
+    console.error(`[${uploadId}] Result regeneration failed:`, error);
+    res.status(500).json({
+      error: 'Regeneration failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Semantic scene search across a user's uploads (or within one upload)
+app.post('/search/semantic', validateAuth, async (req: Request, res: Response): Promise<void> => {
+  const { userId, query, uploadId, limit } = req.body;
+
+  // Security: userId is required, results are scoped to it
+  if (!userId || typeof query !== 'string' || query.trim() === '' || query.length > MAX_SEMANTIC_QUERY_LENGTH) {
+    res.status(400).json({
+      error: 'Invalid request',
+      message: `Missing userId or query (query must be at most ${MAX_SEMANTIC_QUERY_LENGTH} characters)`
+    });
+    return;
+  }
+
+  try {
+    const results = await searchScenesSemantic(userId, query.trim(), {
+      uploadId: typeof uploadId === 'string' && uploadId ? uploadId : undefined,
+      limit: typeof limit === 'number' ? limit : undefined,
+    });
+    res.json({ results });
+  } catch (error) {
+    console.error('Semantic search failed:', error);
+    res.status(500).json({
+      error: 'Semantic search failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// "Ask the video": answer a question from the upload's most relevant scenes
+app.post('/result/:uploadId/ask', validateAuth, async (req: Request, res: Response): Promise<void> => {
+  const { uploadId } = req.params;
+  const { userId, question } = req.body;
+
+  // Security: userId is required, only the owner's scenes are retrieved
+  if (!userId || typeof question !== 'string' || question.trim() === '' || question.length > MAX_SEMANTIC_QUERY_LENGTH) {
+    res.status(400).json({
+      error: 'Invalid request',
+      message: `Missing userId or question (question must be at most ${MAX_SEMANTIC_QUERY_LENGTH} characters)`
+    });
+    return;
+  }
+
+  try {
+    const result = await askVideo(uploadId, userId, question.trim());
+    if (!result) {
+      res.status(404).json({ error: 'No indexed scenes for this upload' });
+      return;
+    }
+
+    res.json({ uploadId, ...result });
+  } catch (error) {
+    console.error(`[${uploadId}] Ask failed:`, error);
+    res.status(500).json({
+      error: 'Ask failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // Cron endpoint for cleaning up expired checkpoints
 // This should be called daily by Cloud Scheduler
 app.post('/cron/cleanup-checkpoints', validateAuth, async (req: Request, res: Response): Promise<void> => {
@@ -459,4 +938,11 @@ app.use((err: Error, req: Request, res: Response, next: Function) => {
 app.listen(port, () => {
   console.log(`[Cloud Run Worker] Server running on port ${port}`);
   console.log(`[Cloud Run Worker] NODE_ENV: ${process.env.NODE_ENV}`);
+  startJobDispatcher();
+  startCancellationWatcher();
+  startWebhookRetries();
+  // Interrupted jobs are re-queued, then dispatched like any other job
+  startJobRecovery(() => {
+    dispatchJobs().catch((err) => console.error('[JobRecovery] Dispatch after recovery failed:', err));
+  });
 });
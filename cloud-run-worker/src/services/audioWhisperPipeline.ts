@@ -1,18 +1,22 @@
 import path from 'path';
 import fs from 'fs';
-import OpenAI from 'openai';
 import pLimit from 'p-limit';
 import { processAudioWithVAD, extractAudioChunk, cleanupVADFiles, type AudioChunk, type VADResult, type VoiceSegment } from './vadService.js';
 import { splitAudioIntoChunks, cleanupPreChunks, getAudioMetadata, type AudioFileChunk } from './audioExtractor.js';
-import type { TranscriptionSegment } from '../types/shared.js';
+import type { TranscriptionSegment, TranscriptionLanguage } from '../types/shared.js';
 import { getVADConfig, WHISPER_COST, DEFAULT_PRE_CHUNK_CONFIG } from '../config/vad.js';
 import {
   saveCheckpoint,
   addCompletedAudioChunks,
+  updateCheckpoint,
   WHISPER_CHECKPOINT_INTERVAL,
   type ProcessingCheckpoint,
 } from './checkpointService.js';
-import { getWhisperRateLimiter, isRetryableError } from './rateLimiter.js';
+import { getTranscriptionProvider } from './transcriptionProviders/index.js';
+import { normalizeLanguageCode, type TranscriptionResponse } from './transcriptionProviderInterface.js';
+import { DEFAULT_TRANSCRIPTION_LANGUAGE } from '../utils/processingOptions.js';
+import { throwIfCancelled } from './cancellation.js';
+import { loadGlossary, buildWhisperPrompt } from './glossary.js';
 
 /**
  * VAD + Whisper Integration Pipeline
@@ -29,19 +33,9 @@ import { getWhisperRateLimiter, isRetryableError } from './rateLimiter.js';
  * - Better accuracy with 10-second chunks
  */
 
-// Validate API key at module initialization
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-
-if (!OPENAI_API_KEY || OPENAI_API_KEY.trim() === '') {
-  throw new Error(
-    'OPENAI_API_KEY environment variable is not set. ' +
-    'Please configure it in .env file or environment variables.'
-  );
-}
-
-const openai = new OpenAI({
-  apiKey: OPENAI_API_KEY,
-});
+// Validate the deployment's transcription provider at module initialization
+// (TRANSCRIPTION_PROVIDER=openai needs OPENAI_API_KEY, =local needs LOCAL_WHISPER_URL)
+getTranscriptionProvider();
 
 export interface PipelineResult {
   /** Transcription segments with timestamps */
@@ -60,6 +54,19 @@ export interface PipelineResult {
     totalAudioProcessed: number;  // Seconds
     estimatedCost: number;  // USD
   };
+  /** ISO-639-1 code used for transcription (undefined if no chunk was transcribed) */
+  language?: string;
+  /** True when `language` was detected from the first voiced chunk ('auto') */
+  languageDetected?: boolean;
+}
+
+/**
+ * Result of transcribing all chunks
+ */
+interface ChunkTranscriptionResult {
+  segments: TranscriptionSegment[];
+  language?: string;
+  languageDetected: boolean;
 }
 
 /**
@@ -68,8 +75,11 @@ export interface PipelineResult {
  * @param audioPath - Path to full audio file (16kHz mono MP3)
  * @param uploadId - Upload ID for logging
  * @param checkpoint - Optional checkpoint for resumable processing
+ * @param language - Spoken language, or 'auto' to detect from the first voiced chunk (default: 'ja')
  * @returns Transcription segments with VAD statistics
  *
+ * The account glossary (checkpoint.userId) is sent to Whisper as the prompt.
+ *
  * @example
  * ```typescript
  * const result = await processAudioWithVADAndWhisper(
@@ -83,13 +93,17 @@ export interface PipelineResult {
 export async function processAudioWithVADAndWhisper(
   audioPath: string,
   uploadId: string,
-  checkpoint?: ProcessingCheckpoint
+  checkpoint?: ProcessingCheckpoint,
+  language: TranscriptionLanguage = DEFAULT_TRANSCRIPTION_LANGUAGE
 ): Promise<PipelineResult> {
   console.log(`[${uploadId}] Starting VAD + Whisper pipeline`);
 
   const chunksDir = path.join(path.dirname(audioPath), 'vad-chunks');
 
   try {
+    // Preferred spellings from the account glossary as the Whisper prompt
+    const prompt = checkpoint?.userId ? buildWhisperPrompt(await loadGlossary(checkpoint.userId)) : undefined;
+
     // 1. VAD processing
     const vadResult = await runVADDetection(audioPath, chunksDir, uploadId);
 
@@ -127,7 +141,7 @@ export async function processAudioWithVADAndWhisper(
       await extractAllAudioChunks(audioPath, fallbackChunks);
 
       // Process fallback chunks with Whisper
-      const segments = await transcribeChunksWithWhisper(fallbackChunks, uploadId);
+      const transcription = await transcribeChunksWithWhisper(fallbackChunks, uploadId, 5, undefined, language, prompt);
 
       // Calculate statistics (fallback mode)
       const stats = calculateFallbackStatistics(
@@ -139,8 +153,10 @@ export async function processAudioWithVADAndWhisper(
       logFallbackCompletion(uploadId, stats);
 
       return {
-        segments,
+        segments: transcription.segments,
         ...stats,
+        language: transcription.language,
+        languageDetected: transcription.languageDetected,
       };
     }
 
@@ -149,11 +165,13 @@ export async function processAudioWithVADAndWhisper(
     await extractAllAudioChunks(audioPath, vadResult.audioChunks);
 
     // 3. Transcribe chunks with Whisper (with checkpoint support)
-    const segments = await transcribeChunksWithWhisper(
+    const transcription = await transcribeChunksWithWhisper(
       vadResult.audioChunks,
       uploadId,
       5, // concurrency
-      checkpoint
+      checkpoint,
+      language,
+      prompt
     );
 
     // 4. Calculate statistics
@@ -163,8 +181,10 @@ export async function processAudioWithVADAndWhisper(
     logPipelineCompletion(uploadId, stats);
 
     return {
-      segments,
+      segments: transcription.segments,
       ...stats,
+      language: transcription.language,
+      languageDetected: transcription.languageDetected,
     };
 
   } finally {
@@ -437,18 +457,27 @@ function deduplicateChunks(chunks: AudioChunk[], threshold: number): AudioChunk[
  * Uses pLimit to control concurrency and process multiple chunks simultaneously.
  * Default concurrency: 5 parallel Whisper API calls
  *
+ * With language 'auto', the first remaining chunk is transcribed alone without a
+ * language hint; the detected language is then reused for all other chunks
+ * (falls back to 'ja' if detection fails). It is stored in the checkpoint so a
+ * resumed run transcribes the remaining chunks in the same language.
+ *
  * @param chunks - Audio chunks from VAD
  * @param uploadId - Upload ID for logging
  * @param concurrency - Number of parallel Whisper API calls (default: 5)
  * @param checkpoint - Optional checkpoint for resumable processing
- * @returns Transcription segments with absolute timestamps (sorted by time)
+ * @param language - Spoken language or 'auto' (default: 'ja')
+ * @param prompt - Whisper prompt (glossary terms, see buildWhisperPrompt)
+ * @returns Transcription segments with absolute timestamps (sorted by time) and the language used
  */
 async function transcribeChunksWithWhisper(
   chunks: AudioChunk[],
   uploadId: string,
   concurrency: number = 5,
-  checkpoint?: ProcessingCheckpoint
-): Promise<TranscriptionSegment[]> {
+  checkpoint?: ProcessingCheckpoint,
+  language: TranscriptionLanguage = DEFAULT_TRANSCRIPTION_LANGUAGE,
+  prompt?: string
+): Promise<ChunkTranscriptionResult> {
   // Check for already completed chunks from checkpoint
   const completedChunkIndices = new Set(checkpoint?.completedAudioChunks || []);
   const cachedSegments = checkpoint?.transcriptionSegments || [];
@@ -476,39 +505,83 @@ async function transcribeChunksWithWhisper(
   const newSegments: TranscriptionSegment[] = [];
   const newCompletedIndices: number[] = [];
 
+  /**
+   * Record a transcribed chunk: progress log, absolute timestamps, periodic checkpoint
+   */
+  const recordChunk = async (chunk: AudioChunk, chunkSegments: TranscriptionSegment[]): Promise<TranscriptionSegment[]> => {
+    completedChunks++;
+    const percent = ((completedChunks / totalChunks) * 100).toFixed(0);
+    const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+    console.log(`[${uploadId}]   Completed chunk ${chunk.chunkIndex + 1}/${totalChunks} (${percent}% in ${elapsed}s)`);
+
+    // Return segments with adjusted timestamps
+    const adjustedSegments = chunkSegments.map(segment => ({
+      ...segment,
+      timestamp: chunk.startTime + segment.timestamp,  // Add chunk offset
+      chunkIndex: chunk.chunkIndex,
+    }));
+
+    // Track for checkpoint
+    newSegments.push(...adjustedSegments);
+    newCompletedIndices.push(chunk.chunkIndex);
+
+    // Save checkpoint every WHISPER_CHECKPOINT_INTERVAL chunks
+    if (checkpoint && newCompletedIndices.length > 0 && newCompletedIndices.length % WHISPER_CHECKPOINT_INTERVAL === 0) {
+      try {
+        await addCompletedAudioChunks(uploadId, newCompletedIndices, newSegments);
+        console.log(`[${uploadId}] 💾 Checkpoint saved: ${completedChunks}/${totalChunks} chunks`);
+      } catch (err) {
+        console.warn(`[${uploadId}] ⚠️ Failed to save checkpoint: ${err}`);
+      }
+    }
+
+    return adjustedSegments;
+  };
+
+  // Resolve the transcription language ('auto' = detect from the first voiced chunk,
+  // or reuse the language a previous run detected so resumed chunks match)
+  const savedLanguage = language === 'auto' ? checkpoint?.transcriptionLanguage : undefined;
+  let resolvedLanguage: string | undefined = language === 'auto' ? savedLanguage : language;
+  let languageDetected = savedLanguage !== undefined;
+  let remainingChunks = chunksToProcess;
+  const detectionResults: TranscriptionSegment[][] = [];
+
+  if (savedLanguage) {
+    console.log(`[${uploadId}] 🌐 Reusing detected language from checkpoint: ${savedLanguage}`);
+  } else if (language === 'auto' && chunksToProcess.length > 0) {
+    const [firstChunk, ...rest] = chunksToProcess;
+    const detection = await detectChunkLanguage(firstChunk, uploadId, prompt);
+
+    if (detection.language) {
+      resolvedLanguage = detection.language;
+      languageDetected = true;
+      console.log(`[${uploadId}] 🌐 Detected language: ${resolvedLanguage} (chunk ${firstChunk.chunkIndex})`);
+    } else {
+      resolvedLanguage = DEFAULT_TRANSCRIPTION_LANGUAGE;
+      console.warn(`[${uploadId}] ⚠️ Language detection failed, falling back to '${DEFAULT_TRANSCRIPTION_LANGUAGE}'`);
+    }
+
+    if (checkpoint) {
+      // Keep the caller's copy in sync (it is saved again after transcription)
+      checkpoint.transcriptionLanguage = resolvedLanguage;
+      try {
+        await updateCheckpoint(uploadId, { transcriptionLanguage: resolvedLanguage });
+      } catch (err) {
+        console.warn(`[${uploadId}] ⚠️ Failed to save detected language to checkpoint: ${err}`);
+      }
+    }
+
+    detectionResults.push(await recordChunk(firstChunk, detection.segments));
+    remainingChunks = rest;
+  }
+
   // Process remaining chunks in parallel with concurrency limit
+  // (a cancelled upload stops before its next chunk; chunks in flight finish)
   const chunkResults = await Promise.all(
-    chunksToProcess.map(chunk =>
+    remainingChunks.map(chunk =>
       limit(async () => {
-        const chunkSegments = await transcribeAudioChunk(chunk, uploadId);
-
-        completedChunks++;
-        const percent = ((completedChunks / totalChunks) * 100).toFixed(0);
-        const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
-        console.log(`[${uploadId}]   Completed chunk ${chunk.chunkIndex + 1}/${totalChunks} (${percent}% in ${elapsed}s)`);
-
-        // Return segments with adjusted timestamps
-        const adjustedSegments = chunkSegments.map(segment => ({
-          ...segment,
-          timestamp: chunk.startTime + segment.timestamp,  // Add chunk offset
-          chunkIndex: chunk.chunkIndex,
-        }));
-
-        // Track for checkpoint
-        newSegments.push(...adjustedSegments);
-        newCompletedIndices.push(chunk.chunkIndex);
-
-        // Save checkpoint every WHISPER_CHECKPOINT_INTERVAL chunks
-        if (checkpoint && newCompletedIndices.length > 0 && newCompletedIndices.length % WHISPER_CHECKPOINT_INTERVAL === 0) {
-          try {
-            await addCompletedAudioChunks(uploadId, newCompletedIndices, newSegments);
-            console.log(`[${uploadId}] 💾 Checkpoint saved: ${completedChunks}/${totalChunks} chunks`);
-          } catch (err) {
-            console.warn(`[${uploadId}] ⚠️ Failed to save checkpoint: ${err}`);
-          }
-        }
-
-        return adjustedSegments;
+        throwIfCancelled(uploadId);
+        return recordChunk(chunk, await transcribeAudioChunk(chunk, uploadId, resolvedLanguage, prompt));
       })
     )
   );
@@ -524,13 +597,13 @@ async function transcribeChunksWithWhisper(
   }
 
   // Combine cached segments with new results
-  const allNewSegments = chunkResults.flat();
+  const allNewSegments = [...detectionResults, ...chunkResults].flat();
   const allSegments = [...cachedSegments, ...allNewSegments].sort((a, b) => a.timestamp - b.timestamp);
 
   const totalDuration = ((Date.now() - startTime) / 1000).toFixed(1);
   console.log(`[${uploadId}] ✓ Whisper parallel processing complete: ${allSegments.length} segments in ${totalDuration}s`);
 
-  return allSegments;
+  return { segments: allSegments, language: resolvedLanguage, languageDetected };
 }
 
 /**
@@ -545,7 +618,7 @@ function calculatePipelineStatistics(
   totalWhisperCalls: number
 ): { vadStats: PipelineResult['vadStats'], whisperStats: PipelineResult['whisperStats'] } {
   const totalAudioProcessed = vadResult.totalVoiceDuration;
-  const estimatedCost = (totalAudioProcessed / 60) * WHISPER_COST.PER_MINUTE;
+  const estimatedCost = (totalAudioProcessed / 60) * getTranscriptionProvider().costPerMinute;
 
   return {
     vadStats: {
@@ -604,30 +677,6 @@ function logPipelineCompletion(
   console.log(`[${uploadId}]   Savings: ${stats.vadStats.estimatedSavings.toFixed(1)}%`);
 }
 
-/**
- * Whisper API response format (verbose JSON)
- */
-interface WhisperVerboseResponse {
-  text: string;
-  segments?: Array<{
-    start: number;
-    end: number;
-    text: string;
-    confidence?: number;
-  }>;
-}
-
-/**
- * Whisper API request parameters
- */
-interface WhisperRequestParams {
-  file: File;
-  model: 'whisper-1';
-  language: string;
-  response_format: 'verbose_json';
-  temperature: number;
-}
-
 /**
  * Validate that the chunk file exists
  *
@@ -654,119 +703,15 @@ function getFileSizeSync(filePath: string): number {
   }
 }
 
-/**
- * Prepare Whisper API request parameters
- *
- * @param chunk - Audio chunk metadata
- * @returns Whisper API request parameters
- */
-function prepareWhisperRequest(chunk: AudioChunk): WhisperRequestParams {
-  const audioBuffer = fs.readFileSync(chunk.filePath);
-  const file = new File([audioBuffer], path.basename(chunk.filePath), { type: 'audio/mpeg' });
-
-  return {
-    file,
-    model: 'whisper-1' as const,
-    language: 'ja',  // Japanese
-    response_format: 'verbose_json' as const,
-    temperature: 0,
-  };
-}
-
-/**
- * Call Whisper API for transcription
- *
- * @param params - Whisper API request parameters
- * @returns Whisper API response
- */
-async function callWhisperAPI(
-  params: WhisperRequestParams
-): Promise<WhisperVerboseResponse> {
-  try {
-    const response: unknown = await (openai.audio.transcriptions.create as Function)(params);
-    return response as WhisperVerboseResponse;
-  } catch (error) {
-    // Extract detailed error info from OpenAI SDK errors
-    const details = extractOpenAIErrorDetails(error);
-    if (details) {
-      throw new Error(details);
-    }
-    throw error;
-  }
-}
-
-/**
- * Extract detailed error information from OpenAI SDK errors
- *
- * OpenAI SDK wraps errors into typed classes (APIError, APIConnectionError, etc.)
- * with status, code, type, cause, and request_id fields. This function extracts
- * all available information for better debugging.
- */
-function extractOpenAIErrorDetails(error: unknown): string | null {
-  if (!error || typeof error !== 'object') return null;
-
-  const err = error as Record<string, any>;
-  const parts: string[] = [];
-
-  // Error class name (e.g., APIConnectionError, RateLimitError)
-  const className = err.constructor?.name;
-  if (className && className !== 'Error') {
-    parts.push(`[${className}]`);
-  }
-
-  // HTTP status code
-  if (err.status !== undefined) {
-    parts.push(`status=${err.status}`);
-  }
-
-  // Error code from OpenAI (e.g., "insufficient_quota", "invalid_api_key")
-  if (err.code) {
-    parts.push(`code=${err.code}`);
-  }
-
-  // Error type (e.g., "invalid_request_error", "server_error")
-  if (err.type) {
-    parts.push(`type=${err.type}`);
-  }
-
-  // Request ID for OpenAI support
-  if (err.request_id) {
-    parts.push(`request_id=${err.request_id}`);
-  }
-
-  // Original message
-  if (err.message) {
-    parts.push(String(err.message));
-  }
-
-  // Cause chain (APIConnectionError stores the original error in cause)
-  if (err.cause) {
-    const cause = err.cause as Record<string, any>;
-    const causeInfo: string[] = [];
-    if (cause.code) causeInfo.push(`code=${cause.code}`);
-    if (cause.syscall) causeInfo.push(`syscall=${cause.syscall}`);
-    if (cause.hostname) causeInfo.push(`host=${cause.hostname}`);
-    if (cause.port) causeInfo.push(`port=${cause.port}`);
-    if (cause.message && cause.message !== err.message) {
-      causeInfo.push(String(cause.message));
-    }
-    if (causeInfo.length > 0) {
-      parts.push(`cause: {${causeInfo.join(', ')}}`);
-    }
-  }
-
-  return parts.length > 0 ? parts.join(' ') : null;
-}
-
 /**
  * Parse Whisper API response into transcription segments
  *
- * @param responseData - Whisper API response
+ * @param responseData - Transcription provider response
  * @param chunk - Audio chunk metadata
  * @returns Transcription segments (relative to chunk start)
  */
 function parseWhisperResponse(
-  responseData: WhisperVerboseResponse,
+  responseData: TranscriptionResponse,
   chunk: AudioChunk
 ): TranscriptionSegment[] {
   const segments: TranscriptionSegment[] = [];
@@ -795,55 +740,67 @@ function parseWhisperResponse(
 }
 
 /**
- * Determine if a Whisper API error should trigger a retry
+ * Transcribe a single audio chunk with Whisper (rate-limited with retry)
+ *
+ * Uses the deployment's transcription provider, whose rate limiter handles
+ * concurrency control, sliding window rate limiting, and exponential backoff with jitter.
  *
- * @param error - Error object
- * @returns True if should retry, false for fatal errors
+ * @param chunk - Audio chunk metadata
+ * @param uploadId - Upload ID for logging
+ * @param language - ISO-639-1 code (omitted = detected by the provider)
+ * @param prompt - Whisper prompt (optional)
+ * @returns Transcription segments (relative to chunk start)
  */
-function shouldRetry(error: Error): boolean {
-  const errorMessage = error.message;
-  // Fatal errors: API key issues, invalid requests
-  return !(errorMessage.includes('API key') || errorMessage.includes('Invalid'));
+async function transcribeAudioChunk(
+  chunk: AudioChunk,
+  uploadId: string,
+  language?: string,
+  prompt?: string
+): Promise<TranscriptionSegment[]> {
+  return (await requestChunkTranscription(chunk, uploadId, language, prompt)).segments;
 }
 
 /**
- * Transcribe a single audio chunk with Whisper (rate-limited with retry)
+ * Transcribe a chunk without a language hint and report the detected language
  *
- * Uses the Whisper rate limiter singleton for concurrency control,
- * sliding window rate limiting, and exponential backoff with jitter.
+ * @param chunk - First voiced audio chunk
+ * @param uploadId - Upload ID for logging
+ * @param prompt - Whisper prompt (optional)
+ * @returns Segments (relative to chunk start) and the ISO-639-1 code, or null if undetected
+ */
+async function detectChunkLanguage(
+  chunk: AudioChunk,
+  uploadId: string,
+  prompt?: string
+): Promise<{ segments: TranscriptionSegment[]; language: string | null }> {
+  const { segments, response } = await requestChunkTranscription(chunk, uploadId, undefined, prompt);
+  return { segments, language: normalizeLanguageCode(response?.language) };
+}
+
+/**
+ * Send a chunk to the transcription provider (failures yield no segments)
  *
  * @param chunk - Audio chunk metadata
  * @param uploadId - Upload ID for logging
- * @returns Transcription segments (relative to chunk start)
+ * @param language - ISO-639-1 code (omitted = detected by the provider)
+ * @param prompt - Whisper prompt (optional)
+ * @returns Parsed segments and the raw provider response (null on failure)
  */
-async function transcribeAudioChunk(
+async function requestChunkTranscription(
   chunk: AudioChunk,
-  uploadId: string
-): Promise<TranscriptionSegment[]> {
+  uploadId: string,
+  language?: string,
+  prompt?: string
+): Promise<{ segments: TranscriptionSegment[]; response: TranscriptionResponse | null }> {
   // 1. Validate chunk file exists (no retry for missing files)
   if (!validateChunkFile(chunk, uploadId)) {
-    return [];
+    return { segments: [], response: null };
   }
 
   try {
-    const rateLimiter = getWhisperRateLimiter();
-
-    const responseData = await rateLimiter.executeWithRetry(
-      async () => {
-        const params = prepareWhisperRequest(chunk);
-        return await callWhisperAPI(params);
-      },
-      (error) => {
-        const err = error as Error;
-        // Don't retry fatal errors (API key issues, invalid requests)
-        if (!shouldRetry(err)) {
-          return false;
-        }
-        return isRetryableError(error);
-      }
-    );
+    const responseData = await getTranscriptionProvider().transcribe(chunk.filePath, { language, prompt });
 
-    return parseWhisperResponse(responseData, chunk);
+    return { segments: parseWhisperResponse(responseData, chunk), response: responseData };
   } catch (error) {
     const err = error as Error;
     console.error(`[${uploadId}] Whisper API failed for chunk ${chunk.chunkIndex} after all retries: ${err.message}`);
@@ -851,7 +808,7 @@ async function transcribeAudioChunk(
     if (chunk.chunkIndex === 0 || chunk.chunkIndex % 50 === 0) {
       console.error(`[${uploadId}] [WhisperDiag] chunk=${chunk.chunkIndex} file=${chunk.filePath} size=${getFileSizeSync(chunk.filePath)} error_type=${err.constructor?.name} stack=${err.stack?.split('\n').slice(0, 3).join(' | ')}`);
     }
-    return [];
+    return { segments: [], response: null };
   }
 }
 
@@ -919,7 +876,7 @@ function calculateFallbackStatistics(
   totalWhisperCalls: number,
   totalAudioProcessed: number
 ): { vadStats: PipelineResult['vadStats'], whisperStats: PipelineResult['whisperStats'] } {
-  const estimatedCost = (totalAudioProcessed / 60) * WHISPER_COST.PER_MINUTE;
+  const estimatedCost = (totalAudioProcessed / 60) * getTranscriptionProvider().costPerMinute;
 
   return {
     vadStats: {
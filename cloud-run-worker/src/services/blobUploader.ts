@@ -1,5 +1,8 @@
 import fs from 'fs';
+import path from 'path';
+import pLimit from 'p-limit';
 import { uploadToR2, generateResultKey } from './r2Client.js';
+import { EXPORT_CONTENT_TYPES, exportFileType, type ExportFormat } from '../types/export.js';
 
 /**
  * Upload result file (Excel) to R2 storage
@@ -58,3 +61,56 @@ export const uploadResultFile = async (
     return `results/${userId}/${uploadId}/${uploadId}_analysis.xlsx`;
   }
 };
+
+/**
+ * Upload an export file (SRT, WebVTT, ...) to R2 next to the Excel result
+ *
+ * @param filePath - Path to the export file
+ * @param format - Export format (determines file extension and content type)
+ * @param uploadId - Upload ID for logging and key generation
+ * @param userId - User ID for key generation (optional, defaults to 'system')
+ * @returns R2 key of the uploaded file
+ */
+export const uploadExportFile = async (
+  filePath: string,
+  format: ExportFormat,
+  uploadId: string,
+  userId: string = 'system'
+): Promise<string> => {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  const r2Key = generateResultKey(userId, uploadId, `${uploadId}_analysis.${format}`);
+  await uploadToR2(r2Key, fs.readFileSync(filePath), EXPORT_CONTENT_TYPES[exportFileType(format)]);
+
+  console.log(`[${uploadId}] ${format.toUpperCase()} export uploaded to R2: ${r2Key}`);
+
+  return r2Key;
+};
+
+/**
+ * Upload persisted scene screenshots to R2 (used by the scene review editor)
+ *
+ * @param screenshotsDir - Directory containing scene_NNNN.png files
+ * @param uploadId - Upload ID for logging and key generation
+ * @param userId - User ID for key generation (optional, defaults to 'system')
+ * @returns R2 key prefix of the uploaded screenshots (results/{userId}/{uploadId}/frames/)
+ */
+export const uploadScreenshots = async (
+  screenshotsDir: string,
+  uploadId: string,
+  userId: string = 'system'
+): Promise<string> => {
+  const prefix = generateResultKey(userId, uploadId, 'frames/');
+  const files = fs.readdirSync(screenshotsDir).filter(file => file.endsWith('.png'));
+  const limit = pLimit(8);
+
+  await Promise.all(files.map(file => limit(() =>
+    uploadToR2(`${prefix}${file}`, fs.readFileSync(path.join(screenshotsDir, file)), 'image/png')
+  )));
+
+  console.log(`[${uploadId}] ${files.length} scene screenshots uploaded to R2: ${prefix}`);
+
+  return prefix;
+};
@@ -0,0 +1,180 @@
+/**
+ * Job Cancellation
+ *
+ * User-initiated cancellation of an upload. processVideo registers an
+ * AbortController per upload it runs; the Whisper chunk loop and OCR batches
+ * check it between units of work, and the PySceneDetect child is killed through
+ * the AbortSignal. processVideo then records the 'cancelled' status and cleans up.
+ *
+ * A cancel request can reach a different instance than the one running the job,
+ * so it is recorded on the processing_jobs row (see jobQueue.ts) and every
+ * instance polls for requests against the uploads it runs.
+ */
+
+import { cancelStatus, getStatus } from './statusManager.js';
+import { listCancellationRequests, requestJobCancellation } from './jobQueue.js';
+
+// ============================================================
+// Types & Configuration
+// ============================================================
+
+/** Error message of the abort reason (processVideo checks isCancelled, not the message) */
+export const CANCELLED_MESSAGE = 'Processing was cancelled';
+
+const DEFAULT_CANCELLATION_POLL_INTERVAL_MS = 5000;
+
+/**
+ * Result of a cancel request (same shape as RerunPreparation: HTTP status on failure)
+ */
+export type CancelUploadResult =
+  | { ok: true; status: 'cancelled' | 'cancelling' }
+  | { ok: false; status: 404 | 409; error: string };
+
+// ============================================================
+// Local Registry
+// ============================================================
+
+// Uploads processed by this instance
+const controllers = new Map<string, AbortController>();
+let watchTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Register an upload this instance is about to process
+ *
+ * @returns Signal aborted when the upload is cancelled
+ */
+export function registerCancellableUpload(uploadId: string): AbortSignal {
+  const controller = new AbortController();
+  controllers.set(uploadId, controller);
+  return controller.signal;
+}
+
+/**
+ * Forget an upload once processing has ended
+ */
+export function unregisterCancellableUpload(uploadId: string): void {
+  controllers.delete(uploadId);
+}
+
+/**
+ * Get the cancellation signal of an upload processed by this instance
+ */
+export function getCancellationSignal(uploadId: string): AbortSignal | undefined {
+  return controllers.get(uploadId)?.signal;
+}
+
+/**
+ * Check whether an upload processed by this instance has been cancelled
+ */
+export function isCancelled(uploadId: string): boolean {
+  return controllers.get(uploadId)?.signal.aborted ?? false;
+}
+
+/**
+ * Throw the abort reason if the upload has been cancelled
+ * Call between units of work (chunks, batches, pipeline steps).
+ */
+export function throwIfCancelled(uploadId: string): void {
+  controllers.get(uploadId)?.signal.throwIfAborted();
+}
+
+/**
+ * Abort an upload if this instance is processing it
+ *
+ * @returns false when the upload is not running here
+ */
+export function cancelLocalUpload(uploadId: string): boolean {
+  const controller = controllers.get(uploadId);
+  if (!controller) return false;
+
+  if (!controller.signal.aborted) {
+    console.log(`[${uploadId}] 🛑 [Cancellation] Cancelling processing`);
+    controller.abort(new Error(CANCELLED_MESSAGE));
+  }
+  return true;
+}
+
+// ============================================================
+// Cancel Requests
+// ============================================================
+
+/**
+ * Cancel an upload on behalf of its owner
+ *
+ * Queued jobs are cancelled immediately. Running jobs are aborted here when this
+ * instance runs them, otherwise by the instance that does (within one poll interval).
+ *
+ * @param uploadId - Upload to cancel
+ * @param userId - Requesting user (must own the upload)
+ */
+export async function cancelUpload(uploadId: string, userId: string): Promise<CancelUploadResult> {
+  const status = await getStatus(uploadId);
+  if (!status || status.userId !== userId) {
+    return { ok: false, status: 404, error: 'Upload not found' };
+  }
+
+  const request = await requestJobCancellation(uploadId);
+
+  if (request.outcome === 'cancelled') {
+    await cancelStatus(uploadId);
+    return { ok: true, status: 'cancelled' };
+  }
+
+  // Abort right away when this instance runs the job (others pick the request up when polling)
+  const runningHere = cancelLocalUpload(uploadId);
+  if (runningHere || request.outcome === 'cancelling') {
+    return { ok: true, status: 'cancelling' };
+  }
+
+  return { ok: false, status: 409, error: `Upload is not processing (status: ${status.status})` };
+}
+
+// ============================================================
+// Watcher
+// ============================================================
+
+/**
+ * Poll for cancel requests against uploads running on this instance
+ * (CANCELLATION_POLL_INTERVAL_MS, default 5s)
+ */
+export function startCancellationWatcher(): void {
+  if (watchTimer) return;
+
+  const intervalMs = parseInt(
+    process.env.CANCELLATION_POLL_INTERVAL_MS || String(DEFAULT_CANCELLATION_POLL_INTERVAL_MS),
+    10
+  );
+
+  watchTimer = setInterval(() => {
+    checkCancellationRequests().catch((err) => {
+      console.error('[Cancellation] Poll failed:', err);
+    });
+  }, intervalMs);
+}
+
+/**
+ * Stop polling (graceful shutdown)
+ */
+export function stopCancellationWatcher(): void {
+  if (watchTimer) {
+    clearInterval(watchTimer);
+    watchTimer = null;
+  }
+}
+
+/**
+ * Abort every local upload with a pending cancel request
+ *
+ * @returns Upload IDs that were aborted by this check
+ */
+export async function checkCancellationRequests(): Promise<string[]> {
+  const running = [...controllers.entries()]
+    .filter(([, controller]) => !controller.signal.aborted)
+    .map(([uploadId]) => uploadId);
+
+  const requested = await listCancellationRequests(running);
+  for (const uploadId of requested) {
+    cancelLocalUpload(uploadId);
+  }
+  return requested;
+}
@@ -0,0 +1,89 @@
+/**
+ * Chapter Generator Service
+ * Generate a YouTube-style chapter list ("00:00 Intro" lines) from topic groups
+ *
+ * Creators paste the list into a video description. YouTube only shows
+ * chapters when the first starts at 00:00 and each lasts at least 10 seconds,
+ * so short topics are folded into the preceding chapter.
+ */
+
+/** Shortest chapter YouTube accepts (seconds) */
+export const MIN_CHAPTER_DURATION = 10;
+
+const CHAPTER_TITLE_MAX_LENGTH = 100; // Characters - YouTube truncates longer chapter titles
+
+/**
+ * Topic group used as chapter source
+ */
+export interface TopicForChapters {
+  groupNumber: number;
+  startTime: number;
+  title?: string;
+}
+
+/**
+ * One chapter of the list
+ */
+export interface Chapter {
+  /** Topic group the chapter starts with */
+  groupNumber: number;
+  startTime: number;
+  title: string;
+}
+
+/**
+ * Build chapters from topic groups
+ *
+ * - The first chapter always starts at 0
+ * - A topic starting less than MIN_CHAPTER_DURATION after the previous chapter is folded into it
+ * - A last chapter shorter than MIN_CHAPTER_DURATION (before videoDuration) is folded into the previous one
+ *
+ * @param topics - Topic groups in playback order
+ * @param videoDuration - Video duration in seconds (optional, used for the last chapter)
+ * @returns Chapters in playback order
+ */
+export function buildChapters(topics: TopicForChapters[], videoDuration?: number): Chapter[] {
+  const chapters: Chapter[] = [];
+
+  for (const topic of [...topics].sort((a, b) => a.startTime - b.startTime)) {
+    const title = topic.title?.replace(/\s+/g, ' ').trim().substring(0, CHAPTER_TITLE_MAX_LENGTH) || `Topic ${topic.groupNumber}`;
+    const previous = chapters[chapters.length - 1];
+
+    if (!previous) {
+      chapters.push({ groupNumber: topic.groupNumber, startTime: 0, title });
+    } else if (topic.startTime - previous.startTime >= MIN_CHAPTER_DURATION) {
+      chapters.push({ groupNumber: topic.groupNumber, startTime: topic.startTime, title });
+    }
+  }
+
+  const last = chapters[chapters.length - 1];
+  if (chapters.length > 1 && videoDuration !== undefined && videoDuration - last.startTime < MIN_CHAPTER_DURATION) {
+    chapters.pop();
+  }
+
+  return chapters;
+}
+
+/**
+ * Format a chapter timestamp: MM:SS, or H:MM:SS for videos of an hour or longer
+ */
+export function formatChapterTimestamp(seconds: number, withHours: boolean): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const mmss = `${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+  return withHours ? `${h}:${mmss}` : mmss;
+}
+
+/**
+ * Generate the chapter list text
+ *
+ * @param chapters - Chapters from buildChapters
+ * @param videoDuration - Video duration in seconds (selects the H:MM:SS format for long videos)
+ * @returns One "timestamp title" line per chapter
+ */
+export function generateChapterText(chapters: Chapter[], videoDuration: number): string {
+  const withHours = videoDuration >= 3600;
+  return chapters.map(chapter => `${formatChapterTimestamp(chapter.startTime, withHours)} ${chapter.title}\n`).join('');
+}
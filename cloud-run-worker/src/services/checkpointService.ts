@@ -7,7 +7,7 @@
 
 import dotenv from 'dotenv';
 import { createClient, type Client } from '@libsql/client';
-import type { TranscriptionSegment, SceneCut } from '../types/shared.js';
+import type { TranscriptionSegment, SceneCut, ProcessingOptions, RerunStep } from '../types/shared.js';
 import type {
   ProcessingCheckpoint,
   CheckpointStep,
@@ -18,6 +18,7 @@ import type {
 import {
   CHECKPOINT_EXPIRATION_DAYS,
   CURRENT_BUILD_COMMIT,
+  RERUNNABLE_STEPS,
   createInitialCheckpoint,
   generateIntermediatePaths,
   isCheckpointExpired,
@@ -66,6 +67,21 @@ function getTursoClient(): Client | null {
     ).catch(() => {
       // Column already exists — safe to ignore
     });
+    turso.execute(
+      `ALTER TABLE processing_checkpoints ADD COLUMN processing_options TEXT`
+    ).catch(() => {
+      // Column already exists — safe to ignore
+    });
+    turso.execute(
+      `ALTER TABLE processing_checkpoints ADD COLUMN interrupted_at TEXT`
+    ).catch(() => {
+      // Column already exists — safe to ignore
+    });
+    turso.execute(
+      `ALTER TABLE processing_checkpoints ADD COLUMN transcription_language TEXT`
+    ).catch(() => {
+      // Column already exists — safe to ignore
+    });
 
     tursoInitialized = true;
     return turso;
@@ -81,8 +97,14 @@ const inMemoryCheckpoints = new Map<string, ProcessingCheckpoint>();
 
 /**
  * Load checkpoint from Turso (or in-memory for development)
+ *
+ * @param options.ignoreBuildCommit - Accept checkpoints from other builds (stage reruns
+ *   deliberately reuse upstream data after a code change, e.g. an OCR prompt tweak)
  */
-export async function loadCheckpoint(uploadId: string): Promise<ProcessingCheckpoint | null> {
+export async function loadCheckpoint(
+  uploadId: string,
+  options: { ignoreBuildCommit?: boolean } = {}
+): Promise<ProcessingCheckpoint | null> {
   const client = getTursoClient();
 
   if (client) {
@@ -108,7 +130,7 @@ export async function loadCheckpoint(uploadId: string): Promise<ProcessingCheckp
       }
 
       // Check if build has changed (code update invalidates checkpoint)
-      if (CURRENT_BUILD_COMMIT) {
+      if (CURRENT_BUILD_COMMIT && !options.ignoreBuildCommit) {
         if (!checkpoint.buildCommit) {
           // Legacy checkpoint without build tracking — cannot verify compatibility
           console.log(`[${uploadId}] [Checkpoint] Legacy checkpoint (no build hash) → ignoring, starting fresh`);
@@ -146,7 +168,7 @@ export async function saveCheckpoint(
   checkpoint: ProcessingCheckpoint,
   options: CheckpointSaveOptions = {}
 ): Promise<void> {
-  const { incrementVersion = true, incrementRetry = false } = options;
+  const { incrementVersion = true, incrementRetry = false, resetRetryCount = false } = options;
 
   const now = new Date().toISOString();
   const updatedCheckpoint: ProcessingCheckpoint = {
@@ -162,17 +184,18 @@ export async function saveCheckpoint(
     try {
       await client.execute({
         sql: `INSERT INTO processing_checkpoints (
-          upload_id, user_id, current_step, build_commit,
+          upload_id, user_id, current_step, build_commit, processing_options,
           intermediate_video_path, intermediate_audio_path,
           video_duration, total_audio_chunks, total_scenes,
           completed_audio_chunks, transcription_segments, scene_cuts,
-          completed_ocr_scenes, ocr_results,
+          completed_ocr_scenes, ocr_results, transcription_language,
           created_at, updated_at, expires_at,
           retry_count, version
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         ON CONFLICT(upload_id) DO UPDATE SET
           current_step = excluded.current_step,
           build_commit = excluded.build_commit,
+          processing_options = excluded.processing_options,
           intermediate_video_path = excluded.intermediate_video_path,
           intermediate_audio_path = excluded.intermediate_audio_path,
           video_duration = excluded.video_duration,
@@ -183,8 +206,10 @@ export async function saveCheckpoint(
           scene_cuts = excluded.scene_cuts,
           completed_ocr_scenes = excluded.completed_ocr_scenes,
           ocr_results = excluded.ocr_results,
+          transcription_language = excluded.transcription_language,
           updated_at = excluded.updated_at,
-          retry_count = excluded.retry_count,
+          retry_count = CASE WHEN ? THEN excluded.retry_count
+            ELSE MAX(processing_checkpoints.retry_count, excluded.retry_count) END,
           version = excluded.version
         `,
         args: [
@@ -192,6 +217,7 @@ export async function saveCheckpoint(
           updatedCheckpoint.userId,
           updatedCheckpoint.currentStep,
           updatedCheckpoint.buildCommit ?? null,
+          updatedCheckpoint.processingOptions ? JSON.stringify(updatedCheckpoint.processingOptions) : null,
           updatedCheckpoint.intermediateVideoPath ?? null,
           updatedCheckpoint.intermediateAudioPath ?? null,
           updatedCheckpoint.videoDuration ?? null,
@@ -202,11 +228,13 @@ export async function saveCheckpoint(
           JSON.stringify(updatedCheckpoint.sceneCuts),
           JSON.stringify(updatedCheckpoint.completedOcrScenes),
           JSON.stringify(updatedCheckpoint.ocrResults),
+          updatedCheckpoint.transcriptionLanguage ?? null,
           updatedCheckpoint.createdAt,
           updatedCheckpoint.updatedAt,
           updatedCheckpoint.expiresAt,
           updatedCheckpoint.retryCount,
           updatedCheckpoint.version,
+          resetRetryCount ? 1 : 0,
         ],
       });
 
@@ -216,8 +244,15 @@ export async function saveCheckpoint(
       throw error;
     }
   } else {
-    // In-memory mode
-    inMemoryCheckpoints.set(updatedCheckpoint.uploadId, updatedCheckpoint);
+    // In-memory mode (interruption state is owned by markCheckpointInterrupted / claimInterruptedCheckpoint)
+    const previous = inMemoryCheckpoints.get(updatedCheckpoint.uploadId);
+    inMemoryCheckpoints.set(updatedCheckpoint.uploadId, {
+      ...updatedCheckpoint,
+      retryCount: resetRetryCount
+        ? updatedCheckpoint.retryCount
+        : Math.max(previous?.retryCount ?? 0, updatedCheckpoint.retryCount),
+      interruptedAt: previous?.interruptedAt,
+    });
     console.log(`[${updatedCheckpoint.uploadId}] [Checkpoint] Saved to memory at step: ${updatedCheckpoint.currentStep}`);
   }
 }
@@ -248,27 +283,46 @@ export async function updateCheckpoint(
  * Delete checkpoint and associated R2 files
  */
 export async function deleteCheckpoint(uploadId: string): Promise<void> {
-  const checkpoint = await loadCheckpoint(uploadId);
+  const client = getTursoClient();
 
-  // Delete intermediate files from R2
-  if (checkpoint) {
+  // Intermediate paths are read from the stored row as is: a checkpoint from an
+  // earlier build (or an expired one) still owns its R2 objects
+  let paths: { video?: string; audio?: string } = {};
+  if (client) {
     try {
-      if (checkpoint.intermediateVideoPath) {
-        await deleteFromR2(checkpoint.intermediateVideoPath);
-        console.log(`[${uploadId}] [Checkpoint] Deleted intermediate video`);
-      }
-      if (checkpoint.intermediateAudioPath) {
-        await deleteFromR2(checkpoint.intermediateAudioPath);
-        console.log(`[${uploadId}] [Checkpoint] Deleted intermediate audio`);
-      }
-      // Note: Frame files are in a directory, would need listing to delete all
+      const result = await client.execute({
+        sql: 'SELECT intermediate_video_path, intermediate_audio_path FROM processing_checkpoints WHERE upload_id = ?',
+        args: [uploadId],
+      });
+      const row = result.rows[0];
+      paths = {
+        video: (row?.intermediate_video_path as string | null) ?? undefined,
+        audio: (row?.intermediate_audio_path as string | null) ?? undefined,
+      };
     } catch (error) {
-      console.error(`[${uploadId}] [Checkpoint] Failed to delete intermediate files:`, error);
+      console.error(`[${uploadId}] [Checkpoint] Failed to read intermediate paths:`, error);
     }
+  } else {
+    const checkpoint = inMemoryCheckpoints.get(uploadId);
+    paths = { video: checkpoint?.intermediateVideoPath, audio: checkpoint?.intermediateAudioPath };
+  }
+
+  // Delete intermediate files from R2
+  try {
+    if (paths.video) {
+      await deleteFromR2(paths.video);
+      console.log(`[${uploadId}] [Checkpoint] Deleted intermediate video`);
+    }
+    if (paths.audio) {
+      await deleteFromR2(paths.audio);
+      console.log(`[${uploadId}] [Checkpoint] Deleted intermediate audio`);
+    }
+    // Note: Frame files are in a directory, would need listing to delete all
+  } catch (error) {
+    console.error(`[${uploadId}] [Checkpoint] Failed to delete intermediate files:`, error);
   }
 
   // Delete checkpoint record
-  const client = getTursoClient();
   if (client) {
     try {
       await client.execute({
@@ -426,6 +480,78 @@ export async function cleanupExpiredCheckpoints(): Promise<number> {
   }
 }
 
+/**
+ * Flag a checkpoint as interrupted and count the interruption
+ * Written with a dedicated UPDATE: saves from the still-running pipeline must not clear it.
+ *
+ * @returns The new interruption count, or null when the upload has no checkpoint
+ */
+export async function flagCheckpointInterrupted(uploadId: string): Promise<number | null> {
+  const now = new Date().toISOString();
+  const client = getTursoClient();
+
+  if (client) {
+    const result = await client.execute({
+      sql: `UPDATE processing_checkpoints
+            SET interrupted_at = ?, retry_count = retry_count + 1, updated_at = ?
+            WHERE upload_id = ?
+            RETURNING retry_count`,
+      args: [now, now, uploadId],
+    });
+    return result.rows.length > 0 ? Number(result.rows[0].retry_count) : null;
+  }
+
+  const checkpoint = inMemoryCheckpoints.get(uploadId);
+  if (!checkpoint) return null;
+  const retryCount = checkpoint.retryCount + 1;
+  inMemoryCheckpoints.set(uploadId, { ...checkpoint, retryCount, interruptedAt: now, updatedAt: now });
+  return retryCount;
+}
+
+/**
+ * List unexpired checkpoints flagged as interrupted (oldest interruption first)
+ */
+export async function listInterruptedCheckpoints(): Promise<ProcessingCheckpoint[]> {
+  const now = new Date().toISOString();
+  const client = getTursoClient();
+
+  if (client) {
+    const result = await client.execute({
+      sql: `SELECT * FROM processing_checkpoints
+            WHERE interrupted_at IS NOT NULL AND expires_at > ?
+            ORDER BY interrupted_at ASC`,
+      args: [now],
+    });
+    return result.rows.map(row => mapRowToCheckpoint(row));
+  }
+
+  return [...inMemoryCheckpoints.values()]
+    .filter(checkpoint => checkpoint.interruptedAt && !isCheckpointExpired(checkpoint))
+    .sort((a, b) => a.interruptedAt!.localeCompare(b.interruptedAt!));
+}
+
+/**
+ * Claim an interrupted checkpoint for recovery (clears the interrupted flag)
+ *
+ * @returns false when another instance claimed it first
+ */
+export async function claimInterruptedCheckpoint(uploadId: string): Promise<boolean> {
+  const client = getTursoClient();
+
+  if (client) {
+    const result = await client.execute({
+      sql: 'UPDATE processing_checkpoints SET interrupted_at = NULL WHERE upload_id = ? AND interrupted_at IS NOT NULL',
+      args: [uploadId],
+    });
+    return result.rowsAffected === 1;
+  }
+
+  const checkpoint = inMemoryCheckpoints.get(uploadId);
+  if (!checkpoint?.interruptedAt) return false;
+  inMemoryCheckpoints.set(uploadId, { ...checkpoint, interruptedAt: undefined });
+  return true;
+}
+
 /**
  * Check if processing can resume from checkpoint
  */
@@ -454,6 +580,94 @@ export async function canResumeFromCheckpoint(
   };
 }
 
+/**
+ * Whether completed uploads keep their checkpoint and source video for stage reruns
+ * Retained data expires with the checkpoint (CHECKPOINT_EXPIRATION_DAYS).
+ * On by default; set RERUN_RETENTION_ENABLED=false (together with the app's
+ * NEXT_PUBLIC_RERUN_ENABLED) to delete the source video on completion instead.
+ */
+export function isRerunRetentionEnabled(): boolean {
+  return process.env.RERUN_RETENTION_ENABLED !== 'false';
+}
+
+/**
+ * Reset the progress of a checkpoint from the given step onwards
+ * Upstream data (video, transcription, scene cuts, OCR) is kept so the pipeline skips it.
+ */
+export function resetCheckpointForRerun(
+  checkpoint: ProcessingCheckpoint,
+  fromStep: RerunStep
+): ProcessingCheckpoint {
+  const reset: ProcessingCheckpoint = { ...checkpoint, currentStep: fromStep };
+  const fromIndex = RERUNNABLE_STEPS.indexOf(fromStep);
+
+  if (fromIndex <= RERUNNABLE_STEPS.indexOf('transcription')) {
+    reset.completedAudioChunks = [];
+    reset.transcriptionSegments = [];
+    reset.totalAudioChunks = undefined;
+    reset.transcriptionLanguage = undefined;
+  }
+  if (fromIndex <= RERUNNABLE_STEPS.indexOf('scene_detection')) {
+    reset.sceneCuts = [];
+    reset.totalScenes = undefined;
+  }
+  if (fromIndex <= RERUNNABLE_STEPS.indexOf('ocr')) {
+    reset.completedOcrScenes = [];
+    reset.ocrResults = {};
+  }
+
+  return reset;
+}
+
+/**
+ * Result of preparing a checkpoint for a stage rerun
+ * `status` is the HTTP status to return when the rerun is not possible.
+ */
+export type RerunPreparation =
+  | { ok: true; checkpoint: ProcessingCheckpoint }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Prepare a retained checkpoint so processVideo re-executes from `fromStep`
+ *
+ * @param uploadId - Upload ID
+ * @param userId - Owner (must match the checkpoint)
+ * @param fromStep - First step to re-execute
+ * @param optionsOverride - Processing options to change for this run (merged over the original ones)
+ */
+export async function prepareCheckpointForRerun(
+  uploadId: string,
+  userId: string,
+  fromStep: RerunStep,
+  optionsOverride: ProcessingOptions = {}
+): Promise<RerunPreparation> {
+  const checkpoint = await loadCheckpoint(uploadId, { ignoreBuildCommit: true });
+
+  if (!checkpoint || checkpoint.userId !== userId) {
+    return { ok: false, status: 404, error: 'No retained processing data for this upload (expired or never retained)' };
+  }
+
+  if (!checkpoint.intermediateVideoPath) {
+    return { ok: false, status: 409, error: 'Source video is no longer available; please upload the video again' };
+  }
+
+  if ((fromStep === 'ocr' || fromStep === 'excel_generation') && checkpoint.sceneCuts.length === 0) {
+    return { ok: false, status: 409, error: 'No cached scene cuts; re-run from scene_detection instead' };
+  }
+
+  const prepared: ProcessingCheckpoint = {
+    ...resetCheckpointForRerun(checkpoint, fromStep),
+    processingOptions: { ...checkpoint.processingOptions, ...optionsOverride },
+    buildCommit: CURRENT_BUILD_COMMIT,
+    retryCount: 0,
+  };
+
+  await saveCheckpoint(prepared, { resetRetryCount: true });
+  console.log(`[${uploadId}] [Checkpoint] Prepared rerun from step: ${fromStep}`);
+
+  return { ok: true, checkpoint: prepared };
+}
+
 /**
  * Map database row to ProcessingCheckpoint
  */
@@ -463,6 +677,7 @@ function mapRowToCheckpoint(row: Record<string, unknown>): ProcessingCheckpoint
     userId: row.user_id as string,
     currentStep: row.current_step as CheckpointStep,
     buildCommit: (row.build_commit as string | null) ?? undefined,
+    processingOptions: row.processing_options ? JSON.parse(row.processing_options as string) : undefined,
     intermediateVideoPath: row.intermediate_video_path as string | undefined,
     intermediateAudioPath: row.intermediate_audio_path as string | undefined,
     videoDuration: row.video_duration as number | undefined,
@@ -473,16 +688,19 @@ function mapRowToCheckpoint(row: Record<string, unknown>): ProcessingCheckpoint
     sceneCuts: JSON.parse(row.scene_cuts as string || '[]'),
     completedOcrScenes: JSON.parse(row.completed_ocr_scenes as string || '[]'),
     ocrResults: JSON.parse(row.ocr_results as string || '{}'),
+    transcriptionLanguage: (row.transcription_language as string | null) ?? undefined,
     createdAt: row.created_at as string,
     updatedAt: row.updated_at as string,
     expiresAt: row.expires_at as string,
     retryCount: row.retry_count as number,
     version: row.version as number,
+    interruptedAt: (row.interrupted_at as string | null) ?? undefined,
   };
 }
 
 // Export types and utilities
 export {
+  RERUNNABLE_STEPS,
   createInitialCheckpoint,
   generateIntermediatePaths,
   isCheckpointExpired,
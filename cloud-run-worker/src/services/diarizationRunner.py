@@ -0,0 +1,93 @@
+#!/usr/bin/env python3
+"""
+pyannote.audio Speaker Diarization Runner
+
+Labels "who spoke when" on the full extracted audio track. Speaker labels are
+pipeline-local (SPEAKER_00, SPEAKER_01, ...); the Node.js side maps them to
+A, B, C... and assigns them to Whisper segments by time overlap.
+
+Requires a Hugging Face token with access to the gated pyannote models
+(HF_TOKEN environment variable).
+
+Usage:
+    python3 diarizationRunner.py <audio_path> <output_json> [--min-speakers 1] [--max-speakers 4]
+
+Output JSON format:
+    {
+        "turns": [
+            {"start": 0.52, "end": 4.87, "speaker": "SPEAKER_00"},
+            {"start": 5.10, "end": 9.33, "speaker": "SPEAKER_01"},
+            ...
+        ]
+    }
+"""
+
+import sys
+import json
+import os
+import argparse
+
+
+def main() -> int:
+    parser = argparse.ArgumentParser(description="pyannote.audio speaker diarization runner")
+    parser.add_argument("audio_path", help="Path to input audio file (16kHz mono)")
+    parser.add_argument("output_json", help="Path to output JSON file")
+    parser.add_argument("--model", default="pyannote/speaker-diarization-3.1",
+                        help="Hugging Face pipeline id")
+    parser.add_argument("--min-speakers", type=int, default=None,
+                        help="Lower bound on the number of speakers")
+    parser.add_argument("--max-speakers", type=int, default=None,
+                        help="Upper bound on the number of speakers")
+    args = parser.parse_args()
+
+    if not os.path.exists(args.audio_path):
+        print(f"Error: audio file not found: {args.audio_path}", file=sys.stderr)
+        return 1
+
+    token = os.environ.get("HF_TOKEN")
+    if not token:
+        print("Error: HF_TOKEN is not set (required for pyannote models)", file=sys.stderr)
+        return 1
+
+    try:
+        from pyannote.audio import Pipeline
+
+        print(f"[Diarization] Loading pipeline: {args.model}", file=sys.stderr)
+        pipeline = Pipeline.from_pretrained(args.model, use_auth_token=token)
+
+        kwargs = {}
+        if args.min_speakers is not None:
+            kwargs["min_speakers"] = args.min_speakers
+        if args.max_speakers is not None:
+            kwargs["max_speakers"] = args.max_speakers
+
+        print(f"[Diarization] Processing: {args.audio_path}", file=sys.stderr)
+        diarization = pipeline(args.audio_path, **kwargs)
+
+        turns = [
+            {"start": round(turn.start, 3), "end": round(turn.end, 3), "speaker": speaker}
+            for turn, _, speaker in diarization.itertracks(yield_label=True)
+        ]
+        speakers = sorted({t["speaker"] for t in turns})
+        print(f"[Diarization] {len(turns)} turns, {len(speakers)} speakers", file=sys.stderr)
+
+        with open(args.output_json, 'w', encoding='utf-8') as f:
+            json.dump({"turns": turns}, f, indent=2)
+
+        print(f"[Diarization] Results saved to: {args.output_json}", file=sys.stderr)
+        return 0
+
+    except ImportError as e:
+        print("Error: pyannote.audio not installed. Install with: pip install pyannote.audio", file=sys.stderr)
+        print(f"Details: {e}", file=sys.stderr)
+        return 1
+
+    except Exception as e:
+        print(f"Error processing audio: {e}", file=sys.stderr)
+        import traceback
+        traceback.print_exc(file=sys.stderr)
+        return 1
+
+
+if __name__ == "__main__":
+    sys.exit(main())
@@ -6,7 +6,7 @@
  * immediately when the server is shutting down.
  */
 
-import { addCompletedOcrScenes, loadCheckpoint, saveCheckpoint } from './checkpointService.js';
+import { addCompletedOcrScenes, flagCheckpointInterrupted } from './checkpointService.js';
 
 /**
  * In-progress OCR state (updated during processing)
@@ -18,8 +18,8 @@ interface InProgressOcrState {
   lastSavedIndex: number;  // Last checkpoint-saved index
 }
 
-// Global state for emergency save
-let currentOcrState: InProgressOcrState | null = null;
+// Per-upload state for emergency save (one entry per concurrently running job)
+const ocrStates = new Map<string, InProgressOcrState>();
 
 /**
  * Register the current OCR processing state
@@ -31,26 +31,26 @@ export function registerOcrProgress(
   ocrResults: Record<number, string>,
   lastSavedIndex: number
 ): void {
-  currentOcrState = {
+  ocrStates.set(uploadId, {
     uploadId,
     completedScenes,
     ocrResults,
     lastSavedIndex,
-  };
+  });
 }
 
 /**
- * Clear the OCR progress state (called on completion or error)
+ * Clear the OCR progress state of an upload (called on completion or error)
  */
-export function clearOcrProgress(): void {
-  currentOcrState = null;
+export function clearOcrProgress(uploadId: string): void {
+  ocrStates.delete(uploadId);
 }
 
 /**
- * Get current OCR progress state
+ * Get OCR progress state of an upload
  */
-export function getOcrProgress(): InProgressOcrState | null {
-  return currentOcrState;
+export function getOcrProgress(uploadId: string): InProgressOcrState | null {
+  return ocrStates.get(uploadId) ?? null;
 }
 
 /**
@@ -58,13 +58,14 @@ export function getOcrProgress(): InProgressOcrState | null {
  * Called by SIGTERM handler in index.ts
  * Returns true if save was successful
  */
-export async function emergencySaveOcrProgress(): Promise<boolean> {
+export async function emergencySaveOcrProgress(uploadId: string): Promise<boolean> {
+  const currentOcrState = ocrStates.get(uploadId);
   if (!currentOcrState) {
-    console.log('[EmergencyCheckpoint] No in-progress OCR state to save');
+    console.log(`[${uploadId}] [EmergencyCheckpoint] No in-progress OCR state to save`);
     return false;
   }
 
-  const { uploadId, completedScenes, ocrResults, lastSavedIndex } = currentOcrState;
+  const { completedScenes, ocrResults, lastSavedIndex } = currentOcrState;
 
   // Calculate unsaved scenes
   const unsavedScenes = completedScenes.filter(idx => idx > lastSavedIndex);
@@ -94,24 +95,17 @@ export async function emergencySaveOcrProgress(): Promise<boolean> {
 
 /**
  * Emergency save of current checkpoint with 'interrupted' status
- * This marks the checkpoint as interrupted so the next run knows to resume
+ * This marks the checkpoint as interrupted so the recovery routine resumes it
  */
 export async function markCheckpointInterrupted(uploadId: string): Promise<boolean> {
   try {
-    const checkpoint = await loadCheckpoint(uploadId);
-    if (!checkpoint) {
+    const retryCount = await flagCheckpointInterrupted(uploadId);
+    if (retryCount === null) {
       console.log(`[${uploadId}] [EmergencyCheckpoint] No checkpoint found to mark as interrupted`);
       return false;
     }
 
-    // Update the checkpoint with current timestamp
-    // The next processVideo() call will detect this and resume
-    await saveCheckpoint({
-      ...checkpoint,
-      updatedAt: new Date().toISOString(),
-    }, { incrementRetry: true });
-
-    console.log(`[${uploadId}] [EmergencyCheckpoint] Checkpoint marked as interrupted (retry #${checkpoint.retryCount + 1})`);
+    console.log(`[${uploadId}] [EmergencyCheckpoint] Checkpoint marked as interrupted (retry #${retryCount})`);
     return true;
   } catch (error) {
     console.error(`[${uploadId}] [EmergencyCheckpoint] Failed to mark interrupted:`, error);
@@ -9,6 +9,8 @@
 import ExcelJS from 'exceljs';
 import { promises as fs } from 'fs';
 import { ExcelRow, ExcelGenerationOptions, ProcessingStats, VideoMetadata, TopicGroup } from '../types/excel.js';
+import type { GlossaryCorrection, SpeakerTalkTime } from '../types/shared.js';
+import { buildChapters, formatChapterTimestamp } from './chapter-generator.js';
 
 // Excel layout constants
 const EXCEL_IMAGE_WIDTH_PX = 320; // Target image width in pixels
@@ -21,12 +23,13 @@ const POINTS_PER_PIXEL = 0.75; // 96 DPI: 1px = 0.75pt
 /**
  * Generate Excel file with OCR results, narration, and embedded screenshots
  * Format: Scene # | Timecode | Screenshot | OCR Text | NA Text
+ * followed by "OCR Text (EN)" / "NA Text (EN)" columns per translation language
  *
  * @param options - Excel generation options
  * @returns Excel file as Buffer
  */
 export async function generateExcel(options: ExcelGenerationOptions): Promise<Buffer> {
-  const { projectTitle, rows, videoMetadata, includeStatistics = false, topicGroups, warnings } = options;
+  const { projectTitle, rows, videoMetadata, includeStatistics = false, topicGroups, executiveSummary, warnings, speakerTalkTimes, glossaryCorrections, translationLanguages = [] } = options;
 
   console.log(`📊 Generating Excel file: ${projectTitle} (${rows.length} scenes)`);
 
@@ -61,7 +64,11 @@ export async function generateExcel(options: ExcelGenerationOptions): Promise<Bu
     { header: 'Timecode', key: 'timecode', width: 12 },
     { header: 'Screenshot', key: 'screenshot', width: columnWidth },
     { header: 'OCR Text', key: 'ocrText', width: 40 },
-    { header: 'NA Text', key: 'naText', width: 40 } // Narration text column
+    { header: 'NA Text', key: 'naText', width: 40 }, // Narration text column
+    ...translationLanguages.flatMap(language => [
+      { header: `OCR Text (${language.toUpperCase()})`, key: `ocrText_${language}`, width: 40 },
+      { header: `NA Text (${language.toUpperCase()})`, key: `naText_${language}`, width: 40 },
+    ])
   ];
 
   // Style the header row
@@ -85,7 +92,14 @@ export async function generateExcel(options: ExcelGenerationOptions): Promise<Bu
       timecode: excelRow.timecode,
       screenshot: '', // Placeholder, will embed image
       ocrText: excelRow.ocrText || '(no text detected)',
-      naText: excelRow.narrationText || '(no narration)'
+      naText: excelRow.narrationText || '(no narration)',
+      ...Object.fromEntries(translationLanguages.flatMap(language => {
+        const translation = excelRow.translations?.[language];
+        return [
+          [`ocrText_${language}`, translation?.ocrText ?? ''],
+          [`naText_${language}`, translation?.narrationText ?? ''],
+        ];
+      }))
     });
 
     // Set row height based on calculated image dimensions
@@ -122,6 +136,10 @@ export async function generateExcel(options: ExcelGenerationOptions): Promise<Bu
     // Wrap text in OCR and NA columns
     row.getCell('ocrText').alignment = { wrapText: true, vertical: 'top' };
     row.getCell('naText').alignment = { wrapText: true, vertical: 'top' };
+    for (const language of translationLanguages) {
+      row.getCell(`ocrText_${language}`).alignment = { wrapText: true, vertical: 'top' };
+      row.getCell(`naText_${language}`).alignment = { wrapText: true, vertical: 'top' };
+    }
 
     // Embed screenshot image
     try {
@@ -176,6 +194,11 @@ export async function generateExcel(options: ExcelGenerationOptions): Promise<Bu
     });
   });
 
+  // Add Summary sheet (executive summary + chapter list) if there is anything to show
+  if (executiveSummary || (topicGroups && topicGroups.length > 0)) {
+    addSummarySheet(workbook, topicGroups ?? [], videoMetadata, executiveSummary);
+  }
+
   // Add Topics sheet if topic groups are provided
   if (topicGroups && topicGroups.length > 0) {
     addTopicsSheet(workbook, topicGroups);
@@ -183,7 +206,7 @@ export async function generateExcel(options: ExcelGenerationOptions): Promise<Bu
 
   // Add statistics sheet if requested
   if (includeStatistics) {
-    await addStatisticsSheet(workbook, rows, videoMetadata, warnings);
+    await addStatisticsSheet(workbook, rows, videoMetadata, warnings, speakerTalkTimes, glossaryCorrections);
   }
 
   // Generate Excel file buffer
@@ -195,6 +218,75 @@ export async function generateExcel(options: ExcelGenerationOptions): Promise<Bu
   return buffer;
 }
 
+/**
+ * Add Summary worksheet to workbook
+ * Executive summary followed by the chapter list (same chapters as the .txt export)
+ */
+function addSummarySheet(
+  workbook: ExcelJS.Workbook,
+  topicGroups: TopicGroup[],
+  videoMetadata: VideoMetadata,
+  executiveSummary?: string
+): void {
+  const summarySheet = workbook.addWorksheet('Summary');
+
+  summarySheet.columns = [
+    { key: 'time', width: 12 },
+    { key: 'title', width: 40 },
+    { key: 'summary', width: 80 },
+  ];
+
+  // Executive summary
+  const summaryHeader = summarySheet.addRow({ time: 'Executive Summary' });
+  summaryHeader.font = { bold: true, color: { argb: 'FFFFFFFF' }, size: 12 };
+  summarySheet.mergeCells(summaryHeader.number, 1, summaryHeader.number, 3);
+  summaryHeader.getCell('time').fill = {
+    type: 'pattern',
+    pattern: 'solid',
+    fgColor: { argb: 'FF16A085' } // Teal
+  };
+
+  const summaryRow = summarySheet.addRow({ time: executiveSummary || '(summary not generated)' });
+  summarySheet.mergeCells(summaryRow.number, 1, summaryRow.number, 3);
+  summaryRow.getCell('time').alignment = { wrapText: true, vertical: 'top' };
+  if (!executiveSummary) {
+    summaryRow.getCell('time').font = { italic: true, color: { argb: 'FF999999' } };
+  } else {
+    // Rough height for the merged cell (ExcelJS does not auto-size merged cells)
+    summaryRow.height = Math.min(400, 15 * Math.ceil(executiveSummary.length / 60 + 1));
+  }
+  summarySheet.addRow({}); // Separator
+
+  // Chapter list
+  const chapters = buildChapters(topicGroups, videoMetadata.duration);
+  if (chapters.length > 0) {
+    const chaptersHeader = summarySheet.addRow({ time: 'Time', title: 'Chapter', summary: 'Summary' });
+    chaptersHeader.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+    chaptersHeader.eachCell((cell) => {
+      cell.fill = {
+        type: 'pattern',
+        pattern: 'solid',
+        fgColor: { argb: 'FF16A085' } // Teal
+      };
+    });
+
+    const summaryByGroup = new Map(topicGroups.map(group => [group.groupNumber, group.summary ?? '']));
+    const withHours = videoMetadata.duration >= 3600;
+    for (const chapter of chapters) {
+      const row = summarySheet.addRow({
+        time: formatChapterTimestamp(chapter.startTime, withHours),
+        title: chapter.title,
+        summary: summaryByGroup.get(chapter.groupNumber) ?? '',
+      });
+      row.getCell('time').alignment = { horizontal: 'center', vertical: 'top' };
+      row.getCell('title').alignment = { wrapText: true, vertical: 'top' };
+      row.getCell('summary').alignment = { wrapText: true, vertical: 'top' };
+    }
+  }
+
+  console.log(`  ✓ Added Summary sheet (${chapters.length} chapters${executiveSummary ? ', executive summary' : ''})`);
+}
+
 /**
  * Add Topics worksheet to workbook
  * Groups consecutive scenes with similar OCR text
@@ -212,6 +304,8 @@ function addTopicsSheet(
     { header: 'Scenes', key: 'scenes', width: 12 },
     { header: 'Time Range', key: 'timeRange', width: 24 },
     { header: 'Count', key: 'count', width: 8 },
+    { header: 'Title', key: 'title', width: 30 },
+    { header: 'Summary', key: 'summary', width: 50 },
     { header: 'OCR Text', key: 'ocr', width: 50 },
     { header: 'Narration', key: 'narration', width: 50 },
   ];
@@ -234,6 +328,8 @@ function addTopicsSheet(
       scenes: group.sceneRange,
       timeRange: group.timeRange,
       count: group.count,
+      title: group.title ?? '',
+      summary: group.summary ?? '',
       ocr: group.ocr || '(no text)',
       narration: group.narration || '(no narration)',
     });
@@ -253,7 +349,9 @@ function addTopicsSheet(
     row.getCell('timeRange').alignment = { horizontal: 'center', vertical: 'middle' };
     row.getCell('count').alignment = { horizontal: 'center', vertical: 'middle' };
 
-    // Wrap text in OCR and narration columns
+    // Wrap text in title, summary, OCR and narration columns
+    row.getCell('title').alignment = { wrapText: true, vertical: 'top' };
+    row.getCell('summary').alignment = { wrapText: true, vertical: 'top' };
     row.getCell('ocr').alignment = { wrapText: true, vertical: 'top' };
     row.getCell('narration').alignment = { wrapText: true, vertical: 'top' };
 
@@ -293,7 +391,9 @@ async function addStatisticsSheet(
   workbook: ExcelJS.Workbook,
   rows: ExcelRow[],
   videoMetadata: VideoMetadata,
-  warnings?: string[]
+  warnings?: string[],
+  speakerTalkTimes?: SpeakerTalkTime[],
+  glossaryCorrections?: GlossaryCorrection[]
 ): Promise<void> {
   const statsSheet = workbook.addWorksheet('Statistics');
 
@@ -332,6 +432,44 @@ async function addStatisticsSheet(
   statsSheet.addRow({ metric: 'Video Duration', value: `${videoMetadata.duration}s` });
   statsSheet.addRow({ metric: '', value: '' }); // Separator
 
+  // Speaker talk time (speaker diarization only)
+  if (speakerTalkTimes && speakerTalkTimes.length > 0) {
+    const speakersHeader = statsSheet.addRow({ metric: 'Speakers', value: `${speakerTalkTimes.length} speaker(s)` });
+    speakersHeader.font = { bold: true };
+    speakersHeader.fill = {
+      type: 'pattern',
+      pattern: 'solid',
+      fgColor: { argb: 'FFDDA0DD' } // Plum
+    };
+
+    const totalTalkTime = speakerTalkTimes.reduce((sum, s) => sum + s.talkTime, 0);
+    for (const { speaker, talkTime, segmentCount } of speakerTalkTimes) {
+      const share = totalTalkTime > 0 ? ((talkTime / totalTalkTime) * 100).toFixed(1) : '0.0';
+      statsSheet.addRow({
+        metric: `Speaker ${speaker} Talk Time`,
+        value: `${talkTime.toFixed(1)}s (${share}%, ${segmentCount} segments)`,
+      });
+    }
+    statsSheet.addRow({ metric: '', value: '' }); // Separator
+  }
+
+  // Glossary corrections (aliases replaced after OCR, account glossary only)
+  if (glossaryCorrections && glossaryCorrections.length > 0) {
+    const totalCorrections = glossaryCorrections.reduce((sum, c) => sum + c.count, 0);
+    const glossaryHeader = statsSheet.addRow({ metric: 'Glossary Corrections', value: `${totalCorrections} replacement(s)` });
+    glossaryHeader.font = { bold: true };
+    glossaryHeader.fill = {
+      type: 'pattern',
+      pattern: 'solid',
+      fgColor: { argb: 'FFADD8E6' } // Light blue
+    };
+
+    for (const { from, to, count } of glossaryCorrections) {
+      statsSheet.addRow({ metric: `${from} → ${to}`, value: `${count}×` });
+    }
+    statsSheet.addRow({ metric: '', value: '' }); // Separator
+  }
+
   // Detection parameters (added: 2025-11-14)
   const detectionParamsHeader = statsSheet.addRow({ metric: 'Detection Parameters', value: '' });
   detectionParamsHeader.font = { bold: true };
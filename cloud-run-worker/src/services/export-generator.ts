@@ -0,0 +1,137 @@
+/**
+ * Export Generator Service
+ * Write every non-Excel result file for an upload in one place
+ *
+ * Used by the processing pipeline and by scene editor regeneration, so an
+ * edited result gets the same set of exports as a freshly processed one.
+ *
+ * Each translation language adds its own subtitle tracks ('en.srt', 'en.vtt'),
+ * timed by scene boundaries because translations are per scene, and its own
+ * chapter list ('en.txt'). Timeline markers carry every language in one file.
+ */
+
+import { promises as fsPromises } from 'fs';
+import { buildSubtitleCues, generateSrt, generateWebVtt } from './subtitle-generator.js';
+import { generateEdl, generateFcpxml } from './timeline-generator.js';
+import { buildChapters, generateChapterText } from './chapter-generator.js';
+import type { WarningCollector } from './warningCollector.js';
+import type { SceneWithNarration } from './pipeline.js';
+import type { VideoMetadata } from '../types/excel.js';
+import { TRANSLATION_LANGUAGES } from '../utils/processingOptions.js';
+import type { ResultDocument, TranscriptionSegment, TranslationLanguage } from '../types/shared.js';
+import type { ExportFileType, ExportFilePaths, ExportFormat, TranslatedExportFormat } from '../types/export.js';
+
+/**
+ * File types written once per upload
+ */
+const EXPORT_FILE_TYPES: ExportFileType[] = ['srt', 'vtt', 'edl', 'fcpxml', 'json', 'txt'];
+
+/**
+ * File types written once per translation language
+ */
+const TRANSLATED_FILE_TYPES = ['srt', 'vtt', 'txt'] as const;
+
+/**
+ * Formats generateExportFiles writes for an upload with these translation languages
+ */
+export function exportFormatsFor(translationLanguages: TranslationLanguage[] = []): ExportFormat[] {
+  return [
+    ...EXPORT_FILE_TYPES,
+    ...translationLanguages.flatMap(language =>
+      TRANSLATED_FILE_TYPES.map((fileType): TranslatedExportFormat => `${language}.${fileType}`)
+    ),
+  ];
+}
+
+/**
+ * Whether a requested format (e.g. a download query parameter) is a known export format
+ */
+export function isExportFormat(value: string): value is ExportFormat {
+  return exportFormatsFor([...TRANSLATION_LANGUAGES]).includes(value as ExportFormat);
+}
+
+/**
+ * Write subtitle (SRT / WebVTT), timeline (EDL / FCPXML), JSON result and chapter (.txt) files next to the Excel file
+ * Each format fails independently; failures are recorded as warnings and the format is omitted.
+ * A translation language without any translated narration gets no subtitle tracks.
+ *
+ * @param basePath - Output path without extension (e.g., /tmp/Project_2026-01-01)
+ * @param projectTitle - Project/video title (timeline title and clip name)
+ * @param transcription - Transcription segments (subtitle timing; empty uses scene narration)
+ * @param scenes - Scenes with OCR and narration text
+ * @param videoMetadata - Video metadata (duration, fps, dimensions)
+ * @param resultDocument - Structured JSON result (its topic groups are the chapter source)
+ * @param warningCollector - Optional collector for non-fatal export failures
+ * @returns Paths of successfully written export files, keyed by format
+ */
+export async function generateExportFiles(
+  basePath: string,
+  projectTitle: string,
+  transcription: TranscriptionSegment[],
+  scenes: SceneWithNarration[],
+  videoMetadata: VideoMetadata,
+  resultDocument: ResultDocument,
+  warningCollector?: WarningCollector
+): Promise<ExportFilePaths> {
+  const exportPaths: ExportFilePaths = {};
+
+  const writeExport = async (format: ExportFormat, render: () => string): Promise<void> => {
+    const exportPath = `${basePath}.${format}`;
+    try {
+      await fsPromises.writeFile(exportPath, render(), 'utf-8');
+      exportPaths[format] = exportPath;
+      console.log(`  ✓ ${format.toUpperCase()} file created: ${exportPath}`);
+    } catch (e) {
+      console.warn(`  ⚠️ Failed to generate ${format.toUpperCase()} file: ${e}`);
+      warningCollector?.add(`${format.toUpperCase()} export could not be generated`);
+    }
+  };
+
+  const cues = buildSubtitleCues(transcription, scenes, { videoDuration: videoMetadata.duration });
+  await writeExport('srt', () => generateSrt(cues));
+  await writeExport('vtt', () => generateWebVtt(cues));
+
+  const timelineScenes = scenes.map(s => ({
+    sceneNumber: s.sceneNumber,
+    startTime: s.startTime,
+    endTime: s.endTime,
+    ocrText: s.ocrText || '',
+    ocrTranslations: Object.fromEntries(
+      Object.entries(s.translations ?? {}).map(([language, translation]) => [language, translation?.ocrText ?? ''])
+    ),
+  }));
+  const timelineOptions = {
+    title: projectTitle,
+    fps: videoMetadata.fps,
+    dropFrame: videoMetadata.dropFrame,
+    sourceFileName: projectTitle,
+    width: videoMetadata.width,
+    height: videoMetadata.height,
+  };
+  await writeExport('edl', () => generateEdl(timelineScenes, timelineOptions));
+  await writeExport('fcpxml', () => generateFcpxml(timelineScenes, timelineOptions));
+  await writeExport('json', () => JSON.stringify(resultDocument, null, 2));
+  await writeExport('txt', () => generateChapterText(buildChapters(resultDocument.topicGroups, videoMetadata.duration), videoMetadata.duration));
+
+  for (const language of resultDocument.translationLanguages ?? []) {
+    const translatedScenes = scenes.map(s => ({
+      startTime: s.startTime,
+      endTime: s.endTime,
+      narrationText: s.translations?.[language]?.narrationText ?? '',
+    }));
+    if (translatedScenes.some(s => s.narrationText.trim() !== '')) {
+      const translatedCues = buildSubtitleCues([], translatedScenes, { videoDuration: videoMetadata.duration });
+      await writeExport(`${language}.srt`, () => generateSrt(translatedCues));
+      await writeExport(`${language}.vtt`, () => generateWebVtt(translatedCues));
+    }
+
+    // Untranslated titles keep the original (buildChapters falls back to "Topic N" without any)
+    const translatedTopics = resultDocument.topicGroups.map(group => ({
+      ...group,
+      title: group.titleTranslations?.[language] ?? group.title,
+    }));
+    await writeExport(`${language}.txt`, () => generateChapterText(buildChapters(translatedTopics, videoMetadata.duration), videoMetadata.duration));
+  }
+
+  return exportPaths;
+}
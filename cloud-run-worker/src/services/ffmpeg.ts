@@ -10,7 +10,7 @@ import path from 'path';
 import { spawn, execSync } from 'child_process';
 import pLimit from 'p-limit';
 import { Scene, SceneCut, VideoMetadata } from '../types/excel.js';
-import { formatTimecode } from '../utils/timecode.js';
+import { formatTimecode, parseFrameRate, isDropFrameRate } from '../utils/timecode.js';
 import { TIMEOUTS } from '../config/timeouts.js';
 import type { TelopAnimation, PanAnimation } from './pysceneDetector.js';
 
@@ -18,6 +18,9 @@ import type { TelopAnimation, PanAnimation } from './pysceneDetector.js';
 // Balanced for 4 vCPU Cloud Run instance
 const FRAME_EXTRACTION_CONCURRENCY = 10;
 
+// Fallback frame rate when ffprobe reports none (e.g., "0/0" on some screen recordings)
+const DEFAULT_FPS = 30;
+
 /**
  * Progress callback for scene detection
  * @param currentTime - Current position in seconds
@@ -594,14 +597,21 @@ export async function getVideoMetadata(videoPath: string): Promise<VideoMetadata
         const width = videoStream.width;
         const height = videoStream.height;
         const aspectRatio = width / height;
+        // avg_frame_rate is reliable for VFR phone footage; r_frame_rate is the container fallback
+        const fps = parseFrameRate(videoStream.avg_frame_rate)
+          ?? parseFrameRate(videoStream.r_frame_rate)
+          ?? DEFAULT_FPS;
+        const dropFrame = isDropFrameRate(fps);
 
-        console.log(`📹 Video Metadata: ${width}x${height} (${aspectRatio.toFixed(2)}:1), ${duration}s`);
+        console.log(`📹 Video Metadata: ${width}x${height} (${aspectRatio.toFixed(2)}:1), ${duration}s, ${fps.toFixed(3)}fps${dropFrame ? ' (drop-frame)' : ''}`);
 
         resolve({
           width,
           height,
           aspectRatio,
-          duration
+          duration,
+          fps,
+          dropFrame
         });
       } catch (parseError) {
         console.error(`[Metadata] Parse error: ${parseError}`);
@@ -651,12 +661,15 @@ const BATCH_FRAME_EXTRACTION_CONCURRENCY = 4;
  * Used for batch processing where frames are extracted in batches
  * @param videoPath - Path to the video file
  * @param existingMetadata - Pre-fetched video metadata (optional)
+ * @param onProgress - Optional progress callback
+ * @param signal - Optional cancellation signal (kills the PySceneDetect process)
  * @returns Object containing scenes (without screenshots) and video metadata
  */
 export async function detectScenesOnly(
   videoPath: string,
   existingMetadata?: VideoMetadata,
   onProgress?: SceneDetectionProgressCallback,
+  signal?: AbortSignal,
 ): Promise<{ scenes: Scene[]; videoMetadata: VideoMetadata }> {
   console.log(`🎬 Starting scene detection (PySceneDetect, batch mode - no frame extraction)...`);
 
@@ -666,7 +679,7 @@ export async function detectScenesOnly(
 
   // Always use PySceneDetect ContentDetector
   const { detectWithPyScene } = await import('./pysceneDetector.js');
-  const pyResult = await detectWithPyScene(videoPath, videoMetadata.duration, onProgress);
+  const pyResult = await detectWithPyScene(videoPath, videoMetadata.duration, onProgress, signal);
   const cuts = pyResult.cuts;
   const telopAnimations = pyResult.telopAnimations;
   const panAnimations = pyResult.panAnimations;
@@ -0,0 +1,291 @@
+/**
+ * Glossary Service
+ *
+ * Applies an account's custom glossary (preferred spellings of product and
+ * staff names, their known misspellings and readings) to processing:
+ * - Whisper: preferred spellings as the transcription `prompt`
+ * - OCR: hints appended to OCR_PROMPT
+ * - After OCR: hard substitution of aliases with the preferred spelling
+ *   (the applied corrections are listed on the Statistics sheet)
+ * - LLM cleansing: authoritative terms in the prompt
+ *
+ * The glossary is managed from the app (/api/glossary, glossary_entries table).
+ * Turso only; in-memory in development (same dual mode as webhookService).
+ */
+
+import dotenv from 'dotenv';
+import { createClient, type Client } from '@libsql/client';
+import type { GlossaryCorrection } from '../types/shared.js';
+
+// Load environment variables
+dotenv.config();
+
+// ============================================================
+// Types
+// ============================================================
+
+/**
+ * One glossary entry (same shape as lib/glossary.ts in the app)
+ */
+export interface GlossaryEntry {
+  /** Preferred spelling */
+  term: string;
+  /** Misspellings replaced by `term` after OCR */
+  aliases: string[];
+  /** Reading (e.g. katakana) */
+  reading: string | null;
+}
+
+// ============================================================
+// Configuration
+// ============================================================
+
+/**
+ * Longest Whisper prompt (the API only uses the last 224 tokens;
+ * Japanese text is roughly one token per character)
+ */
+const MAX_WHISPER_PROMPT_CHARS = 200;
+
+// ============================================================
+// Storage (Turso or in-memory)
+// ============================================================
+
+// In-memory storage (development mode and tests): userId → entries
+const inMemoryGlossaries = new Map<string, GlossaryEntry[]>();
+
+// Turso client (lazy initialization, table created on first use)
+let tursoReady: Promise<Client | null> | null = null;
+
+/**
+ * Lazy initialization of the Turso client
+ * Creates the table if missing (see lib/turso-migrations/013_create_glossary_entries.sql)
+ */
+function getTursoClient(): Promise<Client | null> {
+  if (tursoReady) {
+    return tursoReady;
+  }
+
+  const useTurso = process.env.NODE_ENV === 'production' || process.env.USE_TURSO === 'true';
+
+  if (!useTurso) {
+    tursoReady = Promise.resolve(null);
+    return tursoReady;
+  }
+
+  if (!process.env.TURSO_DATABASE_URL || !process.env.TURSO_AUTH_TOKEN) {
+    console.error('[Glossary] Missing Turso credentials, falling back to in-memory mode');
+    tursoReady = Promise.resolve(null);
+    return tursoReady;
+  }
+
+  tursoReady = (async () => {
+    try {
+      const client = createClient({
+        url: process.env.TURSO_DATABASE_URL!,
+        authToken: process.env.TURSO_AUTH_TOKEN!,
+      });
+      await client.execute(`CREATE TABLE IF NOT EXISTS glossary_entries (
+        user_id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        term TEXT NOT NULL,
+        aliases TEXT NOT NULL DEFAULT '[]',
+        reading TEXT,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (user_id, position)
+      )`);
+      return client;
+    } catch (error) {
+      console.error('[Glossary] Failed to initialize Turso, falling back to in-memory mode:', error);
+      return null;
+    }
+  })();
+
+  return tursoReady;
+}
+
+/**
+ * Set an account's glossary in in-memory mode (development and tests only)
+ */
+export function setInMemoryGlossary(userId: string, entries: GlossaryEntry[]): void {
+  inMemoryGlossaries.set(userId, entries);
+}
+
+/**
+ * Clear all in-memory glossaries (tests only)
+ */
+export function resetInMemoryGlossaries(): void {
+  inMemoryGlossaries.clear();
+}
+
+/**
+ * Load an account's glossary
+ *
+ * Best-effort: a missing or unreadable glossary must never fail processing,
+ * so errors are logged and an empty glossary is returned.
+ *
+ * @param userId - Owner of the upload
+ * @returns Entries in display order (empty when none are defined)
+ */
+export async function loadGlossary(userId: string): Promise<GlossaryEntry[]> {
+  try {
+    const client = await getTursoClient();
+
+    if (client) {
+      const result = await client.execute({
+        sql: 'SELECT term, aliases, reading FROM glossary_entries WHERE user_id = ? ORDER BY position',
+        args: [userId],
+      });
+      return result.rows.map(row => ({
+        term: row.term as string,
+        aliases: JSON.parse((row.aliases as string) || '[]') as string[],
+        reading: (row.reading as string | null) ?? null,
+      }));
+    }
+
+    return inMemoryGlossaries.get(userId) ?? [];
+  } catch (error) {
+    console.warn(`[Glossary] Failed to load glossary for user ${userId} (continuing without):`, error);
+    return [];
+  }
+}
+
+// ============================================================
+// Prompts
+// ============================================================
+
+/**
+ * Whisper `prompt`: preferred spellings, in glossary order, up to the prompt budget
+ * @returns Prompt text, or undefined when the glossary is empty
+ */
+export function buildWhisperPrompt(entries: GlossaryEntry[]): string | undefined {
+  let prompt = '';
+  for (const { term } of entries) {
+    const next = prompt ? `${prompt}、${term}` : term;
+    if (next.length > MAX_WHISPER_PROMPT_CHARS) break;
+    prompt = next;
+  }
+  return prompt || undefined;
+}
+
+/**
+ * Term list for OCR and LLM prompts: one line per term with its aliases and reading
+ */
+function formatTermLines(entries: GlossaryEntry[]): string {
+  return entries
+    .map(({ term, aliases, reading }) => {
+      const details = [
+        reading ? `reading: ${reading}` : '',
+        aliases.length > 0 ? `often misread as: ${aliases.join(', ')}` : '',
+      ].filter(Boolean);
+      return details.length > 0 ? `- ${term} (${details.join('; ')})` : `- ${term}`;
+    })
+    .join('\n');
+}
+
+/**
+ * OCR hints appended to OCR_PROMPT (see buildOCRPrompt)
+ * @returns Hint text, or undefined when the glossary is empty
+ */
+export function buildOCRHints(entries: GlossaryEntry[]): string | undefined {
+  if (entries.length === 0) return undefined;
+  return `These names may appear on screen. When text matches one of them, use exactly this spelling:\n${formatTermLines(entries)}`;
+}
+
+/**
+ * Glossary section of the LLM cleansing prompt
+ * @returns Prompt section, or undefined when the glossary is empty
+ */
+export function buildCleansingGlossary(entries: GlossaryEntry[]): string | undefined {
+  if (entries.length === 0) return undefined;
+  return `## 用語集（最優先）
+以下はユーザーが登録した正式表記です。OCRとナレーションの両方で、該当する語（読みや誤表記が一致するものを含む）は必ずこの表記に統一してください。用語集の表記を別の表記に変えてはいけません。
+${formatTermLines(entries)}`;
+}
+
+// ============================================================
+// Substitution
+// ============================================================
+
+// Replaced terms are held as one private-use character each until all aliases are applied
+const PLACEHOLDER_BASE = 0xe000;
+const PLACEHOLDER_PATTERN = /[\ue000-\uf8ff]/g;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Matcher for an alias: case-insensitive, and Latin/digit edges must not be
+ * inside a longer word ("AI" does not match in "MAIL")
+ */
+function aliasPattern(alias: string): RegExp {
+  const start = /^[A-Za-z0-9]/.test(alias) ? '(?<![A-Za-z0-9])' : '';
+  const end = /[A-Za-z0-9]$/.test(alias) ? '(?![A-Za-z0-9])' : '';
+  return new RegExp(`${start}${escapeRegExp(alias)}${end}`, 'gi');
+}
+
+/**
+ * Replace glossary aliases with their preferred spelling
+ *
+ * Longer aliases are replaced first; text already spelled as a term is left
+ * alone, so an alias contained in its own term (e.g. "ABC" in "ABC株式会社")
+ * is not duplicated.
+ *
+ * @param texts - Texts to correct (e.g. per-scene OCR text)
+ * @param entries - Glossary
+ * @returns Corrected texts (same order) and the replacements made, most frequent first
+ */
+export function applyGlossarySubstitutions(
+  texts: string[],
+  entries: GlossaryEntry[]
+): { texts: string[]; corrections: GlossaryCorrection[] } {
+  const rules = entries
+    .flatMap(({ term, aliases }, index) => aliases.map(alias => ({ alias, term, index, pattern: aliasPattern(alias) })))
+    .sort((a, b) => b.alias.length - a.alias.length);
+
+  if (rules.length === 0) {
+    return { texts: [...texts], corrections: [] };
+  }
+
+  // Protect existing terms: split them out and only rewrite the text in between
+  const termPattern = new RegExp(
+    [...new Set(entries.map(entry => entry.term))]
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp)
+      .join('|'),
+    'g'
+  );
+
+  const counts = new Map<string, GlossaryCorrection>();
+
+  const correctSegment = (segment: string): string => {
+    let result = segment;
+    for (const { term, index, pattern } of rules) {
+      result = result.replace(pattern, (match) => {
+        const key = `${match}\u0000${term}`;
+        const correction = counts.get(key) ?? { from: match, to: term, count: 0 };
+        correction.count++;
+        counts.set(key, correction);
+        // Private-use placeholder keeps a replaced term from being matched by shorter aliases
+        return String.fromCharCode(PLACEHOLDER_BASE + index);
+      });
+    }
+    return result.replace(PLACEHOLDER_PATTERN, (placeholder) =>
+      entries[placeholder.charCodeAt(0) - PLACEHOLDER_BASE]?.term ?? placeholder
+    );
+  };
+
+  const corrected = texts.map(text => {
+    if (!text) return text;
+    let output = '';
+    let lastIndex = 0;
+    for (const match of text.matchAll(termPattern)) {
+      output += correctSegment(text.slice(lastIndex, match.index)) + match[0];
+      lastIndex = match.index! + match[0].length;
+    }
+    return output + correctSegment(text.slice(lastIndex));
+  });
+
+  const corrections = Array.from(counts.values()).sort((a, b) => b.count - a.count || a.to.localeCompare(b.to));
+  return { texts: corrected, corrections };
+}
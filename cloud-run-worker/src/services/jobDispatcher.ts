@@ -0,0 +1,218 @@
+/**
+ * Job Dispatcher
+ *
+ * Runs queued jobs (see jobQueue.ts) on this worker instance, at most
+ * WORKER_CONCURRENCY at a time. Dispatch is triggered by /process after each
+ * enqueue, when a job finishes, and by a poll timer so an idle instance picks up
+ * jobs enqueued through other instances. While jobs run, their queue leases are
+ * renewed every quarter of JOB_LEASE_MS (see jobQueue.ts).
+ *
+ * Jobs run in the background after /process has responded, so the service must
+ * keep CPU allocated between requests (Cloud Run --no-cpu-throttling, see deploy.sh).
+ * Request-based autoscaling does not see the queue: capacity comes from
+ * --min-instances (idle instances claim queued jobs on their next poll).
+ */
+
+import os from 'os';
+import { processVideo } from './videoProcessor.js';
+import { getStatus, updateStatus } from './statusManager.js';
+import { claimNextJob, finishJob, getJobLeaseMs, listQueuedJobs, renewJobLeases, type QueuedJob } from './jobQueue.js';
+import type { ProcessingStatusType } from '../types/shared.js';
+
+// ============================================================
+// Configuration
+// ============================================================
+
+const DEFAULT_CONCURRENCY = 1; // Video processing is CPU/memory heavy: one job per instance
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+/** Identifies this instance on claimed queue rows */
+export const WORKER_ID = `${process.env.K_REVISION || 'local'}/${os.hostname()}/${process.pid}`;
+
+/**
+ * Maximum number of jobs this instance runs at once (WORKER_CONCURRENCY, min 1)
+ */
+export function getWorkerConcurrency(): number {
+  const value = parseInt(process.env.WORKER_CONCURRENCY || String(DEFAULT_CONCURRENCY), 10);
+  return Number.isFinite(value) && value >= 1 ? value : DEFAULT_CONCURRENCY;
+}
+
+// ============================================================
+// Dispatcher State
+// ============================================================
+
+const runningJobs = new Map<string, Promise<void>>();
+let pollTimer: NodeJS.Timeout | null = null;
+let leaseTimer: NodeJS.Timeout | null = null;
+let stopped = false;
+let dispatching: Promise<void> | null = null;
+let dispatchRequested = false;
+let queueChanged = false;
+
+/**
+ * Start polling the queue
+ */
+export function startJobDispatcher(): void {
+  if (pollTimer) return;
+
+  stopped = false;
+  const intervalMs = parseInt(process.env.JOB_QUEUE_POLL_INTERVAL_MS || String(DEFAULT_POLL_INTERVAL_MS), 10);
+  pollTimer = setInterval(() => {
+    dispatchJobs().catch((err) => console.error('[JobDispatcher] Poll failed:', err));
+  }, intervalMs);
+  leaseTimer = setInterval(() => {
+    renewJobLeases(WORKER_ID, [...runningJobs.keys()]).catch((err) => {
+      console.error('[JobDispatcher] Lease renewal failed:', err);
+    });
+  }, getJobLeaseMs() / 4);
+
+  console.log(`[JobDispatcher] Started (worker=${WORKER_ID}, concurrency=${getWorkerConcurrency()}, poll=${intervalMs}ms)`);
+  dispatchJobs().catch((err) => console.error('[JobDispatcher] Initial dispatch failed:', err));
+}
+
+/**
+ * Stop claiming new jobs (graceful shutdown). Running jobs are not interrupted.
+ * Leases are no longer renewed: the shutdown handler marks running jobs interrupted,
+ * and a job it could not mark is recovered once its lease expires.
+ */
+export function stopJobDispatcher(): void {
+  stopped = true;
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+  if (leaseTimer) {
+    clearInterval(leaseTimer);
+    leaseTimer = null;
+  }
+}
+
+// ============================================================
+// Dispatch
+// ============================================================
+
+/**
+ * Claim queued jobs until all concurrency slots are busy
+ *
+ * Calls made while a dispatch is in flight are coalesced into one extra pass.
+ *
+ * @returns Resolves once the claimed jobs have been started (not finished)
+ */
+export function dispatchJobs(): Promise<void> {
+  if (dispatching) {
+    dispatchRequested = true;
+    return dispatching;
+  }
+
+  dispatching = (async () => {
+    do {
+      dispatchRequested = false;
+      await fillSlots();
+    } while (dispatchRequested && !stopped);
+  })().finally(() => {
+    dispatching = null;
+  });
+
+  return dispatching;
+}
+
+/**
+ * Dispatch after a new job was enqueued on this instance
+ *
+ * Queue positions are refreshed inside the dispatch pass, so they are never
+ * written concurrently with this instance's own claims.
+ */
+export function notifyJobEnqueued(): Promise<void> {
+  queueChanged = true;
+  return dispatchJobs();
+}
+
+/**
+ * One dispatch pass: claim and start jobs while slots are free
+ */
+async function fillSlots(): Promise<void> {
+  let claimed = 0;
+
+  while (!stopped && runningJobs.size < getWorkerConcurrency()) {
+    const job = await claimNextJob(WORKER_ID);
+    if (!job) break;
+
+    claimed++;
+    const run = runJob(job).finally(() => {
+      runningJobs.delete(job.uploadId);
+      if (!stopped) {
+        dispatchJobs().catch((err) => console.error('[JobDispatcher] Dispatch after completion failed:', err));
+      }
+    });
+    runningJobs.set(job.uploadId, run);
+  }
+
+  // Everyone behind the claimed jobs moved up; a priority insert moves jobs down
+  if (claimed > 0 || queueChanged) {
+    queueChanged = false;
+    await refreshQueuePositions();
+  }
+}
+
+/**
+ * Run one claimed job to completion and record the outcome in the queue
+ */
+async function runJob(job: QueuedJob): Promise<void> {
+  const waitedSec = Math.round((Date.now() - new Date(job.enqueuedAt).getTime()) / 1000);
+  const kind = job.rerunFrom ? `rerun from ${job.rerunFrom}, ` : '';
+  console.log(`[${job.uploadId}] 🚦 [JobDispatcher] Starting job (${kind}plan=${job.planType}, waited ${waitedSec}s, running=${runningJobs.size + 1}/${getWorkerConcurrency()})`);
+
+  try {
+    // processVideo reports its own failures via failStatus() instead of throwing
+    await processVideo(job.uploadId, job.r2Key, job.fileName, job.userId, job.dataConsent, job.options, job.sourceUrl);
+    if (stopped) {
+      // Interrupted by shutdown: the shutdown handler marks the job for recovery
+      return;
+    }
+    const finalStatus = await getStatus(job.uploadId).catch(() => null);
+    await finishJob(job.uploadId, getJobOutcome(finalStatus?.status));
+  } catch (error) {
+    console.error(`[${job.uploadId}] [JobDispatcher] Job failed:`, error);
+    await finishJob(job.uploadId, 'failed').catch((err) => {
+      console.error(`[${job.uploadId}] [JobDispatcher] Failed to record job failure:`, err);
+    });
+  }
+}
+
+/**
+ * Map the final ProcessingStatus of a job to its queue state
+ */
+function getJobOutcome(status: ProcessingStatusType | undefined): 'completed' | 'failed' | 'cancelled' {
+  if (status === 'error') return 'failed';
+  if (status === 'cancelled') return 'cancelled';
+  return 'completed';
+}
+
+// ============================================================
+// Queue Position Reporting
+// ============================================================
+
+/**
+ * Mark an upload as queued and report its position in ProcessingStatus
+ */
+export async function reportQueuePosition(uploadId: string, queuePosition: number): Promise<void> {
+  await updateStatus(uploadId, {
+    status: 'queued',
+    stage: 'queued',
+    progress: 0,
+    metadata: { queuePosition },
+  });
+}
+
+/**
+ * Rewrite the queue position of every queued upload (after claims and priority inserts)
+ */
+async function refreshQueuePositions(): Promise<void> {
+  const queued = await listQueuedJobs();
+
+  for (const [index, job] of queued.entries()) {
+    await reportQueuePosition(job.uploadId, index + 1).catch((err) => {
+      console.warn(`[${job.uploadId}] [JobDispatcher] Failed to report queue position:`, err);
+    });
+  }
+}
@@ -0,0 +1,622 @@
+/**
+ * Job Queue Service
+ *
+ * Persistent processing queue stored in Turso next to processing_status
+ * (in-memory in development, same dual mode as statusManager).
+ *
+ * Jobs run in (priority, enqueued_at) order: paid plans first, FIFO within a plan.
+ * Claiming is a single conditional UPDATE, so several worker instances can
+ * share one queue without running the same upload twice.
+ *
+ * A claimed job holds a lease that the running instance renews (renewJobLeases).
+ * A job whose lease expired was abandoned by an instance killed without a
+ * shutdown signal (OOM, SIGKILL); jobRecovery.ts puts it back in the queue.
+ */
+
+import dotenv from 'dotenv';
+import { createClient, type Client } from '@libsql/client';
+import type { ProcessingOptions, RerunStep } from '../types/shared.js';
+
+// Load environment variables
+dotenv.config();
+
+// ============================================================
+// Types
+// ============================================================
+
+export type JobState = 'queued' | 'running' | 'interrupted' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * A queued /process request
+ */
+export interface QueuedJob {
+  uploadId: string;
+  userId: string;
+  r2Key: string;
+  fileName: string;
+  dataConsent: boolean;
+  options: ProcessingOptions;
+  planType: string;
+  sourceUrl?: string; // import from URL (downloaded into r2Key before processing)
+  rerunFrom?: RerunStep; // stage rerun (r2Key is the source video retained by the checkpoint)
+  priority: number;
+  state: JobState;
+  workerId?: string;
+  enqueuedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  cancelRequestedAt?: string;
+  leaseExpiresAt?: string; // while running: renewed by the instance running the job
+  attempts: number; // times the job was claimed since it was enqueued
+}
+
+export type EnqueueJobInput = Pick<
+  QueuedJob,
+  'uploadId' | 'userId' | 'r2Key' | 'fileName' | 'dataConsent' | 'options' | 'planType' | 'sourceUrl' | 'rerunFrom'
+>;
+
+/** States in which an upload already has a job that will run (or is running) */
+export const ACTIVE_JOB_STATES: readonly JobState[] = ['queued', 'running', 'interrupted'];
+
+export type EnqueueResult =
+  | { enqueued: true; queuePosition: number }
+  | { enqueued: false; state: JobState };
+
+/**
+ * Outcome of a cancellation request
+ * - cancelled: the job had not started (or was waiting to resume) and will not run
+ * - cancelling: the job is running; the instance running it stops it (see cancellation.ts)
+ */
+export type CancelJobResult =
+  | { outcome: 'cancelled' | 'cancelling' }
+  | { outcome: 'not_found' }
+  | { outcome: 'not_cancellable'; state: JobState };
+
+// ============================================================
+// Configuration
+// ============================================================
+
+/**
+ * Queue priority per plan (lower runs first). Unknown plans are treated as free.
+ */
+export const PLAN_PRIORITIES: Record<string, number> = {
+  pro: 0,
+  basic: 1,
+  teacher: 1,
+  free: 2,
+};
+
+/**
+ * Resolve the queue priority for a plan
+ */
+export function getPlanPriority(planType: string | undefined): number {
+  return PLAN_PRIORITIES[planType ?? 'free'] ?? PLAN_PRIORITIES.free;
+}
+
+const DEFAULT_JOB_LEASE_MS = 120000;
+
+/**
+ * How long a claimed job stays owned without a lease renewal (JOB_LEASE_MS, default 2 min)
+ */
+export function getJobLeaseMs(): number {
+  const value = parseInt(process.env.JOB_LEASE_MS || String(DEFAULT_JOB_LEASE_MS), 10);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_JOB_LEASE_MS;
+}
+
+function leaseExpiry(from: number = Date.now()): string {
+  return new Date(from + getJobLeaseMs()).toISOString();
+}
+
+// ============================================================
+// Storage (Turso or in-memory)
+// ============================================================
+
+// In-memory queue (development mode only)
+const inMemoryJobs = new Map<string, QueuedJob>();
+
+// Turso client (lazy initialization, table created on first use)
+let tursoReady: Promise<Client | null> | null = null;
+
+/**
+ * Lazy initialization of the Turso client
+ * Creates processing_jobs if missing (see lib/turso-migrations/005_create_processing_jobs.sql)
+ */
+function getTursoClient(): Promise<Client | null> {
+  if (tursoReady) {
+    return tursoReady;
+  }
+
+  const useTurso = process.env.NODE_ENV === 'production' || process.env.USE_TURSO === 'true';
+
+  if (!useTurso) {
+    console.log('[JobQueue] In-memory mode (development)');
+    tursoReady = Promise.resolve(null);
+    return tursoReady;
+  }
+
+  if (!process.env.TURSO_DATABASE_URL || !process.env.TURSO_AUTH_TOKEN) {
+    console.error('[JobQueue] Missing Turso credentials, falling back to in-memory mode');
+    tursoReady = Promise.resolve(null);
+    return tursoReady;
+  }
+
+  tursoReady = (async () => {
+    try {
+      const client = createClient({
+        url: process.env.TURSO_DATABASE_URL!,
+        authToken: process.env.TURSO_AUTH_TOKEN!,
+      });
+      await client.execute(`CREATE TABLE IF NOT EXISTS processing_jobs (
+        upload_id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        r2_key TEXT NOT NULL,
+        file_name TEXT,
+        data_consent INTEGER NOT NULL DEFAULT 0,
+        processing_options TEXT,
+        plan_type TEXT NOT NULL DEFAULT 'free',
+        priority INTEGER NOT NULL DEFAULT 2,
+        state TEXT NOT NULL DEFAULT 'queued',
+        worker_id TEXT,
+        enqueued_at TEXT NOT NULL,
+        started_at TEXT,
+        finished_at TEXT,
+        cancel_requested_at TEXT,
+        source_url TEXT,
+        lease_expires_at TEXT,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        rerun_from TEXT
+      )`);
+      // Auto-migrate tables created before cancellation (007_add_cancel_requested_at_to_processing_jobs.sql)
+      await client.execute('ALTER TABLE processing_jobs ADD COLUMN cancel_requested_at TEXT').catch(() => {});
+      // Auto-migrate tables created before URL import (010_add_source_url_to_processing_jobs.sql)
+      await client.execute('ALTER TABLE processing_jobs ADD COLUMN source_url TEXT').catch(() => {});
+      // Auto-migrate tables created before job leases (014_add_lease_to_processing_jobs.sql)
+      await client.execute('ALTER TABLE processing_jobs ADD COLUMN lease_expires_at TEXT').catch(() => {});
+      await client.execute('ALTER TABLE processing_jobs ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0').catch(() => {});
+      // Auto-migrate tables created before queued stage reruns (015_add_rerun_from_to_processing_jobs.sql)
+      await client.execute('ALTER TABLE processing_jobs ADD COLUMN rerun_from TEXT').catch(() => {});
+      await client.execute(
+        'CREATE INDEX IF NOT EXISTS idx_processing_jobs_queue ON processing_jobs(state, priority, enqueued_at)'
+      );
+      console.log('[JobQueue] Turso mode enabled');
+      return client;
+    } catch (error) {
+      console.error('[JobQueue] Failed to initialize Turso, falling back to in-memory mode:', error);
+      return null;
+    }
+  })();
+
+  return tursoReady;
+}
+
+/**
+ * Whether a running job's lease ended before `at` (in-memory counterpart of `lease_expires_at < ?`)
+ */
+function isLeaseExpired(job: QueuedJob, at: string): boolean {
+  return job.leaseExpiresAt !== undefined && job.leaseExpiresAt < at;
+}
+
+/**
+ * Queue order: priority, then enqueue time (FIFO)
+ */
+function compareQueueOrder(a: QueuedJob, b: QueuedJob): number {
+  return a.priority - b.priority || a.enqueuedAt.localeCompare(b.enqueuedAt);
+}
+
+// ============================================================
+// Queue Operations
+// ============================================================
+
+/**
+ * Add a job to the queue
+ *
+ * Re-enqueuing an upload whose previous job finished (re-processing) or was
+ * abandoned (running with an expired lease) replaces it; an upload that is
+ * still queued or running is reported as a duplicate.
+ *
+ * @returns Queue position of the new job, or the state of the existing one
+ */
+export async function enqueueJob(input: EnqueueJobInput): Promise<EnqueueResult> {
+  const job: QueuedJob = {
+    ...input,
+    priority: getPlanPriority(input.planType),
+    state: 'queued',
+    enqueuedAt: new Date().toISOString(),
+    attempts: 0,
+  };
+
+  const client = await getTursoClient();
+  if (client) {
+    const result = await client.execute({
+      sql: `INSERT INTO processing_jobs
+            (upload_id, user_id, r2_key, file_name, data_consent, processing_options, plan_type, source_url, rerun_from, priority, state, enqueued_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'queued', ?)
+            ON CONFLICT(upload_id) DO UPDATE SET
+              user_id = excluded.user_id,
+              r2_key = excluded.r2_key,
+              file_name = excluded.file_name,
+              data_consent = excluded.data_consent,
+              processing_options = excluded.processing_options,
+              plan_type = excluded.plan_type,
+              source_url = excluded.source_url,
+              rerun_from = excluded.rerun_from,
+              priority = excluded.priority,
+              state = 'queued',
+              worker_id = NULL,
+              enqueued_at = excluded.enqueued_at,
+              started_at = NULL,
+              finished_at = NULL,
+              cancel_requested_at = NULL,
+              lease_expires_at = NULL,
+              attempts = 0
+            WHERE processing_jobs.state IN ('completed', 'failed', 'cancelled')
+               OR (processing_jobs.state = 'running' AND processing_jobs.lease_expires_at < excluded.enqueued_at)`,
+      args: [
+        job.uploadId,
+        job.userId,
+        job.r2Key,
+        job.fileName,
+        job.dataConsent ? 1 : 0,
+        JSON.stringify(job.options),
+        job.planType,
+        job.sourceUrl ?? null,
+        job.rerunFrom ?? null,
+        job.priority,
+        job.enqueuedAt,
+      ],
+    });
+
+    if (result.rowsAffected === 0) {
+      const existing = await getJob(job.uploadId);
+      return { enqueued: false, state: existing?.state ?? 'running' };
+    }
+  } else {
+    const existing = inMemoryJobs.get(job.uploadId);
+    const abandoned = existing?.state === 'running' && isLeaseExpired(existing, job.enqueuedAt);
+    if (existing && ACTIVE_JOB_STATES.includes(existing.state) && !abandoned) {
+      return { enqueued: false, state: existing.state };
+    }
+    inMemoryJobs.set(job.uploadId, job);
+  }
+
+  const queuePosition = (await getQueuePosition(job.uploadId)) ?? 1;
+  console.log(`[${job.uploadId}] [JobQueue] Enqueued (plan=${job.planType}, priority=${job.priority}, position=${queuePosition})`);
+  return { enqueued: true, queuePosition };
+}
+
+/**
+ * Claim the next queued job for this worker
+ *
+ * @param workerId - Instance identifier stored on the claimed row
+ * @returns The claimed job (state 'running'), or null when the queue is empty
+ */
+export async function claimNextJob(workerId: string): Promise<QueuedJob | null> {
+  const now = new Date().toISOString();
+  const client = await getTursoClient();
+
+  if (client) {
+    // The state = 'queued' guard makes a concurrent claim by another instance a no-op
+    const result = await client.execute({
+      sql: `UPDATE processing_jobs
+            SET state = 'running', worker_id = ?, started_at = ?, lease_expires_at = ?, attempts = attempts + 1
+            WHERE upload_id = (
+              SELECT upload_id FROM processing_jobs
+              WHERE state = 'queued'
+              ORDER BY priority ASC, enqueued_at ASC
+              LIMIT 1
+            ) AND state = 'queued'
+            RETURNING *`,
+      args: [workerId, now, leaseExpiry()],
+    });
+
+    return result.rows.length > 0 ? mapDbRowToJob(result.rows[0]) : null;
+  }
+
+  const next = [...inMemoryJobs.values()].filter(job => job.state === 'queued').sort(compareQueueOrder)[0];
+  if (!next) return null;
+
+  const claimed: QueuedJob = { ...next, state: 'running', workerId, startedAt: now, leaseExpiresAt: leaseExpiry(), attempts: next.attempts + 1 };
+  inMemoryJobs.set(claimed.uploadId, claimed);
+  return claimed;
+}
+
+/**
+ * Extend the lease of jobs this instance is running
+ *
+ * @param workerId - Instance identifier the jobs were claimed with
+ * @param uploadIds - Jobs running on this instance
+ */
+export async function renewJobLeases(workerId: string, uploadIds: string[]): Promise<void> {
+  if (uploadIds.length === 0) return;
+
+  const leaseExpiresAt = leaseExpiry();
+  const client = await getTursoClient();
+
+  if (client) {
+    await client.execute({
+      sql: `UPDATE processing_jobs SET lease_expires_at = ?
+            WHERE state = 'running' AND worker_id = ?
+              AND upload_id IN (${uploadIds.map(() => '?').join(', ')})`,
+      args: [leaseExpiresAt, workerId, ...uploadIds],
+    });
+    return;
+  }
+
+  for (const uploadId of uploadIds) {
+    const job = inMemoryJobs.get(uploadId);
+    if (job?.state === 'running' && job.workerId === workerId) {
+      inMemoryJobs.set(uploadId, { ...job, leaseExpiresAt });
+    }
+  }
+}
+
+/**
+ * List running jobs whose lease has expired (the instance running them is gone)
+ */
+export async function listAbandonedJobs(): Promise<QueuedJob[]> {
+  const now = new Date().toISOString();
+  const client = await getTursoClient();
+
+  if (client) {
+    const result = await client.execute({
+      sql: `SELECT * FROM processing_jobs WHERE state = 'running' AND lease_expires_at < ? ORDER BY priority ASC, enqueued_at ASC`,
+      args: [now],
+    });
+    return result.rows.map(row => mapDbRowToJob(row));
+  }
+
+  return [...inMemoryJobs.values()].filter(job => job.state === 'running' && isLeaseExpired(job, now)).sort(compareQueueOrder);
+}
+
+/**
+ * Take over an abandoned job: put it back in the queue, or end it
+ * The expired-lease guard makes a concurrent release by another instance
+ * (or a late renewal by the original one) win only once.
+ *
+ * @param state - 'queued' to run it again (keeps its queue place), or its final state
+ * @returns false when the job is no longer running with an expired lease
+ */
+export async function releaseAbandonedJob(uploadId: string, state: 'queued' | 'failed' | 'cancelled'): Promise<boolean> {
+  const now = new Date().toISOString();
+  const finishedAt = state === 'queued' ? null : now;
+  const client = await getTursoClient();
+
+  if (client) {
+    const result = await client.execute({
+      sql: `UPDATE processing_jobs
+            SET state = ?, worker_id = NULL, started_at = NULL, lease_expires_at = NULL, finished_at = ?
+            WHERE upload_id = ? AND state = 'running' AND lease_expires_at < ?`,
+      args: [state, finishedAt, uploadId, now],
+    });
+    return result.rowsAffected === 1;
+  }
+
+  const job = inMemoryJobs.get(uploadId);
+  if (job?.state !== 'running' || !isLeaseExpired(job, now)) return false;
+  inMemoryJobs.set(uploadId, {
+    ...job,
+    state,
+    workerId: undefined,
+    startedAt: undefined,
+    leaseExpiresAt: undefined,
+    finishedAt: finishedAt ?? undefined,
+  });
+  return true;
+}
+
+/**
+ * Record the outcome of a claimed job
+ */
+export async function finishJob(uploadId: string, state: 'completed' | 'failed' | 'cancelled'): Promise<void> {
+  const now = new Date().toISOString();
+  const client = await getTursoClient();
+
+  if (client) {
+    await client.execute({
+      sql: 'UPDATE processing_jobs SET state = ?, finished_at = ? WHERE upload_id = ?',
+      args: [state, now, uploadId],
+    });
+  } else {
+    const job = inMemoryJobs.get(uploadId);
+    if (job) inMemoryJobs.set(uploadId, { ...job, state, finishedAt: now });
+  }
+
+  console.log(`[${uploadId}] [JobQueue] Job ${state}`);
+}
+
+/**
+ * Mark a running job as interrupted by a graceful shutdown (see jobRecovery.ts)
+ */
+export async function markJobInterrupted(uploadId: string): Promise<void> {
+  const client = await getTursoClient();
+
+  if (client) {
+    await client.execute({
+      sql: `UPDATE processing_jobs SET state = 'interrupted' WHERE upload_id = ? AND state = 'running'`,
+      args: [uploadId],
+    });
+  } else {
+    const job = inMemoryJobs.get(uploadId);
+    if (job?.state === 'running') inMemoryJobs.set(uploadId, { ...job, state: 'interrupted' });
+  }
+
+  console.log(`[${uploadId}] [JobQueue] Job interrupted`);
+}
+
+/**
+ * Put an interrupted job back in the queue
+ * It keeps its priority and original enqueue time, so it runs before jobs enqueued after it.
+ *
+ * @returns false when the job does not exist or is not interrupted
+ */
+export async function requeueJob(uploadId: string): Promise<boolean> {
+  const client = await getTursoClient();
+
+  if (client) {
+    const result = await client.execute({
+      sql: `UPDATE processing_jobs
+            SET state = 'queued', worker_id = NULL, started_at = NULL
+            WHERE upload_id = ? AND state = 'interrupted'`,
+      args: [uploadId],
+    });
+    return result.rowsAffected === 1;
+  }
+
+  const job = inMemoryJobs.get(uploadId);
+  if (job?.state !== 'interrupted') return false;
+  inMemoryJobs.set(uploadId, { ...job, state: 'queued', workerId: undefined, startedAt: undefined });
+  return true;
+}
+
+/**
+ * Cancel a job on behalf of its user
+ *
+ * Jobs that have not started (or wait to resume after an interruption) are
+ * cancelled here. Running jobs are only flagged: the instance running the job
+ * picks the request up (listCancellationRequests) and stops processing.
+ */
+export async function requestJobCancellation(uploadId: string): Promise<CancelJobResult> {
+  const now = new Date().toISOString();
+  const client = await getTursoClient();
+
+  if (client) {
+    const notStarted = await client.execute({
+      sql: `UPDATE processing_jobs
+            SET state = 'cancelled', cancel_requested_at = ?, finished_at = ?
+            WHERE upload_id = ? AND state IN ('queued', 'interrupted')`,
+      args: [now, now, uploadId],
+    });
+    if (notStarted.rowsAffected === 1) {
+      console.log(`[${uploadId}] [JobQueue] Job cancelled before it ran`);
+      return { outcome: 'cancelled' };
+    }
+
+    const running = await client.execute({
+      sql: `UPDATE processing_jobs SET cancel_requested_at = ? WHERE upload_id = ? AND state = 'running'`,
+      args: [now, uploadId],
+    });
+    if (running.rowsAffected === 1) {
+      console.log(`[${uploadId}] [JobQueue] Cancellation requested for running job`);
+      return { outcome: 'cancelling' };
+    }
+  } else {
+    const job = inMemoryJobs.get(uploadId);
+    if (job?.state === 'queued' || job?.state === 'interrupted') {
+      inMemoryJobs.set(uploadId, { ...job, state: 'cancelled', cancelRequestedAt: now, finishedAt: now });
+      console.log(`[${uploadId}] [JobQueue] Job cancelled before it ran`);
+      return { outcome: 'cancelled' };
+    }
+    if (job?.state === 'running') {
+      inMemoryJobs.set(uploadId, { ...job, cancelRequestedAt: now });
+      console.log(`[${uploadId}] [JobQueue] Cancellation requested for running job`);
+      return { outcome: 'cancelling' };
+    }
+  }
+
+  const existing = await getJob(uploadId);
+  return existing ? { outcome: 'not_cancellable', state: existing.state } : { outcome: 'not_found' };
+}
+
+/**
+ * Filter running jobs down to the ones with a pending cancellation request
+ *
+ * @param uploadIds - Uploads running on the calling instance
+ * @returns Upload IDs whose cancellation was requested
+ */
+export async function listCancellationRequests(uploadIds: string[]): Promise<string[]> {
+  if (uploadIds.length === 0) return [];
+
+  const client = await getTursoClient();
+
+  if (client) {
+    const result = await client.execute({
+      sql: `SELECT upload_id FROM processing_jobs
+            WHERE state = 'running' AND cancel_requested_at IS NOT NULL
+              AND upload_id IN (${uploadIds.map(() => '?').join(', ')})`,
+      args: uploadIds,
+    });
+    return result.rows.map(row => row.upload_id as string);
+  }
+
+  return uploadIds.filter(uploadId => {
+    const job = inMemoryJobs.get(uploadId);
+    return job?.state === 'running' && job.cancelRequestedAt !== undefined;
+  });
+}
+
+/**
+ * Get a job by upload ID
+ */
+export async function getJob(uploadId: string): Promise<QueuedJob | null> {
+  const client = await getTursoClient();
+
+  if (client) {
+    const result = await client.execute({
+      sql: 'SELECT * FROM processing_jobs WHERE upload_id = ?',
+      args: [uploadId],
+    });
+    return result.rows.length > 0 ? mapDbRowToJob(result.rows[0]) : null;
+  }
+
+  return inMemoryJobs.get(uploadId) ?? null;
+}
+
+/**
+ * List queued (not yet claimed) jobs in run order
+ */
+export async function listQueuedJobs(): Promise<QueuedJob[]> {
+  const client = await getTursoClient();
+
+  if (client) {
+    const result = await client.execute(
+      `SELECT * FROM processing_jobs WHERE state = 'queued' ORDER BY priority ASC, enqueued_at ASC`
+    );
+    return result.rows.map(row => mapDbRowToJob(row));
+  }
+
+  return [...inMemoryJobs.values()].filter(job => job.state === 'queued').sort(compareQueueOrder);
+}
+
+/**
+ * Get the 1-based queue position of a queued job
+ *
+ * @returns Position (1 = next to run), or null when the job is not queued
+ */
+export async function getQueuePosition(uploadId: string): Promise<number | null> {
+  const queued = await listQueuedJobs();
+  const index = queued.findIndex(job => job.uploadId === uploadId);
+  return index === -1 ? null : index + 1;
+}
+
+/**
+ * Clear the in-memory queue (tests only)
+ */
+export function resetInMemoryQueue(): void {
+  inMemoryJobs.clear();
+}
+
+/**
+ * Map a processing_jobs row to QueuedJob
+ */
+function mapDbRowToJob(row: Record<string, unknown>): QueuedJob {
+  return {
+    uploadId: row.upload_id as string,
+    userId: row.user_id as string,
+    r2Key: row.r2_key as string,
+    fileName: (row.file_name as string | null) ?? '',
+    dataConsent: Number(row.data_consent) === 1,
+    options: row.processing_options ? JSON.parse(row.processing_options as string) : {},
+    planType: row.plan_type as string,
+    sourceUrl: (row.source_url as string | null) ?? undefined,
+    rerunFrom: (row.rerun_from as RerunStep | null) ?? undefined,
+    priority: Number(row.priority),
+    state: row.state as JobState,
+    workerId: (row.worker_id as string | null) ?? undefined,
+    enqueuedAt: row.enqueued_at as string,
+    startedAt: (row.started_at as string | null) ?? undefined,
+    finishedAt: (row.finished_at as string | null) ?? undefined,
+    cancelRequestedAt: (row.cancel_requested_at as string | null) ?? undefined,
+    leaseExpiresAt: (row.lease_expires_at as string | null) ?? undefined,
+    attempts: Number(row.attempts ?? 0),
+  };
+}
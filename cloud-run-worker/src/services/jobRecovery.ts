@@ -0,0 +1,198 @@
+/**
+ * Job Recovery
+ *
+ * Resumes jobs interrupted by a graceful shutdown (SIGTERM on scale-in or redeploy).
+ * The shutdown handler saves OCR progress, flags the checkpoint as interrupted and
+ * leaves the upload in the 'resuming' state. This routine runs at startup and
+ * periodically after that: it claims each interrupted checkpoint and puts the job
+ * back in the queue, where processVideo picks up from the checkpoint's currentStep.
+ *
+ * Jobs killed without a shutdown signal (OOM, SIGKILL) are not flagged. Their
+ * queue lease stops being renewed; once it expires the same routine re-queues
+ * them (processVideo resumes from whatever checkpoint was saved) until they
+ * have been claimed RESUME_RETRY_LIMIT times.
+ */
+
+import { cancelStatus, failStatus, updateStatus } from './statusManager.js';
+import { claimInterruptedCheckpoint, listInterruptedCheckpoints } from './checkpointService.js';
+import { finishJob, getJob, listAbandonedJobs, releaseAbandonedJob, requeueJob } from './jobQueue.js';
+
+// ============================================================
+// Configuration
+// ============================================================
+
+const DEFAULT_RESUME_RETRY_LIMIT = 3; // Interruptions before the upload is failed
+const DEFAULT_RECOVERY_INTERVAL_MS = 60000;
+
+/**
+ * Maximum number of interruptions an upload may resume from (RESUME_RETRY_LIMIT)
+ * A checkpoint resumes while its retryCount is under the limit.
+ */
+export function getResumeRetryLimit(): number {
+  const value = parseInt(process.env.RESUME_RETRY_LIMIT || String(DEFAULT_RESUME_RETRY_LIMIT), 10);
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_RESUME_RETRY_LIMIT;
+}
+
+export interface RecoveryResult {
+  resumed: string[];
+  failed: string[];
+}
+
+// ============================================================
+// Recovery
+// ============================================================
+
+let recoveryTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Run recovery now, then every RECOVERY_INTERVAL_MS
+ * (an interrupted instance may not be replaced, so running instances pick its jobs up)
+ *
+ * @param onRecovered - Called after a pass that re-queued jobs (e.g. to dispatch them)
+ */
+export function startJobRecovery(onRecovered: () => void): void {
+  if (recoveryTimer) return;
+
+  const runPass = () => {
+    Promise.all([recoverInterruptedJobs(), recoverAbandonedJobs()])
+      .then((results) => {
+        if (results.some(({ resumed }) => resumed.length > 0)) onRecovered();
+      })
+      .catch((err) => console.error('[JobRecovery] Recovery pass failed:', err));
+  };
+
+  const intervalMs = parseInt(process.env.RECOVERY_INTERVAL_MS || String(DEFAULT_RECOVERY_INTERVAL_MS), 10);
+  recoveryTimer = setInterval(runPass, intervalMs);
+  runPass();
+}
+
+/**
+ * Stop periodic recovery (graceful shutdown)
+ */
+export function stopJobRecovery(): void {
+  if (recoveryTimer) {
+    clearInterval(recoveryTimer);
+    recoveryTimer = null;
+  }
+}
+
+/**
+ * Re-queue every interrupted job whose checkpoint is under the retry limit
+ * Uploads over the limit (or without a queued job to resume) are failed.
+ *
+ * @returns Upload IDs that were re-queued and that were failed by this pass
+ */
+export async function recoverInterruptedJobs(): Promise<RecoveryResult> {
+  const result: RecoveryResult = { resumed: [], failed: [] };
+  const retryLimit = getResumeRetryLimit();
+  const checkpoints = await listInterruptedCheckpoints();
+
+  for (const checkpoint of checkpoints) {
+    const { uploadId } = checkpoint;
+
+    try {
+      // Another instance may be recovering the same checkpoint
+      if (!(await claimInterruptedCheckpoint(uploadId))) {
+        continue;
+      }
+
+      // Cancelled while waiting to resume: the cancel request already recorded the status
+      if ((await getJob(uploadId))?.state === 'cancelled') {
+        continue;
+      }
+
+      if (checkpoint.retryCount >= retryLimit) {
+        console.warn(`[${uploadId}] ❌ [JobRecovery] Interrupted ${checkpoint.retryCount} times (limit ${retryLimit}), giving up`);
+        await finishJob(uploadId, 'failed');
+        await failStatus(uploadId, 'Processing was interrupted repeatedly. Please try uploading again.');
+        result.failed.push(uploadId);
+        continue;
+      }
+
+      if (!(await requeueJob(uploadId))) {
+        // The queue row is gone or was replaced: nothing to resume
+        console.warn(`[${uploadId}] ❌ [JobRecovery] No interrupted job to resume`);
+        await failStatus(uploadId, 'Processing was interrupted. Please try uploading again.');
+        result.failed.push(uploadId);
+        continue;
+      }
+
+      const subTask = `Resuming from ${checkpoint.currentStep}`;
+      await updateStatus(uploadId, {
+        status: 'resuming',
+        subTask,
+        metadata: { subTask },
+      }).catch((err) => {
+        console.warn(`[${uploadId}] [JobRecovery] Failed to update status:`, err);
+      });
+
+      console.log(`[${uploadId}] 🔁 [JobRecovery] Re-queued from step ${checkpoint.currentStep} (interruption ${checkpoint.retryCount}/${retryLimit})`);
+      result.resumed.push(uploadId);
+    } catch (error) {
+      console.error(`[${uploadId}] [JobRecovery] Failed to recover:`, error);
+    }
+  }
+
+  if (checkpoints.length > 0) {
+    console.log(`[JobRecovery] Recovery pass: ${result.resumed.length} resumed, ${result.failed.length} failed`);
+  }
+
+  return result;
+}
+
+/**
+ * Re-queue every running job whose lease expired (its instance died without a shutdown signal)
+ * Jobs already claimed RESUME_RETRY_LIMIT times are failed (e.g. a video that
+ * keeps running the instance out of memory); cancelled jobs stay cancelled.
+ *
+ * @returns Upload IDs that were re-queued and that were failed by this pass
+ */
+export async function recoverAbandonedJobs(): Promise<RecoveryResult> {
+  const result: RecoveryResult = { resumed: [], failed: [] };
+  const retryLimit = getResumeRetryLimit();
+  const jobs = await listAbandonedJobs();
+
+  for (const job of jobs) {
+    const { uploadId } = job;
+
+    try {
+      if (job.cancelRequestedAt) {
+        if (await releaseAbandonedJob(uploadId, 'cancelled')) {
+          await cancelStatus(uploadId);
+        }
+        continue;
+      }
+
+      if (job.attempts >= retryLimit) {
+        // Another instance may be recovering the same job
+        if (!(await releaseAbandonedJob(uploadId, 'failed'))) continue;
+        console.warn(`[${uploadId}] ❌ [JobRecovery] Abandoned after ${job.attempts} attempts (limit ${retryLimit}), giving up`);
+        await failStatus(uploadId, 'Processing stopped unexpectedly. Please try uploading again.');
+        result.failed.push(uploadId);
+        continue;
+      }
+
+      if (!(await releaseAbandonedJob(uploadId, 'queued'))) continue;
+
+      const subTask = 'Restarting after a server failure';
+      await updateStatus(uploadId, {
+        status: 'resuming',
+        subTask,
+        metadata: { subTask },
+      }).catch((err) => {
+        console.warn(`[${uploadId}] [JobRecovery] Failed to update status:`, err);
+      });
+
+      console.log(`[${uploadId}] 🔁 [JobRecovery] Re-queued abandoned job (lease expired ${job.leaseExpiresAt}, attempt ${job.attempts}/${retryLimit})`);
+      result.resumed.push(uploadId);
+    } catch (error) {
+      console.error(`[${uploadId}] [JobRecovery] Failed to recover abandoned job:`, error);
+    }
+  }
+
+  if (jobs.length > 0) {
+    console.log(`[JobRecovery] Abandoned job pass: ${result.resumed.length} resumed, ${result.failed.length} failed`);
+  }
+
+  return result;
+}
@@ -74,6 +74,7 @@ const CLEANSING_PROMPT = `あなたはOCRテキストとナレーション（音
 - 元のテキストの意味を変えない
 - 修正が不要なテキストはそのまま返す
 - 空のテキストは空のまま返す
+- ナレーション行頭の話者ラベル（「Speaker A: 」など）と改行はそのまま残す
 - 必ず入力と同じ数の要素を同じ順序で返す
 
 ## 出力形式
@@ -86,9 +87,12 @@ const CLEANSING_PROMPT = `あなたはOCRテキストとナレーション（音
 /**
  * Run LLM cleansing on scene text data.
  * Returns original data unchanged if disabled or on failure.
+ *
+ * @param glossary - Account glossary section (see buildCleansingGlossary), added to every request
  */
 export async function cleanseScenesWithLLM(
-  scenes: SceneTextData[]
+  scenes: SceneTextData[],
+  glossary?: string
 ): Promise<CleansedResult[]> {
   const config = loadConfig();
 
@@ -120,7 +124,7 @@ export async function cleanseScenesWithLLM(
     console.log(`  📡 Processing chunk ${ci + 1}/${chunks.length} (${chunk.length} scenes)...`);
 
     try {
-      const cleansed = await processChunkWithRetry(chunk, config);
+      const cleansed = await processChunkWithRetry(chunk, config, glossary);
       allResults.push(...cleansed);
       console.log(`  ✓ Chunk ${ci + 1} complete`);
     } catch (err) {
@@ -150,13 +154,14 @@ export async function cleanseScenesWithLLM(
 
 async function processChunkWithRetry(
   chunk: SceneTextData[],
-  config: LLMCleansingConfig
+  config: LLMCleansingConfig,
+  glossary?: string
 ): Promise<CleansedResult[]> {
   let lastError: Error | null = null;
 
   for (let attempt = 0; attempt < config.maxRetries; attempt++) {
     try {
-      return await callGemini(chunk, config);
+      return await callGemini(chunk, config, glossary);
     } catch (err) {
       lastError = err instanceof Error ? err : new Error(String(err));
 
@@ -173,7 +178,8 @@ async function processChunkWithRetry(
 
 async function callGemini(
   chunk: SceneTextData[],
-  config: LLMCleansingConfig
+  config: LLMCleansingConfig,
+  glossary?: string
 ): Promise<CleansedResult[]> {
   const genAI = new GoogleGenerativeAI(config.apiKey);
   const model = genAI.getGenerativeModel({
@@ -191,7 +197,8 @@ async function callGemini(
     narration: s.narration,
   }));
 
-  const prompt = `${CLEANSING_PROMPT}\n\n## 入力データ\n${JSON.stringify(input, null, 2)}`;
+  const instructions = glossary ? `${CLEANSING_PROMPT}\n\n${glossary}` : CLEANSING_PROMPT;
+  const prompt = `${instructions}\n\n## 入力データ\n${JSON.stringify(input, null, 2)}`;
 
   const result = await model.generateContent(prompt);
   const responseText = result.response.text();
@@ -0,0 +1,296 @@
+/**
+ * LLM Translation Service
+ *
+ * Uses Gemini LLM to translate per-scene OCR/narration text into the target
+ * languages chosen at upload time (ProcessingOptions.translationLanguages).
+ * Runs after LLM cleansing so translations start from the corrected text.
+ *
+ * Same chunking and retry strategy as llmCleansing.ts; one request per chunk
+ * and target language. Graceful degradation: scenes of a failed chunk have
+ * no translation for that language (blank cells in the Excel report).
+ *
+ * Topic titles are translated the same way (as scene "ocr" text) for the
+ * translated chapter lists; an untranslated title falls back to the original.
+ */
+
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { SceneTranslations, TranslationLanguage } from '../types/shared.js';
+import type { TopicGroup } from '../types/excel.js';
+import type { SceneTextData } from './llmCleansing.js';
+
+// ============================================================
+// Types
+// ============================================================
+
+interface TranslatedItem {
+  sceneNumber: number;
+  ocr: string;
+  narration: string;
+}
+
+interface LLMTranslationConfig {
+  model: string;
+  apiKey: string;
+  chunkSize: number;       // scenes per LLM request
+  maxRetries: number;
+  initialDelayMs: number;  // for exponential backoff
+}
+
+/**
+ * Translation outcome for a set of scenes
+ */
+export interface TranslationResult {
+  /** Per-scene translations (same order as the input scenes) */
+  translations: SceneTranslations[];
+  /** Target languages with at least one failed chunk */
+  failedLanguages: TranslationLanguage[];
+}
+
+// ============================================================
+// Configuration
+// ============================================================
+
+function loadConfig(): LLMTranslationConfig {
+  return {
+    model: process.env.LLM_TRANSLATION_MODEL || process.env.LLM_CLEANSING_MODEL || 'gemini-2.0-flash',
+    apiKey: process.env.GEMINI_API_KEY || '',
+    chunkSize: 30,
+    maxRetries: 3,
+    initialDelayMs: 1000,
+  };
+}
+
+/**
+ * Language names used in the prompt (also used for Excel column headers)
+ */
+export const TRANSLATION_LANGUAGE_NAMES: Record<TranslationLanguage, string> = {
+  ja: 'Japanese',
+  en: 'English',
+  ko: 'Korean',
+  zh: 'Simplified Chinese',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+};
+
+// ============================================================
+// Prompt
+// ============================================================
+
+function buildTranslationPrompt(language: TranslationLanguage): string {
+  return `You are a professional translator for video analysis reports.
+
+You receive a JSON array. Each element holds one video scene: "ocr" (text shown on screen) and "narration" (transcribed speech).
+
+## Task
+Translate "ocr" and "narration" of every scene into ${TRANSLATION_LANGUAGE_NAMES[language]}.
+
+## Rules
+- Translate faithfully; do not summarize, explain or add content
+- Keep product names, proper nouns, numbers and URLs as written unless they have an established ${TRANSLATION_LANGUAGE_NAMES[language]} form
+- Keep line breaks, and keep speaker labels at the start of narration lines (e.g. "Speaker A: ") unchanged
+- Text that is already in ${TRANSLATION_LANGUAGE_NAMES[language]} is returned as is
+- Empty text stays empty
+- Return exactly as many elements as the input, in the same order
+
+## Output format
+A JSON array with the same structure as the input: only the fields sceneNumber, ocr and narration.`;
+}
+
+// ============================================================
+// Core
+// ============================================================
+
+/**
+ * Translate scene text data into the target languages.
+ * Returns empty translations if there are no target languages or no API key.
+ *
+ * @param scenes - Cleansed scene text (see cleanseScenesWithLLM)
+ * @param languages - Target languages chosen at upload time
+ * @returns Per-scene translations and the languages that did not translate completely
+ */
+export async function translateScenesWithLLM(
+  scenes: SceneTextData[],
+  languages: TranslationLanguage[]
+): Promise<TranslationResult> {
+  const config = loadConfig();
+  const translations: SceneTranslations[] = scenes.map(() => ({}));
+
+  if (languages.length === 0 || scenes.length === 0) {
+    return { translations, failedLanguages: [] };
+  }
+
+  if (!config.apiKey) {
+    console.warn('🌐 [LLM Translation] No GEMINI_API_KEY — skipping');
+    return { translations, failedLanguages: [...languages] };
+  }
+
+  console.log(`🌐 [LLM Translation] Starting (${scenes.length} scenes → ${languages.join(', ')}, model: ${config.model})`);
+  const startTime = Date.now();
+
+  // Split into chunks for rate limit safety
+  const chunks: SceneTextData[][] = [];
+  for (let i = 0; i < scenes.length; i += config.chunkSize) {
+    chunks.push(scenes.slice(i, i + config.chunkSize));
+  }
+
+  const failedLanguages: TranslationLanguage[] = [];
+
+  for (const language of languages) {
+    let failedChunks = 0;
+
+    for (let ci = 0; ci < chunks.length; ci++) {
+      const chunk = chunks[ci];
+
+      // Nothing to translate: keep the empty texts without an LLM request
+      if (chunk.every(s => s.ocr.trim() === '' && s.narration.trim() === '')) {
+        chunk.forEach((_, i) => {
+          translations[ci * config.chunkSize + i][language] = { ocrText: '', narrationText: '' };
+        });
+        continue;
+      }
+
+      console.log(`  📡 [${language}] Processing chunk ${ci + 1}/${chunks.length} (${chunk.length} scenes)...`);
+
+      try {
+        const translated = await processChunkWithRetry(chunk, language, config);
+        translated.forEach((item, i) => {
+          translations[ci * config.chunkSize + i][language] = { ocrText: item.ocr, narrationText: item.narration };
+        });
+      } catch (err) {
+        failedChunks++;
+        console.warn(`  ⚠️ [${language}] Chunk ${ci + 1} failed — leaving untranslated: ${err}`);
+      }
+    }
+
+    if (failedChunks > 0) {
+      failedLanguages.push(language);
+    }
+  }
+
+  const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+  console.log(`🌐 [LLM Translation] Done in ${elapsed}s${failedLanguages.length > 0 ? ` (incomplete: ${failedLanguages.join(', ')})` : ''}`);
+
+  return { translations, failedLanguages };
+}
+
+/**
+ * Translate topic titles into the target languages (chapter lists per language)
+ * Topics without a title, and titles whose translation failed, get no entry.
+ *
+ * @param topicGroups - Topic groups with titles (see summarizeTopicsWithLLM)
+ * @param languages - Target languages chosen at upload time
+ * @returns Topic groups with titleTranslations set
+ */
+export async function translateTopicTitlesWithLLM(
+  topicGroups: TopicGroup[],
+  languages: TranslationLanguage[]
+): Promise<TopicGroup[]> {
+  if (languages.length === 0 || topicGroups.length === 0) {
+    return topicGroups;
+  }
+
+  console.log(`🌐 [LLM Translation] Translating ${topicGroups.length} topic titles`);
+  const { translations } = await translateScenesWithLLM(
+    topicGroups.map(group => ({ sceneNumber: group.groupNumber, ocr: group.title ?? '', narration: '' })),
+    languages
+  );
+
+  return topicGroups.map((group, i) => {
+    const titleTranslations = Object.fromEntries(
+      Object.entries(translations[i])
+        .filter(([, translation]) => translation && translation.ocrText.trim() !== '')
+        .map(([language, translation]) => [language, translation!.ocrText.trim()])
+    ) as Partial<Record<TranslationLanguage, string>>;
+
+    return Object.keys(titleTranslations).length > 0 ? { ...group, titleTranslations } : group;
+  });
+}
+
+// ============================================================
+// Internals
+// ============================================================
+
+async function processChunkWithRetry(
+  chunk: SceneTextData[],
+  language: TranslationLanguage,
+  config: LLMTranslationConfig
+): Promise<TranslatedItem[]> {
+  let lastError: Error | null = null;
+
+  for (let attempt = 0; attempt < config.maxRetries; attempt++) {
+    try {
+      return await callGemini(chunk, language, config);
+    } catch (err) {
+      lastError = err instanceof Error ? err : new Error(String(err));
+
+      if (attempt < config.maxRetries - 1) {
+        const delay = config.initialDelayMs * Math.pow(2, attempt);
+        console.warn(`    ⏳ Attempt ${attempt + 1} failed, retrying in ${delay}ms: ${lastError.message}`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  throw lastError || new Error('All retries exhausted');
+}
+
+async function callGemini(
+  chunk: SceneTextData[],
+  language: TranslationLanguage,
+  config: LLMTranslationConfig
+): Promise<TranslatedItem[]> {
+  const genAI = new GoogleGenerativeAI(config.apiKey);
+  const model = genAI.getGenerativeModel({
+    model: config.model,
+    generationConfig: {
+      responseMimeType: 'application/json',
+      temperature: 0.2,
+    },
+  });
+
+  // Prepare input: only send the fields we need
+  const input = chunk.map(s => ({
+    sceneNumber: s.sceneNumber,
+    ocr: s.ocr,
+    narration: s.narration,
+  }));
+
+  const prompt = `${buildTranslationPrompt(language)}\n\n## Input\n${JSON.stringify(input, null, 2)}`;
+
+  const result = await model.generateContent(prompt);
+  const responseText = result.response.text();
+
+  // Parse response
+  let parsed: TranslatedItem[];
+  try {
+    parsed = JSON.parse(responseText);
+  } catch {
+    throw new Error(`Invalid JSON response: ${responseText.substring(0, 200)}`);
+  }
+
+  // Validate response structure
+  if (!Array.isArray(parsed) || parsed.length !== chunk.length) {
+    throw new Error(
+      `Response length mismatch: expected ${chunk.length}, got ${Array.isArray(parsed) ? parsed.length : 'non-array'}`
+    );
+  }
+
+  // Validate each element
+  for (let i = 0; i < parsed.length; i++) {
+    const item = parsed[i];
+    if (typeof item.ocr !== 'string' || typeof item.narration !== 'string') {
+      throw new Error(`Invalid item at index ${i}: missing ocr or narration string fields`);
+    }
+    // Ensure sceneNumber matches; empty source text stays empty
+    item.sceneNumber = chunk[i].sceneNumber;
+    if (chunk[i].ocr.trim() === '') item.ocr = '';
+    if (chunk[i].narration.trim() === '') item.narration = '';
+  }
+
+  return parsed;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -44,6 +44,8 @@ export interface OCRProviderConfig {
   priority: number;
   /** Model to use */
   model?: string;
+  /** Only used when no regular provider is available or all of them failed */
+  lastResort?: boolean;
 }
 
 /**
@@ -121,6 +123,21 @@ EXAMPLE GOOD OUTPUT:
 EXAMPLE BAD OUTPUT (DO NOT DO THIS):
 {"text": "会社ロゴ\\n製品名ABC\\n©2023 Company\\n小さな注意書き\\nポスターの文字", "confidence": 0.85}`;
 
+/**
+ * Per-request OCR options
+ */
+export interface OCRRequestOptions {
+  /** Expected on-screen terms (account glossary), appended to OCR_PROMPT */
+  hints?: string;
+}
+
+/**
+ * OCR prompt for a request: OCR_PROMPT, plus the hints when given
+ */
+export function buildOCRPrompt(options?: OCRRequestOptions): string {
+  return options?.hints ? `${OCR_PROMPT}\n\nKNOWN TERMS:\n${options.hints}` : OCR_PROMPT;
+}
+
 // ============================================================
 // Abstract OCR Provider
 // ============================================================
@@ -178,6 +195,13 @@ export abstract class OCRProvider {
     return this.config.enabled;
   }
 
+  /**
+   * Check if provider is a last-resort fallback
+   */
+  get isLastResort(): boolean {
+    return this.config.lastResort === true;
+  }
+
   /**
    * Check if provider is currently available
    */
@@ -242,9 +266,10 @@ export abstract class OCRProvider {
   /**
    * Perform OCR on an image
    * @param imageBuffer - Image data as Buffer
+   * @param options - Per-request options (glossary hints)
    * @returns OCR result
    */
-  abstract performOCR(imageBuffer: Buffer): Promise<OCRResult>;
+  abstract performOCR(imageBuffer: Buffer, options?: OCRRequestOptions): Promise<OCRResult>;
 
   /**
    * Get the rate limiter for this provider
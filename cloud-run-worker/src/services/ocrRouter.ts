@@ -16,10 +16,11 @@
  */
 
 import pLimit from 'p-limit';
-import { OCRProvider, OCRResult, OCRProviderStats } from './ocrProviderInterface.js';
+import { OCRProvider, OCRResult, OCRProviderStats, OCRRequestOptions } from './ocrProviderInterface.js';
 import { createGeminiProvider, classifyGeminiError, type OCRErrorCategory } from './providers/geminiProvider.js';
 import { createMistralProvider } from './providers/mistralProvider.js';
 import { createGLMProvider } from './providers/glmProvider.js';
+import { createTesseractProvider } from './providers/tesseractProvider.js';
 // OpenAI is excluded from OCR providers — unreliable (rate limits, empty responses).
 // OpenAI SDK remains available for Whisper (STT) only.
 
@@ -108,20 +109,33 @@ export class OCRRouter {
 
   /**
    * Initialize available providers
-   * Priority order: Gemini (1) > Mistral (2) > GLM (3)
+   * Priority order: Gemini (1) > Mistral (2) > GLM (3) > Tesseract (99, last resort)
+   * OCR_MODE=offline: Tesseract only (no cloud APIs or keys)
    * Note: OpenAI excluded — unreliable for OCR (rate limits, empty responses)
    */
   private initializeProviders(): void {
+    if (process.env.OCR_MODE === 'offline') {
+      const tesseract = createTesseractProvider({ lastResort: false });
+      if (tesseract) {
+        this.providers.push(tesseract);
+      } else {
+        console.warn('[OCRRouter] OCR_MODE=offline but Tesseract is not installed! OCR will fail.');
+      }
+      return;
+    }
+
     // Try to create each provider (OpenAI excluded from OCR)
     const gemini = createGeminiProvider();
     const mistral = createMistralProvider();
     const glm = createGLMProvider();
+    const tesseract = createTesseractProvider();
 
     // Collect all non-null providers
     const candidates: OCRProvider[] = [];
     if (gemini) candidates.push(gemini);
     if (mistral) candidates.push(mistral);
     if (glm) candidates.push(glm);
+    if (tesseract) candidates.push(tesseract);
 
     // Filter enabled providers and sort by priority
     const enabledProviders = candidates.filter((p) => p.enabled);
@@ -165,9 +179,12 @@ export class OCRRouter {
 
   /**
    * Select the best provider for the next request
+   * Last-resort providers are only selected when no regular provider is available.
    */
   private selectProvider(): OCRProvider | null {
-    const available = this.getAvailableProviders();
+    const allAvailable = this.getAvailableProviders();
+    const regular = allAvailable.filter((p) => !p.isLastResort);
+    const available = regular.length > 0 ? regular : allAvailable;
     if (available.length === 0) return null;
 
     switch (this.config.distributionStrategy) {
@@ -212,14 +229,15 @@ export class OCRRouter {
 
   /**
    * Process a single image with fallback
+   * @param options - Per-request options (glossary hints)
    */
-  async processWithFallback(imageBuffer: Buffer): Promise<OCRResult> {
+  async processWithFallback(imageBuffer: Buffer, options?: OCRRequestOptions): Promise<OCRResult> {
     const errors: Error[] = [];
 
     // Try each available provider in order
     for (const provider of this.getAvailableProviders()) {
       try {
-        return await provider.performOCR(imageBuffer);
+        return await provider.performOCR(imageBuffer, options);
       } catch (error) {
         const err = error instanceof Error ? error : new Error(String(error));
         errors.push(err);
@@ -242,8 +260,10 @@ export class OCRRouter {
    * Process multiple images in parallel with intelligent distribution
    *
    * Distributes work across all available providers for maximum throughput.
+   * An aborted signal rejects with its reason; tasks not yet started are skipped.
+   * `options` (glossary hints) apply to every task.
    */
-  async processParallel(tasks: ImageTask[]): Promise<BatchOCRResult> {
+  async processParallel(tasks: ImageTask[], signal?: AbortSignal, options?: OCRRequestOptions): Promise<BatchOCRResult> {
     const startTime = Date.now();
     const effectiveParallel = this.getEffectiveParallelLimit();
     const limit = pLimit(effectiveParallel);
@@ -264,6 +284,7 @@ export class OCRRouter {
     // Process all tasks with rate limiting
     const promises = tasks.map((task) =>
       limit(async () => {
+        signal?.throwIfAborted();
         const provider = this.selectProvider();
 
         if (!provider) {
@@ -282,7 +303,7 @@ export class OCRRouter {
           // Track provider usage
           providerUsage[provider.name] = (providerUsage[provider.name] || 0) + 1;
 
-          const result = await provider.performOCR(task.imageBuffer);
+          const result = await provider.performOCR(task.imageBuffer, options);
           successCount++;
           return result;
         } catch (error) {
@@ -291,7 +312,7 @@ export class OCRRouter {
           // Try fallback if enabled
           if (this.config.enableFallback) {
             try {
-              const result = await this.processWithFallback(task.imageBuffer);
+              const result = await this.processWithFallback(task.imageBuffer, options);
               providerUsage[result.provider] = (providerUsage[result.provider] || 0) + 1;
               successCount++;
               return result;
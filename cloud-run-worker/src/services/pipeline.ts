@@ -23,18 +23,27 @@ import {
   SceneDetectionProgressCallback,
 } from './ffmpeg.js';
 import { generateExcel, generateExcelFilename } from './excel-generator.js';
+import { generateExportFiles } from './export-generator.js';
+import { buildResultDocument, screenshotFileName } from './result-document.js';
 import { Scene, ExcelRow, VideoMetadata, ProcessingStats, TopicGroup } from '../types/excel.js';
 import { cleanseScenesWithLLM } from './llmCleansing.js';
-import { groupScenesByTopic } from './topicGrouping.js';
-import { formatTimecode } from '../utils/timecode.js';
+import { translateScenesWithLLM, translateTopicTitlesWithLLM } from './llmTranslation.js';
+import { groupScenes } from './topicGrouping.js';
+import { summarizeTopicsWithLLM } from './topicSummarizer.js';
+import { indexSceneEmbeddings } from './semanticIndex.js';
+import { loadGlossary, buildOCRHints, buildCleansingGlossary, applyGlossarySubstitutions } from './glossary.js';
+import { formatSpeakerNarration, calculateSpeakerTalkTime } from './speakerDiarizer.js';
+import { formatTimecode, createTimecodeFormatter } from '../utils/timecode.js';
 import fs from 'fs';
 import { promises as fsPromises } from 'fs';
 import path from 'path';
 import os from 'os';
-import type { TranscriptionSegment, SceneCut } from '../types/shared.js';
+import type { TranscriptionSegment, SceneCut, ProcessingOptions, ResultDocument, SceneTranslations } from '../types/shared.js';
+import type { ExportFilePaths } from '../types/export.js';
 import pLimit from 'p-limit';
 import { ProgressReporter } from './progressReporter.js';
 import { getOCRRouter, ImageTask } from './ocrRouter.js';
+import type { OCRRequestOptions } from './ocrProviderInterface.js';
 import { updateStatus, updatePhaseProgress, completePhase } from './statusManager.js';
 import { WarningCollector } from './warningCollector.js';
 import {
@@ -45,6 +54,7 @@ import {
   type ProcessingCheckpoint,
 } from './checkpointService.js';
 import { registerOcrProgress, clearOcrProgress } from './emergencyCheckpoint.js';
+import { getCancellationSignal, throwIfCancelled } from './cancellation.js';
 
 /**
  * Main pipeline execution
@@ -53,7 +63,8 @@ import { registerOcrProgress, clearOcrProgress } from './emergencyCheckpoint.js'
  * @param transcription - Transcription from whisperService
  * @param uploadId - Optional upload ID for progress tracking
  * @param checkpoint - Optional checkpoint for resumable processing
- * @returns Path to generated Excel file
+ * @param options - Per-upload processing options (timecode style, ...)
+ * @returns Path to generated Excel file, export files (subtitles, timelines) and persisted screenshots
  */
 export async function executeIdealPipeline(
   videoPath: string,
@@ -63,8 +74,9 @@ export async function executeIdealPipeline(
   checkpoint?: ProcessingCheckpoint,
   preDetectedScenes?: Scene[],
   videoMetadata?: VideoMetadata,
-  warningCollector?: WarningCollector
-): Promise<{ excelPath: string; stats: ProcessingStats }> {
+  warningCollector?: WarningCollector,
+  options: ProcessingOptions = {}
+): Promise<{ excelPath: string; exportPaths: ExportFilePaths; screenshotsDir?: string; stats: ProcessingStats }> {
   console.log('🎬 Starting Ideal Pipeline Execution');
   console.log(`  📹 Video: ${videoPath}`);
   console.log(`  🎙️ Transcription: ${transcription.length} segments`);
@@ -98,14 +110,29 @@ export async function executeIdealPipeline(
   } else {
     console.log('  ⚡ Using pre-extracted metadata');
   }
+
+  // Timecode style is chosen per upload; SMPTE needs the video's frame rate
+  const timecodeStyle = options.timecodeStyle ?? 'hms';
+  const formatSceneTimecode = createTimecodeFormatter(timecodeStyle, videoMetadata.fps);
+  console.log(`  🕐 Timecode style: ${timecodeStyle}${timecodeStyle === 'smpte' ? ` (${videoMetadata.fps.toFixed(3)}fps${videoMetadata.dropFrame ? ', drop-frame' : ''})` : ''}`);
   await safePhaseProgress(2, 5, 'Starting scene detection...', 'scene_detection', 'About 2-5 min (estimate)');
 
+  // Account glossary: OCR hints, alias substitution after OCR, authoritative terms for LLM cleansing
+  const glossary = checkpoint?.userId ? await loadGlossary(checkpoint.userId) : [];
+  const ocrOptions: OCRRequestOptions = { hints: buildOCRHints(glossary) };
+  if (glossary.length > 0) {
+    console.log(`  📖 Glossary: ${glossary.length} term(s)`);
+  }
+
   // Phase 2 Step 2: Scene detection
   // Phase 2 progress: 5-25%
   // Check if scenes are already available from parallel processing, checkpoint, or need detection
   let scenes: Scene[] = [];
   const cachedSceneCuts = checkpoint?.sceneCuts || [];
-  const isSceneDetectionComplete = checkpoint?.currentStep === 'ocr' && cachedSceneCuts.length > 0;
+  // 'excel_generation' is also reached by stage reruns that reuse the cached OCR results
+  const isSceneDetectionComplete =
+    (checkpoint?.currentStep === 'ocr' || checkpoint?.currentStep === 'excel_generation') &&
+    cachedSceneCuts.length > 0;
 
   if (preDetectedScenes && preDetectedScenes.length > 0) {
     // Pre-detected scenes from parallel processing (Whisper + Scene Detection ran concurrently)
@@ -176,7 +203,8 @@ export async function executeIdealPipeline(
     const { scenes: detectedScenes } = await detectScenesOnly(
       videoPath,
       videoMetadata,
-      sceneDetectionProgress
+      sceneDetectionProgress,
+      uploadId ? getCancellationSignal(uploadId) : undefined
     );
     scenes = detectedScenes;
     console.log(`  ✓ Detected ${scenes.length} scenes`);
@@ -233,7 +261,8 @@ export async function executeIdealPipeline(
       uploadId,
       DEFAULT_BATCH_SIZE,
       checkpoint,
-      OCR_FRAME_WIDTH
+      OCR_FRAME_WIDTH,
+      ocrOptions
     );
     scenesWithRawOCR = batchResult.results;
     batchFramesDir = batchResult.framesDir; // undefined for long videos (frames cleaned per batch)
@@ -241,7 +270,7 @@ export async function executeIdealPipeline(
     // Traditional processing: OCR on already-extracted frames
     await safePhaseProgress(2, 40, `Starting OCR on ${scenes.length} scenes...`, 'ocr_processing', 'About 2-5 min (estimate)');
     console.log('\n🔍 Step 3: Performing OCR on scene frames...');
-    scenesWithRawOCR = await performSceneBasedOCR(scenes, uploadId, videoMetadata.duration, checkpoint);
+    scenesWithRawOCR = await performSceneBasedOCR(scenes, uploadId, videoMetadata.duration, checkpoint, 0, ocrOptions);
   }
 
   // Check for OCR failures and add warnings
@@ -263,6 +292,17 @@ export async function executeIdealPipeline(
   console.log('\n🔄 Step 3.6: Removing consecutive duplicate OCR text...');
   const scenesWithOCR = removeConsecutiveDuplicateOCR(scenesWithFilteredOverlays);
 
+  // Step 3.7: Replace glossary aliases with the preferred spelling
+  const glossaryResult = applyGlossarySubstitutions(scenesWithOCR.map(s => s.ocrText || ''), glossary);
+  scenesWithOCR.forEach((scene, i) => {
+    scene.ocrText = glossaryResult.texts[i];
+  });
+  const glossaryCorrections = glossaryResult.corrections;
+  if (glossaryCorrections.length > 0) {
+    const replaced = glossaryCorrections.reduce((sum, c) => sum + c.count, 0);
+    console.log(`\n📖 Step 3.7: Glossary substitution: ${replaced} replacement(s) (${glossaryCorrections.length} distinct)`);
+  }
+
   // Phase 2 complete, Phase 3 starts: Create report
   // Complete Phase 2
   if (uploadId) {
@@ -289,7 +329,7 @@ export async function executeIdealPipeline(
     ocr: s.ocrText || '',
     narration: s.narrationText || '',
   }));
-  const cleansedResults = await cleanseScenesWithLLM(sceneTextData);
+  const cleansedResults = await cleanseScenesWithLLM(sceneTextData, buildCleansingGlossary(glossary));
 
   // Apply cleansed results back to scenes
   for (let i = 0; i < scenesWithNarration.length; i++) {
@@ -298,7 +338,37 @@ export async function executeIdealPipeline(
   }
   await safePhaseProgress(3, 22, 'LLM cleansing complete', 'narration_mapping');
 
-  // Step 4.6: Topic Grouping (group consecutive scenes with similar OCR)
+  // Step 4.52: Translation into the languages chosen at upload time (optional)
+  const translationLanguages = options.translationLanguages ?? [];
+  if (translationLanguages.length > 0) {
+    console.log(`\n🌐 Step 4.52: Translating scenes (${translationLanguages.join(', ')})...`);
+    await safePhaseProgress(3, 22, `Translating into ${translationLanguages.map(l => l.toUpperCase()).join(', ')}...`, 'narration_mapping');
+    const translationResult = await translateScenesWithLLM(cleansedResults, translationLanguages);
+    scenesWithNarration.forEach((scene, i) => {
+      scene.translations = translationResult.translations[i];
+    });
+    if (translationResult.failedLanguages.length > 0) {
+      warningCollector?.add(
+        `Translation into ${translationResult.failedLanguages.map(l => l.toUpperCase()).join(', ')} failed for some scenes; those cells are left blank.`
+      );
+    }
+  }
+
+  // Step 4.55: Scene embeddings for semantic search / "ask the video" (non-fatal)
+  // Semantic topic grouping (Step 4.6) reuses these vectors instead of embedding again.
+  let sceneVectors: Map<number, number[]> | undefined;
+  if (uploadId && checkpoint?.userId) {
+    console.log('\n🧭 Step 4.55: Embedding scenes for semantic search...');
+    sceneVectors = await indexSceneEmbeddings(uploadId, checkpoint.userId, projectTitle, scenesWithNarration.map(s => ({
+      sceneNumber: s.sceneNumber,
+      startTime: s.startTime,
+      timecode: formatSceneTimecode(s.startTime),
+      ocrText: s.ocrText || '',
+      narrationText: s.narrationText || '',
+    })));
+  }
+
+  // Step 4.6: Topic Grouping (group consecutive scenes with similar OCR, or OCR + narration meaning)
   console.log('\n📚 Step 4.6: Topic Grouping...');
   await safePhaseProgress(3, 23, 'Grouping scenes by topic...', 'narration_mapping');
   const scenesForGrouping = scenesWithNarration.map(s => ({
@@ -308,12 +378,27 @@ export async function executeIdealPipeline(
     ocr: s.ocrText || '',
     narration: s.narrationText || '',
   }));
-  const topicGroups: TopicGroup[] = groupScenesByTopic(scenesForGrouping);
-  await safePhaseProgress(3, 30, `${topicGroups.length} topics identified`, 'narration_mapping');
+  const topicGrouping = options.topicGrouping ?? 'ocr';
+  const groupedTopics: TopicGroup[] = await groupScenes(scenesForGrouping, topicGrouping, formatSceneTimecode, {
+    minGroupDuration: options.minTopicGroupDuration,
+    maxGroupDuration: options.maxTopicGroupDuration,
+    sceneVectors,
+  });
+  await safePhaseProgress(3, 27, `${groupedTopics.length} topics identified`, 'narration_mapping');
+
+  // Step 4.7: Topic titles, summaries and executive summary (fallback titles without LLM)
+  console.log('\n📝 Step 4.7: Summarizing topics...');
+  await safePhaseProgress(3, 27, 'Writing topic titles and summaries...', 'narration_mapping');
+  const summarized = await summarizeTopicsWithLLM(groupedTopics);
+  const { executiveSummary } = summarized;
+
+  // Step 4.71: Translate topic titles (chapter lists per translation language)
+  const topicGroups = await translateTopicTitlesWithLLM(summarized.topicGroups, translationLanguages);
+  await safePhaseProgress(3, 30, `${topicGroups.length} topics summarized`, 'narration_mapping');
 
   // Step 5: Convert to Excel rows
   console.log('\n📝 Step 5: Converting to Excel rows...');
-  const excelRows = convertScenesToExcelRows(scenesWithNarration);
+  const excelRows = convertScenesToExcelRows(scenesWithNarration, formatSceneTimecode);
 
   // Step 5.5: Re-extract frames for Excel (long video batch processing only)
   // Long videos (>15 min) clean up 720px OCR frames per batch to save memory.
@@ -343,13 +428,18 @@ export async function executeIdealPipeline(
   const excelPath = path.join('/tmp', excelFilename);
 
   await safePhaseProgress(3, 50, 'Creating workbook...', 'excel_generation');
+  const speakerTalkTimes = calculateSpeakerTalkTime(transcription);
   const excelBuffer = await generateExcel({
     projectTitle,
     rows: excelRows,
     videoMetadata,
     includeStatistics: true,
     topicGroups,
+    executiveSummary,
     warnings: warningCollector?.getWarnings(),
+    speakerTalkTimes,
+    glossaryCorrections,
+    translationLanguages,
   });
 
   // Write Excel buffer to file
@@ -357,6 +447,44 @@ export async function executeIdealPipeline(
   await fsPromises.writeFile(excelPath, excelBuffer);
   await safePhaseProgress(3, 70, 'Excel file created', 'excel_generation');
 
+  // Step 6.1: Keep scene screenshots for the scene review editor
+  // Frames are deleted below and the source video is gone after processing,
+  // so editor re-generation can only reuse these copies.
+  const screenshotsDir = `${excelPath.replace(/\.xlsx$/, '')}_frames`;
+  const screenshotFiles = await persistSceneScreenshots(scenesWithNarration, screenshotsDir);
+
+  // Step 6.2: Build structured JSON result (persisted to R2 with the exports below)
+  const resultDocument = buildResultDocument({
+    uploadId,
+    fileName: projectTitle,
+    scenes: scenesWithNarration,
+    topicGroups,
+    topicGrouping,
+    minTopicGroupDuration: options.minTopicGroupDuration,
+    maxTopicGroupDuration: options.maxTopicGroupDuration,
+    videoMetadata,
+    timecodeStyle,
+    formatTime: formatSceneTimecode,
+    screenshotFiles,
+    executiveSummary,
+    speakers: speakerTalkTimes,
+    glossaryCorrections,
+    translationLanguages,
+  });
+
+  // Step 6.5: Generate export files (SRT / WebVTT subtitles, EDL / FCPXML timelines, JSON result, chapters)
+  // Non-fatal: the Excel report is the primary deliverable
+  console.log('\n💬 Step 6.5: Generating export files...');
+  const exportPaths = await generateExportFiles(
+    excelPath.replace(/\.xlsx$/, ''),
+    projectTitle,
+    transcription,
+    scenesWithNarration,
+    videoMetadata,
+    resultDocument,
+    warningCollector
+  );
+
   // Step 7: Calculate statistics
   const stats: ProcessingStats = {
     totalScenes: scenes.length,
@@ -392,7 +520,42 @@ export async function executeIdealPipeline(
     }
   }
 
-  return { excelPath, stats };
+  return {
+    excelPath,
+    exportPaths,
+    screenshotsDir: screenshotFiles.size > 0 ? screenshotsDir : undefined,
+    stats,
+  };
+}
+
+/**
+ * Copy scene screenshots into a directory that outlives frame cleanup
+ * Missing or unreadable frames are skipped (the editor shows a placeholder).
+ *
+ * @param scenes - Scenes with screenshotPath set
+ * @param screenshotsDir - Destination directory (created if needed)
+ * @returns Scene number → persisted file name
+ */
+async function persistSceneScreenshots(
+  scenes: SceneWithNarration[],
+  screenshotsDir: string
+): Promise<Map<number, string>> {
+  const screenshotFiles = new Map<number, string>();
+  await fsPromises.mkdir(screenshotsDir, { recursive: true });
+
+  for (const scene of scenes) {
+    if (!scene.screenshotPath) continue;
+    const fileName = screenshotFileName(scene.sceneNumber);
+    try {
+      await fsPromises.copyFile(scene.screenshotPath, path.join(screenshotsDir, fileName));
+      screenshotFiles.set(scene.sceneNumber, fileName);
+    } catch (e) {
+      console.warn(`  ⚠️ Failed to keep screenshot for Scene ${scene.sceneNumber}: ${e}`);
+    }
+  }
+
+  console.log(`  ✓ Kept ${screenshotFiles.size}/${scenes.length} screenshots for the scene editor`);
+  return screenshotFiles;
 }
 
 /**
@@ -410,6 +573,8 @@ export async function executeIdealPipeline(
  * @param uploadId - Optional upload ID for progress tracking
  * @param videoDuration - Optional video duration in seconds (enables auto-parallel boost for 1h+ videos)
  * @param checkpoint - Optional checkpoint for resumable processing
+ * @param globalOffset - Index of the first scene within the whole video (batch processing)
+ * @param ocrOptions - Per-request OCR options (glossary hints)
  * @returns Array of scenes with OCR results
  */
 async function performSceneBasedOCR(
@@ -417,8 +582,14 @@ async function performSceneBasedOCR(
   uploadId?: string,
   videoDuration?: number,
   checkpoint?: ProcessingCheckpoint,
-  globalOffset: number = 0
+  globalOffset: number = 0,
+  ocrOptions?: OCRRequestOptions
 ): Promise<SceneWithOCR[]> {
+  // Stop before spending OCR calls on a cancelled upload (checked once per batch)
+  if (uploadId) {
+    throwIfCancelled(uploadId);
+  }
+
   // Get OCR router singleton
   const ocrRouter = getOCRRouter();
 
@@ -508,7 +679,7 @@ async function performSceneBasedOCR(
   }
 
   // Process all images in parallel using OCR router
-  const batchResult = await ocrRouter.processParallel(tasks);
+  const batchResult = await ocrRouter.processParallel(tasks, uploadId ? getCancellationSignal(uploadId) : undefined, ocrOptions);
 
   // Map results back to scenes (initialize with cached results using global indices)
   const scenesWithOCR: SceneWithOCR[] = scenes.map((scene, i) => ({
@@ -529,6 +700,7 @@ async function performSceneBasedOCR(
       const localIndex = sceneIndex - globalOffset;
       scenesWithOCR[localIndex].ocrText = result.text;
       scenesWithOCR[localIndex].ocrConfidence = result.confidence;
+      scenesWithOCR[localIndex].ocrProvider = result.provider;
 
       // Track for checkpoint (use global index)
       newOcrResults[sceneIndex] = result.text;
@@ -580,7 +752,7 @@ async function performSceneBasedOCR(
 
   // Clear emergency checkpoint state (OCR complete)
   if (uploadId) {
-    clearOcrProgress();
+    clearOcrProgress(uploadId);
   }
 
   // Calculate and log performance metrics
@@ -627,6 +799,8 @@ async function performSceneBasedOCR(
  * @param uploadId - Optional upload ID for progress tracking
  * @param batchSize - Number of scenes per batch (default: 100)
  * @param checkpoint - Optional checkpoint for resumable processing
+ * @param frameWidth - OCR frame width in pixels
+ * @param ocrOptions - Per-request OCR options (glossary hints)
  * @returns Scenes with OCR results
  */
 async function processScenesInBatches(
@@ -636,7 +810,8 @@ async function processScenesInBatches(
   uploadId?: string,
   batchSize: number = DEFAULT_BATCH_SIZE,
   checkpoint?: ProcessingCheckpoint,
-  frameWidth?: number
+  frameWidth?: number,
+  ocrOptions?: OCRRequestOptions
 ): Promise<{ results: SceneWithOCR[]; framesDir?: string }> {
   // Short videos (≤15min): keep 720px frames for Excel reuse (no re-extraction)
   // Long videos (>15min): cleanup 720px frames per batch, re-extract at 320px for Excel later
@@ -743,7 +918,7 @@ async function processScenesInBatches(
 
     // Step 2: Run OCR for this batch (pass video duration for long video optimization)
     console.log(`  [2/${isLongVideo ? '3' : '2'}] Running OCR on ${batchScenes.length} frames...`);
-    const batchOCRResults = await performSceneBasedOCR(batchScenesWithFrames, uploadId, videoMetadata.duration, checkpoint, batchStart);
+    const batchOCRResults = await performSceneBasedOCR(batchScenesWithFrames, uploadId, videoMetadata.duration, checkpoint, batchStart, ocrOptions);
 
     logMemoryUsage(`Batch ${batchNumber} after OCR`);
 
@@ -1112,11 +1287,8 @@ function mapTranscriptionToScenes(
       segmentUsage.get(segKey)!.push(scene.sceneNumber);
     });
 
-    // Concatenate all overlapping transcription text
-    const narrationText = overlappingSegments
-      .map(seg => seg.text.trim())
-      .filter(text => text.length > 0)
-      .join(' ');
+    // Concatenate all overlapping transcription text ("Speaker A: …" lines when diarized)
+    const narrationText = formatSpeakerNarration(overlappingSegments);
 
     return {
       ...scene,
@@ -1155,14 +1327,19 @@ function mapTranscriptionToScenes(
 
 /**
  * Convert scenes to Excel rows
+ * @param formatTime - Timecode formatter for the upload's timecode style
  */
-function convertScenesToExcelRows(scenes: SceneWithNarration[]): ExcelRow[] {
+function convertScenesToExcelRows(
+  scenes: SceneWithNarration[],
+  formatTime: (seconds: number) => string
+): ExcelRow[] {
   return scenes.map(scene => ({
     sceneNumber: scene.sceneNumber,
-    timecode: scene.timecode,
+    timecode: formatTime(scene.startTime),
     screenshotPath: scene.screenshotPath!,
     ocrText: scene.ocrText || '',
-    narrationText: scene.narrationText || ''
+    narrationText: scene.narrationText || '',
+    translations: scene.translations
   }));
 }
 
@@ -1172,6 +1349,8 @@ function convertScenesToExcelRows(scenes: SceneWithNarration[]): ExcelRow[] {
 export interface SceneWithOCR extends Scene {
   ocrText: string;
   ocrConfidence: number;
+  /** OCR provider that produced the text (undefined when restored from checkpoint) */
+  ocrProvider?: string;
 }
 
 /**
@@ -1179,5 +1358,7 @@ export interface SceneWithOCR extends Scene {
  */
 export interface SceneWithNarration extends SceneWithOCR {
   narrationText: string;
+  /** OCR and narration in the upload's translation languages (set by Step 4.52) */
+  translations?: SceneTranslations;
 }
 
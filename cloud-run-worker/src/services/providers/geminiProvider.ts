@@ -9,7 +9,7 @@
  */
 
 import { GoogleGenerativeAI } from '@google/generative-ai';
-import { OCRProvider, OCRResult, OCRProviderConfig, OCR_PROMPT } from '../ocrProviderInterface.js';
+import { OCRProvider, OCRResult, OCRProviderConfig, OCRRequestOptions, buildOCRPrompt } from '../ocrProviderInterface.js';
 import { extractRetryAfter } from '../rateLimiter.js';
 
 // ============================================================
@@ -95,7 +95,7 @@ export class GeminiOCRProvider extends OCRProvider {
   /**
    * Perform OCR using Gemini Vision
    */
-  async performOCR(imageBuffer: Buffer): Promise<OCRResult> {
+  async performOCR(imageBuffer: Buffer, options?: OCRRequestOptions): Promise<OCRResult> {
     if (!this.isAvailable()) {
       throw new Error('Gemini provider is not available');
     }
@@ -109,7 +109,7 @@ export class GeminiOCRProvider extends OCRProvider {
           const base64Image = imageBuffer.toString('base64');
 
           const response = await model.generateContent([
-            OCR_PROMPT,
+            buildOCRPrompt(options),
             { inlineData: { mimeType: 'image/png', data: base64Image } },
           ]);
 
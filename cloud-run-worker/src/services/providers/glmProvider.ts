@@ -8,7 +8,7 @@
  * @since 2026-02-08
  */
 
-import { OCRProvider, OCRResult, OCRProviderConfig, OCR_PROMPT } from '../ocrProviderInterface.js';
+import { OCRProvider, OCRResult, OCRProviderConfig, OCRRequestOptions, buildOCRPrompt } from '../ocrProviderInterface.js';
 
 // ============================================================
 // GLM Provider Implementation
@@ -53,7 +53,7 @@ export class GLMOCRProvider extends OCRProvider {
   /**
    * Perform OCR using GLM-4V Vision
    */
-  async performOCR(imageBuffer: Buffer): Promise<OCRResult> {
+  async performOCR(imageBuffer: Buffer, options?: OCRRequestOptions): Promise<OCRResult> {
     if (!this.isAvailable() || !this.apiKey) {
       throw new Error('GLM provider is not available');
     }
@@ -85,7 +85,7 @@ export class GLMOCRProvider extends OCRProvider {
                     },
                     {
                       type: 'text',
-                      text: OCR_PROMPT,
+                      text: buildOCRPrompt(options),
                     },
                   ],
                 },
@@ -8,6 +8,7 @@
  * - Mistral (priority 2)
  * - GLM (priority 3)
  * - OpenAI (fallback, priority 4)
+ * - Tesseract (local, last resort / OCR_MODE=offline)
  *
  * @author Claude Code (Anthropic)
  * @since 2026-02-08
@@ -17,3 +18,4 @@ export { GeminiOCRProvider, createGeminiProvider } from './geminiProvider.js';
 export { MistralOCRProvider, createMistralProvider } from './mistralProvider.js';
 export { GLMOCRProvider, createGLMProvider } from './glmProvider.js';
 export { OpenAIOCRProvider, createOpenAIProvider } from './openaiProvider.js';
+export { TesseractOCRProvider, createTesseractProvider, parseTesseractTsv } from './tesseractProvider.js';
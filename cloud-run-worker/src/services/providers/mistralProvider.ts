@@ -8,7 +8,7 @@
  * @since 2026-02-08
  */
 
-import { OCRProvider, OCRResult, OCRProviderConfig, OCR_PROMPT } from '../ocrProviderInterface.js';
+import { OCRProvider, OCRResult, OCRProviderConfig, OCRRequestOptions, buildOCRPrompt } from '../ocrProviderInterface.js';
 
 // ============================================================
 // Mistral Provider Implementation
@@ -53,7 +53,7 @@ export class MistralOCRProvider extends OCRProvider {
   /**
    * Perform OCR using Mistral Vision (Pixtral)
    */
-  async performOCR(imageBuffer: Buffer): Promise<OCRResult> {
+  async performOCR(imageBuffer: Buffer, options?: OCRRequestOptions): Promise<OCRResult> {
     if (!this.isAvailable() || !this.apiKey) {
       throw new Error('Mistral provider is not available');
     }
@@ -83,7 +83,7 @@ export class MistralOCRProvider extends OCRProvider {
                     },
                     {
                       type: 'text',
-                      text: OCR_PROMPT,
+                      text: buildOCRPrompt(options),
                     },
                   ],
                 },
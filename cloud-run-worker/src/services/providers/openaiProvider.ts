@@ -9,7 +9,7 @@
  */
 
 import OpenAI from 'openai';
-import { OCRProvider, OCRResult, OCRProviderConfig, OCR_PROMPT } from '../ocrProviderInterface.js';
+import { OCRProvider, OCRResult, OCRProviderConfig, OCRRequestOptions, buildOCRPrompt } from '../ocrProviderInterface.js';
 
 // ============================================================
 // OpenAI Provider Implementation
@@ -53,7 +53,7 @@ export class OpenAIOCRProvider extends OCRProvider {
   /**
    * Perform OCR using OpenAI Vision
    */
-  async performOCR(imageBuffer: Buffer): Promise<OCRResult> {
+  async performOCR(imageBuffer: Buffer, options?: OCRRequestOptions): Promise<OCRResult> {
     if (!this.isAvailable() || !this.client) {
       throw new Error('OpenAI provider is not available');
     }
@@ -81,7 +81,7 @@ export class OpenAIOCRProvider extends OCRProvider {
                   },
                   {
                     type: 'text',
-                    text: OCR_PROMPT,
+                    text: buildOCRPrompt(options),
                   },
                 ],
               },
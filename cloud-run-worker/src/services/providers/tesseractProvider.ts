@@ -0,0 +1,214 @@
+/**
+ * Tesseract OCR Provider
+ *
+ * Implements OCR with the local Tesseract CLI (jpn + eng language packs).
+ * Free and offline: used as the last-resort fallback behind the cloud vision
+ * providers, and as the only provider when OCR_MODE=offline (local development, CI).
+ *
+ * Confidence is the character-weighted mean of Tesseract's per-word confidences.
+ */
+
+import { spawn, spawnSync } from 'child_process';
+import { OCRProvider, OCRResult, OCRProviderConfig } from '../ocrProviderInterface.js';
+
+/** Per-image timeout (Tesseract on a 720px frame takes ~1-3s) */
+const TESSERACT_TIMEOUT_MS = 30000;
+
+/** Tesseract TSV row level for a single word */
+const TSV_WORD_LEVEL = 5;
+
+// ============================================================
+// Tesseract Provider Implementation
+// ============================================================
+
+/**
+ * Tesseract OCR Provider using the local `tesseract` binary
+ */
+export class TesseractOCRProvider extends OCRProvider {
+  private readonly binaryPath: string;
+  private readonly languages: string;
+  private readonly pageSegMode: string;
+  private readonly minWordConfidence: number;
+
+  constructor(config?: Partial<OCRProviderConfig>) {
+    const defaultConfig: OCRProviderConfig = {
+      name: 'tesseract',
+      maxParallel: parseInt(process.env.TESSERACT_MAX_PARALLEL || '2', 10),
+      rateLimit: parseInt(process.env.TESSERACT_RATE_LIMIT || '600', 10), // Local: no quota
+      enabled: true,
+      priority: 99, // Always tried after the cloud providers
+      model: process.env.TESSERACT_LANGS || 'jpn+eng',
+      lastResort: true,
+    };
+
+    super({ ...defaultConfig, ...config });
+    this.binaryPath = process.env.TESSERACT_PATH || 'tesseract';
+    this.languages = this.config.model || 'jpn+eng';
+    this.pageSegMode = process.env.TESSERACT_PSM || '3';
+    this.minWordConfidence = parseFloat(process.env.TESSERACT_MIN_WORD_CONFIDENCE || '40');
+
+    console.log(
+      `[TesseractProvider] Initialized: langs=${this.languages}, psm=${this.pageSegMode}, ` +
+        `maxParallel=${this.config.maxParallel}, lastResort=${this.isLastResort}`
+    );
+  }
+
+  /**
+   * Perform OCR with the Tesseract CLI (image on stdin, TSV on stdout)
+   * Glossary hints are not used (there is no prompt); aliases are still
+   * substituted after OCR.
+   */
+  async performOCR(imageBuffer: Buffer): Promise<OCRResult> {
+    if (!this.isAvailable()) {
+      throw new Error('Tesseract provider is not available');
+    }
+
+    const startTime = Date.now();
+
+    try {
+      const tsv = await this.rateLimiter.executeWithRetry(
+        () => this.runTesseract(imageBuffer),
+        (error) => this.isRetryableError(error as Error)
+      );
+
+      const parsed = parseTesseractTsv(tsv, this.minWordConfidence);
+      const processingTimeMs = Date.now() - startTime;
+
+      this.updateStats(true, processingTimeMs);
+
+      return {
+        text: parsed.text,
+        confidence: parsed.confidence,
+        provider: this.name,
+        processingTimeMs,
+      };
+    } catch (error) {
+      const processingTimeMs = Date.now() - startTime;
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      this.updateStats(false, processingTimeMs, errorMessage);
+      throw error;
+    }
+  }
+
+  /**
+   * Spawn tesseract and collect TSV output
+   */
+  private runTesseract(imageBuffer: Buffer): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const args = ['stdin', 'stdout', '-l', this.languages, '--psm', this.pageSegMode, 'tsv'];
+      const proc = spawn(this.binaryPath, args, {
+        timeout: TESSERACT_TIMEOUT_MS,
+        stdio: ['pipe', 'pipe', 'pipe'],
+        // One thread per process; parallelism comes from maxParallel
+        env: { ...process.env, OMP_THREAD_LIMIT: '1' },
+      });
+
+      let stdout = '';
+      let stderr = '';
+      proc.stdout.on('data', (data: Buffer) => { stdout += data.toString(); });
+      proc.stderr.on('data', (data: Buffer) => { stderr += data.toString(); });
+
+      proc.on('close', (code, signal) => {
+        if (signal) {
+          reject(new Error(`Tesseract timeout after ${TESSERACT_TIMEOUT_MS}ms (${signal})`));
+        } else if (code !== 0) {
+          reject(new Error(`Tesseract exited with code ${code}: ${stderr.trim().slice(-300)}`));
+        } else {
+          resolve(stdout);
+        }
+      });
+
+      proc.on('error', (error) => {
+        reject(new Error(`Failed to spawn Tesseract: ${error.message}`));
+      });
+
+      proc.stdin.on('error', () => {
+        // Process exited before reading the image; reported by 'close'
+      });
+      proc.stdin.end(imageBuffer);
+    });
+  }
+}
+
+// ============================================================
+// TSV Parsing
+// ============================================================
+
+/**
+ * Parse Tesseract TSV output into text and confidence
+ *
+ * Words below `minWordConfidence` (0-100) are dropped as background noise.
+ * Words are joined per line; spaces Tesseract inserts between Japanese
+ * characters are removed.
+ *
+ * @param tsv - `tesseract ... tsv` output
+ * @param minWordConfidence - Minimum per-word confidence to keep (0-100)
+ * @returns Text with \n line breaks and confidence (0-1, 0 when no text)
+ */
+export function parseTesseractTsv(
+  tsv: string,
+  minWordConfidence: number = 0
+): { text: string; confidence: number } {
+  const lines = new Map<string, string[]>();
+  let weightedConfidence = 0;
+  let totalChars = 0;
+
+  for (const row of tsv.split('\n').slice(1)) {
+    const cols = row.split('\t');
+    if (cols.length < 12 || parseInt(cols[0], 10) !== TSV_WORD_LEVEL) continue;
+
+    const conf = parseFloat(cols[10]);
+    const word = cols.slice(11).join('\t').trim();
+    if (!word || conf < 0 || conf < minWordConfidence) continue;
+
+    // page/block/paragraph/line identify the text line
+    const lineKey = cols.slice(1, 5).join(':');
+    if (!lines.has(lineKey)) lines.set(lineKey, []);
+    lines.get(lineKey)!.push(word);
+
+    weightedConfidence += conf * word.length;
+    totalChars += word.length;
+  }
+
+  const cjk = '\\u3000-\\u30ff\\u3400-\\u9fff\\uff00-\\uffef';
+  const betweenCjk = new RegExp(`(?<=[${cjk}]) +(?=[${cjk}])`, 'g');
+  const text = [...lines.values()]
+    .map(words => words.join(' ').replace(betweenCjk, ''))
+    .join('\n');
+
+  return {
+    text,
+    confidence: totalChars > 0 ? Math.round((weightedConfidence / totalChars) * 10) / 1000 : 0,
+  };
+}
+
+// ============================================================
+// Factory Function
+// ============================================================
+
+/**
+ * Create Tesseract OCR provider if the binary and language packs are installed
+ */
+export function createTesseractProvider(
+  overrides?: Partial<OCRProviderConfig>
+): TesseractOCRProvider | null {
+  const binaryPath = process.env.TESSERACT_PATH || 'tesseract';
+  const required = (overrides?.model || process.env.TESSERACT_LANGS || 'jpn+eng').split('+');
+
+  const listed = spawnSync(binaryPath, ['--list-langs'], { encoding: 'utf-8', timeout: 10000 });
+  if (listed.error || listed.status !== 0) {
+    console.warn(`[TesseractProvider] Skipping creation - ${binaryPath} not found`);
+    return null;
+  }
+
+  // `--list-langs` prints a header line, then one language per line (stdout or stderr by version)
+  const installed = new Set(`${listed.stdout}\n${listed.stderr}`.split('\n').map(line => line.trim()));
+  const missing = required.filter(lang => !installed.has(lang));
+  if (missing.length > 0) {
+    console.warn(`[TesseractProvider] Skipping creation - missing language packs: ${missing.join(', ')}`);
+    return null;
+  }
+
+  return new TesseractOCRProvider(overrides);
+}
@@ -107,12 +107,14 @@ function loadConfig(): PySceneConfig {
  * @param videoPath - Path to the video file
  * @param videoDuration - Video duration in seconds (for progress estimation)
  * @param onProgress - Optional progress callback
+ * @param signal - Optional cancellation signal; aborting kills the Python process
  * @returns Object with scene cuts array
  */
 export async function detectWithPyScene(
   videoPath: string,
   videoDuration?: number,
-  onProgress?: SceneDetectionProgressCallback
+  onProgress?: SceneDetectionProgressCallback,
+  signal?: AbortSignal
 ): Promise<{ cuts: SceneCut[]; telopAnimations: TelopAnimation[]; panAnimations: PanAnimation[] }> {
   const config = loadConfig();
   const startTime = Date.now();
@@ -166,7 +168,7 @@ export async function detectWithPyScene(
   }
 
   try {
-    const { results, telopAnimations, panAnimations } = await runPySceneProcess(videoPath, outputJson, config);
+    const { results, telopAnimations, panAnimations } = await runPySceneProcess(videoPath, outputJson, config, signal);
 
     const cuts: SceneCut[] = results.map((r) => ({
       timestamp: Math.floor(r.timestamp * 1000) / 1000, // ミリ秒精度を保持（0.1s丸めによるカット消失を防止）
@@ -218,11 +220,17 @@ export async function detectWithPyScene(
 function runPySceneProcess(
   videoPath: string,
   outputJson: string,
-  config: PySceneConfig
+  config: PySceneConfig,
+  signal?: AbortSignal
 ): Promise<{ results: PySceneResult[]; telopAnimations: TelopAnimation[]; panAnimations: PanAnimation[] }> {
   return new Promise((resolve, reject) => {
     let completed = false;
 
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
     const args = [
       config.scriptPath,
       videoPath,
@@ -266,15 +274,28 @@ function runPySceneProcess(
     const timeoutId = setTimeout(() => {
       if (!completed) {
         completed = true;
+        signal?.removeEventListener('abort', onAbort);
         proc.kill('SIGKILL');
         reject(new Error(`PySceneDetect timed out after ${config.timeoutMs / 1000}s`));
       }
     }, config.timeoutMs);
 
+    // Cancellation: kill the child right away instead of waiting for detection to finish
+    function onAbort() {
+      if (completed) return;
+      completed = true;
+      clearTimeout(timeoutId);
+      console.log(`  [PyScene] Cancelled, killing process ${proc.pid}`);
+      proc.kill('SIGKILL');
+      reject(signal!.reason);
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
     proc.on('close', async (code) => {
       if (completed) return;
       completed = true;
       clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
 
       if (code !== 0) {
         reject(new Error(`PySceneDetect exited with code ${code}: ${stderr.slice(-500)}`));
@@ -298,6 +319,7 @@ function runPySceneProcess(
       if (completed) return;
       completed = true;
       clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
       reject(new Error(`Failed to spawn PySceneDetect: ${error.message}`));
     });
   });
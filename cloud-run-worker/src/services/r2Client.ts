@@ -4,6 +4,10 @@ import {
   PutObjectCommand,
   DeleteObjectCommand,
   HeadObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
 } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { NodeHttpHandler } from '@smithy/node-http-handler';
@@ -75,6 +79,78 @@ export async function uploadToR2(
   return key;
 }
 
+/**
+ * Start a multipart upload (used by the URL importer to stream large files into R2)
+ * @param key - The object key (path) in R2
+ * @param contentType - The MIME type of the file
+ * @returns The multipart upload ID
+ */
+export async function createMultipartUpload(key: string, contentType: string): Promise<string> {
+  const response = await r2Client.send(new CreateMultipartUploadCommand({
+    Bucket: R2_BUCKET,
+    Key: key,
+    ContentType: contentType,
+  }));
+  if (!response.UploadId) {
+    throw new Error(`R2 did not return a multipart upload ID: ${key}`);
+  }
+  return response.UploadId;
+}
+
+/**
+ * Upload one part of a multipart upload
+ * @returns The part's ETag (needed to complete the upload)
+ */
+export async function uploadPart(
+  key: string,
+  multipartUploadId: string,
+  partNumber: number,
+  body: Buffer
+): Promise<string> {
+  const response = await r2Client.send(new UploadPartCommand({
+    Bucket: R2_BUCKET,
+    Key: key,
+    UploadId: multipartUploadId,
+    PartNumber: partNumber,
+    Body: body,
+  }));
+  if (!response.ETag) {
+    throw new Error(`R2 did not return an ETag for part ${partNumber}: ${key}`);
+  }
+  return response.ETag;
+}
+
+/**
+ * Assemble the uploaded parts into the final object
+ */
+export async function completeMultipartUpload(
+  key: string,
+  multipartUploadId: string,
+  parts: { partNumber: number; etag: string }[]
+): Promise<void> {
+  await r2Client.send(new CompleteMultipartUploadCommand({
+    Bucket: R2_BUCKET,
+    Key: key,
+    UploadId: multipartUploadId,
+    MultipartUpload: {
+      Parts: [...parts]
+        .sort((a, b) => a.partNumber - b.partNumber)
+        .map((part) => ({ PartNumber: part.partNumber, ETag: part.etag })),
+    },
+  }));
+}
+
+/**
+ * Abort a multipart upload and discard its parts
+ */
+export async function abortMultipartUpload(key: string, multipartUploadId: string): Promise<void> {
+  await r2Client.send(new AbortMultipartUploadCommand({
+    Bucket: R2_BUCKET,
+    Key: key,
+    UploadId: multipartUploadId,
+  }));
+}
+
 /**
  * Delete a file from R2
  * @param key - The object key (path) to delete
@@ -126,6 +202,23 @@ export async function downloadFromR2(key: string): Promise<{
   }
 }
 
+/**
+ * Download a small R2 object fully into memory (JSON results, screenshots)
+ * @param key - The object key (path) in R2
+ * @returns Object content
+ */
+export async function downloadBufferFromR2(key: string): Promise<Buffer> {
+  const command = new GetObjectCommand({
+    Bucket: R2_BUCKET,
+    Key: key,
+  });
+  const response = await r2Client.send(command);
+  if (!response.Body) {
+    throw new Error(`R2 returned empty body: ${key}`);
+  }
+  return Buffer.from(await response.Body.transformToByteArray());
+}
+
 /**
  * Options for parallel download
  */
@@ -0,0 +1,131 @@
+/**
+ * Result Document Service
+ * Build the structured, versioned JSON result for an upload
+ *
+ * The JSON document mirrors what the Excel report contains (minus screenshots)
+ * so internal tools can consume results without parsing .xlsx files.
+ * It is written during the Excel step and uploaded to R2 next to the report.
+ */
+
+import type { GlossaryCorrection, ResultDocument, ResultScene, SpeakerTalkTime, TimecodeStyle, TopicGroupingStrategy, TranslationLanguage } from '../types/shared.js';
+import type { TopicGroup, VideoMetadata } from '../types/excel.js';
+import type { SceneWithNarration } from './pipeline.js';
+
+/**
+ * Current result document schema version
+ */
+export const RESULT_SCHEMA_VERSION = 1 as const;
+
+/**
+ * File name of a persisted scene screenshot (kept for the scene review editor)
+ * Files keep the original scene number even after scenes are edited.
+ *
+ * @param sceneNumber - Original scene number
+ * @returns File name, e.g. scene_0007.png
+ */
+export function screenshotFileName(sceneNumber: number): string {
+  return `scene_${String(sceneNumber).padStart(4, '0')}.png`;
+}
+
+/**
+ * Input for building a result document
+ */
+export interface ResultDocumentInput {
+  uploadId?: string;
+  fileName: string;
+  scenes: SceneWithNarration[];
+  topicGroups: TopicGroup[];
+  /** Strategy the topic groups were built with (omitted from the document when 'ocr') */
+  topicGrouping?: TopicGroupingStrategy;
+  /** Group duration limits chosen for 'semantic' grouping (seconds, omitted when not chosen) */
+  minTopicGroupDuration?: number;
+  maxTopicGroupDuration?: number;
+  videoMetadata: VideoMetadata;
+  timecodeStyle: TimecodeStyle;
+  /** Formatter matching the upload's timecode style (same as the Excel sheet) */
+  formatTime: (seconds: number) => string;
+  /** Scene number → persisted screenshot file name (see screenshotFileName) */
+  screenshotFiles?: Map<number, string>;
+  /** Generated whole-video executive summary (optional) */
+  executiveSummary?: string;
+  /** Per-speaker talk time (omitted from the document when empty) */
+  speakers?: SpeakerTalkTime[];
+  /** Translation languages of the scenes' `translations` (omitted from the document when empty) */
+  translationLanguages?: TranslationLanguage[];
+  /** Glossary aliases replaced after OCR (omitted from the document when empty) */
+  glossaryCorrections?: GlossaryCorrection[];
+}
+
+/**
+ * Build the structured JSON result document
+ *
+ * @param input - Final scenes, topic groups and video metadata
+ * @returns Versioned result document
+ */
+export function buildResultDocument(input: ResultDocumentInput): ResultDocument {
+  const { uploadId, fileName, scenes, topicGroups, topicGrouping, minTopicGroupDuration, maxTopicGroupDuration, videoMetadata, timecodeStyle, formatTime, screenshotFiles, executiveSummary, speakers, glossaryCorrections, translationLanguages } = input;
+
+  // Scene number → topic group number
+  const groupByScene = new Map<number, number>();
+  for (const group of topicGroups) {
+    for (const sceneNumber of group.sceneNumbers) {
+      groupByScene.set(sceneNumber, group.groupNumber);
+    }
+  }
+
+  const resultScenes: ResultScene[] = scenes.map(scene => ({
+    sceneNumber: scene.sceneNumber,
+    startTime: scene.startTime,
+    endTime: scene.endTime,
+    midTime: scene.midTime,
+    timecode: formatTime(scene.startTime),
+    detectionReason: scene.detectionReason ?? null,
+    ocrText: scene.ocrText || '',
+    ocrConfidence: scene.ocrConfidence,
+    ocrProvider: scene.ocrProvider ?? null,
+    narrationText: scene.narrationText || '',
+    topicGroup: groupByScene.get(scene.sceneNumber) ?? null,
+    screenshotFile: screenshotFiles?.get(scene.sceneNumber),
+    ...(scene.translations && Object.keys(scene.translations).length > 0 ? { translations: scene.translations } : {}),
+  }));
+
+  return {
+    schemaVersion: RESULT_SCHEMA_VERSION,
+    uploadId: uploadId ?? null,
+    fileName,
+    generatedAt: new Date().toISOString(),
+    timecodeStyle,
+    video: {
+      duration: videoMetadata.duration,
+      width: videoMetadata.width,
+      height: videoMetadata.height,
+      fps: videoMetadata.fps,
+      dropFrame: videoMetadata.dropFrame,
+    },
+    stats: {
+      totalScenes: resultScenes.length,
+      scenesWithOCR: resultScenes.filter(s => s.ocrText.trim().length > 0).length,
+      scenesWithNarration: resultScenes.filter(s => s.narrationText.trim().length > 0).length,
+    },
+    ...(executiveSummary ? { summary: executiveSummary } : {}),
+    ...(topicGrouping && topicGrouping !== 'ocr' ? { topicGrouping } : {}),
+    ...(topicGrouping === 'semantic' && minTopicGroupDuration !== undefined ? { minTopicGroupDuration } : {}),
+    ...(topicGrouping === 'semantic' && maxTopicGroupDuration !== undefined ? { maxTopicGroupDuration } : {}),
+    topicGroups: topicGroups.map(group => ({
+      groupNumber: group.groupNumber,
+      sceneNumbers: group.sceneNumbers,
+      timeRange: group.timeRange,
+      startTime: group.startTime,
+      endTime: group.endTime,
+      ...(group.title ? { title: group.title } : {}),
+      ...(group.titleTranslations ? { titleTranslations: group.titleTranslations } : {}),
+      ...(group.summary ? { summary: group.summary } : {}),
+      ocr: group.ocr,
+      narration: group.narration,
+    })),
+    scenes: resultScenes,
+    ...(translationLanguages && translationLanguages.length > 0 ? { translationLanguages } : {}),
+    ...(speakers && speakers.length > 0 ? { speakers } : {}),
+    ...(glossaryCorrections && glossaryCorrections.length > 0 ? { glossaryCorrections } : {}),
+  };
+}
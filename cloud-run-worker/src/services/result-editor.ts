@@ -0,0 +1,342 @@
+/**
+ * Result Editor Service
+ * Regenerate the Excel report and exports from scenes corrected in the scene review editor
+ *
+ * Edits only touch text, scene boundaries and which scenes are kept, so the
+ * report is rebuilt from the stored JSON result and screenshots —
+ * OCR and Whisper are never re-run (the source video is already deleted).
+ * Every export is written again; subtitles are timed by the edited scenes
+ * because the Whisper segments are not stored.
+ * Translations are kept for scenes whose text is unchanged; edited scenes
+ * are translated again. Topics are regrouped, so their titles (and title
+ * translations), summaries and the chapter lists are generated again.
+ */
+
+import fs from 'fs';
+import { promises as fsPromises } from 'fs';
+import path from 'path';
+import os from 'os';
+import pLimit from 'p-limit';
+import { generateExcel } from './excel-generator.js';
+import { buildResultDocument } from './result-document.js';
+import { groupScenes } from './topicGrouping.js';
+import { translateScenesWithLLM, translateTopicTitlesWithLLM } from './llmTranslation.js';
+import { summarizeTopicsWithLLM } from './topicSummarizer.js';
+import { exportFormatsFor, generateExportFiles } from './export-generator.js';
+import { uploadResultFile, uploadExportFile } from './blobUploader.js';
+import { deleteFromR2, downloadBufferFromR2, generateResultKey } from './r2Client.js';
+import { createTimecodeFormatter } from '../utils/timecode.js';
+import type { EditedScene, ExportFormat, ResultDocument } from '../types/shared.js';
+import type { ExcelRow, VideoMetadata } from '../types/excel.js';
+import type { SceneWithNarration } from './pipeline.js';
+
+/** Tolerance for floating point scene boundaries (seconds) */
+const TIME_EPSILON = 0.001;
+
+/**
+ * Result of applying editor scenes to a stored result document
+ */
+export type SceneEditResult =
+  | { ok: true; scenes: SceneWithNarration[]; screenshotFiles: Map<number, string> }
+  | { ok: false; error: string };
+
+/**
+ * Result of a regeneration request
+ * exportR2Keys (production only) replaces metadata.exportR2Keys: formats that could
+ * not be regenerated are deleted from R2 and left out.
+ */
+export type RegenerateResult =
+  | { ok: true; document: ResultDocument; exportR2Keys?: Partial<Record<ExportFormat, string>> }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Apply editor scenes to the stored result
+ * Scenes are renumbered sequentially; each keeps the screenshot of its source scene,
+ * and its translations when the OCR and narration text are unchanged.
+ *
+ * @param document - Stored result document (original scene numbers)
+ * @param edits - Edited scenes in playback order
+ * @param screenshotsDir - Local directory holding the persisted screenshots
+ * @returns Pipeline scenes ready for Excel generation, or a validation error
+ */
+export function applySceneEdits(
+  document: ResultDocument,
+  edits: EditedScene[],
+  screenshotsDir: string
+): SceneEditResult {
+  if (edits.length === 0) {
+    return { ok: false, error: 'At least one scene is required' };
+  }
+
+  const sources = new Map(document.scenes.map(scene => [scene.sceneNumber, scene]));
+  const formatTime = createTimecodeFormatter(document.timecodeStyle, document.video.fps);
+  const scenes: SceneWithNarration[] = [];
+  const screenshotFiles = new Map<number, string>();
+
+  for (let i = 0; i < edits.length; i++) {
+    const edit = edits[i];
+    const source = sources.get(edit.sourceSceneNumber);
+
+    if (!source) {
+      return { ok: false, error: `Scene ${i + 1}: unknown source scene ${edit.sourceSceneNumber}` };
+    }
+    if (edit.startTime < 0 || edit.endTime <= edit.startTime || edit.endTime > document.video.duration + TIME_EPSILON) {
+      return { ok: false, error: `Scene ${i + 1}: invalid time range ${edit.startTime}-${edit.endTime}` };
+    }
+    if (i > 0 && edit.startTime < edits[i - 1].endTime - TIME_EPSILON) {
+      return { ok: false, error: `Scene ${i + 1}: overlaps the previous scene` };
+    }
+
+    const sceneNumber = i + 1;
+    // Keep the original capture point when it still falls inside the edited range
+    const midTime = source.midTime >= edit.startTime && source.midTime <= edit.endTime
+      ? source.midTime
+      : (edit.startTime + edit.endTime) / 2;
+
+    scenes.push({
+      sceneNumber,
+      startTime: edit.startTime,
+      endTime: edit.endTime,
+      midTime,
+      timecode: formatTime(edit.startTime),
+      screenshotPath: source.screenshotFile ? path.join(screenshotsDir, source.screenshotFile) : undefined,
+      detectionReason: (source.detectionReason ?? undefined) as SceneWithNarration['detectionReason'],
+      ocrText: edit.ocrText,
+      ocrConfidence: source.ocrConfidence,
+      ocrProvider: source.ocrProvider ?? undefined,
+      narrationText: edit.narrationText,
+      translations: source.translations && edit.ocrText === source.ocrText && edit.narrationText === source.narrationText
+        ? source.translations
+        : undefined,
+    });
+
+    if (source.screenshotFile) {
+      screenshotFiles.set(sceneNumber, source.screenshotFile);
+    }
+  }
+
+  return { ok: true, scenes, screenshotFiles };
+}
+
+/**
+ * Load the stored JSON result for an upload
+ * Development: /tmp/result_{uploadId}.json, Production: R2 next to the Excel report
+ */
+async function loadStoredResult(uploadId: string, userId: string): Promise<ResultDocument | null> {
+  if (process.env.NODE_ENV === 'development') {
+    const jsonPath = path.join('/tmp', `result_${uploadId}.json`);
+    if (!fs.existsSync(jsonPath)) return null;
+    return JSON.parse(await fsPromises.readFile(jsonPath, 'utf-8')) as ResultDocument;
+  }
+
+  const jsonKey = generateResultKey(userId, uploadId, `${uploadId}_analysis.json`);
+  try {
+    return JSON.parse((await downloadBufferFromR2(jsonKey)).toString('utf-8')) as ResultDocument;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (message.includes('NoSuchKey') || message.includes('404')) return null;
+    throw error;
+  }
+}
+
+/**
+ * Make the screenshots referenced by the stored result available locally
+ * Development reads them in place; production downloads them into workDir.
+ * Missing screenshots are skipped (Excel shows "(image unavailable)").
+ *
+ * @returns Directory containing the screenshot files
+ */
+async function prepareScreenshots(
+  uploadId: string,
+  userId: string,
+  document: ResultDocument,
+  workDir: string
+): Promise<string> {
+  if (process.env.NODE_ENV === 'development') {
+    return path.join('/tmp', `result_${uploadId}_frames`);
+  }
+
+  const screenshotsDir = path.join(workDir, 'frames');
+  await fsPromises.mkdir(screenshotsDir, { recursive: true });
+
+  const prefix = generateResultKey(userId, uploadId, 'frames/');
+  const files = document.scenes
+    .map(scene => scene.screenshotFile)
+    .filter((file): file is string => !!file);
+  const limit = pLimit(8);
+
+  await Promise.all(files.map(file => limit(async () => {
+    try {
+      await fsPromises.writeFile(path.join(screenshotsDir, file), await downloadBufferFromR2(`${prefix}${file}`));
+    } catch (error) {
+      console.warn(`[${uploadId}] ⚠️ Screenshot unavailable: ${file}`, error);
+    }
+  })));
+
+  return screenshotsDir;
+}
+
+/**
+ * Regenerate the Excel report, JSON result and every export from editor scenes
+ * Overwrites the stored files in place so existing download links keep working.
+ *
+ * @param uploadId - Upload ID (ownership already verified by the caller)
+ * @param userId - Owner user ID (R2 key generation)
+ * @param edits - Edited scenes in playback order
+ * @returns Updated result document, or an error with HTTP status
+ */
+export async function regenerateResult(
+  uploadId: string,
+  userId: string,
+  edits: EditedScene[]
+): Promise<RegenerateResult> {
+  const stored = await loadStoredResult(uploadId, userId);
+  if (!stored) {
+    return { ok: false, status: 404, error: 'Result data not found' };
+  }
+
+  const workDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), `regen_${uploadId}_`));
+
+  try {
+    const screenshotsDir = await prepareScreenshots(uploadId, userId, stored, workDir);
+    const applied = applySceneEdits(stored, edits, screenshotsDir);
+    if (!applied.ok) {
+      return { ok: false, status: 400, error: applied.error };
+    }
+
+    const { scenes, screenshotFiles } = applied;
+    const formatTime = createTimecodeFormatter(stored.timecodeStyle, stored.video.fps);
+    const videoMetadata: VideoMetadata = {
+      width: stored.video.width,
+      height: stored.video.height,
+      aspectRatio: stored.video.height > 0 ? stored.video.width / stored.video.height : 16 / 9,
+      duration: stored.video.duration,
+      fps: stored.video.fps,
+      dropFrame: stored.video.dropFrame,
+    };
+
+    const topicGrouping = stored.topicGrouping ?? 'ocr';
+    const groupedTopics = await groupScenes(
+      scenes.map(s => ({
+        sceneNumber: s.sceneNumber,
+        startTime: s.startTime,
+        endTime: s.endTime,
+        ocr: s.ocrText,
+        narration: s.narrationText,
+      })),
+      topicGrouping,
+      formatTime,
+      { minGroupDuration: stored.minTopicGroupDuration, maxGroupDuration: stored.maxTopicGroupDuration }
+    );
+    const summarized = await summarizeTopicsWithLLM(groupedTopics);
+    const { executiveSummary } = summarized;
+
+    // Translate edited scenes again (unchanged scenes kept theirs in applySceneEdits)
+    const translationLanguages = stored.translationLanguages ?? [];
+    const topicGroups = await translateTopicTitlesWithLLM(summarized.topicGroups, translationLanguages);
+    const untranslated = translationLanguages.length > 0 ? scenes.filter(scene => !scene.translations) : [];
+    if (untranslated.length > 0) {
+      console.log(`[${uploadId}] 🌐 Translating ${untranslated.length} edited scenes`);
+      const { translations } = await translateScenesWithLLM(
+        untranslated.map(scene => ({ sceneNumber: scene.sceneNumber, ocr: scene.ocrText, narration: scene.narrationText })),
+        translationLanguages
+      );
+      untranslated.forEach((scene, i) => {
+        scene.translations = translations[i];
+      });
+    }
+
+    const rows: ExcelRow[] = scenes.map(scene => ({
+      sceneNumber: scene.sceneNumber,
+      timecode: scene.timecode,
+      screenshotPath: scene.screenshotPath ?? '',
+      ocrText: scene.ocrText,
+      narrationText: scene.narrationText,
+      translations: scene.translations,
+    }));
+
+    console.log(`[${uploadId}] ✏️ Regenerating Excel from ${scenes.length} edited scenes (was ${stored.scenes.length})`);
+    const excelBuffer = await generateExcel({
+      projectTitle: stored.fileName,
+      rows,
+      videoMetadata,
+      includeStatistics: true,
+      topicGroups,
+      executiveSummary,
+      speakerTalkTimes: stored.speakers,
+      glossaryCorrections: stored.glossaryCorrections,
+      translationLanguages,
+    });
+
+    const document: ResultDocument = {
+      ...buildResultDocument({
+        uploadId,
+        fileName: stored.fileName,
+        scenes,
+        topicGroups,
+        topicGrouping,
+        minTopicGroupDuration: stored.minTopicGroupDuration,
+        maxTopicGroupDuration: stored.maxTopicGroupDuration,
+        videoMetadata,
+        timecodeStyle: stored.timecodeStyle,
+        formatTime,
+        screenshotFiles,
+        executiveSummary,
+        speakers: stored.speakers,
+        glossaryCorrections: stored.glossaryCorrections,
+        translationLanguages,
+      }),
+      editedAt: new Date().toISOString(),
+    };
+
+    const excelPath = path.join(workDir, `${uploadId}_analysis.xlsx`);
+    await fsPromises.writeFile(excelPath, excelBuffer);
+    const exportPaths = await generateExportFiles(
+      path.join(workDir, `${uploadId}_analysis`),
+      stored.fileName,
+      [],
+      scenes,
+      videoMetadata,
+      document
+    );
+
+    const exportFormats = exportFormatsFor(translationLanguages);
+    let exportR2Keys: Partial<Record<ExportFormat, string>> | undefined;
+    if (process.env.NODE_ENV === 'development') {
+      fs.copyFileSync(excelPath, path.join('/tmp', `result_${uploadId}.xlsx`));
+      for (const format of exportFormats) {
+        const persistentPath = path.join('/tmp', `result_${uploadId}.${format}`);
+        const exportPath = exportPaths[format];
+        if (exportPath) {
+          fs.copyFileSync(exportPath, persistentPath);
+        } else {
+          fs.rmSync(persistentPath, { force: true });
+        }
+      }
+    } else {
+      await uploadResultFile(excelPath, uploadId, userId);
+      exportR2Keys = {};
+      for (const format of exportFormats) {
+        const exportPath = exportPaths[format];
+        if (exportPath) {
+          try {
+            exportR2Keys[format] = await uploadExportFile(exportPath, format, uploadId, userId);
+            continue;
+          } catch (exportError) {
+            // The scene editor loads the JSON result next time: without it the edit is lost
+            if (format === 'json') throw exportError;
+            console.warn(`[${uploadId}] ⚠️ Failed to upload ${format} export:`, exportError);
+          }
+        }
+
+        // Never leave the pre-edit file behind: the download would contradict the edited result
+        await deleteFromR2(generateResultKey(userId, uploadId, `${uploadId}_analysis.${format}`)).catch(() => {});
+      }
+    }
+
+    console.log(`[${uploadId}] ✅ Edited result saved (${document.stats.totalScenes} scenes, ${topicGroups.length} topics)`);
+    return { ok: true, document, exportR2Keys };
+  } finally {
+    await fsPromises.rm(workDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * Search Index Service
+ *
+ * Indexes each completed upload's per-scene OCR and narration text into the
+ * scene_search FTS5 table (called from completeStatus, and again after scene
+ * edits). The app searches it across all of a user's uploads (/api/search).
+ *
+ * The trigram tokenizer matches substrings, so Japanese text (no spaces
+ * between words) is searchable without a segmenter.
+ * Turso only; in-memory in development (same dual mode as jobQueue).
+ */
+
+import dotenv from 'dotenv';
+import { createClient, type Client } from '@libsql/client';
+import type { ResultDocument } from '../types/shared.js';
+
+// Load environment variables
+dotenv.config();
+
+// ============================================================
+// Types
+// ============================================================
+
+/**
+ * One indexed scene (a row of scene_search)
+ */
+export interface SearchIndexRow {
+  uploadId: string;
+  userId: string;
+  fileName: string;
+  sceneNumber: number;
+  startTime: number;
+  timecode: string;
+  screenshotFile?: string;
+  ocrText: string;
+  narrationText: string;
+}
+
+// ============================================================
+// Storage (Turso or in-memory)
+// ============================================================
+
+// In-memory index (development mode and tests): uploadId → rows
+const inMemoryIndex = new Map<string, SearchIndexRow[]>();
+
+// Turso client (lazy initialization, table created on first use)
+let tursoReady: Promise<Client | null> | null = null;
+
+/**
+ * Lazy initialization of the Turso client
+ * Creates the FTS5 table if missing (see lib/turso-migrations/011_create_scene_search.sql)
+ */
+function getTursoClient(): Promise<Client | null> {
+  if (tursoReady) {
+    return tursoReady;
+  }
+
+  const useTurso = process.env.NODE_ENV === 'production' || process.env.USE_TURSO === 'true';
+
+  if (!useTurso) {
+    tursoReady = Promise.resolve(null);
+    return tursoReady;
+  }
+
+  if (!process.env.TURSO_DATABASE_URL || !process.env.TURSO_AUTH_TOKEN) {
+    console.error('[SearchIndex] Missing Turso credentials, falling back to in-memory mode');
+    tursoReady = Promise.resolve(null);
+    return tursoReady;
+  }
+
+  tursoReady = (async () => {
+    try {
+      const client = createClient({
+        url: process.env.TURSO_DATABASE_URL!,
+        authToken: process.env.TURSO_AUTH_TOKEN!,
+      });
+      await client.execute(`CREATE VIRTUAL TABLE IF NOT EXISTS scene_search USING fts5(
+        ocr_text,
+        narration_text,
+        upload_id UNINDEXED,
+        user_id UNINDEXED,
+        file_name UNINDEXED,
+        scene_number UNINDEXED,
+        start_time UNINDEXED,
+        timecode UNINDEXED,
+        screenshot_file UNINDEXED,
+        tokenize = 'trigram'
+      )`);
+      return client;
+    } catch (error) {
+      console.error('[SearchIndex] Failed to initialize Turso, falling back to in-memory mode:', error);
+      return null;
+    }
+  })();
+
+  return tursoReady;
+}
+
+/**
+ * Indexed rows of an upload in in-memory mode (tests only)
+ */
+export function getInMemorySearchRows(uploadId: string): SearchIndexRow[] {
+  return inMemoryIndex.get(uploadId) ?? [];
+}
+
+/**
+ * Clear the in-memory index (tests only)
+ */
+export function resetInMemorySearchIndex(): void {
+  inMemoryIndex.clear();
+}
+
+// ============================================================
+// Indexing
+// ============================================================
+
+/**
+ * Scenes worth indexing: those with OCR or narration text
+ *
+ * @param uploadId - Upload ID
+ * @param userId - Owner (search is scoped to it)
+ * @param document - Final result document
+ * @returns One row per scene with text
+ */
+export function buildSearchIndexRows(
+  uploadId: string,
+  userId: string,
+  document: ResultDocument
+): SearchIndexRow[] {
+  return document.scenes
+    .filter(scene => scene.ocrText.trim().length > 0 || scene.narrationText.trim().length > 0)
+    .map(scene => ({
+      uploadId,
+      userId,
+      fileName: document.fileName,
+      sceneNumber: scene.sceneNumber,
+      startTime: scene.startTime,
+      timecode: scene.timecode,
+      screenshotFile: scene.screenshotFile,
+      ocrText: scene.ocrText.trim(),
+      narrationText: scene.narrationText.trim(),
+    }));
+}
+
+/**
+ * Replace an upload's rows in the search index
+ *
+ * Best-effort: search must never fail processing or scene edits, so errors
+ * are logged, not thrown.
+ *
+ * @returns Number of indexed scenes (0 on failure)
+ */
+export async function indexUploadForSearch(
+  uploadId: string,
+  userId: string,
+  document: ResultDocument
+): Promise<number> {
+  const rows = buildSearchIndexRows(uploadId, userId, document);
+
+  try {
+    const client = await getTursoClient();
+
+    if (client) {
+      await client.batch([
+        { sql: 'DELETE FROM scene_search WHERE upload_id = ?', args: [uploadId] },
+        ...rows.map(row => ({
+          sql: `INSERT INTO scene_search
+                (ocr_text, narration_text, upload_id, user_id, file_name, scene_number, start_time, timecode, screenshot_file)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          args: [
+            row.ocrText,
+            row.narrationText,
+            row.uploadId,
+            row.userId,
+            row.fileName,
+            row.sceneNumber,
+            row.startTime,
+            row.timecode,
+            row.screenshotFile ?? null,
+          ],
+        })),
+      ], 'write');
+    } else {
+      inMemoryIndex.set(uploadId, rows);
+    }
+
+    console.log(`[${uploadId}] 🔎 Indexed ${rows.length} scene(s) for search`);
+    return rows.length;
+  } catch (error) {
+    console.error(`[${uploadId}] Failed to index scenes for search:`, error);
+    return 0;
+  }
+}
@@ -0,0 +1,371 @@
+/**
+ * Semantic Index Service
+ *
+ * Stores one embedding per scene (combined OCR + narration text, embedded
+ * right after LLM cleansing and again after scene edits) and serves:
+ * - semantic scene search across a user's uploads (/search/semantic)
+ * - "ask the video": answers grounded in the most relevant scenes of one
+ *   upload, citing scene numbers and timecodes (/result/:uploadId/ask)
+ *
+ * Embeddings come from the SEMANTIC_PROVIDER (semanticProviders/index.ts).
+ * Turso only (libSQL vector functions); in-memory in development (same dual
+ * mode as jobQueue).
+ */
+
+import dotenv from 'dotenv';
+import { createClient, type Client } from '@libsql/client';
+import { getSemanticProvider } from './semanticProviders/index.js';
+import { cosineSimilarity } from './semanticProviderInterface.js';
+
+// Load environment variables
+dotenv.config();
+
+// ============================================================
+// Types
+// ============================================================
+
+/**
+ * Scene text to embed (from the pipeline or a result document)
+ */
+export interface SemanticSceneInput {
+  sceneNumber: number;
+  startTime: number;
+  timecode: string;
+  ocrText: string;
+  narrationText: string;
+}
+
+/**
+ * A scene returned by semantic search
+ */
+export interface SemanticSearchHit {
+  uploadId: string;
+  fileName: string;
+  sceneNumber: number;
+  startTime: number;
+  timecode: string;
+  text: string;
+  /** Cosine similarity to the query (higher is closer) */
+  score: number;
+}
+
+/**
+ * A scene cited by an answer
+ */
+export interface SemanticCitation {
+  sceneNumber: number;
+  startTime: number;
+  timecode: string;
+}
+
+export interface AskVideoResult {
+  answer: string;
+  citations: SemanticCitation[];
+}
+
+interface EmbeddingRow {
+  uploadId: string;
+  userId: string;
+  fileName: string;
+  sceneNumber: number;
+  startTime: number;
+  timecode: string;
+  text: string;
+  model: string;
+  embedding: number[];
+}
+
+// ============================================================
+// Configuration
+// ============================================================
+
+/** Longest text embedded per scene (embedding models truncate long inputs anyway) */
+const MAX_EMBEDDING_TEXT_CHARS = 2000;
+
+/** Longest accepted search query / question */
+export const MAX_SEMANTIC_QUERY_LENGTH = 500;
+
+export const DEFAULT_SEMANTIC_SEARCH_LIMIT = 10;
+export const MAX_SEMANTIC_SEARCH_LIMIT = 50;
+
+/** Scenes handed to the provider as context for an answer */
+const ASK_CONTEXT_SCENES = 6;
+
+// ============================================================
+// Storage (Turso or in-memory)
+// ============================================================
+
+// In-memory index (development mode and tests): uploadId → rows
+const inMemoryIndex = new Map<string, EmbeddingRow[]>();
+
+// Turso client (lazy initialization, table created on first use)
+let tursoReady: Promise<Client | null> | null = null;
+
+/**
+ * Lazy initialization of the Turso client
+ * Creates the table if missing (see lib/turso-migrations/012_create_scene_embeddings.sql)
+ */
+function getTursoClient(): Promise<Client | null> {
+  if (tursoReady) {
+    return tursoReady;
+  }
+
+  const useTurso = process.env.NODE_ENV === 'production' || process.env.USE_TURSO === 'true';
+
+  if (!useTurso) {
+    tursoReady = Promise.resolve(null);
+    return tursoReady;
+  }
+
+  if (!process.env.TURSO_DATABASE_URL || !process.env.TURSO_AUTH_TOKEN) {
+    console.error('[SemanticIndex] Missing Turso credentials, falling back to in-memory mode');
+    tursoReady = Promise.resolve(null);
+    return tursoReady;
+  }
+
+  tursoReady = (async () => {
+    try {
+      const client = createClient({
+        url: process.env.TURSO_DATABASE_URL!,
+        authToken: process.env.TURSO_AUTH_TOKEN!,
+      });
+      await client.batch([
+        `CREATE TABLE IF NOT EXISTS scene_embeddings (
+          upload_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          scene_number INTEGER NOT NULL,
+          file_name TEXT NOT NULL,
+          start_time REAL NOT NULL,
+          timecode TEXT NOT NULL,
+          text TEXT NOT NULL,
+          model TEXT NOT NULL,
+          embedding BLOB NOT NULL,
+          PRIMARY KEY (upload_id, scene_number)
+        )`,
+        'CREATE INDEX IF NOT EXISTS idx_scene_embeddings_user ON scene_embeddings(user_id, model)',
+      ], 'write');
+      return client;
+    } catch (error) {
+      console.error('[SemanticIndex] Failed to initialize Turso, falling back to in-memory mode:', error);
+      return null;
+    }
+  })();
+
+  return tursoReady;
+}
+
+/**
+ * Number of embedded scenes of an upload in in-memory mode (tests only)
+ */
+export function getInMemoryEmbeddingCount(uploadId: string): number {
+  return inMemoryIndex.get(uploadId)?.length ?? 0;
+}
+
+/**
+ * Clear the in-memory index (tests only)
+ */
+export function resetInMemorySemanticIndex(): void {
+  inMemoryIndex.clear();
+}
+
+// ============================================================
+// Indexing
+// ============================================================
+
+/**
+ * Text embedded for a scene: OCR then narration
+ * @returns Combined text, empty when the scene has neither
+ */
+export function buildSceneEmbeddingText(ocrText: string, narrationText: string): string {
+  return [ocrText.trim(), narrationText.trim()]
+    .filter(Boolean)
+    .join('\n')
+    .slice(0, MAX_EMBEDDING_TEXT_CHARS);
+}
+
+/**
+ * Replace an upload's scene embeddings
+ *
+ * Best-effort: semantic search must never fail processing or scene edits, so
+ * errors are logged, not thrown.
+ *
+ * @param uploadId - Upload ID
+ * @param userId - Owner (search is scoped to it)
+ * @param fileName - Original file name (shown in cross-video results)
+ * @param scenes - Scenes with their final text
+ * @returns Scene number → embedding of the embedded scenes (empty on failure),
+ *          reused by semantic topic grouping
+ */
+export async function indexSceneEmbeddings(
+  uploadId: string,
+  userId: string,
+  fileName: string,
+  scenes: SemanticSceneInput[]
+): Promise<Map<number, number[]>> {
+  try {
+    const provider = getSemanticProvider();
+    const withText = scenes
+      .map(scene => ({ ...scene, text: buildSceneEmbeddingText(scene.ocrText, scene.narrationText) }))
+      .filter(scene => scene.text.length > 0);
+
+    const vectors = withText.length > 0
+      ? await provider.embed(withText.map(scene => scene.text), 'document')
+      : [];
+
+    const rows: EmbeddingRow[] = withText.map((scene, i) => ({
+      uploadId,
+      userId,
+      fileName,
+      sceneNumber: scene.sceneNumber,
+      startTime: scene.startTime,
+      timecode: scene.timecode,
+      text: scene.text,
+      model: provider.embeddingModel,
+      embedding: vectors[i],
+    }));
+
+    const client = await getTursoClient();
+
+    if (client) {
+      await client.batch([
+        { sql: 'DELETE FROM scene_embeddings WHERE upload_id = ?', args: [uploadId] },
+        ...rows.map(row => ({
+          sql: `INSERT INTO scene_embeddings
+                (upload_id, user_id, scene_number, file_name, start_time, timecode, text, model, embedding)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, vector32(?))`,
+          args: [
+            row.uploadId,
+            row.userId,
+            row.sceneNumber,
+            row.fileName,
+            row.startTime,
+            row.timecode,
+            row.text,
+            row.model,
+            JSON.stringify(row.embedding),
+          ],
+        })),
+      ], 'write');
+    } else {
+      inMemoryIndex.set(uploadId, rows);
+    }
+
+    console.log(`[${uploadId}] 🧭 Embedded ${rows.length} scene(s) (${provider.name}: ${provider.embeddingModel})`);
+    return new Map(rows.map(row => [row.sceneNumber, row.embedding]));
+  } catch (error) {
+    console.error(`[${uploadId}] Failed to embed scenes for semantic search:`, error);
+    return new Map();
+  }
+}
+
+// ============================================================
+// Retrieval
+// ============================================================
+
+/**
+ * Find the scenes closest in meaning to a query
+ *
+ * @param userId - Caller (only their uploads are searched)
+ * @param query - Natural-language query
+ * @param options.uploadId - Limit the search to one upload
+ * @param options.limit - Maximum number of hits
+ * @returns Hits, closest first
+ */
+export async function searchScenesSemantic(
+  userId: string,
+  query: string,
+  options: { uploadId?: string; limit?: number } = {}
+): Promise<SemanticSearchHit[]> {
+  const limit = Math.min(Math.max(1, options.limit ?? DEFAULT_SEMANTIC_SEARCH_LIMIT), MAX_SEMANTIC_SEARCH_LIMIT);
+  const provider = getSemanticProvider();
+  const [queryVector] = await provider.embed([query], 'query');
+
+  const client = await getTursoClient();
+
+  if (client) {
+    // Join processing_status so deleted uploads never show up before their rows are pruned
+    const conditions = ['scene_embeddings.user_id = ?', 'scene_embeddings.model = ?'];
+    const args: (string | number)[] = [JSON.stringify(queryVector), userId, provider.embeddingModel];
+    if (options.uploadId) {
+      conditions.push('scene_embeddings.upload_id = ?');
+      args.push(options.uploadId);
+    }
+
+    const result = await client.execute({
+      sql: `SELECT scene_embeddings.upload_id, scene_embeddings.file_name, scene_embeddings.scene_number,
+                   scene_embeddings.start_time, scene_embeddings.timecode, scene_embeddings.text,
+                   vector_distance_cos(scene_embeddings.embedding, vector32(?)) AS distance
+            FROM scene_embeddings
+            JOIN processing_status
+              ON processing_status.upload_id = scene_embeddings.upload_id
+             AND processing_status.user_id = scene_embeddings.user_id
+            WHERE ${conditions.join(' AND ')}
+            ORDER BY distance
+            LIMIT ?`,
+      args: [...args, limit],
+    });
+
+    return result.rows.map(row => ({
+      uploadId: row.upload_id as string,
+      fileName: row.file_name as string,
+      sceneNumber: Number(row.scene_number),
+      startTime: Number(row.start_time),
+      timecode: row.timecode as string,
+      text: row.text as string,
+      score: 1 - Number(row.distance),
+    }));
+  }
+
+  const candidates = options.uploadId
+    ? inMemoryIndex.get(options.uploadId) ?? []
+    : Array.from(inMemoryIndex.values()).flat();
+
+  return candidates
+    .filter(row => row.userId === userId && row.model === provider.embeddingModel)
+    .map(row => ({
+      uploadId: row.uploadId,
+      fileName: row.fileName,
+      sceneNumber: row.sceneNumber,
+      startTime: row.startTime,
+      timecode: row.timecode,
+      text: row.text,
+      score: cosineSimilarity(queryVector, row.embedding),
+    }))
+    .sort((a, b) => b.score - a.score || a.sceneNumber - b.sceneNumber)
+    .slice(0, limit);
+}
+
+/**
+ * Answer a question about one upload from its most relevant scenes
+ *
+ * @param uploadId - Upload ID
+ * @param userId - Owner
+ * @param question - Natural-language question
+ * @returns Answer with cited scenes (in the order the provider cited them),
+ *          or null when the upload has no embedded scenes
+ */
+export async function askVideo(
+  uploadId: string,
+  userId: string,
+  question: string
+): Promise<AskVideoResult | null> {
+  const scenes = await searchScenesSemantic(userId, question, { uploadId, limit: ASK_CONTEXT_SCENES });
+  if (scenes.length === 0) {
+    return null;
+  }
+
+  const provider = getSemanticProvider();
+  const result = await provider.answer(
+    question,
+    scenes.map(scene => ({ sceneNumber: scene.sceneNumber, timecode: scene.timecode, text: scene.text }))
+  );
+
+  const bySceneNumber = new Map(scenes.map(scene => [scene.sceneNumber, scene]));
+  const citations = result.sceneNumbers
+    .map(sceneNumber => bySceneNumber.get(sceneNumber))
+    .filter((scene): scene is SemanticSearchHit => scene !== undefined)
+    .map(scene => ({ sceneNumber: scene.sceneNumber, startTime: scene.startTime, timecode: scene.timecode }));
+
+  console.log(`[${uploadId}] 💬 Answered a question citing ${citations.length} scene(s)`);
+  return { answer: result.answer, citations };
+}
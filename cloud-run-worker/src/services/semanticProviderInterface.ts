@@ -0,0 +1,88 @@
+/**
+ * Semantic Provider Interface
+ *
+ * Defines the common interface for the embedding + answering backends behind
+ * semantic scene search and "ask the video" (see semanticIndex.ts).
+ * Mirrors TranscriptionProvider: one provider per deployment, selected by env.
+ */
+
+// ============================================================
+// Types and Interfaces
+// ============================================================
+
+/**
+ * A retrieved scene handed to the provider as answering context
+ */
+export interface SemanticContextScene {
+  sceneNumber: number;
+  timecode: string;
+  /** Combined OCR + narration text of the scene */
+  text: string;
+}
+
+/**
+ * Answer to a question about a video
+ */
+export interface SemanticAnswer {
+  answer: string;
+  /** Scenes the answer is based on (subset of the context scenes) */
+  sceneNumbers: number[];
+}
+
+/**
+ * What a text is embedded for (some models embed queries and documents differently)
+ */
+export type EmbeddingPurpose = 'document' | 'query';
+
+/**
+ * Embedding / answering provider
+ */
+export interface SemanticProvider {
+  /** Provider name (SEMANTIC_PROVIDER value) */
+  readonly name: string;
+  /**
+   * Embedding model ID, stored with every vector: vectors from different
+   * models live in different spaces and are never compared
+   */
+  readonly embeddingModel: string;
+
+  /**
+   * Embed texts for storage ('document') or retrieval ('query')
+   * @returns One unit-length vector per input text, in input order
+   */
+  embed(texts: string[], purpose: EmbeddingPurpose): Promise<number[][]>;
+
+  /**
+   * Answer a question using only the given scenes
+   * @param question - User question
+   * @param scenes - Retrieved scenes, most relevant first
+   */
+  answer(question: string, scenes: SemanticContextScene[]): Promise<SemanticAnswer>;
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+/**
+ * Scale a vector to unit length (zero vectors are returned unchanged)
+ */
+export function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
+
+/**
+ * Cosine similarity of two vectors of the same length
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
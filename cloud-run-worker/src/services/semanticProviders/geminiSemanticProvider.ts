@@ -0,0 +1,159 @@
+/**
+ * Gemini Semantic Provider
+ *
+ * Embeds scene text with the Gemini embedding API and answers questions with
+ * a Gemini model constrained to the retrieved scenes (JSON output).
+ * Same SDK and retry policy as llmCleansing.ts.
+ */
+
+import { GoogleGenerativeAI, TaskType } from '@google/generative-ai';
+import {
+  normalizeVector,
+  type EmbeddingPurpose,
+  type SemanticAnswer,
+  type SemanticContextScene,
+  type SemanticProvider,
+} from '../semanticProviderInterface.js';
+
+// ============================================================
+// Configuration
+// ============================================================
+
+/** batchEmbedContents accepts at most 100 requests */
+const EMBED_BATCH_SIZE = 100;
+const MAX_RETRIES = 3;
+const INITIAL_DELAY_MS = 1000;
+
+const ANSWER_PROMPT = `You answer questions about a video using ONLY the scenes below.
+Each scene has a sceneNumber, a timecode and its on-screen text and narration.
+
+## Rules
+- Answer in the language of the question
+- Base the answer only on the scenes; if they do not contain the answer, say so
+- Keep the answer short (at most a few sentences)
+- List the sceneNumbers the answer is based on, most important first
+
+## Output format
+A JSON object: {"answer": string, "sceneNumbers": number[]}`;
+
+// ============================================================
+// Gemini Provider Implementation
+// ============================================================
+
+/**
+ * Gemini embedding + answering provider
+ *
+ * Environment:
+ * - GEMINI_API_KEY: Required
+ * - SEMANTIC_EMBEDDING_MODEL: Embedding model (default: text-embedding-004)
+ * - SEMANTIC_ANSWER_MODEL: Answering model (default: gemini-2.0-flash)
+ */
+export class GeminiSemanticProvider implements SemanticProvider {
+  readonly name = 'gemini';
+  readonly embeddingModel: string;
+  private readonly answerModel: string;
+  private readonly genAI: GoogleGenerativeAI;
+
+  constructor(apiKey: string) {
+    this.genAI = new GoogleGenerativeAI(apiKey);
+    this.embeddingModel = process.env.SEMANTIC_EMBEDDING_MODEL?.trim() || 'text-embedding-004';
+    this.answerModel = process.env.SEMANTIC_ANSWER_MODEL?.trim() || 'gemini-2.0-flash';
+  }
+
+  async embed(texts: string[], purpose: EmbeddingPurpose): Promise<number[][]> {
+    const model = this.genAI.getGenerativeModel({ model: this.embeddingModel });
+    const taskType = purpose === 'query' ? TaskType.RETRIEVAL_QUERY : TaskType.RETRIEVAL_DOCUMENT;
+    const vectors: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+      const batch = texts.slice(i, i + EMBED_BATCH_SIZE);
+      const response = await withRetry(() => model.batchEmbedContents({
+        requests: batch.map(text => ({
+          content: { role: 'user', parts: [{ text }] },
+          taskType,
+        })),
+      }));
+
+      if (response.embeddings.length !== batch.length) {
+        throw new Error(`Embedding count mismatch: expected ${batch.length}, got ${response.embeddings.length}`);
+      }
+      vectors.push(...response.embeddings.map(embedding => normalizeVector(embedding.values)));
+    }
+
+    return vectors;
+  }
+
+  async answer(question: string, scenes: SemanticContextScene[]): Promise<SemanticAnswer> {
+    const model = this.genAI.getGenerativeModel({
+      model: this.answerModel,
+      generationConfig: {
+        responseMimeType: 'application/json',
+        temperature: 0.1, // Stick to the scenes
+      },
+    });
+
+    const prompt = `${ANSWER_PROMPT}\n\n## Scenes\n${JSON.stringify(scenes, null, 2)}\n\n## Question\n${question}`;
+    const result = await withRetry(() => model.generateContent(prompt));
+    const responseText = result.response.text();
+
+    let parsed: { answer?: unknown; sceneNumbers?: unknown };
+    try {
+      parsed = JSON.parse(responseText);
+    } catch {
+      throw new Error(`Invalid JSON response: ${responseText.substring(0, 200)}`);
+    }
+
+    if (typeof parsed.answer !== 'string') {
+      throw new Error('Invalid answer: missing answer string field');
+    }
+
+    // Only cite scenes that were actually given as context
+    const known = new Set(scenes.map(scene => scene.sceneNumber));
+    const sceneNumbers = Array.isArray(parsed.sceneNumbers)
+      ? parsed.sceneNumbers.filter((n): n is number => typeof n === 'number' && known.has(n))
+      : [];
+
+    return { answer: parsed.answer, sceneNumbers: Array.from(new Set(sceneNumbers)) };
+  }
+}
+
+// ============================================================
+// Internals
+// ============================================================
+
+async function withRetry<T>(fn: () => Promise<T>): Promise<T> {
+  let lastError: Error | null = null;
+
+  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      lastError = err instanceof Error ? err : new Error(String(err));
+
+      if (attempt < MAX_RETRIES - 1) {
+        const delay = INITIAL_DELAY_MS * Math.pow(2, attempt);
+        console.warn(`    ⏳ [Semantic:gemini] Attempt ${attempt + 1} failed, retrying in ${delay}ms: ${lastError.message}`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  throw lastError || new Error('All retries exhausted');
+}
+
+// ============================================================
+// Factory Function
+// ============================================================
+
+/**
+ * Create Gemini provider with environment configuration
+ */
+export function createGeminiSemanticProvider(): GeminiSemanticProvider | null {
+  const apiKey = process.env.GEMINI_API_KEY?.trim();
+  if (!apiKey) {
+    console.warn('[SemanticProvider:gemini] Skipping creation - no GEMINI_API_KEY');
+    return null;
+  }
+
+  return new GeminiSemanticProvider(apiKey);
+}
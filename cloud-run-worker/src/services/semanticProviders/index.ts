@@ -0,0 +1,75 @@
+/**
+ * Semantic Providers Index
+ *
+ * Exports all semantic (embedding + answering) provider implementations and
+ * the per-deployment selection.
+ *
+ * Available providers (SEMANTIC_PROVIDER):
+ * - gemini (default when GEMINI_API_KEY is set): Gemini embeddings + answers
+ * - local (default otherwise): deterministic n-gram embeddings + extractive answers
+ */
+
+import type { SemanticProvider } from '../semanticProviderInterface.js';
+import { createGeminiSemanticProvider } from './geminiSemanticProvider.js';
+import { createLocalSemanticProvider } from './localSemanticProvider.js';
+
+export { GeminiSemanticProvider, createGeminiSemanticProvider } from './geminiSemanticProvider.js';
+export { LocalSemanticProvider, createLocalSemanticProvider } from './localSemanticProvider.js';
+
+/**
+ * Supported SEMANTIC_PROVIDER values
+ */
+export const SEMANTIC_PROVIDER_NAMES = ['gemini', 'local'] as const;
+export type SemanticProviderName = typeof SEMANTIC_PROVIDER_NAMES[number];
+
+/**
+ * Create the semantic provider selected for this deployment
+ *
+ * @param name - Provider name (default: SEMANTIC_PROVIDER env, then 'gemini' if GEMINI_API_KEY is set, else 'local')
+ * @throws Error if the name is unknown or the selected provider is not configured
+ */
+export function createSemanticProvider(
+  name: string = process.env.SEMANTIC_PROVIDER?.trim() || (process.env.GEMINI_API_KEY?.trim() ? 'gemini' : 'local')
+): SemanticProvider {
+  switch (name) {
+    case 'gemini': {
+      const provider = createGeminiSemanticProvider();
+      if (!provider) {
+        throw new Error(
+          'GEMINI_API_KEY environment variable is not set. ' +
+          'It is required when SEMANTIC_PROVIDER=gemini.'
+        );
+      }
+      return provider;
+    }
+    case 'local':
+      return createLocalSemanticProvider();
+    default:
+      throw new Error(
+        `Unknown SEMANTIC_PROVIDER: ${name} (expected one of: ${SEMANTIC_PROVIDER_NAMES.join(', ')})`
+      );
+  }
+}
+
+// ============================================================
+// Singleton Instance
+// ============================================================
+
+let semanticProvider: SemanticProvider | null = null;
+
+/**
+ * Get or create the semantic provider singleton
+ */
+export function getSemanticProvider(): SemanticProvider {
+  if (!semanticProvider) {
+    semanticProvider = createSemanticProvider();
+  }
+  return semanticProvider;
+}
+
+/**
+ * Reset the semantic provider (for testing)
+ */
+export function resetSemanticProvider(): void {
+  semanticProvider = null;
+}
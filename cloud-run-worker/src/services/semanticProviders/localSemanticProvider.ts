@@ -0,0 +1,110 @@
+/**
+ * Local Semantic Provider
+ *
+ * Deterministic, dependency-free stand-in for the Gemini provider: hashed
+ * character n-gram embeddings and an extractive answer quoting the retrieved
+ * scenes. Used in tests and development without GEMINI_API_KEY.
+ *
+ * Similarity is lexical (shared character bigrams/trigrams), which works for
+ * Japanese text without a segmenter but does not understand paraphrases.
+ */
+
+import {
+  normalizeVector,
+  type SemanticAnswer,
+  type SemanticContextScene,
+  type SemanticProvider,
+} from '../semanticProviderInterface.js';
+
+// ============================================================
+// Configuration
+// ============================================================
+
+const LOCAL_EMBEDDING_DIMENSIONS = 256;
+const NGRAM_SIZES = [2, 3];
+
+/** Scenes quoted in an extractive answer */
+const MAX_ANSWER_SCENES = 3;
+/** Characters quoted per scene */
+const ANSWER_EXCERPT_CHARS = 120;
+
+// ============================================================
+// Internals
+// ============================================================
+
+/**
+ * 32-bit FNV-1a hash (stable across runs and platforms)
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Hashed character n-gram vector (feature hashing with a sign bit)
+ */
+function embedText(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const normalized = text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+  for (const size of NGRAM_SIZES) {
+    for (let i = 0; i + size <= normalized.length; i++) {
+      const hash = fnv1a(normalized.slice(i, i + size));
+      vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+    }
+  }
+
+  return normalizeVector(vector);
+}
+
+function excerpt(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > ANSWER_EXCERPT_CHARS ? `${flat.slice(0, ANSWER_EXCERPT_CHARS)}…` : flat;
+}
+
+// ============================================================
+// Local Provider Implementation
+// ============================================================
+
+export class LocalSemanticProvider implements SemanticProvider {
+  readonly name = 'local';
+  readonly embeddingModel: string;
+
+  constructor(private readonly dimensions: number = LOCAL_EMBEDDING_DIMENSIONS) {
+    this.embeddingModel = `local-ngram-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => embedText(text, this.dimensions));
+  }
+
+  async answer(_question: string, scenes: SemanticContextScene[]): Promise<SemanticAnswer> {
+    const cited = scenes.filter(scene => scene.text.trim().length > 0).slice(0, MAX_ANSWER_SCENES);
+
+    if (cited.length === 0) {
+      return { answer: 'No scene in this video covers that question.', sceneNumbers: [] };
+    }
+
+    return {
+      answer: cited
+        .map(scene => `Scene ${scene.sceneNumber} (${scene.timecode}): ${excerpt(scene.text)}`)
+        .join('\n'),
+      sceneNumbers: cited.map(scene => scene.sceneNumber),
+    };
+  }
+}
+
+// ============================================================
+// Factory Function
+// ============================================================
+
+/**
+ * Create the local provider (always available)
+ */
+export function createLocalSemanticProvider(): LocalSemanticProvider {
+  return new LocalSemanticProvider();
+}
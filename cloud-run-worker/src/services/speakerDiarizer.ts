@@ -0,0 +1,318 @@
+/**
+ * Speaker Diarizer
+ *
+ * Node.js wrapper for the pyannote.audio diarization Python script.
+ * Follows the same spawn pattern as pysceneDetector.ts.
+ *
+ * Diarization runs on the full audio track (speaker identity must be stable
+ * across VAD chunks), then each Whisper segment is labeled with the speaker
+ * whose turns overlap it the most. Labels are A, B, C... in order of first appearance.
+ */
+
+import { spawn } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import type { SpeakerTalkTime, TranscriptionSegment } from '../types/shared.js';
+
+// ============================================================
+// Types
+// ============================================================
+
+/**
+ * A continuous stretch of speech by one speaker (runner output)
+ */
+export interface SpeakerTurn {
+  start: number;   // seconds
+  end: number;     // seconds
+  speaker: string; // runner-local label, e.g. SPEAKER_00
+}
+
+interface DiarizationConfig {
+  pythonPath: string;
+  scriptPath: string;
+  model: string;
+  minSpeakers?: number;
+  maxSpeakers?: number;
+  timeoutMs: number;
+}
+
+// ============================================================
+// Configuration
+// ============================================================
+
+const DEFAULT_CONFIG: DiarizationConfig = {
+  pythonPath: '/opt/venv/bin/python3',
+  scriptPath: '/app/diarizationRunner.py',
+  model: 'pyannote/speaker-diarization-3.1',
+  maxSpeakers: 4, // Interview / panel videos: 2-4 speakers
+  timeoutMs: 1800000, // 30 minutes
+};
+
+function loadConfig(): DiarizationConfig {
+  const optionalInt = (value: string | undefined, fallback?: number) =>
+    value ? parseInt(value, 10) : fallback;
+
+  return {
+    pythonPath: process.env.DIARIZATION_PYTHON_PATH || process.env.PYSCENE_PYTHON_PATH || DEFAULT_CONFIG.pythonPath,
+    scriptPath: process.env.DIARIZATION_SCRIPT_PATH || DEFAULT_CONFIG.scriptPath,
+    model: process.env.DIARIZATION_MODEL || DEFAULT_CONFIG.model,
+    minSpeakers: optionalInt(process.env.DIARIZATION_MIN_SPEAKERS, DEFAULT_CONFIG.minSpeakers),
+    maxSpeakers: optionalInt(process.env.DIARIZATION_MAX_SPEAKERS, DEFAULT_CONFIG.maxSpeakers),
+    timeoutMs: parseInt(process.env.DIARIZATION_TIMEOUT_MS || String(DEFAULT_CONFIG.timeoutMs), 10),
+  };
+}
+
+// ============================================================
+// Core Diarization
+// ============================================================
+
+/**
+ * Run speaker diarization on an audio file
+ *
+ * @param audioPath - Full extracted audio track (16kHz mono)
+ * @param uploadId - Upload ID for logging
+ * @param signal - Optional cancellation signal; aborting kills the Python process
+ * @returns Speaker turns sorted by start time
+ * @throws Error if the runner fails, times out, or produces unreadable output
+ *   (the signal's reason when cancelled)
+ */
+export async function diarizeAudio(audioPath: string, uploadId: string, signal?: AbortSignal): Promise<SpeakerTurn[]> {
+  const config = loadConfig();
+  const startTime = Date.now();
+
+  console.log(`[${uploadId}] 🗣️ [Diarization] Starting speaker diarization (model=${config.model}, maxSpeakers=${config.maxSpeakers ?? 'auto'})`);
+
+  const outputJson = path.join(
+    os.tmpdir(),
+    `diarization_${Date.now()}_${Math.random().toString(36).slice(2)}.json`
+  );
+
+  try {
+    const turns = await runDiarizationProcess(audioPath, outputJson, config, signal);
+    turns.sort((a, b) => a.start - b.start);
+
+    const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+    const speakerCount = new Set(turns.map(t => t.speaker)).size;
+    console.log(`[${uploadId}] ✅ [Diarization] ${turns.length} turns, ${speakerCount} speakers in ${elapsed}s`);
+
+    return turns;
+  } finally {
+    await fs.unlink(outputJson).catch(() => {});
+  }
+}
+
+/**
+ * Spawn the Python process and parse results
+ */
+function runDiarizationProcess(
+  audioPath: string,
+  outputJson: string,
+  config: DiarizationConfig,
+  signal?: AbortSignal
+): Promise<SpeakerTurn[]> {
+  return new Promise((resolve, reject) => {
+    let completed = false;
+
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const args = [config.scriptPath, audioPath, outputJson, '--model', config.model];
+    if (config.minSpeakers) args.push('--min-speakers', String(config.minSpeakers));
+    if (config.maxSpeakers) args.push('--max-speakers', String(config.maxSpeakers));
+
+    console.log(`  [Diarization] spawn: ${config.pythonPath} ${args.join(' ')}`);
+
+    const proc = spawn(config.pythonPath, args, {
+      timeout: config.timeoutMs,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    let stderr = '';
+
+    proc.stderr.on('data', (data: Buffer) => {
+      const text = data.toString();
+      stderr += text;
+      for (const line of text.split('\n')) {
+        if (line.trim()) console.log(`  ${line.trim()}`);
+      }
+    });
+
+    proc.stdout.on('data', () => {
+      // stdout not used, but drain it
+    });
+
+    const timeoutId = setTimeout(() => {
+      if (!completed) {
+        completed = true;
+        signal?.removeEventListener('abort', onAbort);
+        proc.kill('SIGKILL');
+        reject(new Error(`Diarization timed out after ${config.timeoutMs / 1000}s`));
+      }
+    }, config.timeoutMs);
+
+    // Cancellation: kill the child right away (diarizing a long track takes minutes)
+    function onAbort() {
+      if (completed) return;
+      completed = true;
+      clearTimeout(timeoutId);
+      console.log(`  [Diarization] Cancelled, killing process ${proc.pid}`);
+      proc.kill('SIGKILL');
+      reject(signal!.reason);
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    proc.on('close', async (code) => {
+      if (completed) return;
+      completed = true;
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+
+      if (code !== 0) {
+        reject(new Error(`Diarization exited with code ${code}: ${stderr.slice(-500)}`));
+        return;
+      }
+
+      try {
+        const parsed = JSON.parse(await fs.readFile(outputJson, 'utf-8')) as { turns?: SpeakerTurn[] };
+        resolve(parsed.turns || []);
+      } catch (error) {
+        reject(new Error(`Failed to parse diarization output: ${error}`));
+      }
+    });
+
+    proc.on('error', (error) => {
+      if (completed) return;
+      completed = true;
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+      reject(new Error(`Failed to spawn diarization: ${error.message}`));
+    });
+  });
+}
+
+// ============================================================
+// Segment Labeling
+// ============================================================
+
+/**
+ * Label transcription segments with speakers (A, B, C... by first appearance)
+ *
+ * Each segment takes the speaker with the largest time overlap; segments that
+ * overlap no turn (diarization and VAD disagree on short pauses) take the nearest turn.
+ *
+ * @param segments - Transcription segments (absolute timestamps)
+ * @param turns - Speaker turns from diarizeAudio
+ * @returns New segments with `speaker` set (unchanged when there are no turns)
+ */
+export function assignSpeakersToSegments(
+  segments: TranscriptionSegment[],
+  turns: SpeakerTurn[]
+): TranscriptionSegment[] {
+  if (turns.length === 0) return segments;
+
+  const labels = new Map<string, string>();
+  const labelFor = (speaker: string): string => {
+    if (!labels.has(speaker)) {
+      labels.set(speaker, speakerLabel(labels.size));
+    }
+    return labels.get(speaker)!;
+  };
+
+  return [...segments]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(segment => {
+      const segStart = segment.timestamp;
+      const segEnd = segment.timestamp + segment.duration;
+
+      // Total overlap per speaker
+      const overlapBySpeaker = new Map<string, number>();
+      for (const turn of turns) {
+        const overlap = Math.min(segEnd, turn.end) - Math.max(segStart, turn.start);
+        if (overlap > 0) {
+          overlapBySpeaker.set(turn.speaker, (overlapBySpeaker.get(turn.speaker) || 0) + overlap);
+        }
+      }
+
+      let speaker: string;
+      if (overlapBySpeaker.size > 0) {
+        speaker = [...overlapBySpeaker.entries()].reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0];
+      } else {
+        const gap = (turn: SpeakerTurn) => Math.max(turn.start - segEnd, segStart - turn.end);
+        speaker = turns.reduce((nearest, turn) => (gap(turn) < gap(nearest) ? turn : nearest)).speaker;
+      }
+
+      return { ...segment, speaker: labelFor(speaker) };
+    });
+}
+
+/**
+ * Speaker label for the n-th speaker (0 → A, 25 → Z, 26 → AA)
+ */
+function speakerLabel(index: number): string {
+  let label = '';
+  let n = index;
+  do {
+    label = String.fromCharCode(65 + (n % 26)) + label;
+    n = Math.floor(n / 26) - 1;
+  } while (n >= 0);
+  return label;
+}
+
+/**
+ * Join segment text for a narration cell, prefixing speaker changes
+ *
+ * @param segments - Segments in time order
+ * @returns "Speaker A: …\nSpeaker B: …" when segments are labeled, otherwise space-joined text
+ *
+ * @example
+ * formatSpeakerNarration([{ text: 'Hi', speaker: 'A' }, { text: 'there', speaker: 'A' }, { text: 'Hello', speaker: 'B' }])
+ * // 'Speaker A: Hi there\nSpeaker B: Hello'
+ */
+export function formatSpeakerNarration(segments: Pick<TranscriptionSegment, 'text' | 'speaker'>[]): string {
+  const lines: { speaker?: string; texts: string[] }[] = [];
+
+  for (const segment of segments) {
+    const text = segment.text.trim();
+    if (text.length === 0) continue;
+
+    const last = lines[lines.length - 1];
+    if (last && last.speaker === segment.speaker) {
+      last.texts.push(text);
+    } else {
+      lines.push({ speaker: segment.speaker, texts: [text] });
+    }
+  }
+
+  if (!lines.some(line => line.speaker)) {
+    return lines.flatMap(line => line.texts).join(' ');
+  }
+
+  return lines
+    .map(line => (line.speaker ? `Speaker ${line.speaker}: ` : '') + line.texts.join(' '))
+    .join('\n');
+}
+
+/**
+ * Summarize talk time per speaker
+ *
+ * @param segments - Labeled transcription segments
+ * @returns Talk time per speaker (label order), empty when segments are unlabeled
+ */
+export function calculateSpeakerTalkTime(segments: TranscriptionSegment[]): SpeakerTalkTime[] {
+  const bySpeaker = new Map<string, SpeakerTalkTime>();
+
+  for (const segment of segments) {
+    if (!segment.speaker) continue;
+    const entry = bySpeaker.get(segment.speaker) ?? { speaker: segment.speaker, talkTime: 0, segmentCount: 0 };
+    entry.talkTime += segment.duration;
+    entry.segmentCount++;
+    bySpeaker.set(segment.speaker, entry);
+  }
+
+  return [...bySpeaker.values()]
+    .sort((a, b) => a.speaker.length - b.speaker.length || a.speaker.localeCompare(b.speaker))
+    .map(entry => ({ ...entry, talkTime: Math.round(entry.talkTime * 10) / 10 }));
+}
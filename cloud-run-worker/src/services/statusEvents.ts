@@ -0,0 +1,85 @@
+/**
+ * Status Events
+ *
+ * In-process publish/subscribe for status changes of the uploads this instance
+ * processes. statusManager publishes every status write (and the phase updates
+ * it throttles away from the database), WarningCollector publishes warnings;
+ * GET /status/:uploadId/stream forwards them to the browser as Server-Sent Events.
+ *
+ * Subscribers on an instance that does not process the upload receive nothing,
+ * so the stream endpoint also re-reads the stored status periodically.
+ */
+
+import { EventEmitter } from 'events';
+import type { ProcessingStatus } from '../types/shared.js';
+
+// ============================================================
+// Types
+// ============================================================
+
+/** Phase fields pushed without a database write (throttled updatePhaseProgress calls) */
+export type StatusProgressUpdate = Pick<
+  ProcessingStatus,
+  'progress' | 'phase' | 'phaseProgress' | 'phaseStatus' | 'estimatedTimeRemaining' | 'subTask' | 'stage'
+>;
+
+export type StatusEvent =
+  | { type: 'status'; status: ProcessingStatus }
+  | { type: 'progress'; update: StatusProgressUpdate }
+  | { type: 'warning'; message: string };
+
+export type StatusEventListener = (event: StatusEvent) => void;
+
+// ============================================================
+// Pub/Sub
+// ============================================================
+
+const emitter = new EventEmitter();
+// One listener per open stream; many browser tabs may watch the same upload
+emitter.setMaxListeners(0);
+
+/**
+ * Subscribe to events of one upload
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeToStatus(uploadId: string, listener: StatusEventListener): () => void {
+  emitter.on(uploadId, listener);
+  return () => {
+    emitter.off(uploadId, listener);
+  };
+}
+
+/**
+ * Publish an event to the subscribers of an upload (no-op without subscribers)
+ */
+export function publishStatusEvent(uploadId: string, event: StatusEvent): void {
+  if (emitter.listenerCount(uploadId) === 0) return;
+
+  try {
+    emitter.emit(uploadId, event);
+  } catch (error) {
+    // A broken subscriber must never fail a status write
+    console.error(`[${uploadId}] [StatusEvents] Listener failed:`, error);
+  }
+}
+
+/**
+ * Lift phase fields stored in metadata to the top level
+ * (same shape as the app's /api/status/[uploadId] response)
+ */
+export function toStatusSnapshot(status: ProcessingStatus): ProcessingStatus {
+  const metadata = status.metadata as (ProcessingStatus['metadata'] & Partial<ProcessingStatus>) | undefined;
+  if (!metadata || status.phase !== undefined || metadata.phase === undefined) {
+    return status;
+  }
+
+  return {
+    ...status,
+    phase: metadata.phase,
+    phaseProgress: metadata.phaseProgress,
+    phaseStatus: metadata.phaseStatus,
+    estimatedTimeRemaining: metadata.estimatedTimeRemaining,
+    subTask: metadata.subTask,
+  };
+}
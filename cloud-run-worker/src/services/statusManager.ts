@@ -1,6 +1,9 @@
 import dotenv from 'dotenv';
 import { createClient, type Client } from '@libsql/client';
-import type { ProcessingStatus, ProcessingPhase, PhaseStatus } from '../types/shared.js';
+import type { ProcessingMetadata, ProcessingStatus, ProcessingPhase, PhaseStatus, ResultDocument } from '../types/shared.js';
+import { notifyUploadFinished } from './webhookService.js';
+import { indexUploadForSearch } from './searchIndex.js';
+import { publishStatusEvent } from './statusEvents.js';
 
 // Load environment variables
 dotenv.config();
@@ -118,12 +121,19 @@ export const initStatus = async (uploadId: string, userId: string): Promise<Proc
   }
 };
 
+/**
+ * Fields of a status update; metadata is merged into the stored metadata
+ */
+export type StatusUpdate = Omit<Partial<ProcessingStatus>, 'metadata'> & {
+  metadata?: Partial<ProcessingMetadata>;
+};
+
 /**
  * Update processing status (Dual mode: Turso or In-memory)
  */
 export const updateStatus = async (
   uploadId: string,
-  updates: Partial<ProcessingStatus>
+  updates: StatusUpdate
 ): Promise<ProcessingStatus> => {
   const now = new Date().toISOString();
   const client = getTursoClient();
@@ -202,7 +212,9 @@ export const updateStatus = async (
     if (updates.phaseProgress !== undefined) logInfo.phaseProgress = updates.phaseProgress;
     console.log(`[${uploadId}] [Turso] Status updated:`, logInfo);
 
-    return mapDbRowToStatus(result.rows[0], updates);
+    const updatedStatus = mapDbRowToStatus(result.rows[0], updates);
+    publishStatusEvent(uploadId, { type: 'status', status: updatedStatus });
+    return updatedStatus;
   } else {
     // In-memory mode
     const currentStatus = inMemoryStatusMap.get(uploadId);
@@ -213,6 +225,10 @@ export const updateStatus = async (
     const updatedStatus: ProcessingStatus = {
       ...currentStatus,
       ...updates,
+      // Merged like the Turso metadata column (stored metadata is complete once processing finishes)
+      metadata: updates.metadata
+        ? { ...currentStatus.metadata, ...updates.metadata } as ProcessingMetadata
+        : currentStatus.metadata,
       updatedAt: now,
     };
 
@@ -228,13 +244,15 @@ export const updateStatus = async (
     if (updatedStatus.phaseProgress !== undefined) logInfo.phaseProgress = updatedStatus.phaseProgress;
     console.log(`[${uploadId}] [InMemory] Status updated:`, logInfo);
 
+    publishStatusEvent(uploadId, { type: 'status', status: updatedStatus });
     return updatedStatus;
   }
 };
 
-// Throttle state for progress updates
-// Frontend polls every 3s, so writing more often is wasteful
-let lastProgressWriteTime = 0;
+// Throttle state for progress updates (per upload: several jobs may run concurrently)
+// Polling clients read every 3s, so writing more often is wasteful; open status
+// streams still receive every update (see statusEvents.ts)
+const lastProgressWriteTimes = new Map<string, number>();
 const PROGRESS_THROTTLE_MS = 3000;
 
 /**
@@ -243,6 +261,7 @@ const PROGRESS_THROTTLE_MS = 3000;
  *
  * Throttled: only writes to DB every 3 seconds (matches frontend poll interval).
  * Phase completions and status changes always write through immediately.
+ * Throttled updates are still published to open status streams.
  */
 export const updatePhaseProgress = async (
   uploadId: string,
@@ -255,12 +274,35 @@ export const updatePhaseProgress = async (
     stage?: ProcessingStatus['stage'];
   }
 ): Promise<ProcessingStatus> => {
+  // Calculate overall progress based on phase
+  // Phase 1: 0-33%, Phase 2: 33-66%, Phase 3: 66-100%
+  const phaseRanges: Record<ProcessingPhase, [number, number]> = {
+    1: [0, 33],
+    2: [33, 66],
+    3: [66, 100],
+  };
+  const [start, end] = phaseRanges[phase];
+  const overallProgress = Math.round(start + (phaseProgress / 100) * (end - start));
+
   // Always write through for phase completions, skips, and first call
   const isImportant = options?.phaseStatus === 'completed' || options?.phaseStatus === 'skipped';
   const now = Date.now();
 
-  if (!isImportant && (now - lastProgressWriteTime < PROGRESS_THROTTLE_MS)) {
-    // Throttled: return minimal status without DB write
+  if (!isImportant && (now - (lastProgressWriteTimes.get(uploadId) ?? 0) < PROGRESS_THROTTLE_MS)) {
+    // Throttled: push to open status streams only, no DB write
+    publishStatusEvent(uploadId, {
+      type: 'progress',
+      update: {
+        progress: overallProgress,
+        phase,
+        phaseProgress,
+        phaseStatus: options?.phaseStatus || 'in_progress',
+        estimatedTimeRemaining: options?.estimatedTimeRemaining,
+        subTask: options?.subTask,
+        stage: options?.stage,
+      },
+    });
+    // Return minimal status without DB write
     return {
       uploadId,
       userId: '',
@@ -270,7 +312,7 @@ export const updatePhaseProgress = async (
       updatedAt: new Date().toISOString(),
     };
   }
-  lastProgressWriteTime = now;
+  lastProgressWriteTimes.set(uploadId, now);
 
   // Skip progress updates during shutdown to prevent race condition with error status
   if (getShutdownFlag()) {
@@ -289,16 +331,6 @@ export const updatePhaseProgress = async (
     };
   }
 
-  // Calculate overall progress based on phase
-  // Phase 1: 0-33%, Phase 2: 33-66%, Phase 3: 66-100%
-  const phaseRanges: Record<ProcessingPhase, [number, number]> = {
-    1: [0, 33],
-    2: [33, 66],
-    3: [66, 100],
-  };
-  const [start, end] = phaseRanges[phase];
-  const overallProgress = Math.round(start + (phaseProgress / 100) * (end - start));
-
   // Store phase data in metadata for persistence (Turso doesn't have phase columns)
   const phaseMetadata = {
     phase,
@@ -395,30 +427,51 @@ export const getStatus = async (uploadId: string): Promise<ProcessingStatus | nu
 
 /**
  * Mark processing as complete (Dual mode: Turso or In-memory)
+ * @param resultDocument - Final result; its scenes are indexed for full-text search
  */
 export const completeStatus = async (
   uploadId: string,
   resultUrl: string,
-  metadata: ProcessingStatus['metadata']
+  metadata: ProcessingStatus['metadata'],
+  resultDocument?: ResultDocument
 ): Promise<ProcessingStatus> => {
-  return updateStatus(uploadId, {
+  const status = await updateStatus(uploadId, {
     status: 'completed',
     progress: 100,
     stage: 'completed',
     resultUrl,
     metadata,
   });
+  if (resultDocument && status.userId) {
+    await indexUploadForSearch(uploadId, status.userId, resultDocument);
+  }
+  // Webhook delivery must not delay or fail the status transition
+  void notifyUploadFinished(status);
+  return status;
 };
 
 /**
  * Mark processing as failed (Dual mode: Turso or In-memory)
  */
 export const failStatus = async (uploadId: string, error: string): Promise<ProcessingStatus> => {
-  return updateStatus(uploadId, {
+  const status = await updateStatus(uploadId, {
     status: 'error',
     progress: 0,
     error,
   });
+  void notifyUploadFinished(status);
+  return status;
+};
+
+/**
+ * Mark processing as cancelled by the user (Dual mode: Turso or In-memory)
+ */
+export const cancelStatus = async (uploadId: string): Promise<ProcessingStatus> => {
+  return updateStatus(uploadId, {
+    status: 'cancelled',
+    progress: 0,
+    stage: 'cancelled',
+  });
 };
 
 /**
@@ -432,7 +485,7 @@ export const failStatus = async (uploadId: string, error: string): Promise<Proce
  */
 function mapDbRowToStatus(
   row: Record<string, unknown>,
-  updates?: Partial<ProcessingStatus>
+  updates?: StatusUpdate
 ): ProcessingStatus {
   const status: ProcessingStatus = {
     uploadId: row.upload_id as string,
@@ -447,6 +500,11 @@ function mapDbRowToStatus(
     error: row.error_message as string | undefined, // Map error_message → error
   };
 
+  // Queue position is stored in metadata while the job waits (see jobDispatcher)
+  if (status.status === 'queued' && status.metadata?.queuePosition !== undefined) {
+    status.queuePosition = status.metadata.queuePosition;
+  }
+
   // Merge phase info from updates (DB doesn't have phase columns yet)
   if (updates) {
     if (updates.phase !== undefined) status.phase = updates.phase;
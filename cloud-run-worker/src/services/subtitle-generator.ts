@@ -0,0 +1,183 @@
+/**
+ * Subtitle Generator Service
+ * Generate SRT / WebVTT subtitle tracks from the narration transcript
+ *
+ * Editors import these directly into Premiere / DaVinci as a caption track.
+ * Cues come from Whisper segments (accurate timing); when no segments are
+ * available, per-scene narration text is used with scene boundaries as timing.
+ */
+
+import type { TranscriptionSegment } from '../types/shared.js';
+import type { SubtitleCue, SubtitleGenerationOptions } from '../types/export.js';
+import { formatSubtitleTimestamp } from '../utils/timecode.js';
+
+// Subtitle layout constants
+const DEFAULT_MAX_LINE_LENGTH = 42; // Netflix/BBC style guide limit for Latin scripts
+const DEFAULT_MIN_CUE_DURATION = 1.0; // Seconds - shorter cues are unreadable
+
+/**
+ * Scene narration used as a fallback cue source
+ */
+export interface SceneForSubtitles {
+  startTime: number;
+  endTime: number;
+  narrationText: string;
+}
+
+/**
+ * Build subtitle cues from transcription segments (preferred) or scene narration (fallback)
+ *
+ * - Segments are sorted by start time and empty text is dropped
+ * - Overlapping cues are trimmed so each cue ends before the next one starts
+ * - Very short cues are extended up to minCueDuration when there is room
+ *
+ * @param segments - Transcription segments from the VAD + Whisper pipeline
+ * @param scenes - Scenes with mapped narration text (used when segments are empty)
+ * @param options - Subtitle generation options
+ * @returns Ordered, non-overlapping subtitle cues
+ */
+export function buildSubtitleCues(
+  segments: TranscriptionSegment[],
+  scenes: SceneForSubtitles[],
+  options: SubtitleGenerationOptions = {}
+): SubtitleCue[] {
+  const {
+    maxLineLength = DEFAULT_MAX_LINE_LENGTH,
+    minCueDuration = DEFAULT_MIN_CUE_DURATION,
+    videoDuration,
+  } = options;
+
+  const useSegments = segments.some(seg => seg.text.trim().length > 0);
+  const rawCues: SubtitleCue[] = useSegments
+    ? segments.map(seg => ({
+        startTime: seg.timestamp,
+        endTime: seg.timestamp + seg.duration,
+        text: seg.text,
+      }))
+    : scenes.map(scene => ({
+        startTime: scene.startTime,
+        endTime: scene.endTime,
+        text: scene.narrationText,
+      }));
+
+  const sorted = rawCues
+    .map(cue => ({ ...cue, text: normalizeText(cue.text) }))
+    .filter(cue => cue.text.length > 0)
+    .sort((a, b) => a.startTime - b.startTime);
+
+  const cues: SubtitleCue[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    const cue = sorted[i];
+    const nextStart = sorted[i + 1]?.startTime ?? Infinity;
+    const upperBound = Math.min(nextStart, videoDuration ?? Infinity);
+
+    let endTime = Math.max(cue.endTime, cue.startTime + minCueDuration);
+    endTime = Math.min(endTime, upperBound);
+
+    // Cue starts at or after the next cue / video end: nothing left to show
+    if (endTime <= cue.startTime) continue;
+
+    cues.push({
+      startTime: cue.startTime,
+      endTime,
+      text: wrapText(cue.text, maxLineLength),
+    });
+  }
+
+  console.log(`  📝 Built ${cues.length} subtitle cues (source: ${useSegments ? 'transcription segments' : 'scene narration'})`);
+
+  return cues;
+}
+
+/**
+ * Serialize cues as SubRip (.srt)
+ * @param cues - Subtitle cues
+ * @returns SRT file content
+ */
+export function generateSrt(cues: SubtitleCue[]): string {
+  return cues
+    .map((cue, index) => [
+      `${index + 1}`,
+      `${formatSubtitleTimestamp(cue.startTime, ',')} --> ${formatSubtitleTimestamp(cue.endTime, ',')}`,
+      cue.text,
+    ].join('\n'))
+    .join('\n\n') + '\n';
+}
+
+/**
+ * Serialize cues as WebVTT (.vtt)
+ * @param cues - Subtitle cues
+ * @returns WebVTT file content
+ */
+export function generateWebVtt(cues: SubtitleCue[]): string {
+  const blocks = cues.map((cue, index) => [
+    `${index + 1}`,
+    `${formatSubtitleTimestamp(cue.startTime, '.')} --> ${formatSubtitleTimestamp(cue.endTime, '.')}`,
+    escapeVttText(cue.text),
+  ].join('\n'));
+
+  return ['WEBVTT', ...blocks].join('\n\n') + '\n';
+}
+
+/**
+ * Collapse whitespace and strip characters that would break cue parsing
+ */
+function normalizeText(text: string): string {
+  return text
+    .replace(/-->/g, '→')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * WebVTT cue payloads treat '&' and '<' as markup
+ */
+function escapeVttText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Wrap caption text to maxLineLength characters per line
+ * Space-separated text wraps at word boundaries; text without spaces
+ * (Japanese, Chinese) is split at the character limit.
+ */
+function wrapText(text: string, maxLineLength: number): string {
+  if (text.length <= maxLineLength) return text;
+
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.split(' ')) {
+    if (word.length > maxLineLength) {
+      // Unbreakable run (CJK or very long word): flush and hard-split
+      if (current) {
+        lines.push(current);
+        current = '';
+      }
+      for (let i = 0; i < word.length; i += maxLineLength) {
+        const chunk = word.substring(i, i + maxLineLength);
+        if (chunk.length === maxLineLength) {
+          lines.push(chunk);
+        } else {
+          current = chunk;
+        }
+      }
+      continue;
+    }
+
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length > maxLineLength) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+
+  if (current) lines.push(current);
+
+  return lines.join('\n');
+}
@@ -0,0 +1,184 @@
+/**
+ * Timeline Generator Service
+ * Generate CMX3600 EDL and FCPXML edit decision lists from detected scene cuts
+ *
+ * Assistant editors import these to rebuild the cut list on a timeline
+ * (Premiere, DaVinci Resolve, Final Cut Pro). Each scene becomes one event/clip
+ * with frame-accurate in/out points; OCR text is attached as a clip marker,
+ * followed by one "[EN] ..." marker per translation language.
+ */
+
+import type { TimelineGenerationOptions } from '../types/export.js';
+import type { TranslationLanguage } from '../types/shared.js';
+import { secondsToFrames, formatFrameTimecode } from '../utils/timecode.js';
+
+// EDL layout constants
+const EDL_REEL_NAME = 'AX'; // "Auxiliary" source - editors relink via FROM CLIP NAME
+const EDL_MARKER_COLOR = 'YELLOW';
+const MARKER_MAX_LENGTH = 80; // Characters - keep markers readable in timeline UIs
+
+/**
+ * Scene with OCR text used as timeline clip source
+ */
+export interface SceneForTimeline {
+  sceneNumber: number;
+  startTime: number;
+  endTime: number;
+  ocrText: string;
+  /** OCR text in the upload's translation languages (optional) */
+  ocrTranslations?: Partial<Record<TranslationLanguage, string>>;
+}
+
+/**
+ * Scene converted to frame-accurate in/out points
+ */
+interface TimelineClip {
+  sceneNumber: number;
+  startFrame: number;
+  endFrame: number;
+  /** Original OCR marker first, then translated markers (empty texts omitted) */
+  markers: string[];
+}
+
+/**
+ * Convert scenes to frame-accurate clips
+ * Each clip is at least one frame long; OCR text is flattened to single-line markers.
+ */
+function toClips(scenes: SceneForTimeline[], fps: number): TimelineClip[] {
+  const flatten = (text: string): string => text.replace(/\s+/g, ' ').trim().substring(0, MARKER_MAX_LENGTH);
+
+  return scenes.map(scene => {
+    const startFrame = secondsToFrames(scene.startTime, fps);
+    const endFrame = Math.max(startFrame + 1, secondsToFrames(scene.endTime, fps));
+    const translated = Object.entries(scene.ocrTranslations ?? {})
+      .filter(([, text]) => text && text.trim() !== '')
+      .map(([language, text]) => flatten(`[${language.toUpperCase()}] ${text}`));
+    const original = flatten(scene.ocrText);
+    const markers = original ? [original, ...translated] : translated;
+
+    return { sceneNumber: scene.sceneNumber, startFrame, endFrame, markers };
+  });
+}
+
+/**
+ * Generate a CMX3600 EDL
+ * Record timecodes mirror source timecodes so the rebuilt timeline lines up with the original video.
+ *
+ * @param scenes - Scenes with OCR text
+ * @param options - Timeline generation options
+ * @returns EDL file content
+ */
+export function generateEdl(scenes: SceneForTimeline[], options: TimelineGenerationOptions): string {
+  const { title, fps, sourceFileName, dropFrame = false } = options;
+  const clips = toClips(scenes, fps);
+
+  const lines: string[] = [
+    `TITLE: ${title.replace(/[\r\n]+/g, ' ').substring(0, 70)}`,
+    dropFrame ? 'FCM: DROP FRAME' : 'FCM: NON-DROP FRAME',
+    '',
+  ];
+
+  clips.forEach((clip, index) => {
+    const eventNumber = (index + 1).toString().padStart(3, '0');
+    const srcIn = formatFrameTimecode(clip.startFrame, fps, dropFrame);
+    const srcOut = formatFrameTimecode(clip.endFrame, fps, dropFrame);
+
+    lines.push(`${eventNumber}  ${EDL_REEL_NAME.padEnd(8)} V     C        ${srcIn} ${srcOut} ${srcIn} ${srcOut}`);
+    lines.push(`* FROM CLIP NAME: ${sourceFileName}`);
+    for (const marker of clip.markers) {
+      lines.push(`* LOC: ${srcIn} ${EDL_MARKER_COLOR} ${marker}`);
+    }
+    lines.push('');
+  });
+
+  console.log(`  🎬 Generated EDL with ${clips.length} events`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Generate an FCPXML (v1.9) project with one asset-clip per scene
+ *
+ * @param scenes - Scenes with OCR text
+ * @param options - Timeline generation options
+ * @returns FCPXML file content
+ */
+export function generateFcpxml(scenes: SceneForTimeline[], options: TimelineGenerationOptions): string {
+  const { title, fps, sourceFileName, width, height, dropFrame = false } = options;
+  const tcFormat = dropFrame ? 'DF' : 'NDF';
+  const clips = toClips(scenes, fps);
+  const frameDuration = getFrameDuration(fps);
+  const time = (frames: number): string => formatRationalTime(frames, frameDuration);
+
+  const totalFrames = clips.length > 0 ? clips[clips.length - 1].endFrame : 0;
+
+  let offsetFrames = 0;
+  const clipElements = clips.map(clip => {
+    const clipFrames = clip.endFrame - clip.startFrame;
+    const markerElements = clip.markers.length > 0
+      ? `${clip.markers.map(text => `\n              <marker start="${time(clip.startFrame)}" duration="${time(1)}" value="${escapeXml(text)}"/>`).join('')}\n            `
+      : '';
+    const element = `            <asset-clip ref="r2" name="Scene ${clip.sceneNumber}" offset="${time(offsetFrames)}" start="${time(clip.startFrame)}" duration="${time(clipFrames)}" format="r1" tcFormat="${tcFormat}">${markerElements}</asset-clip>`;
+
+    offsetFrames += clipFrames;
+    return element;
+  });
+
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE fcpxml>',
+    '<fcpxml version="1.9">',
+    '  <resources>',
+    `    <format id="r1" frameDuration="${frameDuration.num}/${frameDuration.den}s" width="${width}" height="${height}"/>`,
+    `    <asset id="r2" name="${escapeXml(sourceFileName)}" start="0s" duration="${time(totalFrames)}" hasVideo="1" hasAudio="1" format="r1" src="${escapeXml(encodeURI(sourceFileName))}"/>`,
+    '  </resources>',
+    '  <library>',
+    `    <event name="${escapeXml(title)}">`,
+    `      <project name="${escapeXml(title)}">`,
+    `        <sequence format="r1" duration="${time(offsetFrames)}" tcStart="0s" tcFormat="${tcFormat}">`,
+    '          <spine>',
+    ...clipElements,
+    '          </spine>',
+    '        </sequence>',
+    '      </project>',
+    '    </event>',
+    '  </library>',
+    '</fcpxml>',
+    '',
+  ].join('\n');
+
+  console.log(`  🎬 Generated FCPXML with ${clips.length} clips`);
+
+  return xml;
+}
+
+/**
+ * Get the frame duration as a rational number of seconds
+ * NTSC rates (23.976, 29.97, 59.94) use 1001/N; integer rates use 1/N.
+ */
+function getFrameDuration(fps: number): { num: number; den: number } {
+  const timebase = Math.round(fps);
+  const isNtsc = Math.abs(fps - (timebase * 1000) / 1001) < 0.01;
+
+  return isNtsc ? { num: 1001, den: timebase * 1000 } : { num: 1, den: timebase };
+}
+
+/**
+ * Format a frame count as an FCPXML rational time value (e.g., "1001/30000s")
+ */
+function formatRationalTime(frames: number, frameDuration: { num: number; den: number }): string {
+  if (frames === 0) return '0s';
+  return `${frames * frameDuration.num}/${frameDuration.den}s`;
+}
+
+/**
+ * Escape text for XML attribute values
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -1,20 +1,33 @@
 /**
  * Topic Grouping Service
  *
- * Groups consecutive scenes with similar OCR text into "topics".
- * Uses character bigram Jaccard similarity to determine if adjacent
- * scenes belong to the same topic.
+ * Groups consecutive scenes into "topics". Two strategies (chosen per upload):
  *
- * Design decisions:
+ * 'ocr' (default, groupScenesByTopic):
+ * - Character bigram Jaccard similarity of adjacent scenes' OCR text
  * - Empty OCR texts do NOT merge with each other (treated as cut changes)
  * - Similarity threshold: 0.6 (tuned for Japanese OCR text)
- * - Output: TopicGroup[] for Excel "Topics" sheet
+ *
+ * 'semantic' (groupScenesBySemantics):
+ * - OCR and narration similarity combined, so scenes without on-screen text
+ *   still group by what is said
+ * - Embeddings from the semantic provider; bigram Jaccard if embedding fails.
+ *   Scene vectors already embedded for semantic search are reused as is
+ *   (one vector per scene for its OCR + narration text)
+ * - Groups are split at a maximum duration and too-short groups are merged
+ *   into their more similar neighbor (limits per upload, defaults from
+ *   TOPIC_MIN_GROUP_DURATION / TOPIC_MAX_GROUP_DURATION)
+ *
+ * Output: TopicGroup[] for Excel "Topics" sheet
  *
  * @since 2026-02-18
  */
 
 import { TopicGroup } from '../types/excel.js';
+import type { TopicGroupingStrategy } from '../types/shared.js';
 import { formatTimecode } from '../utils/timecode.js';
+import { getSemanticProvider } from './semanticProviders/index.js';
+import { cosineSimilarity } from './semanticProviderInterface.js';
 
 // ============================================================
 // Types
@@ -28,12 +41,55 @@ export interface SceneForGrouping {
   narration: string;
 }
 
+/**
+ * Options for semantic grouping
+ */
+export interface SemanticGroupingOptions {
+  /** Combined similarity needed to join the previous scene's group (default: 0.75 embeddings, 0.3 lexical) */
+  threshold?: number;
+  /** Weight of OCR vs narration similarity when both scenes have both (0-1, default: 0.5) */
+  ocrWeight?: number;
+  /** Groups shorter than this are merged into a neighbor (seconds, default: TOPIC_MIN_GROUP_DURATION or 10) */
+  minGroupDuration?: number;
+  /** Groups are split before exceeding this (seconds, default: TOPIC_MAX_GROUP_DURATION or 300) */
+  maxGroupDuration?: number;
+  /** Scene number → embedding of the scene's OCR + narration text (see indexSceneEmbeddings); skips embedding */
+  sceneVectors?: Map<number, number[]>;
+  /** Embedding function (default: the deployment's semantic provider) */
+  embed?: (texts: string[]) => Promise<number[][]>;
+}
+
 // ============================================================
 // Configuration
 // ============================================================
 
 const SIMILARITY_THRESHOLD = 0.6;
 
+// Semantic grouping defaults (embedding cosine similarity and bigram Jaccard live on different scales)
+const EMBEDDING_SIMILARITY_THRESHOLD = 0.75;
+const LEXICAL_SIMILARITY_THRESHOLD = 0.3;
+const DEFAULT_OCR_WEIGHT = 0.5;
+const DEFAULT_MIN_GROUP_DURATION = 10;
+const DEFAULT_MAX_GROUP_DURATION = 300;
+
+/**
+ * Group duration limits used when the upload does not choose them (seconds)
+ * Invalid environment values fall back to the built-in defaults.
+ */
+export function getDefaultGroupDurations(): { minGroupDuration: number; maxGroupDuration: number } {
+  const seconds = (name: string, fallback: number): number => {
+    const raw = process.env[name];
+    const value = raw ? Number(raw) : NaN;
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+  const minGroupDuration = seconds('TOPIC_MIN_GROUP_DURATION', DEFAULT_MIN_GROUP_DURATION);
+  const maxGroupDuration = seconds('TOPIC_MAX_GROUP_DURATION', DEFAULT_MAX_GROUP_DURATION);
+
+  return minGroupDuration < maxGroupDuration
+    ? { minGroupDuration, maxGroupDuration }
+    : { minGroupDuration: DEFAULT_MIN_GROUP_DURATION, maxGroupDuration: DEFAULT_MAX_GROUP_DURATION };
+}
+
 // ============================================================
 // Similarity
 // ============================================================
@@ -76,11 +132,13 @@ function jaccardSimilarity(a: Set<string>, b: Set<string>): number {
  *
  * @param scenes - Scenes with OCR and narration text (after LLM cleansing)
  * @param threshold - Jaccard similarity threshold (default: 0.6)
+ * @param formatTime - Timecode formatter for timeRange (default: HH:MM:SS)
  * @returns Array of topic groups
  */
 export function groupScenesByTopic(
   scenes: SceneForGrouping[],
-  threshold: number = SIMILARITY_THRESHOLD
+  threshold: number = SIMILARITY_THRESHOLD,
+  formatTime: (seconds: number) => string = formatTimecode
 ): TopicGroup[] {
   if (scenes.length === 0) return [];
 
@@ -118,7 +176,7 @@ export function groupScenesByTopic(
 
   // Assemble TopicGroup output
   const groups: TopicGroup[] = rawGroups.map((group, idx) =>
-    assembleGroup(group, idx + 1)
+    assembleGroup(group, idx + 1, formatTime)
   );
 
   // Log summary
@@ -128,10 +186,192 @@ export function groupScenesByTopic(
   return groups;
 }
 
+/**
+ * Group consecutive scenes by combined OCR and narration similarity.
+ *
+ * Similarity of adjacent scenes is the cosine similarity of their scene
+ * vectors when options.sceneVectors covers every scene with text. Otherwise
+ * it is the weighted mean of their OCR and narration similarities, using only
+ * the kinds of text both scenes have (scenes sharing neither start a new group).
+ *
+ * @param scenes - Scenes with OCR and narration text (after LLM cleansing)
+ * @param options - Threshold, weights, group duration limits and embedding function
+ * @param formatTime - Timecode formatter for timeRange (default: HH:MM:SS)
+ * @returns Array of topic groups
+ */
+export async function groupScenesBySemantics(
+  scenes: SceneForGrouping[],
+  options: SemanticGroupingOptions = {},
+  formatTime: (seconds: number) => string = formatTimecode
+): Promise<TopicGroup[]> {
+  if (scenes.length === 0) return [];
+
+  const defaults = getDefaultGroupDurations();
+  const {
+    ocrWeight = DEFAULT_OCR_WEIGHT,
+    minGroupDuration = defaults.minGroupDuration,
+    maxGroupDuration = defaults.maxGroupDuration,
+    sceneVectors,
+    embed = (texts: string[]) => getSemanticProvider().embed(texts, 'document'),
+  } = options;
+
+  const hasText = (scene: SceneForGrouping) => scene.ocr.trim().length > 0 || scene.narration.trim().length > 0;
+  let sceneSimilarity: (prev: SceneForGrouping, curr: SceneForGrouping) => number;
+  let threshold: number;
+  let source: string;
+
+  if (sceneVectors && scenes.every(scene => !hasText(scene) || sceneVectors.has(scene.sceneNumber))) {
+    // Reuse the semantic search embeddings (no second embedding pass)
+    sceneSimilarity = (prev, curr) => {
+      const a = sceneVectors.get(prev.sceneNumber);
+      const b = sceneVectors.get(curr.sceneNumber);
+      return a && b ? cosineSimilarity(a, b) : 0;
+    };
+    threshold = options.threshold ?? EMBEDDING_SIMILARITY_THRESHOLD;
+    source = 'scene embeddings';
+  } else {
+    // Pairwise text similarity source: embeddings, or bigram Jaccard if embedding fails
+    let similarity: (a: string, b: string) => number;
+    try {
+      const texts = Array.from(new Set(
+        scenes.flatMap(s => [s.ocr.trim(), s.narration.trim()]).filter(text => text.length > 0)
+      ));
+      const vectors = texts.length > 0 ? await embed(texts) : [];
+      if (vectors.length !== texts.length) {
+        throw new Error(`expected ${texts.length} embeddings, got ${vectors.length}`);
+      }
+      const vectorByText = new Map(texts.map((text, i) => [text, vectors[i]]));
+      similarity = (a, b) => cosineSimilarity(vectorByText.get(a)!, vectorByText.get(b)!);
+      threshold = options.threshold ?? EMBEDDING_SIMILARITY_THRESHOLD;
+      source = 'text embeddings';
+    } catch (error) {
+      console.warn(`📚 [Topic Grouping] Embedding failed, using lexical similarity: ${error}`);
+      similarity = (a, b) => jaccardSimilarity(bigrams(a), bigrams(b));
+      threshold = options.threshold ?? LEXICAL_SIMILARITY_THRESHOLD;
+      source = 'lexical';
+    }
+
+    sceneSimilarity = (prev, curr) => {
+      const parts: { weight: number; value: number }[] = [];
+      if (prev.ocr.trim() && curr.ocr.trim()) {
+        parts.push({ weight: ocrWeight, value: similarity(prev.ocr.trim(), curr.ocr.trim()) });
+      }
+      if (prev.narration.trim() && curr.narration.trim()) {
+        parts.push({ weight: 1 - ocrWeight, value: similarity(prev.narration.trim(), curr.narration.trim()) });
+      }
+      const totalWeight = parts.reduce((sum, p) => sum + p.weight, 0);
+      return totalWeight > 0 ? parts.reduce((sum, p) => sum + p.weight * p.value, 0) / totalWeight : 0;
+    };
+  }
+
+  console.log(`📚 [Topic Grouping] Semantic (${scenes.length} scenes, ${source}, threshold: ${threshold}, duration: ${minGroupDuration}-${maxGroupDuration}s)`);
+
+  // Similarity across each boundary (i = between scene i and i+1), reused for merging
+  const boundarySimilarity = scenes.slice(1).map((curr, i) => sceneSimilarity(scenes[i], curr));
+
+  // Build groups of consecutive similar scenes, split before exceeding the maximum duration
+  const rawGroups: SceneForGrouping[][] = [];
+  let currentGroup: SceneForGrouping[] = [scenes[0]];
+
+  for (let i = 1; i < scenes.length; i++) {
+    const curr = scenes[i];
+    const exceedsMax = curr.endTime - currentGroup[0].startTime > maxGroupDuration;
+
+    if (!exceedsMax && boundarySimilarity[i - 1] >= threshold) {
+      currentGroup.push(curr);
+    } else {
+      rawGroups.push(currentGroup);
+      currentGroup = [curr];
+    }
+  }
+  rawGroups.push(currentGroup);
+
+  const mergedGroups = mergeShortGroups(rawGroups, scenes, boundarySimilarity, minGroupDuration, maxGroupDuration);
+
+  const groups: TopicGroup[] = mergedGroups.map((group, idx) => assembleGroup(group, idx + 1, formatTime));
+
+  const multiSceneGroups = groups.filter(g => g.count > 1).length;
+  console.log(`📚 [Topic Grouping] Done: ${groups.length} topics (${multiSceneGroups} multi-scene groups)`);
+
+  return groups;
+}
+
+/**
+ * Group scenes with the strategy chosen for the upload
+ *
+ * @param scenes - Scenes with OCR and narration text (after LLM cleansing)
+ * @param strategy - 'ocr' (default) or 'semantic'
+ * @param formatTime - Timecode formatter for timeRange
+ * @param semanticOptions - Group duration limits and reusable scene vectors ('semantic' only)
+ * @returns Array of topic groups
+ */
+export async function groupScenes(
+  scenes: SceneForGrouping[],
+  strategy: TopicGroupingStrategy = 'ocr',
+  formatTime: (seconds: number) => string = formatTimecode,
+  semanticOptions: SemanticGroupingOptions = {}
+): Promise<TopicGroup[]> {
+  return strategy === 'semantic'
+    ? groupScenesBySemantics(scenes, semanticOptions, formatTime)
+    : groupScenesByTopic(scenes, undefined, formatTime);
+}
+
+/**
+ * Merge groups shorter than minGroupDuration into the neighbor they are more
+ * similar to (across the shared boundary), unless that would exceed maxGroupDuration.
+ * Repeats until no short group can be merged.
+ */
+function mergeShortGroups(
+  groups: SceneForGrouping[][],
+  scenes: SceneForGrouping[],
+  boundarySimilarity: number[],
+  minGroupDuration: number,
+  maxGroupDuration: number
+): SceneForGrouping[][] {
+  const result = groups.map(group => [...group]);
+  const indexOf = new Map(scenes.map((scene, i) => [scene, i]));
+  const duration = (group: SceneForGrouping[]) => group[group.length - 1].endTime - group[0].startTime;
+
+  let merged = true;
+  while (merged && result.length > 1) {
+    merged = false;
+
+    for (let g = 0; g < result.length; g++) {
+      const group = result[g];
+      if (duration(group) >= minGroupDuration) continue;
+
+      const candidates: { target: number; score: number }[] = [];
+      if (g > 0 && duration([...result[g - 1], ...group]) <= maxGroupDuration) {
+        candidates.push({ target: g - 1, score: boundarySimilarity[indexOf.get(group[0])! - 1] });
+      }
+      if (g < result.length - 1 && duration([...group, ...result[g + 1]]) <= maxGroupDuration) {
+        candidates.push({ target: g + 1, score: boundarySimilarity[indexOf.get(group[group.length - 1])!] });
+      }
+      if (candidates.length === 0) continue;
+
+      const { target } = candidates.reduce((best, c) => (c.score > best.score ? c : best));
+      if (target < g) {
+        result[target].push(...group);
+      } else {
+        result[target].unshift(...group);
+      }
+      result.splice(g, 1);
+      merged = true;
+      break;
+    }
+  }
+
+  return result;
+}
+
 /**
  * Assemble a TopicGroup from a set of consecutive scenes.
  */
-function assembleGroup(scenes: SceneForGrouping[], groupNumber: number): TopicGroup {
+function assembleGroup(
+  scenes: SceneForGrouping[],
+  groupNumber: number,
+  formatTime: (seconds: number) => string
+): TopicGroup {
   const first = scenes[0];
   const last = scenes[scenes.length - 1];
 
@@ -141,7 +381,7 @@ function assembleGroup(scenes: SceneForGrouping[], groupNumber: number): TopicGr
     : `${first.sceneNumber}-${last.sceneNumber}`;
 
   // Time range
-  const timeRange = `${formatTimecode(first.startTime)} - ${formatTimecode(last.endTime)}`;
+  const timeRange = `${formatTime(first.startTime)} - ${formatTime(last.endTime)}`;
 
   // OCR: pick the longest OCR text as representative
   let bestOcr = '';
@@ -163,7 +403,10 @@ function assembleGroup(scenes: SceneForGrouping[], groupNumber: number): TopicGr
   return {
     groupNumber,
     sceneRange,
+    sceneNumbers: scenes.map(s => s.sceneNumber),
     timeRange,
+    startTime: first.startTime,
+    endTime: last.endTime,
     count: scenes.length,
     ocr: bestOcr,
     narration: narrationParts.join(' '),
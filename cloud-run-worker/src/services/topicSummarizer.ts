@@ -0,0 +1,281 @@
+/**
+ * Topic Summarizer Service
+ *
+ * Uses Gemini LLM to write, after topic grouping:
+ * - a short title and a 1-3 sentence summary per topic group
+ * - a whole-video executive summary (from the topic titles and summaries)
+ *
+ * Titles feed the Topics / Summary sheets and the chapter export.
+ * Enabled by default when GEMINI_API_KEY is set (LLM_SUMMARY_ENABLED=false disables it).
+ * Graceful degradation: topics without a generated title get one from their
+ * own OCR / narration text, and summaries are left empty.
+ */
+
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { TopicGroup } from '../types/excel.js';
+
+// ============================================================
+// Types
+// ============================================================
+
+interface TopicSummaryItem {
+  groupNumber: number;
+  title: string;
+  summary: string;
+}
+
+interface LLMSummaryConfig {
+  enabled: boolean;
+  model: string;
+  apiKey: string;
+  chunkSize: number;       // topic groups per LLM request
+  maxRetries: number;
+  initialDelayMs: number;  // for exponential backoff
+}
+
+/**
+ * Summarization outcome
+ */
+export interface TopicSummaryResult {
+  /** Topic groups with title (always) and summary (when generated) */
+  topicGroups: TopicGroup[];
+  /** Whole-video summary (undefined when the LLM was unavailable) */
+  executiveSummary?: string;
+}
+
+// ============================================================
+// Configuration
+// ============================================================
+
+function loadConfig(): LLMSummaryConfig {
+  return {
+    enabled: process.env.LLM_SUMMARY_ENABLED !== 'false',
+    model: process.env.LLM_SUMMARY_MODEL || process.env.LLM_CLEANSING_MODEL || 'gemini-2.0-flash',
+    apiKey: process.env.GEMINI_API_KEY || '',
+    chunkSize: 20,
+    maxRetries: 3,
+    initialDelayMs: 1000,
+  };
+}
+
+/** Longest text sent per topic (long narration is cut to keep requests small) */
+const MAX_OCR_CHARS = 500;
+const MAX_NARRATION_CHARS = 1500;
+
+/** Fallback title length (characters) */
+const FALLBACK_TITLE_MAX_LENGTH = 40;
+
+// ============================================================
+// Prompt
+// ============================================================
+
+const TOPIC_PROMPT = `You write titles and summaries for the topics of a video analysis report.
+
+You receive a JSON array. Each element is one topic (consecutive scenes): "ocr" is the on-screen text and "narration" the transcribed speech.
+
+## Task
+For every topic write:
+- "title": a short chapter title (at most 30 characters, no trailing punctuation)
+- "summary": 1-3 sentences describing what the topic covers
+
+## Rules
+- Write in the language of the input text (Japanese input → Japanese output)
+- Use only information in the input; do not invent names, numbers or claims
+- Ignore speaker labels such as "Speaker A: "
+- Return exactly as many elements as the input, in the same order
+
+## Output format
+A JSON array with the fields groupNumber, title and summary only.`;
+
+const EXECUTIVE_SUMMARY_PROMPT = `You write the executive summary of a video analysis report.
+
+You receive the video's topics in playback order, each with a title and summary.
+
+## Task
+Summarize the whole video in 3-5 sentences: its purpose, the main points and any conclusion or call to action.
+
+## Rules
+- Write in the language of the input text (Japanese input → Japanese output)
+- Use only information in the input
+
+## Output format
+A JSON object with a single field "summary".`;
+
+// ============================================================
+// Core
+// ============================================================
+
+/**
+ * Generate topic titles/summaries and the executive summary.
+ * Topics keep a fallback title if disabled or on failure.
+ *
+ * @param topicGroups - Topic groups from groupScenes
+ * @returns New topic groups with titles, and the executive summary
+ */
+export async function summarizeTopicsWithLLM(topicGroups: TopicGroup[]): Promise<TopicSummaryResult> {
+  const config = loadConfig();
+  const withFallbackTitles = () => topicGroups.map(group => ({ ...group, title: group.title || fallbackTopicTitle(group) }));
+
+  if (topicGroups.length === 0) {
+    return { topicGroups: [] };
+  }
+
+  if (!config.enabled) {
+    console.log('📝 [Topic Summary] Disabled (LLM_SUMMARY_ENABLED=false)');
+    return { topicGroups: withFallbackTitles() };
+  }
+
+  if (!config.apiKey) {
+    console.warn('📝 [Topic Summary] No GEMINI_API_KEY — using fallback titles');
+    return { topicGroups: withFallbackTitles() };
+  }
+
+  console.log(`📝 [Topic Summary] Starting (${topicGroups.length} topics, model: ${config.model})`);
+  const startTime = Date.now();
+
+  // Split into chunks for rate limit safety
+  const chunks: TopicGroup[][] = [];
+  for (let i = 0; i < topicGroups.length; i += config.chunkSize) {
+    chunks.push(topicGroups.slice(i, i + config.chunkSize));
+  }
+
+  const results: TopicGroup[] = [];
+
+  for (let ci = 0; ci < chunks.length; ci++) {
+    const chunk = chunks[ci];
+    console.log(`  📡 Processing chunk ${ci + 1}/${chunks.length} (${chunk.length} topics)...`);
+
+    try {
+      const items = await withRetry(() => callGeminiForTopics(chunk, config), config);
+      results.push(...chunk.map((group, i) => ({
+        ...group,
+        title: items[i].title.trim() || fallbackTopicTitle(group),
+        summary: items[i].summary.trim() || undefined,
+      })));
+      console.log(`  ✓ Chunk ${ci + 1} complete`);
+    } catch (err) {
+      console.warn(`  ⚠️ Chunk ${ci + 1} failed — using fallback titles: ${err}`);
+      results.push(...chunk.map(group => ({ ...group, title: fallbackTopicTitle(group) })));
+    }
+  }
+
+  // Executive summary from the generated topic summaries (skipped if none were generated)
+  let executiveSummary: string | undefined;
+  if (results.some(group => group.summary)) {
+    try {
+      executiveSummary = await withRetry(() => callGeminiForExecutiveSummary(results, config), config);
+    } catch (err) {
+      console.warn(`  ⚠️ Executive summary failed: ${err}`);
+    }
+  }
+
+  const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+  const summarized = results.filter(group => group.summary).length;
+  console.log(`📝 [Topic Summary] Done in ${elapsed}s (${summarized}/${results.length} topics summarized${executiveSummary ? ', executive summary' : ''})`);
+
+  return { topicGroups: results, executiveSummary };
+}
+
+/**
+ * Title from the topic's own text: first line of its OCR, else of its narration
+ *
+ * @param group - Topic group
+ * @returns Title of at most FALLBACK_TITLE_MAX_LENGTH characters ("Topic N" when the topic has no text)
+ */
+export function fallbackTopicTitle(group: Pick<TopicGroup, 'groupNumber' | 'ocr' | 'narration'>): string {
+  const firstLine = (text: string) =>
+    text.split('\n').map(line => line.replace(/^Speaker [A-Z]+:\s*/, '').replace(/\s+/g, ' ').trim()).find(Boolean) ?? '';
+  const line = firstLine(group.ocr) || firstLine(group.narration);
+
+  if (!line) return `Topic ${group.groupNumber}`;
+  return line.length > FALLBACK_TITLE_MAX_LENGTH ? `${line.substring(0, FALLBACK_TITLE_MAX_LENGTH - 1)}…` : line;
+}
+
+// ============================================================
+// Internals
+// ============================================================
+
+async function withRetry<T>(call: () => Promise<T>, config: LLMSummaryConfig): Promise<T> {
+  let lastError: Error | null = null;
+
+  for (let attempt = 0; attempt < config.maxRetries; attempt++) {
+    try {
+      return await call();
+    } catch (err) {
+      lastError = err instanceof Error ? err : new Error(String(err));
+
+      if (attempt < config.maxRetries - 1) {
+        const delay = config.initialDelayMs * Math.pow(2, attempt);
+        console.warn(`    ⏳ Attempt ${attempt + 1} failed, retrying in ${delay}ms: ${lastError.message}`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  throw lastError || new Error('All retries exhausted');
+}
+
+async function generateJSON(prompt: string, config: LLMSummaryConfig): Promise<unknown> {
+  const genAI = new GoogleGenerativeAI(config.apiKey);
+  const model = genAI.getGenerativeModel({
+    model: config.model,
+    generationConfig: {
+      responseMimeType: 'application/json',
+      temperature: 0.3,
+    },
+  });
+
+  const result = await model.generateContent(prompt);
+  const responseText = result.response.text();
+
+  try {
+    return JSON.parse(responseText);
+  } catch {
+    throw new Error(`Invalid JSON response: ${responseText.substring(0, 200)}`);
+  }
+}
+
+async function callGeminiForTopics(chunk: TopicGroup[], config: LLMSummaryConfig): Promise<TopicSummaryItem[]> {
+  // Prepare input: only send the fields we need
+  const input = chunk.map(group => ({
+    groupNumber: group.groupNumber,
+    ocr: group.ocr.substring(0, MAX_OCR_CHARS),
+    narration: group.narration.substring(0, MAX_NARRATION_CHARS),
+  }));
+
+  const parsed = await generateJSON(`${TOPIC_PROMPT}\n\n## Input\n${JSON.stringify(input, null, 2)}`, config);
+
+  // Validate response structure
+  if (!Array.isArray(parsed) || parsed.length !== chunk.length) {
+    throw new Error(
+      `Response length mismatch: expected ${chunk.length}, got ${Array.isArray(parsed) ? parsed.length : 'non-array'}`
+    );
+  }
+
+  // Validate each element
+  return parsed.map((item: Partial<TopicSummaryItem>, i) => {
+    if (typeof item?.title !== 'string' || typeof item?.summary !== 'string') {
+      throw new Error(`Invalid item at index ${i}: missing title or summary string fields`);
+    }
+    return { groupNumber: chunk[i].groupNumber, title: item.title, summary: item.summary };
+  });
+}
+
+async function callGeminiForExecutiveSummary(topicGroups: TopicGroup[], config: LLMSummaryConfig): Promise<string> {
+  const input = topicGroups.map(group => ({
+    timeRange: group.timeRange,
+    title: group.title,
+    summary: group.summary ?? '',
+  }));
+
+  const parsed = await generateJSON(`${EXECUTIVE_SUMMARY_PROMPT}\n\n## Input\n${JSON.stringify(input, null, 2)}`, config) as { summary?: unknown };
+
+  if (typeof parsed?.summary !== 'string' || parsed.summary.trim() === '') {
+    throw new Error('Invalid response: missing summary string field');
+  }
+  return parsed.summary.trim();
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,257 @@
+/**
+ * Transcription Provider Interface
+ *
+ * Defines the common interface for speech-to-text providers (OpenAI Whisper,
+ * OpenAI-compatible local servers such as faster-whisper).
+ * Mirrors OCRProvider: each provider owns its rate limiter and statistics.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { RateLimiter, isRetryableError } from './rateLimiter.js';
+
+// ============================================================
+// Types and Interfaces
+// ============================================================
+
+/**
+ * Transcription response (OpenAI verbose_json shape)
+ * Segment times are relative to the start of the transcribed file.
+ */
+export interface TranscriptionResponse {
+  text: string;
+  /** Detected language (OpenAI returns a name such as "japanese", some servers an ISO code) */
+  language?: string;
+  segments?: Array<{
+    start: number;
+    end: number;
+    text: string;
+    confidence?: number;
+  }>;
+}
+
+/**
+ * Per-request transcription options
+ */
+export interface TranscriptionRequestOptions {
+  /** ISO-639-1 language code (e.g. 'ja'); omit to let the provider detect it */
+  language?: string;
+  /** Spelling hint text (e.g. glossary terms); providers without prompt support ignore it */
+  prompt?: string;
+}
+
+/**
+ * Whisper language names for the codes selectable at upload time
+ */
+const WHISPER_LANGUAGE_NAMES: Record<string, string> = {
+  japanese: 'ja',
+  english: 'en',
+  korean: 'ko',
+  chinese: 'zh',
+  spanish: 'es',
+  french: 'fr',
+  german: 'de',
+};
+
+/**
+ * Normalize a provider-reported language to an ISO-639-1 code
+ *
+ * @param language - Language name ("japanese") or code ("ja", "JA")
+ * @returns Lowercase 2-letter code, or null if unrecognized
+ *
+ * @example
+ * normalizeLanguageCode('Japanese') // 'ja'
+ * normalizeLanguageCode('en') // 'en'
+ * normalizeLanguageCode('klingon') // null
+ */
+export function normalizeLanguageCode(language: string | undefined): string | null {
+  const value = language?.trim().toLowerCase();
+  if (!value) return null;
+  if (WHISPER_LANGUAGE_NAMES[value]) return WHISPER_LANGUAGE_NAMES[value];
+  return /^[a-z]{2}$/.test(value) ? value : null;
+}
+
+/**
+ * Transcription provider configuration
+ */
+export interface TranscriptionProviderConfig {
+  /** Provider name */
+  name: string;
+  /** Maximum parallel requests */
+  maxParallel: number;
+  /** Rate limit (requests per minute) */
+  rateLimit: number;
+  /** Whether this provider is enabled */
+  enabled: boolean;
+  /** Model to use */
+  model: string;
+  /** Cost per minute of audio (USD, 0 for self-hosted) */
+  costPerMinute: number;
+}
+
+/**
+ * Transcription provider statistics
+ */
+export interface TranscriptionProviderStats {
+  /** Total requests made */
+  totalRequests: number;
+  /** Successful requests */
+  successfulRequests: number;
+  /** Failed requests */
+  failedRequests: number;
+  /** Average processing time in ms */
+  avgProcessingTimeMs: number;
+  /** Last error message */
+  lastError?: string;
+  /** Last error timestamp */
+  lastErrorTime?: number;
+}
+
+// ============================================================
+// Abstract Transcription Provider
+// ============================================================
+
+/**
+ * Abstract base class for transcription providers
+ */
+export abstract class TranscriptionProvider {
+  protected readonly config: TranscriptionProviderConfig;
+  protected readonly rateLimiter: RateLimiter;
+  protected stats: TranscriptionProviderStats;
+
+  constructor(config: TranscriptionProviderConfig) {
+    this.config = config;
+    this.rateLimiter = new RateLimiter({
+      maxConcurrent: config.maxParallel,
+      maxRequestsPerWindow: config.rateLimit,
+      windowMs: 60000,
+      retryDelayMs: 1000,
+      maxRetries: 5,
+      jitterFactor: 0.5,
+    });
+    this.stats = {
+      totalRequests: 0,
+      successfulRequests: 0,
+      failedRequests: 0,
+      avgProcessingTimeMs: 0,
+    };
+  }
+
+  /**
+   * Get provider name
+   */
+  get name(): string {
+    return this.config.name;
+  }
+
+  /**
+   * Get model name
+   */
+  get model(): string {
+    return this.config.model;
+  }
+
+  /**
+   * Get cost per minute of audio (USD)
+   */
+  get costPerMinute(): number {
+    return this.config.costPerMinute;
+  }
+
+  /**
+   * Check if provider is enabled
+   */
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Get provider statistics
+   */
+  getStats(): TranscriptionProviderStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Get the rate limiter for this provider
+   */
+  getRateLimiter(): RateLimiter {
+    return this.rateLimiter;
+  }
+
+  /**
+   * Transcribe an audio file (rate-limited with retry)
+   *
+   * @param audioPath - Path to the audio file (MP3)
+   * @param options - Request options (language)
+   * @returns Provider response with segments relative to the file start
+   */
+  async transcribe(audioPath: string, options: TranscriptionRequestOptions): Promise<TranscriptionResponse> {
+    if (!this.config.enabled) {
+      throw new Error(`${this.name} transcription provider is not available`);
+    }
+
+    const startTime = Date.now();
+
+    try {
+      const response = await this.rateLimiter.executeWithRetry(
+        async () => {
+          const audioBuffer = fs.readFileSync(audioPath);
+          const file = new File([audioBuffer], path.basename(audioPath), { type: 'audio/mpeg' });
+          return await this.requestTranscription(file, options);
+        },
+        (error) => this.isRetryableError(error as Error)
+      );
+
+      this.updateStats(true, Date.now() - startTime);
+      return response;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.updateStats(false, Date.now() - startTime, errorMessage);
+      throw error;
+    }
+  }
+
+  /**
+   * Send a single transcription request to the provider
+   * @param file - Audio file
+   * @param options - Request options (language)
+   */
+  protected abstract requestTranscription(
+    file: File,
+    options: TranscriptionRequestOptions
+  ): Promise<TranscriptionResponse>;
+
+  /**
+   * Update statistics after a request
+   */
+  protected updateStats(success: boolean, processingTimeMs: number, error?: string): void {
+    this.stats.totalRequests++;
+    if (success) {
+      this.stats.successfulRequests++;
+      // Update average processing time (exponential moving average)
+      if (this.stats.avgProcessingTimeMs === 0) {
+        this.stats.avgProcessingTimeMs = processingTimeMs;
+      } else {
+        this.stats.avgProcessingTimeMs =
+          this.stats.avgProcessingTimeMs * 0.9 + processingTimeMs * 0.1;
+      }
+    } else {
+      this.stats.failedRequests++;
+      this.stats.lastError = error;
+      this.stats.lastErrorTime = Date.now();
+    }
+  }
+
+  /**
+   * Check if error is retryable
+   * Fatal errors (API key issues, invalid requests) are never retried.
+   */
+  protected isRetryableError(error: Error): boolean {
+    const message = error.message;
+    if (message.includes('API key') || message.includes('Invalid')) {
+      return false;
+    }
+    return isRetryableError(error);
+  }
+}
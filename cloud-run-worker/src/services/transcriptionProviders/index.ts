@@ -0,0 +1,83 @@
+/**
+ * Transcription Providers Index
+ *
+ * Exports all transcription provider implementations and the per-deployment selection.
+ *
+ * Available providers (TRANSCRIPTION_PROVIDER):
+ * - openai (default): OpenAI Whisper API (requires OPENAI_API_KEY)
+ * - local: OpenAI-compatible endpoint such as faster-whisper (requires LOCAL_WHISPER_URL)
+ */
+
+import type { TranscriptionProvider } from '../transcriptionProviderInterface.js';
+import { createOpenAIWhisperProvider } from './openaiWhisperProvider.js';
+import { createLocalWhisperProvider } from './localWhisperProvider.js';
+
+export { OpenAIWhisperProvider, createOpenAIWhisperProvider } from './openaiWhisperProvider.js';
+export { LocalWhisperProvider, createLocalWhisperProvider } from './localWhisperProvider.js';
+
+/**
+ * Supported TRANSCRIPTION_PROVIDER values
+ */
+export const TRANSCRIPTION_PROVIDER_NAMES = ['openai', 'local'] as const;
+export type TranscriptionProviderName = typeof TRANSCRIPTION_PROVIDER_NAMES[number];
+
+/**
+ * Create the transcription provider selected for this deployment
+ *
+ * @param name - Provider name (default: TRANSCRIPTION_PROVIDER env, then 'openai')
+ * @throws Error if the name is unknown or the selected provider is not configured
+ */
+export function createTranscriptionProvider(
+  name: string = process.env.TRANSCRIPTION_PROVIDER?.trim() || 'openai'
+): TranscriptionProvider {
+  switch (name) {
+    case 'openai': {
+      const provider = createOpenAIWhisperProvider();
+      if (!provider) {
+        throw new Error(
+          'OPENAI_API_KEY environment variable is not set. ' +
+          'Please configure it in .env file or environment variables ' +
+          '(or set TRANSCRIPTION_PROVIDER=local with LOCAL_WHISPER_URL).'
+        );
+      }
+      return provider;
+    }
+    case 'local': {
+      const provider = createLocalWhisperProvider();
+      if (!provider) {
+        throw new Error(
+          'LOCAL_WHISPER_URL environment variable is not set. ' +
+          'It is required when TRANSCRIPTION_PROVIDER=local.'
+        );
+      }
+      return provider;
+    }
+    default:
+      throw new Error(
+        `Unknown TRANSCRIPTION_PROVIDER: ${name} (expected one of: ${TRANSCRIPTION_PROVIDER_NAMES.join(', ')})`
+      );
+  }
+}
+
+// ============================================================
+// Singleton Instance
+// ============================================================
+
+let transcriptionProvider: TranscriptionProvider | null = null;
+
+/**
+ * Get or create the transcription provider singleton
+ */
+export function getTranscriptionProvider(): TranscriptionProvider {
+  if (!transcriptionProvider) {
+    transcriptionProvider = createTranscriptionProvider();
+  }
+  return transcriptionProvider;
+}
+
+/**
+ * Reset the transcription provider (for testing)
+ */
+export function resetTranscriptionProvider(): void {
+  transcriptionProvider = null;
+}
@@ -0,0 +1,60 @@
+/**
+ * Local Whisper Transcription Provider
+ *
+ * Implements transcription against any OpenAI-compatible endpoint
+ * (e.g. a self-hosted faster-whisper server exposing /v1/audio/transcriptions).
+ * Enables offline testing and running transcription on our own infrastructure.
+ */
+
+import { OpenAIWhisperProvider } from './openaiWhisperProvider.js';
+import type { TranscriptionProviderConfig } from '../transcriptionProviderInterface.js';
+
+// ============================================================
+// Local Whisper Provider Implementation
+// ============================================================
+
+/**
+ * OpenAI-compatible local Whisper provider
+ *
+ * Environment:
+ * - LOCAL_WHISPER_URL: Base URL including /v1 (e.g. http://localhost:8000/v1)
+ * - LOCAL_WHISPER_MODEL: Model served by the endpoint (default: Systran/faster-whisper-large-v3)
+ * - LOCAL_WHISPER_API_KEY: Optional; most local servers ignore it
+ * - LOCAL_WHISPER_MAX_PARALLEL / LOCAL_WHISPER_RATE_LIMIT: Concurrency and req/min
+ */
+export class LocalWhisperProvider extends OpenAIWhisperProvider {
+  constructor(baseURL: string, config?: Partial<TranscriptionProviderConfig>) {
+    const defaultConfig: Partial<TranscriptionProviderConfig> = {
+      name: 'local',
+      maxParallel: parseInt(process.env.LOCAL_WHISPER_MAX_PARALLEL || '2', 10),
+      rateLimit: parseInt(process.env.LOCAL_WHISPER_RATE_LIMIT || '600', 10),
+      model: process.env.LOCAL_WHISPER_MODEL || 'Systran/faster-whisper-large-v3',
+      costPerMinute: 0, // Self-hosted
+    };
+
+    // Sent as a Bearer token; most local servers do not check it
+    super({ ...defaultConfig, ...config }, {
+      apiKey: process.env.LOCAL_WHISPER_API_KEY || 'local',
+      baseURL,
+    });
+  }
+}
+
+// ============================================================
+// Factory Function
+// ============================================================
+
+/**
+ * Create local Whisper provider with environment configuration
+ */
+export function createLocalWhisperProvider(
+  overrides?: Partial<TranscriptionProviderConfig>
+): LocalWhisperProvider | null {
+  const baseURL = process.env.LOCAL_WHISPER_URL?.trim();
+  if (!baseURL) {
+    console.warn('[WhisperProvider:local] Skipping creation - no LOCAL_WHISPER_URL');
+    return null;
+  }
+
+  return new LocalWhisperProvider(baseURL, overrides);
+}
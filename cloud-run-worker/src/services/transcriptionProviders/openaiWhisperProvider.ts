@@ -0,0 +1,168 @@
+/**
+ * OpenAI Whisper Transcription Provider
+ *
+ * Implements transcription via the OpenAI REST endpoint POST {baseURL}/audio/transcriptions
+ * (whisper-1, verbose_json). Any OpenAI-compatible server speaks the same protocol,
+ * so this class is also the base for LocalWhisperProvider.
+ */
+
+import {
+  TranscriptionProvider,
+  TranscriptionProviderConfig,
+  TranscriptionRequestOptions,
+  TranscriptionResponse,
+} from '../transcriptionProviderInterface.js';
+import { WHISPER_COST } from '../../config/vad.js';
+
+const OPENAI_API_BASE_URL = 'https://api.openai.com/v1';
+
+/** Per-request timeout (chunks are ~10-30s of audio) */
+const REQUEST_TIMEOUT_MS = 120000;
+
+// ============================================================
+// OpenAI Whisper Provider Implementation
+// ============================================================
+
+/**
+ * OpenAI Whisper transcription provider
+ */
+export class OpenAIWhisperProvider extends TranscriptionProvider {
+  protected readonly apiKey: string | null;
+  protected readonly baseURL: string;
+
+  /**
+   * @param config - Provider configuration overrides
+   * @param connection - API key and base URL (default: OpenAI)
+   */
+  constructor(
+    config?: Partial<TranscriptionProviderConfig>,
+    connection: { apiKey?: string; baseURL?: string } = { apiKey: process.env.OPENAI_API_KEY }
+  ) {
+    const apiKey = connection.apiKey?.trim();
+
+    const defaultConfig: TranscriptionProviderConfig = {
+      name: 'openai',
+      maxParallel: parseInt(process.env.WHISPER_MAX_PARALLEL || '5', 10),
+      rateLimit: parseInt(process.env.WHISPER_RATE_LIMIT || '50', 10),
+      enabled: !!apiKey,
+      model: 'whisper-1',
+      costPerMinute: WHISPER_COST.PER_MINUTE,
+    };
+
+    super({ ...defaultConfig, ...config });
+    this.apiKey = apiKey || null;
+    this.baseURL = (connection.baseURL || OPENAI_API_BASE_URL).replace(/\/+$/, '');
+
+    if (apiKey) {
+      console.log(
+        `[WhisperProvider:${this.name}] Initialized: model=${this.model}, ` +
+          `maxParallel=${this.config.maxParallel}, rateLimit=${this.config.rateLimit}, baseURL=${this.baseURL}`
+      );
+    } else {
+      console.warn(`[WhisperProvider:${this.name}] No API key found, provider disabled`);
+    }
+  }
+
+  /**
+   * Call the transcriptions endpoint (verbose_json for segment timestamps)
+   */
+  protected async requestTranscription(
+    file: File,
+    options: TranscriptionRequestOptions
+  ): Promise<TranscriptionResponse> {
+    if (!this.apiKey) {
+      throw new Error(`${this.name} transcription provider is not available`);
+    }
+
+    const form = new FormData();
+    form.append('file', file);
+    form.append('model', this.model);
+    if (options.language) {
+      form.append('language', options.language);
+    }
+    if (options.prompt) {
+      form.append('prompt', options.prompt);
+    }
+    form.append('response_format', 'verbose_json');
+    form.append('temperature', '0');
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseURL}/audio/transcriptions`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${this.apiKey}` },
+        body: form,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw new Error(describeConnectionError(error));
+    }
+
+    if (!response.ok) {
+      throw await buildHTTPError(response);
+    }
+
+    return (await response.json()) as TranscriptionResponse;
+  }
+}
+
+/**
+ * Build an Error from a non-2xx transcription response
+ *
+ * The message carries status/code/type for retry classification and debugging
+ * (e.g. "status=429 code=rate_limit_exceeded ..."); `response.headers` is kept
+ * so the rate limiter can honor Retry-After.
+ */
+async function buildHTTPError(response: Response): Promise<Error> {
+  const parts: string[] = [`status=${response.status}`];
+  const body = await response.text().catch(() => '');
+
+  try {
+    const { error } = JSON.parse(body) as { error?: { code?: string; type?: string; message?: string } };
+    if (error?.code) parts.push(`code=${error.code}`);
+    if (error?.type) parts.push(`type=${error.type}`);
+    parts.push(error?.message || response.statusText);
+  } catch {
+    parts.push(body.slice(0, 200) || response.statusText);
+  }
+
+  const requestId = response.headers.get('x-request-id');
+  if (requestId) {
+    parts.push(`request_id=${requestId}`);
+  }
+
+  return Object.assign(new Error(parts.join(' ')), {
+    status: response.status,
+    response: { headers: response.headers },
+  });
+}
+
+/**
+ * Describe a network-level fetch failure (fetch wraps the cause, e.g. ECONNREFUSED)
+ */
+function describeConnectionError(error: unknown): string {
+  const err = error as { name?: string; message?: string; cause?: { code?: string; message?: string } };
+  if (err?.name === 'TimeoutError') {
+    return `Transcription request timeout after ${REQUEST_TIMEOUT_MS}ms`;
+  }
+  const cause = err?.cause?.code || err?.cause?.message;
+  return `Transcription connection error: ${err?.message ?? String(error)}${cause ? ` (cause: ${cause})` : ''}`;
+}
+
+// ============================================================
+// Factory Function
+// ============================================================
+
+/**
+ * Create OpenAI Whisper provider with environment configuration
+ */
+export function createOpenAIWhisperProvider(
+  overrides?: Partial<TranscriptionProviderConfig>
+): OpenAIWhisperProvider | null {
+  if (!process.env.OPENAI_API_KEY?.trim()) {
+    console.warn('[WhisperProvider:openai] Skipping creation - no API key');
+    return null;
+  }
+
+  return new OpenAIWhisperProvider(overrides);
+}
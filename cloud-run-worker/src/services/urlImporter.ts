@@ -0,0 +1,344 @@
+/**
+ * URL Importer
+ *
+ * Imports a video from a remote URL (S3-compatible storage, internal HTTP
+ * servers) instead of a browser upload:
+ *   1. Validate the URL and every address its host resolves to (redirects included);
+ *      every request connects only to a checked address (fetchPublic), so DNS
+ *      rebinding cannot swap in an internal one
+ *   2. Check size and content type (HEAD, or a 1-byte ranged GET)
+ *   3. Download it with parallel ranged requests (like downloadFromR2Parallel);
+ *      each chunk is written to the local video file and uploaded to R2 as a
+ *      multipart part, so the stored upload serves resumes like a browser upload
+ *   4. ffprobe the local file before completing the R2 upload (ffprobe never
+ *      fetches the URL itself: playlists or redirects could reach internal hosts)
+ *
+ * processVideo continues from the local file (see downloadAndPrepareVideo).
+ */
+
+import * as fs from 'fs';
+import ffmpeg, { type FfprobeData } from 'fluent-ffmpeg';
+import pLimit from 'p-limit';
+import {
+  abortMultipartUpload,
+  completeMultipartUpload,
+  createMultipartUpload,
+  uploadPart,
+} from './r2Client.js';
+import { TIMEOUTS } from '../config/timeouts.js';
+import { fetchPublic, isBlockedAddress, resolveHostAddresses } from '../utils/networkAddress.js';
+
+// ============================================================
+// Configuration
+// ============================================================
+
+/** Largest importable file (same limit as browser uploads) */
+export const MAX_IMPORT_BYTES = Number(process.env.URL_IMPORT_MAX_BYTES) || 2 * 1024 * 1024 * 1024;
+
+/** Chunk size = R2 part size (R2 requires equal part sizes except for the last one) */
+export const IMPORT_PART_SIZE = 32 * 1024 * 1024;
+
+const IMPORT_CONCURRENCY = 4;
+const MAX_REDIRECTS = 5;
+const MAX_CHUNK_ATTEMPTS = 4;
+const INSPECT_TIMEOUT_MS = 30000;
+const CHUNK_TIMEOUT_MS = 300000; // 5 minutes per 32MB chunk
+
+// Content types accepted before ffprobe has the final word (object stores often omit the video type)
+const GENERIC_CONTENT_TYPES = ['application/octet-stream', 'binary/octet-stream', 'application/x-binary', ''];
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface RemoteVideoInfo {
+  url: string; // after redirects
+  size: number;
+  contentType: string;
+  acceptsRanges: boolean;
+}
+
+export interface ImportProgressCallback {
+  (importedBytes: number, totalBytes: number): void | Promise<void>;
+}
+
+// ============================================================
+// URL validation
+// ============================================================
+
+function allowPrivateNetworks(): boolean {
+  return process.env.URL_IMPORT_ALLOW_PRIVATE_NETWORKS === 'true';
+}
+
+/**
+ * Reject URLs the Worker must not fetch
+ * @throws Error describing why the URL is not importable
+ */
+export async function assertImportableUrl(url: URL): Promise<void> {
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error('Import URL must use http or https');
+  }
+  if (url.username || url.password) {
+    throw new Error('Import URL must not contain credentials');
+  }
+
+  const addresses = await resolveHostAddresses(url);
+
+  if (addresses.length === 0 || addresses.some((address) => isBlockedAddress(address, allowPrivateNetworks()))) {
+    throw new Error(`Import URL host is not allowed: ${url.hostname}`);
+  }
+}
+
+/**
+ * fetch() that validates the host of every redirect hop
+ */
+async function fetchValidated(url: string, init: RequestInit): Promise<{ response: Response; url: string }> {
+  let current = new URL(url);
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    await assertImportableUrl(current);
+    const response = await fetchPublic(current, { ...init, redirect: 'manual' }, allowPrivateNetworks());
+
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      current = new URL(location, current);
+      continue;
+    }
+    return { response, url: current.toString() };
+  }
+
+  throw new Error(`Import URL redirected more than ${MAX_REDIRECTS} times`);
+}
+
+// ============================================================
+// Inspection
+// ============================================================
+
+/**
+ * Size, content type and range support of a remote file
+ *
+ * Uses HEAD; falls back to a 1-byte ranged GET for servers (and presigned
+ * S3 URLs) that reject HEAD.
+ */
+export async function inspectRemoteVideo(sourceUrl: string): Promise<RemoteVideoInfo> {
+  const signal = AbortSignal.timeout(INSPECT_TIMEOUT_MS);
+  let { response, url } = await fetchValidated(sourceUrl, { method: 'HEAD', signal });
+
+  if (!response.ok || !response.headers.get('content-length')) {
+    ({ response, url } = await fetchValidated(sourceUrl, { method: 'GET', headers: { Range: 'bytes=0-0' }, signal }));
+    await response.body?.cancel();
+  }
+
+  if (!response.ok) {
+    throw new Error(`Import URL responded with HTTP ${response.status}`);
+  }
+
+  const contentRange = response.headers.get('content-range');
+  const rangeTotal = contentRange?.match(/\/(\d+)$/)?.[1];
+  const size = response.status === 206 && rangeTotal
+    ? Number(rangeTotal)
+    : Number(response.headers.get('content-length') ?? NaN);
+
+  if (!Number.isFinite(size) || size <= 0) {
+    throw new Error('Import URL did not report the file size');
+  }
+
+  return {
+    url,
+    size,
+    contentType: (response.headers.get('content-type') ?? '').split(';')[0].trim().toLowerCase(),
+    acceptsRanges: response.status === 206 || response.headers.get('accept-ranges') === 'bytes',
+  };
+}
+
+/**
+ * Size and content type checks before anything is downloaded
+ * @returns Error message, or null when the file may be imported
+ */
+export function checkRemoteVideo(info: RemoteVideoInfo, maxBytes: number = MAX_IMPORT_BYTES): string | null {
+  if (info.size > maxBytes) {
+    return `File size exceeds the ${(maxBytes / 1024 / 1024 / 1024).toFixed(0)}GB import limit (${(info.size / 1024 / 1024 / 1024).toFixed(2)}GB)`;
+  }
+  if (!info.contentType.startsWith('video/') && !GENERIC_CONTENT_TYPES.includes(info.contentType)) {
+    return `Import URL is not a video (Content-Type: ${info.contentType})`;
+  }
+  return null;
+}
+
+/**
+ * ffprobe the imported local file (reads only the container header)
+ * @throws Error when ffprobe fails or finds no video stream
+ */
+export async function probeImportedVideo(filePath: string): Promise<{ formatName: string; duration: number }> {
+  return new Promise((resolve, reject) => {
+    const timeoutId = setTimeout(() => {
+      reject(new Error(`ffprobe of imported video timed out after ${TIMEOUTS.METADATA_EXTRACTION / 1000}s`));
+    }, TIMEOUTS.METADATA_EXTRACTION);
+
+    ffmpeg.ffprobe(filePath, ['-probesize', '5000000', '-analyzeduration', '5000000'], (err: Error | null, metadata: FfprobeData) => {
+      clearTimeout(timeoutId);
+      if (err) {
+        reject(new Error(`Import URL is not a readable video: ${err.message}`));
+        return;
+      }
+
+      const videoStream = metadata.streams?.find((stream) => stream.codec_type === 'video');
+      if (!videoStream) {
+        reject(new Error('Import URL has no video stream'));
+        return;
+      }
+      resolve({ formatName: metadata.format?.format_name ?? 'unknown', duration: Number(metadata.format?.duration) || 0 });
+    });
+  });
+}
+
+// ============================================================
+// Download
+// ============================================================
+
+/**
+ * Download one byte range, retrying with exponential backoff
+ */
+async function downloadRange(url: string, start: number, end: number): Promise<Buffer> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await fetchPublic(url, {
+        headers: { Range: `bytes=${start}-${end}` },
+        redirect: 'error', // url is the validated final URL
+        signal: AbortSignal.timeout(CHUNK_TIMEOUT_MS),
+      }, allowPrivateNetworks());
+      if (response.status !== 206) {
+        throw new Error(`Range request returned HTTP ${response.status}`);
+      }
+      const data = Buffer.from(await response.arrayBuffer());
+      if (data.length !== end - start + 1) {
+        throw new Error(`Range ${start}-${end} returned ${data.length} bytes`);
+      }
+      return data;
+    } catch (error) {
+      if (attempt >= MAX_CHUNK_ATTEMPTS) throw error;
+      const delay = Math.min(1000 * Math.pow(2, attempt - 1), 30000);
+      console.warn(`[URLImporter] Range ${start}-${end} failed (attempt ${attempt}/${MAX_CHUNK_ATTEMPTS}), retrying in ${delay / 1000}s...`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Servers without range support: one streamed GET, cut into parts in order
+ */
+async function downloadSequentially(
+  url: string,
+  size: number,
+  onPart: (partNumber: number, data: Buffer) => Promise<void>
+): Promise<void> {
+  const response = await fetchPublic(url, { redirect: 'error' }, allowPrivateNetworks());
+  if (!response.ok || !response.body) {
+    throw new Error(`Import URL responded with HTTP ${response.status}`);
+  }
+
+  let pending: Buffer[] = [];
+  let pendingBytes = 0;
+  let received = 0;
+  let partNumber = 1;
+
+  for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+    received += chunk.length;
+    if (received > size) {
+      throw new Error('Import URL sent more data than its reported size');
+    }
+    pending.push(Buffer.from(chunk));
+    pendingBytes += chunk.length;
+
+    while (pendingBytes >= IMPORT_PART_SIZE) {
+      const buffer = Buffer.concat(pending);
+      await onPart(partNumber++, buffer.subarray(0, IMPORT_PART_SIZE));
+      pending = [buffer.subarray(IMPORT_PART_SIZE)];
+      pendingBytes = pending[0].length;
+    }
+  }
+
+  if (pendingBytes > 0) {
+    await onPart(partNumber, Buffer.concat(pending));
+  }
+}
+
+/**
+ * Import a remote video into R2 and a local file
+ *
+ * @param uploadId - Upload ID for logging
+ * @param sourceUrl - URL validated by the app (validated again here)
+ * @param r2Key - Destination key of the upload in R2
+ * @param destPath - Local path processVideo continues from
+ * @param onProgress - Imported bytes
+ */
+export async function importVideoFromUrl(
+  uploadId: string,
+  sourceUrl: string,
+  r2Key: string,
+  destPath: string,
+  onProgress?: ImportProgressCallback
+): Promise<RemoteVideoInfo> {
+  const info = await inspectRemoteVideo(sourceUrl);
+  const checkError = checkRemoteVideo(info);
+  if (checkError) {
+    throw new Error(checkError);
+  }
+
+  console.log(`[${uploadId}] 🌐 Importing ${(info.size / 1024 / 1024).toFixed(1)}MB from URL (ranges=${info.acceptsRanges})`);
+
+  const contentType = info.contentType.startsWith('video/') ? info.contentType : 'video/mp4';
+  const multipartUploadId = await createMultipartUpload(r2Key, contentType);
+  const parts: { partNumber: number; etag: string }[] = [];
+  let importedBytes = 0;
+
+  const fd = fs.openSync(destPath, 'w');
+  const storePart = async (partNumber: number, data: Buffer) => {
+    fs.writeSync(fd, data, 0, data.length, (partNumber - 1) * IMPORT_PART_SIZE);
+    const etag = await uploadPart(r2Key, multipartUploadId, partNumber, data);
+    parts.push({ partNumber, etag });
+    importedBytes += data.length;
+    try {
+      await onProgress?.(importedBytes, info.size);
+    } catch (progressError) {
+      console.warn(`[${uploadId}] Import progress update failed (non-fatal):`, progressError);
+    }
+  };
+
+  try {
+    if (info.acceptsRanges) {
+      const limit = pLimit(IMPORT_CONCURRENCY);
+      const partCount = Math.ceil(info.size / IMPORT_PART_SIZE);
+      await Promise.all(
+        Array.from({ length: partCount }, (_, i) =>
+          limit(async () => {
+            const start = i * IMPORT_PART_SIZE;
+            const end = Math.min(start + IMPORT_PART_SIZE, info.size) - 1;
+            await storePart(i + 1, await downloadRange(info.url, start, end));
+          })
+        )
+      );
+    } else {
+      await downloadSequentially(info.url, info.size, storePart);
+    }
+
+    if (importedBytes !== info.size) {
+      throw new Error(`Import incomplete: received ${importedBytes} of ${info.size} bytes`);
+    }
+
+    const probe = await probeImportedVideo(destPath);
+    console.log(`[${uploadId}] 🎞️ Imported video: ${probe.formatName}, ${probe.duration.toFixed(0)}s`);
+    await completeMultipartUpload(r2Key, multipartUploadId, parts);
+  } catch (error) {
+    await abortMultipartUpload(r2Key, multipartUploadId).catch((abortError) => {
+      console.warn(`[${uploadId}] Failed to abort multipart upload after import error:`, abortError);
+    });
+    throw error;
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  console.log(`[${uploadId}] ✅ Imported ${parts.length} parts into R2: ${r2Key}`);
+  return info;
+}
@@ -1,18 +1,21 @@
-import { initStatus, updateStatus, completeStatus, failStatus, updatePhaseProgress, completePhase, skipPhase, ProcessingStatus } from './statusManager.js';
+import { initStatus, updateStatus, completeStatus, failStatus, cancelStatus, updatePhaseProgress, completePhase, skipPhase, ProcessingStatus } from './statusManager.js';
 import { executeIdealPipeline } from './pipeline.js';
 import { getVideoMetadata, detectScenesOnly } from './ffmpeg.js';
-import { uploadResultFile } from './blobUploader.js';
+import { uploadResultFile, uploadExportFile, uploadScreenshots } from './blobUploader.js';
 import { extractAudioForWhisper, hasAudioStream } from './audioExtractor.js';
 import { processAudioWithVADAndWhisper } from './audioWhisperPipeline.js';
 import { downloadFromR2Parallel, deleteFromR2, uploadToR2 } from './r2Client.js';
+import { importVideoFromUrl } from './urlImporter.js';
 import { logCriticalError } from './errorTracking.js';
-import { resultFileMap, setCurrentProcessingUpload } from '../index.js';
+import { resultFileMap, trackProcessingUpload, isShuttingDown } from '../index.js';
 import {
   getOrCreateCheckpoint,
   saveCheckpoint,
   updateCheckpointStep,
   deleteCheckpoint,
   loadCheckpoint,
+  updateCheckpoint,
+  isRerunRetentionEnabled,
   getIntermediatePaths,
   type ProcessingCheckpoint,
 } from './checkpointService.js';
@@ -26,12 +29,33 @@ import type {
   VADStats,
   CompressionResult,
   ProcessingMetadata,
+  ProcessingOptions,
+  ResultDocument,
 } from '../types/shared.js';
 import type { Scene } from '../types/excel.js';
+import type { ExportFilePaths, ExportFormat } from '../types/export.js';
 import { WarningCollector } from './warningCollector.js';
+import { publishStatusEvent } from './statusEvents.js';
+import { DEFAULT_TRANSCRIPTION_LANGUAGE } from '../utils/processingOptions.js';
+import { diarizeAudio, assignSpeakersToSegments } from './speakerDiarizer.js';
+import {
+  registerCancellableUpload,
+  unregisterCancellableUpload,
+  getCancellationSignal,
+  isCancelled,
+  throwIfCancelled,
+} from './cancellation.js';
 
 const execFileAsync = promisify(execFile);
 
+/**
+ * Language the narration was transcribed with (recorded in ProcessingMetadata)
+ */
+interface TranscriptionLanguageInfo {
+  language?: string; // ISO-639-1, undefined when nothing was transcribed
+  languageDetected?: boolean;
+}
+
 /**
  * Utility function to measure and log execution time of async operations
  * @param uploadId - Upload ID for logging
@@ -75,6 +99,8 @@ export const processVideo = async (
   fileName: string,
   userId: string, // Security: User ID for IDOR protection
   dataConsent: boolean,
+  options: ProcessingOptions = {},
+  sourceUrl?: string, // Import from URL: downloaded into r2Key instead of a browser upload
 ) => {
   const overallStartTime = Date.now();
   let r2Deleted = false; // Track if R2 object has been deleted
@@ -83,6 +109,7 @@ export const processVideo = async (
 
   // Heartbeat: update status every 60s to prevent stale detection on frontend
   const heartbeatInterval = setInterval(async () => {
+    if (isShuttingDown) return; // Don't overwrite the shutdown handler's status
     try {
       await updateStatus(uploadId, { status: 'processing' });
     } catch (err) {
@@ -92,7 +119,8 @@ export const processVideo = async (
 
   try {
     // Track current processing for graceful shutdown handling
-    setCurrentProcessingUpload(uploadId);
+    trackProcessingUpload(uploadId, true);
+    registerCancellableUpload(uploadId);
 
     console.log(`[${uploadId}] ═══════════════════════════════════════════════`);
     console.log(`[${uploadId}] Starting video processing for user ${userId}`);
@@ -105,14 +133,18 @@ export const processVideo = async (
       console.log(`[${uploadId}]   - Completed audio chunks: ${checkpoint.completedAudioChunks.length}/${checkpoint.totalAudioChunks || '?'}`);
       console.log(`[${uploadId}]   - Completed OCR scenes: ${checkpoint.completedOcrScenes.length}/${checkpoint.totalScenes || '?'}`);
     }
+    // Remember the options this run used (stage reruns reapply them)
+    checkpoint.processingOptions = options;
 
     // Security: Initialize status with userId for access control
     try {
       await initStatus(uploadId, userId);
       // Store fileName in metadata for upload history display
-      await updateStatus(uploadId, {
-        metadata: { fileName } as any,
-      });
+      // After an interruption, show 'resuming' until the first remaining step reports progress
+      const resumingAfterInterruption = isResuming && checkpoint.retryCount > 0;
+      await updateStatus(uploadId, resumingAfterInterruption
+        ? { status: 'resuming', metadata: { fileName, subTask: `Resuming from ${checkpoint.currentStep}` } }
+        : { metadata: { fileName } });
     } catch (statusError) {
       console.warn(`[${uploadId}] Failed to initialize Supabase status (continuing):`, statusError);
       if (process.env.NODE_ENV === 'production') {
@@ -142,12 +174,13 @@ export const processVideo = async (
       // Step 1: Download video from R2, delete source, and compress if needed
       // Skip if already completed (resuming from later step)
       if (shouldRunStep('downloading')) {
-        await downloadAndPrepareVideo(uploadId, r2Key, videoPath, r2DeletedRef, userId);
+        await downloadAndPrepareVideo(uploadId, r2Key, videoPath, r2DeletedRef, userId, sourceUrl);
         r2Deleted = r2DeletedRef.value;
 
         // Save checkpoint: download complete
         cp.currentStep = 'audio_extraction';
         await saveCheckpoint(cp);
+        throwIfCancelled(uploadId);
       } else {
         console.log(`[${uploadId}] ⏭️ Skipping download (resuming from ${cp.currentStep})`);
         // For resume: download video from intermediate storage or original R2 key
@@ -179,6 +212,7 @@ export const processVideo = async (
         cp.currentStep = 'transcription';
         cp.videoDuration = videoMetadata.duration;
         await saveCheckpoint(cp);
+        throwIfCancelled(uploadId);
       } else {
         console.log(`[${uploadId}] ⏭️ Skipping audio extraction (resuming from ${cp.currentStep})`);
         videoMetadata = await getVideoMetadata(videoPath);
@@ -193,14 +227,17 @@ export const processVideo = async (
         }
       }
 
-      // Warning collector for non-fatal issues
-      const warningCollector = new WarningCollector();
+      // Warning collector for non-fatal issues (pushed to open status streams as they occur)
+      const warningCollector = new WarningCollector((message) =>
+        publishStatusEvent(uploadId, { type: 'warning', message })
+      );
 
       // Step 4: Perform VAD + Whisper transcription AND scene detection in parallel
       // These are independent operations that can run concurrently to save time
       let transcription: TranscriptionSegment[];
       let vadStats: VADStats | null = null;
       let preDetectedScenes: Scene[] | undefined;
+      let languageInfo: TranscriptionLanguageInfo = {};
 
       if (shouldRunStep('transcription')) {
         // Ensure audio file exists before parallel processing
@@ -220,11 +257,13 @@ export const processVideo = async (
           hasAudio,
           cp,
           videoMetadata,
-          warningCollector
+          warningCollector,
+          options
         );
         transcription = result.transcription;
         vadStats = result.vadStats;
         preDetectedScenes = result.preDetectedScenes;
+        languageInfo = result.languageInfo;
 
         // Save checkpoint: transcription + scene detection complete
         cp.currentStep = 'scene_detection';
@@ -250,6 +289,11 @@ export const processVideo = async (
       } else if (cp.transcriptionSegments.length > 0) {
         console.log(`[${uploadId}] ⏭️ Using cached transcription (${cp.transcriptionSegments.length} segments)`);
         transcription = cp.transcriptionSegments;
+        if (options.language !== 'auto') {
+          languageInfo = { language: options.language ?? DEFAULT_TRANSCRIPTION_LANGUAGE, languageDetected: false };
+        } else if (cp.transcriptionLanguage) {
+          languageInfo = { language: cp.transcriptionLanguage, languageDetected: true };
+        }
       } else {
         // Should not happen, but fallback to empty transcription
         console.warn(`[${uploadId}] ⚠️ No cached transcription, proceeding with empty`);
@@ -259,7 +303,7 @@ export const processVideo = async (
       // Step 5: Execute scene detection, OCR, and Excel generation
       // Resume from checkpoint if partially completed
       // Pass pre-detected scenes from parallel processing (if available)
-      const { excelPath, stats } = await executeSceneDetectionAndOCRWithCheckpoint(
+      const { excelPath, exportPaths, screenshotsDir, stats } = await executeSceneDetectionAndOCRWithCheckpoint(
         uploadId,
         videoPath,
         fileName,
@@ -267,25 +311,45 @@ export const processVideo = async (
         cp,
         preDetectedScenes,
         videoMetadata,
-        warningCollector
+        warningCollector,
+        options
       );
 
       // Step 6: Upload result and complete processing
+      throwIfCancelled(uploadId);
       await uploadResultAndComplete(
         uploadId,
         excelPath,
+        exportPaths,
+        screenshotsDir,
         videoMetadata,
         transcription,
         stats,
         overallStartTime,
         userId,
         fileName,
-        warningCollector
+        warningCollector,
+        languageInfo
       );
 
-      // Cleanup checkpoint on successful completion
-      await deleteCheckpoint(uploadId);
-      console.log(`[${uploadId}] ✅ Checkpoint deleted (processing complete)`);
+      // Keep the checkpoint and source video for stage reruns (expire with the checkpoint),
+      // otherwise cleanup checkpoint on successful completion
+      if (isRerunRetentionEnabled()) {
+        try {
+          await updateCheckpoint(uploadId, {
+            currentStep: 'excel_generation',
+            intermediateVideoPath: r2Key,
+            processingOptions: options,
+          });
+          cp.intermediateVideoPath = r2Key;
+          console.log(`[${uploadId}] ✅ Checkpoint retained for reruns (expires ${cp.expiresAt})`);
+        } catch (retainError) {
+          console.warn(`[${uploadId}] ⚠️ Failed to retain checkpoint for reruns (source will be deleted):`, retainError);
+        }
+      } else {
+        await deleteCheckpoint(uploadId);
+        console.log(`[${uploadId}] ✅ Checkpoint deleted (processing complete)`);
+      }
 
     } finally {
       // Cleanup temporary directory
@@ -296,14 +360,37 @@ export const processVideo = async (
 
   } catch (error) {
     console.error(`[${uploadId}] Processing failed:`, error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    await failStatus(uploadId, errorMessage);
+    if (isShuttingDown) {
+      // The shutdown handler owns the status (resuming or error)
+      console.log(`[${uploadId}] Shutdown in progress - leaving status to the shutdown handler`);
+    } else if (isCancelled(uploadId)) {
+      console.log(`[${uploadId}] 🛑 Processing cancelled by user`);
+      await cancelStatus(uploadId).catch((err) => {
+        console.warn(`[${uploadId}] Failed to record cancellation:`, err);
+      });
+      // Partial results are discarded; a checkpoint retained for reruns stays usable
+      if (checkpoint && checkpoint.intermediateVideoPath !== r2Key) {
+        await deleteCheckpoint(uploadId);
+      }
+    } else {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      await failStatus(uploadId, errorMessage);
+    }
   } finally {
     clearInterval(heartbeatInterval);
 
     // CRITICAL: Always delete the source R2 object, even on error
     // This prevents storage quota exhaustion
-    if (!r2Deleted) {
+    // Exception: a source retained by the checkpoint for reruns is deleted with the checkpoint
+    // (deleteCheckpoint / cleanupExpiredCheckpoints), at most CHECKPOINT_EXPIRATION_DAYS later
+    const retainedForRerun = checkpoint?.intermediateVideoPath === r2Key;
+    if (retainedForRerun) {
+      console.log(`[${uploadId}] ℹ️  Source video retained by checkpoint for reruns`);
+    } else if (isShuttingDown) {
+      // An interrupted job resumes from the source video (deleted when the resumed run finishes);
+      // the shutdown handler deletes it when the job will not be resumed
+      console.log(`[${uploadId}] ℹ️  Shutdown in progress - source video kept for resume`);
+    } else if (!r2Deleted) {
       console.log(`[${uploadId}] Attempting final R2 cleanup...`);
       try {
         await deleteFromR2(r2Key);
@@ -327,14 +414,15 @@ export const processVideo = async (
       }
     }
 
-    // Clear current processing tracking (job completed or failed)
-    setCurrentProcessingUpload(null);
+    // Clear current processing tracking (job completed, failed or cancelled)
+    unregisterCancellableUpload(uploadId);
+    trackProcessingUpload(uploadId, false);
     console.log(`[${uploadId}] Processing tracking cleared`);
   }
 };
 
 /**
- * Download video from R2, delete source, and compress if needed
+ * Download video from R2 (or import it from sourceUrl), delete source, and compress if needed
  * Phase 1 progress: 0-30% (download 0-20%, compress 20-30%)
  *
  * @param uploadId - Upload ID for logging
@@ -342,6 +430,7 @@ export const processVideo = async (
  * @param videoPath - Destination path for video
  * @param r2Deleted - Ref object to track R2 deletion status
  * @param userId - User ID for logging
+ * @param sourceUrl - Remote URL to import into r2Key instead of downloading an upload
  * @returns void
  */
 async function downloadAndPrepareVideo(
@@ -349,36 +438,53 @@ async function downloadAndPrepareVideo(
   r2Key: string,
   videoPath: string,
   r2Deleted: { value: boolean },
-  userId: string
+  userId: string,
+  sourceUrl?: string
 ): Promise<void> {
   // Phase 1 Step 1: Download video directly from R2 using AWS SDK
   // Phase 1 progress: 0-20%
   await updatePhaseProgress(uploadId, 1, 0, {
     phaseStatus: 'in_progress',
-    subTask: 'Downloading video...',
+    subTask: sourceUrl ? 'Checking source URL...' : 'Downloading video...',
     stage: 'downloading',
   });
 
-  await timeStep(uploadId, 'Download Video from R2 (Parallel)', async () => {
-    // Download directly from R2 using parallel chunk downloads for high-speed transfer
-    console.log(`[${uploadId}] Starting parallel download from R2: ${r2Key}`);
-    await downloadFromR2Parallel(r2Key, videoPath, {
-      chunkSize: 50 * 1024 * 1024,  // 50MB chunks
-      concurrency: 5,               // 5 parallel downloads
-      onProgress: async (downloaded, total) => {
-        const progressPercent = downloaded / total;
-        // Phase 1 progress: 0-20% for download
-        const phaseProgress = Math.round(progressPercent * 20);
-        const downloadedMB = (downloaded / 1024 / 1024).toFixed(0);
+  if (sourceUrl) {
+    await timeStep(uploadId, 'Import Video from URL', async () => {
+      // Ranged parallel download: each chunk goes to videoPath and into R2 as a multipart part
+      await importVideoFromUrl(uploadId, sourceUrl, r2Key, videoPath, async (imported, total) => {
+        const phaseProgress = Math.round((imported / total) * 20);
+        const importedMB = (imported / 1024 / 1024).toFixed(0);
         const totalMB = (total / 1024 / 1024).toFixed(0);
 
         await updatePhaseProgress(uploadId, 1, phaseProgress, {
-          subTask: `Downloading ${downloadedMB}MB / ${totalMB}MB`,
+          subTask: `Importing ${importedMB}MB / ${totalMB}MB`,
           stage: 'downloading',
         });
-      },
+      });
     });
-  });
+  } else {
+    await timeStep(uploadId, 'Download Video from R2 (Parallel)', async () => {
+      // Download directly from R2 using parallel chunk downloads for high-speed transfer
+      console.log(`[${uploadId}] Starting parallel download from R2: ${r2Key}`);
+      await downloadFromR2Parallel(r2Key, videoPath, {
+        chunkSize: 50 * 1024 * 1024,  // 50MB chunks
+        concurrency: 5,               // 5 parallel downloads
+        onProgress: async (downloaded, total) => {
+          const progressPercent = downloaded / total;
+          // Phase 1 progress: 0-20% for download
+          const phaseProgress = Math.round(progressPercent * 20);
+          const downloadedMB = (downloaded / 1024 / 1024).toFixed(0);
+          const totalMB = (total / 1024 / 1024).toFixed(0);
+
+          await updatePhaseProgress(uploadId, 1, phaseProgress, {
+            subTask: `Downloading ${downloadedMB}MB / ${totalMB}MB`,
+            stage: 'downloading',
+          });
+        },
+      });
+    });
+  }
 
   // R2 source video deletion happens in the finally block of processVideo()
   // after processing completes or fails.
@@ -499,19 +605,23 @@ async function extractMetadataAndAudio(
  * @param audioPath - Path to audio file
  * @param hasAudio - Whether audio stream exists
  * @param checkpoint - Processing checkpoint for resume support
- * @returns Object containing transcription segments and VAD statistics
+ * @param options - Per-upload processing options (language, speaker diarization)
+ * @param warningCollector - Collects non-fatal diarization failures
+ * @returns Object containing transcription segments, VAD statistics and the language used
  */
 async function performTranscriptionWithCheckpoint(
   uploadId: string,
   audioPath: string,
   hasAudio: boolean,
-  checkpoint: ProcessingCheckpoint
-): Promise<{ transcription: TranscriptionSegment[]; vadStats: VADStats | null }> {
+  checkpoint: ProcessingCheckpoint,
+  options: ProcessingOptions = {},
+  warningCollector?: WarningCollector
+): Promise<{ transcription: TranscriptionSegment[]; vadStats: VADStats | null; languageInfo: TranscriptionLanguageInfo }> {
   // If no audio, skip transcription
   if (!hasAudio) {
     console.log(`[${uploadId}] ⚠️ No audio stream detected, skipping transcription`);
     await skipPhase(uploadId, 1, 'No audio detected');
-    return { transcription: [], vadStats: null };
+    return { transcription: [], vadStats: null, languageInfo: {} };
   }
 
   // Check for partially completed transcription
@@ -525,21 +635,41 @@ async function performTranscriptionWithCheckpoint(
 
   // Perform transcription (audioWhisperPipeline will handle checkpoint internally)
   const pipelineResult = await timeStep(uploadId, 'VAD + Whisper Pipeline (Resumable)', async () => {
-    return await processAudioWithVADAndWhisper(audioPath, uploadId, checkpoint);
+    return await processAudioWithVADAndWhisper(audioPath, uploadId, checkpoint, options.language);
   });
 
-  const transcription = pipelineResult.segments;
+  let transcription = pipelineResult.segments;
   const vadStats = pipelineResult.vadStats;
 
   console.log(`[${uploadId}] VAD + Whisper complete: ${transcription.length} segments`);
   console.log(`[${uploadId}]   Voice ratio: ${(vadStats.voiceRatio * 100).toFixed(1)}%`);
   console.log(`[${uploadId}]   Cost savings: ${vadStats.estimatedSavings.toFixed(1)}%`);
 
+  // Optional: label segments with speakers (non-fatal, narration stays unlabeled on failure)
+  if (options.speakerDiarization && transcription.length > 0) {
+    try {
+      const turns = await timeStep(uploadId, 'Speaker Diarization', () =>
+        diarizeAudio(audioPath, uploadId, getCancellationSignal(uploadId))
+      );
+      transcription = assignSpeakersToSegments(transcription, turns);
+    } catch (error) {
+      // A cancelled upload is not a diarization failure
+      throwIfCancelled(uploadId);
+      console.warn(`[${uploadId}] ⚠️ Speaker diarization failed (non-fatal): ${error}`);
+      warningCollector?.add('話者分離に失敗しました。ナレーションに話者ラベルが付いていません。');
+    }
+  }
+
   // Phase 1 complete
   await completePhase(uploadId, 1);
   console.log(`[${uploadId}] ✅ Phase 1 complete: Listening to narration`);
 
-  return { transcription, vadStats };
+  const languageInfo: TranscriptionLanguageInfo = {
+    language: pipelineResult.language,
+    languageDetected: pipelineResult.languageDetected,
+  };
+
+  return { transcription, vadStats, languageInfo };
 }
 
 /**
@@ -552,7 +682,8 @@ async function performTranscriptionWithCheckpoint(
  * @param audioPath - Path to audio file
  * @param hasAudio - Whether audio stream exists
  * @param checkpoint - Processing checkpoint for resume support
- * @returns Object containing transcription, VAD stats, and pre-detected scenes
+ * @param options - Per-upload processing options (language, speaker diarization)
+ * @returns Object containing transcription, VAD stats, pre-detected scenes and the language used
  */
 async function performParallelProcessing(
   uploadId: string,
@@ -561,11 +692,13 @@ async function performParallelProcessing(
   hasAudio: boolean,
   checkpoint: ProcessingCheckpoint,
   videoMetadata: any,
-  warningCollector?: WarningCollector
+  warningCollector?: WarningCollector,
+  options: ProcessingOptions = {}
 ): Promise<{
   transcription: TranscriptionSegment[];
   vadStats: VADStats | null;
   preDetectedScenes: Scene[];
+  languageInfo: TranscriptionLanguageInfo;
 }> {
   console.log(`[${uploadId}] ═══════════════════════════════════════════════`);
   console.log(`[${uploadId}] [PARALLEL] Starting parallel Whisper + Scene Detection`);
@@ -584,7 +717,9 @@ async function performParallelProcessing(
         uploadId,
         audioPath,
         hasAudio,
-        checkpoint
+        checkpoint,
+        options,
+        warningCollector
       );
       whisperCompleted = true;
       return result;
@@ -612,6 +747,7 @@ async function performParallelProcessing(
             });
           }
         },
+        getCancellationSignal(uploadId),
       );
       console.log(`[${uploadId}] [PARALLEL] Scene detection complete: ${scenes.length} scenes`);
       return scenes;
@@ -621,15 +757,20 @@ async function performParallelProcessing(
   const parallelDuration = ((Date.now() - parallelStartTime) / 1000).toFixed(2);
   console.log(`[${uploadId}] [PARALLEL] Both tasks settled in ${parallelDuration}s`);
 
+  // A cancelled Whisper run would otherwise be treated as a non-fatal failure
+  throwIfCancelled(uploadId);
+
   // Process results
   let transcription: TranscriptionSegment[] = [];
   let vadStats: VADStats | null = null;
   let preDetectedScenes: Scene[] = [];
+  let languageInfo: TranscriptionLanguageInfo = {};
 
   // Handle Whisper result
   if (whisperResult.status === 'fulfilled') {
     transcription = whisperResult.value.transcription;
     vadStats = whisperResult.value.vadStats;
+    languageInfo = whisperResult.value.languageInfo;
     console.log(`[${uploadId}] [PARALLEL] ✅ Whisper succeeded: ${transcription.length} segments`);
 
     // Check for empty transcription despite having audio
@@ -659,7 +800,7 @@ async function performParallelProcessing(
 
   console.log(`[${uploadId}] [PARALLEL] Results: ${transcription.length} segments, ${preDetectedScenes.length} scenes`);
 
-  return { transcription, vadStats, preDetectedScenes };
+  return { transcription, vadStats, preDetectedScenes, languageInfo };
 }
 
 /**
@@ -671,7 +812,8 @@ async function performParallelProcessing(
  * @param transcription - Transcription segments
  * @param checkpoint - Processing checkpoint for resume support
  * @param preDetectedScenes - Pre-detected scenes from parallel processing (optional)
- * @returns Object containing Excel path and pipeline statistics
+ * @param options - Per-upload processing options
+ * @returns Object containing Excel path, export file paths, screenshots directory and pipeline statistics
  */
 async function executeSceneDetectionAndOCRWithCheckpoint(
   uploadId: string,
@@ -681,8 +823,9 @@ async function executeSceneDetectionAndOCRWithCheckpoint(
   checkpoint: ProcessingCheckpoint,
   preDetectedScenes?: Scene[],
   videoMetadata?: any,
-  warningCollector?: WarningCollector
-): Promise<{ excelPath: string; stats: any }> {
+  warningCollector?: WarningCollector,
+  options: ProcessingOptions = {}
+): Promise<{ excelPath: string; exportPaths: ExportFilePaths; screenshotsDir?: string; stats: any }> {
   // Phase 2 starts: Scene detection + OCR
   await updatePhaseProgress(uploadId, 2, 0, {
     phaseStatus: 'in_progress',
@@ -700,12 +843,15 @@ async function executeSceneDetectionAndOCRWithCheckpoint(
       checkpoint,
       preDetectedScenes,
       videoMetadata,
-      warningCollector
+      warningCollector,
+      options
     );
   });
 
   return {
     excelPath: pipelineResult.excelPath,
+    exportPaths: pipelineResult.exportPaths,
+    screenshotsDir: pipelineResult.screenshotsDir,
     stats: pipelineResult.stats
   };
 }
@@ -716,23 +862,29 @@ async function executeSceneDetectionAndOCRWithCheckpoint(
  *
  * @param uploadId - Upload ID for logging
  * @param excelPath - Path to Excel file
+ * @param exportPaths - Paths to export files (SRT/VTT subtitles, EDL/FCPXML timelines)
+ * @param screenshotsDir - Directory of scene screenshots kept for the scene editor (optional)
  * @param videoMetadata - Video metadata
  * @param transcription - Transcription segments
  * @param stats - Pipeline statistics
  * @param overallStartTime - Overall processing start time
  * @param userId - User ID for R2 key generation
+ * @param languageInfo - Transcription language recorded in the completion metadata
  * @returns Result URL and R2 key (if in production)
  */
 async function uploadResultAndComplete(
   uploadId: string,
   excelPath: string,
+  exportPaths: ExportFilePaths,
+  screenshotsDir: string | undefined,
   videoMetadata: any,
   transcription: TranscriptionSegment[],
   stats: any,
   overallStartTime: number,
   userId: string = 'system',
   fileName: string = 'unknown',
-  warningCollector?: WarningCollector
+  warningCollector?: WarningCollector,
+  languageInfo: TranscriptionLanguageInfo = {}
 ): Promise<{ resultUrl: string; resultR2Key: string | null }> {
   // Phase 3 Step 3: Upload result file or store locally for development
   // Phase 3 progress: 70-95%
@@ -743,6 +895,18 @@ async function uploadResultAndComplete(
 
   let resultUrl: string = uploadId; // Initialize with uploadId
   let resultR2Key: string | null = null;
+  const exportR2Keys: Partial<Record<ExportFormat, string>> = {};
+  let screenshotsR2Prefix: string | null = null;
+
+  // Scenes for the full-text search index (read before the files are moved or uploaded)
+  let resultDocument: ResultDocument | undefined;
+  if (exportPaths.json) {
+    try {
+      resultDocument = JSON.parse(fs.readFileSync(exportPaths.json, 'utf-8'));
+    } catch (readError) {
+      console.warn(`[${uploadId}] ⚠️ Could not read the JSON result for search indexing:`, readError);
+    }
+  }
 
   await timeStep(uploadId, 'Upload Result File', async () => {
     if (process.env.NODE_ENV === 'development') {
@@ -751,12 +915,46 @@ async function uploadResultAndComplete(
       fs.copyFileSync(excelPath, persistentPath);
       resultFileMap.set(uploadId, persistentPath);
 
+      // Export files sit next to the Excel file: /tmp/result_{uploadId}.{format}
+      for (const [format, exportPath] of Object.entries(exportPaths) as [ExportFormat, string][]) {
+        fs.copyFileSync(exportPath, path.join('/tmp', `result_${uploadId}.${format}`));
+      }
+
+      // Scene editor screenshots: /tmp/result_{uploadId}_frames/
+      if (screenshotsDir) {
+        const persistentFramesDir = path.join('/tmp', `result_${uploadId}_frames`);
+        fs.rmSync(persistentFramesDir, { recursive: true, force: true });
+        fs.renameSync(screenshotsDir, persistentFramesDir);
+      }
+
       console.log(`[${uploadId}] Development mode: File stored at ${persistentPath}`);
       console.log(`[${uploadId}] Result URL (uploadId): ${resultUrl}`);
     } else {
       // Production mode: Upload to R2
       resultR2Key = await uploadResultFile(excelPath, uploadId, userId);
 
+      // Export files are optional: a failed upload only drops that format
+      for (const [format, exportPath] of Object.entries(exportPaths) as [ExportFormat, string][]) {
+        try {
+          exportR2Keys[format] = await uploadExportFile(exportPath, format, uploadId, userId);
+        } catch (exportError) {
+          console.warn(`[${uploadId}] ⚠️ Failed to upload ${format} export:`, exportError);
+          warningCollector?.add(`${format.toUpperCase()} export could not be uploaded`);
+        }
+      }
+
+      // Screenshots are optional too: without them the scene editor shows placeholders
+      if (screenshotsDir) {
+        try {
+          screenshotsR2Prefix = await uploadScreenshots(screenshotsDir, uploadId, userId);
+        } catch (screenshotError) {
+          console.warn(`[${uploadId}] ⚠️ Failed to upload scene screenshots:`, screenshotError);
+          warningCollector?.add('Scene screenshots could not be saved for the scene editor');
+        } finally {
+          fs.rmSync(screenshotsDir, { recursive: true, force: true });
+        }
+      }
+
       console.log(`[${uploadId}] Production mode: Uploaded to R2`);
       console.log(`[${uploadId}] R2 Key: ${resultR2Key}`);
       console.log(`[${uploadId}] Result URL (uploadId): ${resultUrl}`);
@@ -775,6 +973,8 @@ async function uploadResultAndComplete(
     totalScenes: stats.totalScenes,
     scenesWithOCR: stats.scenesWithOCRText,
     scenesWithNarration: stats.scenesWithNarration,
+    transcriptionLanguage: languageInfo.language,
+    languageDetected: languageInfo.language ? languageInfo.languageDetected : undefined,
     // Processing warnings (non-fatal issues)
     warnings: warnings && warnings.length > 0 ? warnings : undefined,
   };
@@ -790,6 +990,12 @@ async function uploadResultAndComplete(
   if (resultR2Key) {
     completionMetadata.resultR2Key = resultR2Key;
   }
+  if (Object.keys(exportR2Keys).length > 0) {
+    completionMetadata.exportR2Keys = exportR2Keys;
+  }
+  if (screenshotsR2Prefix) {
+    completionMetadata.screenshotsR2Prefix = screenshotsR2Prefix;
+  }
 
   // Phase 3 complete: Mark as 100% before final status update
   await updatePhaseProgress(uploadId, 3, 95, {
@@ -803,7 +1009,7 @@ async function uploadResultAndComplete(
     await completePhase(uploadId, 3);
     console.log(`[${uploadId}] ✅ Phase 3 complete: Creating your report`);
 
-    await completeStatus(uploadId, resultUrl, completionMetadata);
+    await completeStatus(uploadId, resultUrl, completionMetadata, resultDocument);
   } catch (statusError) {
     console.error(`[${uploadId}] Failed to update Supabase status (non-fatal in dev):`, statusError);
     if (process.env.NODE_ENV === 'production') {
@@ -11,12 +11,18 @@
 export class WarningCollector {
   private readonly warnings: string[] = [];
 
+  /**
+   * @param onWarning - Called for each warning as it is added (e.g. to push it to status streams)
+   */
+  constructor(private readonly onWarning?: (message: string) => void) {}
+
   /**
    * Add a warning message
    */
   add(message: string): void {
     this.warnings.push(message);
     console.warn(`[WarningCollector] ${message}`);
+    this.onWarning?.(message);
   }
 
   /**
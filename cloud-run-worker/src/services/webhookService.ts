@@ -0,0 +1,614 @@
+/**
+ * Webhook Service
+ *
+ * Notifies an account's registered webhook endpoint when an upload reaches
+ * 'completed' or 'error' (called from completeStatus / failStatus). Requests are
+ * HMAC-SHA256 signed, retried with backoff and recorded in webhook_deliveries,
+ * which the app shows as the delivery log.
+ *
+ * Endpoints are registered from the app (/api/webhooks) in webhook_endpoints;
+ * both tables live in Turso (in-memory in development, same dual mode as jobQueue).
+ *
+ * Signature: X-Webhook-Signature: v1=<hex HMAC-SHA256(secret, `${X-Webhook-Timestamp}.${body}`)>
+ *
+ * Deliveries only connect to public addresses: the address of every attempt is
+ * checked in the connection's own DNS lookup (the app only checks the hostname
+ * at registration, which a DNS record can bypass).
+ */
+
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import { createClient, type Client } from '@libsql/client';
+import { getJob } from './jobQueue.js';
+import { fetchPublic } from '../utils/networkAddress.js';
+import type { ProcessingStatus } from '../types/shared.js';
+
+// Load environment variables
+dotenv.config();
+
+// ============================================================
+// Types
+// ============================================================
+
+export type WebhookEvent = 'upload.completed' | 'upload.failed';
+
+export type WebhookDeliveryState = 'pending' | 'succeeded' | 'failed';
+
+/**
+ * An account's registered endpoint
+ */
+export interface WebhookEndpoint {
+  userId: string;
+  url: string;
+  secret: string;
+}
+
+/**
+ * JSON body POSTed to the endpoint
+ */
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEvent;
+  createdAt: string;
+  data: {
+    uploadId: string;
+    fileName?: string;
+    status: 'completed' | 'error';
+    error?: string;
+    counts: {
+      durationSec?: number;
+      totalScenes?: number;
+      scenesWithOCR?: number;
+      scenesWithNarration?: number;
+      transcriptionSegments?: number;
+    };
+    warnings: string[];
+    // Completed uploads in production only; signed per attempt
+    downloadUrl?: string;
+    downloadUrlExpiresAt?: string;
+  };
+}
+
+/**
+ * One notification and the state of its delivery attempts
+ */
+export interface WebhookDelivery {
+  id: string;
+  userId: string;
+  uploadId: string;
+  event: WebhookEvent;
+  url: string;
+  payload: string; // JSON WebhookPayload without the download URL
+  resultR2Key?: string;
+  state: WebhookDeliveryState;
+  attempts: number;
+  lastStatusCode?: number;
+  lastError?: string;
+  nextAttemptAt?: string;
+  createdAt: string;
+  updatedAt: string;
+  deliveredAt?: string;
+}
+
+// ============================================================
+// Configuration
+// ============================================================
+
+/** Delay before each retry; an event is attempted RETRY_DELAYS_SEC.length + 1 times */
+export const RETRY_DELAYS_SEC = [30, 120, 600, 1800];
+export const MAX_DELIVERY_ATTEMPTS = RETRY_DELAYS_SEC.length + 1;
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_DOWNLOAD_URL_TTL_SEC = 900; // 15 minutes
+const DEFAULT_RETRY_INTERVAL_MS = 30000;
+
+// An attempt holds its delivery for this long; a crashed attempt is retried after it
+const ATTEMPT_LEASE_MS = 5 * 60 * 1000;
+
+const USER_AGENT = 'VideoAnalyzer-Webhooks/1.0';
+
+// ============================================================
+// Storage (Turso or in-memory)
+// ============================================================
+
+// In-memory storage (development mode and tests)
+const inMemoryEndpoints = new Map<string, WebhookEndpoint>();
+const inMemoryDeliveries = new Map<string, WebhookDelivery>();
+
+// Turso client (lazy initialization, tables created on first use)
+let tursoReady: Promise<Client | null> | null = null;
+
+/**
+ * Lazy initialization of the Turso client
+ * Creates the webhook tables if missing (see lib/turso-migrations/008_create_webhooks.sql)
+ */
+function getTursoClient(): Promise<Client | null> {
+  if (tursoReady) {
+    return tursoReady;
+  }
+
+  const useTurso = process.env.NODE_ENV === 'production' || process.env.USE_TURSO === 'true';
+
+  if (!useTurso) {
+    tursoReady = Promise.resolve(null);
+    return tursoReady;
+  }
+
+  if (!process.env.TURSO_DATABASE_URL || !process.env.TURSO_AUTH_TOKEN) {
+    console.error('[Webhook] Missing Turso credentials, falling back to in-memory mode');
+    tursoReady = Promise.resolve(null);
+    return tursoReady;
+  }
+
+  tursoReady = (async () => {
+    try {
+      const client = createClient({
+        url: process.env.TURSO_DATABASE_URL!,
+        authToken: process.env.TURSO_AUTH_TOKEN!,
+      });
+      await client.execute(`CREATE TABLE IF NOT EXISTS webhook_endpoints (
+        user_id TEXT PRIMARY KEY,
+        url TEXT NOT NULL,
+        secret TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`);
+      await client.execute(`CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        upload_id TEXT NOT NULL,
+        event TEXT NOT NULL,
+        url TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        result_r2_key TEXT,
+        state TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_status_code INTEGER,
+        last_error TEXT,
+        next_attempt_at TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        delivered_at TEXT
+      )`);
+      await client.execute(
+        'CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_user ON webhook_deliveries(user_id, created_at)'
+      );
+      await client.execute(
+        'CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(state, next_attempt_at)'
+      );
+      return client;
+    } catch (error) {
+      console.error('[Webhook] Failed to initialize Turso, falling back to in-memory mode:', error);
+      return null;
+    }
+  })();
+
+  return tursoReady;
+}
+
+/**
+ * Get the webhook endpoint registered for an account
+ */
+export async function getWebhookEndpoint(userId: string): Promise<WebhookEndpoint | null> {
+  const client = await getTursoClient();
+
+  if (client) {
+    const result = await client.execute({
+      sql: 'SELECT user_id, url, secret FROM webhook_endpoints WHERE user_id = ?',
+      args: [userId],
+    });
+    if (result.rows.length === 0) return null;
+    const row = result.rows[0];
+    return { userId: row.user_id as string, url: row.url as string, secret: row.secret as string };
+  }
+
+  return inMemoryEndpoints.get(userId) ?? null;
+}
+
+/**
+ * Insert or update a delivery row
+ */
+async function saveDelivery(delivery: WebhookDelivery): Promise<void> {
+  const client = await getTursoClient();
+
+  if (client) {
+    await client.execute({
+      sql: `INSERT INTO webhook_deliveries
+            (id, user_id, upload_id, event, url, payload, result_r2_key, state, attempts,
+             last_status_code, last_error, next_attempt_at, created_at, updated_at, delivered_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT(id) DO UPDATE SET
+              url = excluded.url,
+              state = excluded.state,
+              attempts = excluded.attempts,
+              last_status_code = excluded.last_status_code,
+              last_error = excluded.last_error,
+              next_attempt_at = excluded.next_attempt_at,
+              updated_at = excluded.updated_at,
+              delivered_at = excluded.delivered_at`,
+      args: [
+        delivery.id,
+        delivery.userId,
+        delivery.uploadId,
+        delivery.event,
+        delivery.url,
+        delivery.payload,
+        delivery.resultR2Key ?? null,
+        delivery.state,
+        delivery.attempts,
+        delivery.lastStatusCode ?? null,
+        delivery.lastError ?? null,
+        delivery.nextAttemptAt ?? null,
+        delivery.createdAt,
+        delivery.updatedAt,
+        delivery.deliveredAt ?? null,
+      ],
+    });
+  } else {
+    inMemoryDeliveries.set(delivery.id, delivery);
+  }
+}
+
+/**
+ * Take the lease on a due delivery (several instances run the retry poller)
+ *
+ * @returns false when another instance claimed it first
+ */
+async function claimDelivery(delivery: WebhookDelivery): Promise<boolean> {
+  const leaseUntil = new Date(Date.now() + ATTEMPT_LEASE_MS).toISOString();
+  const client = await getTursoClient();
+
+  if (client) {
+    const result = await client.execute({
+      sql: `UPDATE webhook_deliveries SET next_attempt_at = ?
+            WHERE id = ? AND state = 'pending' AND next_attempt_at = ?`,
+      args: [leaseUntil, delivery.id, delivery.nextAttemptAt ?? null],
+    });
+    return result.rowsAffected === 1;
+  }
+
+  const current = inMemoryDeliveries.get(delivery.id);
+  if (current?.state !== 'pending' || current.nextAttemptAt !== delivery.nextAttemptAt) return false;
+  inMemoryDeliveries.set(delivery.id, { ...current, nextAttemptAt: leaseUntil });
+  return true;
+}
+
+/**
+ * List pending deliveries whose next attempt is due
+ */
+async function listDueDeliveries(): Promise<WebhookDelivery[]> {
+  const now = new Date().toISOString();
+  const client = await getTursoClient();
+
+  if (client) {
+    const result = await client.execute({
+      sql: `SELECT * FROM webhook_deliveries
+            WHERE state = 'pending' AND next_attempt_at <= ?
+            ORDER BY next_attempt_at ASC
+            LIMIT 50`,
+      args: [now],
+    });
+    return result.rows.map(row => mapDbRowToDelivery(row));
+  }
+
+  return [...inMemoryDeliveries.values()].filter(
+    delivery => delivery.state === 'pending' && delivery.nextAttemptAt !== undefined && delivery.nextAttemptAt <= now
+  );
+}
+
+/**
+ * List an account's deliveries, newest first (the app reads the table directly)
+ */
+export async function listWebhookDeliveries(userId: string, limit = 50): Promise<WebhookDelivery[]> {
+  const client = await getTursoClient();
+
+  if (client) {
+    const result = await client.execute({
+      sql: 'SELECT * FROM webhook_deliveries WHERE user_id = ? ORDER BY created_at DESC LIMIT ?',
+      args: [userId, limit],
+    });
+    return result.rows.map(row => mapDbRowToDelivery(row));
+  }
+
+  return [...inMemoryDeliveries.values()]
+    .filter(delivery => delivery.userId === userId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, limit);
+}
+
+/**
+ * Register an endpoint in memory (tests only; the app writes webhook_endpoints)
+ */
+export function setInMemoryWebhookEndpoint(endpoint: WebhookEndpoint): void {
+  inMemoryEndpoints.set(endpoint.userId, endpoint);
+}
+
+/**
+ * Clear in-memory endpoints and deliveries (tests only)
+ */
+export function resetInMemoryWebhooks(): void {
+  inMemoryEndpoints.clear();
+  inMemoryDeliveries.clear();
+}
+
+// ============================================================
+// Payload & Signing
+// ============================================================
+
+/**
+ * Sign a webhook body
+ *
+ * @param secret - Endpoint signing secret
+ * @param timestamp - Unix seconds sent as X-Webhook-Timestamp (receivers should reject old ones)
+ * @param body - Exact request body
+ * @returns Hex HMAC-SHA256 of `${timestamp}.${body}`
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Build the payload for a finished upload (download URL is added per attempt)
+ */
+export function buildWebhookPayload(
+  status: ProcessingStatus,
+  event: WebhookEvent,
+  deliveryId: string,
+  createdAt: string,
+  fileName?: string
+): WebhookPayload {
+  const metadata = status.metadata;
+
+  return {
+    id: deliveryId,
+    event,
+    createdAt,
+    data: {
+      uploadId: status.uploadId,
+      fileName,
+      status: event === 'upload.completed' ? 'completed' : 'error',
+      ...(event === 'upload.failed' ? { error: status.error ?? 'Processing failed' } : {}),
+      counts: {
+        durationSec: metadata?.duration,
+        totalScenes: metadata?.totalScenes,
+        scenesWithOCR: metadata?.scenesWithOCR,
+        scenesWithNarration: metadata?.scenesWithNarration,
+        transcriptionSegments: metadata?.segmentCount,
+      },
+      warnings: metadata?.warnings ?? [],
+    },
+  };
+}
+
+/**
+ * Add a freshly signed, short-lived download URL for the result file
+ * (each attempt gets its own, so retries hours later still carry a valid link)
+ */
+async function withDownloadUrl(payload: WebhookPayload, resultR2Key: string | undefined): Promise<WebhookPayload> {
+  if (!resultR2Key) return payload;
+
+  const ttlSec = parseInt(process.env.WEBHOOK_DOWNLOAD_URL_TTL_SEC || String(DEFAULT_DOWNLOAD_URL_TTL_SEC), 10);
+
+  try {
+    const { getDownloadUrl } = await import('./r2Client.js');
+    const downloadUrl = await getDownloadUrl(resultR2Key, ttlSec);
+    return {
+      ...payload,
+      data: {
+        ...payload.data,
+        downloadUrl,
+        downloadUrlExpiresAt: new Date(Date.now() + ttlSec * 1000).toISOString(),
+      },
+    };
+  } catch (error) {
+    console.warn(`[${payload.data.uploadId}] [Webhook] Failed to sign download URL (sending without it):`, error);
+    return payload;
+  }
+}
+
+// ============================================================
+// Delivery
+// ============================================================
+
+/**
+ * Notify the owner's webhook endpoint about a finished upload
+ *
+ * Called from completeStatus / failStatus without awaiting; never throws.
+ * The first attempt runs immediately, retries are picked up by the retry poller.
+ *
+ * @param status - Status returned by the completed / error transition
+ */
+export async function notifyUploadFinished(status: ProcessingStatus): Promise<void> {
+  const event: WebhookEvent | null =
+    status.status === 'completed' ? 'upload.completed' : status.status === 'error' ? 'upload.failed' : null;
+  if (!event || !status.userId) return;
+
+  try {
+    const endpoint = await getWebhookEndpoint(status.userId);
+    if (!endpoint) return;
+
+    // Completed uploads carry the file name in metadata; failed ones only in the job queue
+    const fileName =
+      (status.metadata as { fileName?: string } | undefined)?.fileName ??
+      (await getJob(status.uploadId))?.fileName;
+
+    const now = new Date().toISOString();
+    const id = `whd_${crypto.randomUUID()}`;
+    const delivery: WebhookDelivery = {
+      id,
+      userId: status.userId,
+      uploadId: status.uploadId,
+      event,
+      url: endpoint.url,
+      payload: JSON.stringify(buildWebhookPayload(status, event, id, now, fileName)),
+      resultR2Key: event === 'upload.completed' ? status.metadata?.resultR2Key : undefined,
+      state: 'pending',
+      attempts: 0,
+      // Leased by this instance for the first attempt
+      nextAttemptAt: new Date(Date.now() + ATTEMPT_LEASE_MS).toISOString(),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await saveDelivery(delivery);
+    console.log(`[${status.uploadId}] 📨 [Webhook] Queued ${event} delivery ${id}`);
+    await attemptDelivery(delivery);
+  } catch (error) {
+    console.error(`[${status.uploadId}] [Webhook] Failed to notify webhook endpoint:`, error);
+  }
+}
+
+/**
+ * POST to an endpoint, connecting only to public addresses
+ * Development allows any address, like the app does, so receivers can run locally.
+ */
+function postToEndpoint(url: string, init: RequestInit): Promise<Response> {
+  return process.env.NODE_ENV === 'development' ? fetch(url, init) : fetchPublic(url, init);
+}
+
+/**
+ * Send one attempt and record its outcome
+ *
+ * Uses the account's current endpoint (URL and secret), so a rotated secret or
+ * changed URL applies to pending retries too.
+ *
+ * @returns The delivery after this attempt
+ */
+export async function attemptDelivery(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const endpoint = await getWebhookEndpoint(delivery.userId);
+  const attempts = delivery.attempts + 1;
+
+  let statusCode: number | undefined;
+  let error: string | undefined;
+
+  if (!endpoint) {
+    error = 'Webhook endpoint was removed';
+  } else {
+    const payload = await withDownloadUrl(JSON.parse(delivery.payload) as WebhookPayload, delivery.resultR2Key);
+    const body = JSON.stringify(payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const timeoutMs = parseInt(process.env.WEBHOOK_TIMEOUT_MS || String(DEFAULT_TIMEOUT_MS), 10);
+
+    try {
+      const response = await postToEndpoint(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': USER_AGENT,
+          'X-Webhook-Id': delivery.id,
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': `v1=${signWebhookPayload(endpoint.secret, timestamp, body)}`,
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      statusCode = response.status;
+      if (!response.ok) {
+        error = `Endpoint responded with HTTP ${response.status}`;
+      }
+    } catch (fetchError) {
+      error = fetchError instanceof Error ? fetchError.message : String(fetchError);
+    }
+  }
+
+  const now = new Date();
+  const succeeded = error === undefined;
+  // A removed endpoint is final; other failures are retried until attempts run out
+  const retry = !succeeded && endpoint !== null && attempts < MAX_DELIVERY_ATTEMPTS;
+
+  const updated: WebhookDelivery = {
+    ...delivery,
+    url: endpoint?.url ?? delivery.url,
+    state: succeeded ? 'succeeded' : retry ? 'pending' : 'failed',
+    attempts,
+    lastStatusCode: statusCode,
+    lastError: error,
+    nextAttemptAt: retry ? new Date(now.getTime() + RETRY_DELAYS_SEC[attempts - 1] * 1000).toISOString() : undefined,
+    updatedAt: now.toISOString(),
+    deliveredAt: succeeded ? now.toISOString() : undefined,
+  };
+  await saveDelivery(updated);
+
+  if (succeeded) {
+    console.log(`[${delivery.uploadId}] ✅ [Webhook] Delivered ${delivery.event} (${delivery.id}, attempt ${attempts})`);
+  } else if (retry) {
+    console.warn(`[${delivery.uploadId}] ⚠️ [Webhook] Attempt ${attempts}/${MAX_DELIVERY_ATTEMPTS} failed (${error}), retrying at ${updated.nextAttemptAt}`);
+  } else {
+    console.error(`[${delivery.uploadId}] ❌ [Webhook] Delivery ${delivery.id} failed after ${attempts} attempt(s): ${error}`);
+  }
+
+  return updated;
+}
+
+// ============================================================
+// Retry Poller
+// ============================================================
+
+let retryTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Attempt every due delivery this instance can claim
+ *
+ * @returns Number of attempts made
+ */
+export async function retryDueDeliveries(): Promise<number> {
+  const due = await listDueDeliveries();
+  let attempted = 0;
+
+  for (const delivery of due) {
+    if (!(await claimDelivery(delivery))) continue;
+    await attemptDelivery(delivery).catch((err) => {
+      console.error(`[${delivery.uploadId}] [Webhook] Retry of ${delivery.id} failed:`, err);
+    });
+    attempted++;
+  }
+
+  return attempted;
+}
+
+/**
+ * Poll for due retries every WEBHOOK_RETRY_INTERVAL_MS (default 30s)
+ */
+export function startWebhookRetries(): void {
+  if (retryTimer) return;
+
+  const intervalMs = parseInt(process.env.WEBHOOK_RETRY_INTERVAL_MS || String(DEFAULT_RETRY_INTERVAL_MS), 10);
+  retryTimer = setInterval(() => {
+    retryDueDeliveries().catch((err) => console.error('[Webhook] Retry pass failed:', err));
+  }, intervalMs);
+}
+
+/**
+ * Stop polling (graceful shutdown)
+ */
+export function stopWebhookRetries(): void {
+  if (retryTimer) {
+    clearInterval(retryTimer);
+    retryTimer = null;
+  }
+}
+
+/**
+ * Map a webhook_deliveries row to WebhookDelivery
+ */
+function mapDbRowToDelivery(row: Record<string, unknown>): WebhookDelivery {
+  return {
+    id: row.id as string,
+    userId: row.user_id as string,
+    uploadId: row.upload_id as string,
+    event: row.event as WebhookEvent,
+    url: row.url as string,
+    payload: row.payload as string,
+    resultR2Key: (row.result_r2_key as string | null) ?? undefined,
+    state: row.state as WebhookDeliveryState,
+    attempts: Number(row.attempts),
+    lastStatusCode: row.last_status_code === null || row.last_status_code === undefined ? undefined : Number(row.last_status_code),
+    lastError: (row.last_error as string | null) ?? undefined,
+    nextAttemptAt: (row.next_attempt_at as string | null) ?? undefined,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+    deliveredAt: (row.delivered_at as string | null) ?? undefined,
+  };
+}
@@ -1,9 +1,5 @@
-import OpenAI from 'openai';
 import fs from 'fs';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { getTranscriptionProvider } from './transcriptionProviders/index.js';
 
 interface TranscriptionSegment {
   timestamp: number;
@@ -14,7 +10,8 @@ interface TranscriptionSegment {
 
 export const transcribeAudio = async (
   audioPath: string,
-  uploadId: string
+  uploadId: string,
+  language?: string // ISO-639-1; omitted = detected by the provider
 ): Promise<TranscriptionSegment[]> => {
   try {
     console.log(`[${uploadId}] Starting transcription with Whisper...`);
@@ -25,37 +22,13 @@ export const transcribeAudio = async (
       return generateMockTranscription();
     }
 
-    const audioBuffer = fs.readFileSync(audioPath);
-    const file = new File([audioBuffer], 'audio.mp3', { type: 'audio/mpeg' });
-
-    // Type for Whisper verbose response
-    interface WhisperVerboseResponse {
-      text: string;
-      segments?: Array<{
-        start: number;
-        end: number;
-        text: string;
-        confidence?: number;
-      }>;
-    }
-
-    // Call Whisper API with proper parameters
-    // Create params object separately to handle SDK type requirements
-    const createParams = {
-      file: file,
-      model: 'whisper-1' as const,
-      language: 'en',
-      response_format: 'verbose_json' as const,
-      temperature: 0,
-    };
-
-    const response: unknown = await (openai.audio.transcriptions.create as Function)(createParams);
+    // Deployment-selected provider (OpenAI Whisper or OpenAI-compatible local endpoint)
+    const responseData = await getTranscriptionProvider().transcribe(audioPath, { language });
 
     // Parse response
     const segments: TranscriptionSegment[] = [];
 
     // Check if response has segments (verbose format)
-    const responseData = response as unknown as WhisperVerboseResponse;
     if (responseData.segments && Array.isArray(responseData.segments)) {
       for (const segment of responseData.segments) {
         segments.push({
@@ -70,7 +43,7 @@ export const transcribeAudio = async (
       segments.push({
         timestamp: 0,
         duration: 0,
-        text: (response as unknown as { text?: string }).text || '',
+        text: responseData.text || '',
         confidence: 0.95,
       });
     }
@@ -4,7 +4,7 @@
  * Enables resumable processing for videos up to 2GB/10+ hours
  */
 
-import type { TranscriptionSegment, SceneCut } from './shared.js';
+import type { TranscriptionSegment, SceneCut, ProcessingOptions, RerunStep } from './shared.js';
 import { readFileSync } from 'fs';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
@@ -43,6 +43,12 @@ export type CheckpointStep =
   | 'ocr'                // Gemini/Mistral OCR processing
   | 'excel_generation';  // Final Excel report generation
 
+/**
+ * Steps a completed upload can be re-run from (POST /rerun)
+ * Ordered upstream → downstream; everything before the chosen step is reused.
+ */
+export const RERUNNABLE_STEPS: readonly RerunStep[] = ['transcription', 'scene_detection', 'ocr', 'excel_generation'];
+
 /**
  * Processing checkpoint data
  * Stored in Turso for durability, with intermediate files in R2
@@ -55,6 +61,9 @@ export interface ProcessingCheckpoint {
   // Build tracking (invalidate checkpoint when code changes)
   buildCommit?: string;  // Git commit hash at checkpoint creation time
 
+  // Per-upload options (reapplied on stage reruns)
+  processingOptions?: ProcessingOptions;
+
   // Intermediate file paths (R2 keys)
   intermediateVideoPath?: string;
   intermediateAudioPath?: string;
@@ -71,14 +80,20 @@ export interface ProcessingCheckpoint {
   completedOcrScenes: number[];             // Indices of completed OCR scenes
   ocrResults: Record<number, string>;       // sceneIndex -> ocrText
 
+  // Language the chunks were transcribed in (detected once with 'auto', reused on resume)
+  transcriptionLanguage?: string;
+
   // Timestamps
   createdAt: string;
   updatedAt: string;
   expiresAt: string;  // 7 days from creation
 
   // Retry and versioning
-  retryCount: number;
+  retryCount: number;  // Number of interruptions (incremented on graceful shutdown)
   version: number;  // For optimistic locking
+
+  // Set when a graceful shutdown interrupted processing; cleared when recovery claims it
+  interruptedAt?: string;
 }
 
 /**
@@ -89,6 +104,8 @@ export interface CheckpointSaveOptions {
   incrementVersion?: boolean;
   /** Increment retry count */
   incrementRetry?: boolean;
+  /** Overwrite the stored retry count (it otherwise never decreases) */
+  resetRetryCount?: boolean;
 }
 
 /**
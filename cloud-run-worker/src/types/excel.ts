@@ -3,9 +3,11 @@
  * Defines interfaces for the ideal Excel output format
  */
 
+import type { GlossaryCorrection, SceneTranslations, SpeakerTalkTime, TranslationLanguage } from './shared.js';
+
 /**
  * Represents a single row in the final Excel output
- * Columns: Scene # | Timecode | Screenshot | OCR Text | NA Text
+ * Columns: Scene # | Timecode | Screenshot | OCR Text | NA Text (+ OCR/NA per translation language)
  */
 export interface ExcelRow {
   /** Scene number (sequential: 1, 2, 3...) */
@@ -22,6 +24,9 @@ export interface ExcelRow {
 
   /** Narration text from audio transcription (Whisper) */
   narrationText: string;
+
+  /** OCR and narration translated into the upload's translation languages (optional) */
+  translations?: SceneTranslations;
 }
 
 /**
@@ -39,6 +44,12 @@ export interface VideoMetadata {
 
   /** Total video duration in seconds */
   duration: number;
+
+  /** Frame rate in frames per second (e.g., 29.97 for 30000/1001) */
+  fps: number;
+
+  /** Whether the frame rate uses SMPTE drop-frame timecode (29.97 / 59.94) */
+  dropFrame: boolean;
 }
 
 /**
@@ -149,9 +160,18 @@ export interface TopicGroup {
   /** Scene range string (e.g., "3-7") */
   sceneRange: string;
 
+  /** Scene numbers in this group (consecutive) */
+  sceneNumbers: number[];
+
   /** Time range string (e.g., "00:15 - 01:23") */
   timeRange: string;
 
+  /** Start time of the first scene (seconds) */
+  startTime: number;
+
+  /** End time of the last scene (seconds) */
+  endTime: number;
+
   /** Number of scenes in this group */
   count: number;
 
@@ -160,6 +180,15 @@ export interface TopicGroup {
 
   /** Combined narration text for this group */
   narration: string;
+
+  /** Short generated title (set by topicSummarizer.ts; falls back to the group's own text) */
+  title?: string;
+
+  /** Title in the upload's translation languages (set by translateTopicTitlesWithLLM) */
+  titleTranslations?: Partial<Record<TranslationLanguage, string>>;
+
+  /** 1-3 sentence generated summary (set by topicSummarizer.ts when the LLM is available) */
+  summary?: string;
 }
 
 /**
@@ -181,8 +210,20 @@ export interface ExcelGenerationOptions {
   /** Topic groups for Topics sheet (optional) */
   topicGroups?: TopicGroup[];
 
+  /** Whole-video executive summary for the Summary sheet (optional) */
+  executiveSummary?: string;
+
   /** Processing warnings to display in Statistics sheet (optional) */
   warnings?: string[];
+
+  /** Per-speaker talk time for Statistics sheet (optional, set when diarization ran) */
+  speakerTalkTimes?: SpeakerTalkTime[];
+
+  /** Glossary aliases replaced after OCR, for Statistics sheet (optional) */
+  glossaryCorrections?: GlossaryCorrection[];
+
+  /** Translation languages: adds OCR/NA columns per language to the Video Analysis sheet (optional) */
+  translationLanguages?: TranslationLanguage[];
 }
 
 /**
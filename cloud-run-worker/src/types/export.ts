@@ -0,0 +1,83 @@
+/**
+ * Export Data Structures
+ * Defines interfaces for non-Excel result files (subtitles, edit decision lists, etc.)
+ */
+
+import type { ExportFileType, ExportFormat, TranslatedExportFormat } from './shared.js';
+
+export type { ExportFileType, ExportFormat, TranslatedExportFormat };
+
+/**
+ * Local file paths of generated export files, keyed by format
+ */
+export type ExportFilePaths = Partial<Record<ExportFormat, string>>;
+
+/**
+ * A single subtitle cue (one caption block in SRT / WebVTT)
+ */
+export interface SubtitleCue {
+  /** Cue start time in seconds */
+  startTime: number;
+
+  /** Cue end time in seconds */
+  endTime: number;
+
+  /** Caption text (may contain line breaks) */
+  text: string;
+}
+
+/**
+ * Subtitle generation options
+ */
+export interface SubtitleGenerationOptions {
+  /** Maximum characters per caption line before wrapping (default: 42) */
+  maxLineLength?: number;
+
+  /** Minimum cue duration in seconds (default: 1.0) */
+  minCueDuration?: number;
+
+  /** Video duration in seconds, used to clamp the last cue (optional) */
+  videoDuration?: number;
+}
+
+/**
+ * Timeline (EDL / FCPXML) generation options
+ */
+export interface TimelineGenerationOptions {
+  /** Sequence / EDL title */
+  title: string;
+
+  /** Frame rate of the source video (from getVideoMetadata) */
+  fps: number;
+
+  /** Use SMPTE drop-frame timecode (29.97 / 59.94 video) */
+  dropFrame?: boolean;
+
+  /** Original file name, used as clip name so editors can relink the media */
+  sourceFileName: string;
+
+  /** Video width in pixels (FCPXML format resource) */
+  width: number;
+
+  /** Video height in pixels (FCPXML format resource) */
+  height: number;
+}
+
+/**
+ * MIME types for each export file type
+ */
+export const EXPORT_CONTENT_TYPES: Record<ExportFileType, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  edl: 'text/plain',
+  fcpxml: 'application/xml',
+  json: 'application/json',
+  txt: 'text/plain',
+};
+
+/**
+ * File type of an export format ('en.srt' → 'srt')
+ */
+export function exportFileType(format: ExportFormat): ExportFileType {
+  return format.slice(format.lastIndexOf('.') + 1) as ExportFileType;
+}
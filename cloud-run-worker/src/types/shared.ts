@@ -8,7 +8,7 @@
 // Processing Status Types
 // ========================================
 
-export type ProcessingStatusType = 'pending' | 'processing' | 'completed' | 'error';
+export type ProcessingStatusType = 'queued' | 'resuming' | 'pending' | 'processing' | 'completed' | 'error' | 'cancelled';
 
 // ========================================
 // 3-Phase Processing Types
@@ -40,6 +40,7 @@ export interface PhaseInfo {
 }
 
 export type ProcessingStage =
+  | 'queued'
   | 'downloading'
   | 'compressing'
   | 'metadata'
@@ -56,7 +57,166 @@ export type ProcessingStage =
   | 'narration_mapping'      // ナレーションマッピング中 (85-87%)
   | 'excel_generation'       // Excel生成中 (87-90%)
   | 'upload_result'
-  | 'completed';
+  | 'completed'
+  | 'cancelled';
+
+/**
+ * File types of the result files downloadable alongside the Excel report
+ * ('txt' is the YouTube-style chapter list)
+ */
+export type ExportFileType = 'srt' | 'vtt' | 'edl' | 'fcpxml' | 'json' | 'txt';
+
+/**
+ * Subtitle track or chapter list in one translation language (e.g. 'en.srt')
+ */
+export type TranslatedExportFormat = `${TranslationLanguage}.${'srt' | 'vtt' | 'txt'}`;
+
+/**
+ * Additional result formats downloadable alongside the Excel report
+ */
+export type ExportFormat = ExportFileType | TranslatedExportFormat;
+
+/**
+ * Timecode display style used in the Excel report and topic ranges
+ * - 'hms': HH:MM:SS (whole seconds, default)
+ * - 'smpte': HH:MM:SS:FF frame-accurate (HH:MM:SS;FF drop-frame for 29.97/59.94)
+ */
+export type TimecodeStyle = 'hms' | 'smpte';
+
+/**
+ * Spoken language passed to transcription (ISO-639-1)
+ * - 'auto': detect from the first voiced VAD chunk, then reuse for all chunks
+ */
+export type TranscriptionLanguage = 'auto' | 'ja' | 'en' | 'ko' | 'zh' | 'es' | 'fr' | 'de';
+
+/**
+ * How scenes are grouped into topics
+ * - 'ocr': consecutive scenes with similar on-screen text (default)
+ * - 'semantic': OCR and narration similarity (embeddings, lexical fallback) within min/max group durations
+ */
+export type TopicGroupingStrategy = 'ocr' | 'semantic';
+
+/**
+ * Target language of the optional translation stage (ISO-639-1)
+ */
+export type TranslationLanguage = Exclude<TranscriptionLanguage, 'auto'>;
+
+/**
+ * Scene OCR and narration translated into one target language
+ */
+export interface SceneTranslation {
+  ocrText: string;
+  narrationText: string;
+}
+
+/**
+ * Target language → translated scene text (languages whose translation failed are absent)
+ */
+export type SceneTranslations = Partial<Record<TranslationLanguage, SceneTranslation>>;
+
+/**
+ * Per-upload processing options chosen at upload time
+ */
+export interface ProcessingOptions {
+  timecodeStyle?: TimecodeStyle;
+  language?: TranscriptionLanguage; // default: 'ja'
+  speakerDiarization?: boolean; // label narration with "Speaker A: …" (default: false)
+  translationLanguages?: TranslationLanguage[]; // translate OCR and narration after LLM cleansing (default: none)
+  topicGrouping?: TopicGroupingStrategy; // default: 'ocr'
+  minTopicGroupDuration?: number; // seconds, 'semantic' only: shorter groups merge into a neighbor (default: Worker TOPIC_MIN_GROUP_DURATION, 10)
+  maxTopicGroupDuration?: number; // seconds, 'semantic' only: groups split before exceeding it (default: Worker TOPIC_MAX_GROUP_DURATION, 300)
+}
+
+/**
+ * Pipeline stage a finished upload can be re-run from (everything upstream is reused)
+ * - 'transcription': Whisper, scene detection, OCR and report
+ * - 'scene_detection': scene detection, OCR and report (cached transcription)
+ * - 'ocr': OCR and report (cached transcription and scene cuts)
+ * - 'excel_generation': LLM cleansing and report only (cached OCR results)
+ */
+export type RerunStep = 'transcription' | 'scene_detection' | 'ocr' | 'excel_generation';
+
+/**
+ * Scene entry in the structured JSON result
+ */
+export interface ResultScene {
+  sceneNumber: number;
+  startTime: number; // seconds
+  endTime: number; // seconds
+  midTime: number; // seconds (screenshot capture point)
+  timecode: string; // formatted with the upload's timecode style
+  detectionReason: string | null;
+  ocrText: string;
+  ocrConfidence: number;
+  ocrProvider: string | null; // null when restored from checkpoint
+  narrationText: string;
+  topicGroup: number | null; // TopicGroup.groupNumber
+  screenshotFile?: string; // file name under the result's frames/ folder (absent when not persisted)
+  translations?: SceneTranslations; // Set when translation languages were selected
+}
+
+/**
+ * Topic group entry in the structured JSON result
+ */
+export interface ResultTopicGroup {
+  groupNumber: number;
+  sceneNumbers: number[];
+  timeRange: string;
+  startTime: number; // seconds
+  endTime: number; // seconds
+  title?: string; // Generated topic title
+  titleTranslations?: Partial<Record<TranslationLanguage, string>>; // Title in the upload's translation languages
+  summary?: string; // Generated 1-3 sentence summary (absent when the LLM was unavailable)
+  ocr: string;
+  narration: string;
+}
+
+/**
+ * Structured analysis result persisted to R2 as JSON (versioned)
+ * Bump schemaVersion on breaking changes to the document shape.
+ */
+export interface ResultDocument {
+  schemaVersion: 1;
+  uploadId: string | null;
+  fileName: string;
+  generatedAt: string; // ISO 8601
+  editedAt?: string; // ISO 8601, set when scenes were corrected in the scene editor
+  timecodeStyle: TimecodeStyle;
+  video: {
+    duration: number;
+    width: number;
+    height: number;
+    fps: number;
+    dropFrame: boolean;
+  };
+  stats: {
+    totalScenes: number;
+    scenesWithOCR: number;
+    scenesWithNarration: number;
+  };
+  summary?: string; // Generated whole-video executive summary
+  topicGrouping?: TopicGroupingStrategy; // Set when not the default 'ocr' (scene edits regroup the same way)
+  minTopicGroupDuration?: number; // Set when chosen for 'semantic' grouping (seconds)
+  maxTopicGroupDuration?: number; // Set when chosen for 'semantic' grouping (seconds)
+  topicGroups: ResultTopicGroup[];
+  scenes: ResultScene[];
+  translationLanguages?: TranslationLanguage[]; // Set when translation languages were selected
+  speakers?: SpeakerTalkTime[]; // Set when speaker diarization ran
+  glossaryCorrections?: GlossaryCorrection[]; // Set when glossary aliases were replaced after OCR
+}
+
+/**
+ * Scene row submitted by the scene review editor
+ * Screenshots are reused from the source scene (the video is deleted after processing),
+ * so split scenes share their original screenshot.
+ */
+export interface EditedScene {
+  sourceSceneNumber: number; // ResultScene.sceneNumber the screenshot comes from
+  startTime: number; // seconds
+  endTime: number; // seconds
+  ocrText: string;
+  narrationText: string;
+}
 
 export interface ProcessingMetadata {
   duration: number;
@@ -68,7 +228,19 @@ export interface ProcessingMetadata {
   scenesWithNarration?: number;
   resultR2Key?: string; // Production only - R2 key for result file download
   blobUrl?: string; // @deprecated - Use resultR2Key instead
+  exportR2Keys?: Partial<Record<ExportFormat, string>>; // Production only - R2 keys for subtitle/timeline/JSON exports
+  screenshotsR2Prefix?: string; // Production only - R2 prefix of scene screenshots kept for the scene editor
+  editedAt?: string; // ISO 8601, set when scenes were corrected in the scene editor
+  transcriptionLanguage?: string; // ISO-639-1 code the narration was transcribed with
+  languageDetected?: boolean; // true when transcriptionLanguage came from 'auto' detection
   warnings?: string[]; // Non-fatal issues encountered during processing
+  queuePosition?: number; // 1-based position in the worker job queue while status is 'queued'
+  fileName?: string; // Original file name, stored when processing starts (upload history)
+  subTask?: string; // Latest sub-task, e.g. "Resuming from ocr"
+  errorCode?: string; // Machine-readable cause of an interruption, e.g. 'SERVER_SHUTDOWN'
+  errorMessage?: string; // Underlying error of an unexpected failure (UNCAUGHT_EXCEPTION)
+  signal?: string; // Signal that interrupted processing (SIGTERM, ...)
+  interruptedAt?: string; // ISO 8601, when processing was interrupted
 }
 
 export interface ProcessingStatus {
@@ -89,6 +261,7 @@ export interface ProcessingStatus {
   phaseStatus?: PhaseStatus;
   estimatedTimeRemaining?: string;  // e.g., "About 2-3 min (estimate)"
   subTask?: string;            // e.g., "Processing chunk 45/240"
+  queuePosition?: number;      // 1 = next to start (status 'queued' only)
 }
 
 // ========================================
@@ -179,6 +352,26 @@ export interface TranscriptionSegment {
   confidence: number;
   /** Which audio chunk this came from (optional) */
   chunkIndex?: number;
+  /** Speaker label from diarization ('A', 'B', ...), when enabled */
+  speaker?: string;
+}
+
+/**
+ * Per-speaker talk time (Statistics sheet)
+ */
+export interface SpeakerTalkTime {
+  speaker: string; // 'A', 'B', ...
+  talkTime: number; // seconds of transcribed speech
+  segmentCount: number;
+}
+
+/**
+ * Glossary alias replaced after OCR (Statistics sheet)
+ */
+export interface GlossaryCorrection {
+  from: string; // alias as it appeared in the OCR text
+  to: string; // preferred spelling
+  count: number; // occurrences replaced
 }
 
 // ========================================
@@ -284,6 +477,7 @@ export interface ProcessVideoRequest {
   r2Key: string;
   fileName: string;
   dataConsent: boolean;
+  sourceUrl?: string; // import from URL: downloaded into r2Key by the Worker
 }
 
 export interface ProcessVideoResponse {
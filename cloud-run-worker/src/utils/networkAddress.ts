@@ -0,0 +1,123 @@
+/**
+ * Network Address Utilities
+ *
+ * Keeps requests to user-supplied URLs (URL imports, webhook endpoints) away
+ * from internal endpoints. fetchPublic() checks the address the connection is
+ * actually made to (inside the request's own DNS lookup), so a DNS record that
+ * changes between a separate check and the request cannot reach a blocked host.
+ */
+
+import dns from 'dns';
+import dnsPromises from 'dns/promises';
+import net from 'net';
+import { Agent } from 'undici';
+
+/**
+ * Whether a request may connect to this IP address
+ *
+ * Loopback, link-local (cloud metadata) and unspecified addresses are always
+ * blocked; private ranges unless allowPrivate is set.
+ */
+export function isBlockedAddress(address: string, allowPrivate: boolean): boolean {
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isBlockedAddress(mapped[1], allowPrivate);
+
+  if (net.isIPv4(address)) {
+    const [a, b] = address.split('.').map(Number);
+    if (a === 127 || a === 0 || (a === 169 && b === 254)) return true;
+    const isPrivate = a === 10 || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168) || (a === 100 && b >= 64 && b <= 127);
+    return isPrivate && !allowPrivate;
+  }
+
+  if (net.isIPv6(address)) {
+    const lower = address.toLowerCase();
+    if (lower === '::1' || lower === '::' || /^fe[89ab]/.test(lower)) return true;
+    const isPrivate = /^f[cd]/.test(lower);
+    return isPrivate && !allowPrivate;
+  }
+
+  return true;
+}
+
+/**
+ * Host of a URL without the brackets of an IPv6 literal
+ */
+function bareHostname(url: URL): string {
+  return url.hostname.replace(/^\[|\]$/g, '');
+}
+
+/**
+ * IP addresses a URL's host resolves to (the literal address for IP hosts)
+ */
+export async function resolveHostAddresses(url: URL): Promise<string[]> {
+  const host = bareHostname(url);
+  return net.isIP(host)
+    ? [host]
+    : (await dnsPromises.lookup(host, { all: true })).map((entry) => entry.address);
+}
+
+/**
+ * DNS lookup for outgoing connections that fails when any address is blocked
+ */
+function guardedLookup(allowPrivate: boolean): net.LookupFunction {
+  return (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+      if (err) {
+        callback(err, '', 0);
+        return;
+      }
+      if (addresses.length === 0 || addresses.some((entry) => isBlockedAddress(entry.address, allowPrivate))) {
+        callback(new Error(`Host is not allowed: ${hostname}`), '', 0);
+        return;
+      }
+      if (options.all) {
+        (callback as unknown as (err: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    });
+  };
+}
+
+const dispatchers = new Map<boolean, Agent>();
+
+/**
+ * Connection pool whose lookups reject blocked addresses (one per allowPrivate)
+ */
+function getGuardedDispatcher(allowPrivate: boolean): Agent {
+  let dispatcher = dispatchers.get(allowPrivate);
+  if (!dispatcher) {
+    dispatcher = new Agent({ connect: { lookup: guardedLookup(allowPrivate) } });
+    dispatchers.set(allowPrivate, dispatcher);
+  }
+  return dispatcher;
+}
+
+/**
+ * fetch() that only connects to allowed addresses
+ *
+ * IP literal hosts are checked here (they are not looked up); hostnames are
+ * checked in the connection's own lookup. Redirects are not validated: pass
+ * redirect 'manual' or 'error' and check each hop.
+ *
+ * @throws Error "Host is not allowed: <host>" for a blocked address
+ */
+export async function fetchPublic(url: string | URL, init: RequestInit, allowPrivate: boolean = false): Promise<Response> {
+  const parsed = new URL(url);
+  const host = bareHostname(parsed);
+  if (net.isIP(host) && isBlockedAddress(host, allowPrivate)) {
+    throw new Error(`Host is not allowed: ${parsed.hostname}`);
+  }
+
+  try {
+    // Node's fetch accepts an undici dispatcher (not part of the DOM RequestInit type)
+    return await fetch(url, { ...init, dispatcher: getGuardedDispatcher(allowPrivate) } as RequestInit);
+  } catch (error) {
+    // fetch wraps connection errors in "fetch failed"; surface the blocked host instead
+    const cause = (error as { cause?: unknown } | null)?.cause;
+    if (cause instanceof Error && cause.message.startsWith('Host is not allowed')) {
+      throw cause;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Processing Options Utilities
+ *
+ * Sanitize per-upload processing options received in the /process request body.
+ * Unknown keys and invalid values are dropped so the pipeline falls back to defaults.
+ */
+
+import type { ProcessingOptions, TimecodeStyle, TopicGroupingStrategy, TranscriptionLanguage, TranslationLanguage } from '../types/shared.js';
+
+export const TIMECODE_STYLES: readonly TimecodeStyle[] = ['hms', 'smpte'];
+
+export const TRANSCRIPTION_LANGUAGES: readonly TranscriptionLanguage[] = ['auto', 'ja', 'en', 'ko', 'zh', 'es', 'fr', 'de'];
+
+/** Language used when none is selected, or when 'auto' detection fails */
+export const DEFAULT_TRANSCRIPTION_LANGUAGE = 'ja';
+
+export const TRANSLATION_LANGUAGES: readonly TranslationLanguage[] = ['ja', 'en', 'ko', 'zh', 'es', 'fr', 'de'];
+
+/** Most target languages per upload (each adds LLM requests and two Excel columns) */
+export const MAX_TRANSLATION_LANGUAGES = 3;
+
+export const TOPIC_GROUPING_STRATEGIES: readonly TopicGroupingStrategy[] = ['ocr', 'semantic'];
+
+/** Allowed range of the semantic grouping duration limits (seconds) */
+export const TOPIC_GROUP_DURATION_RANGE = { min: 0, max: 3600 } as const;
+
+/**
+ * Parse processing options from an untrusted request body value
+ *
+ * @param raw - `options` field from the request body (may be undefined)
+ * @returns Sanitized processing options
+ *
+ * @example
+ * parseProcessingOptions({ timecodeStyle: 'smpte' }) // { timecodeStyle: 'smpte' }
+ * parseProcessingOptions({ timecodeStyle: 'frames' }) // {}
+ * parseProcessingOptions({ language: 'auto' }) // { language: 'auto' }
+ * parseProcessingOptions({ translationLanguages: ['en', 'xx', 'en'] }) // { translationLanguages: ['en'] }
+ * parseProcessingOptions({ minTopicGroupDuration: 30, maxTopicGroupDuration: 20 }) // {}
+ */
+export function parseProcessingOptions(raw: unknown): ProcessingOptions {
+  if (!raw || typeof raw !== 'object') return {};
+
+  const input = raw as Record<string, unknown>;
+  const options: ProcessingOptions = {};
+
+  if (TIMECODE_STYLES.includes(input.timecodeStyle as TimecodeStyle)) {
+    options.timecodeStyle = input.timecodeStyle as TimecodeStyle;
+  } else if (input.timecodeStyle !== undefined) {
+    console.warn(`[ProcessingOptions] Ignoring invalid timecodeStyle: ${String(input.timecodeStyle)}`);
+  }
+
+  if (TRANSCRIPTION_LANGUAGES.includes(input.language as TranscriptionLanguage)) {
+    options.language = input.language as TranscriptionLanguage;
+  } else if (input.language !== undefined) {
+    console.warn(`[ProcessingOptions] Ignoring invalid language: ${String(input.language)}`);
+  }
+
+  if (typeof input.speakerDiarization === 'boolean') {
+    options.speakerDiarization = input.speakerDiarization;
+  } else if (input.speakerDiarization !== undefined) {
+    console.warn(`[ProcessingOptions] Ignoring invalid speakerDiarization: ${String(input.speakerDiarization)}`);
+  }
+
+  if (Array.isArray(input.translationLanguages)) {
+    const languages = Array.from(new Set(
+      input.translationLanguages.filter((code): code is TranslationLanguage =>
+        TRANSLATION_LANGUAGES.includes(code as TranslationLanguage)
+      )
+    )).slice(0, MAX_TRANSLATION_LANGUAGES);
+    if (languages.length < input.translationLanguages.length) {
+      console.warn(`[ProcessingOptions] Ignoring invalid or extra translationLanguages: ${JSON.stringify(input.translationLanguages)}`);
+    }
+    if (languages.length > 0) {
+      options.translationLanguages = languages;
+    }
+  } else if (input.translationLanguages !== undefined) {
+    console.warn(`[ProcessingOptions] Ignoring invalid translationLanguages: ${String(input.translationLanguages)}`);
+  }
+
+  if (TOPIC_GROUPING_STRATEGIES.includes(input.topicGrouping as TopicGroupingStrategy)) {
+    options.topicGrouping = input.topicGrouping as TopicGroupingStrategy;
+  } else if (input.topicGrouping !== undefined) {
+    console.warn(`[ProcessingOptions] Ignoring invalid topicGrouping: ${String(input.topicGrouping)}`);
+  }
+
+  for (const key of ['minTopicGroupDuration', 'maxTopicGroupDuration'] as const) {
+    const seconds = input[key];
+    if (typeof seconds === 'number' && seconds >= TOPIC_GROUP_DURATION_RANGE.min && seconds <= TOPIC_GROUP_DURATION_RANGE.max) {
+      options[key] = seconds;
+    } else if (seconds !== undefined) {
+      console.warn(`[ProcessingOptions] Ignoring invalid ${key}: ${String(seconds)}`);
+    }
+  }
+
+  if (
+    options.minTopicGroupDuration !== undefined &&
+    options.maxTopicGroupDuration !== undefined &&
+    options.minTopicGroupDuration >= options.maxTopicGroupDuration
+  ) {
+    console.warn(`[ProcessingOptions] Ignoring topic group durations: min ${options.minTopicGroupDuration}s is not below max ${options.maxTopicGroupDuration}s`);
+    delete options.minTopicGroupDuration;
+    delete options.maxTopicGroupDuration;
+  }
+
+  return options;
+}
@@ -1,8 +1,10 @@
 /**
  * Timecode Utility Functions
- * Convert between seconds and HH:MM:SS format
+ * Convert between seconds and HH:MM:SS / HH:MM:SS:FF formats
  */
 
+import type { TimecodeStyle } from '../types/shared.js';
+
 /**
  * Convert seconds to HH:MM:SS timecode format
  * @param seconds - Time in seconds (can be decimal)
@@ -62,3 +64,189 @@ export function formatDuration(seconds: number): string {
 
   return parts.join(' ');
 }
+
+/**
+ * Convert seconds to a subtitle timestamp (HH:MM:SS,mmm for SRT, HH:MM:SS.mmm for WebVTT)
+ * @param seconds - Time in seconds (can be decimal)
+ * @param separator - Millisecond separator (',' for SRT, '.' for WebVTT)
+ * @returns Timestamp string (e.g., "00:01:05,500")
+ *
+ * @example
+ * formatSubtitleTimestamp(65.5) // "00:01:05,500"
+ * formatSubtitleTimestamp(65.5, '.') // "00:01:05.500"
+ */
+export function formatSubtitleTimestamp(seconds: number, separator: ',' | '.' = ','): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor((totalMs % 3600000) / 60000);
+  const s = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+
+  return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}${separator}${ms.toString().padStart(3, '0')}`;
+}
+
+/**
+ * Parse an ffprobe frame rate string into frames per second
+ * @param rate - Rational ("30000/1001") or decimal ("25") frame rate
+ * @returns Frames per second, or null if the value is missing/invalid ("0/0")
+ *
+ * @example
+ * parseFrameRate("30000/1001") // 29.97002997...
+ * parseFrameRate("25/1") // 25
+ * parseFrameRate("0/0") // null
+ */
+export function parseFrameRate(rate: string | undefined): number | null {
+  if (!rate) return null;
+
+  const [num, den] = rate.split('/').map(Number);
+  const fps = den === undefined ? num : num / den;
+
+  return Number.isFinite(fps) && fps > 0 ? fps : null;
+}
+
+/**
+ * Convert seconds to a frame count at the given frame rate
+ * @param seconds - Time in seconds (can be decimal)
+ * @param fps - Frames per second
+ * @returns Frame number (rounded to the nearest frame)
+ *
+ * @example
+ * secondsToFrames(1.5, 24) // 36
+ */
+export function secondsToFrames(seconds: number, fps: number): number {
+  return Math.max(0, Math.round(seconds * fps));
+}
+
+/**
+ * Check whether a frame rate uses SMPTE drop-frame timecode (29.97 / 59.94)
+ * @param fps - Frames per second
+ * @returns true for NTSC 30000/1001 and 60000/1001 rates
+ *
+ * @example
+ * isDropFrameRate(30000 / 1001) // true
+ * isDropFrameRate(23.976) // false (23.976 has no drop-frame variant)
+ */
+export function isDropFrameRate(fps: number): boolean {
+  return [30, 60].some(nominal => Math.abs(fps - (nominal * 1000) / 1001) < 0.01);
+}
+
+/**
+ * Convert a frame count to SMPTE HH:MM:SS:FF timecode
+ * Fractional rates (23.976, 29.97) count frames on their nominal timebase (24, 30).
+ * Drop-frame timecode skips frame numbers 0-1 (0-3 at 59.94) every minute except
+ * every tenth minute, and uses ';' before the frame field.
+ * @param frames - Frame number
+ * @param fps - Frames per second
+ * @param dropFrame - Use drop-frame counting (only valid for 29.97 / 59.94)
+ * @returns Timecode string (e.g., "00:01:05:12" or "00:01:05;12")
+ *
+ * @example
+ * formatFrameTimecode(0, 30) // "00:00:00:00"
+ * formatFrameTimecode(1962, 30) // "00:01:05:12"
+ * formatFrameTimecode(1800, 30000 / 1001, true) // "00:01:00;02"
+ */
+export function formatFrameTimecode(frames: number, fps: number, dropFrame: boolean = false): string {
+  const timebase = Math.round(fps);
+  let frameNumber = frames;
+
+  if (dropFrame) {
+    const dropped = timebase / 15; // 2 at 29.97, 4 at 59.94
+    const framesPer10Min = Math.round(fps * 600);
+    const framesPerMin = timebase * 60 - dropped;
+    const tenMinBlocks = Math.floor(frames / framesPer10Min);
+    const remainder = frames % framesPer10Min;
+
+    frameNumber += dropped * 9 * tenMinBlocks;
+    if (remainder > dropped) {
+      frameNumber += dropped * Math.floor((remainder - dropped) / framesPerMin);
+    }
+  }
+
+  const totalSeconds = Math.floor(frameNumber / timebase);
+  const f = frameNumber % timebase;
+
+  return `${formatTimecode(totalSeconds)}${dropFrame ? ';' : ':'}${f.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Convert SMPTE HH:MM:SS:FF (or drop-frame HH:MM:SS;FF) timecode to a frame count
+ * @param timecode - Timecode string; ';' or '.' before the frame field means drop-frame
+ * @param fps - Frames per second
+ * @returns Frame number
+ *
+ * @example
+ * parseFrameTimecode("00:01:05:12", 30) // 1962
+ * parseFrameTimecode("00:01:00;02", 30000 / 1001) // 1800
+ */
+export function parseFrameTimecode(timecode: string, fps: number): number {
+  const match = timecode.match(/^(\d{2}):(\d{2}):(\d{2})([:;.])(\d{2})$/);
+
+  if (!match) {
+    throw new Error(`Invalid timecode format: ${timecode}. Expected HH:MM:SS:FF`);
+  }
+
+  const [, hh, mm, ss, separator, ff] = match;
+  const timebase = Math.round(fps);
+  const h = Number(hh);
+  const m = Number(mm);
+  const s = Number(ss);
+  const f = Number(ff);
+
+  if (m > 59 || s > 59 || f >= timebase) {
+    throw new Error(`Invalid timecode value: ${timecode} at ${timebase}fps`);
+  }
+
+  let frames = ((h * 60 + m) * 60 + s) * timebase + f;
+
+  if (separator !== ':') {
+    const totalMinutes = h * 60 + m;
+    frames -= (timebase / 15) * (totalMinutes - Math.floor(totalMinutes / 10));
+  }
+
+  return frames;
+}
+
+/**
+ * Convert seconds to frame-accurate SMPTE timecode
+ * Drop-frame notation is used automatically for 29.97 / 59.94 video.
+ * @param seconds - Time in seconds (can be decimal)
+ * @param fps - Frames per second (from getVideoMetadata)
+ * @returns Timecode string (e.g., "00:00:05:12")
+ *
+ * @example
+ * formatSmpteTimecode(5.4, 30) // "00:00:05:12"
+ */
+export function formatSmpteTimecode(seconds: number, fps: number): string {
+  return formatFrameTimecode(secondsToFrames(seconds, fps), fps, isDropFrameRate(fps));
+}
+
+/**
+ * Convert SMPTE timecode to seconds
+ * @param timecode - Timecode string (HH:MM:SS:FF or HH:MM:SS;FF)
+ * @param fps - Frames per second
+ * @returns Time in seconds
+ *
+ * @example
+ * parseSmpteTimecode("00:00:05:12", 30) // 5.4
+ */
+export function parseSmpteTimecode(timecode: string, fps: number): number {
+  return parseFrameTimecode(timecode, fps) / fps;
+}
+
+/**
+ * Create a timecode formatter for the upload's timecode style
+ * @param style - 'hms' (HH:MM:SS) or 'smpte' (HH:MM:SS:FF)
+ * @param fps - Frames per second (only used for 'smpte')
+ * @returns Function converting seconds to a timecode string
+ *
+ * @example
+ * createTimecodeFormatter('smpte', 25)(1.5) // "00:00:01:12"
+ */
+export function createTimecodeFormatter(
+  style: TimecodeStyle,
+  fps: number
+): (seconds: number) => string {
+  return style === 'smpte'
+    ? (seconds: number) => formatSmpteTimecode(seconds, fps)
+    : formatTimecode;
+}
@@ -0,0 +1,13 @@
+/**
+ * Globals defined in jest.setup.js (shared API route test fixtures)
+ */
+
+declare const VALID_USER_ID: string;
+declare const VALID_UPLOAD_ID: string;
+
+declare function statusRow(
+  status: string,
+  metadata?: object | null
+): { rows: { status: string; metadata: string | null }[] };
+
+declare function setWorkerEnv(): void;
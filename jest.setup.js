@@ -7,6 +7,19 @@ global.Headers = Headers
 global.Request = Request
 global.Response = Response
 
+// Polyfill Response.json for jsdom (required by NextResponse.json)
+if (typeof Response.json !== 'function') {
+  Response.json = function (data, init) {
+    return new Response(JSON.stringify(data), {
+      ...init,
+      headers: {
+        'content-type': 'application/json',
+        ...(init?.headers || {}),
+      },
+    })
+  }
+}
+
 // Polyfill TextDecoder/TextEncoder for Jest environment
 if (typeof global.TextDecoder === 'undefined') {
   const { TextDecoder, TextEncoder } = require('util')
@@ -24,3 +37,19 @@ if (typeof window !== 'undefined') {
     window.URL.revokeObjectURL = jest.fn()
   }
 }
+
+// Shared API route test fixtures (typed in jest.setup.d.ts)
+global.VALID_USER_ID = 'user_test123'
+global.VALID_UPLOAD_ID = 'upload_1700000000000_abc123def'
+
+// processing_status row as returned by the mocked Turso client
+global.statusRow = (status, metadata = null) => ({
+  rows: [{ status, metadata: metadata ? JSON.stringify(metadata) : null }],
+})
+
+// Production mode with a Worker to forward to
+global.setWorkerEnv = () => {
+  process.env.NODE_ENV = 'production'
+  process.env.CLOUD_RUN_URL = 'https://worker.example.com'
+  process.env.WORKER_SECRET = 'secret'
+}
@@ -0,0 +1,160 @@
+/**
+ * API key authentication for the public REST API
+ *
+ * Keys are created in the app (/api/api-keys) and sent as
+ * `Authorization: Bearer vak_...`. Only a SHA-256 hash is stored (api_keys).
+ * Each key is rate limited in fixed one-minute windows (api_key_rate_limits,
+ * API_KEY_RATE_LIMIT_PER_MINUTE, default 60).
+ *
+ * Routes of the public surface accept a key when there is no Clerk session;
+ * everything else (including key management) stays session-only.
+ * Spec: /api/openapi (lib/openapi.ts)
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { createClient } from "@libsql/client";
+import { NextResponse } from "next/server";
+
+export const API_KEY_PREFIX = "vak_";
+export const MAX_ACTIVE_API_KEYS = 10;
+
+/** Error message thrown by getTursoClient({ allowApiKey: true }) when a key is over its limit */
+export const RATE_LIMIT_EXCEEDED = "Rate limit exceeded";
+
+const RATE_LIMIT_WINDOW_SEC = 60;
+const DEFAULT_RATE_LIMIT_PER_MINUTE = 60;
+
+/** Row of the key list (the key itself is only returned when created) */
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+export type ApiKeyAuthResult =
+  | { ok: true; userId: string; keyId: string }
+  | { ok: false; status: 401; error: string }
+  | { ok: false; status: 429; error: string; limit: number; retryAfterSec: number };
+
+/**
+ * Generate a new key
+ * @returns The key (shown once), its display prefix and the hash to store
+ */
+export function generateApiKey(): { key: string; keyPrefix: string; keyHash: string } {
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString("hex")}`;
+  return { key, keyPrefix: key.slice(0, 12), keyHash: hashApiKey(key) };
+}
+
+/**
+ * SHA-256 hex of a key (keys are random, so no salt or slow hash is needed)
+ */
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Extract an API key from an Authorization header
+ * @returns The key, or null when the header carries no key (e.g. a Clerk JWT)
+ */
+export function getApiKeyFromHeader(authorization: string | null): string | null {
+  if (!authorization?.startsWith("Bearer ")) return null;
+  const token = authorization.substring(7).trim();
+  return token.startsWith(API_KEY_PREFIX) ? token : null;
+}
+
+export function getRateLimitPerMinute(): number {
+  const parsed = parseInt(process.env.API_KEY_RATE_LIMIT_PER_MINUTE || "", 10);
+  return Number.isNaN(parsed) || parsed <= 0 ? DEFAULT_RATE_LIMIT_PER_MINUTE : parsed;
+}
+
+/**
+ * Authenticate a request by API key and count it against the key's rate limit
+ * @param authorization - Authorization header of the request
+ * @returns null when no API key was presented, otherwise the user or a 401 / 429 result
+ */
+export async function authenticateApiKey(authorization: string | null): Promise<ApiKeyAuthResult | null> {
+  const key = getApiKeyFromHeader(authorization);
+  if (!key) return null;
+
+  const client = createClient({
+    url: process.env.TURSO_DATABASE_URL!,
+    authToken: process.env.TURSO_AUTH_TOKEN!,
+  });
+
+  const result = await client.execute({
+    sql: "SELECT id, user_id FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL",
+    args: [hashApiKey(key)],
+  });
+
+  if (result.rows.length === 0) {
+    return { ok: false, status: 401, error: "Invalid or revoked API key" };
+  }
+
+  const keyId = result.rows[0].id as string;
+  const userId = result.rows[0].user_id as string;
+
+  const nowSec = Math.floor(Date.now() / 1000);
+  const windowStart = nowSec - (nowSec % RATE_LIMIT_WINDOW_SEC);
+  const limit = getRateLimitPerMinute();
+
+  const counter = await client.execute({
+    sql: `INSERT INTO api_key_rate_limits (key_id, window_start, request_count)
+          VALUES (?, ?, 1)
+          ON CONFLICT(key_id, window_start) DO UPDATE SET request_count = request_count + 1
+          RETURNING request_count`,
+    args: [keyId, windowStart],
+  });
+  const requestCount = Number(counter.rows[0]?.request_count ?? 1);
+
+  if (requestCount === 1) {
+    // First request of the window: drop old counters and record usage (minute precision is enough)
+    await client.batch([
+      { sql: "DELETE FROM api_key_rate_limits WHERE key_id = ? AND window_start < ?", args: [keyId, windowStart] },
+      { sql: "UPDATE api_keys SET last_used_at = ? WHERE id = ?", args: [new Date().toISOString(), keyId] },
+    ]).catch((error) => console.warn(`[API key ${keyId}] Failed to record usage:`, error));
+  }
+
+  if (requestCount > limit) {
+    return {
+      ok: false,
+      status: 429,
+      error: RATE_LIMIT_EXCEEDED,
+      limit,
+      retryAfterSec: windowStart + RATE_LIMIT_WINDOW_SEC - nowSec,
+    };
+  }
+
+  return { ok: true, userId, keyId };
+}
+
+/**
+ * Response for a failed API key authentication
+ */
+export function apiKeyErrorResponse(result: Extract<ApiKeyAuthResult, { ok: false }>): NextResponse {
+  if (result.status === 429) {
+    return rateLimitResponse(result.limit, result.retryAfterSec);
+  }
+  return NextResponse.json({ error: "Unauthorized", message: result.error }, { status: 401 });
+}
+
+/**
+ * 429 response with Retry-After (seconds until the current window ends when not given)
+ */
+export function rateLimitResponse(
+  limit = getRateLimitPerMinute(),
+  retryAfterSec = RATE_LIMIT_WINDOW_SEC - (Math.floor(Date.now() / 1000) % RATE_LIMIT_WINDOW_SEC)
+): NextResponse {
+  return NextResponse.json(
+    { error: RATE_LIMIT_EXCEEDED, message: `API keys are limited to ${limit} requests per minute` },
+    {
+      status: 429,
+      headers: {
+        "Retry-After": String(retryAfterSec),
+        "X-RateLimit-Limit": String(limit),
+      },
+    }
+  );
+}
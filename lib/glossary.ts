@@ -0,0 +1,106 @@
+/**
+ * Per-account custom glossary
+ *
+ * Preferred spellings of product and staff names, with the aliases they are
+ * commonly mis-transcribed as and an optional reading. Stored in
+ * glossary_entries (lib/turso-migrations/013_create_glossary_entries.sql) and
+ * managed through /api/glossary; the Worker applies it to Whisper, OCR and LLM
+ * cleansing (cloud-run-worker/src/services/glossary.ts).
+ */
+
+export const MAX_GLOSSARY_ENTRIES = 200;
+export const MAX_GLOSSARY_TERM_LENGTH = 100;
+export const MAX_GLOSSARY_ALIASES = 10;
+
+/**
+ * One glossary entry
+ */
+export interface GlossaryEntry {
+  /** Preferred spelling */
+  term: string;
+  /** Misspellings replaced by `term` after OCR */
+  aliases: string[];
+  /** Reading (e.g. katakana), helps LLM cleansing match narration */
+  reading: string | null;
+}
+
+export type GlossaryValidationResult =
+  | { valid: true; entries: GlossaryEntry[] }
+  | { valid: false; error: string };
+
+function normalizeText(value: unknown): string {
+  return typeof value === "string" ? value.replace(/\s+/g, " ").trim() : "";
+}
+
+/**
+ * Validate the `entries` of a PUT /api/glossary body
+ *
+ * Text is trimmed; duplicate aliases and aliases equal to the term are dropped.
+ * @returns Normalized entries, or an error message for a 400 response
+ */
+export function validateGlossary(raw: unknown): GlossaryValidationResult {
+  if (!Array.isArray(raw)) {
+    return { valid: false, error: "entries must be an array" };
+  }
+  if (raw.length > MAX_GLOSSARY_ENTRIES) {
+    return { valid: false, error: `At most ${MAX_GLOSSARY_ENTRIES} glossary entries are allowed` };
+  }
+
+  const entries: GlossaryEntry[] = [];
+  const terms = new Set<string>();
+  const aliasOwners = new Map<string, string>();
+
+  for (let i = 0; i < raw.length; i++) {
+    const item = raw[i] as { term?: unknown; aliases?: unknown; reading?: unknown } | null;
+    const term = normalizeText(item?.term);
+    const label = `entries[${i}]`;
+
+    if (term === "") {
+      return { valid: false, error: `${label}.term is required` };
+    }
+    if (term.length > MAX_GLOSSARY_TERM_LENGTH) {
+      return { valid: false, error: `${label}.term must be at most ${MAX_GLOSSARY_TERM_LENGTH} characters` };
+    }
+    if (terms.has(term)) {
+      return { valid: false, error: `Duplicate term: ${term}` };
+    }
+    terms.add(term);
+
+    if (item?.aliases !== undefined && !Array.isArray(item.aliases)) {
+      return { valid: false, error: `${label}.aliases must be an array` };
+    }
+    const aliases = Array.from(
+      new Set(((item?.aliases as unknown[] | undefined) ?? []).map(normalizeText).filter((alias) => alias !== "" && alias !== term))
+    );
+    if (aliases.length > MAX_GLOSSARY_ALIASES) {
+      return { valid: false, error: `${label} has more than ${MAX_GLOSSARY_ALIASES} aliases` };
+    }
+    for (const alias of aliases) {
+      if (alias.length > MAX_GLOSSARY_TERM_LENGTH) {
+        return { valid: false, error: `${label} alias must be at most ${MAX_GLOSSARY_TERM_LENGTH} characters` };
+      }
+      // An alias maps to exactly one term, otherwise the substitution is ambiguous
+      const owner = aliasOwners.get(alias);
+      if (owner !== undefined && owner !== term) {
+        return { valid: false, error: `Alias "${alias}" is used by both "${owner}" and "${term}"` };
+      }
+      aliasOwners.set(alias, term);
+    }
+
+    const reading = normalizeText(item?.reading);
+    if (reading.length > MAX_GLOSSARY_TERM_LENGTH) {
+      return { valid: false, error: `${label}.reading must be at most ${MAX_GLOSSARY_TERM_LENGTH} characters` };
+    }
+
+    entries.push({ term, aliases, reading: reading || null });
+  }
+
+  // A term may not be another term's alias (it would be rewritten away)
+  for (const [alias, owner] of aliasOwners) {
+    if (terms.has(alias)) {
+      return { valid: false, error: `"${alias}" is both a term and an alias of "${owner}"` };
+    }
+  }
+
+  return { valid: true, entries };
+}
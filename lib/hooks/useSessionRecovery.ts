@@ -13,8 +13,12 @@ import { useAuth, useClerk } from "@clerk/nextjs";
  *
  * Automatically refreshes Clerk session token when needed.
  * Includes exponential backoff retry for 429 (rate limit) errors.
+ * Dispatches SESSION_RECOVERED_EVENT on window once a recovery attempt finishes
+ * so interrupted work (e.g. the upload queue) can resume with a fresh token.
  */
 
+export const SESSION_RECOVERED_EVENT = "session-recovered";
+
 const MAX_RETRY_ATTEMPTS = 3;
 const BASE_RETRY_DELAY_MS = 1000;
 
@@ -99,6 +103,7 @@ export function useSessionRecovery() {
     } finally {
       lastActiveTime.current = Date.now();
       isRecovering.current = false;
+      window.dispatchEvent(new Event(SESSION_RECOVERED_EVENT));
     }
   }, [isSignedIn, getToken, session]);
 
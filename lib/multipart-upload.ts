@@ -0,0 +1,242 @@
+/**
+ * Browser-side uploads to R2
+ *
+ * Small files go up with a single presigned PUT; larger ones (MULTIPART_THRESHOLD)
+ * use the /api/r2/multipart routes: parts are uploaded in parallel, failed parts
+ * are retried, and an interrupted upload resumes from the parts R2 already holds.
+ *
+ * Reading part ETags requires the bucket's CORS policy to expose the ETag header.
+ */
+
+import { getPartCount, getPartRange, MAX_PART_URLS_PER_REQUEST } from "@/lib/video-upload";
+
+/** Parts uploaded at the same time */
+const PART_CONCURRENCY = 4;
+const MAX_PART_ATTEMPTS = 4;
+const PART_RETRY_BASE_DELAY_MS = 1000;
+
+/** Thrown when R2 no longer knows the multipart upload (aborted or expired) */
+export const MULTIPART_UPLOAD_NOT_FOUND = "Multipart upload not found";
+
+export interface MultipartUploadState {
+  uploadId: string;
+  r2Key: string;
+  multipartUploadId: string;
+  partSize: number;
+}
+
+async function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function jsonOrThrow<T>(response: Response, fallbackError: string): Promise<T> {
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || fallbackError);
+  }
+  return data as T;
+}
+
+/**
+ * PUT a blob to a presigned URL, reporting upload progress in bytes
+ * @returns The ETag response header (null when CORS does not expose it)
+ */
+export function putBlob(
+  url: string,
+  blob: Blob,
+  options: { contentType?: string; signal: AbortSignal; onProgress?: (loaded: number) => void }
+): Promise<string | null> {
+  return new Promise<string | null>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+
+    xhr.upload.addEventListener("progress", (e) => {
+      if (e.lengthComputable) options.onProgress?.(e.loaded);
+    });
+    xhr.addEventListener("load", () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(xhr.getResponseHeader("ETag"));
+      } else {
+        reject(new Error(`Upload failed with status ${xhr.status}`));
+      }
+    });
+    xhr.addEventListener("error", () => reject(new Error("Network error during upload")));
+    xhr.addEventListener("abort", () => reject(new DOMException("Upload aborted", "AbortError")));
+
+    if (options.signal.aborted) {
+      reject(new DOMException("Upload aborted", "AbortError"));
+      return;
+    }
+    options.signal.addEventListener("abort", () => xhr.abort());
+
+    xhr.open("PUT", url);
+    if (options.contentType) xhr.setRequestHeader("Content-Type", options.contentType);
+    xhr.send(blob);
+  });
+}
+
+/**
+ * Start a multipart upload for a file
+ */
+export async function startMultipartUpload(file: File, signal: AbortSignal): Promise<MultipartUploadState> {
+  const response = await fetch("/api/r2/multipart", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ fileName: file.name, contentType: file.type || "video/mp4", fileSize: file.size }),
+    signal,
+  });
+  return jsonOrThrow<MultipartUploadState>(response, "Failed to start upload");
+}
+
+/**
+ * Abort a multipart upload (best effort, e.g. when the file is removed from the queue)
+ */
+export async function abortMultipartUpload(state: Pick<MultipartUploadState, "r2Key" | "multipartUploadId">): Promise<void> {
+  await fetch("/api/r2/multipart", {
+    method: "DELETE",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ r2Key: state.r2Key, multipartUploadId: state.multipartUploadId }),
+  }).catch(() => undefined);
+}
+
+/**
+ * Upload the parts R2 does not have yet, then complete the upload
+ *
+ * @param onProgress - Uploaded bytes of the whole file, including parts stored earlier
+ */
+export async function uploadFileInParts(
+  file: File,
+  state: MultipartUploadState,
+  options: { signal: AbortSignal; onProgress: (uploadedBytes: number) => void }
+): Promise<void> {
+  const { r2Key, multipartUploadId, partSize } = state;
+
+  // A part that fails for good stops the other workers as well
+  const partsController = new AbortController();
+  options.signal.addEventListener("abort", () => partsController.abort());
+  const signal = partsController.signal;
+
+  // Resume: skip the parts R2 already holds
+  const query = new URLSearchParams({ r2Key, multipartUploadId });
+  const listResponse = await fetch(`/api/r2/multipart/parts?${query}`, { signal });
+  if (listResponse.status === 404) {
+    throw new Error(MULTIPART_UPLOAD_NOT_FOUND);
+  }
+  const { parts: storedParts } = await jsonOrThrow<{ parts: { partNumber: number; etag: string; size: number }[] }>(
+    listResponse,
+    "Failed to list uploaded parts"
+  );
+
+  const etags = new Map<number, string>();
+  const expectedSize = (partNumber: number) => {
+    const { start, end } = getPartRange(partNumber, file.size, partSize);
+    return end - start;
+  };
+  for (const part of storedParts) {
+    if (part.size === expectedSize(part.partNumber)) etags.set(part.partNumber, part.etag);
+  }
+
+  const partCount = getPartCount(file.size, partSize);
+  const missing: number[] = [];
+  for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+    if (!etags.has(partNumber)) missing.push(partNumber);
+  }
+
+  let completedBytes = [...etags.keys()].reduce((sum, partNumber) => sum + expectedSize(partNumber), 0);
+  const inFlightBytes = new Map<number, number>();
+  const reportProgress = () => {
+    let inFlight = 0;
+    inFlightBytes.forEach((bytes) => (inFlight += bytes));
+    options.onProgress(completedBytes + inFlight);
+  };
+  reportProgress();
+
+  // Part URLs are presigned in batches, just ahead of the uploads
+  const urls = new Map<number, string>();
+  const pendingUrls = new Map<number, Promise<void>>();
+  const presign = (partNumbers: number[]): Promise<void> => {
+    const request = (async () => {
+      const response = await fetch("/api/r2/multipart/parts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ r2Key, multipartUploadId, partNumbers }),
+        signal,
+      });
+      const { urls: presigned } = await jsonOrThrow<{ urls: { partNumber: number; url: string }[] }>(
+        response,
+        "Failed to get part upload URLs"
+      );
+      presigned.forEach(({ partNumber, url }) => urls.set(partNumber, url));
+    })().finally(() => partNumbers.forEach((n) => pendingUrls.delete(n)));
+
+    partNumbers.forEach((n) => pendingUrls.set(n, request));
+    return request;
+  };
+
+  const uploadPart = async (partNumber: number) => {
+    const { start, end } = getPartRange(partNumber, file.size, partSize);
+    const blob = file.slice(start, end);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        if (!urls.has(partNumber)) {
+          const index = missing.indexOf(partNumber);
+          const batch = missing
+            .slice(index, index + MAX_PART_URLS_PER_REQUEST)
+            .filter((n) => n === partNumber || (!etags.has(n) && !urls.has(n) && !pendingUrls.has(n)));
+          await (pendingUrls.get(partNumber) ?? presign(batch));
+        }
+        const etag = await putBlob(urls.get(partNumber)!, blob, {
+          signal,
+          onProgress: (loaded) => {
+            inFlightBytes.set(partNumber, loaded);
+            reportProgress();
+          },
+        });
+        if (!etag) {
+          throw new Error("ETag header is not exposed by the R2 CORS policy");
+        }
+
+        etags.set(partNumber, etag);
+        inFlightBytes.delete(partNumber);
+        completedBytes += blob.size;
+        reportProgress();
+        return;
+      } catch (error) {
+        inFlightBytes.delete(partNumber);
+        if (signal.aborted || attempt >= MAX_PART_ATTEMPTS) throw error;
+
+        // Expired or rejected URL: presign again on the next attempt
+        urls.delete(partNumber);
+        const delay = PART_RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1);
+        console.warn(`[Upload] Part ${partNumber} failed (attempt ${attempt}/${MAX_PART_ATTEMPTS}), retrying in ${delay}ms`);
+        await sleep(delay);
+      }
+    }
+  };
+
+  // Worker pool: PART_CONCURRENCY parts in flight
+  const queue = [...missing];
+  const workers = Array.from({ length: Math.min(PART_CONCURRENCY, queue.length) }, async () => {
+    while (queue.length > 0) {
+      await uploadPart(queue.shift()!);
+    }
+  });
+  try {
+    await Promise.all(workers);
+  } catch (error) {
+    partsController.abort();
+    throw error;
+  }
+
+  const completeResponse = await fetch("/api/r2/multipart/complete", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      r2Key,
+      multipartUploadId,
+      parts: [...etags.entries()].map(([partNumber, etag]) => ({ partNumber, etag })),
+    }),
+    signal,
+  });
+  await jsonOrThrow(completeResponse, "Failed to complete upload");
+}
@@ -0,0 +1,603 @@
+/**
+ * OpenAPI 3.1 description of the public REST API (served at GET /api/openapi)
+ *
+ * Covers the routes that accept API keys (lib/api-keys.ts). Keep in sync with
+ * the route handlers when their request or response shapes change.
+ */
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+});
+
+const uploadIdParameter = {
+  name: "uploadId",
+  in: "path",
+  required: true,
+  schema: { type: "string", example: "upload_1700000000000_abc123def456" },
+};
+
+const commonErrors = {
+  "401": errorResponse("Missing, invalid or revoked API key"),
+  "429": {
+    ...errorResponse("Rate limit exceeded for this API key"),
+    headers: {
+      "Retry-After": { description: "Seconds until the current window ends", schema: { type: "integer" } },
+      "X-RateLimit-Limit": { description: "Requests allowed per minute", schema: { type: "integer" } },
+    },
+  },
+};
+
+export const openApiSpec = {
+  openapi: "3.1.0",
+  info: {
+    title: "Video Analyzer API",
+    version: "1.0.0",
+    description:
+      "Upload videos, start processing, follow progress and download results programmatically. " +
+      "Create an API key in the app and send it as `Authorization: Bearer vak_...`. " +
+      "Each key is limited to API_KEY_RATE_LIMIT_PER_MINUTE requests per minute (default 60).\n\n" +
+      "Flow: request an upload URL → PUT the video to it → start processing → poll status " +
+      "(or subscribe to the stream) → download the result.",
+  },
+  security: [{ apiKey: [] }],
+  paths: {
+    "/api/r2/upload-url": {
+      post: {
+        summary: "Get a presigned upload URL",
+        description: "PUT the video file to `uploadUrl` with the same Content-Type within `expiresIn` seconds.",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["fileName", "contentType"],
+                properties: {
+                  fileName: { type: "string", example: "demo.mp4" },
+                  contentType: {
+                    type: "string",
+                    enum: ["video/mp4", "video/quicktime", "video/x-msvideo", "video/x-matroska", "video/webm"],
+                  },
+                  fileSize: { type: "integer", description: "Bytes (at most 2 GB)" },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Upload URL created",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    uploadUrl: { type: "string", format: "uri" },
+                    uploadId: { type: "string" },
+                    r2Key: { type: "string" },
+                    expiresIn: { type: "integer", example: 900 },
+                  },
+                },
+              },
+            },
+          },
+          "400": errorResponse("Invalid file name, type or size"),
+          ...commonErrors,
+        },
+      },
+    },
+    "/api/r2/multipart": {
+      post: {
+        summary: "Start a multipart upload (large files)",
+        description:
+          "Upload the file in `partSize` byte parts (see /api/r2/multipart/parts), then call " +
+          "/api/r2/multipart/complete. Stored parts survive interruptions, so an upload can be resumed.",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["fileName", "contentType", "fileSize"],
+                properties: {
+                  fileName: { type: "string" },
+                  contentType: { type: "string" },
+                  fileSize: { type: "integer", description: "Bytes (at most 2 GB)" },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Multipart upload started",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    uploadId: { type: "string" },
+                    r2Key: { type: "string" },
+                    multipartUploadId: { type: "string" },
+                    partSize: { type: "integer" },
+                    partCount: { type: "integer" },
+                  },
+                },
+              },
+            },
+          },
+          "400": errorResponse("Invalid file name, type or size"),
+          ...commonErrors,
+        },
+      },
+      delete: {
+        summary: "Abort a multipart upload",
+        requestBody: { required: true, content: { "application/json": { schema: { $ref: "#/components/schemas/MultipartUpload" } } } },
+        responses: {
+          "200": { description: "Aborted" },
+          "403": errorResponse("The r2Key does not belong to this user"),
+          ...commonErrors,
+        },
+      },
+    },
+    "/api/r2/multipart/parts": {
+      get: {
+        summary: "List the parts already uploaded",
+        parameters: [
+          { name: "r2Key", in: "query", required: true, schema: { type: "string" } },
+          { name: "multipartUploadId", in: "query", required: true, schema: { type: "string" } },
+        ],
+        responses: {
+          "200": {
+            description: "Stored parts",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    parts: {
+                      type: "array",
+                      items: {
+                        type: "object",
+                        properties: { partNumber: { type: "integer" }, etag: { type: "string" }, size: { type: "integer" } },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          "403": errorResponse("The r2Key does not belong to this user"),
+          "404": errorResponse("Multipart upload not found (completed, aborted or expired)"),
+          ...commonErrors,
+        },
+      },
+      post: {
+        summary: "Presign part upload URLs",
+        description: "PUT each part to its URL and keep the returned ETag header. At most 50 parts per request.",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                allOf: [
+                  { $ref: "#/components/schemas/MultipartUpload" },
+                  {
+                    type: "object",
+                    required: ["partNumbers"],
+                    properties: { partNumbers: { type: "array", items: { type: "integer", minimum: 1 } } },
+                  },
+                ],
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Presigned URLs (valid for one hour)",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    urls: {
+                      type: "array",
+                      items: { type: "object", properties: { partNumber: { type: "integer" }, url: { type: "string", format: "uri" } } },
+                    },
+                    expiresIn: { type: "integer", example: 3600 },
+                  },
+                },
+              },
+            },
+          },
+          "400": errorResponse("Invalid part numbers"),
+          "403": errorResponse("The r2Key does not belong to this user"),
+          ...commonErrors,
+        },
+      },
+    },
+    "/api/r2/multipart/complete": {
+      post: {
+        summary: "Complete a multipart upload",
+        description: "Then start processing with /api/process using the same uploadId and r2Key.",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                allOf: [
+                  { $ref: "#/components/schemas/MultipartUpload" },
+                  {
+                    type: "object",
+                    required: ["parts"],
+                    properties: {
+                      parts: {
+                        type: "array",
+                        items: { type: "object", properties: { partNumber: { type: "integer" }, etag: { type: "string" } } },
+                      },
+                    },
+                  },
+                ],
+              },
+            },
+          },
+        },
+        responses: {
+          "200": { description: "Upload assembled" },
+          "400": errorResponse("Missing or invalid parts"),
+          "403": errorResponse("The r2Key does not belong to this user"),
+          ...commonErrors,
+        },
+      },
+    },
+    "/api/process": {
+      post: {
+        summary: "Start processing an uploaded video (or import one from a URL)",
+        description:
+          "Send `uploadId` and `r2Key` of an upload, or `sourceUrl` instead to have the video downloaded " +
+          "from an http(s) URL (e.g. a presigned S3 URL). Imports are checked for size and content type " +
+          "before processing; a new `uploadId` is returned.",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  uploadId: { type: "string", description: "Required unless sourceUrl is given" },
+                  r2Key: { type: "string", description: "As returned by /api/r2/upload-url (required unless sourceUrl is given)" },
+                  sourceUrl: { type: "string", format: "uri", description: "Import the video from this URL (at most 2 GB)" },
+                  fileName: { type: "string", description: "Defaults to the last path segment of sourceUrl for imports" },
+                  dataConsent: { type: "boolean", default: false },
+                  options: { $ref: "#/components/schemas/ProcessingOptions" },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Queued for processing",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    success: { type: "boolean" },
+                    uploadId: { type: "string" },
+                    status: { type: "string", enum: ["queued"] },
+                    message: { type: "string" },
+                    region: { type: "string" },
+                  },
+                },
+              },
+            },
+          },
+          "400": errorResponse("Invalid request body, options or sourceUrl"),
+          "403": errorResponse("The r2Key does not belong to this user"),
+          ...commonErrors,
+        },
+      },
+    },
+    "/api/status/{uploadId}": {
+      get: {
+        summary: "Get processing status",
+        parameters: [uploadIdParameter],
+        responses: {
+          "200": {
+            description: "Current status",
+            content: { "application/json": { schema: { $ref: "#/components/schemas/Status" } } },
+          },
+          "404": errorResponse("Upload not found"),
+          ...commonErrors,
+        },
+      },
+    },
+    "/api/status/{uploadId}/stream": {
+      get: {
+        summary: "Stream processing status (Server-Sent Events)",
+        description:
+          "`status` events carry a full Status snapshot on every change, `warning` events carry `{ message }`. " +
+          "The stream ends after completed, error or cancelled. Counts as one request against the rate limit.",
+        parameters: [uploadIdParameter],
+        responses: {
+          "200": { description: "Event stream", content: { "text/event-stream": { schema: { type: "string" } } } },
+          "404": errorResponse("Upload not found"),
+          ...commonErrors,
+        },
+      },
+    },
+    "/api/download/{uploadId}": {
+      get: {
+        summary: "Download the result",
+        description: "Returns a presigned URL valid for one hour.",
+        parameters: [
+          uploadIdParameter,
+          {
+            name: "format",
+            in: "query",
+            schema: { type: "string", enum: ["xlsx", "srt", "vtt", "edl", "fcpxml", "json", "txt"], default: "xlsx" },
+            description: "txt is the YouTube-style chapter list (one \"00:00 Title\" line per topic)",
+          },
+        ],
+        responses: {
+          "200": {
+            description: "Presigned download URL",
+            content: {
+              "application/json": {
+                schema: { type: "object", properties: { downloadUrl: { type: "string", format: "uri" } } },
+              },
+            },
+          },
+          "400": errorResponse("Unsupported format"),
+          "404": errorResponse("Upload or result file not found"),
+          ...commonErrors,
+        },
+      },
+    },
+    "/api/search": {
+      get: {
+        summary: "Search scenes across all processed videos",
+        description:
+          "Full-text search over per-scene OCR and narration text of your completed uploads. " +
+          "All words must match; results are ordered by relevance, then newest upload.",
+        parameters: [
+          { name: "q", in: "query", required: true, schema: { type: "string", maxLength: 200 } },
+          { name: "page", in: "query", schema: { type: "integer", minimum: 1, maximum: 50, default: 1 } },
+        ],
+        responses: {
+          "200": {
+            description: "Matching scenes (20 per page)",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    query: { type: "string" },
+                    results: { type: "array", items: { $ref: "#/components/schemas/SearchHit" } },
+                    pagination: {
+                      type: "object",
+                      properties: { page: { type: "integer" }, pageSize: { type: "integer" }, hasMore: { type: "boolean" } },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          "400": errorResponse("Missing or too long query, or invalid page"),
+          ...commonErrors,
+        },
+      },
+    },
+    "/api/search/semantic": {
+      get: {
+        summary: "Semantic scene search",
+        description:
+          "Finds the scenes closest in meaning to the query (combined OCR and narration text), " +
+          "across your completed uploads or within one upload. Results are ordered by score, closest first.",
+        parameters: [
+          { name: "q", in: "query", required: true, schema: { type: "string", maxLength: 500 } },
+          { name: "uploadId", in: "query", schema: { type: "string" } },
+          { name: "limit", in: "query", schema: { type: "integer", minimum: 1, maximum: 50, default: 10 } },
+        ],
+        responses: {
+          "200": {
+            description: "Closest scenes",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    query: { type: "string" },
+                    results: { type: "array", items: { $ref: "#/components/schemas/SemanticSearchHit" } },
+                  },
+                },
+              },
+            },
+          },
+          "400": errorResponse("Missing or too long query, or invalid limit"),
+          "502": errorResponse("Worker request failed"),
+          ...commonErrors,
+        },
+      },
+    },
+    "/api/uploads/{uploadId}/result": {
+      get: {
+        summary: "Get the structured result",
+        description:
+          "Versioned JSON result document (video info, stats, topic groups) of a completed upload, " +
+          "with its scenes paginated.",
+        parameters: [
+          uploadIdParameter,
+          { name: "page", in: "query", schema: { type: "integer", minimum: 1, default: 1 } },
+          { name: "pageSize", in: "query", schema: { type: "integer", minimum: 1, maximum: 200, default: 50 } },
+        ],
+        responses: {
+          "200": {
+            description: "Result document with one page of scenes and a pagination object",
+            content: { "application/json": { schema: { type: "object" } } },
+          },
+          "400": errorResponse("Invalid page or pageSize"),
+          "404": errorResponse("Upload or result not found"),
+          "409": errorResponse("Upload is not completed"),
+          ...commonErrors,
+        },
+      },
+    },
+    "/api/uploads/{uploadId}/ask": {
+      post: {
+        summary: "Ask a question about a processed video",
+        description: "Answers from the upload's most relevant scenes only, citing their scene numbers and timecodes.",
+        parameters: [uploadIdParameter],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["question"],
+                properties: { question: { type: "string", maxLength: 500 } },
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Answer with cited scenes",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    uploadId: { type: "string" },
+                    answer: { type: "string" },
+                    citations: {
+                      type: "array",
+                      items: {
+                        type: "object",
+                        properties: {
+                          sceneNumber: { type: "integer" },
+                          startTime: { type: "number", description: "Seconds" },
+                          timecode: { type: "string" },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          "400": errorResponse("Missing or too long question"),
+          "404": errorResponse("Upload not found or has no indexed scenes"),
+          "409": errorResponse("Upload is not completed"),
+          "502": errorResponse("Worker request failed"),
+          ...commonErrors,
+        },
+      },
+    },
+    "/api/uploads/{uploadId}": {
+      delete: {
+        summary: "Delete an upload and its result files",
+        parameters: [uploadIdParameter],
+        responses: {
+          "200": {
+            description: "Deleted",
+            content: { "application/json": { schema: { type: "object", properties: { success: { type: "boolean" } } } } },
+          },
+          "404": errorResponse("Upload not found"),
+          ...commonErrors,
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      apiKey: { type: "http", scheme: "bearer", description: "API key (vak_...) created in the app" },
+    },
+    schemas: {
+      Error: {
+        type: "object",
+        properties: { error: { type: "string" }, message: { type: "string" } },
+        required: ["error"],
+      },
+      MultipartUpload: {
+        type: "object",
+        required: ["r2Key", "multipartUploadId"],
+        properties: { r2Key: { type: "string" }, multipartUploadId: { type: "string" } },
+      },
+      SearchHit: {
+        type: "object",
+        properties: {
+          uploadId: { type: "string" },
+          fileName: { type: "string" },
+          sceneNumber: { type: "integer" },
+          startTime: { type: "number", description: "Seconds" },
+          timecode: { type: "string" },
+          thumbnailUrl: { type: ["string", "null"], description: "Scene screenshot (redirects to a presigned URL)" },
+          field: { type: "string", enum: ["ocr", "narration"] },
+          snippet: {
+            type: "array",
+            description: "Text around the match; highlight marks matching words",
+            items: { type: "object", properties: { text: { type: "string" }, highlight: { type: "boolean" } } },
+          },
+        },
+      },
+      SemanticSearchHit: {
+        type: "object",
+        properties: {
+          uploadId: { type: "string" },
+          fileName: { type: "string" },
+          sceneNumber: { type: "integer" },
+          startTime: { type: "number", description: "Seconds" },
+          timecode: { type: "string" },
+          text: { type: "string", description: "Combined OCR and narration text of the scene" },
+          score: { type: "number", description: "Cosine similarity to the query (higher is closer)" },
+        },
+      },
+      ProcessingOptions: {
+        type: "object",
+        properties: {
+          timecodeStyle: { type: "string", enum: ["hms", "smpte"] },
+          language: { type: "string", enum: ["auto", "ja", "en", "ko", "zh", "es", "fr", "de"], default: "ja" },
+          speakerDiarization: { type: "boolean", default: false },
+          translationLanguages: {
+            type: "array",
+            items: { type: "string", enum: ["ja", "en", "ko", "zh", "es", "fr", "de"] },
+            maxItems: 3,
+            description: "Translate on-screen text and narration into these languages (extra Excel columns and JSON result fields)",
+          },
+          topicGrouping: {
+            type: "string",
+            enum: ["ocr", "semantic"],
+            default: "ocr",
+            description: "Group scenes into topics by on-screen text similarity, or by the meaning of on-screen text and narration",
+          },
+        },
+      },
+      Status: {
+        type: "object",
+        properties: {
+          uploadId: { type: "string" },
+          status: {
+            type: "string",
+            enum: ["queued", "resuming", "pending", "downloading", "processing", "completed", "error", "cancelled"],
+          },
+          progress: { type: "integer", minimum: 0, maximum: 100 },
+          stage: { type: ["string", "null"] },
+          phase: { type: "integer", enum: [1, 2, 3] },
+          phaseProgress: { type: "integer" },
+          phaseStatus: { type: "string" },
+          subTask: { type: "string" },
+          estimatedTimeRemaining: { type: "string" },
+          queuePosition: { type: ["integer", "null"] },
+          startedAt: { type: "string" },
+          updatedAt: { type: "string" },
+          resultUrl: { type: ["string", "null"] },
+          error: { type: ["string", "null"] },
+          metadata: { type: ["object", "null"], description: "Counts (duration, totalScenes, ...) and warnings" },
+        },
+      },
+    },
+  },
+} as const;
@@ -0,0 +1,165 @@
+/**
+ * Per-upload processing options validation
+ *
+ * Options are chosen in VideoUploader, validated here by /api/process,
+ * and forwarded to the Worker's /process body as `options`.
+ */
+
+import type {
+  ProcessingOptions,
+  TimecodeStyle,
+  TopicGroupingStrategy,
+  TranscriptionLanguage,
+  TranslationLanguage,
+} from "@/types/shared";
+
+export const TIMECODE_STYLES: readonly TimecodeStyle[] = ["hms", "smpte"];
+
+export const TRANSCRIPTION_LANGUAGES: readonly TranscriptionLanguage[] = [
+  "auto",
+  "ja",
+  "en",
+  "ko",
+  "zh",
+  "es",
+  "fr",
+  "de",
+];
+
+/** Labels for the upload form's language select */
+export const TRANSCRIPTION_LANGUAGE_LABELS: Record<TranscriptionLanguage, string> = {
+  auto: "Auto-detect",
+  ja: "Japanese",
+  en: "English",
+  ko: "Korean",
+  zh: "Chinese",
+  es: "Spanish",
+  fr: "French",
+  de: "German",
+};
+
+export const TRANSLATION_LANGUAGES: readonly TranslationLanguage[] = ["ja", "en", "ko", "zh", "es", "fr", "de"];
+
+/** Most target languages per upload (each adds LLM requests and two Excel columns) */
+export const MAX_TRANSLATION_LANGUAGES = 3;
+
+export const TOPIC_GROUPING_STRATEGIES: readonly TopicGroupingStrategy[] = ["ocr", "semantic"];
+
+/** Labels for the upload form's topic grouping select */
+export const TOPIC_GROUPING_LABELS: Record<TopicGroupingStrategy, string> = {
+  ocr: "On-screen text",
+  semantic: "Meaning (text + narration)",
+};
+
+/** Allowed range of the semantic grouping duration limits (seconds) */
+export const TOPIC_GROUP_DURATION_RANGE = { min: 0, max: 3600 } as const;
+
+export type ProcessingOptionsResult =
+  | { valid: true; options: ProcessingOptions }
+  | { valid: false; error: string };
+
+/**
+ * Validate processing options from a request body
+ * @param raw - `options` field from the request body (optional)
+ * @returns Validated options, or an error message for a 400 response
+ */
+export function validateProcessingOptions(raw: unknown): ProcessingOptionsResult {
+  if (raw === undefined || raw === null) {
+    return { valid: true, options: {} };
+  }
+
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    return { valid: false, error: "options must be an object" };
+  }
+
+  const input = raw as Record<string, unknown>;
+  const options: ProcessingOptions = {};
+
+  if (input.timecodeStyle !== undefined) {
+    if (!TIMECODE_STYLES.includes(input.timecodeStyle as TimecodeStyle)) {
+      return {
+        valid: false,
+        error: `timecodeStyle must be one of: ${TIMECODE_STYLES.join(", ")}`,
+      };
+    }
+    options.timecodeStyle = input.timecodeStyle as TimecodeStyle;
+  }
+
+  if (input.language !== undefined) {
+    if (!TRANSCRIPTION_LANGUAGES.includes(input.language as TranscriptionLanguage)) {
+      return {
+        valid: false,
+        error: `language must be one of: ${TRANSCRIPTION_LANGUAGES.join(", ")}`,
+      };
+    }
+    options.language = input.language as TranscriptionLanguage;
+  }
+
+  if (input.speakerDiarization !== undefined) {
+    if (typeof input.speakerDiarization !== "boolean") {
+      return { valid: false, error: "speakerDiarization must be a boolean" };
+    }
+    options.speakerDiarization = input.speakerDiarization;
+  }
+
+  if (input.translationLanguages !== undefined) {
+    const languages = input.translationLanguages;
+    if (
+      !Array.isArray(languages) ||
+      !languages.every((code) => TRANSLATION_LANGUAGES.includes(code as TranslationLanguage))
+    ) {
+      return {
+        valid: false,
+        error: `translationLanguages must be an array of: ${TRANSLATION_LANGUAGES.join(", ")}`,
+      };
+    }
+    const unique = Array.from(new Set(languages as TranslationLanguage[]));
+    if (unique.length > MAX_TRANSLATION_LANGUAGES) {
+      return {
+        valid: false,
+        error: `At most ${MAX_TRANSLATION_LANGUAGES} translation languages are allowed`,
+      };
+    }
+    if (unique.length > 0) {
+      options.translationLanguages = unique;
+    }
+  }
+
+  if (input.topicGrouping !== undefined) {
+    if (!TOPIC_GROUPING_STRATEGIES.includes(input.topicGrouping as TopicGroupingStrategy)) {
+      return {
+        valid: false,
+        error: `topicGrouping must be one of: ${TOPIC_GROUPING_STRATEGIES.join(", ")}`,
+      };
+    }
+    options.topicGrouping = input.topicGrouping as TopicGroupingStrategy;
+  }
+
+  for (const key of ["minTopicGroupDuration", "maxTopicGroupDuration"] as const) {
+    if (input[key] !== undefined) {
+      const seconds = input[key];
+      if (
+        typeof seconds !== "number" ||
+        !Number.isFinite(seconds) ||
+        seconds < TOPIC_GROUP_DURATION_RANGE.min ||
+        seconds > TOPIC_GROUP_DURATION_RANGE.max
+      ) {
+        return {
+          valid: false,
+          error: `${key} must be a number of seconds between ${TOPIC_GROUP_DURATION_RANGE.min} and ${TOPIC_GROUP_DURATION_RANGE.max}`,
+        };
+      }
+      options[key] = seconds;
+    }
+  }
+
+  if (
+    options.minTopicGroupDuration !== undefined &&
+    options.maxTopicGroupDuration !== undefined &&
+    options.minTopicGroupDuration >= options.maxTopicGroupDuration
+  ) {
+    return { valid: false, error: "minTopicGroupDuration must be less than maxTopicGroupDuration" };
+  }
+
+  return { valid: true, options };
+}
@@ -79,6 +79,27 @@ export async function trackVideoUsage(data: UsageTrackData): Promise<void> {
   }
 }
 
+/**
+ * ユーザーのプラン種別を取得（サーバー側。取得できない場合は free）
+ * @param token - Clerk JWT token
+ */
+export async function getUserPlanType(token?: string | null): Promise<string> {
+  if (!token) return 'free';
+
+  try {
+    const response = await fetch(`${SAAS_PLATFORM_URL}/api/quota/check`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    if (!response.ok) return 'free';
+
+    const quotaData = await response.json();
+    return quotaData.plan_type || 'free';
+  } catch {
+    // プラン取得の失敗は free プランとして扱う
+    return 'free';
+  }
+}
+
 /**
  * リテンション設定（プランごとの保持期間・件数上限）
  */
@@ -3,7 +3,14 @@ import {
   PutObjectCommand,
   GetObjectCommand,
   DeleteObjectCommand,
+  DeleteObjectsCommand,
   HeadObjectCommand,
+  ListObjectsV2Command,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  ListPartsCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
 } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 
@@ -40,6 +47,112 @@ export async function generateUploadUrl(
   return getSignedUrl(r2Client, command, { expiresIn });
 }
 
+/**
+ * Start a multipart upload (for large files; see lib/multipart-upload.ts)
+ * @param key - The object key (path) in R2
+ * @param contentType - The MIME type of the file
+ * @returns The multipart upload ID
+ */
+export async function createMultipartUpload(key: string, contentType: string): Promise<string> {
+  const response = await r2Client.send(new CreateMultipartUploadCommand({
+    Bucket: R2_BUCKET,
+    Key: key,
+    ContentType: contentType,
+  }));
+  if (!response.UploadId) {
+    throw new Error(`R2 did not return a multipart upload ID: ${key}`);
+  }
+  return response.UploadId;
+}
+
+/**
+ * Generate a presigned URL for uploading one part of a multipart upload
+ * @param key - The object key (path) in R2
+ * @param multipartUploadId - The multipart upload ID
+ * @param partNumber - 1-based part number
+ * @param expiresIn - URL expiration time in seconds (default: 1 hour)
+ */
+export async function generateUploadPartUrl(
+  key: string,
+  multipartUploadId: string,
+  partNumber: number,
+  expiresIn: number = 3600
+): Promise<string> {
+  const command = new UploadPartCommand({
+    Bucket: R2_BUCKET,
+    Key: key,
+    UploadId: multipartUploadId,
+    PartNumber: partNumber,
+  });
+  return getSignedUrl(r2Client, command, { expiresIn });
+}
+
+/**
+ * List the parts already stored for a multipart upload (used to resume)
+ * @param key - The object key (path) in R2
+ * @param multipartUploadId - The multipart upload ID
+ */
+export async function listUploadedParts(
+  key: string,
+  multipartUploadId: string
+): Promise<{ partNumber: number; etag: string; size: number }[]> {
+  const parts: { partNumber: number; etag: string; size: number }[] = [];
+  let partNumberMarker: string | undefined;
+
+  do {
+    const listed = await r2Client.send(new ListPartsCommand({
+      Bucket: R2_BUCKET,
+      Key: key,
+      UploadId: multipartUploadId,
+      PartNumberMarker: partNumberMarker,
+    }));
+    for (const part of listed.Parts ?? []) {
+      if (part.PartNumber && part.ETag) {
+        parts.push({ partNumber: part.PartNumber, etag: part.ETag, size: part.Size ?? 0 });
+      }
+    }
+    partNumberMarker = listed.IsTruncated ? listed.NextPartNumberMarker : undefined;
+  } while (partNumberMarker);
+
+  return parts;
+}
+
+/**
+ * Assemble the uploaded parts into the final object
+ * @param key - The object key (path) in R2
+ * @param multipartUploadId - The multipart upload ID
+ * @param parts - Every part with the ETag returned by its PUT
+ */
+export async function completeMultipartUpload(
+  key: string,
+  multipartUploadId: string,
+  parts: { partNumber: number; etag: string }[]
+): Promise<void> {
+  await r2Client.send(new CompleteMultipartUploadCommand({
+    Bucket: R2_BUCKET,
+    Key: key,
+    UploadId: multipartUploadId,
+    MultipartUpload: {
+      Parts: [...parts]
+        .sort((a, b) => a.partNumber - b.partNumber)
+        .map((part) => ({ PartNumber: part.partNumber, ETag: part.etag })),
+    },
+  }));
+}
+
+/**
+ * Abort a multipart upload and discard its stored parts
+ * @param key - The object key (path) in R2
+ * @param multipartUploadId - The multipart upload ID
+ */
+export async function abortMultipartUpload(key: string, multipartUploadId: string): Promise<void> {
+  await r2Client.send(new AbortMultipartUploadCommand({
+    Bucket: R2_BUCKET,
+    Key: key,
+    UploadId: multipartUploadId,
+  }));
+}
+
 /**
  * Generate a presigned URL for downloading a file from R2
  * @param key - The object key (path) in R2
@@ -61,6 +174,22 @@ export async function generateDownloadUrl(
   return getSignedUrl(r2Client, command, { expiresIn });
 }
 
+/**
+ * Read an object from R2 as UTF-8 text (for small JSON documents)
+ * @param key - The object key (path) in R2
+ */
+export async function getObjectText(key: string): Promise<string> {
+  const command = new GetObjectCommand({
+    Bucket: R2_BUCKET,
+    Key: key,
+  });
+  const response = await r2Client.send(command);
+  if (!response.Body) {
+    throw new Error(`Empty R2 object body: ${key}`);
+  }
+  return response.Body.transformToString('utf-8');
+}
+
 /**
  * Delete an object from R2
  * @param key - The object key (path) to delete
@@ -73,6 +202,39 @@ export async function deleteObject(key: string): Promise<void> {
   await r2Client.send(command);
 }
 
+/**
+ * Delete every object under a key prefix (e.g. a result's frames/ folder)
+ * @param prefix - The key prefix to delete
+ * @returns Number of deleted objects
+ */
+export async function deleteObjectsWithPrefix(prefix: string): Promise<number> {
+  let deleted = 0;
+  let continuationToken: string | undefined;
+
+  do {
+    const listed = await r2Client.send(new ListObjectsV2Command({
+      Bucket: R2_BUCKET,
+      Prefix: prefix,
+      ContinuationToken: continuationToken,
+    }));
+    const keys = (listed.Contents ?? [])
+      .map((object) => object.Key)
+      .filter((key): key is string => !!key);
+
+    if (keys.length > 0) {
+      await r2Client.send(new DeleteObjectsCommand({
+        Bucket: R2_BUCKET,
+        Delete: { Objects: keys.map((Key) => ({ Key })) },
+      }));
+      deleted += keys.length;
+    }
+
+    continuationToken = listed.IsTruncated ? listed.NextContinuationToken : undefined;
+  } while (continuationToken);
+
+  return deleted;
+}
+
 /**
  * Check if an object exists in R2
  * @param key - The object key (path) to check
@@ -99,6 +261,14 @@ export function isValidR2Key(key: string): boolean {
   return pattern.test(key);
 }
 
+/**
+ * Check that a key is a video upload key of the given user
+ * Expected format: uploads/{userId}/{uploadId}/{fileName}
+ */
+export function isUserUploadKey(key: string, userId: string): boolean {
+  return isValidR2Key(key) && key.startsWith(`uploads/${userId}/`);
+}
+
 /**
  * Check if a URL is an R2 URL
  */
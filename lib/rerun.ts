@@ -0,0 +1,48 @@
+/**
+ * Stage rerun helpers
+ *
+ * Steps a completed upload can be re-run from, and validation of the body sent
+ * to POST /api/uploads/[uploadId]/rerun. The Worker reuses everything upstream
+ * of the chosen step from the checkpoint it retains after processing.
+ */
+
+import type { ProcessingOptions, RerunStep } from "@/types/shared";
+import { validateProcessingOptions } from "@/lib/processing-options";
+
+/** Ordered upstream → downstream (same order as the Worker pipeline) */
+export const RERUN_STEPS: readonly RerunStep[] = ["transcription", "scene_detection", "ocr", "excel_generation"];
+
+export const RERUN_STEP_LABELS: Record<RerunStep, string> = {
+  transcription: "Transcription and everything after",
+  scene_detection: "Scene detection, OCR and report",
+  ocr: "OCR and report",
+  excel_generation: "Report only (reuse OCR results)",
+};
+
+export type RerunRequestResult =
+  | { valid: true; fromStep: RerunStep; options: ProcessingOptions }
+  | { valid: false; error: string };
+
+/**
+ * Validate a rerun request body
+ * @param raw - Parsed request body ({ fromStep, options? })
+ * @returns Validated step and option overrides, or an error message for a 400 response
+ */
+export function validateRerunRequest(raw: unknown): RerunRequestResult {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return { valid: false, error: "Request body must be an object" };
+  }
+
+  const input = raw as Record<string, unknown>;
+
+  if (!RERUN_STEPS.includes(input.fromStep as RerunStep)) {
+    return { valid: false, error: `fromStep must be one of: ${RERUN_STEPS.join(", ")}` };
+  }
+
+  const optionsResult = validateProcessingOptions(input.options);
+  if (!optionsResult.valid) {
+    return { valid: false, error: optionsResult.error };
+  }
+
+  return { valid: true, fromStep: input.fromStep as RerunStep, options: optionsResult.options };
+}
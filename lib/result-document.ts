@@ -0,0 +1,81 @@
+/**
+ * Structured JSON result loader
+ *
+ * The Worker writes a versioned ResultDocument during the Excel step.
+ * Production: stored in R2 (metadata.exportR2Keys.json)
+ * Development: served by the Worker's /result/:uploadId?format=json endpoint
+ */
+
+import { getObjectText } from "@/lib/r2-client";
+import type { ProcessingMetadata, ResultDocument } from "@/types/shared";
+
+export const SUPPORTED_RESULT_SCHEMA_VERSIONS = [1];
+
+export type ResultDocumentLoadResult =
+  | { ok: true; document: ResultDocument }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Load the JSON result document for an upload owned by userId
+ *
+ * @param uploadId - Upload ID (already ownership-checked by the caller)
+ * @param userId - Authenticated user ID (R2 key ownership check)
+ * @param metadata - processing_status.metadata for the upload
+ * @returns The document, or an error with HTTP status (404 missing, 403 key mismatch, 502 Worker/R2 failure)
+ */
+export async function loadResultDocument(
+  uploadId: string,
+  userId: string,
+  metadata: ProcessingMetadata | null
+): Promise<ResultDocumentLoadResult> {
+  let raw: string;
+
+  if (process.env.NODE_ENV === "development") {
+    const cloudRunUrl = process.env.CLOUD_RUN_URL?.trim() || "http://localhost:8080";
+    const workerSecret = process.env.WORKER_SECRET?.trim();
+
+    if (!workerSecret) {
+      return { ok: false, status: 500, error: "Server configuration error: Missing WORKER_SECRET" };
+    }
+
+    const response = await fetch(`${cloudRunUrl}/result/${uploadId}?format=json`, {
+      headers: { Authorization: `Bearer ${workerSecret}` },
+      signal: AbortSignal.timeout(30000),
+    });
+
+    if (response.status === 404) {
+      return { ok: false, status: 404, error: "Result data not available" };
+    }
+    if (!response.ok) {
+      return { ok: false, status: 502, error: `Worker returned status ${response.status}` };
+    }
+    raw = await response.text();
+  } else {
+    const jsonR2Key = metadata?.exportR2Keys?.json;
+
+    if (!jsonR2Key) {
+      return { ok: false, status: 404, error: "Result data not available" };
+    }
+
+    // Security: Verify that the R2 key belongs to this user
+    if (!jsonR2Key.includes(`/${userId}/`)) {
+      console.warn(`[${uploadId}] User ${userId} attempted to access R2 key: ${jsonR2Key}`);
+      return { ok: false, status: 403, error: "Forbidden" };
+    }
+
+    try {
+      raw = await getObjectText(jsonR2Key);
+    } catch (error) {
+      console.error(`[${uploadId}] Failed to read result JSON from R2:`, error);
+      return { ok: false, status: 502, error: "Failed to read result data" };
+    }
+  }
+
+  const document = JSON.parse(raw) as ResultDocument;
+
+  if (!SUPPORTED_RESULT_SCHEMA_VERSIONS.includes(document.schemaVersion)) {
+    return { ok: false, status: 500, error: `Unsupported result schema version: ${document.schemaVersion}` };
+  }
+
+  return { ok: true, document };
+}
@@ -0,0 +1,177 @@
+/**
+ * Scene review editor helpers
+ *
+ * Merge / split / delete operations used by SceneEditor, and validation of the
+ * edited scene list sent to PUT /api/uploads/[uploadId]/result. The Worker
+ * regenerates the Excel report from these rows without re-running OCR or Whisper.
+ */
+
+import type { EditedScene, ResultScene } from "@/types/shared";
+
+export const MAX_EDITED_SCENES = 5000;
+export const MAX_SCENE_TEXT_LENGTH = 10000;
+
+/** Shortest scene a split may produce (seconds) */
+export const MIN_SPLIT_DURATION = 0.1;
+
+/**
+ * Scene row held by the editor
+ */
+export interface EditorScene extends EditedScene {
+  key: string; // stable React key (survives merge/split)
+  timecode: string | null; // original timecode; null once the start time changed
+  screenshotFile: string | null;
+}
+
+export type SceneEditsResult =
+  | { valid: true; scenes: EditedScene[] }
+  | { valid: false; error: string };
+
+/**
+ * Build editor rows from the stored result scenes
+ */
+export function toEditorScenes(scenes: ResultScene[]): EditorScene[] {
+  return scenes.map((scene) => ({
+    key: String(scene.sceneNumber),
+    sourceSceneNumber: scene.sceneNumber,
+    startTime: scene.startTime,
+    endTime: scene.endTime,
+    ocrText: scene.ocrText,
+    narrationText: scene.narrationText,
+    timecode: scene.timecode,
+    screenshotFile: scene.screenshotFile ?? null,
+  }));
+}
+
+/**
+ * Join two texts, dropping empties and exact duplicates (repeated OCR)
+ */
+function joinText(first: string, second: string, separator: string): string {
+  const a = first.trim();
+  const b = second.trim();
+  if (!a || a === b) return b;
+  if (!b) return a;
+  return `${a}${separator}${b}`;
+}
+
+/**
+ * Merge a scene with the following one
+ * The merged scene keeps the first scene's screenshot and timecode.
+ */
+export function mergeWithNext(scenes: EditorScene[], index: number): EditorScene[] {
+  const current = scenes[index];
+  const next = scenes[index + 1];
+  if (!current || !next) return scenes;
+
+  const merged: EditorScene = {
+    ...current,
+    endTime: next.endTime,
+    ocrText: joinText(current.ocrText, next.ocrText, "\n"),
+    narrationText: joinText(current.narrationText, next.narrationText, " "),
+  };
+
+  return [...scenes.slice(0, index), merged, ...scenes.slice(index + 2)];
+}
+
+/**
+ * Split a scene in two at the given time (default: midpoint)
+ * Both halves share the original screenshot and start with the same text.
+ * Returns the list unchanged when the split point leaves a half shorter than MIN_SPLIT_DURATION.
+ */
+export function splitScene(scenes: EditorScene[], index: number, atTime?: number): EditorScene[] {
+  const scene = scenes[index];
+  if (!scene) return scenes;
+
+  const splitTime = atTime ?? (scene.startTime + scene.endTime) / 2;
+  if (
+    splitTime - scene.startTime < MIN_SPLIT_DURATION ||
+    scene.endTime - splitTime < MIN_SPLIT_DURATION
+  ) {
+    return scenes;
+  }
+
+  const first: EditorScene = { ...scene, key: `${scene.key}.1`, endTime: splitTime };
+  const second: EditorScene = { ...scene, key: `${scene.key}.2`, startTime: splitTime, timecode: null };
+
+  return [...scenes.slice(0, index), first, second, ...scenes.slice(index + 1)];
+}
+
+/**
+ * Remove a scene (its time range is simply dropped from the report)
+ */
+export function deleteScene(scenes: EditorScene[], index: number): EditorScene[] {
+  return scenes.filter((_, i) => i !== index);
+}
+
+/**
+ * Strip editor-only fields before sending scenes to the API
+ */
+export function toEditedScenes(scenes: EditorScene[]): EditedScene[] {
+  return scenes.map(({ sourceSceneNumber, startTime, endTime, ocrText, narrationText }) => ({
+    sourceSceneNumber,
+    startTime,
+    endTime,
+    ocrText,
+    narrationText,
+  }));
+}
+
+/**
+ * Validate the edited scene list from a request body
+ * Checks shape and ordering; the Worker additionally checks sources and video duration.
+ *
+ * @param raw - `scenes` field from the request body
+ * @returns Validated scenes, or an error message for a 400 response
+ */
+export function validateSceneEdits(raw: unknown): SceneEditsResult {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return { valid: false, error: "scenes must be a non-empty array" };
+  }
+
+  if (raw.length > MAX_EDITED_SCENES) {
+    return { valid: false, error: `scenes must not exceed ${MAX_EDITED_SCENES} entries` };
+  }
+
+  const scenes: EditedScene[] = [];
+
+  for (let i = 0; i < raw.length; i++) {
+    const input = raw[i] as Record<string, unknown> | null;
+    const label = `scenes[${i}]`;
+
+    if (typeof input !== "object" || input === null) {
+      return { valid: false, error: `${label} must be an object` };
+    }
+
+    const { sourceSceneNumber, startTime, endTime, ocrText, narrationText } = input;
+
+    if (!Number.isInteger(sourceSceneNumber) || (sourceSceneNumber as number) < 1) {
+      return { valid: false, error: `${label}.sourceSceneNumber must be a positive integer` };
+    }
+    if (
+      typeof startTime !== "number" || typeof endTime !== "number" ||
+      !Number.isFinite(startTime) || !Number.isFinite(endTime) ||
+      startTime < 0 || endTime <= startTime
+    ) {
+      return { valid: false, error: `${label} must have 0 <= startTime < endTime` };
+    }
+    if (typeof ocrText !== "string" || typeof narrationText !== "string") {
+      return { valid: false, error: `${label}.ocrText and narrationText must be strings` };
+    }
+    if (ocrText.length > MAX_SCENE_TEXT_LENGTH || narrationText.length > MAX_SCENE_TEXT_LENGTH) {
+      return { valid: false, error: `${label} text must not exceed ${MAX_SCENE_TEXT_LENGTH} characters` };
+    }
+    if (i > 0 && startTime < scenes[i - 1].endTime) {
+      return { valid: false, error: `${label} overlaps the previous scene` };
+    }
+
+    scenes.push({
+      sourceSceneNumber: sourceSceneNumber as number,
+      startTime,
+      endTime,
+      ocrText,
+      narrationText,
+    });
+  }
+
+  return { valid: true, scenes };
+}
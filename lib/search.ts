@@ -0,0 +1,235 @@
+/**
+ * Full-text search across a user's processed videos
+ *
+ * The Worker indexes each completed upload's per-scene OCR and narration text
+ * into the scene_search FTS5 table (cloud-run-worker/src/services/searchIndex.ts,
+ * lib/turso-migrations/011_create_scene_search.sql). Every query is scoped to
+ * the caller's user_id and joined with processing_status, so deleted uploads
+ * never show up even before their rows are pruned.
+ *
+ * The table uses the trigram tokenizer: terms of 3+ characters go through
+ * MATCH, shorter ones (common for Japanese words) fall back to LIKE.
+ */
+
+import type { Client, InStatement } from "@libsql/client";
+
+export const MAX_SEARCH_QUERY_LENGTH = 200;
+export const MAX_SEARCH_TERMS = 8;
+export const SEARCH_PAGE_SIZE = 20;
+
+const TRIGRAM_MIN_LENGTH = 3;
+const SNIPPET_CONTEXT_CHARS = 40;
+
+export type SearchQueryResult =
+  | { valid: true; terms: string[] }
+  | { valid: false; error: string };
+
+/**
+ * Part of a snippet; `highlight` marks text matching a search term
+ */
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+/**
+ * A scene matching the search
+ */
+export interface SearchHit {
+  uploadId: string;
+  fileName: string;
+  sceneNumber: number;
+  startTime: number;
+  timecode: string;
+  /** Scene screenshot (app route), null when the upload kept none */
+  thumbnailUrl: string | null;
+  /** Where the snippet comes from */
+  field: "ocr" | "narration";
+  snippet: SnippetPart[];
+}
+
+/**
+ * Validate a search query and split it into terms (all must match)
+ * @param raw - Value of the `q` parameter
+ */
+export function parseSearchQuery(raw: string | null): SearchQueryResult {
+  const query = raw?.trim() ?? "";
+  if (query === "") {
+    return { valid: false, error: "q is required" };
+  }
+  if (query.length > MAX_SEARCH_QUERY_LENGTH) {
+    return { valid: false, error: `q must be at most ${MAX_SEARCH_QUERY_LENGTH} characters` };
+  }
+
+  const terms = Array.from(new Set(query.split(/\s+/).map((term) => term.replace(/"/g, "")).filter(Boolean)));
+  if (terms.length === 0) {
+    return { valid: false, error: "q is required" };
+  }
+  if (terms.length > MAX_SEARCH_TERMS) {
+    return { valid: false, error: `q must have at most ${MAX_SEARCH_TERMS} words` };
+  }
+
+  return { valid: true, terms };
+}
+
+function escapeLike(term: string): string {
+  return term.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Build the search query for one page of results
+ * Fetches `limit + 1` rows so the caller can tell whether there is another page.
+ */
+export function buildSearchStatement(userId: string, terms: string[], limit: number, offset: number): InStatement {
+  const matchTerms = terms.filter((term) => term.length >= TRIGRAM_MIN_LENGTH);
+  const likeTerms = terms.filter((term) => term.length < TRIGRAM_MIN_LENGTH);
+
+  const conditions = ["scene_search.user_id = ?"];
+  const args: (string | number)[] = [userId];
+
+  if (matchTerms.length > 0) {
+    // Each term as a phrase: FTS5 syntax characters in user input are taken literally
+    conditions.push("scene_search MATCH ?");
+    args.push(matchTerms.map((term) => `"${term}"`).join(" "));
+  }
+  for (const term of likeTerms) {
+    conditions.push("(scene_search.ocr_text LIKE ? ESCAPE '\\' OR scene_search.narration_text LIKE ? ESCAPE '\\')");
+    const pattern = `%${escapeLike(term)}%`;
+    args.push(pattern, pattern);
+  }
+
+  return {
+    sql: `SELECT scene_search.upload_id, scene_search.file_name, scene_search.scene_number,
+                 scene_search.start_time, scene_search.timecode, scene_search.screenshot_file,
+                 scene_search.ocr_text, scene_search.narration_text
+          FROM scene_search
+          JOIN processing_status
+            ON processing_status.upload_id = scene_search.upload_id
+           AND processing_status.user_id = scene_search.user_id
+          WHERE ${conditions.join(" AND ")}
+          ORDER BY ${matchTerms.length > 0 ? "scene_search.rank, " : ""}processing_status.created_at DESC,
+                   CAST(scene_search.scene_number AS INTEGER)
+          LIMIT ? OFFSET ?`,
+    args: [...args, limit + 1, offset],
+  };
+}
+
+/**
+ * Cut a snippet around the first match and mark every term occurrence in it
+ * @returns Snippet parts, or null when no term occurs in the text
+ */
+export function buildSnippet(text: string, terms: string[], context = SNIPPET_CONTEXT_CHARS): SnippetPart[] | null {
+  const lower = text.toLowerCase();
+  const lowerTerms = terms.map((term) => term.toLowerCase());
+
+  const first = Math.min(...lowerTerms.map((term) => lower.indexOf(term)).filter((index) => index >= 0));
+  if (!Number.isFinite(first)) return null;
+
+  const start = Math.max(0, first - context);
+  const end = Math.min(text.length, first + context * 2);
+
+  // Characters inside a match
+  const marked = new Array<boolean>(end - start).fill(false);
+  for (const term of lowerTerms) {
+    let index = lower.indexOf(term, Math.max(0, start - term.length + 1));
+    while (index >= 0 && index < end) {
+      for (let i = Math.max(index, start); i < Math.min(index + term.length, end); i++) {
+        marked[i - start] = true;
+      }
+      index = lower.indexOf(term, index + 1);
+    }
+  }
+
+  const parts: SnippetPart[] = [];
+  for (let i = 0; i < marked.length; i++) {
+    const char = text[start + i];
+    const last = parts[parts.length - 1];
+    if (last && last.highlight === marked[i]) {
+      last.text += char;
+    } else {
+      parts.push({ text: char, highlight: marked[i] });
+    }
+  }
+
+  if (start > 0) parts.unshift({ text: "…", highlight: false });
+  if (end < text.length) parts.push({ text: "…", highlight: false });
+  return parts;
+}
+
+/**
+ * Search the caller's indexed scenes
+ *
+ * @param client - Turso client
+ * @param userId - Authenticated user (results are limited to their uploads)
+ * @param terms - Terms from parseSearchQuery
+ * @param page - 1-based page of SEARCH_PAGE_SIZE results
+ */
+export async function searchScenes(
+  client: Client,
+  userId: string,
+  terms: string[],
+  page: number
+): Promise<{ hits: SearchHit[]; hasMore: boolean }> {
+  const result = await client.execute(
+    buildSearchStatement(userId, terms, SEARCH_PAGE_SIZE, (page - 1) * SEARCH_PAGE_SIZE)
+  );
+
+  const hits = result.rows.slice(0, SEARCH_PAGE_SIZE).map((row): SearchHit => {
+    const uploadId = row.upload_id as string;
+    const ocrText = (row.ocr_text as string | null) ?? "";
+    const narrationText = (row.narration_text as string | null) ?? "";
+    const screenshotFile = row.screenshot_file as string | null;
+
+    const ocrSnippet = buildSnippet(ocrText, terms);
+    const field = ocrSnippet || !narrationText ? "ocr" : "narration";
+    const snippet =
+      (field === "ocr" ? ocrSnippet : buildSnippet(narrationText, terms)) ??
+      [{ text: (field === "ocr" ? ocrText : narrationText).slice(0, SNIPPET_CONTEXT_CHARS * 3), highlight: false }];
+
+    return {
+      uploadId,
+      fileName: (row.file_name as string | null) ?? "",
+      sceneNumber: Number(row.scene_number),
+      startTime: Number(row.start_time),
+      timecode: (row.timecode as string | null) ?? "",
+      thumbnailUrl: screenshotFile
+        ? `/api/uploads/${encodeURIComponent(uploadId)}/screenshots/${encodeURIComponent(screenshotFile)}`
+        : null,
+      field,
+      snippet,
+    };
+  });
+
+  return { hits, hasMore: result.rows.length > SEARCH_PAGE_SIZE };
+}
+
+/**
+ * Remove an upload from the search index (best-effort, like R2 cleanup)
+ */
+export async function deleteFromSearchIndex(client: Client, uploadId: string, userId: string): Promise<void> {
+  try {
+    await client.execute({
+      sql: "DELETE FROM scene_search WHERE upload_id = ? AND user_id = ?",
+      args: [uploadId, userId],
+    });
+  } catch (error) {
+    // scene_search may not exist yet (created by the Worker on first use)
+    console.warn(`[${uploadId}] Search index delete failed:`, error);
+  }
+}
+
+/**
+ * Remove index rows whose upload record no longer exists (bulk cleanup)
+ * @returns Number of removed rows (0 when the table does not exist yet)
+ */
+export async function pruneSearchIndex(client: Client): Promise<number> {
+  try {
+    const result = await client.execute(
+      "DELETE FROM scene_search WHERE upload_id NOT IN (SELECT upload_id FROM processing_status)"
+    );
+    return result.rowsAffected;
+  } catch (error) {
+    console.warn("Search index prune failed:", error);
+    return 0;
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Semantic scene search and "ask the video"
+ *
+ * The Worker embeds each upload's per-scene OCR + narration text into the
+ * scene_embeddings table (cloud-run-worker/src/services/semanticIndex.ts,
+ * lib/turso-migrations/012_create_scene_embeddings.sql). Queries need the same
+ * embedding provider, so /api/search/semantic and /api/uploads/[uploadId]/ask
+ * proxy to the Worker; this module holds the shared validation and cleanup.
+ */
+
+import type { Client } from "@libsql/client";
+
+export const MAX_SEMANTIC_QUERY_LENGTH = 500;
+export const DEFAULT_SEMANTIC_RESULTS = 10;
+export const MAX_SEMANTIC_RESULTS = 50;
+
+export type SemanticQueryResult =
+  | { valid: true; query: string }
+  | { valid: false; error: string };
+
+/**
+ * A scene returned by semantic search
+ */
+export interface SemanticSearchHit {
+  uploadId: string;
+  fileName: string;
+  sceneNumber: number;
+  startTime: number;
+  timecode: string;
+  text: string;
+  /** Cosine similarity to the query (higher is closer) */
+  score: number;
+}
+
+/**
+ * A scene an answer is based on
+ */
+export interface SemanticCitation {
+  sceneNumber: number;
+  startTime: number;
+  timecode: string;
+}
+
+/**
+ * Response of POST /api/uploads/[uploadId]/ask
+ */
+export interface AskVideoResponse {
+  uploadId: string;
+  answer: string;
+  citations: SemanticCitation[];
+}
+
+/**
+ * Validate a search query or question
+ * @param raw - User input
+ * @param field - Name used in error messages ("q", "question")
+ */
+export function parseSemanticQuery(raw: unknown, field: string): SemanticQueryResult {
+  const query = typeof raw === "string" ? raw.trim() : "";
+  if (query === "") {
+    return { valid: false, error: `${field} is required` };
+  }
+  if (query.length > MAX_SEMANTIC_QUERY_LENGTH) {
+    return { valid: false, error: `${field} must be at most ${MAX_SEMANTIC_QUERY_LENGTH} characters` };
+  }
+  return { valid: true, query };
+}
+
+/**
+ * Remove an upload's scene embeddings (best-effort, like R2 cleanup)
+ */
+export async function deleteFromSemanticIndex(client: Client, uploadId: string, userId: string): Promise<void> {
+  try {
+    await client.execute({
+      sql: "DELETE FROM scene_embeddings WHERE upload_id = ? AND user_id = ?",
+      args: [uploadId, userId],
+    });
+  } catch (error) {
+    // scene_embeddings may not exist yet (created by the Worker on first use)
+    console.warn(`[${uploadId}] Semantic index delete failed:`, error);
+  }
+}
+
+/**
+ * Remove embeddings whose upload record no longer exists (bulk cleanup)
+ * @returns Number of removed rows (0 when the table does not exist yet)
+ */
+export async function pruneSemanticIndex(client: Client): Promise<number> {
+  try {
+    const result = await client.execute(
+      "DELETE FROM scene_embeddings WHERE upload_id NOT IN (SELECT upload_id FROM processing_status)"
+    );
+    return result.rowsAffected;
+  } catch (error) {
+    console.warn("Semantic index prune failed:", error);
+    return 0;
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Live status stream client
+ *
+ * Subscribes to /api/status/[uploadId]/stream (Server-Sent Events). A dropped
+ * connection (the proxy ends every stream after its maxDuration) is reopened by
+ * EventSource's own retry. Callers keep their polling loop as the fallback: onDrop
+ * fires once when the stream is unsupported, refused, or fails
+ * MAX_CONSECUTIVE_ERRORS times without reconnecting, and polling takes over.
+ */
+
+import type { ProcessingStatus } from "@/types/shared";
+
+const MAX_CONSECUTIVE_ERRORS = 3;
+
+export interface StatusStreamHandlers {
+  /** Full status snapshot; return true for a terminal status to close the stream */
+  onStatus: (status: ProcessingStatus) => boolean | void;
+  /** Non-fatal processing warning, as it occurs */
+  onWarning?: (message: string) => void;
+  /** The stream cannot be (re)opened or is unsupported; switch to polling */
+  onDrop: () => void;
+}
+
+/**
+ * Open the status stream of an upload
+ * @returns Function that closes the stream
+ */
+export function openStatusStream(uploadId: string, handlers: StatusStreamHandlers): () => void {
+  if (typeof EventSource === "undefined") {
+    handlers.onDrop();
+    return () => {};
+  }
+
+  const source = new EventSource(`/api/status/${encodeURIComponent(uploadId)}/stream`);
+  let closed = false;
+  let consecutiveErrors = 0;
+
+  const close = () => {
+    closed = true;
+    source.close();
+  };
+
+  source.addEventListener("status", (event) => {
+    if (closed) return;
+    try {
+      const status = JSON.parse((event as MessageEvent<string>).data) as ProcessingStatus;
+      if (handlers.onStatus(status) === true) close();
+    } catch (err) {
+      console.warn(`[${uploadId}] Ignoring malformed status event:`, err);
+    }
+  });
+
+  source.addEventListener("warning", (event) => {
+    if (closed) return;
+    try {
+      const { message } = JSON.parse((event as MessageEvent<string>).data) as { message: string };
+      handlers.onWarning?.(message);
+    } catch (err) {
+      console.warn(`[${uploadId}] Ignoring malformed warning event:`, err);
+    }
+  });
+
+  source.onopen = () => {
+    consecutiveErrors = 0;
+  };
+
+  // EventSource reconnects on its own after a dropped connection; give up only when
+  // it stopped retrying (error response) or keeps failing, so a broken proxy path
+  // does not loop on reconnects
+  source.onerror = () => {
+    if (closed) return;
+    consecutiveErrors++;
+    if (source.readyState !== EventSource.CLOSED && consecutiveErrors < MAX_CONSECUTIVE_ERRORS) {
+      console.warn(`[${uploadId}] Status stream dropped, reconnecting (${consecutiveErrors}/${MAX_CONSECUTIVE_ERRORS})`);
+      return;
+    }
+    console.warn(`[${uploadId}] Status stream failed, falling back to polling`);
+    close();
+    handlers.onDrop();
+  };
+
+  return close;
+}
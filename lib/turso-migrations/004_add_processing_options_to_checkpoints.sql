@@ -0,0 +1,5 @@
+-- Add processing_options column to processing_checkpoints
+-- Stage reruns (POST /api/uploads/[uploadId]/rerun) reuse the upload's original
+-- per-upload options (JSON ProcessingOptions, e.g. {"timecodeStyle":"smpte"})
+
+ALTER TABLE processing_checkpoints ADD COLUMN processing_options TEXT;
@@ -0,0 +1,30 @@
+-- Create processing_jobs table for the worker job queue
+-- /process enqueues here; each worker instance claims jobs up to WORKER_CONCURRENCY
+-- in (priority, enqueued_at) order. Rows outlive worker restarts.
+
+CREATE TABLE IF NOT EXISTS processing_jobs (
+  upload_id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+
+  -- Job payload (same fields as the /process request)
+  r2_key TEXT NOT NULL,
+  file_name TEXT,
+  data_consent INTEGER NOT NULL DEFAULT 0,
+  processing_options TEXT,                 -- JSON ProcessingOptions
+
+  -- Ordering
+  plan_type TEXT NOT NULL DEFAULT 'free',
+  priority INTEGER NOT NULL DEFAULT 2,     -- Lower runs first (pro=0, basic/teacher=1, free=2)
+
+  -- Lifecycle
+  state TEXT NOT NULL DEFAULT 'queued',    -- queued, running, completed, failed
+  worker_id TEXT,                          -- Instance that claimed the job
+
+  -- Timestamps
+  enqueued_at TEXT NOT NULL,
+  started_at TEXT,
+  finished_at TEXT
+);
+
+-- Index for claiming the next job
+CREATE INDEX IF NOT EXISTS idx_processing_jobs_queue ON processing_jobs(state, priority, enqueued_at);
@@ -0,0 +1,5 @@
+-- Add interrupted_at column to processing_checkpoints
+-- Set by the Worker's graceful shutdown handler; the startup/recovery routine
+-- re-queues interrupted jobs and clears it when it claims the checkpoint
+
+ALTER TABLE processing_checkpoints ADD COLUMN interrupted_at TEXT;
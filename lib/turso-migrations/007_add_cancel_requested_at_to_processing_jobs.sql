@@ -0,0 +1,6 @@
+-- Add cancel_requested_at column to processing_jobs
+-- Set when a user cancels a running job; every Worker instance polls for
+-- requests against the jobs it runs. Queued jobs are cancelled directly
+-- (state = 'cancelled').
+
+ALTER TABLE processing_jobs ADD COLUMN cancel_requested_at TEXT;
@@ -0,0 +1,40 @@
+-- Create webhook tables for completion notifications
+-- webhook_endpoints: one endpoint per account, managed from the app (/api/webhooks)
+-- webhook_deliveries: delivery log written by the Worker on completed / error transitions,
+-- retried with backoff until delivered or out of attempts
+
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  user_id TEXT PRIMARY KEY,
+  url TEXT NOT NULL,
+  secret TEXT NOT NULL,                    -- HMAC-SHA256 signing secret (whsec_...)
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id TEXT PRIMARY KEY,                     -- Sent as X-Webhook-Id (stable across retries)
+  user_id TEXT NOT NULL,
+  upload_id TEXT NOT NULL,
+  event TEXT NOT NULL,                     -- upload.completed, upload.failed
+  url TEXT NOT NULL,                       -- Endpoint URL of the latest attempt
+  payload TEXT NOT NULL,                   -- JSON body without the download URL (re-signed per attempt)
+  result_r2_key TEXT,                      -- Result file a fresh download URL is signed for
+
+  -- Delivery state
+  state TEXT NOT NULL DEFAULT 'pending',   -- pending, succeeded, failed
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_status_code INTEGER,
+  last_error TEXT,
+  next_attempt_at TEXT,                    -- Due time (or lease while an attempt runs); NULL when done
+
+  -- Timestamps
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  delivered_at TEXT
+);
+
+-- Index for the delivery log (newest first per account)
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_user ON webhook_deliveries(user_id, created_at);
+
+-- Index for the retry poller
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(state, next_attempt_at);
@@ -0,0 +1,23 @@
+-- Create API key tables for the public REST API
+-- api_keys: per-user keys managed from the app (/api/api-keys); only a SHA-256 hash is stored
+-- api_key_rate_limits: per-key request counters in fixed one-minute windows
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id TEXT PRIMARY KEY,                     -- key_...
+  user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  key_prefix TEXT NOT NULL,                -- First characters of the key, shown in the UI
+  key_hash TEXT NOT NULL UNIQUE,           -- SHA-256 hex of the full key
+  created_at TEXT NOT NULL,
+  last_used_at TEXT,
+  revoked_at TEXT                          -- Revoked keys are kept for the list but never authenticate
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_user ON api_keys(user_id, created_at);
+
+CREATE TABLE IF NOT EXISTS api_key_rate_limits (
+  key_id TEXT NOT NULL,
+  window_start INTEGER NOT NULL,           -- Unix seconds at the start of the minute
+  request_count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (key_id, window_start)
+);
@@ -0,0 +1,5 @@
+-- Add source_url column to processing_jobs
+-- Set for "import from URL" jobs: the Worker downloads the video from this URL
+-- into r2_key before processing (NULL for browser uploads).
+
+ALTER TABLE processing_jobs ADD COLUMN source_url TEXT;
@@ -0,0 +1,18 @@
+-- Create scene_search table (full-text search across a user's uploads)
+-- One row per scene with OCR or narration text, written by the Worker when an
+-- upload completes (and after scene edits); searched by /api/search.
+-- The trigram tokenizer matches substrings, which works for Japanese text.
+-- Queries must always filter on user_id.
+
+CREATE VIRTUAL TABLE IF NOT EXISTS scene_search USING fts5(
+  ocr_text,
+  narration_text,
+  upload_id UNINDEXED,
+  user_id UNINDEXED,
+  file_name UNINDEXED,
+  scene_number UNINDEXED,
+  start_time UNINDEXED,
+  timecode UNINDEXED,
+  screenshot_file UNINDEXED,
+  tokenize = 'trigram'
+);
@@ -0,0 +1,21 @@
+-- Create scene_embeddings table (semantic scene search and "ask the video")
+-- One row per scene with OCR or narration text: the combined text and its
+-- embedding, written by the Worker after LLM cleansing (and after scene edits).
+-- model records the embedding model; vectors of different models are never compared.
+-- embedding is a libSQL vector32() blob, compared with vector_distance_cos().
+-- Queries must always filter on user_id.
+
+CREATE TABLE IF NOT EXISTS scene_embeddings (
+  upload_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  scene_number INTEGER NOT NULL,
+  file_name TEXT NOT NULL,
+  start_time REAL NOT NULL,
+  timecode TEXT NOT NULL,
+  text TEXT NOT NULL,
+  model TEXT NOT NULL,
+  embedding BLOB NOT NULL,
+  PRIMARY KEY (upload_id, scene_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_scene_embeddings_user ON scene_embeddings(user_id, model);
@@ -0,0 +1,15 @@
+-- Create glossary_entries table (per-account custom glossary)
+-- Managed from the app (/api/glossary, the whole list is replaced on save).
+-- The Worker reads it when processing an upload: preferred spellings are passed to
+-- Whisper as a prompt, to OCR as hints, substituted for aliases after OCR and given
+-- to LLM cleansing as authoritative terms (cloud-run-worker/src/services/glossary.ts).
+
+CREATE TABLE IF NOT EXISTS glossary_entries (
+  user_id TEXT NOT NULL,
+  position INTEGER NOT NULL,               -- Display order (0-based)
+  term TEXT NOT NULL,                      -- Preferred spelling
+  aliases TEXT NOT NULL DEFAULT '[]',      -- JSON array of known misspellings, replaced by term after OCR
+  reading TEXT,                            -- Optional reading (e.g. katakana) for LLM cleansing
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (user_id, position)
+);
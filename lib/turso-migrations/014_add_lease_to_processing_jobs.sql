@@ -0,0 +1,9 @@
+-- Add lease_expires_at and attempts columns to processing_jobs
+-- The Worker instance running a job renews lease_expires_at while it runs.
+-- A running job whose lease expired was abandoned by an instance killed
+-- without a shutdown signal (OOM, SIGKILL); the recovery sweep re-queues it,
+-- or fails it once it has been claimed RESUME_RETRY_LIMIT times (attempts).
+-- Rows claimed before this migration have no lease and are left as they are.
+
+ALTER TABLE processing_jobs ADD COLUMN lease_expires_at TEXT;
+ALTER TABLE processing_jobs ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0;
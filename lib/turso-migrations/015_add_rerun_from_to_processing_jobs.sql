@@ -0,0 +1,6 @@
+-- Add rerun_from column to processing_jobs
+-- Set for stage reruns (POST /rerun): the job resumes from the prepared
+-- checkpoint at this step, and r2_key is the source video the checkpoint
+-- retained. NULL for regular uploads.
+
+ALTER TABLE processing_jobs ADD COLUMN rerun_from TEXT;
@@ -0,0 +1,10 @@
+-- Create user_plans table (last known plan per user)
+-- The plan comes from the SaaS platform, which needs the user's Clerk token.
+-- Session requests to /api/process record the plan they resolve; API key
+-- requests (no Clerk token) are queued with the recorded plan (lib/user-plans.ts).
+
+CREATE TABLE IF NOT EXISTS user_plans (
+  user_id TEXT PRIMARY KEY,
+  plan_type TEXT NOT NULL,                 -- free / basic / pro / teacher
+  updated_at TEXT NOT NULL
+);
@@ -0,0 +1,5 @@
+-- Add transcription_language column to processing_checkpoints
+-- Language the Whisper chunks were transcribed in; with 'auto' it is detected once
+-- and reused when a resumed job transcribes the remaining chunks
+
+ALTER TABLE processing_checkpoints ADD COLUMN transcription_language TEXT;
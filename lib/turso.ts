@@ -9,6 +9,7 @@ import { createClient, type Client } from '@libsql/client';
 import { auth } from '@clerk/nextjs/server';
 import { verifyToken } from '@clerk/backend';
 import { headers } from 'next/headers';
+import { authenticateApiKey, getApiKeyFromHeader, RATE_LIMIT_EXCEEDED } from '@/lib/api-keys';
 
 /**
  * Tursoクライアントとユーザー認証を取得
@@ -17,11 +18,16 @@ import { headers } from 'next/headers';
  * 認証フロー:
  * 1. セッションクッキー認証を試行（同一ドメイン）
  * 2. 失敗した場合、AuthorizationヘッダーのJWTトークンを検証（クロスドメイン）
+ *    allowApiKey 指定時は `Bearer vak_...` をAPIキーとして検証（公開REST API用, lib/api-keys.ts）
  *
+ * @param options.allowApiKey - APIキー認証を許可する（公開APIのルートのみ）
  * @returns { client: Client, userId: string }
- * @throws Error - ユーザーが未認証の場合
+ * @throws Error('Unauthorized') - ユーザーが未認証の場合
+ * @throws Error(RATE_LIMIT_EXCEEDED) - APIキーがレート制限を超えた場合（429を返すこと）
  */
-export async function getTursoClient(): Promise<{ client: Client; userId: string }> {
+export async function getTursoClient(
+  options: { allowApiKey?: boolean } = {}
+): Promise<{ client: Client; userId: string }> {
   let userId: string | null = null;
 
   // 1. セッションクッキー認証を試行（同一ドメインリクエスト用）
@@ -37,7 +43,17 @@ export async function getTursoClient(): Promise<{ client: Client; userId: string
     const headersList = await headers();
     const authHeader = headersList.get('authorization');
 
-    if (authHeader?.startsWith('Bearer ')) {
+    if (getApiKeyFromHeader(authHeader)) {
+      // APIキー（公開REST API）: 許可されたルートのみ
+      if (options.allowApiKey) {
+        const apiKeyAuth = await authenticateApiKey(authHeader);
+        if (apiKeyAuth?.ok) {
+          userId = apiKeyAuth.userId;
+        } else if (apiKeyAuth?.status === 429) {
+          throw new Error(RATE_LIMIT_EXCEEDED);
+        }
+      }
+    } else if (authHeader?.startsWith('Bearer ')) {
       const token = authHeader.substring(7);
       try {
         const verifiedToken = await verifyToken(token, {
@@ -0,0 +1,111 @@
+/**
+ * Upload deletion
+ *
+ * Removes everything stored for one upload: the Excel result and every export
+ * (metadata.resultR2Key / exportR2Keys), the scene editor screenshots
+ * (metadata.screenshotsR2Prefix), a processing checkpoint retained for stage
+ * reruns with the source video it keeps, the processing_status record and the
+ * search / semantic index rows.
+ *
+ * Shared by DELETE /api/uploads/[uploadId] and the retention cleanups (cron and
+ * the over-quota cleanup in /api/process). R2 deletes are best-effort: a file
+ * that is already gone does not stop the rest.
+ */
+
+import type { Client } from "@libsql/client";
+import { deleteObject, deleteObjectsWithPrefix } from "@/lib/r2-client";
+import { deleteFromSearchIndex } from "@/lib/search";
+import { deleteFromSemanticIndex } from "@/lib/semantic-search";
+
+export interface UploadDeletionResult {
+  /** R2 objects deleted (screenshots counted individually) */
+  r2Deleted: number;
+  /** R2 deletes that failed (logged, not thrown) */
+  r2Failed: number;
+}
+
+/**
+ * Delete an upload's R2 files, retained checkpoint, status record and index rows
+ *
+ * @param client - Turso client
+ * @param uploadId - Upload to delete
+ * @param userId - Owner (every delete is scoped to it)
+ * @param metadata - Parsed processing_status.metadata of the upload (null when empty)
+ */
+export async function deleteUploadData(
+  client: Client,
+  uploadId: string,
+  userId: string,
+  metadata: Record<string, unknown> | null
+): Promise<UploadDeletionResult> {
+  const result: UploadDeletionResult = { r2Deleted: 0, r2Failed: 0 };
+
+  const deleteKey = async (key: string, label: string) => {
+    try {
+      await deleteObject(key);
+      result.r2Deleted++;
+      console.log(`[${uploadId}] R2 ${label} deleted: ${key}`);
+    } catch (r2Error) {
+      // Log but don't fail — R2 file may already be deleted
+      result.r2Failed++;
+      console.warn(`[${uploadId}] R2 ${label} delete failed (may already be gone):`, r2Error);
+    }
+  };
+
+  // Excel result + exports (SRT/VTT, EDL/FCPXML, JSON, chapters)
+  const exportR2Keys = (metadata?.exportR2Keys ?? {}) as Record<string, unknown>;
+  const r2Keys = [metadata?.resultR2Key, ...Object.values(exportR2Keys)]
+    .filter((key): key is string => typeof key === "string");
+  for (const r2Key of r2Keys) {
+    await deleteKey(r2Key, "file");
+  }
+
+  // Scene editor screenshots (only under this user's prefix)
+  const screenshotsPrefix = metadata?.screenshotsR2Prefix;
+  if (typeof screenshotsPrefix === "string" && screenshotsPrefix.startsWith(`results/${userId}/${uploadId}/`)) {
+    try {
+      const count = await deleteObjectsWithPrefix(screenshotsPrefix);
+      result.r2Deleted += count;
+      console.log(`[${uploadId}] R2 screenshots deleted: ${count}`);
+    } catch (r2Error) {
+      result.r2Failed++;
+      console.warn(`[${uploadId}] R2 screenshot delete failed:`, r2Error);
+    }
+  }
+
+  // Checkpoint retained for stage reruns (and its intermediate files)
+  try {
+    const checkpoint = await client.execute({
+      sql: "SELECT intermediate_video_path, intermediate_audio_path FROM processing_checkpoints WHERE upload_id = ? AND user_id = ?",
+      args: [uploadId, userId],
+    });
+    if (checkpoint.rows.length > 0) {
+      const intermediateKeys = [
+        checkpoint.rows[0].intermediate_video_path,
+        checkpoint.rows[0].intermediate_audio_path,
+      ].filter((key): key is string => typeof key === "string" && key.includes(`/${userId}/`));
+
+      for (const key of intermediateKeys) {
+        await deleteKey(key, "intermediate file");
+      }
+
+      await client.execute({
+        sql: "DELETE FROM processing_checkpoints WHERE upload_id = ? AND user_id = ?",
+        args: [uploadId, userId],
+      });
+    }
+  } catch (error) {
+    // processing_checkpoints may not exist yet (created by the Worker on first use)
+    console.warn(`[${uploadId}] Checkpoint delete failed:`, error);
+  }
+
+  // Status record and search rows
+  await client.execute({
+    sql: "DELETE FROM processing_status WHERE upload_id = ? AND user_id = ?",
+    args: [uploadId, userId],
+  });
+  await deleteFromSearchIndex(client, uploadId, userId);
+  await deleteFromSemanticIndex(client, uploadId, userId);
+
+  return result;
+}
@@ -0,0 +1,174 @@
+/**
+ * Client-side batch upload queue
+ *
+ * Queue items are plain JSON so they can be persisted to localStorage and
+ * restored after a reload (File objects cannot be). Used by useUploadQueue,
+ * which owns the File objects and runs the uploads.
+ */
+
+import { MAX_VIDEO_FILE_SIZE } from "@/lib/video-upload";
+import type { ProcessingOptions } from "@/types/shared";
+
+/** Files uploaded at the same time ("Sequential" = 1) */
+export const UPLOAD_CONCURRENCY_OPTIONS = [1, 2, 3] as const;
+export type UploadConcurrency = (typeof UPLOAD_CONCURRENCY_OPTIONS)[number];
+
+const STORAGE_KEY_PREFIX = "video-analyzer:upload-queue";
+
+export type UploadQueueItemStatus =
+  | "waiting" // queued, not started
+  | "uploading" // PUT to R2 in flight
+  | "submitting" // POST /api/process in flight
+  | "submitted" // accepted by /api/process
+  | "paused"
+  | "error";
+
+export interface UploadQueueItem {
+  id: string;
+  fileName: string;
+  fileSize: number;
+  fileType: string;
+  lastModified: number;
+  options: ProcessingOptions;
+  status: UploadQueueItemStatus;
+  progress: number; // 0-100
+  uploadId?: string;
+  r2Key?: string;
+  multipartUploadId?: string; // large files: parts stored in R2 survive pause and reload
+  partSize?: number;
+  uploaded?: boolean; // file is in R2; only /api/process is left
+  needsFile?: boolean; // restored after a reload; the file must be selected again
+  error?: string;
+  retryable?: boolean;
+  addedAt: string;
+}
+
+export interface PersistedUploadQueue {
+  items: UploadQueueItem[];
+  concurrency: UploadConcurrency;
+}
+
+export function getUploadQueueStorageKey(userId: string): string {
+  return `${STORAGE_KEY_PREFIX}:${userId}`;
+}
+
+/**
+ * Reject non-video and oversized files before they are queued
+ */
+export function validateVideoFile(file: File): string | null {
+  if (!file.type.startsWith("video/")) {
+    return "Please select a valid video file.";
+  }
+  if (file.size > MAX_VIDEO_FILE_SIZE) {
+    return "File size exceeds 2GB limit.";
+  }
+  return null;
+}
+
+/**
+ * Identifies a file across reloads (name + size + mtime)
+ */
+export function fileFingerprint(file: Pick<File, "name" | "size" | "lastModified">): string {
+  return `${file.name}:${file.size}:${file.lastModified}`;
+}
+
+export function createQueueItem(file: File, options: ProcessingOptions): UploadQueueItem {
+  return {
+    id: `queue_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`,
+    fileName: file.name,
+    fileSize: file.size,
+    fileType: file.type || "video/mp4",
+    lastModified: file.lastModified,
+    options,
+    status: "waiting",
+    progress: 0,
+    addedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Waiting items to start now, in queue order, without exceeding the concurrency
+ *
+ * Items that still need their file re-selected are skipped.
+ */
+export function pickRunnableItems(
+  items: UploadQueueItem[],
+  concurrency: number,
+  hasFile: (id: string) => boolean
+): UploadQueueItem[] {
+  const active = items.filter((item) => item.status === "uploading" || item.status === "submitting").length;
+  const slots = Math.max(0, concurrency - active);
+  if (slots === 0) return [];
+
+  return items
+    .filter((item) => item.status === "waiting" && (item.uploaded || hasFile(item.id)))
+    .slice(0, slots);
+}
+
+/**
+ * Rebuild the queue from its persisted form
+ *
+ * Requests in flight when the page unloaded are restarted: an item whose file
+ * already reached R2 goes back to waiting (only /api/process is left), any
+ * other unfinished item is paused until its file is selected again. Multipart
+ * uploads keep their IDs so they resume from the parts already in R2.
+ */
+export function restoreUploadQueue(raw: string | null): PersistedUploadQueue | null {
+  if (!raw) return null;
+
+  let parsed: Partial<PersistedUploadQueue>;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!parsed || !Array.isArray(parsed.items)) return null;
+
+  const concurrency = UPLOAD_CONCURRENCY_OPTIONS.includes(parsed.concurrency as UploadConcurrency)
+    ? (parsed.concurrency as UploadConcurrency)
+    : 1;
+
+  const items = parsed.items
+    .filter((item): item is UploadQueueItem => !!item && typeof item.id === "string" && typeof item.fileName === "string")
+    .map((item): UploadQueueItem => {
+      if (item.status === "submitted") return item;
+
+      if (item.uploaded) {
+        const interrupted = item.status === "uploading" || item.status === "submitting";
+        return interrupted ? { ...item, status: "waiting" } : item;
+      }
+
+      if (item.multipartUploadId) {
+        return { ...item, status: "paused", needsFile: true, error: undefined, retryable: undefined };
+      }
+
+      return {
+        ...item,
+        status: "paused",
+        progress: 0,
+        uploadId: undefined,
+        r2Key: undefined,
+        needsFile: true,
+        error: undefined,
+        retryable: undefined,
+      };
+    });
+
+  return { items, concurrency };
+}
+
+/**
+ * User-facing message for an upload failure, and whether retrying may help
+ */
+export function getUploadErrorMessage(error: unknown): { message: string; retryable: boolean } {
+  if (error instanceof Error) {
+    const msg = error.message.toLowerCase();
+    if (msg.includes("network") || msg.includes("fetch")) return { message: "Network error. Check connection and retry.", retryable: true };
+    if (msg.includes("timeout")) return { message: "Upload timed out. Try a smaller file.", retryable: true };
+    if (msg.includes("unauthorized") || msg.includes("401")) return { message: "Authentication failed. Please sign in again.", retryable: false };
+    if (msg.includes("size") || msg.includes("too large") || msg.includes("413")) return { message: "File too large (Max: 2GB).", retryable: false };
+    if (msg.includes("cors")) return { message: "Upload blocked by CORS policy. Please try again.", retryable: true };
+    return { message: `Upload failed: ${error.message}`, retryable: true };
+  }
+  return { message: "An unexpected error occurred.", retryable: true };
+}
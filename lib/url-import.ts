@@ -0,0 +1,91 @@
+/**
+ * Import from URL
+ *
+ * Validation of the `sourceUrl` accepted by /api/process instead of an
+ * uploaded r2Key. The Worker downloads the video straight into R2
+ * (cloud-run-worker/src/services/urlImporter.ts), resolves the host again and
+ * probes the file with ffprobe before processing starts.
+ */
+
+export type ImportUrlResult =
+  | { valid: true; url: string; fileName: string }
+  | { valid: false; error: string };
+
+const MAX_URL_LENGTH = 4096;
+const DEFAULT_FILE_NAME = "video.mp4";
+
+// Never reachable through an import: loopback and link-local (cloud metadata)
+const BLOCKED_HOST_PATTERNS = [
+  /^localhost$/i,
+  /\.localhost$/i,
+  /^127\./,
+  /^169\.254\./,
+  /^0\./,
+  /^\[?::1\]?$/,
+  /^\[?fe80:/i,
+  /^metadata\.google\.internal$/i,
+];
+
+// Internal servers; allowed only when URL_IMPORT_ALLOW_PRIVATE_NETWORKS=true
+const PRIVATE_HOST_PATTERNS = [
+  /^10\./,
+  /^192\.168\./,
+  /^172\.(1[6-9]|2\d|3[01])\./,
+  /^\[?f[cd][0-9a-f]{2}:/i,
+];
+
+/**
+ * File name for the R2 key, taken from the last path segment of the URL
+ */
+export function getFileNameFromUrl(url: URL): string {
+  const segment = url.pathname.split("/").filter(Boolean).pop() ?? "";
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(segment);
+  } catch {
+    decoded = segment;
+  }
+  const sanitized = decoded.replace(/[^\w.\-]+/g, "_").replace(/^[._]+/, "").slice(0, 200);
+  return sanitized || DEFAULT_FILE_NAME;
+}
+
+/**
+ * Validate a source URL for import
+ * @param raw - Value of `sourceUrl` in the request body
+ * @returns Normalized URL and the file name to store it under, or an error message for a 400 response
+ */
+export function validateImportUrl(raw: unknown): ImportUrlResult {
+  if (typeof raw !== "string" || raw.trim() === "") {
+    return { valid: false, error: "sourceUrl is required" };
+  }
+  if (raw.length > MAX_URL_LENGTH) {
+    return { valid: false, error: `sourceUrl must be at most ${MAX_URL_LENGTH} characters` };
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(raw.trim());
+  } catch {
+    return { valid: false, error: "sourceUrl must be an absolute URL" };
+  }
+
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    return { valid: false, error: "sourceUrl must use http or https" };
+  }
+  if (parsed.username || parsed.password) {
+    return { valid: false, error: "sourceUrl must not contain credentials" };
+  }
+
+  const host = parsed.hostname;
+  if (BLOCKED_HOST_PATTERNS.some((pattern) => pattern.test(host))) {
+    return { valid: false, error: "sourceUrl host is not allowed" };
+  }
+  if (
+    process.env.URL_IMPORT_ALLOW_PRIVATE_NETWORKS !== "true" &&
+    PRIVATE_HOST_PATTERNS.some((pattern) => pattern.test(host))
+  ) {
+    return { valid: false, error: "sourceUrl points to a private network" };
+  }
+
+  return { valid: true, url: parsed.toString(), fileName: getFileNameFromUrl(parsed) };
+}
@@ -0,0 +1,46 @@
+/**
+ * Plan of the user behind a request
+ *
+ * The SaaS platform resolves the plan from the user's Clerk token, which API key
+ * requests do not have. Session requests record the plan they resolve in
+ * user_plans, and API key requests of the same user are given that plan.
+ */
+
+import type { Client } from "@libsql/client";
+import { getUserPlanType } from "@/lib/quota";
+
+/**
+ * Resolve a user's plan (free when it cannot be determined)
+ * @param client - Turso client
+ * @param userId - Authenticated user
+ * @param token - Clerk JWT of a session request, null for API key requests
+ */
+export async function resolveUserPlanType(client: Client, userId: string, token: string | null): Promise<string> {
+  if (token) {
+    const planType = await getUserPlanType(token);
+    try {
+      await client.execute({
+        sql: `INSERT INTO user_plans (user_id, plan_type, updated_at)
+              VALUES (?, ?, datetime('now'))
+              ON CONFLICT(user_id) DO UPDATE SET
+                plan_type = excluded.plan_type,
+                updated_at = excluded.updated_at`,
+        args: [userId, planType],
+      });
+    } catch (error) {
+      console.warn(`[user-plans] Failed to record plan of ${userId}:`, error);
+    }
+    return planType;
+  }
+
+  try {
+    const result = await client.execute({
+      sql: "SELECT plan_type FROM user_plans WHERE user_id = ?",
+      args: [userId],
+    });
+    return (result.rows[0]?.plan_type as string | undefined) || "free";
+  } catch (error) {
+    console.warn(`[user-plans] Failed to read plan of ${userId}:`, error);
+    return "free";
+  }
+}
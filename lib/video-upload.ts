@@ -0,0 +1,72 @@
+/**
+ * Video upload validation and multipart part layout
+ *
+ * Shared by /api/r2/upload-url, the /api/r2/multipart routes and the browser
+ * uploader (lib/multipart-upload.ts), so part sizes always agree on both ends.
+ */
+
+export const MAX_VIDEO_FILE_SIZE = 2 * 1024 * 1024 * 1024; // 2GB
+
+export const ALLOWED_VIDEO_TYPES = [
+  'video/mp4',
+  'video/quicktime', // .mov
+  'video/x-msvideo', // .avi
+  'video/x-matroska', // .mkv
+  'video/webm',
+];
+
+/** Part size of multipart uploads (R2 requires at least 5MB for every part but the last) */
+export const MULTIPART_PART_SIZE = 16 * 1024 * 1024;
+
+/** Files larger than one part are uploaded in parts; smaller ones with a single PUT */
+export const MULTIPART_THRESHOLD = MULTIPART_PART_SIZE;
+
+/** Part URLs presigned per /api/r2/multipart/parts request */
+export const MAX_PART_URLS_PER_REQUEST = 50;
+
+export type VideoUploadRequestResult =
+  | { valid: true; fileName: string; contentType: string; fileSize?: number }
+  | { valid: false; error: string };
+
+/**
+ * Validate the { fileName, contentType, fileSize } body of an upload request
+ */
+export function validateVideoUploadRequest(body: unknown): VideoUploadRequestResult {
+  const { fileName, contentType, fileSize } = (body ?? {}) as Record<string, unknown>;
+
+  if (typeof fileName !== 'string' || !fileName || typeof contentType !== 'string' || !contentType) {
+    return { valid: false, error: 'Missing required fields: fileName and contentType' };
+  }
+
+  if (!ALLOWED_VIDEO_TYPES.includes(contentType)) {
+    return { valid: false, error: 'Unsupported video format. Allowed: MP4, MOV, AVI, MKV, WebM' };
+  }
+
+  if (typeof fileSize === 'number' && fileSize > MAX_VIDEO_FILE_SIZE) {
+    return {
+      valid: false,
+      error: `File size exceeds 2GB limit. Current: ${(fileSize / (1024 * 1024 * 1024)).toFixed(2)}GB`,
+    };
+  }
+
+  return { valid: true, fileName, contentType, fileSize: typeof fileSize === 'number' ? fileSize : undefined };
+}
+
+/**
+ * Number of parts for a file of the given size
+ */
+export function getPartCount(fileSize: number, partSize: number = MULTIPART_PART_SIZE): number {
+  return Math.max(1, Math.ceil(fileSize / partSize));
+}
+
+/**
+ * Byte range [start, end) of a 1-based part
+ */
+export function getPartRange(
+  partNumber: number,
+  fileSize: number,
+  partSize: number = MULTIPART_PART_SIZE
+): { start: number; end: number } {
+  const start = (partNumber - 1) * partSize;
+  return { start, end: Math.min(start + partSize, fileSize) };
+}
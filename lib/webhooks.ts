@@ -0,0 +1,113 @@
+/**
+ * Completion webhook helpers
+ *
+ * Validation of the endpoint URL registered through /api/webhooks and
+ * generation of its signing secret. Deliveries are sent by the Worker
+ * (cloud-run-worker/src/services/webhookService.ts) and recorded in
+ * webhook_deliveries, which /api/webhooks/deliveries exposes as the delivery log.
+ */
+
+import { randomBytes } from "crypto";
+
+export type WebhookDeliveryState = "pending" | "succeeded" | "failed";
+
+/** GET /api/webhooks response (the secret is only returned in full when created) */
+export interface WebhookEndpointInfo {
+  url: string;
+  secretPreview: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** One row of the delivery log */
+export interface WebhookDeliveryRecord {
+  id: string;
+  uploadId: string;
+  event: "upload.completed" | "upload.failed";
+  url: string;
+  state: WebhookDeliveryState;
+  attempts: number;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  nextAttemptAt: string | null;
+  createdAt: string;
+  deliveredAt: string | null;
+}
+
+export type WebhookUrlResult =
+  | { valid: true; url: string }
+  | { valid: false; error: string };
+
+const MAX_URL_LENGTH = 2048;
+
+// Hosts the Worker must never be pointed at (loopback, link-local metadata, private ranges).
+// Hostnames are only matched here; the Worker resolves the host before every delivery.
+const PRIVATE_HOST_PATTERNS = [
+  /^localhost$/i,
+  /\.localhost$/i,
+  /^127\./,
+  /^10\./,
+  /^192\.168\./,
+  /^172\.(1[6-9]|2\d|3[01])\./,
+  /^169\.254\./,
+  /^0\./,
+  /^\[?::1\]?$/,
+  /^\[?f[cd][0-9a-f]{2}:/i,
+];
+
+/**
+ * Validate a webhook endpoint URL
+ * @param raw - Value of `url` in the request body
+ * @returns Normalized URL, or an error message for a 400 response
+ *
+ * HTTPS is required; http://localhost is accepted in development so receivers
+ * can be tested locally.
+ */
+export function validateWebhookUrl(raw: unknown): WebhookUrlResult {
+  if (typeof raw !== "string" || raw.trim() === "") {
+    return { valid: false, error: "url is required" };
+  }
+  if (raw.length > MAX_URL_LENGTH) {
+    return { valid: false, error: `url must be at most ${MAX_URL_LENGTH} characters` };
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(raw.trim());
+  } catch {
+    return { valid: false, error: "url must be an absolute URL" };
+  }
+
+  if (parsed.username || parsed.password) {
+    return { valid: false, error: "url must not contain credentials" };
+  }
+
+  const isDevelopment = process.env.NODE_ENV === "development";
+  const isPrivateHost = PRIVATE_HOST_PATTERNS.some((pattern) => pattern.test(parsed.hostname));
+
+  if (isDevelopment && parsed.protocol === "http:" && parsed.hostname === "localhost") {
+    return { valid: true, url: parsed.toString() };
+  }
+  if (parsed.protocol !== "https:") {
+    return { valid: false, error: "url must use https" };
+  }
+  if (isPrivateHost && !isDevelopment) {
+    return { valid: false, error: "url must point to a public host" };
+  }
+
+  return { valid: true, url: parsed.toString() };
+}
+
+/**
+ * Generate a new signing secret
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+/**
+ * Shorten a secret for display (whsec_…last4)
+ */
+export function maskWebhookSecret(secret: string): string {
+  return `whsec_…${secret.slice(-4)}`;
+}